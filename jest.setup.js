@@ -57,6 +57,9 @@ jest.mock('firebase/auth', () => ({
 // Mock Firebase Firestore for testing
 jest.mock('firebase/firestore', () => ({
   getFirestore: jest.fn(),
+  initializeFirestore: jest.fn(),
+  persistentLocalCache: jest.fn(),
+  persistentMultipleTabManager: jest.fn(),
   collection: jest.fn(),
   doc: jest.fn(),
   addDoc: jest.fn(),
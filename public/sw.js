@@ -0,0 +1,81 @@
+/**
+ * @fileOverview Service worker for offline reading
+ *
+ * - Chapter data (`/api/chapters…`: index, text, annotations, knowledge graph),
+ *   the reading dictionary (`/api/dictionary`), the character catalog (`/api/characters`) and pages: network first, falling back to the last cached copy offline.
+ *   Every chapter opened online is therefore readable offline afterwards;
+ *   `saveChapterForOffline` in `src/lib/offline-cache.ts` fills the same cache ahead of time.
+ * - Build assets (`/_next/static/…`) are content-hashed: cache first.
+ *
+ * Notes, highlights and XP go through Firestore and the offline write queue
+ * (`src/lib/offline-sync.ts`), not through this worker.
+ *
+ * Bump CACHE_VERSION to drop every cache on the next activation. The chapter
+ * cache name must match CHAPTER_CACHE_NAME in `src/lib/offline-cache.ts`.
+ */
+
+const CACHE_VERSION = 'v1';
+const CHAPTER_CACHE = `redmansion-chapters-${CACHE_VERSION}`;
+const PAGE_CACHE = `redmansion-pages-${CACHE_VERSION}`;
+const STATIC_CACHE = `redmansion-static-${CACHE_VERSION}`;
+const CURRENT_CACHES = [CHAPTER_CACHE, PAGE_CACHE, STATIC_CACHE];
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(
+        names
+          .filter(name => name.startsWith('redmansion-') && !CURRENT_CACHES.includes(name))
+          .map(name => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Fetch from the network and keep a copy; serve the copy when the network fails
+async function networkFirst(request, cacheName, fallbackOptions) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request) || (fallbackOptions && await cache.match(request, fallbackOptions));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname === '/api/chapters' || url.pathname.startsWith('/api/chapters/') || url.pathname === '/api/dictionary' || url.pathname === '/api/characters') {
+    event.respondWith(networkFirst(request, CHAPTER_CACHE));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, STATIC_CACHE));
+  } else if (request.mode === 'navigate') {
+    // A page opened with other query parameters (e.g. another chapter) still renders the reader offline
+    event.respondWith(networkFirst(request, PAGE_CACHE, { ignoreSearch: true }));
+  }
+});
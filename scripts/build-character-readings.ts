@@ -0,0 +1,58 @@
+/**
+ * @fileOverview Command-line build of the character reading table
+ *
+ * Writes `src/lib/character-readings.json`, the default reading of every single
+ * character of the bundled CC-CEDICT selection (`cedict.json`), for ruby
+ * annotation. Traditional and Simplified forms both get a reading.
+ *
+ * Where CC-CEDICT gives a character several readings, the default is the
+ * reading with the most glosses, counting names (capitalised pinyin) with the
+ * same reading; the hand-edited table in `character-readings.ts` overrides it
+ * for the polyphonic characters of the book.
+ * Run it again after `npm run dictionary:build`.
+ *
+ * Usage:
+ *   npm run readings:build
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { DictionaryEntry } from '@/types/dictionary';
+import { pinyinKey } from '@/lib/cedict';
+import { CEDICT_FILE } from '@/lib/dictionary-corpus';
+
+const OUT_FILE = path.join(process.cwd(), 'src/lib/character-readings.json');
+
+async function main() {
+  const cedict = JSON.parse(await fs.readFile(CEDICT_FILE, 'utf-8'));
+  const entries: DictionaryEntry[] = cedict.entries;
+
+  // Character → reading → number of glosses, in dictionary order
+  const glosses = new Map<string, Map<string, number>>();
+  for (const entry of entries) {
+    if (entry.traditional.length !== 1) continue;
+    const pinyin = pinyinKey(entry.pinyin);
+    for (const char of new Set([entry.traditional, entry.simplified])) {
+      const readings = glosses.get(char) ?? new Map<string, number>();
+      readings.set(pinyin, (readings.get(pinyin) ?? 0) + (entry.english?.length ?? 0));
+      glosses.set(char, readings);
+    }
+  }
+  const readings = [...glosses].map(([char, counts]) => {
+    const [pinyin] = [...counts].reduce((best, reading) => (reading[1] > best[1] ? reading : best));
+    return `${char}${pinyin}`;
+  });
+
+  const table = {
+    source: `${cedict.attribution}, via ${path.relative(process.cwd(), CEDICT_FILE)}`,
+    license: cedict.license,
+    readings: readings.join(' '),
+  };
+  await fs.writeFile(OUT_FILE, `${JSON.stringify(table, null, 2)}\n`, 'utf-8');
+  console.log(`${OUT_FILE}: ${readings.length} characters`);
+}
+
+main().catch(error => {
+  console.error('Reading table build failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+/**
+ * @fileOverview Command-line build of the Traditional → Simplified tables
+ *
+ * Writes `src/lib/chinese-variants.json` from the OpenCC dictionaries that
+ * `opencc-js` ships, for the Taiwan → Mainland conversion (OpenCC `tw2s`):
+ *
+ * - `twVariantPhrases`, `twVariants`: Taiwan forms to OpenCC Traditional forms
+ *   (裡 → 裏, 著 → 着 outside 著名…), applied first;
+ * - `phrases`, `characters`: OpenCC Traditional to Simplified.
+ *
+ * Entries are kept only where both sides have the same length in UTF-16 code
+ * units, as conversion must keep the offsets of the text; characters only where
+ * both are one code unit, outside the supplementary planes. Where OpenCC lists
+ * several Simplified characters, the first is taken, as OpenCC does.
+ * Run it again after upgrading `opencc-js`.
+ *
+ * Usage:
+ *   npm run variants:build
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+const OUT_FILE = path.join(process.cwd(), 'src/lib/chinese-variants.json');
+const OPENCC_DICT_DIR = path.join(process.cwd(), 'node_modules/opencc-js/dist/esm-lib/dict');
+
+// An OpenCC dictionary as `opencc-js` builds it: `export default "傳統 传统|…"`
+async function readOpenccDictionary(name: string): Promise<[string, string][]> {
+  const source = await fs.readFile(path.join(OPENCC_DICT_DIR, `${name}.js`), 'utf-8');
+  const match = /export default "([\s\S]*)"/.exec(source);
+  if (!match) {
+    throw new Error(`${name}.js is not an OpenCC dictionary`);
+  }
+  return match[1].split('|').map(entry => {
+    const [from, to] = entry.split(' ');
+    return [from, to];
+  });
+}
+
+const sameLength = ([from, to]: [string, string]) => Boolean(to) && from.length === to.length;
+
+const formatEntries = (entries: [string, string][]) => entries.map(([from, to]) => `${from} ${to}`).join('|');
+
+async function main() {
+  const { version } = JSON.parse(
+    await fs.readFile(path.join(process.cwd(), 'node_modules/opencc-js/package.json'), 'utf-8')
+  );
+  const [twVariantPhrases, twVariants, phrases, characters] = await Promise.all(
+    ['TWVariantsRevPhrases', 'TWVariantsRev', 'TSPhrases', 'TSCharacters'].map(readOpenccDictionary)
+  );
+
+  const tables = {
+    source: `OpenCC (opencc-js ${version}), Taiwan → Mainland`,
+    license: 'Apache-2.0',
+    twVariantPhrases: formatEntries(twVariantPhrases.filter(sameLength)),
+    twVariants: formatEntries(twVariants.filter(sameLength)),
+    phrases: formatEntries(phrases.filter(sameLength)),
+    characters: formatEntries(characters.filter(([from, to]) => from.length === 1 && to?.length === 1)),
+  };
+  await fs.writeFile(OUT_FILE, `${JSON.stringify(tables, null, 2)}\n`, 'utf-8');
+  console.log(`${OUT_FILE}: ${characters.length} characters, ${phrases.length + twVariantPhrases.length} phrases`);
+}
+
+main().catch(error => {
+  console.error('Variant table build failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+/**
+ * @fileOverview Command-line build of the CC-CEDICT part of the reading dictionary
+ *
+ * Selects entries from a CC-CEDICT release with `src/lib/cedict.ts` and writes
+ * them to `src/app/(main)/read/dictionary/cedict.json`, one entry per line.
+ * Run it again after adding chapters, so their words are included.
+ *
+ * Usage:
+ *   npm run dictionary:build -- --source <file> [--out <file>]
+ *
+ * Options:
+ *   --source <file>   CC-CEDICT release: the text file from https://cc-cedict.org/
+ *                     (cedict_1_0_ts_utf-8_mdbg.txt), or the JSON array of the
+ *                     `cedict-json` npm package
+ *   --out <file>      Output file (default: the bundled cedict.json)
+ */
+
+import fs from 'fs/promises';
+import { readEditionFromCorpus } from '@/lib/chapter-corpus';
+import { getParagraphText } from '@/lib/chapter-loader';
+import { parseCedict, selectCedictEntries, type CedictEntry } from '@/lib/cedict';
+import { CEDICT_FILE } from '@/lib/dictionary-corpus';
+import { EDITIONS } from '@/lib/editions';
+import { parseArgs } from './cli-args';
+
+// Text of every bundled chapter in every edition
+async function readCorpusText(): Promise<string> {
+  const texts: string[] = [];
+  for (const { id } of EDITIONS) {
+    for (const chapter of await readEditionFromCorpus(id)) {
+      texts.push(chapter.title, ...chapter.paragraphs.map(getParagraphText));
+    }
+  }
+  return texts.join('\n');
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (typeof args.source !== 'string') {
+    throw new Error('Give the CC-CEDICT release with --source <file>');
+  }
+  const outFile = typeof args.out === 'string' ? args.out : CEDICT_FILE;
+
+  const source = await fs.readFile(args.source, 'utf-8');
+  const cedict: CedictEntry[] = args.source.endsWith('.json') ? JSON.parse(source) : parseCedict(source);
+  const entries = selectCedictEntries(cedict, await readCorpusText());
+
+  const header = {
+    name: 'CC-CEDICT 選錄',
+    version: 1,
+    license: 'CC BY-SA 4.0',
+    attribution: 'CC-CEDICT, MDBG (https://cc-cedict.org/)',
+  };
+  // CC-CEDICT entries have no Chinese definitions; the file leaves the empty list out
+  const lines = entries.map(({ definitions: _definitions, ...entry }) => JSON.stringify(entry));
+  const json = `${JSON.stringify(header, null, 2).slice(0, -2)},\n  "entries": [\n${lines.join(',\n')}\n  ]\n}\n`;
+  await fs.writeFile(outFile, json, 'utf-8');
+  console.log(`${outFile}: ${entries.length} of ${cedict.length} CC-CEDICT entries`);
+}
+
+main().catch(error => {
+  console.error('Dictionary build failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,37 @@
+/**
+ * @fileOverview Argument parsing shared by the command-line scripts
+ */
+
+import { isValidChapterNumber } from '@/lib/chapter-loader';
+
+/**
+ * Parse a chapter list such as `1-5,8` into chapter numbers.
+ * @throws Error when a chapter is outside 1-120
+ */
+export function parseChapterList(value: string): number[] {
+  const chapters = value.split(',').flatMap(part => {
+    const [from, to = from] = part.split('-').map(Number);
+    return Array.from({ length: Math.max(to - from + 1, 0) }, (_, i) => from + i);
+  });
+  if (chapters.length === 0 || !chapters.every(isValidChapterNumber)) {
+    throw new Error(`Invalid chapter list: ${value}`);
+  }
+  return chapters;
+}
+
+/**
+ * Parse `--name value` and `--flag` arguments.
+ * @throws Error on an argument that is not an option
+ */
+export function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) {
+      throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+    const name = argv[i].slice(2);
+    const next = argv[i + 1];
+    args[name] = next !== undefined && !next.startsWith('--') ? argv[++i] : true;
+  }
+  return args;
+}
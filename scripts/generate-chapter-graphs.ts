@@ -0,0 +1,80 @@
+/**
+ * @fileOverview Command-line pipeline that generates chapter knowledge graphs
+ *
+ * Runs `src/lib/graph-pipeline.ts` over the chapter corpus and writes a
+ * validated `chapterGraph/chapter{N}.json` for every chapter that has text.
+ * Existing graphs are kept unless `--force` is given, so hand-curated graphs
+ * are not overwritten by accident.
+ *
+ * Usage:
+ *   npm run graphs:generate -- [options]
+ *
+ * Options:
+ *   --backend fake|gemini   Extraction backend (default: fake). `gemini` needs GEMINI_API_KEY.
+ *   --chapters 1-5,8        Chapters to generate (default: 1-120)
+ *   --out <dir>             Output directory (default: src/app/(main)/read/chapterGraph)
+ *   --force                 Replace existing graphs
+ *   --date YYYY-MM-DD       Creation date recorded in the metadata (default: today)
+ *   --chunk-size <n>        Maximum characters per chunk sent to the backend
+ *   --max-entities <n>      Entities kept per chapter
+ *
+ * The fake backend is deterministic and its phase timings are recorded as 0,
+ * so with a fixed `--date` two runs produce identical files (used in CI).
+ */
+
+import { config } from 'dotenv';
+import { TOTAL_CHAPTERS } from '@/lib/chapter-loader';
+import { readCharacterCatalogFromCorpus } from '@/lib/character-corpus';
+import { readEntityCatalogFromCorpus } from '@/lib/entity-corpus';
+import { generateCorpusGraphs } from '@/lib/graph-corpus';
+import { createFakeExtractionBackend, type GraphExtractionBackend } from '@/lib/graph-pipeline';
+import { parseArgs, parseChapterList } from './cli-args';
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const backendId = args.backend === undefined ? 'fake' : String(args.backend);
+  const catalog = await readCharacterCatalogFromCorpus();
+  const entities = await readEntityCatalogFromCorpus();
+
+  let backend: GraphExtractionBackend;
+  if (backendId === 'fake') {
+    backend = createFakeExtractionBackend(catalog);
+  } else if (backendId === 'gemini') {
+    config();
+    // Loaded on demand so the fake backend runs without AI credentials
+    backend = (await import('@/ai/flows/extract-chapter-graph')).geminiExtractionBackend;
+  } else {
+    throw new Error(`Unknown extraction backend: ${backendId}`);
+  }
+
+  const results = await generateCorpusGraphs({
+    backend,
+    catalog,
+    entities,
+    chapters: typeof args.chapters === 'string' ? parseChapterList(args.chapters) : undefined,
+    directory: typeof args.out === 'string' ? args.out : undefined,
+    force: args.force === true,
+    creationDate: typeof args.date === 'string' ? args.date : undefined,
+    chunkSize: typeof args['chunk-size'] === 'string' ? Number(args['chunk-size']) : undefined,
+    maxEntities: typeof args['max-entities'] === 'string' ? Number(args['max-entities']) : undefined,
+    clock: backendId === 'fake' ? () => 0 : undefined,
+  });
+
+  for (const status of ['written', 'kept', 'no-text', 'failed'] as const) {
+    const chapters = results.filter(result => result.status === status).map(result => result.chapterId);
+    if (chapters.length > 0) {
+      console.log(`${status.padEnd(8)} ${chapters.length}/${results.length}: ${chapters.join(', ')}`);
+    }
+  }
+  if (results.length === TOTAL_CHAPTERS && results.some(result => result.status === 'no-text')) {
+    console.log('Chapters without text in the corpus get a graph once their chapter file is added.');
+  }
+  if (results.some(result => result.status === 'failed')) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Graph generation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+/**
+ * @fileOverview Extracts knowledge-graph entities and relationships from chapter text.
+ *
+ * - extractChapterGraph - Extracts the entities and relationships of one chunk of a chapter.
+ * - geminiExtractionBackend - The extraction backend of the graph pipeline (`src/lib/graph-pipeline.ts`).
+ * - ChapterGraphExtractionInput - The input type for the extractChapterGraph function.
+ * - ChapterGraphExtractionOutput - The return type for the extractChapterGraph function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import type {GraphExtractionBackend} from '@/lib/graph-pipeline';
+
+const ChapterGraphExtractionInputSchema = z.object({
+  chapterId: z.number().describe('The chapter the text comes from (1-120).'),
+  text: z.string().describe('A chunk of the chapter text in Traditional Chinese.'),
+});
+export type ChapterGraphExtractionInput = z.infer<typeof ChapterGraphExtractionInputSchema>;
+
+const ChapterGraphExtractionOutputSchema = z.object({
+  entities: z
+    .array(z.string())
+    .describe('Characters, places, objects, concepts and events named in the text, in Traditional Chinese.'),
+  relationships: z
+    .array(
+      z.object({
+        source: z.string().describe('Entity the relationship starts from.'),
+        relation: z.string().describe('Short relation label in Traditional Chinese, e.g. 女兒, 資助, 居住於.'),
+        target: z.string().describe('Entity the relationship points to.'),
+      })
+    )
+    .describe('Relationships between the entities stated or clearly implied by the text.'),
+});
+export type ChapterGraphExtractionOutput = z.infer<typeof ChapterGraphExtractionOutputSchema>;
+
+export async function extractChapterGraph(
+  input: ChapterGraphExtractionInput
+): Promise<ChapterGraphExtractionOutput> {
+  return extractChapterGraphFlow(input);
+}
+
+const extractChapterGraphPrompt = ai.definePrompt({
+  name: 'extractChapterGraphPrompt',
+  input: {schema: ChapterGraphExtractionInputSchema},
+  output: {schema: ChapterGraphExtractionOutputSchema},
+  prompt: `以下是《紅樓夢》第{{{chapterId}}}回原文的一段。請找出其中的人物、地點、物品、概念與事件，以及它們之間的關係。
+
+- 實體名稱照原文用字，人物用最完整的名字（例如「甄士隱」而非「士隱」）。
+- 關係以簡短詞語描述（例如「女兒」、「資助」、「居住於」），方向由 source 指向 target。
+- 只列出原文明白寫出或清楚暗示的關係，不要加入本段以外的情節。
+- 一律使用繁體中文。
+
+原文：{{{text}}}`,
+});
+
+const extractChapterGraphFlow = ai.defineFlow(
+  {
+    name: 'extractChapterGraphFlow',
+    inputSchema: ChapterGraphExtractionInputSchema,
+    outputSchema: ChapterGraphExtractionOutputSchema,
+  },
+  async input => {
+    const {output} = await extractChapterGraphPrompt(input);
+    return output!;
+  }
+);
+
+export const geminiExtractionBackend: GraphExtractionBackend = {
+  id: 'gemini',
+  extract: chunk => extractChapterGraph({chapterId: chunk.chapterId, text: chunk.text}),
+};
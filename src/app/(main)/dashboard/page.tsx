@@ -70,6 +70,11 @@ import { useState, useEffect } from 'react';
 // Utility functions and custom hooks
 import { cn } from "@/lib/utils";
 import { useLanguage } from '@/hooks/useLanguage';
+import { useAuth } from '@/hooks/useAuth';
+
+// Reading positions synced from the reading page
+import { getRecentReadingPositions, getReadingProgressPercent, type ReadingPosition } from '@/lib/reading-position-service';
+import { getEdition, getEditionReadLink } from '@/lib/editions';
 
 // Gamification components
 import { LevelDisplay } from '@/components/gamification';
@@ -124,7 +129,7 @@ const StatCard: React.FC<StatCardProps> = ({ value, label, icon: Icon }) => (
 interface RecentActivityItem {
   id: string;          // Unique identifier for the reading item
   title: string;       // Display title of the book or content
-  author: string;      // Author name for attribution
+  detail: string;      // Secondary line, e.g. the chapter reached
   progress: number;    // Reading progress percentage (0-100)
   current: boolean;    // Whether this is the currently active reading
   readLink: string;    // URL to navigate to for continuing reading
@@ -148,6 +153,7 @@ interface RecentActivityItem {
 export default function DashboardPage() {
   // Language support for internationalization
   const { t } = useLanguage();
+  const { user } = useAuth();
   
   // State for chapter progress (would come from user data in production)
   const [completedChapters, setCompletedChapters] = useState(20);
@@ -203,16 +209,29 @@ export default function DashboardPage() {
 
   /**
    * Recent reading activity data
-   * Sample data showing books user has recently engaged with
-   * In production, this would be fetched from user reading history
+   * One entry per edition the user has read, most recent first, built from
+   * the reading positions the reading page saves to Firestore
    */
-  const recentActivityData: RecentActivityItem[] = [
-    { id: "hlm-gengchen", title: "紅樓夢 (庚辰本校注)", author: "曹雪芹", progress: 75, current: true, readLink: "/read-book" },
-    { id: "jiangxun-youth", title: "蔣勳說紅樓夢青春版", author: "蔣勳", progress: 50, current: false, readLink: "#" },
-    { id: "hlm-chengjia", title: "紅樓夢 (程甲本影印)", author: "[清] 曹雪芹 高鶚", progress: 90, current: false, readLink: "#" },
-    { id: "baixianyong-detailed", title: "白先勇細說紅樓夢", author: "白先勇", progress: 20, current: false, readLink: "#" },
-    { id: "oulijuan-sixviews", title: "歐麗娟 六觀紅樓(綜論卷)", author: "歐麗娟", progress: 60, current: false, readLink: "#" },
-  ];
+  const [readingPositions, setReadingPositions] = useState<ReadingPosition[]>([]);
+
+  useEffect(() => {
+    if (!user?.uid) {
+      setReadingPositions([]);
+      return;
+    }
+    getRecentReadingPositions(user.uid)
+      .then(setReadingPositions)
+      .catch(error => console.error('Failed to load recent reading positions:', error));
+  }, [user?.uid]);
+
+  const recentActivityData: RecentActivityItem[] = readingPositions.map((position, index) => ({
+    id: position.id ?? position.editionId,
+    title: t('dashboard.recentReadingBook').replace('{edition}', t(getEdition(position.editionId).nameKey)),
+    detail: t('dashboard.recentReadingChapter').replace('{number}', String(position.chapterId)),
+    progress: getReadingProgressPercent(position),
+    current: index === 0,
+    readLink: getEditionReadLink(position.editionId),
+  }));
 
   // SVG circle mathematics for progress animation
   const radius = 15.9155; // Optimized radius for 36x36 viewBox
@@ -298,6 +317,14 @@ export default function DashboardPage() {
         <CardContent>
           <ScrollArea className="w-full whitespace-nowrap">
             <div className="flex space-x-4 pb-4">
+              {recentActivityData.length === 0 && (
+                <div className="w-full py-6 text-center space-y-3">
+                  <p className="text-sm text-muted-foreground whitespace-normal">{t('dashboard.recentReadingEmpty')}</p>
+                  <Link href="/read-book">
+                    <Button variant="outline" size="sm">{t('dashboard.startReading')}</Button>
+                  </Link>
+                </div>
+              )}
               {recentActivityData.map((item) => (
                 <Card key={item.id} className="w-[300px] flex-shrink-0 hover:shadow-lg transition-shadow">
                   <CardContent className="p-4">
@@ -310,7 +337,7 @@ export default function DashboardPage() {
                       {/* Book information */}
                       <div className="flex-1 min-w-0">
                         <h3 className="font-semibold text-sm text-foreground truncate">{item.title}</h3>
-                        <p className="text-xs text-muted-foreground mb-2">{item.author}</p>
+                        <p className="text-xs text-muted-foreground mb-2">{item.detail}</p>
                         
                         {/* Progress indicator */}
                         <div className="space-y-1">
@@ -0,0 +1,176 @@
+"use client";
+
+/**
+ * @fileOverview Family trees of the four great families
+ *
+ * Draws the genealogy (`GET /api/genealogy`) of the 賈, 史, 王 and 薛 houses,
+ * one tab per family: generations, wives and concubines, and the 寧國府 and
+ * 榮國府 branches. Like character cards, the trees only show what the reader's
+ * furthest chapter has revealed. Selecting a person opens their character card
+ * with the chapters they are named in; people outside the character catalog
+ * get the genealogy's own note.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useLanguage } from '@/hooks/useLanguage';
+import { layoutFamilyTree, loadGenealogy } from '@/lib/genealogy';
+import { loadCharacterAppearances, loadCharacterCatalog } from '@/lib/character-catalog';
+import { transformTextForLang } from '@/lib/translations';
+import type { GenealogyJson, GenealogyPerson } from '@/types/genealogy';
+import type { CharacterCatalogJson } from '@/types/character';
+import { CharacterCard } from '@/components/CharacterCard';
+import { FamilyTree } from '@/components/FamilyTree';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetClose, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AlertCircle, Users } from 'lucide-react';
+
+export default function GenealogyPage() {
+  const { userProfile } = useAuth();
+  const { t, language } = useLanguage();
+  const display = (text: string) => transformTextForLang(text, language, 'annotation');
+
+  const [genealogy, setGenealogy] = useState<GenealogyJson | null>(null);
+  const [characterCatalog, setCharacterCatalog] = useState<CharacterCatalogJson | null>(null);
+  const [appearances, setAppearances] = useState<Record<string, number[]>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [selectedFamily, setSelectedFamily] = useState('jia');
+  const [selectedPerson, setSelectedPerson] = useState<GenealogyPerson | null>(null);
+
+  // Furthest chapter the reader has reached; the first chapter is always shown
+  const progress = Math.max(1, ...(userProfile?.completedChapters ?? []));
+
+  useEffect(() => {
+    loadGenealogy()
+      .then(setGenealogy)
+      .catch(err => {
+        console.error('Error loading genealogy:', err);
+        setError(t('genealogy.loadError'));
+      });
+    // Without the catalog or the appearances, people open the genealogy's note only
+    loadCharacterCatalog()
+      .then(setCharacterCatalog)
+      .catch(err => console.error('Error loading character catalog:', err));
+    loadCharacterAppearances()
+      .then(setAppearances)
+      .catch(err => console.error('Error loading character appearances:', err));
+  }, [t]);
+
+  const layouts = useMemo(
+    () => new Map((genealogy?.families ?? []).map(family => [family.id, layoutFamilyTree(genealogy!, family.id, progress)])),
+    [genealogy, progress]
+  );
+
+  const selectedCharacter = selectedPerson
+    ? characterCatalog?.characters.find(character => character.id === selectedPerson.id)
+    : undefined;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-artistic font-bold text-primary mb-2">{t('genealogy.title')}</h1>
+        <p className="text-muted-foreground">{t('genealogy.description')}</p>
+      </div>
+
+      {error ? (
+        <div className="flex flex-col items-center justify-center min-h-[300px] text-center">
+          <AlertCircle className="w-16 h-16 text-destructive mb-4" />
+          <p className="text-muted-foreground">{error}</p>
+        </div>
+      ) : !genealogy ? (
+        <Skeleton className="h-96" />
+      ) : (
+        <>
+          <p className="mb-4 text-sm text-muted-foreground">
+            {t('genealogy.spoilerNote').replace('{chapter}', String(progress))}
+          </p>
+
+          <Tabs value={selectedFamily} onValueChange={setSelectedFamily}>
+            <TabsList>
+              {genealogy.families.map(family => (
+                <TabsTrigger key={family.id} value={family.id}>{display(family.name)}</TabsTrigger>
+              ))}
+            </TabsList>
+
+            {genealogy.families.map(family => {
+              const layout = layouts.get(family.id)!;
+              return (
+                <TabsContent key={family.id} value={family.id}>
+                  <Card>
+                    <CardContent className="p-4">
+                      {layout.nodes.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center min-h-[300px] text-center">
+                          <Users className="w-12 h-12 text-muted-foreground mb-4" />
+                          <p className="text-muted-foreground">{t('genealogy.empty')}</p>
+                        </div>
+                      ) : (
+                        <FamilyTree
+                          layout={layout}
+                          selectedPersonId={selectedPerson?.id}
+                          onSelectPerson={setSelectedPerson}
+                        />
+                      )}
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              );
+            })}
+          </Tabs>
+
+          <div className="mt-4 flex flex-wrap gap-6 text-sm text-muted-foreground">
+            <span className="flex items-center gap-2">
+              <svg width="32" height="4" aria-hidden="true"><line x1="0" y1="2" x2="32" y2="2" strokeWidth={2} className="stroke-primary/60" /></svg>
+              {t('genealogy.legendWife')}
+            </span>
+            <span className="flex items-center gap-2">
+              <svg width="32" height="4" aria-hidden="true"><line x1="0" y1="2" x2="32" y2="2" strokeWidth={2} strokeDasharray="6 4" className="stroke-primary/60" /></svg>
+              {t('genealogy.legendConcubine')}
+            </span>
+            <span className="flex items-center gap-2">
+              <svg width="32" height="4" aria-hidden="true"><line x1="0" y1="2" x2="32" y2="2" strokeWidth={1.5} className="stroke-muted-foreground/60" /></svg>
+              {t('genealogy.legendChild')}
+            </span>
+          </div>
+        </>
+      )}
+
+      <Sheet open={!!selectedPerson} onOpenChange={(open) => { if (!open) setSelectedPerson(null); }}>
+        <SheetContent side="right" className="w-full sm:max-w-md bg-card text-card-foreground p-0 flex flex-col">
+          {selectedPerson && (
+            <ScrollArea className="flex-grow">
+              {selectedCharacter ? (
+                <CharacterCard
+                  character={selectedCharacter}
+                  progress={progress}
+                  appearances={appearances[selectedCharacter.id] ?? []}
+                />
+              ) : (
+                <>
+                  <SheetHeader className="p-4 border-b border-border">
+                    <SheetTitle className="text-primary text-xl font-artistic">{display(selectedPerson.name)}</SheetTitle>
+                    <SheetDescription>
+                      {selectedPerson.unnamed ? t('genealogy.unnamed') : selectedPerson.title && display(selectedPerson.title)}
+                    </SheetDescription>
+                  </SheetHeader>
+                  <div className="p-4 space-y-3">
+                    {selectedPerson.note && <p className="text-foreground leading-relaxed">{display(selectedPerson.note)}</p>}
+                    <p className="text-sm text-muted-foreground">{t('genealogy.notInCatalog')}</p>
+                  </div>
+                </>
+              )}
+            </ScrollArea>
+          )}
+          <SheetFooter className="p-4 border-t border-border">
+            <SheetClose asChild>
+              <Button variant="outline">{t('buttons.close')}</Button>
+            </SheetClose>
+          </SheetFooter>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
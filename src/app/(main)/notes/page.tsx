@@ -14,6 +14,8 @@ import {
 import { NoteCard } from '@/components/NoteCard';
 import { NoteStats } from '@/components/NoteStats';
 import { NoteFilters } from '@/components/NoteFilters';
+import { VocabularyList } from '@/components/VocabularyList';
+import { VocabularyEntry, getVocabularyByUser, deleteVocabularyEntry } from '@/lib/vocabulary-service';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { BookOpen, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
@@ -31,6 +33,7 @@ export default function NotesPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
+  const [vocabulary, setVocabulary] = useState<VocabularyEntry[]>([]);
 
   // Fetch notes on mount
   useEffect(() => {
@@ -62,6 +65,30 @@ export default function NotesPage() {
     fetchNotes();
   }, [user?.uid, t, toast]);
 
+  // Fetch the vocabulary list; the notes still show if it fails
+  useEffect(() => {
+    if (!user?.uid) return;
+    getVocabularyByUser(user.uid)
+      .then(setVocabulary)
+      .catch(err => console.error('Error fetching vocabulary:', err));
+  }, [user?.uid]);
+
+  // Handle removal of a word from the vocabulary list
+  const handleRemoveWord = async (word: string) => {
+    if (!user?.uid) return;
+    try {
+      await deleteVocabularyEntry(user.uid, word);
+      setVocabulary(prev => prev.filter(entry => entry.word !== word));
+    } catch (err) {
+      console.error('Error removing vocabulary entry:', err);
+      toast({
+        title: t('errors.generic'),
+        description: t('dictionary.removeFailed'),
+        variant: 'destructive'
+      });
+    }
+  };
+
   // Handle note deletion
   const handleDeleteNote = async (noteId: string) => {
     try {
@@ -246,6 +273,13 @@ export default function NotesPage() {
             <NoteStats notes={notes} />
           </div>
 
+          {/* Vocabulary List */}
+          {vocabulary.length > 0 && (
+            <div className="mb-8">
+              <VocabularyList entries={vocabulary} onRemove={handleRemoveWord} />
+            </div>
+          )}
+
           {/* Empty State */}
           {notes.length === 0 ? (
             <div className="flex flex-col items-center justify-center min-h-[400px] text-center">
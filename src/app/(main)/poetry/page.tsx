@@ -0,0 +1,220 @@
+"use client";
+
+/**
+ * @fileOverview Poetry catalogue - poems and 判詞 collected from the chapters
+ *
+ * Lists every poem marked in the chapter corpus (`GET /api/poems`) with its
+ * verse lines and notes, filterable by chapter, author character and form.
+ * Authors are named from the character catalog. The catalogue is the content
+ * behind the poetry-listening permission, unlocked at the 門第清客 level; readers
+ * below it see which level opens it.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useLanguage } from '@/hooks/useLanguage';
+import { POEM_FORMS, filterPoems, loadPoemCatalogue, type PoemCatalogueEntry } from '@/lib/poetry';
+import { loadCharacterCatalog } from '@/lib/character-catalog';
+import { transformTextForLang } from '@/lib/translations';
+import { userLevelService } from '@/lib/user-level-service';
+import { LEVELS_CONFIG } from '@/lib/config/levels-config';
+import { LevelPermission } from '@/lib/types/user-level';
+import type { PoemForm } from '@/types/chapter';
+import type { CharacterCatalogJson } from '@/types/character';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, Lock, ScrollText } from 'lucide-react';
+
+// Lowest level whose permissions include the catalogue
+const REQUIRED_LEVEL = LEVELS_CONFIG.find(level => level.permissions.includes(LevelPermission.POETRY_LISTENING))!;
+
+export default function PoetryPage() {
+  const { userProfile, isLoading } = useAuth();
+  const { t, language } = useLanguage();
+  const display = (text: string) => transformTextForLang(text, language, 'annotation');
+
+  const [poems, setPoems] = useState<PoemCatalogueEntry[] | null>(null);
+  const [characterCatalog, setCharacterCatalog] = useState<CharacterCatalogJson | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedChapter, setSelectedChapter] = useState('all');
+  const [selectedAuthor, setSelectedAuthor] = useState('all');
+  const [selectedForm, setSelectedForm] = useState('all');
+
+  const unlocked = !!userProfile && userLevelService.checkPermissionSync(userProfile.currentLevel, LevelPermission.POETRY_LISTENING);
+
+  useEffect(() => {
+    if (!unlocked) return;
+    loadPoemCatalogue()
+      .then(setPoems)
+      .catch(err => {
+        console.error('Error loading poetry catalogue:', err);
+        setError(t('poetry.loadError'));
+      });
+    // Authors fall back to their ids if the character catalog is unavailable
+    loadCharacterCatalog()
+      .then(setCharacterCatalog)
+      .catch(err => console.error('Error loading character catalog:', err));
+  }, [unlocked, t]);
+
+  const authorName = (authorId: string) =>
+    display(characterCatalog?.characters.find(character => character.id === authorId)?.name ?? authorId);
+
+  const chapters = useMemo(() => [...new Set((poems ?? []).map(poem => poem.chapterId))], [poems]);
+  const authors = useMemo(
+    () => [...new Set((poems ?? []).flatMap(poem => (poem.authorId ? [poem.authorId] : [])))],
+    [poems]
+  );
+  const forms = useMemo(() => POEM_FORMS.filter(form => poems?.some(poem => poem.form === form)), [poems]);
+
+  const visiblePoems = useMemo(() => filterPoems(poems ?? [], {
+    chapterId: selectedChapter === 'all' ? undefined : Number(selectedChapter),
+    authorId: selectedAuthor === 'all' ? undefined : selectedAuthor,
+    form: selectedForm === 'all' ? undefined : selectedForm as PoemForm,
+  }), [poems, selectedChapter, selectedAuthor, selectedForm]);
+
+  const hasActiveFilters = selectedChapter !== 'all' || selectedAuthor !== 'all' || selectedForm !== 'all';
+  const handleClearFilters = () => {
+    setSelectedChapter('all');
+    setSelectedAuthor('all');
+    setSelectedForm('all');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 space-y-4">
+        {[1, 2, 3].map(i => <Skeleton key={i} className="h-48" />)}
+      </div>
+    );
+  }
+
+  if (!unlocked) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col items-center justify-center min-h-[400px] text-center">
+          <Lock className="w-16 h-16 text-muted-foreground mb-4" />
+          <h2 className="text-2xl font-bold mb-2">{t('poetry.lockedTitle')}</h2>
+          <p className="text-muted-foreground max-w-md">
+            {t('poetry.lockedDesc')
+              .replace('{level}', language === 'en-US' ? REQUIRED_LEVEL.titleEn : display(REQUIRED_LEVEL.title))
+              .replace('{levelNumber}', String(REQUIRED_LEVEL.id))}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-4xl font-artistic font-bold text-primary mb-2">{t('poetry.title')}</h1>
+        <p className="text-muted-foreground">{t('poetry.description')}</p>
+      </div>
+
+      {error ? (
+        <div className="flex flex-col items-center justify-center min-h-[300px] text-center">
+          <AlertCircle className="w-16 h-16 text-destructive mb-4" />
+          <p className="text-muted-foreground">{error}</p>
+        </div>
+      ) : !poems ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map(i => <Skeleton key={i} className="h-48" />)}
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-3 mb-4">
+            <Select value={selectedChapter} onValueChange={setSelectedChapter}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue placeholder={t('poetry.allChapters')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('poetry.allChapters')}</SelectItem>
+                {chapters.map(chapter => (
+                  <SelectItem key={chapter} value={chapter.toString()}>
+                    {t('poetry.chapter').replace('{chapter}', String(chapter))}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={selectedAuthor} onValueChange={setSelectedAuthor}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue placeholder={t('poetry.allAuthors')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('poetry.allAuthors')}</SelectItem>
+                {authors.map(authorId => (
+                  <SelectItem key={authorId} value={authorId}>{authorName(authorId)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={selectedForm} onValueChange={setSelectedForm}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue placeholder={t('poetry.allForms')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('poetry.allForms')}</SelectItem>
+                {forms.map(form => (
+                  <SelectItem key={form} value={form}>{t(`poetry.forms.${form}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {hasActiveFilters && (
+              <Button onClick={handleClearFilters} variant="outline" size="sm">
+                {t('poetry.clearFilters')}
+              </Button>
+            )}
+          </div>
+
+          <div className="mb-4 text-sm text-muted-foreground">
+            {t('poetry.count').replace('{count}', String(visiblePoems.length))}
+          </div>
+
+          {visiblePoems.length === 0 ? (
+            <div className="flex flex-col items-center justify-center min-h-[300px] text-center">
+              <ScrollText className="w-12 h-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">{t('poetry.empty')}</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {visiblePoems.map(poem => (
+                <Card key={poem.id}>
+                  <CardHeader>
+                    <CardTitle className="font-artistic text-primary">《{display(poem.title)}》</CardTitle>
+                    <CardDescription className="flex flex-wrap items-center gap-2">
+                      <span>{display(poem.chapterTitle)}</span>
+                      {poem.authorId && <span>· {authorName(poem.authorId)}</span>}
+                      <Badge variant="secondary">{t(`poetry.forms.${poem.form}`)}</Badge>
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="font-artistic text-lg leading-loose ps-4">
+                      {poem.lines.map((line, index) => <p key={index}>{display(line)}</p>)}
+                    </div>
+                    {poem.notes && poem.notes.length > 0 && (
+                      <section className="space-y-2 border-t border-border pt-3">
+                        <h4 className="text-sm font-medium text-muted-foreground">{t('poetry.notes')}</h4>
+                        <dl className="space-y-1.5 text-sm">
+                          {poem.notes.map(note => (
+                            <div key={note.quote}>
+                              <dt className="inline font-medium">{display(note.quote)}：</dt>
+                              <dd className="inline text-muted-foreground">{display(note.note)}</dd>
+                            </div>
+                          ))}
+                        </dl>
+                      </section>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -9,9 +9,12 @@
  * - Immersive full-screen reading interface with customizable themes and typography
  * - AI-powered text analysis and explanation using Google GenKit and Gemini 2.0 Flash
  * - Interactive text selection with contextual AI assistance
- * - Side-by-side classical and vernacular Chinese text display
+ * - Side-by-side classical and vernacular Chinese text display, aligned sentence by sentence
+ * - Annotation layer with switchable commentary sources (editorial notes, 脂批, scholarship)
  * - Knowledge graph visualization for character relationships
- * - Advanced search functionality with text highlighting
+ * - Character names tagged in the text, opening spoiler-free character cards
+ * - Poems and 判詞 set as verse, line by line, within the text
+ * - Whole-book full-text search (Traditional/Simplified-insensitive) with in-chapter highlighting
  * - Responsive column layouts (single, double, triple) for different reading preferences
  * - Text-to-speech integration for accessibility
  * - Chapter navigation with table of contents
@@ -29,7 +32,7 @@
 "use client"; // Required for client-side interactivity and AI integration
 
 // React imports for state management and lifecycle
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from 'react';
 
 // Next.js navigation for routing
 import { useRouter } from 'next/navigation';
@@ -42,21 +45,17 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 // Progress bar removed per new design for double-column pagination controls
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription, SheetFooter, SheetClose } from "@/components/ui/sheet";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose } from "@/components/ui/dialog";
-import { Label } from '@/components/ui/label';
 import { Popover, PopoverContent, PopoverTrigger, PopoverClose } from "@/components/ui/popover";
 import { Input } from "@/components/ui/input";
 
 // Icon imports for reading interface controls
 import {
-  Search as SearchIcon,         // Text search functionality
   Maximize,                     // Fullscreen toggle
   Map,                          // Knowledge graph access
   X,                            // Close/cancel actions
   Edit3,                        // Note-taking features
   Eye,                          // Show vernacular text
   EyeOff,                       // Hide vernacular text
-  AlignLeft,                    // Single column layout
-  AlignCenter,                  // Double column layout
   AlignJustify,                 // Triple column layout
   CornerUpLeft,                 // Return/back navigation
   List,                         // Table of contents
@@ -65,14 +64,16 @@ import {
   Plus,                         // Increase font size
   Check,                        // Confirm/accept actions
   Minimize,                     // Exit fullscreen
-  Trash2 as Trash2,            // Clear search
+  Trash2,                       // Delete highlight
   Baseline,                     // Typography settings
   Volume2,                      // Text-to-speech
   Copy,                         // Copy selected text
   Quote,                        // Quote/annotation
   ChevronDown,                  // Dropdown indicators
   ArrowUp,                      // Submit question button (circular design)
-  Square                        // Stop streaming button (for Phase 2)
+  Square,                       // Stop streaming button (for Phase 2)
+  FileDown,                     // Export chapters with notes
+  BookA                         // Dictionary lookup
 } from "lucide-react";
 
 // Third-party libraries for content rendering
@@ -82,6 +83,16 @@ import ReactMarkdown from 'react-markdown'; // For rendering AI response markdow
 import { cn } from "@/lib/utils";
 import { SimulatedKnowledgeGraph } from '@/components/SimulatedKnowledgeGraph';
 import KnowledgeGraphViewer from '@/components/KnowledgeGraphViewer';
+import { EditionCollationView } from '@/components/EditionCollationView';
+import { DictionaryPopover } from '@/components/DictionaryPopover';
+import { CharacterCard } from '@/components/CharacterCard';
+import { BookSearchPopover } from '@/components/BookSearchPopover';
+import { ChapterExportDialog } from '@/components/ChapterExportDialog';
+import { OfflineStatus } from '@/components/OfflineStatus';
+import { EditionPopover } from '@/components/EditionPopover';
+import { ReadAloudControls } from '@/components/ReadAloudControls';
+import { RubySettingsPanel } from '@/components/RubySettingsPanel';
+import { ColumnLayoutButtons } from '@/components/ColumnLayoutButtons';
 
 // AI integration for text analysis
 // Note: legacy Genkit explainTextSelection not used in unified QA flow
@@ -108,100 +119,150 @@ import { classifyError, formatErrorForUser, logError } from '@/lib/perplexity-er
 // Custom hooks for application functionality
 import { useToast } from "@/hooks/use-toast";
 import { useLanguage } from '@/hooks/useLanguage';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { useBookSearch } from '@/hooks/useBookSearch';
+import { useChapterReadAloud } from '@/hooks/useChapterReadAloud';
+import { useRubySettings } from '@/hooks/useRubySettings';
+import { useAnnotationSources } from '@/hooks/useAnnotationSources';
+import { useDictionaryLookup } from '@/hooks/useDictionaryLookup';
 
 // Utility for text transformation based on language
-import { saveNote, getNotesByUserAndChapter, Note, deleteNoteById, updateNote, updateNoteVisibility } from '@/lib/notes-service';
-import { communityService, type CreatePostData } from '@/lib/community-service';
+import { getNotesByUserAndChapter, Note, deleteNoteById } from '@/lib/notes-service';
+import type { CreatePostData } from '@/lib/community-service';
 import { useAuth } from '@/hooks/useAuth';
 
 // XP Integration for gamification
 import { userLevelService, XP_REWARDS } from '@/lib/user-level-service';
 import { LevelUpModal, LevelBadge } from '@/components/gamification';
 
+// Cross-device reading position sync
+import { saveReadingPosition, getReadingPosition, type ColumnLayout, type ReadingPosition } from '@/lib/reading-position-service';
+import {
+  getHighlightsByUserAndChapter,
+  deleteHighlightById,
+  updateHighlightStyle,
+  placeHighlights,
+  saveReanchoredHighlights,
+  HIGHLIGHT_COLORS,
+  HIGHLIGHT_CATEGORIES,
+  DEFAULT_HIGHLIGHT_COLOR,
+  DEFAULT_HIGHLIGHT_CATEGORY,
+  type Highlight,
+  type HighlightCategory,
+  type HighlightColor,
+  type PlacedHighlight,
+} from '@/lib/highlight-service';
+import { createTextAnchor } from '@/lib/text-anchoring';
+
+// Offline reading: writes queued while offline
+import {
+  awardXPOrQueue,
+  discardQueuedWrite,
+  getQueuedHighlights,
+  isOfflineId,
+  saveHighlightOrQueue,
+  saveNoteOrQueue,
+  updateNoteOrQueue,
+  updateQueuedHighlight,
+  withQueuedNotes,
+  withoutQueuedCopies,
+  type ReplayResult,
+} from '@/lib/offline-sync';
+
+// Pinyin / zhuyin ruby above the text
+import { getParagraphRuby } from '@/lib/ruby-annotation';
+
+// Character names tagged in the text, opening a character card
+import { buildMentionIndex, findCharacterMentions, getRelatedGraphNodes, loadCharacterCatalog } from '@/lib/character-catalog';
+import { loadChapterGraphData, type KnowledgeGraphData } from '@/lib/knowledgeGraphUtils';
+import type { CharacterCatalogJson, CharacterMention } from '@/types/character';
+
+// Poems set as verse lines
+import { placePoems, type PlacedPoem } from '@/lib/poetry';
+
+// Annotation layer (editorial notes, 脂批, scholarship)
+import {
+  ANNOTATION_SOURCES,
+  getAnnotationSource,
+  loadChapterAnnotations,
+  placeAnnotations,
+  segmentAnnotations,
+  type PlacedAnnotation,
+} from '@/lib/annotations';
+
 // Firebase imports for welcome bonus flag update
 import { doc, updateDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 
-interface Annotation {
-  text: string;
-  note: string; // Base text (zh-TW)
-  id: string;
-}
-
-interface Paragraph {
-  content: Array<string | Annotation>; // Base text (zh-TW)
-  vernacular?: string; // Base text (zh-TW)
-}
+// Chapter corpus (one JSON file per chapter, served by /api/chapters)
+import type { AnnotationSourceId, Chapter, ChapterAnnotation, ChapterIndexEntry, EditionId } from '@/types/chapter';
+import { TOTAL_CHAPTERS, loadChapter, loadChapterIndex, getParagraphText } from '@/lib/chapter-loader';
+import { DEFAULT_EDITION_ID, getEdition, getEditionReadLink, isEditionId } from '@/lib/editions';
+import { transformTextForLang } from '@/lib/translations';
+import type { SearchResult } from '@/lib/chapter-search';
+import { foldChineseVariants, normalizeForSearch } from '@/lib/chinese-variants';
+import { alignParagraph } from '@/lib/sentence-alignment';
+
+type ChapterLoadState = 'loading' | 'ready' | 'missing' | 'error';
+
+// First paragraph whose bottom edge is still inside the reading viewport
+const findAnchorParagraphId = (contentEl: HTMLElement | null): string | null => {
+  const viewportEl =
+    (document.getElementById('chapter-content-viewport') as HTMLElement | null) ||
+    (document.getElementById('chapter-content-scroll-area') as HTMLElement | null);
+  if (!viewportEl || !contentEl) return null;
+  const viewportTop = viewportEl.getBoundingClientRect().top;
+  const paragraphEls = Array.from(contentEl.querySelectorAll<HTMLElement>('[data-paragraph-id]'));
+  const anchor = paragraphEls.find(el => el.getBoundingClientRect().bottom > viewportTop + 1);
+  return anchor?.dataset.paragraphId ?? null;
+};
 
-interface Chapter {
-  id: number;
-  titleKey: string; // Translation key
-  subtitleKey?: string; // Translation key
-  summaryKey: string; // Translation key
-  paragraphs: Paragraph[]; // Content remains base zh-TW
-}
+const isVernacularNode = (node: Node): boolean => {
+  const element = node instanceof Element ? node : node.parentElement;
+  return !!element?.closest('[data-vernacular="true"]');
+};
 
-// CHAPTER DATA: Base content is zh-TW. Keys are used for translatable metadata.
-const chapters_base_data: Omit<Chapter, 'titleKey' | 'subtitleKey' | 'summaryKey'>[] = [
-  {
-    id: 1,
-    paragraphs: [
-      { content: ["此開卷第一回也。作者自云：因曾歷過一番夢幻之後，故將真事隱去，而借「通靈」之說，撰此《石頭記》一書也。故曰「甄士隱」云云。但書中所記何事何人？自又云：「今風塵碌碌，一事無成，忽念及當日所有之女子，一一細考較去，覺其行止見識，皆出我之上。我堂堂鬚眉，誠不若彼裙釵。我實愧則有餘，悔又無益，大無可如何之日也！当此日，欲將已往所賴天恩祖德，錦衣紈褲之時，飫甘饜肥之日，背父兄教育之恩，負師友規訓之德，以致今日一技無成，半生潦倒之罪，編述一集，以告天下。知我之負罪固多，然閨閣中歷歷有人，萬不可因我之不肖，自護己短，一併使其泯滅也。故當此時，自欲將以往經歷，及素所聞識，逐細編次，作為小說，聊以表我這些姊妹。雖不敢比類自己，自謂可以傳世，亦可使閨閣昭傳。復可破一時之悶，醒同人之目，不亦宜乎？」故曰「賈雨村」云云。"], vernacular: "（白話文）這是本書的第一回。作者自己說：因為曾經經歷過一番夢幻般的事情，所以把真實的事情隱藏起來，借用「通靈寶玉」的說法，寫成了這本《石頭記》。所以書中稱「甄士隱」等等。但書中記載的是什麼事、什麼人呢？作者又說：「現在我到處奔波，一事無成，忽然想起當年的那些女子，一個個仔細回想比較，覺得她們的言行見識，都在我之上。我一個堂堂男子，實在不如那些女性。我實在是慚愧有餘，後悔也沒用，真是非常無奈啊！在那時，我想把自己過去依仗著上天的恩賜和祖先的功德，過著富裕悠閒生活的時候，享受著美味佳餚的日子，卻違背了父兄的教誨，辜負了老師朋友的規勸，以致今日一無所長，半生潦倒的罪過，編寫成一本書，告訴世人。我知道我的罪過很多，但是女性當中確實有很多傑出的人物，千萬不能因為我的不成才，只顧著掩飾自己的缺點，而讓她们的事蹟也跟著被埋沒了。所以在這個時候，我自己想把過去的經歷，以及平時聽到見到的事情，詳細地編排起來，寫成小說，來表彰我這些姐妹們。雖然不敢和自己相提並論，自認為可以流傳後世，也可以讓女性們的事蹟顯揚。又可以解除一時的煩悶，提醒世人，不也是件好事嗎？」所以書中稱「賈雨村」等等。" },
-      {
-        content: [
-          "你道此書從何而起？說來雖近荒唐，細玩頗有趣味。卻說那",
-          {
-            text: "女媧氏煉石補天",
-            note: "女媧氏煉石補天——古代神話：天原來不整齊，女媧氏煉五色石把它修補起來。後又被共工氏闖壞，天塌了西北角，地陷了東南角。見《列子》。《列子》注說女媧氏是「古天子」，「風」姓。所以又稱「媧皇」。",
-            id: "ch1-p2-anno-nuwa"
-          },
-          "之時，於大荒山無稽崖煉成高十二丈、見方二十四丈大的頑石三萬六千五百零一塊。那媧皇只用了三萬六千五百塊，單單剩下一塊未用，棄在此山青埂峰下。誰知此石自經鍛煉之後，靈性已通，自去自來，可大可小。因見眾石俱得補天，獨自己無才不堪入選，遂自怨自愧，日夜悲哀。"
-        ],
-        vernacular: "（白話文）你說這本書是從哪裡開始的呢？說起來雖然近乎荒誕，但仔細品味卻很有趣味。話說那女媧娘娘煉石補天的時候，在大荒山無稽崖煉成了高十二丈、寬二十四丈的石頭三萬六千五百零一塊。女媧娘娘只用了三萬六千五百塊，偏偏剩下一塊沒用，丟棄在這座山的青埂峰下。誰知道這塊石頭經過鍛煉之後，已經有了靈性，能夠自己來去，可大可小。因為看見所有的石頭都能補天，只有自己沒有才能不能入選，於是自己埋怨自己慚愧，日夜悲傷。"
-      },
-      { content: ["一日，正当嗟悼之際，俄見一僧一道，遠遠而來，生得骨格不凡，豐神迥異，來到這青埂峰下，席地而坐，長談闊論。見到這塊鮮瑩明潔的石頭，左瞧右看，先是嘆息，後又大笑，攜手問道：「你這蠢物，有何好處？倒是把你的形狀，出身，來歷，明白寫在那上面，待我帶你到那花柳繁華地，溫柔富貴鄉去走一遭。」石頭聽了大喜，因答道：「我師何必勞神？弟子願隨二師前去。」那僧道：「你是不中用的。況且，你這本體也過大了些，須得再鐫上幾個字，使人一見便知你是件奇物，然後攜你到那經歷富貴的所在，受用一番。再把你送回來，豈不兩全？」石頭聽了，益發歡喜，忙叩頭拜謝。"], vernacular: "（白話文）有一天，正當它傷心感嘆的時候，忽然看見一個和尚和一個道士，遠遠地走過來，長得骨骼不凡，神采與眾不同，來到這青埂峰下，就地坐下，高談闊論。看到這塊光潔明亮的石頭，左看右看，先是嘆息，後來又大笑起來，拉著手問道：「你這個笨東西，有什麼好處？不如把你的形狀、出身、來歷，清楚地寫在上面，等我帶你到那花紅柳綠的繁華地方，溫柔富貴的去處去走一趟。」石頭聽了非常高興，於是回答說：「師父何必勞神？弟子願意跟隨兩位師父前去。」那和尚道士說：「你是不中用的。況且，你這本來的形體也太大了些，必須再刻上幾個字，讓人一看就知道你是件奇物，然後帶你到那經歷富貴的地方，享受一番。再把你送回來，豈不是兩全其美？」石頭聽了，更加高興，連忙磕頭拜謝。" },
-      { content: ["那僧便念咒書符，大展幻術，將一塊大石登時變成一塊鮮明瑩潔的美玉，又縮成扇墜一般大小，托在掌上。笑道：「形體倒也是個寶物了！還只沒有實在的好處。」因回頭問道士：「你道這一番塵世，何處為樂？」道士道：「此事說來話長，一時難以说完。不過，歷來風流儻灑之輩，多情好色之徒，悉皆生成在東南地界。那裡雖好，然斷不可久居。況且，目今正值太平盛世，文章顯赫之時，我輩正可借此機會，到那繁華昌盛之處，訪幾位仙友，也不枉此一行。」那僧道：「妙哉，妙哉！正合吾意。」二人遂相攜飄然而去，不知所蹤。"], vernacular: "（白話文）那和尚便念起咒語，畫起符籙，施展出高超的幻術，把一塊大石頭立刻變成一塊鮮明光潔的美玉，又縮小成扇墜一般大小，托在手掌上。笑著說：「形體倒也是個寶物了！還只是沒有實際的好處。」於是回頭問道士：「你說這人世間，什麼地方最快樂？」道士說：「這件事說來話長，一時難以說完。不過，歷來風流倜傥的人，多情好色的人，大多都出生在東南地區。那裡雖然好，但是決不能長久居住。況且，現在正是太平盛世，文章顯赫的時候，我們正好可以藉此機會，到那繁華昌盛的地方，拜訪幾位仙友，也不枉此行。」那和尚說：「好啊，好啊！正合我的意思。」於是兩個人便互相攙扶著飄然離去，不知道去了哪裡。" },
-      { content: ["卻說姑蘇城關外，有個葫蘆廟，廟旁住着一家鄉宦，姓甄名費，字士隱。嫡妻封氏，情性賢淑，深明禮義。家中雖不甚富貴，然本地便也推為望族了。因這甄士隱稟性恬淡，不以功名為念，每日只以觀花種竹、酌酒吟詩為樂，倒是神仙一流人物。只是一件不足：年過半百，膝下無兒，只有一女，乳名英蓮，年方三歲。"], vernacular: "（白話文）再說姑蘇城外，有個葫蘆廟，廟旁邊住著一家鄉紳，姓甄名費，字士隱。他的正妻封氏，性情賢淑，深明禮儀。家裡雖然不算非常富貴，但在當地也被推崇為有聲望的家族。因為這甄士隱生性恬靜淡泊，不把功名利祿放在心上，每天只是以觀賞花草、種植竹子、飲酒賦詩為樂，倒像是神仙一般的人物。只有一件不如意的事：年紀過了五十，膝下沒有兒子，只有一個女兒，乳名叫英蓮，才三歲。" },
-      { content: ["這日，甄士隱炎夏永晝，閒坐書齋，手拈素珠，默默無言。忽聞窗外鼓樂之聲，回頭一看，只見一人，方面大耳，形狀魁梧，布衣草履，醉步而來。士隱認得，是本地的一個窮儒，姓賈名化，表字時飛，別號雨村。這賈雨村原系湖州人氏，亦系讀書人，因他生於末世，父母祖宗根基已盡，人口衰喪，只剩下他一身一口，在家鄉無益，因進京求取功名，再整基業。自前歲來此，又淹蹇住了，暫寄姑蘇城關外葫蘆廟內安身，每日賣文作字為生，故士隱常與他交接。"], vernacular: "（白話文）這一天，甄士隱因為夏天白晝長，閒坐在書房裡，手裡捻著佛珠，默默無言。忽然聽到窗外傳來鼓樂的聲音，回頭一看，只見一個人，方臉大耳，身材魁梧，穿著布衣草鞋，醉醺醺地走來。士隱認得，是本地的一個窮書生，姓賈名化，表字時飛，別號雨村。這賈雨村原是湖州人，也是讀書人出身，因為他生在末世，父母祖宗的基業已經敗光，家裡人口也稀少了，只剩下他孤身一人，在家鄉沒有什麼出路，於是進京謀求功名，想再重振家業。從前年來到這裡，又因時運不濟而滯留下來，暫時寄居在姑蘇城外的葫蘆廟裡安身，每天靠賣文章、寫字為生，所以士隱常常和他來往。" },
-      { content: ["雨村見士隱，忙施禮陪笑道：「適聞老先生在家，故來一會，不想老先生早已知道了。」士隱笑道：「是，才聽得外面鼓樂喧鬧，想是老兄到了。」雨村道：「正是。小弟此來，一則為賀喜，二則也為告辭。目今小弟正該力圖進取，怎奈囊中羞澀，行止兩難。適蒙老先生厚贈，又承嚴老爺情，許以盤費，兼以薦函，進京鄉試，倘僥倖得中，他日回家拜望，不忘今日之德。」士隱忙笑道：「何出此言！弟少時不知檢束，如今寸心已灰。況且，我輩相交，原無這些俗套。老兄此去，一路順風，高奏凱歌。弟在此靜候佳音便了。」二人敘了些寒溫，雨村便起身作別。士隱直送出門，又囑咐了些言語，方回來。"], vernacular: "（白話文）雨村見到士隱，連忙行禮陪笑說：「剛才聽說老先生在家，所以特地來拜會，沒想到老先生早就知道了。」士隱笑著說：「是的，剛才聽到外面鼓樂喧鬧，想必是兄台到了。」雨村說：「正是。小弟這次來，一是為了道賀，二也是為了告辭。現在小弟正應該努力上進，無奈口袋裡沒錢，去留兩難。剛才承蒙老先生厚贈，又承蒙嚴老爺的情分，答應給予路費，並且還有推薦信，讓我可以進京參加鄉試，如果僥倖考中，將來回家拜望，決不會忘記今天的恩德。」士隱連忙笑著說：「說這些客氣話幹什麼！我年輕時不知道约束自己，如今已經心灰意冷了。況且，我們交往，本來就沒有這些俗套。兄台這次去，一路順風，馬到成功。我就在這裡靜候佳音了。」兩人說了些客套話，雨村便起身告辭。士隱一直把他送到門外，又叮囑了幾句話，才回來。" },
-      { content: ["一日，士隱在書房中閒坐，看見一個跛足道人，瘋狂落拓，麻鞋鶉衣，口內念着幾句言詞，道是：「世人都曉神仙好，惟有功名忘不了！古今將相在何方？荒塚一堆草沒了。世人都曉神仙好，只有金銀忘不了！終朝只恨聚無多，及到多時眼閉了。世人都曉神仙好，只有嬌妻忘不了！君生日日說恩情，君死又隨人去了。世人都曉神仙好，只有兒孫忘不了！痴心父母古來多，孝順兒孫誰見了？」士隱聽了，心下早已悟徹，因笑道：「你滿口說些什麼？只聽見些『好了』，『好了』。」那道人笑道：「你若果聽見『好了』二字，還算你明白。可知世上萬般，好便是了，了便是好。若不了，便不好；若要好，須是了。我這歌兒，便名《好了歌》。」"], vernacular: "（白話文）有一天，士隱閒坐在書房裡，看見一個跛脚的道士，瘋瘋癲癲，不修邊幅，穿著麻鞋破衣，嘴裡念叨著幾句話，說的是：「世上的人都知道神仙好，只有功名利祿忘不了！從古到今的將軍宰相在哪裡？只剩下荒墳一堆，長滿了野草。世上的人都知道神仙好，只有金銀財寶忘不了！整天只怨恨聚集得不夠多，等到錢財多了的時候，眼睛卻閉上了。世上的人都知道神仙好，只有漂亮的妻子忘不了！你活著的時候天天說恩愛，你死了之後她又跟別人跑了。世上的人都知道神仙好，只有兒孫後代忘不了！痴心的父母自古以來就很多，孝順的兒孫誰見過呢？」士隱聽了，心裡早已完全明白了，於是笑著說：「你滿口說些什麼？只聽到一些『好了』，『好了』。」那道人笑著說：「你如果真的聽見『好了』兩個字，還算你明白。要知道世上的萬事萬物，好就是了結，了結就是好。如果不能了結，就不好；如果要好，必須了結。我這首歌，就叫《好了歌》。」" },
-      { content: ["士隱本是有宿慧的，一聞此言，心中早已徹悟。便走上前道：「這位禪師，請問你從何而來，到何處去？」道人道：「你問我從何而來，我並無來處；你問我到何處去，我亦無去處。天地廣大，我自遨遊。」士隱聽了，點頭稱善。那道人便將葫蘆中之藥，傾入士隱掌中，道：「你將此藥敷在眼上，便可看破一切。」士隱依言，將藥敷上，頓覺神清氣爽，心明眼亮，回頭再看那道人時，已渺無蹤跡。士隱心下感歎不已，遂將家中所有，盡數施捨。隨後便尋訪那跛足道人，不知所之。"], vernacular: "（白話文）士隱本來就有天生的悟性，一聽到這話，心裡早已徹底醒悟。便走上前說：「這位禪師，請問您從哪裡來，要到哪裡去？」道士說：「你問我從哪裡來，我並沒有來處；你問我到何處去，我也沒有去處。天地廣大，我自由自在地遨遊。」士隱聽了，點頭稱好。那道士便將葫蘆裡的藥，倒在士隱的手掌中，說：「你把這藥敷在眼睛上，就可以看破一切了。」士隱依照他的話，把藥敷上，頓時覺得神清氣爽，心明眼亮，回頭再看那道士時，已經不見蹤影了。士隱心裡感慨不已，於是將家裡所有的財產，全部施捨出去。隨後便去尋訪那個跛脚的道士，卻不知道他去了哪裡。" },
-      { content: ["此回中，甄士隱夢見一僧一道，談論石頭下凡歷劫之事。賈雨村寄居甄家，中秋與甄士隱賞月吟詩，後得甄家資助，上京赴考。甄士隱之女英蓮元宵燈節被拐，甄家隨後又遭火災，家道中落。甄士隱看破紅塵，隨跛足道人出家。"], vernacular: "（白話文）這一回裡，甄士隱夢見一個和尚和一個道士，談論石頭下凡間歷劫的事情。賈雨村寄住在甄家，中秋節和甄士隱一起賞月作詩，後來得到甄家的資助，到京城參加科舉考試。甄士隱的女兒英蓮在元宵節看花燈時被人拐走，甄家隨後又遭遇火災，家境衰落。甄士隱看破紅塵，跟著一個跛脚的道士出家了。" }
-    ]
-  },
-  ...Array.from({ length: 24 }, (_, i) => {
-    const chapterNum = i + 2;
-    return {
-      id: chapterNum,
-      paragraphs: [
-        { content: [`此為第 ${chapterNum} 回示例原文段落一。話說 [某角色] 如何如何...`], vernacular: `（白話文）這是第 ${chapterNum} 回的白話示例段落一。[某角色] 做了些什麼...` },
-        { content: [`第 ${chapterNum} 回示例原文段落二，又提及 [另一事件或人物]。此處略去更多內容，僅為演示。`], vernacular: `（白話文）第 ${chapterNum} 回白話示例段落二。又說到了 [其他事情]。` },
-      ]
-    };
-  })
-];
-
-const chapters: Chapter[] = chapters_base_data.map(ch_base => {
-  const chapterNum = ch_base.id;
-  if (chapterNum === 1) {
-    return {
-      ...ch_base,
-      titleKey: 'chapterContent.ch1.title',
-      subtitleKey: 'chapterContent.ch1.subtitle',
-      summaryKey: 'chapterContent.ch1.summary',
-    };
+// Characters of original text in a paragraph element before a DOM position.
+// Vernacular shown alongside the original in parallel mode is not counted.
+const countOriginalChars = (paragraphEl: HTMLElement, container: Node, offset: number): number => {
+  const before = document.createRange();
+  before.selectNodeContents(paragraphEl);
+  before.setEnd(container, offset);
+  let count = 0;
+  const walker = document.createTreeWalker(paragraphEl, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (isVernacularNode(node)) continue;
+    const length = node.textContent?.length ?? 0;
+    if (node === container) {
+      count += offset;
+    } else if (before.comparePoint(node, length) === 0) {
+      count += length;
+    }
   }
-  return {
-    ...ch_base,
-    titleKey: `chapterContent.ch_generic.title#${chapterNum}`, // Using # to pass number for replacement
-    subtitleKey: `chapterContent.ch_generic.subtitle#${chapterNum}`,
-    summaryKey: `chapterContent.ch_generic.summary#${chapterNum}`,
-  };
-});
+  return count;
+};
 
+// Paragraph and character offsets of a selection in the paragraph's original text.
+// Selections running past the paragraph they start in are cut at its end.
+const getRangeParagraphOffsets = (range: Range): { paragraphId: string; startOffset: number; endOffset: number } | null => {
+  const startNode = range.startContainer;
+  const startElement = startNode instanceof Element ? startNode : startNode.parentElement;
+  const paragraphEl = startElement?.closest<HTMLElement>('[data-paragraph-id]');
+  const paragraphId = paragraphEl?.dataset.paragraphId;
+  if (!paragraphEl || !paragraphId || isVernacularNode(startNode)) return null;
+
+  const startOffset = countOriginalChars(paragraphEl, range.startContainer, range.startOffset);
+  const paragraphLength = countOriginalChars(paragraphEl, paragraphEl, paragraphEl.childNodes.length);
+  const endOffset = paragraphEl.contains(range.endContainer)
+    ? countOriginalChars(paragraphEl, range.endContainer, range.endOffset)
+    : paragraphLength;
+  return { paragraphId, startOffset, endOffset: Math.min(endOffset, paragraphLength) };
+};
+
+// Empty chapter shown while the real chapter is fetched or when it is not in the corpus yet
+const createPendingChapter = (id: number): Chapter => ({ id, title: '', paragraphs: [] });
 
 type AIInteractionState = 'asking' | 'answering' | 'answered' | 'error' | 'streaming';
-type ColumnLayout = 'single' | 'double';
 
 const themes = {
   white: { key: 'white', nameKey: 'labels.themes.white', readingBgClass: 'bg-white', readingTextClass: 'text-neutral-800', swatchClass: 'bg-white border-neutral-300', toolbarBgClass: 'bg-neutral-100/90', toolbarTextClass: 'text-neutral-700', toolbarAccentTextClass: 'text-[hsl(45_70%_50%)]', toolbarBorderClass: 'border-neutral-300/50' },
@@ -244,24 +305,84 @@ const FONT_SIZE_MAX = 32;
 const FONT_SIZE_STEP = 2;
 const FONT_SIZE_INITIAL = 20;
 
+// Background used for each highlight colour, in the text and in the colour picker
+const highlightColorClasses: Record<HighlightColor, { mark: string; swatch: string }> = {
+  yellow: { mark: 'bg-yellow-300/70', swatch: 'bg-yellow-300' },
+  green: { mark: 'bg-green-300/70', swatch: 'bg-green-300' },
+  blue: { mark: 'bg-sky-300/70', swatch: 'bg-sky-300' },
+  pink: { mark: 'bg-pink-300/70', swatch: 'bg-pink-300' },
+  purple: { mark: 'bg-violet-300/70', swatch: 'bg-violet-300' },
+};
+
+// Underline and badge colour for each annotation source; 脂批 take the red of the manuscripts' ink
+const annotationSourceClasses: Record<AnnotationSourceId, { underline: string; badge: string }> = {
+  editorial: { underline: 'decoration-amber-600', badge: 'text-amber-700' },
+  zhiyanzhai: { underline: 'decoration-red-600', badge: 'text-red-600' },
+  scholar: { underline: 'decoration-sky-600', badge: 'text-sky-700' },
+};
+
+// Wrap each character that has a reading in a span; the reading is drawn by CSS from
+// data-ruby, so it adds no text nodes and selection offsets are unaffected
+const rubyText = (text: string, start: number, ruby: Array<string | null>): React.ReactNode => {
+  const nodes: React.ReactNode[] = [];
+  let plain = '';
+  for (let i = 0; i < text.length; i++) {
+    const reading = ruby[start + i];
+    if (!reading) {
+      plain += text[i];
+      continue;
+    }
+    if (plain) nodes.push(plain);
+    plain = '';
+    nodes.push(<span key={start + i} className="ruby-char" data-ruby={reading}>{text[i]}</span>);
+  }
+  if (plain) nodes.push(plain);
+  return nodes.length === 1 ? nodes[0] : nodes;
+};
+
+// Render each run of decorated text starting at `start` in the paragraph with `renderRun`;
+// underlines and search marks hold plain strings, so their text is rendered inside them
+const mapTextRuns = (
+  nodes: React.ReactNode[],
+  start: number,
+  renderRun: (text: string, offset: number) => React.ReactNode
+): React.ReactNode[] => {
+  let offset = start;
+  return nodes.map((node, index) => {
+    if (typeof node === 'string') {
+      const rendered = <React.Fragment key={`r-${index}`}>{renderRun(node, offset)}</React.Fragment>;
+      offset += node.length;
+      return rendered;
+    }
+    if (React.isValidElement<{ children?: React.ReactNode }>(node) && typeof node.props.children === 'string') {
+      const text = node.props.children;
+      const rendered = React.cloneElement(node, undefined, renderRun(text, offset));
+      offset += text.length;
+      return rendered;
+    }
+    return node;
+  });
+};
+
+// Matching is Traditional/Simplified-insensitive: 梦 highlights 夢 and vice versa
 const highlightText = (text: string, highlight: string): React.ReactNode[] => {
   if (!highlight.trim()) {
     return [text];
   }
-  const searchTerm = highlight.trim();
+  const searchTerm = normalizeForSearch(highlight.trim());
   if (searchTerm === "") return [text];
 
-  const regex = new RegExp(searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+  // normalizeForSearch keeps offsets, so matches in the folded text map back to `text`
+  const foldedText = normalizeForSearch(text);
   let lastIndex = 0;
   const result: React.ReactNode[] = [];
-  let match;
 
-  while ((match = regex.exec(text)) !== null) {
-    if (match.index > lastIndex) {
-      result.push(text.substring(lastIndex, match.index));
+  for (let index = foldedText.indexOf(searchTerm); index !== -1; index = foldedText.indexOf(searchTerm, lastIndex)) {
+    if (index > lastIndex) {
+      result.push(text.substring(lastIndex, index));
     }
-    result.push(<mark key={`mark-${lastIndex}-${match.index}`} className="bg-yellow-300 text-black px-0.5 rounded-sm">{match[0]}</mark>);
-    lastIndex = regex.lastIndex;
+    result.push(<mark key={`mark-${lastIndex}-${index}`} className="bg-yellow-300 text-black px-0.5 rounded-sm">{text.substring(index, index + searchTerm.length)}</mark>);
+    lastIndex = index + searchTerm.length;
   }
 
   if (lastIndex < text.length) {
@@ -280,8 +401,13 @@ export default function ReadBookPage() {
   const [isToolbarVisible, setIsToolbarVisible] = useState(true);
   // Removed vernacular toggle per product decision
   const [columnLayout, setColumnLayout] = useState<ColumnLayout>('single');
+  // Parallel reading: vernacular shown sentence by sentence beside the original
+  const [isParallelMode, setIsParallelMode] = useState(false);
+  const [activeAlignment, setActiveAlignment] = useState<{ paragraphId: string; index: number } | null>(null);
 
   const [isKnowledgeGraphSheetOpen, setIsKnowledgeGraphSheetOpen] = useState(false);
+  // Knowledge graph scope: the current chapter, or chapters 1..current merged
+  const [isCumulativeGraph, setIsCumulativeGraph] = useState(false);
   const [isTocSheetOpen, setIsTocSheetOpen] = useState(false);
 
   const [isNoteSheetOpen, setIsNoteSheetOpen] = useState(false);
@@ -345,29 +471,185 @@ export default function ReadBookPage() {
   const lastScrollTopRef = useRef(0);
 
   const [selectedTextInfo, setSelectedTextInfo] = useState<{ text: string; position: { top: number; left: number; } | null; range: Range | null; } | null>(null);
-  const [activeHighlightInfo, setActiveHighlightInfo] = useState<{ text: string; position: { top: number; left: number; } } | null>(null);
+  const [activeHighlightInfo, setActiveHighlightInfo] = useState<{ text: string; position: { top: number; left: number; }; highlightId: string } | null>(null);
   const [noteSelectedText, setNoteSelectedText] = useState<string>(''); // Preserve selected text for note sheet
 
   const chapterContentRef = useRef<HTMLDivElement>(null);
   const toolbarTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  
-  const currentChapter = chapters[currentChapterIndex];
+
+  // Chapter corpus state: table of contents plus the chapter currently on screen
+  const [chapterIndex, setChapterIndex] = useState<ChapterIndexEntry[]>(
+    () => Array.from({ length: TOTAL_CHAPTERS }, (_, i) => ({ id: i + 1, available: false }))
+  );
+  const [currentChapter, setCurrentChapter] = useState<Chapter>(() => createPendingChapter(1));
+  const [chapterLoadState, setChapterLoadState] = useState<ChapterLoadState>('loading');
+
+  // Edition being read, plus the edition it is collated against in the collation sheet
+  const [editionId, setEditionId] = useState<EditionId>(DEFAULT_EDITION_ID);
+  const [isEditionPopoverOpen, setIsEditionPopoverOpen] = useState(false);
+  const [isCollationSheetOpen, setIsCollationSheetOpen] = useState(false);
+  const [collationEditionId, setCollationEditionId] = useState<EditionId | null>(null);
+  const [collationChapter, setCollationChapter] = useState<Chapter | null>(null);
+  const [collationLoadState, setCollationLoadState] = useState<ChapterLoadState>('loading');
+  // Annotation layer: the chapter's annotations, the sources shown, and the annotations open in the panel
+  const [chapterAnnotations, setChapterAnnotations] = useState<ChapterAnnotation[]>([]);
+  const { enabledAnnotationSources, toggleAnnotationSource } = useAnnotationSources();
+  const [openAnnotations, setOpenAnnotations] = useState<PlacedAnnotation[] | null>(null);
+
+  // Character tags: the catalog, the character whose card is open, and the chapter graph the card lists
+  const [characterCatalog, setCharacterCatalog] = useState<CharacterCatalogJson | null>(null);
+  const [openCharacterId, setOpenCharacterId] = useState<string | null>(null);
+  const [characterGraph, setCharacterGraph] = useState<{ chapterId: number; data: KnowledgeGraphData } | null>(null);
+  // Saved positions are per edition, so restoring waits until ?edition= has been read
+  const [isEditionResolved, setIsEditionResolved] = useState(false);
+
+  useEffect(() => {
+    loadChapterIndex().then(setChapterIndex);
+  }, []);
+
+  // Library links open a specific edition via ?edition=
+  useEffect(() => {
+    const requestedEdition = new URLSearchParams(window.location.search).get('edition');
+    if (isEditionId(requestedEdition)) {
+      setEditionId(requestedEdition);
+    }
+    setIsEditionResolved(true);
+  }, []);
+
+  useEffect(() => {
+    const chapterNumber = currentChapterIndex + 1;
+    let cancelled = false;
+    setChapterLoadState('loading');
+    setCurrentChapter(createPendingChapter(chapterNumber));
+
+    loadChapter(chapterNumber, editionId)
+      .then(chapter => {
+        if (cancelled) return;
+        if (chapter) {
+          setCurrentChapter(chapter);
+          setChapterLoadState('ready');
+        } else {
+          setChapterLoadState('missing');
+        }
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error(`Failed to load chapter ${chapterNumber}:`, error);
+        setChapterLoadState('error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentChapterIndex, editionId]);
+
+  useEffect(() => {
+    if (!isCollationSheetOpen || !collationEditionId) return;
+    const chapterNumber = currentChapterIndex + 1;
+    let cancelled = false;
+    setCollationLoadState('loading');
+    setCollationChapter(null);
+
+    loadChapter(chapterNumber, collationEditionId)
+      .then(chapter => {
+        if (cancelled) return;
+        setCollationChapter(chapter);
+        setCollationLoadState(chapter ? 'ready' : 'missing');
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error(`Failed to load chapter ${chapterNumber} (${collationEditionId}) for collation:`, error);
+        setCollationLoadState('error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isCollationSheetOpen, collationEditionId, currentChapterIndex]);
+
+  // Annotations are loaded once the chapter text is on screen; the edition
+  // decides which inline annotations are included
+  useEffect(() => {
+    setChapterAnnotations([]);
+    setOpenAnnotations(null);
+    if (chapterLoadState !== 'ready') return;
+    const chapterNumber = currentChapter.id;
+    let cancelled = false;
+
+    loadChapterAnnotations(chapterNumber, editionId)
+      .then(annotations => {
+        if (!cancelled) setChapterAnnotations(annotations);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error(`Failed to load annotations for chapter ${chapterNumber}:`, error);
+        toast({ title: t('Error'), description: t('annotations.loadError'), variant: "destructive" });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentChapter.id, chapterLoadState, editionId]);
+
+  // The character catalog is loaded once the first chapter is on screen
+  useEffect(() => {
+    if (chapterLoadState !== 'ready' || characterCatalog) return;
+    let cancelled = false;
+
+    loadCharacterCatalog()
+      .then(catalog => {
+        if (!cancelled) setCharacterCatalog(catalog);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to load character catalog:', error);
+        toast({ title: t('Error'), description: t('characters.loadError'), variant: "destructive" });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chapterLoadState, characterCatalog]);
+
+  useEffect(() => {
+    setOpenCharacterId(null);
+  }, [currentChapter.id]);
+
+  // An open character card lists the nodes the current chapter's knowledge graph connects to the character
+  useEffect(() => {
+    if (!openCharacterId || characterGraph?.chapterId === currentChapter.id) return;
+    const chapterId = currentChapter.id;
+    let cancelled = false;
+
+    loadChapterGraphData(chapterId).then(data => {
+      if (!cancelled) setCharacterGraph({ chapterId, data });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [openCharacterId, currentChapter.id, characterGraph?.chapterId]);
 
   const [isSettingsPopoverOpen, setIsSettingsPopoverOpen] = useState(false);
   const [activeThemeKey, setActiveThemeKey] = useState<keyof typeof themes>('white');
   const [currentNumericFontSize, setCurrentNumericFontSize] = useState<number>(FONT_SIZE_INITIAL);
   const [activeFontFamilyKey, setActiveFontFamilyKey] = useState<keyof typeof fontFamilies>('notoSerifSC');
+  const { rubySettings, changeRubySettings } = useRubySettings();
 
-  const [isSearchPopoverOpen, setIsSearchPopoverOpen] = useState(false);
-  const [currentSearchTerm, setCurrentSearchTerm] = useState("");
+  const bookSearch = useBookSearch(editionId);
 
   const [isFullscreenActive, setIsFullscreenActive] = useState(false);
-  const [highlights, setHighlights] = useState<string[]>([]);
+  // Highlights for the chapter on screen; saved to Firestore when signed in
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [highlightColor, setHighlightColor] = useState<HighlightColor>(DEFAULT_HIGHLIGHT_COLOR);
 
-  // Pagination state (enabled for double-column layout)
+  // Pagination state (enabled for the double-column and vertical layouts)
   const [isPaginationMode, setIsPaginationMode] = useState<boolean>(false);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [totalPages, setTotalPages] = useState<number>(1);
+  // Vertical text needs a fixed line length: the viewport height, measured with the pages
+  const [verticalLineHeight, setVerticalLineHeight] = useState<number | null>(null);
+  const isVerticalLayout = columnLayout === 'vertical';
   const scrollAreaRef = useRef<HTMLDivElement | null>(null);
 
   const selectedTheme = themes[activeThemeKey];
@@ -484,11 +766,11 @@ export default function ReadBookPage() {
       clearTimeout(toolbarTimeoutRef.current);
     }
     toolbarTimeoutRef.current = setTimeout(() => {
-      if (!isAiSheetOpen && !isNoteSheetOpen && !isKnowledgeGraphSheetOpen && !isTocSheetOpen && !isSettingsPopoverOpen && !isSearchPopoverOpen && !selectedTextInfo) {
+      if (!isAiSheetOpen && !isNoteSheetOpen && !isKnowledgeGraphSheetOpen && !isTocSheetOpen && !isSettingsPopoverOpen && !bookSearch.isOpen && !isEditionPopoverOpen && !isCollationSheetOpen && !selectedTextInfo) {
         setIsToolbarVisible(false);
       }
     }, 5000);
-  }, [isAiSheetOpen, isNoteSheetOpen, isKnowledgeGraphSheetOpen, isTocSheetOpen, isSettingsPopoverOpen, isSearchPopoverOpen, selectedTextInfo]);
+  }, [isAiSheetOpen, isNoteSheetOpen, isKnowledgeGraphSheetOpen, isTocSheetOpen, isSettingsPopoverOpen, bookSearch.isOpen, isEditionPopoverOpen, isCollationSheetOpen, selectedTextInfo]);
 
 
   const handleInteraction = useCallback(() => {
@@ -505,7 +787,7 @@ export default function ReadBookPage() {
         clearTimeout(toolbarTimeoutRef.current);
       }
     };
-  }, [isToolbarVisible, hideToolbarAfterDelay, currentChapterIndex, isAiSheetOpen, isNoteSheetOpen, isKnowledgeGraphSheetOpen, isTocSheetOpen, isSettingsPopoverOpen, isSearchPopoverOpen, selectedTextInfo]);
+  }, [isToolbarVisible, hideToolbarAfterDelay, currentChapterIndex, isAiSheetOpen, isNoteSheetOpen, isKnowledgeGraphSheetOpen, isTocSheetOpen, isSettingsPopoverOpen, bookSearch.isOpen, selectedTextInfo]);
 
 
   useEffect(() => {
@@ -518,8 +800,8 @@ export default function ReadBookPage() {
     setAiInteractionState('asking');
     setIsKnowledgeGraphSheetOpen(false);
     setIsTocSheetOpen(false);
-    setCurrentSearchTerm("");
-    setIsSearchPopoverOpen(false);
+    bookSearch.setTerm("");
+    bookSearch.setIsOpen(false);
     setIsToolbarVisible(true);
     // Scroll to top of chapter content when chapter changes
     if (chapterContentRef.current) {
@@ -541,6 +823,16 @@ export default function ReadBookPage() {
     if (!viewportEl) return;
 
     const contentEl = chapterContentRef.current as HTMLElement | null;
+    if (isVerticalLayout) {
+      // Vertical lines run right to left, so pages are viewport-wide slices of the content width
+      setVerticalLineHeight(viewportEl.clientHeight || null);
+      const viewportW = Math.max(1, viewportEl.clientWidth || viewportEl.offsetWidth || 0);
+      const totalContentW = Math.max(contentEl?.scrollWidth || 0, viewportEl.scrollWidth || 0);
+      const pages = Math.max(1, Math.ceil(Math.max(viewportW, totalContentW) / viewportW));
+      setTotalPages(pages);
+      setCurrentPage(Math.min(pages, Math.max(1, currentPage)));
+      return;
+    }
     // Use maximum of several dimensions to avoid underestimation during multi-column layout
     const viewportH = Math.max(1, viewportEl.clientHeight || viewportEl.offsetHeight || 0);
     const totalContentH = Math.max(
@@ -555,11 +847,11 @@ export default function ReadBookPage() {
     setTotalPages(pages);
     const clamped = Math.min(pages, Math.max(1, currentPage));
     setCurrentPage(clamped);
-  }, [isPaginationMode, currentPage]);
+  }, [isPaginationMode, isVerticalLayout, currentPage]);
 
-  // Enable pagination automatically for double-column layout
+  // Enable pagination automatically for the double-column and vertical layouts
   useEffect(() => {
-    const enable = columnLayout === 'double';
+    const enable = columnLayout === 'double' || columnLayout === 'vertical';
     setIsPaginationMode(enable);
     // Reset to first page when toggling mode
     setCurrentPage(1);
@@ -567,7 +859,7 @@ export default function ReadBookPage() {
     if (enable) {
       requestAnimationFrame(() => requestAnimationFrame(() => computePagination()))
     }
-  }, [columnLayout, currentChapterIndex, currentNumericFontSize, activeFontFamilyKey, activeThemeKey]);
+  }, [columnLayout, isParallelMode, currentChapterIndex, currentNumericFontSize, activeFontFamilyKey, activeThemeKey]);
 
   const handleMouseUp = useCallback((event: globalThis.MouseEvent) => {
     const targetElement = event.target as HTMLElement;
@@ -602,9 +894,9 @@ export default function ReadBookPage() {
         (document.getElementById('chapter-content-viewport') as HTMLElement | null) ||
         (document.getElementById('chapter-content-scroll-area') as HTMLElement | null);
       const scrollTop = scrollAreaElement?.scrollTop || 0;
-      const scrollLeft = scrollAreaElement?.scrollLeft || 0;
+      // The only horizontal scrolling is the vertical layout's paging, which the rect already reflects
       const top = rect.top + scrollTop;
-      const left = rect.left + scrollLeft + (rect.width / 2);
+      const left = rect.left + (rect.width / 2);
       setSelectedTextInfo({ text, position: { top, left }, range: range.cloneRange() });
       setIsNoteSheetOpen(false);
       setIsAiSheetOpen(false);
@@ -657,11 +949,51 @@ export default function ReadBookPage() {
       (document.getElementById('chapter-content-viewport') as HTMLElement | null) ||
       (document.getElementById('chapter-content-scroll-area') as HTMLElement | null);
     if (!el) return;
-    const viewport = el.clientHeight;
-    const target = Math.max(0, (page - 1) * viewport);
-    el.scrollTo({ top: target, behavior: 'smooth' });
+    if (isVerticalLayout) {
+      // Right-to-left content scrolls from 0 on the first page into negative offsets
+      el.scrollTo({ left: -Math.max(0, (page - 1) * el.clientWidth), behavior: 'smooth' });
+    } else {
+      const viewport = el.clientHeight;
+      const target = Math.max(0, (page - 1) * viewport);
+      el.scrollTo({ top: target, behavior: 'smooth' });
+    }
     setCurrentPage(page);
-  }, []);
+  }, [isVerticalLayout]);
+
+  // Bring a paragraph into view; in pagination mode turn to the page holding it
+  const scrollToParagraph = useCallback((paragraphId: string) => {
+    const paragraphEl = chapterContentRef.current?.querySelector<HTMLElement>(`[data-paragraph-id="${paragraphId}"]`);
+    if (!paragraphEl) return;
+    const viewportEl = document.getElementById('chapter-content-viewport') as HTMLElement | null;
+    if (isPaginationMode && viewportEl && isVerticalLayout) {
+      const offset = viewportEl.getBoundingClientRect().right - paragraphEl.getBoundingClientRect().right - viewportEl.scrollLeft;
+      goToPage(Math.floor(offset / Math.max(1, viewportEl.clientWidth)) + 1);
+    } else if (isPaginationMode && viewportEl) {
+      const offset = paragraphEl.getBoundingClientRect().top - viewportEl.getBoundingClientRect().top + viewportEl.scrollTop;
+      goToPage(Math.floor(offset / Math.max(1, viewportEl.clientHeight)) + 1);
+    } else {
+      paragraphEl.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [isPaginationMode, isVerticalLayout, goToPage]);
+
+  // Jump to a whole-book search hit once its chapter has rendered
+  useEffect(() => {
+    const { pendingJump, clearPendingJump } = bookSearch;
+    if (!pendingJump || chapterLoadState !== 'ready' || pendingJump.chapterId !== currentChapter.id) return;
+    const { paragraphId } = pendingJump;
+    clearPendingJump();
+    // double-rAF so the column layout and pagination settle before scrolling
+    requestAnimationFrame(() => requestAnimationFrame(() => scrollToParagraph(paragraphId)));
+  }, [bookSearch.pendingJump, bookSearch.clearPendingJump, chapterLoadState, currentChapter.id, scrollToParagraph]);
+
+  const handleSelectSearchResult = (result: SearchResult) => {
+    bookSearch.jumpTo(result);
+    if (result.chapterId - 1 !== currentChapterIndex) {
+      flushReadingPositionSave();
+      setCurrentChapterIndex(result.chapterId - 1);
+    }
+    handleInteraction();
+  };
 
   const goNextPage = useCallback(() => {
     if (!isPaginationMode) return;
@@ -676,7 +1008,7 @@ export default function ReadBookPage() {
   }, [currentPage, isPaginationMode, goToPage]);
 
   // Keyboard navigation for pagination:
-  // - Left/Right = prev/next page
+  // - Left/Right = prev/next page (next/prev in the vertical layout, which reads right to left)
   // - Up/Down/PageUp/PageDown/Space: prevent vertical scroll; map Up/PageUp to prev, Down/PageDown/Space to next
   useEffect(() => {
     if (!isPaginationMode) return;
@@ -689,10 +1021,10 @@ export default function ReadBookPage() {
 
       if (e.key === 'ArrowRight') {
         e.preventDefault();
-        goNextPage();
+        if (isVerticalLayout) goPrevPage(); else goNextPage();
       } else if (e.key === 'ArrowLeft') {
         e.preventDefault();
-        goPrevPage();
+        if (isVerticalLayout) goNextPage(); else goPrevPage();
       } else if (e.key === 'ArrowDown' || e.key === 'PageDown' || e.key === ' ') {
         e.preventDefault();
         goNextPage();
@@ -704,7 +1036,7 @@ export default function ReadBookPage() {
 
     window.addEventListener('keydown', onKeyDown, { capture: true });
     return () => window.removeEventListener('keydown', onKeyDown, { capture: true } as any);
-  }, [isPaginationMode, goNextPage, goPrevPage]);
+  }, [isPaginationMode, isVerticalLayout, goNextPage, goPrevPage]);
 
   /**
    * Global scroll lock and wheel interception for dual-column pagination
@@ -831,12 +1163,6 @@ export default function ReadBookPage() {
     }
   };
 
-  const handlePlaceholderAction = (actionNameKey: string) => {
-    toast({ title: t('buttons.featureComingSoon'), description: `${t(actionNameKey)} ${t('buttons.featureComingSoon')}` });
-    setSelectedTextInfo(null); 
-    setActiveHighlightInfo(null);
-  };
-
   // Suggestion questions for the AI interface
   const suggestionQuestions = [
     "第一回的主要宗旨所在？",
@@ -862,7 +1188,7 @@ export default function ReadBookPage() {
   // Handle AI action buttons
   const handleBookHighlights = async () => {
     // Unify to Perplexity streaming flow for consistent UI
-    const analysisPrompt = `請分析《紅樓夢》第${currentChapterIndex + 1}回「${getChapterTitle(currentChapter.titleKey)}」的主要亮點和重要內容，包括：
+    const analysisPrompt = `請分析《紅樓夢》第${currentChapterIndex + 1}回「${getChapterTitle(currentChapter)}」的主要亮點和重要內容，包括：
 1. 文學價值的體現
 2. 人物刻畫的精彩之處  
 3. 情節發展的關鍵轉折
@@ -875,7 +1201,7 @@ export default function ReadBookPage() {
   };
 
   const handleBackgroundReading = async () => {
-    const analysisPrompt = `請提供《紅樓夢》第${currentChapterIndex + 1}回「${getChapterTitle(currentChapter.titleKey)}」的背景解讀，包括：
+    const analysisPrompt = `請提供《紅樓夢》第${currentChapterIndex + 1}回「${getChapterTitle(currentChapter)}」的背景解讀，包括：
 1. 歷史背景與時代意義
 2. 文學史地位
 3. 作者創作意圖  
@@ -888,7 +1214,7 @@ export default function ReadBookPage() {
   };
 
   const handleKeyConcepts = async () => {
-    const analysisPrompt = `請分析《紅樓夢》第${currentChapterIndex + 1}回「${getChapterTitle(currentChapter.titleKey)}」中的關鍵概念和重要主題，包括：
+    const analysisPrompt = `請分析《紅樓夢》第${currentChapterIndex + 1}回「${getChapterTitle(currentChapter)}」中的關鍵概念和重要主題，包括：
 1. 核心主題思想
 2. 重要文學概念
 3. 人物性格特點
@@ -1031,7 +1357,7 @@ export default function ReadBookPage() {
     try {
       const chapterContextSnippet = currentChapter.paragraphs
         .slice(0, 5) 
-        .map(p => p.content.map(c => typeof c === 'string' ? c : c.text).join(''))
+        .map(p => getParagraphText(p))
         .join('\n')
         .substring(0, 1000); 
 
@@ -1041,7 +1367,7 @@ export default function ReadBookPage() {
           userQuestionInput,
           selectedTextInfo,
           chapterContextSnippet,
-          currentChapter.titleKey,
+          getChapterTitle(currentChapter),
           {
             modelKey: perplexityModel,
             reasoningEffort: reasoningEffort,
@@ -1161,7 +1487,7 @@ export default function ReadBookPage() {
                 userQuestion: questionText,
                 selectedTextInfo: selectedTextInfo,
                 chapterContext: chapterContextSnippet,
-                currentChapter: currentChapter.titleKey,
+                currentChapter: getChapterTitle(currentChapter),
                 modelKey: perplexityModel,
                 reasoningEffort: reasoningEffort,
                 questionContext: 'general',
@@ -1712,7 +2038,7 @@ export default function ReadBookPage() {
           userQuestionInput,
           selectedTextInfo,
           chapterContextSnippet,
-          currentChapter.titleKey,
+          getChapterTitle(currentChapter),
           {
             modelKey: perplexityModel,
             reasoningEffort: reasoningEffort,
@@ -1765,6 +2091,10 @@ export default function ReadBookPage() {
   };
 
   const getColumnClass = () => {
+    // Vertical text is set in right-to-left lines rather than columns
+    if (columnLayout === 'vertical') return 'vertical-text';
+    // Parallel mode lays out its own two columns per paragraph
+    if (isParallelMode) return 'columns-1';
     switch (columnLayout) {
       case 'single': return 'columns-1';
       case 'double': return 'md:columns-2'; // Two-column layout for horizontal reading (left to right)
@@ -1773,6 +2103,8 @@ export default function ReadBookPage() {
   };
 
   const handleSelectChapterFromToc = (index: number) => {
+    // Keep the last position in the chapter being left until the next one has loaded
+    flushReadingPositionSave();
     setCurrentChapterIndex(index);
     setIsTocSheetOpen(false);
     handleInteraction();
@@ -1798,40 +2130,231 @@ export default function ReadBookPage() {
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
 
-  const handleReadAloudClick = () => {
-    toast({
-      title: t('buttons.featureComingSoon'),
-      description: `${t('buttons.readAloud')} ${t('buttons.featureComingSoon')}`,
-    });
-    handleInteraction();
+  // Read-aloud: the floating button plays the chapter, the selection toolbar
+  // plays the selected text, and each paragraph gets a play button while the
+  // player is open
+  const chapterReadAloud = useChapterReadAloud(currentChapter, chapterLoadState === 'ready', editionId);
+
+  const handleListenSelection = () => {
+    const text = selectedTextInfo?.text?.trim();
+    if (text) chapterReadAloud.readText(text);
+    setSelectedTextInfo(null);
+    setActiveHighlightInfo(null);
+    window.getSelection()?.removeAllRanges();
   };
 
   const toolbarButtonBaseClass = "flex flex-col items-center justify-center h-auto p-2";
   const toolbarIconClass = "h-6 w-6";
   const toolbarLabelClass = "mt-1 text-xs leading-none";
   
-  const getChapterTitle = (titleKey: string) => {
-    if (titleKey.includes('#')) {
-      const [baseKey, num] = titleKey.split('#');
-      return t(baseKey).replace('{chapterNum}', num);
-    }
-    return t(titleKey);
+  // Editions whose text for the current chapter exists in the corpus
+  const availableEditions = chapterIndex[currentChapterIndex]?.editions ?? [];
+
+  const handleEditionChange = (nextEditionId: EditionId) => {
+    setEditionId(nextEditionId);
+    setIsEditionPopoverOpen(false);
+    // Keep the URL shareable without triggering a navigation
+    window.history.replaceState(null, '', getEditionReadLink(nextEditionId));
+    handleInteraction();
+  };
+
+  const handleOpenCollation = (witnessEditionId: EditionId) => {
+    setCollationEditionId(witnessEditionId);
+    setIsEditionPopoverOpen(false);
+    setIsCollationSheetOpen(true);
+  };
+
+  // Prefer hand-written translations when the chapter defines a key, otherwise
+  // derive the display text from the zh-TW title stored in the corpus
+  const getChapterTitle = (chapter: { id: number; title?: string; titleKey?: string }) => {
+    if (chapter.titleKey) return t(chapter.titleKey);
+    if (chapter.title) return transformTextForLang(chapter.title, language, 'original');
+    return t('readBook.chapterFallbackTitle').replace('{number}', String(chapter.id));
   };
   
-  const currentChapterTitle = getChapterTitle(currentChapter.titleKey);
-  const currentChapterSubtitle = currentChapter.subtitleKey ? getChapterTitle(currentChapter.subtitleKey) : undefined;
+  const currentChapterTitle = getChapterTitle(currentChapter);
+  const currentChapterSubtitle = currentChapter.subtitleKey
+    ? t(currentChapter.subtitleKey)
+    : currentChapter.subtitle ? transformTextForLang(currentChapter.subtitle, language, 'original') : undefined;
 
   const { user, userProfile, refreshUserProfile } = useAuth();
   const [userNotes, setUserNotes] = useState<Note[]>([]);
 
+  // Offline reading: notes, highlights and XP made offline are queued and
+  // replayed when the connection returns; syncVersion reloads highlights afterwards
+  const [syncVersion, setSyncVersion] = useState(0);
+  const { isOnline, pendingCount, refreshPendingCount } = useOfflineSync((result: ReplayResult) => {
+    setSyncVersion(version => version + 1);
+    fetchNotesForChapter();
+    refreshUserProfile();
+    if (result.replayed > 0) {
+      toast({
+        title: t('offline.syncedTitle'),
+        description: t('offline.syncedDesc').replace('{count}', String(result.replayed))
+          + (result.xpAwarded > 0 ? ` (+${result.xpAwarded} XP)` : ''),
+      });
+    }
+    if (result.conflicts > 0) {
+      toast({
+        title: t('offline.conflictTitle'),
+        description: t('offline.conflictDesc').replace('{count}', String(result.conflicts)),
+        duration: 8000,
+      });
+    }
+    if (result.failed > 0) {
+      toast({
+        title: t('Error'),
+        description: t('offline.syncFailed').replace('{count}', String(result.failed)),
+        variant: 'destructive',
+      });
+    }
+    if (result.levelUp) {
+      setLevelUpData({ show: true, ...result.levelUp });
+    }
+  });
+
+  // Dictionary lookup of the selection, shown next to the selection toolbar;
+  // every word found is added to the reader's vocabulary list
+  const { dictionaryLookup, toggleLookup, closeLookup } = useDictionaryLookup(user?.uid ?? null, currentChapter.id);
+
+  const handleDictionaryLookup = () => {
+    const text = toolbarInfo?.text;
+    if (!text) return;
+    handleInteraction();
+    toggleLookup(text);
+  };
+
+  // The popover belongs to the selection it was opened for
+  useEffect(() => {
+    closeLookup();
+  }, [selectedTextInfo?.text, activeHighlightInfo?.text, closeLookup]);
+
+  // Export: the current chapter, a range or the whole book, with notes inline or as endnotes
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+
   useEffect(() => {
     if (user?.uid && currentChapter) {
-      getNotesByUserAndChapter(user.uid, currentChapter.id).then(setUserNotes);
+      getNotesByUserAndChapter(user.uid, currentChapter.id)
+        .then(notes => setUserNotes(withQueuedNotes(notes, user.uid, currentChapter.id)))
+        .catch(error => console.error('Failed to load notes:', error));
     } else {
       setUserNotes([]);
     }
   }, [user?.uid, currentChapter.id]);
 
+  // Reading position sync: restore the saved position once per user and edition,
+  // then save (debounced) whenever the chapter, page, layout or scroll position changes
+  const pendingRestoreRef = useRef<ReadingPosition | null>(null);
+  const [restoredPositionKey, setRestoredPositionKey] = useState<string | null>(null);
+  const savePositionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const positionKey = user?.uid ? `${user.uid}_${editionId}` : null;
+
+  useEffect(() => {
+    if (!user?.uid || !positionKey || !isEditionResolved || restoredPositionKey === positionKey) return;
+    let cancelled = false;
+
+    getReadingPosition(user.uid, editionId)
+      .then(position => {
+        if (cancelled) return;
+        if (position) {
+          pendingRestoreRef.current = position;
+          setColumnLayout(position.columnLayout);
+          setCurrentChapterIndex(position.chapterId - 1);
+        }
+      })
+      .catch(error => console.error('Failed to load reading position:', error))
+      .finally(() => {
+        if (!cancelled) setRestoredPositionKey(positionKey);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.uid, editionId, positionKey, isEditionResolved, restoredPositionKey]);
+
+  // Jump to the saved page or paragraph once the restored chapter has rendered
+  useEffect(() => {
+    const pending = pendingRestoreRef.current;
+    if (chapterLoadState !== 'ready' || !pending || pending.chapterId !== currentChapter.id) return;
+    pendingRestoreRef.current = null;
+
+    // double-rAF so the column layout and pagination settle before scrolling
+    requestAnimationFrame(() => requestAnimationFrame(() => {
+      if (pending.columnLayout !== 'single' && pending.page > 1) {
+        goToPage(pending.page);
+      } else if (pending.paragraphId) {
+        chapterContentRef.current
+          ?.querySelector(`[data-paragraph-id="${pending.paragraphId}"]`)
+          ?.scrollIntoView({ block: 'start' });
+      }
+    }));
+  }, [chapterLoadState, currentChapter.id, goToPage]);
+
+  // Latest savable position; null until the saved one has been restored so a
+  // fresh page load never overwrites it with chapter 1
+  const savablePositionRef = useRef<Omit<ReadingPosition, 'id' | 'updatedAt' | 'paragraphId'> | null>(null);
+  savablePositionRef.current =
+    user?.uid && restoredPositionKey === positionKey && chapterLoadState === 'ready' && !pendingRestoreRef.current
+      ? {
+          userId: user.uid,
+          editionId,
+          chapterId: currentChapter.id,
+          chapterTitle: currentChapter.title,
+          page: currentPage,
+          columnLayout,
+        }
+      : null;
+
+  const saveCurrentReadingPosition = useCallback(() => {
+    const position = savablePositionRef.current;
+    if (!position) return;
+    saveReadingPosition({ ...position, paragraphId: findAnchorParagraphId(chapterContentRef.current) })
+      .catch(error => console.error('Failed to save reading position:', error));
+  }, []);
+
+  const scheduleReadingPositionSave = useCallback(() => {
+    if (savePositionTimeoutRef.current) clearTimeout(savePositionTimeoutRef.current);
+    savePositionTimeoutRef.current = setTimeout(() => {
+      savePositionTimeoutRef.current = null;
+      saveCurrentReadingPosition();
+    }, 1500);
+  }, [saveCurrentReadingPosition]);
+
+  // Save a pending position now, while the chapter it was taken from is still on screen
+  const flushReadingPositionSave = useCallback(() => {
+    if (!savePositionTimeoutRef.current) return;
+    clearTimeout(savePositionTimeoutRef.current);
+    savePositionTimeoutRef.current = null;
+    saveCurrentReadingPosition();
+  }, [saveCurrentReadingPosition]);
+
+  useEffect(() => {
+    scheduleReadingPositionSave();
+  }, [scheduleReadingPositionSave, restoredPositionKey, chapterLoadState, currentChapter.id, currentPage, columnLayout, editionId]);
+
+  useEffect(() => {
+    const scrollAreaElement =
+      (document.getElementById('chapter-content-viewport') as HTMLElement | null) ||
+      (document.getElementById('chapter-content-scroll-area') as HTMLElement | null);
+    scrollAreaElement?.addEventListener('scroll', scheduleReadingPositionSave, { passive: true });
+    return () => {
+      scrollAreaElement?.removeEventListener('scroll', scheduleReadingPositionSave);
+    };
+  }, [scheduleReadingPositionSave]);
+
+  // Leaving the page: save before the tab is hidden or closed, and on unmount.
+  // A layout effect's cleanup runs before the chapter's elements are removed,
+  // so the paragraph being read can still be found.
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushReadingPositionSave();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [flushReadingPositionSave]);
+
+  useLayoutEffect(() => flushReadingPositionSave, [flushReadingPositionSave]);
+
   // One-time welcome bonus for new users entering reading page
   useEffect(() => {
     if (!user?.uid || !userProfile) return;
@@ -1889,13 +2412,17 @@ export default function ReadBookPage() {
         const timestamp = Date.now();
         const sourceId = `reading-time-${user.uid}-${timestamp}`;
 
-        const result = await userLevelService.awardXP(
+        const result = await awardXPOrQueue(
           user.uid,
           XP_REWARDS.READING_TIME_15MIN,
           'Reading for 15 minutes',
           'reading',
           sourceId
         );
+        if (!result) {
+          refreshPendingCount();
+          return;
+        }
 
         // Show toast notification if XP was awarded
         if (result.success && !result.isDuplicate) {
@@ -1941,8 +2468,8 @@ export default function ReadBookPage() {
 
   // Chapter completion tracking - award XP when navigating to new chapter
   useEffect(() => {
-    if (!user?.uid || !currentChapter) {
-      // Clear timer if user logs out or chapter disappears
+    if (!user?.uid || !currentChapter || chapterLoadState !== 'ready') {
+      // Clear timer if user logs out, chapter disappears, or its text is not loaded
       if (chapterTimerRef.current) {
         clearTimeout(chapterTimerRef.current);
         chapterTimerRef.current = null;
@@ -1986,7 +2513,7 @@ export default function ReadBookPage() {
         const isFirstChapter = currentChapter.id === 1;
         const xpAmount = isFirstChapter ? XP_REWARDS.FIRST_CHAPTER_COMPLETED : XP_REWARDS.CHAPTER_COMPLETED;
 
-          const result = await userLevelService.awardXP(
+          const result = await awardXPOrQueue(
             user.uid,
             xpAmount,
             `Completed chapter ${currentChapter.id}`,
@@ -1994,6 +2521,13 @@ export default function ReadBookPage() {
             `chapter-${currentChapter.id}`
           );
 
+        // Offline: the reward is queued and announced when it syncs
+        if (!result) {
+          setCompletedChapters(prev => new Set([...prev, currentChapter.id]));
+          refreshPendingCount();
+          return;
+        }
+
         // Skip notifications if this is a duplicate reward
         if (result.isDuplicate) {
           console.log(`⚠️ Skipping duplicate achievement notification for chapter ${currentChapter.id}`);
@@ -2040,7 +2574,7 @@ export default function ReadBookPage() {
         chapterTimerRef.current = null;
       }
     };
-  }, [user?.uid, currentChapter?.id, completedChapters]);
+  }, [user?.uid, currentChapter?.id, chapterLoadState, completedChapters]);
 
   const handleSaveNote = async () => {
     if (!user?.uid || (!noteSelectedText && !toolbarInfo?.text && !selectedTextInfo?.text)) return;
@@ -2048,20 +2582,10 @@ export default function ReadBookPage() {
     try {
       const selectedTextContent = noteSelectedText || toolbarInfo?.text || selectedTextInfo?.text || '';
 
-      if (currentNoteObj?.id) {
-        // Update existing note - no XP for updates
-        await updateNote(currentNoteObj.id, currentNote);
-
-        // Update visibility if changed
-        const previousPublicStatus = currentNoteObj.isPublic || false;
-        if (isNotePublic !== previousPublicStatus) {
-          await updateNoteVisibility(currentNoteObj.id, isNotePublic);
-
-          // If changed from private to public, share to community
-          if (isNotePublic && !previousPublicStatus) {
-            try {
-              const chapterTitle = getChapterTitle(currentChapter.titleKey);
-              const postContent = `我的閱讀筆記
+      // Post for the community when the note is (made) public; it goes out once the note is saved
+      const chapterTitle = getChapterTitle(currentChapter);
+      // Format community post with simplified format to avoid content filter
+      const postContent = `我的閱讀筆記
 
 ${currentNote}
 
@@ -2069,24 +2593,29 @@ ${currentNote}
 ${selectedTextContent}
 
 來源：《紅樓夢》第${currentChapter.id}回《${chapterTitle}》`;
+      const communityPost: CreatePostData = {
+        authorId: user.uid,
+        authorName: user.displayName || '匿名讀者',
+        content: postContent,
+        tags: [`第${currentChapter.id}回`, '筆記分享', chapterTitle],
+        category: 'discussion'
+      };
 
-              const postData: CreatePostData = {
-                authorId: user.uid,
-                authorName: user.displayName || '匿名讀者',
-                content: postContent,
-                tags: [`第${currentChapter.id}回`, '筆記分享', chapterTitle],
-                category: 'discussion'
-              };
-
-              await communityService.createPost(postData);
-              console.log(`✅ Updated note shared to community`);
-            } catch (communityError) {
-              console.error('Error sharing updated note to community:', communityError);
-            }
-          }
-        }
+      if (currentNoteObj?.id) {
+        // Update existing note - no XP for updates. Visibility is saved (or queued) with the content,
+        // and a note made public is shared to the community.
+        const updateQueued = await updateNoteOrQueue(
+          { ...currentNoteObj, id: currentNoteObj.id },
+          currentNote,
+          { isPublic: isNotePublic, communityPost: isNotePublic && !currentNoteObj.isPublic ? communityPost : undefined }
+        );
 
-        toast({ title: t('筆記更新'), description: t('buttons.noteUpdated') });
+        if (updateQueued) {
+          refreshPendingCount();
+          toast({ title: t('筆記更新'), description: t('offline.savedOffline') });
+        } else {
+          toast({ title: t('筆記更新'), description: t('buttons.noteUpdated') });
+        }
       } else {
         // Create new note
         const noteToSave: Omit<Note, 'id' | 'createdAt'> = {
@@ -2096,38 +2625,9 @@ ${selectedTextContent}
           note: currentNote,
           isPublic: isNotePublic,
         };
-        const noteId = await saveNote(noteToSave);
-        console.log(`📝 Note saved to Firestore with ID: ${noteId}, content length: ${currentNote.length} chars, isPublic: ${isNotePublic}`);
-
-        // If note is public, share it to community
-        if (isNotePublic) {
-          try {
-            const chapterTitle = getChapterTitle(currentChapter.titleKey);
-            // Format community post with simplified format to avoid content filter
-            const postContent = `我的閱讀筆記
-
-${currentNote}
-
----
-${selectedTextContent}
-
-來源：《紅樓夢》第${currentChapter.id}回《${chapterTitle}》`;
-
-            const postData: CreatePostData = {
-              authorId: user.uid,
-              authorName: user.displayName || '匿名讀者',
-              content: postContent,
-              tags: [`第${currentChapter.id}回`, '筆記分享', chapterTitle],
-              category: 'discussion'
-            };
-
-            await communityService.createPost(postData);
-            console.log(`✅ Public note shared to community`);
-          } catch (communityError) {
-            console.error('Error sharing note to community:', communityError);
-            // Don't fail note save if community post fails
-          }
-        }
+        // A public note is shared to the community once it is saved, also when it is saved offline
+        const { id: noteId, queued: noteQueued } = await saveNoteOrQueue(noteToSave, isNotePublic ? communityPost : undefined);
+        console.log(`📝 Note ${noteQueued ? 'queued offline' : 'saved to Firestore'} with ID: ${noteId}, content length: ${currentNote.length} chars, isPublic: ${isNotePublic}`);
 
         // Award XP for creating note
         try {
@@ -2149,7 +2649,7 @@ ${selectedTextContent}
           const contentHash = simpleHash(noteSelectedText || toolbarInfo?.text || selectedTextInfo?.text || '');
           const sourceId = `note-ch${currentChapter.id}-${contentHash}`;
 
-          const result = await userLevelService.awardXP(
+          const result = await awardXPOrQueue(
             user.uid,
             xpAmount,
             isQualityNote ? 'Created quality note' : 'Created note',
@@ -2157,8 +2657,12 @@ ${selectedTextContent}
             sourceId
           );
 
-          // Check if this is a duplicate reward
-          if (result.isDuplicate) {
+          if (!result || noteQueued) {
+            // Offline: the note and its XP sync when the connection returns
+            refreshPendingCount();
+            toast({ title: t('筆記儲存'), description: t('offline.savedOffline') });
+          } else if (result.isDuplicate) {
+            // Duplicate reward: the note is saved without XP
             console.log(`⚠️ Duplicate note reward prevented, showing note saved without XP`);
             toast({
               title: t('筆記儲存'),
@@ -2216,7 +2720,13 @@ ${selectedTextContent}
     if (!user?.uid || !currentNoteObj?.id) return;
 
     try {
-      await deleteNoteById(currentNoteObj.id);
+      if (isOfflineId(currentNoteObj.id)) {
+        // Never synced: just drop it from the queue
+        discardQueuedWrite(currentNoteObj.id);
+        refreshPendingCount();
+      } else {
+        await deleteNoteById(currentNoteObj.id);
+      }
       await fetchNotesForChapter(); // Refresh notes from the database
 
       // Close sheet and reset states
@@ -2239,30 +2749,156 @@ ${selectedTextContent}
     }
   };
 
-  const handleHighlight = () => {
-    if (toolbarInfo?.text && !highlights.includes(toolbarInfo.text)) {
-      setHighlights(prev => [...prev, toolbarInfo.text]);
-      setSelectedTextInfo(null);
-      setActiveHighlightInfo(null);
-      toast({ title: "畫線", description: "文字已畫線" });
+  // Highlights placed in the current text, re-anchored where the text was corrected
+  const placedHighlights = useMemo(
+    () => placeHighlights(highlights, currentChapter.paragraphs),
+    [highlights, currentChapter.paragraphs]
+  );
+
+  // Annotations from the sources the reader has switched on, placed in the current text
+  const placedAnnotations = useMemo(
+    () => placeAnnotations(
+      chapterAnnotations.filter(annotation => enabledAnnotationSources.includes(annotation.source)),
+      currentChapter.paragraphs
+    ),
+    [chapterAnnotations, enabledAnnotationSources, currentChapter.paragraphs]
+  );
+
+  // Ruby shown above each paragraph's characters, by offset in its original text
+  const paragraphRuby = useMemo(() => {
+    const ruby: Record<string, Array<string | null>> = {};
+    if (rubySettings.mode === 'off') return ruby;
+    for (const paragraph of currentChapter.paragraphs) {
+      ruby[paragraph.id] = getParagraphRuby(paragraph.id, getParagraphText(paragraph), currentChapter.readings ?? [], rubySettings);
+    }
+    return ruby;
+  }, [currentChapter, rubySettings]);
+
+  // Furthest chapter the reader has reached; character tags and cards reveal nothing beyond it
+  const readingProgress = useMemo(
+    () => Math.max(currentChapter.id, ...completedChapters),
+    [currentChapter.id, completedChapters]
+  );
+
+  // Character names in each paragraph, by offset in its original text
+  const paragraphMentions = useMemo(() => {
+    const mentions: Record<string, CharacterMention[]> = {};
+    if (!characterCatalog) return mentions;
+    const index = buildMentionIndex(characterCatalog, readingProgress);
+    for (const paragraph of currentChapter.paragraphs) {
+      mentions[paragraph.id] = findCharacterMentions(index, getParagraphText(paragraph));
+    }
+    return mentions;
+  }, [characterCatalog, readingProgress, currentChapter.paragraphs]);
+
+  // Poems in each paragraph with their verse lines, by offset in its original text
+  const paragraphPoems = useMemo(() => {
+    const poems: Record<string, PlacedPoem[]> = {};
+    if (!currentChapter.poems?.length) return poems;
+    for (const paragraph of currentChapter.paragraphs) {
+      poems[paragraph.id] = placePoems(paragraph.id, getParagraphText(paragraph), currentChapter.poems);
+    }
+    return poems;
+  }, [currentChapter]);
+
+  const openCharacter = characterCatalog?.characters.find(character => character.id === openCharacterId) ?? null;
+
+  // Number of annotations of each source in this chapter, for the source toggles
+  const annotationCounts = useMemo(() => {
+    const counts: Partial<Record<AnnotationSourceId, number>> = {};
+    for (const annotation of chapterAnnotations) {
+      counts[annotation.source] = (counts[annotation.source] ?? 0) + 1;
+    }
+    return counts;
+  }, [chapterAnnotations]);
+
+  const handleHighlight = async () => {
+    const location = selectedTextInfo?.range ? getRangeParagraphOffsets(selectedTextInfo.range) : null;
+    const paragraph = location && currentChapter.paragraphs.find(p => p.id === location.paragraphId);
+    if (!location || !paragraph) return;
+
+    const paragraphText = getParagraphText(paragraph);
+    const selectedText = paragraphText.slice(location.startOffset, location.endOffset);
+    if (!selectedText.trim()) return;
+
+    const overlaps = placedHighlights.some(({ position }) =>
+      position.paragraphId === location.paragraphId &&
+      position.startOffset < location.endOffset &&
+      location.startOffset < position.endOffset
+    );
+    if (overlaps) {
+      toast({ title: t('highlights.overlapTitle'), description: t('highlights.overlapDesc') });
+      return;
+    }
+
+    const highlight: Omit<Highlight, 'id' | 'createdAt'> = {
+      userId: user?.uid ?? '',
+      chapterId: currentChapter.id,
+      editionId,
+      selectedText,
+      anchor: createTextAnchor(location.paragraphId, paragraphText, location.startOffset, location.endOffset),
+      color: highlightColor,
+      category: DEFAULT_HIGHLIGHT_CATEGORY,
+    };
+    setSelectedTextInfo(null);
+    setActiveHighlightInfo(null);
+
+    try {
+      // Without an account highlights only last for this visit
+      const { id, queued } = user?.uid ? await saveHighlightOrQueue(highlight) : { id: `local-${Date.now()}`, queued: false };
+      setHighlights(prev => [...prev, { ...highlight, id, createdAt: new Date() }]);
+      if (queued) {
+        refreshPendingCount();
+        toast({ title: "畫線", description: t('offline.savedOffline') });
+      } else {
+        toast({ title: "畫線", description: "文字已畫線" });
+      }
+    } catch (error) {
+      console.error('Failed to save highlight:', error);
+      toast({ title: t('Error'), description: t('highlights.saveFailed'), variant: "destructive" });
     }
   };
 
-  const handleDeleteHighlight = () => {
-    if (activeHighlightInfo?.text) {
-      setHighlights(prev => prev.filter(h => h !== activeHighlightInfo.text));
-      setActiveHighlightInfo(null);
-      toast({ title: "刪除畫線", description: "畫線已移除" });
+  const handleDeleteHighlight = async () => {
+    const highlightId = activeHighlightInfo?.highlightId;
+    if (!highlightId) return;
+    setHighlights(prev => prev.filter(h => h.id !== highlightId));
+    setActiveHighlightInfo(null);
+    toast({ title: "刪除畫線", description: "畫線已移除" });
+    if (isOfflineId(highlightId)) {
+      discardQueuedWrite(highlightId);
+      refreshPendingCount();
+    } else if (!highlightId.startsWith('local-')) {
+      deleteHighlightById(highlightId).catch(error => console.error('Failed to delete highlight:', error));
+    }
+  };
+
+  const handleHighlightStyleChange = (style: { color?: HighlightColor; category?: HighlightCategory }) => {
+    const highlightId = activeHighlightInfo?.highlightId;
+    if (!highlightId) {
+      // Picking a colour before highlighting sets the colour for new highlights
+      if (style.color) setHighlightColor(style.color);
+      return;
+    }
+    setHighlights(prev => prev.map(h => (h.id === highlightId ? { ...h, ...style } : h)));
+    if (style.color) setHighlightColor(style.color);
+    if (isOfflineId(highlightId)) {
+      updateQueuedHighlight(highlightId, style);
+    } else if (!highlightId.startsWith('local-')) {
+      updateHighlightStyle(highlightId, style).catch(error => console.error('Failed to update highlight:', error));
     }
   };
 
+  // Notes are matched script-insensitively, since a note taken in Simplified quotes Simplified text
   const underlineText = (text: string): React.ReactNode[] => {
     const parts: React.ReactNode[] = [];
+    const foldedText = foldChineseVariants(text);
     let lastIndex = 0;
 
     userNotes.forEach((note, index) => {
-      const noteText = note.selectedText;
-      let startIndex = text.indexOf(noteText, lastIndex);
+      const noteText = foldChineseVariants(note.selectedText);
+      if (!noteText) return;
+      let startIndex = foldedText.indexOf(noteText, lastIndex);
       
       while (startIndex !== -1) {
         // Add preceding text
@@ -2297,12 +2933,12 @@ ${selectedTextContent}
             title="Click to view/edit note"
             data-no-selection="true"
           >
-            {noteText}
+            {text.substring(startIndex, startIndex + noteText.length)}
           </u>
         );
         
         lastIndex = startIndex + noteText.length;
-        startIndex = text.indexOf(noteText, lastIndex);
+        startIndex = foldedText.indexOf(noteText, lastIndex);
       }
     });
 
@@ -2313,60 +2949,99 @@ ${selectedTextContent}
     return parts.length > 0 ? parts : [text];
   };
 
-  const applyHighlights = (nodes: React.ReactNode[]): React.ReactNode[] => {
-    if (!highlights.length) return nodes;
-
-    let currentNodes = nodes;
-
-    highlights.forEach(highlight => {
-      const newNodes: React.ReactNode[] = [];
-      currentNodes.forEach(node => {
-        if (typeof node === 'string') {
-          if (!node.includes(highlight)) {
-            newNodes.push(node);
-            return;
-          }
-          const parts = node.split(highlight);
-          parts.forEach((part, index) => {
-            if (part) newNodes.push(part);
-            if (index < parts.length - 1) {
-              const handleHighlightClick = (event: React.MouseEvent<HTMLElement>) => {
-                event.stopPropagation();
-                const rect = event.currentTarget.getBoundingClientRect();
+  const renderHighlightMark = ({ highlight, position }: PlacedHighlight, children: React.ReactNode, key: string) => {
+    const handleHighlightClick = (event: React.MouseEvent<HTMLElement>) => {
+      event.stopPropagation();
+      const rect = event.currentTarget.getBoundingClientRect();
       const scrollAreaElement =
         (document.getElementById('chapter-content-viewport') as HTMLElement | null) ||
         (document.getElementById('chapter-content-scroll-area') as HTMLElement | null);
-                const scrollTop = scrollAreaElement?.scrollTop || 0;
-                const scrollLeft = scrollAreaElement?.scrollLeft || 0;
-                const top = rect.top + scrollTop;
-                const left = rect.left + scrollLeft + (rect.width / 2);
-                
-                setActiveHighlightInfo({ text: highlight, position: { top, left } });
-                setSelectedTextInfo(null); // Ensure selection toolbar is hidden
-              };
-
-              newNodes.push(
-                <mark 
-                  key={`${highlight}-${index}`} 
-                  className="bg-yellow-300/70 text-black px-0.5 rounded-sm cursor-pointer"
-                  onClick={handleHighlightClick}
-                  data-highlight="true"
-                >
-                  {highlight}
-                </mark>
-              );
-            }
-          });
-        } else {
-          newNodes.push(node);
-        }
-      });
-      currentNodes = newNodes;
-    });
+      const scrollTop = scrollAreaElement?.scrollTop || 0;
+      // The only horizontal scrolling is the vertical layout's paging, which the rect already reflects
+      const top = rect.top + scrollTop;
+      const left = rect.left + (rect.width / 2);
+
+      setActiveHighlightInfo({ text: position.text, position: { top, left }, highlightId: highlight.id! });
+      setSelectedTextInfo(null); // Ensure selection toolbar is hidden
+    };
+
+    return (
+      <mark
+        key={key}
+        className={cn(
+          highlightColorClasses[highlight.color ?? DEFAULT_HIGHLIGHT_COLOR].mark,
+          "text-black px-0.5 rounded-sm cursor-pointer"
+        )}
+        onClick={handleHighlightClick}
+        title={t(`highlights.categories.${highlight.category ?? DEFAULT_HIGHLIGHT_CATEGORY}`)}
+        data-highlight="true"
+      >
+        {children}
+      </mark>
+    );
+  };
+
+  // Annotated text gets a dotted underline, plus a source badge where annotations end.
+  // Badge labels are drawn with CSS so they stay out of the paragraph's text offsets.
+  const renderAnnotatedText = (covering: PlacedAnnotation[], ending: PlacedAnnotation[], children: React.ReactNode, key: string) => {
+    const openPanel = (annotations: PlacedAnnotation[]) => (event: React.MouseEvent<HTMLElement>) => {
+      event.stopPropagation();
+      // Leave text selection to the selection toolbar
+      if (window.getSelection()?.toString()) return;
+      setSelectedTextInfo(null);
+      setActiveHighlightInfo(null);
+      setOpenAnnotations(annotations);
+    };
+    const endingSources = ANNOTATION_SOURCES
+      .map(source => source.id)
+      .filter(id => ending.some(({ annotation }) => annotation.source === id));
 
-    return currentNodes;
+    return (
+      <span
+        key={key}
+        className={cn(
+          "underline decoration-dotted decoration-2 underline-offset-4 cursor-pointer",
+          annotationSourceClasses[covering[0].annotation.source].underline
+        )}
+        onClick={openPanel(covering)}
+        data-annotation="true"
+      >
+        {children}
+        {endingSources.map(sourceId => (
+          <sup
+            key={sourceId}
+            className={cn(
+              "ml-0.5 text-[0.6em] font-semibold no-underline after:content-[attr(data-badge)]",
+              annotationSourceClasses[sourceId].badge
+            )}
+            data-badge={t(getAnnotationSource(sourceId).badgeKey)}
+            title={t(getAnnotationSource(sourceId).nameKey)}
+            onClick={openPanel(ending)}
+          />
+        ))}
+      </span>
+    );
   };
 
+  // A character's name opens their card, unless the click ends a text selection
+  const renderCharacterMention = (characterId: string, children: React.ReactNode, key: string) => (
+    <span
+      key={key}
+      className="cursor-pointer underline decoration-primary/30 decoration-1 underline-offset-[6px] hover:text-primary hover:decoration-primary"
+      onClick={(event) => {
+        event.stopPropagation();
+        if (window.getSelection()?.toString()) return;
+        setSelectedTextInfo(null);
+        setActiveHighlightInfo(null);
+        setOpenCharacterId(characterId);
+      }}
+      title={t('characters.mentionHint')}
+      data-character-mention={characterId}
+    >
+      {children}
+    </span>
+  );
+
   // Use state-managed currentNoteObj set when opening the note sheet
   const isTextSelected = !!selectedTextInfo?.text && !!selectedTextInfo.position;
   const isHighlightClicked = !!activeHighlightInfo?.text && !!activeHighlightInfo.position;
@@ -2380,7 +3055,7 @@ ${selectedTextContent}
   const fetchNotesForChapter = useCallback(async () => {
     if (user?.uid && currentChapter) {
       const notes = await getNotesByUserAndChapter(user.uid, currentChapter.id);
-      setUserNotes(notes);
+      setUserNotes(withQueuedNotes(notes, user.uid, currentChapter.id));
     }
   }, [user, currentChapter]);
 
@@ -2388,33 +3063,239 @@ ${selectedTextContent}
     fetchNotesForChapter();
   }, [fetchNotesForChapter]);
 
+  // Load highlights once the chapter text is on screen. Highlights whose text
+  // moved or changed are re-anchored and their new positions saved back.
+  useEffect(() => {
+    setHighlights([]);
+    if (!user?.uid || chapterLoadState !== 'ready') return;
+    let cancelled = false;
+    const { id: chapterId, paragraphs } = currentChapter;
+    // Highlights made offline show up until they are synced
+    const queued = getQueuedHighlights(user.uid, chapterId)
+      .filter(h => (h.editionId ?? DEFAULT_EDITION_ID) === editionId);
+
+    getHighlightsByUserAndChapter(user.uid, chapterId, editionId)
+      .then(withoutQueuedCopies)
+      .then(saved => {
+        if (cancelled) return;
+        setHighlights([...saved, ...queued]);
+        return saveReanchoredHighlights(placeHighlights(saved, paragraphs));
+      })
+      .catch(error => {
+        console.error('Failed to load highlights:', error);
+        if (!cancelled) setHighlights(queued);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.uid, currentChapter, chapterLoadState, editionId, syncVersion]);
+
   const processContent = (chapter: Chapter) => {
-    let contentNodes: React.ReactNode[] = chapter.paragraphs.flatMap((p, i) => {
-      const paragraphContent = p.content
-        .map(item => (typeof item === 'string' ? item : item.text))
-        .join('');
-
-      // 1) Preserve underline markers (user note selections)
-      let nodes = underlineText(paragraphContent);
-
-      // 2) Apply search highlight within each paragraph without flattening the structure
-      if (currentSearchTerm && currentSearchTerm.trim()) {
-        const highlightNodes = (arr: React.ReactNode[]): React.ReactNode[] =>
-          arr.flatMap(n => (typeof n === 'string' ? highlightText(n, currentSearchTerm) : [n]));
-        nodes = highlightNodes(nodes);
+    const { spokenSentence } = chapterReadAloud;
+
+    // A run of text starting at `offset` in the paragraph, with character names marked and ruby added
+    const renderTextRun = (
+      text: string,
+      offset: number,
+      ruby: Array<string | null> | undefined,
+      mentions: CharacterMention[]
+    ): React.ReactNode => {
+      const plain = (from: number, to: number) => (ruby ? rubyText(text.slice(from, to), offset + from, ruby) : text.slice(from, to));
+      const nodes: React.ReactNode[] = [];
+      let cursor = 0;
+      for (const mention of mentions) {
+        const start = Math.max(mention.start - offset, cursor);
+        const end = Math.min(mention.end - offset, text.length);
+        if (start >= end) continue;
+        if (start > cursor) {
+          nodes.push(<React.Fragment key={`m-${offset + cursor}`}>{plain(cursor, start)}</React.Fragment>);
+        }
+        nodes.push(renderCharacterMention(mention.characterId, plain(start, end), `c-${offset + start}`));
+        cursor = end;
+      }
+      if (cursor === 0) return plain(0, text.length);
+      if (cursor < text.length) {
+        nodes.push(<React.Fragment key={`m-${offset + cursor}`}>{plain(cursor, text.length)}</React.Fragment>);
+      }
+      return nodes;
+    };
+
+    // Note underlines, then search matches, then character names and ruby, for a plain run of text starting at `start`.
+    // The script conversion keeps length, so offsets in the shown text are offsets in the corpus.
+    const decorateText = (
+      text: string,
+      start: number,
+      ruby?: Array<string | null>,
+      mentions: CharacterMention[] = []
+    ): React.ReactNode[] => {
+      let nodes = underlineText(transformTextForLang(text, language, 'original'));
+      if (bookSearch.term.trim()) {
+        nodes = nodes.flatMap(n => (typeof n === 'string' ? highlightText(n, bookSearch.term) : [n]));
+      }
+      if (!ruby && mentions.length === 0) return nodes;
+      return mapTextRuns(nodes, start, (run, offset) => renderTextRun(run, offset, ruby, mentions));
+    };
+
+    const contentNodes: React.ReactNode[] = chapter.paragraphs.flatMap((p, i) => {
+      const paragraphContent = getParagraphText(p);
+      const paragraphHighlights = placedHighlights
+        .filter(placed => placed.position.paragraphId === p.id)
+        .sort((a, b) => a.position.startOffset - b.position.startOffset);
+
+      const paragraphAnnotations = placedAnnotations.filter(placed => placed.position.paragraphId === p.id);
+      const ruby = paragraphRuby[p.id];
+      const mentions = paragraphMentions[p.id] ?? [];
+
+      // paragraphContent.slice(from, to) split at annotation boundaries, annotated runs marked
+      const annotateRange = (from: number, to: number): React.ReactNode[] =>
+        segmentAnnotations(paragraphAnnotations, from, to).map(segment => {
+          const text = decorateText(paragraphContent.slice(segment.start, segment.end), segment.start, ruby, mentions);
+          if (segment.annotations.length === 0) {
+            return <React.Fragment key={`a-${segment.start}`}>{text}</React.Fragment>;
+          }
+          const ending = segment.annotations.filter(({ position }) => position.endOffset === segment.end);
+          return renderAnnotatedText(segment.annotations, ending, text, `a-${segment.start}`);
+        });
+
+      // paragraphContent.slice(from, to) with user highlights wrapped at their anchored offsets
+      const renderRange = (from: number, to: number): React.ReactNode[] => {
+        const nodes: React.ReactNode[] = [];
+        let cursor = from;
+        for (const placed of paragraphHighlights) {
+          const start = Math.max(placed.position.startOffset, cursor);
+          const end = Math.min(placed.position.endOffset, to);
+          if (start >= end) continue;
+          if (start > cursor) {
+            nodes.push(<React.Fragment key={`t-${cursor}`}>{annotateRange(cursor, start)}</React.Fragment>);
+          }
+          nodes.push(renderHighlightMark(placed, annotateRange(start, end), `h-${start}`));
+          cursor = end;
+        }
+        if (cursor < to) {
+          nodes.push(<React.Fragment key={`t-${cursor}`}>{annotateRange(cursor, to)}</React.Fragment>);
+        }
+        return nodes;
+      };
+
+      // The sentence being read aloud is split out first so it can be wrapped as one span
+      const renderText = (from: number, to: number): React.ReactNode[] => {
+        if (!spokenSentence || spokenSentence.paragraphId !== p.id || spokenSentence.end <= from || spokenSentence.start >= to) {
+          return renderRange(from, to);
+        }
+        const start = Math.max(spokenSentence.start, from);
+        const end = Math.min(spokenSentence.end, to);
+        return [
+          ...renderRange(from, start),
+          <span key="read-aloud-active" className="bg-primary/15 rounded-sm transition-colors" data-read-aloud-active="true">
+            {renderRange(start, end)}
+          </span>,
+          ...renderRange(end, to),
+        ];
+      };
+
+      // Poems are set one verse line per block; the blocks add no text, so selection offsets are unchanged
+      const poems = paragraphPoems[p.id] ?? [];
+      const renderOriginal = (from: number, to: number): React.ReactNode[] => {
+        const nodes: React.ReactNode[] = [];
+        let cursor = from;
+        for (const placed of poems) {
+          const start = Math.max(placed.start, cursor);
+          const end = Math.min(placed.end, to);
+          if (start >= end) continue;
+          if (start > cursor) {
+            nodes.push(<React.Fragment key={`o-${cursor}`}>{renderText(cursor, start)}</React.Fragment>);
+          }
+          nodes.push(
+            <span key={`poem-${start}`} className="block my-2 ps-8 font-artistic" data-poem-id={placed.poem.id}>
+              {placed.lines.filter(line => line.end > start && line.start < end).map(line => (
+                <span key={`line-${line.start}`} className="block">
+                  {renderText(Math.max(line.start, start), Math.min(line.end, end))}
+                </span>
+              ))}
+            </span>
+          );
+          cursor = end;
+        }
+        if (cursor < to) {
+          nodes.push(<React.Fragment key={`o-${cursor}`}>{renderText(cursor, to)}</React.Fragment>);
+        }
+        return nodes;
+      };
+
+      // Parallel mode pairs each group of original sentences with its vernacular rendering;
+      // hovering or tapping either side marks both
+      const segments = isParallelMode ? alignParagraph(p) : [];
+      const renderAlignedText = (index: number, side: 'original' | 'vernacular', children: React.ReactNode) => (
+        <span
+          key={`${side}-${index}`}
+          className={cn(
+            "rounded-sm transition-colors",
+            activeAlignment?.paragraphId === p.id && activeAlignment.index === index && "bg-accent/40"
+          )}
+          onMouseEnter={() => setActiveAlignment({ paragraphId: p.id, index })}
+          onMouseLeave={() => setActiveAlignment(null)}
+          onClick={() => setActiveAlignment({ paragraphId: p.id, index })}
+          data-alignment-index={index}
+        >
+          {children}
+        </span>
+      );
+      const renderVernacular = (vernacular: string) => {
+        const text = transformTextForLang(vernacular, language, 'vernacular');
+        return bookSearch.term.trim() ? highlightText(text, bookSearch.term) : text;
+      };
+
+      let nodes: React.ReactNode;
+      if (segments.length === 0) {
+        nodes = renderOriginal(0, paragraphContent.length);
+      } else if (columnLayout === 'double') {
+        // Original on the left, vernacular on the right, one row per sentence group
+        nodes = (
+          <div className="grid grid-cols-2 gap-x-8 gap-y-1">
+            {segments.map((segment, index) => (
+              <React.Fragment key={`row-${index}`}>
+                <div>{renderAlignedText(index, 'original', renderOriginal(segment.original.start, segment.original.end))}</div>
+                <div className="text-muted-foreground" data-vernacular="true">
+                  {renderAlignedText(index, 'vernacular', renderVernacular(segment.vernacular.text))}
+                </div>
+              </React.Fragment>
+            ))}
+          </div>
+        );
+      } else {
+        nodes = (
+          <>
+            {segments.map((segment, index) =>
+              renderAlignedText(index, 'original', renderOriginal(segment.original.start, segment.original.end))
+            )}
+            <div className="mt-2 text-[0.9em] text-muted-foreground" data-vernacular="true">
+              {segments.map((segment, index) =>
+                renderAlignedText(index, 'vernacular', renderVernacular(segment.vernacular.text))
+              )}
+            </div>
+          </>
+        );
       }
 
       return [
-        <div key={`p-${i}`} className="mb-4 break-inside-avoid">
+        <div key={`p-${i}`} className="mb-4 break-inside-avoid relative" data-paragraph-id={p.id}>
+          {chapterReadAloud.isPlayerOpen && (
+            <button
+              className="absolute -left-7 top-1 p-1 rounded-full text-muted-foreground hover:text-primary hover:bg-accent/50"
+              onClick={(e) => { e.stopPropagation(); chapterReadAloud.readParagraph(p.id); }}
+              title={t('readAloud.playParagraph')}
+              aria-label={t('readAloud.playParagraph')}
+              data-no-selection="true"
+            >
+              <Volume2 className="h-4 w-4" />
+            </button>
+          )}
           {nodes}
         </div>,
       ];
     });
 
-    // 3) Apply user-defined highlights for remaining plain-text nodes.
-    //    Underlines and search highlights are already handled per paragraph above.
-    contentNodes = applyHighlights(contentNodes);
-
     return contentNodes;
   };
 
@@ -2508,6 +3389,7 @@ ${selectedTextContent}
                     ))}
                   </div>
                 </div>
+                <RubySettingsPanel settings={rubySettings} onChange={changeRubySettings} />
                  <PopoverClose className="absolute top-1 right-1 rounded-full p-1 text-muted-foreground hover:text-foreground focus:outline-none focus:ring-1 focus:ring-ring">
                     <X className="h-4 w-4" />
                  </PopoverClose>
@@ -2515,24 +3397,16 @@ ${selectedTextContent}
             </Popover>
 
             <div className={cn("h-10 border-l mx-2 md:mx-3", selectedTheme.toolbarBorderClass)}></div>
-            <Button
-              variant={columnLayout === 'single' ? 'secondary' : 'ghost'}
-              className={cn(toolbarButtonBaseClass, columnLayout === 'single' ? '' : selectedTheme.toolbarTextClass )}
-              onClick={() => setColumnLayout('single')}
-              title={t('buttons.singleColumn')}
-            >
-              <AlignLeft className={cn(toolbarIconClass, columnLayout === 'single' ? 'text-secondary-foreground' : selectedTheme.toolbarTextClass)}/>
-              <span className={cn(toolbarLabelClass, columnLayout === 'single' ? 'text-secondary-foreground' : selectedTheme.toolbarTextClass)}>{t('buttons.singleColumn')}</span>
-            </Button>
-            <Button
-              variant={columnLayout === 'double' ? 'secondary' : 'ghost'}
-               className={cn(toolbarButtonBaseClass, columnLayout === 'double' ? '' : selectedTheme.toolbarTextClass)}
-              onClick={() => setColumnLayout('double')}
-              title={t('buttons.doubleColumn')}
-            >
-              <AlignCenter className={cn(toolbarIconClass, columnLayout === 'double' ? 'text-secondary-foreground' : selectedTheme.toolbarTextClass)}/>
-              <span className={cn(toolbarLabelClass, columnLayout === 'double' ? 'text-secondary-foreground' : selectedTheme.toolbarTextClass)}>{t('buttons.doubleColumn')}</span>
-            </Button>
+            <ColumnLayoutButtons
+              layout={columnLayout}
+              onLayoutChange={setColumnLayout}
+              isParallelMode={isParallelMode}
+              onToggleParallelMode={() => { setIsParallelMode(prev => !prev); setActiveAlignment(null); }}
+              buttonClassName={toolbarButtonBaseClass}
+              iconClassName={toolbarIconClass}
+              labelClassName={toolbarLabelClass}
+              textClassName={selectedTheme.toolbarTextClass}
+            />
           </div>
 
           <div className="text-center overflow-hidden px-2 mx-2 md:mx-4 justify-self-center">
@@ -2541,6 +3415,27 @@ ${selectedTextContent}
           </div>
 
           <div className="flex items-center gap-2 md:gap-3 justify-self-end">
+            <OfflineStatus
+              isOnline={isOnline}
+              pendingCount={pendingCount}
+              chapterId={currentChapter.id}
+              editionId={editionId}
+              chapterTitle={currentChapterTitle}
+              canSave={chapterLoadState === 'ready'}
+              onInteraction={handleInteraction}
+              className={cn(toolbarButtonBaseClass, selectedTheme.toolbarTextClass)}
+              iconClassName={toolbarIconClass}
+              labelClassName={toolbarLabelClass}
+            />
+            <Button
+              variant="ghost"
+              className={cn(toolbarButtonBaseClass, selectedTheme.toolbarTextClass)}
+              onClick={() => { setIsExportDialogOpen(true); handleInteraction(); }}
+              title={t('export.buttonHint')}
+            >
+              <FileDown className={toolbarIconClass}/>
+              <span className={toolbarLabelClass}>{t('export.button')}</span>
+            </Button>
             <Button variant="ghost" className={cn(toolbarButtonBaseClass, selectedTheme.toolbarTextClass)} onClick={() => { setIsKnowledgeGraphSheetOpen(true); handleInteraction(); }} title={t('buttons.knowledgeGraph')}>
               <Map className={toolbarIconClass}/>
               <span className={toolbarLabelClass}>{t('buttons.knowledgeGraph')}</span>
@@ -2549,44 +3444,37 @@ ${selectedTextContent}
               <List className={toolbarIconClass}/>
               <span className={toolbarLabelClass}>{t('buttons.toc')}</span>
             </Button>
+            <EditionPopover
+              open={isEditionPopoverOpen}
+              onOpenChange={(isOpen) => { setIsEditionPopoverOpen(isOpen); handleInteraction(); }}
+              editionId={editionId}
+              availableEditions={availableEditions}
+              onEditionChange={handleEditionChange}
+              onOpenCollation={handleOpenCollation}
+              enabledAnnotationSources={enabledAnnotationSources}
+              annotationCounts={annotationCounts}
+              onToggleAnnotationSource={toggleAnnotationSource}
+              getSourceBadgeClass={sourceId => annotationSourceClasses[sourceId].badge}
+              triggerClassName={cn(toolbarButtonBaseClass, selectedTheme.toolbarTextClass)}
+              iconClassName={toolbarIconClass}
+              labelClassName={toolbarLabelClass}
+            />
             <Button variant="ghost" className={cn(toolbarButtonBaseClass, selectedTheme.toolbarTextClass)} onClick={() => { setAiMode('new-conversation'); setIsAiSheetOpen(true); handleInteraction(); }} title={t('buttons.ai')}>
               <Lightbulb className={toolbarIconClass}/>
               <span className={toolbarLabelClass}>{t('buttons.ai')}</span>
             </Button>
             <div className={cn("h-10 border-l mx-2 md:mx-3", selectedTheme.toolbarBorderClass)}></div>
             
-            <Popover open={isSearchPopoverOpen} onOpenChange={(isOpen) => { setIsSearchPopoverOpen(isOpen); handleInteraction(); if (!isOpen) setCurrentSearchTerm(""); }}>
-              <PopoverTrigger asChild>
-                <Button variant="ghost" className={cn(toolbarButtonBaseClass, selectedTheme.toolbarTextClass)} title={t('buttons.search')}>
-                  <SearchIcon className={toolbarIconClass} />
-                  <span className={toolbarLabelClass}>{t('buttons.search')}</span>
-                </Button>
-              </PopoverTrigger>
-              <PopoverContent 
-                side="bottom" 
-                align="end" 
-                className="w-72 p-2 bg-card border-border shadow-xl"
-                data-no-selection="true"
-                onClick={(e) => e.stopPropagation()}
-                onInteractOutside={() => {setIsSearchPopoverOpen(false); handleInteraction(); if (!currentSearchTerm) setCurrentSearchTerm("");}}
-              >
-                <div className="flex items-center gap-2">
-                  <Input
-                    type="text"
-                    placeholder={t('placeholders.searchInBook')}
-                    value={currentSearchTerm}
-                    onChange={(e) => setCurrentSearchTerm(e.target.value)}
-                    className="h-9 text-sm bg-background/80 focus:ring-primary"
-                  />
-                  <Button variant="ghost" size="icon" className="h-9 w-9 text-muted-foreground hover:text-destructive" onClick={() => setCurrentSearchTerm("")} title={t('buttons.clearSearch')}>
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-                 <PopoverClose className="absolute top-1 right-1 rounded-full p-1 text-muted-foreground hover:text-foreground focus:outline-none focus:ring-1 focus:ring-ring">
-                    <X className="h-4 w-4" />
-                 </PopoverClose>
-              </PopoverContent>
-            </Popover>
+            <BookSearchPopover
+              search={bookSearch}
+              currentChapterId={currentChapter.id}
+              getResultChapterTitle={result => getChapterTitle({ ...chapterIndex[result.chapterId - 1], id: result.chapterId, title: result.chapterTitle })}
+              onSelectResult={handleSelectSearchResult}
+              onInteraction={handleInteraction}
+              triggerClassName={cn(toolbarButtonBaseClass, selectedTheme.toolbarTextClass)}
+              iconClassName={toolbarIconClass}
+              labelClassName={toolbarLabelClass}
+            />
 
             <Button variant="ghost" className={cn(toolbarButtonBaseClass, selectedTheme.toolbarTextClass)} title={isFullscreenActive ? t('buttons.exitFullscreen') : t('buttons.fullscreen')} onClick={toggleFullscreen}>
               {isFullscreenActive ? <Minimize className={toolbarIconClass} /> : <Maximize className={toolbarIconClass} />}
@@ -2614,7 +3502,8 @@ ${selectedTextContent}
         ref={scrollAreaRef as any}
         viewportProps={{
           id: 'chapter-content-viewport',
-          style: isPaginationMode ? ({ overscrollBehavior: 'contain' } as React.CSSProperties) : undefined,
+          // Right-to-left direction makes the vertical layout start at its right edge
+          style: isPaginationMode ? ({ overscrollBehavior: 'contain', ...(isVerticalLayout ? { direction: 'rtl' } : {}) } as React.CSSProperties) : undefined,
           onWheel: (e) => {
             if (!isPaginationMode) return;
             if (e.defaultPrevented) return; // global handler already took over
@@ -2638,21 +3527,32 @@ ${selectedTextContent}
             getColumnClass(),
             selectedFontFamily.class || '',
             selectedTheme.readingTextClass,
-            activeThemeKey === 'night' ? 'prose-invert' : ''
+            activeThemeKey === 'night' ? 'prose-invert' : '',
+            rubySettings.mode !== 'off' && 'ruby-text'
           )}
           style={{
             fontSize: `${currentNumericFontSize}px`,
             fontFamily: (selectedFontFamily as any).family || undefined,
             // Enhanced column settings for better horizontal reading experience
-            ...(columnLayout === 'double' && isPaginationMode ? {
+            ...(columnLayout === 'double' && isPaginationMode && !isParallelMode ? {
               columnGap: '3rem', // Wider gap between columns for better readability
               columnFill: 'balance', // Balance columns to avoid blank second column
               minHeight: '100%', // Ensure each page is at least viewport height
               height: '100%',
+            } : {}),
+            ...(isVerticalLayout ? {
+              height: verticalLineHeight ? `${verticalLineHeight}px` : 'calc(100vh - 8.5rem)',
+              direction: 'ltr', // the viewport is rtl only to anchor scrolling at the right edge
             } : {})
           }}
         >
-          {processContent(currentChapter)}
+          {chapterLoadState === 'ready' ? processContent(currentChapter) : (
+            <div className="py-24 text-center text-muted-foreground" data-no-selection="true">
+              {chapterLoadState === 'loading' && t('readBook.chapterLoading')}
+              {chapterLoadState === 'missing' && t('readBook.chapterNotAvailableDesc').replace('{number}', String(currentChapter.id))}
+              {chapterLoadState === 'error' && t('readBook.chapterLoadError')}
+            </div>
+          )}
         </div>
       </ScrollArea>
 
@@ -2661,21 +3561,21 @@ ${selectedTextContent}
         <>
           <Button
             variant="ghost"
-            className="fixed left-4 bottom-6 h-10 px-4 z-40"
+            className={cn("fixed bottom-6 h-10 px-4 z-40", isVerticalLayout ? "right-4" : "left-4")}
             onClick={goPrevPage}
             disabled={currentPage <= 1}
             data-no-selection="true"
           >
-            ‹ 上一頁
+            {isVerticalLayout ? '上一頁 ›' : '‹ 上一頁'}
           </Button>
           <Button
             variant="ghost"
-            className="fixed right-4 bottom-6 h-10 px-4 z-40"
+            className={cn("fixed bottom-6 h-10 px-4 z-40", isVerticalLayout ? "left-4" : "right-4")}
             onClick={goNextPage}
             disabled={currentPage >= totalPages}
             data-no-selection="true"
           >
-            下一頁 ›
+            {isVerticalLayout ? '‹ 下一頁' : '下一頁 ›'}
           </Button>
         </>
       )}
@@ -2701,6 +3601,44 @@ ${selectedTextContent}
             <span className="text-[10px] leading-none">{t('buttons.writeNote')}</span>
           </button>
 
+          <div className="flex flex-col items-center gap-1 px-1" role="group" aria-label={t('highlights.colorLabel')}>
+            <div className="flex items-center gap-1">
+              {HIGHLIGHT_COLORS.map(color => {
+                const activeColor = toolbarInfo.type === 'highlight'
+                  ? highlights.find(h => h.id === activeHighlightInfo?.highlightId)?.color ?? DEFAULT_HIGHLIGHT_COLOR
+                  : highlightColor;
+                return (
+                  <button
+                    key={color}
+                    className={cn(
+                      "h-4 w-4 rounded-full border border-neutral-600",
+                      highlightColorClasses[color].swatch,
+                      activeColor === color && "ring-2 ring-white ring-offset-1 ring-offset-neutral-800"
+                    )}
+                    onClick={() => handleHighlightStyleChange({ color })}
+                    data-selection-action-toolbar="true"
+                    title={t(`highlights.colors.${color}`)}
+                    aria-label={t(`highlights.colors.${color}`)}
+                    aria-pressed={activeColor === color}
+                  />
+                );
+              })}
+            </div>
+            {toolbarInfo.type === 'highlight' && (
+              <select
+                className="h-5 w-full rounded bg-neutral-700 text-[10px] leading-none text-white px-1"
+                value={highlights.find(h => h.id === activeHighlightInfo?.highlightId)?.category ?? DEFAULT_HIGHLIGHT_CATEGORY}
+                onChange={(e) => handleHighlightStyleChange({ category: e.target.value as HighlightCategory })}
+                data-selection-action-toolbar="true"
+                aria-label={t('highlights.categoryLabel')}
+              >
+                {HIGHLIGHT_CATEGORIES.map(category => (
+                  <option key={category} value={category}>{t(`highlights.categories.${category}`)}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
           {toolbarInfo.type === 'selection' ? (
             <button
               className="flex flex-col items-center justify-center p-1.5 rounded-md hover:bg-neutral-700 w-[60px]"
@@ -2725,7 +3663,7 @@ ${selectedTextContent}
 
           <button
             className="flex flex-col items-center justify-center p-1.5 rounded-md hover:bg-neutral-700 w-[60px]"
-            onClick={() => handlePlaceholderAction('buttons.listenCurrent')}
+            onClick={handleListenSelection}
             data-selection-action-toolbar="true"
             title={t('buttons.listenCurrent')}
           >
@@ -2742,6 +3680,20 @@ ${selectedTextContent}
             <span className="text-[10px] leading-none">{t('buttons.copy')}</span>
           </button>
 
+          <button
+            className={cn(
+              "flex flex-col items-center justify-center p-1.5 rounded-md hover:bg-neutral-700 w-[60px]",
+              dictionaryLookup && "bg-neutral-700"
+            )}
+            onClick={handleDictionaryLookup}
+            data-selection-action-toolbar="true"
+            title={t('dictionary.buttonHint')}
+            aria-expanded={!!dictionaryLookup}
+          >
+            <BookA className="h-5 w-5 mb-0.5" />
+            <span className="text-[10px] leading-none">{t('dictionary.button')}</span>
+          </button>
+
           <button
             className="flex flex-col items-center justify-center p-1.5 rounded-md hover:bg-neutral-700 w-[60px]"
             onClick={handleOpenAiSheet}
@@ -2751,6 +3703,16 @@ ${selectedTextContent}
             <Lightbulb className="h-5 w-5 mb-0.5" />
             <span className="text-[10px] leading-none">{t('buttons.askAI')}</span>
           </button>
+
+          {dictionaryLookup && (
+            <DictionaryPopover
+              segments={dictionaryLookup.segments}
+              hasError={dictionaryLookup.hasError}
+              isRecorded={dictionaryLookup.isRecorded}
+              placement={toolbarInfo.position!.top < 360 ? 'below' : 'above'}
+              onClose={closeLookup}
+            />
+          )}
            
           <div
             className="absolute left-1/2 -translate-x-1/2 top-full"
@@ -2789,12 +3751,32 @@ ${selectedTextContent}
               height={typeof window !== 'undefined' ? window.innerHeight : 1080}
               fullscreen={true}
               chapterNumber={currentChapter.id}
+              cumulative={isCumulativeGraph}
               onNodeClick={(node) => {
                 console.log('Node clicked:', node);
                 // Could add future functionality like showing node details
               }}
             />
-            {currentChapter.id !== 1 && (
+            {/* Scope: this chapter or chapters 1..this one */}
+            <div className="absolute top-6 left-1/2 transform -translate-x-1/2 z-10 flex bg-black/70 backdrop-blur-sm rounded-lg p-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className={cn("h-8 text-white hover:bg-white/20", !isCumulativeGraph && "bg-white/20")}
+                onClick={() => setIsCumulativeGraph(false)}
+              >
+                {t('readBook.knowledgeGraphScopeChapter')}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className={cn("h-8 text-white hover:bg-white/20", isCumulativeGraph && "bg-white/20")}
+                onClick={() => setIsCumulativeGraph(true)}
+              >
+                {t('readBook.knowledgeGraphScopeCumulative')}
+              </Button>
+            </div>
+            {currentChapter.id !== 1 && !isCumulativeGraph && (
               <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-red-900/20 via-amber-900/20 to-yellow-900/20">
                 <div className="text-center p-8">
                   <div className="text-6xl mb-4 text-red-400">🏮</div>
@@ -2825,16 +3807,64 @@ ${selectedTextContent}
           </SheetHeader>
           <ScrollArea className="flex-grow">
             <div className="p-2 space-y-1">
-            {chapters.map((chapter, index) => (
-              <Button
-                key={chapter.id}
-                variant={currentChapterIndex === index ? "default" : "ghost"}
-                className="w-full justify-start text-left h-auto py-1.5 px-3 text-sm"
-                onClick={() => handleSelectChapterFromToc(index)}
-              >
-                {getChapterTitle(chapter.titleKey)}
-              </Button>
-            ))}
+            {chapterIndex.map((chapter, index) => {
+              const isAvailable = chapter.editions ? chapter.editions.includes(editionId) : chapter.available;
+              return (
+                <Button
+                  key={chapter.id}
+                  variant={currentChapterIndex === index ? "default" : "ghost"}
+                  className={cn("w-full justify-start text-left h-auto py-1.5 px-3 text-sm", !isAvailable && "text-muted-foreground")}
+                  onClick={() => handleSelectChapterFromToc(index)}
+                >
+                  {getChapterTitle(chapter)}
+                  {!isAvailable && <span className="ml-auto pl-2 text-xs">{t('readBook.chapterNotAvailable')}</span>}
+                </Button>
+              );
+            })}
+            </div>
+          </ScrollArea>
+          <SheetFooter className="p-4 border-t border-border">
+             <SheetClose asChild>
+                <Button variant="outline" onClick={() => handleInteraction()}>{t('buttons.close')}</Button>
+             </SheetClose>
+          </SheetFooter>
+        </SheetContent>
+      </Sheet>
+
+      <Sheet open={isCollationSheetOpen} onOpenChange={(open) => {setIsCollationSheetOpen(open); if (!open) handleInteraction();}}>
+        <SheetContent
+            side="right"
+            className="w-full sm:max-w-4xl bg-card text-card-foreground p-0 flex flex-col"
+            data-no-selection="true"
+            onClick={(e) => e.stopPropagation()}
+        >
+          <SheetHeader className="p-4 border-b border-border">
+            <SheetTitle className="text-primary text-xl font-artistic">{t('editions.collationTitle')}</SheetTitle>
+            <SheetDescription>
+              {t('editions.collationDesc')
+                .replace('{base}', t(getEdition(editionId).nameKey))
+                .replace('{witness}', collationEditionId ? t(getEdition(collationEditionId).nameKey) : '')
+                .replace('{number}', String(currentChapter.id))}
+            </SheetDescription>
+          </SheetHeader>
+          <ScrollArea className="flex-grow">
+            <div className="p-4">
+              {chapterLoadState === 'ready' && collationLoadState === 'ready' && collationChapter && collationEditionId ? (
+                <EditionCollationView
+                  base={currentChapter}
+                  witness={collationChapter}
+                  baseEditionId={editionId}
+                  witnessEditionId={collationEditionId}
+                />
+              ) : (
+                <p className="py-12 text-center text-muted-foreground">
+                  {chapterLoadState === 'loading' || collationLoadState === 'loading'
+                    ? t('readBook.chapterLoading')
+                    : collationLoadState === 'error'
+                      ? t('editions.collationLoadError')
+                      : t('editions.notInEdition')}
+                </p>
+              )}
             </div>
           </ScrollArea>
           <SheetFooter className="p-4 border-t border-border">
@@ -2845,6 +3875,75 @@ ${selectedTextContent}
         </SheetContent>
       </Sheet>
 
+      <Sheet open={!!openAnnotations} onOpenChange={(open) => { if (!open) { setOpenAnnotations(null); handleInteraction(); } }}>
+        <SheetContent
+            side="right"
+            className="w-full sm:max-w-md bg-card text-card-foreground p-0 flex flex-col"
+            data-no-selection="true"
+            onClick={(e) => e.stopPropagation()}
+        >
+          <SheetHeader className="p-4 border-b border-border">
+            <SheetTitle className="text-primary text-xl font-artistic">{t('annotations.panelTitle')}</SheetTitle>
+            <SheetDescription>
+              {t('annotations.panelDesc').replace('{count}', String(openAnnotations?.length ?? 0))}
+            </SheetDescription>
+          </SheetHeader>
+          <ScrollArea className="flex-grow">
+            <div className="p-4 space-y-4">
+              {openAnnotations?.map(({ annotation, position }) => (
+                <div key={annotation.id} className="space-y-2 border-b border-border pb-4 last:border-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline" className={annotationSourceClasses[annotation.source].badge}>
+                      {t(getAnnotationSource(annotation.source).nameKey)}
+                    </Badge>
+                    {annotation.position && (
+                      <Badge variant="secondary">{t(`annotations.positions.${annotation.position}`)}</Badge>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      {[annotation.author, annotation.work, annotation.witness].filter(Boolean).join(' · ')}
+                    </span>
+                  </div>
+                  <blockquote className="p-2 bg-muted/30 rounded-sm text-sm text-muted-foreground">
+                    {transformTextForLang(position.text, language, 'original')}
+                  </blockquote>
+                  <p className="text-foreground leading-relaxed">{transformTextForLang(annotation.note, language, 'annotation')}</p>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+          <SheetFooter className="p-4 border-t border-border">
+             <SheetClose asChild>
+                <Button variant="outline" onClick={() => handleInteraction()}>{t('buttons.close')}</Button>
+             </SheetClose>
+          </SheetFooter>
+        </SheetContent>
+      </Sheet>
+
+      <Sheet open={!!openCharacter} onOpenChange={(open) => { if (!open) { setOpenCharacterId(null); handleInteraction(); } }}>
+        <SheetContent
+            side="right"
+            className="w-full sm:max-w-md bg-card text-card-foreground p-0 flex flex-col"
+            data-no-selection="true"
+            onClick={(e) => e.stopPropagation()}
+        >
+          {openCharacter && (
+            <ScrollArea className="flex-grow">
+              <CharacterCard
+                character={openCharacter}
+                progress={readingProgress}
+                relatedNodes={characterGraph?.chapterId === currentChapter.id ? getRelatedGraphNodes(openCharacter, characterGraph.data) : null}
+                onOpenKnowledgeGraph={() => { setOpenCharacterId(null); setIsKnowledgeGraphSheetOpen(true); }}
+              />
+            </ScrollArea>
+          )}
+          <SheetFooter className="p-4 border-t border-border">
+             <SheetClose asChild>
+                <Button variant="outline" onClick={() => handleInteraction()}>{t('buttons.close')}</Button>
+             </SheetClose>
+          </SheetFooter>
+        </SheetContent>
+      </Sheet>
+
       <Dialog open={isNoteSheetOpen} onOpenChange={(open) => {
         setIsNoteSheetOpen(open);
         if (!open) {
@@ -2897,14 +3996,14 @@ ${selectedTextContent}
             {isViewingNote ? (
               // Viewing mode - show note content directly without extra card
               <div className="space-y-4">
-                <p className="text-foreground whitespace-pre-wrap text-xl leading-relaxed">{currentNote}</p>
+                <p className="text-foreground whitespace-pre-wrap text-xl leading-relaxed">{transformTextForLang(currentNote, language, 'annotation')}</p>
               </div>
             ) : (
               // Editing mode - show textarea and selected text
               <div className="space-y-4">
                 <div className="text-sm text-muted-foreground">
                   <blockquote className="p-2 bg-muted/30 rounded-sm max-h-20 overflow-y-auto">
-                    {noteSelectedText || toolbarInfo?.text || selectedTextInfo?.text || t('readBook.noContentSelected')}
+                    {transformTextForLang(noteSelectedText || toolbarInfo?.text || selectedTextInfo?.text, language, 'original') || t('readBook.noContentSelected')}
                   </blockquote>
                 </div>
                 <Textarea
@@ -2977,6 +4076,16 @@ ${selectedTextContent}
         </DialogContent>
       </Dialog>
 
+      <ChapterExportDialog
+        open={isExportDialogOpen}
+        onOpenChange={(open) => { setIsExportDialogOpen(open); handleInteraction(); }}
+        currentChapter={currentChapter}
+        chapterIndex={chapterIndex}
+        editionId={editionId}
+        userId={user?.uid ?? null}
+        getChapterTitle={getChapterTitle}
+      />
+
       
       <Sheet open={isAiSheetOpen} onOpenChange={(open) => {setIsAiSheetOpen(open); if (!open) {setSelectedTextInfo(null); setAiMode('new-conversation'); setTextExplanation(null); setAiAnalysisContent(null); setPerplexityResponse(null); setPerplexityStreamingChunks([]);} handleInteraction(); }}>
         <SheetContent
@@ -2996,8 +4105,8 @@ ${selectedTextContent}
                 <SheetDescription>
                   {aiMode === 'new-conversation' && '請選擇您想了解的內容或直接提問'}
                   {aiMode === 'book-sources' && '相關書籍文獻資料與背景資訊'}
-                  {aiMode === 'ai-analysis' && `第${currentChapterIndex + 1}回「${getChapterTitle(currentChapter.titleKey)}」`}
-                  {aiMode === 'perplexity-qa' && `第${currentChapterIndex + 1}回「${getChapterTitle(currentChapter.titleKey)}」· 即時網路搜尋問答`}
+                  {aiMode === 'ai-analysis' && `第${currentChapterIndex + 1}回「${getChapterTitle(currentChapter)}」`}
+                  {aiMode === 'perplexity-qa' && `第${currentChapterIndex + 1}回「${getChapterTitle(currentChapter)}」· 即時網路搜尋問答`}
                 </SheetDescription>
             </SheetHeader>
 
@@ -3098,7 +4207,7 @@ ${selectedTextContent}
                           em: ({node, ...props}) => <em className="italic text-muted-foreground" {...props} />,
                         }}
                       >
-                        {aiAnalysisContent || textExplanation}
+                        {transformTextForLang(aiAnalysisContent || textExplanation || '', language, 'annotation')}
                       </ReactMarkdown>
                     </div>
                   )}
@@ -3135,7 +4244,7 @@ ${selectedTextContent}
                         console.log('[QA Module] Rendering AI message with content length:', message.content.length);
                         return (
                           <AIMessageBubble
-                            answer={message.content}  // ✅ Use message data, not global state
+                            answer={transformTextForLang(message.content, language, 'annotation')}  // ✅ Use message data, not global state
                             citations={message.citations || []}  // ✅ Use message data
                             thinkingProcess={message.thinkingProcess}  // ✅ Use message data
                             thinkingDuration={message.thinkingDuration || 10}  // ✅ Use message data
@@ -3294,15 +4403,7 @@ ${selectedTextContent}
         </SheetContent>
       </Sheet>
 
-      <Button
-        variant="default"
-        className="fixed bottom-8 right-8 h-14 w-14 rounded-full shadow-lg z-40 bg-primary text-primary-foreground hover:bg-primary/90 p-0 flex items-center justify-center"
-        onClick={handleReadAloudClick}
-        title={t('buttons.readAloud')}
-        data-no-selection="true"
-      >
-        <i className="fa fa-play-circle-o text-[54px]" aria-hidden="true"></i>
-      </Button>
+      <ReadAloudControls chapterReadAloud={chapterReadAloud} onInteraction={handleInteraction} />
 
       {/* Level Up Modal */}
       <LevelUpModal
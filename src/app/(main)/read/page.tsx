@@ -65,6 +65,9 @@ import {
 // Custom hooks for application functionality
 import { useLanguage } from '@/hooks/useLanguage';
 
+// Editions that have their own text in the chapter corpus open the reader on that edition
+import { getEditionReadLink } from '@/lib/editions';
+
 interface Book {
   id: string;
   titleKey: string;
@@ -80,8 +83,8 @@ interface Book {
 const originalTextBooksData: Omit<Book, 'titleKey'|'authorKey'|'descriptionKey'> & { id: string }[] = [
   { id: 'hlm-times-edition', coverImage: 'https://placehold.co/150x220.png?tint=662929', aiHint: 'chinese novel set', readLink: '#', badgeTextKey: 'read.badgeEbook' },
   { id: 'hlm-v3', coverImage: 'https://placehold.co/150x220.png?tint=662929', aiHint: 'chinese novel', readLink: '/read-book', badgeTextKey: 'read.badgeEbook' },
-  { id: 'hlm-chengjia', coverImage: 'https://placehold.co/150x220.png?tint=662929', aiHint: 'chinese antique', readLink: '#', badgeTextKey: 'read.badgeEbook' },
-  { id: 'hlm-gengchen', coverImage: 'https://placehold.co/150x220.png?tint=662929', aiHint: 'chinese scholarly', readLink: '#', badgeTextKey: 'read.badgeEbook' },
+  { id: 'hlm-chengjia', coverImage: 'https://placehold.co/150x220.png?tint=662929', aiHint: 'chinese antique', readLink: getEditionReadLink('chengjia'), badgeTextKey: 'read.badgeEbook' },
+  { id: 'hlm-gengchen', coverImage: 'https://placehold.co/150x220.png?tint=662929', aiHint: 'chinese scholarly', readLink: getEditionReadLink('gengchen'), badgeTextKey: 'read.badgeEbook' },
   { id: 'hlm-zhiyan', coverImage: 'https://placehold.co/150x220.png?tint=662929', aiHint: 'chinese manuscript', readLink: '#', badgeTextKey: 'read.badgeEbook' },
   { id: 'hlm-menggao', coverImage: 'https://placehold.co/150x220.png?tint=662929', aiHint: 'chinese rare', readLink: '#', badgeTextKey: 'read.badgeEbook' },
   { id: 'hlm-anniversary', coverImage: 'https://placehold.co/150x220.png?tint=662929', aiHint: 'chinese edition', readLink: '#', badgeTextKey: 'read.badgeEbook' },
@@ -0,0 +1,53 @@
+// API route to serve a chapter's annotations (editorial notes, 脂批 and scholarship)
+// See src/types/chapter.ts (ChapterAnnotationsJson) for the response format
+// Optional ?edition= query includes that edition's inline annotations instead of the default text's
+
+import { NextRequest, NextResponse } from 'next/server';
+import { readChapterAnnotations, readChapterFromCorpus } from '@/lib/chapter-corpus';
+import { isValidChapterNumber } from '@/lib/chapter-loader';
+import { DEFAULT_EDITION_ID, isEditionId } from '@/lib/editions';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chapterNumber: string }> }
+) {
+  try {
+    const { chapterNumber } = await params;
+
+    // Validate chapter number
+    const chapterNum = Number(chapterNumber);
+    if (!isValidChapterNumber(chapterNum)) {
+      return NextResponse.json(
+        { error: 'Invalid chapter number' },
+        { status: 400 }
+      );
+    }
+
+    // Validate edition
+    const edition = new URL(request.url).searchParams.get('edition') ?? DEFAULT_EDITION_ID;
+    if (!isEditionId(edition)) {
+      return NextResponse.json(
+        { error: 'Invalid edition' },
+        { status: 400 }
+      );
+    }
+
+    const chapter = await readChapterFromCorpus(chapterNum, edition);
+    if (!chapter) {
+      return NextResponse.json(
+        { error: `第${chapterNum}回原文尚未收錄` },
+        { status: 404 }
+      );
+    }
+
+    const annotations = await readChapterAnnotations(chapter);
+    return NextResponse.json({ chapterId: chapterNum, edition, annotations });
+
+  } catch (error) {
+    console.error('Error loading chapter annotations:', error);
+    return NextResponse.json(
+      { error: 'Failed to load chapter annotations' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+// API route for editors to serve an earlier approved chapter graph version again
+// Body: { "version"?: number }; without a version the previous approved version is served
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidChapterNumber } from '@/lib/chapter-loader';
+import { findGraphEditor, graphUploadsEnabled, rollbackChapterGraph } from '@/lib/graph-store';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ chapterNumber: string }> }
+) {
+  try {
+    const { chapterNumber } = await params;
+
+    // Validate chapter number
+    const chapterNum = Number(chapterNumber);
+    if (!isValidChapterNumber(chapterNum)) {
+      return NextResponse.json(
+        { error: 'Invalid chapter number' },
+        { status: 400 }
+      );
+    }
+
+    // Versions are local files, which serverless hosting does not keep (see src/lib/graph-store.ts)
+    if (!graphUploadsEnabled()) {
+      return NextResponse.json(
+        { error: 'Graph uploads are not enabled on this server' },
+        { status: 503 }
+      );
+    }
+
+    const editor = findGraphEditor(request.headers.get('authorization'));
+    if (!editor) {
+      return NextResponse.json(
+        { error: 'Only editors can roll back graph versions' },
+        { status: 403 }
+      );
+    }
+
+    let version: unknown;
+    try {
+      const body = await request.text();
+      version = body ? (JSON.parse(body) as { version?: unknown }).version : undefined;
+    } catch {
+      version = NaN;
+    }
+    if (version !== undefined && !Number.isInteger(version)) {
+      return NextResponse.json(
+        { error: 'Version must be an integer' },
+        { status: 400 }
+      );
+    }
+
+    const index = await rollbackChapterGraph(chapterNum, version as number | undefined, editor);
+    if (!index) {
+      return NextResponse.json(
+        { error: version === undefined ? `Chapter ${chapterNum} has no earlier approved graph version` : `Version ${version} of chapter ${chapterNum} is not approved` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(index);
+
+  } catch (error) {
+    console.error('Error rolling back chapter graph:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back chapter graph' },
+      { status: 500 }
+    );
+  }
+}
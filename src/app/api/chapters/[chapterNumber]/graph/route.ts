@@ -1,9 +1,18 @@
-// API route to serve chapter knowledge graph data
-// This will eventually connect to cloud database
+// API route to serve and upload chapter knowledge graph data
+// GET serves the approved uploaded version (see src/lib/graph-store.ts), else the bundled file
+// POST stores an editor's upload as a new version pending approval; single-server deployments only
 
 import { NextRequest, NextResponse } from 'next/server';
-import path from 'path';
-import fs from 'fs/promises';
+import { isValidChapterNumber } from '@/lib/chapter-loader';
+import { CHAPTER_GRAPH_SCHEMA_VERSION } from '@/lib/graph-schema';
+import {
+  MAX_GRAPH_UPLOAD_BYTES,
+  findGraphEditor,
+  graphUploadsEnabled,
+  parseGraphUpload,
+  readServedChapterGraph,
+  saveGraphVersion,
+} from '@/lib/graph-store';
 
 export async function GET(
   request: NextRequest,
@@ -13,62 +22,51 @@ export async function GET(
     const { chapterNumber } = await params;
     
     // Validate chapter number
-    const chapterNum = parseInt(chapterNumber);
-    if (isNaN(chapterNum) || chapterNum < 1 || chapterNum > 120) {
+    const chapterNum = Number(chapterNumber);
+    if (!isValidChapterNumber(chapterNum)) {
       return NextResponse.json(
         { error: 'Invalid chapter number' },
         { status: 400 }
       );
     }
 
-    // For now, load from local file
-    // In production, this will connect to cloud database
-    const filePath = path.join(
-      process.cwd(),
-      'src',
-      'app',
-      '(main)',
-      'read',
-      'chapterGraph',
-      `chapter${chapterNumber}.json`
-    );
-
-    try {
-      const fileContent = await fs.readFile(filePath, 'utf-8');
-      const chapterData = JSON.parse(fileContent);
-      
+    // Graphs are served in the structured format; legacy files are upgraded on read
+    const chapterData = await readServedChapterGraph(chapterNum);
+    if (chapterData) {
       return NextResponse.json(chapterData);
-    } catch (fileError) {
-      // If file doesn't exist, return empty data
-      return NextResponse.json({
-        entities: [],
-        relationships: [],
-        metadata: {
-          version: 'empty',
-          description: `第${chapterNumber}回知識圖譜數據尚未準備`,
-          processing_time: 0,
-          chunks_processed: 0,
-          total_characters: 0,
-          clustering_time: 0,
-          clustered_entities: 0,
-          phase3_time: 0,
-          synonym_merges_applied: 0,
-          entities_merged: 0,
-          total_processing_time: 0,
-          strategy: '空數據',
-          text_length: 0,
-          original_entities: 0,
-          streamlined_entities: 0,
-          original_relationships: 0,
-          streamlined_relationships: 0,
-          reduction_ratio: '0%',
-          focus: '無數據',
-          creation_date: new Date().toISOString().split('T')[0],
-          notes: `第${chapterNumber}回的知識圖譜數據尚未生成或上傳至資料庫`
-        }
-      });
     }
 
+    // If file doesn't exist, return empty data
+    return NextResponse.json({
+      schemaVersion: CHAPTER_GRAPH_SCHEMA_VERSION,
+      chapter: chapterNum,
+      entities: [],
+      relationships: [],
+      metadata: {
+        version: 'empty',
+        description: `第${chapterNumber}回知識圖譜數據尚未準備`,
+        processing_time: 0,
+        chunks_processed: 0,
+        total_characters: 0,
+        clustering_time: 0,
+        clustered_entities: 0,
+        phase3_time: 0,
+        synonym_merges_applied: 0,
+        entities_merged: 0,
+        total_processing_time: 0,
+        strategy: '空數據',
+        text_length: 0,
+        original_entities: 0,
+        streamlined_entities: 0,
+        original_relationships: 0,
+        streamlined_relationships: 0,
+        reduction_ratio: '0%',
+        focus: '無數據',
+        creation_date: new Date().toISOString().split('T')[0],
+        notes: `第${chapterNumber}回的知識圖譜數據尚未生成或上傳至資料庫`
+      }
+    });
+
   } catch (error) {
     console.error('Error loading chapter graph data:', error);
     return NextResponse.json(
@@ -78,27 +76,73 @@ export async function GET(
   }
 }
 
-// Future implementation for POST (uploading new graph data to database)
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ chapterNumber: string }> }
 ) {
   try {
     const { chapterNumber } = await params;
-    const chapterData = await request.json();
-    
-    // TODO: Implement cloud database storage
-    // For now, return success but don't actually store
-    console.log(`Received graph data for chapter ${chapterNumber}:`, chapterData.metadata);
-    
+
+    // Validate chapter number
+    const chapterNum = Number(chapterNumber);
+    if (!isValidChapterNumber(chapterNum)) {
+      return NextResponse.json(
+        { error: 'Invalid chapter number' },
+        { status: 400 }
+      );
+    }
+
+    // Versions are local files, which serverless hosting does not keep (see src/lib/graph-store.ts)
+    if (!graphUploadsEnabled()) {
+      return NextResponse.json(
+        { error: 'Graph uploads are not enabled on this server' },
+        { status: 503 }
+      );
+    }
+
+    const editor = findGraphEditor(request.headers.get('authorization'));
+    if (!editor) {
+      return NextResponse.json(
+        { error: 'Only editors can upload graph versions' },
+        { status: 403 }
+      );
+    }
+
+    // Reject oversized uploads before reading them when the client declares the size
+    if (Number(request.headers.get('content-length')) > MAX_GRAPH_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `Graph upload exceeds ${MAX_GRAPH_UPLOAD_BYTES} bytes` },
+        { status: 413 }
+      );
+    }
+
+    const body = await request.text();
+    if (Buffer.byteLength(body, 'utf-8') > MAX_GRAPH_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `Graph upload exceeds ${MAX_GRAPH_UPLOAD_BYTES} bytes` },
+        { status: 413 }
+      );
+    }
+
+    let graph;
+    try {
+      graph = parseGraphUpload(body, chapterNum);
+    } catch (validationError) {
+      return NextResponse.json(
+        { error: validationError instanceof Error ? validationError.message : 'Invalid chapter graph' },
+        { status: 400 }
+      );
+    }
+
+    const version = await saveGraphVersion(graph, editor);
     return NextResponse.json(
-      { 
-        message: `Chapter ${chapterNumber} graph data received`,
-        status: 'pending_database_implementation'
+      {
+        message: `Chapter ${chapterNum} graph version ${version.version} received`,
+        version
       },
-      { status: 200 }
+      { status: 201 }
     );
-    
+
   } catch (error) {
     console.error('Error storing chapter graph data:', error);
     return NextResponse.json(
@@ -106,4 +150,4 @@ export async function POST(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,57 @@
+// API route for editors to approve an uploaded chapter graph version
+// The approved version becomes the one GET /api/chapters/[chapterNumber]/graph serves
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidChapterNumber } from '@/lib/chapter-loader';
+import { approveGraphVersion, findGraphEditor, graphUploadsEnabled } from '@/lib/graph-store';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ chapterNumber: string; version: string }> }
+) {
+  try {
+    const { chapterNumber, version } = await params;
+
+    // Validate chapter number
+    const chapterNum = Number(chapterNumber);
+    if (!isValidChapterNumber(chapterNum)) {
+      return NextResponse.json(
+        { error: 'Invalid chapter number' },
+        { status: 400 }
+      );
+    }
+
+    // Versions are local files, which serverless hosting does not keep (see src/lib/graph-store.ts)
+    if (!graphUploadsEnabled()) {
+      return NextResponse.json(
+        { error: 'Graph uploads are not enabled on this server' },
+        { status: 503 }
+      );
+    }
+
+    const editor = findGraphEditor(request.headers.get('authorization'));
+    if (!editor) {
+      return NextResponse.json(
+        { error: 'Only editors can approve graph versions' },
+        { status: 403 }
+      );
+    }
+
+    const approved = await approveGraphVersion(chapterNum, Number(version), editor);
+    if (!approved) {
+      return NextResponse.json(
+        { error: `Chapter ${chapterNum} has no graph version ${version}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ version: approved });
+
+  } catch (error) {
+    console.error('Error approving chapter graph version:', error);
+    return NextResponse.json(
+      { error: 'Failed to approve chapter graph version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+// API route to read one uploaded version of a chapter's knowledge graph
+// Pending versions are only shown to editors, who review them before approving
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidChapterNumber } from '@/lib/chapter-loader';
+import { findGraphEditor, readGraphVersion, readGraphVersionIndex } from '@/lib/graph-store';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chapterNumber: string; version: string }> }
+) {
+  try {
+    const { chapterNumber, version } = await params;
+
+    // Validate chapter number
+    const chapterNum = Number(chapterNumber);
+    if (!isValidChapterNumber(chapterNum)) {
+      return NextResponse.json(
+        { error: 'Invalid chapter number' },
+        { status: 400 }
+      );
+    }
+
+    const versionNum = Number(version);
+    const entry = (await readGraphVersionIndex(chapterNum)).versions.find(candidate => candidate.version === versionNum);
+    const graph = entry && await readGraphVersion(chapterNum, versionNum);
+    if (!entry || !graph) {
+      return NextResponse.json(
+        { error: `Chapter ${chapterNum} has no graph version ${version}` },
+        { status: 404 }
+      );
+    }
+    if (entry.status === 'pending' && !findGraphEditor(request.headers.get('authorization'))) {
+      return NextResponse.json(
+        { error: 'Only editors can view pending graph versions' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ version: entry, graph });
+
+  } catch (error) {
+    console.error('Error loading chapter graph version:', error);
+    return NextResponse.json(
+      { error: 'Failed to load chapter graph version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+// API route to list the uploaded versions of a chapter's knowledge graph
+// See src/types/graph.ts (GraphVersionIndex) for the response format
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidChapterNumber } from '@/lib/chapter-loader';
+import { readGraphVersionIndex } from '@/lib/graph-store';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chapterNumber: string }> }
+) {
+  try {
+    const { chapterNumber } = await params;
+
+    // Validate chapter number
+    const chapterNum = Number(chapterNumber);
+    if (!isValidChapterNumber(chapterNum)) {
+      return NextResponse.json(
+        { error: 'Invalid chapter number' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await readGraphVersionIndex(chapterNum));
+
+  } catch (error) {
+    console.error('Error loading chapter graph versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to load chapter graph versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+// API route to serve chapter text from the on-disk chapter corpus
+// See src/types/chapter.ts for the file format
+// Optional ?edition= query selects a historical edition (庚辰本, 程甲本, 程乙本)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { readChapterFromCorpus } from '@/lib/chapter-corpus';
+import { isValidChapterNumber } from '@/lib/chapter-loader';
+import { DEFAULT_EDITION_ID, isEditionId } from '@/lib/editions';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chapterNumber: string }> }
+) {
+  try {
+    const { chapterNumber } = await params;
+
+    // Validate chapter number
+    const chapterNum = Number(chapterNumber);
+    if (!isValidChapterNumber(chapterNum)) {
+      return NextResponse.json(
+        { error: 'Invalid chapter number' },
+        { status: 400 }
+      );
+    }
+
+    // Validate edition
+    const edition = new URL(request.url).searchParams.get('edition') ?? DEFAULT_EDITION_ID;
+    if (!isEditionId(edition)) {
+      return NextResponse.json(
+        { error: 'Invalid edition' },
+        { status: 400 }
+      );
+    }
+
+    const chapter = await readChapterFromCorpus(chapterNum, edition);
+    if (!chapter) {
+      return NextResponse.json(
+        { error: `第${chapterNum}回原文尚未收錄` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(chapter);
+
+  } catch (error) {
+    console.error('Error loading chapter text:', error);
+    return NextResponse.json(
+      { error: 'Failed to load chapter text' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+// API route to serve the table of contents for the chapter corpus
+
+import { NextResponse } from 'next/server';
+import { listChapterCorpus } from '@/lib/chapter-corpus';
+import { TOTAL_CHAPTERS } from '@/lib/chapter-loader';
+
+export async function GET() {
+  try {
+    const chapters = await listChapterCorpus();
+    return NextResponse.json({
+      total: TOTAL_CHAPTERS,
+      available: chapters.filter(chapter => chapter.available).length,
+      chapters,
+    });
+  } catch (error) {
+    console.error('Error building chapter index:', error);
+    return NextResponse.json(
+      { error: 'Failed to load chapter index' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+// API route to serve the chapters each catalog character is named in
+
+import { NextResponse } from 'next/server';
+import { readEditionFromCorpus } from '@/lib/chapter-corpus';
+import { buildCharacterAppearances } from '@/lib/character-catalog';
+import { readCharacterCatalogFromCorpus } from '@/lib/character-corpus';
+
+export async function GET() {
+  try {
+    const [catalog, chapters] = await Promise.all([readCharacterCatalogFromCorpus(), readEditionFromCorpus()]);
+    return NextResponse.json({ appearances: buildCharacterAppearances(catalog, chapters) });
+  } catch (error) {
+    console.error('Error collecting character appearances:', error);
+    return NextResponse.json(
+      { error: 'Failed to collect character appearances' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+// API route to serve the character catalog used to tag names in chapter text
+
+import { NextResponse } from 'next/server';
+import { readCharacterCatalogFromCorpus } from '@/lib/character-corpus';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await readCharacterCatalogFromCorpus());
+  } catch (error) {
+    console.error('Error loading character catalog:', error);
+    return NextResponse.json(
+      { error: 'Failed to load character catalog' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+// API route to serve the bundled reading dictionary
+
+import { NextResponse } from 'next/server';
+import { readDictionaryFromCorpus } from '@/lib/dictionary-corpus';
+import type { DictionaryJson } from '@/types/dictionary';
+
+// The dataset (about 2.6 MB) only changes with a deployment: clients may keep it for a day
+const CACHE_CONTROL = 'public, max-age=86400, stale-while-revalidate=604800';
+
+// Read and merged once per server process; a failed read is retried on the next request
+let dictionaryPromise: Promise<DictionaryJson> | null = null;
+
+const loadDictionary = (): Promise<DictionaryJson> => {
+  if (!dictionaryPromise) {
+    dictionaryPromise = readDictionaryFromCorpus();
+    dictionaryPromise.catch(() => {
+      dictionaryPromise = null;
+    });
+  }
+  return dictionaryPromise;
+};
+
+export async function GET() {
+  try {
+    return NextResponse.json(await loadDictionary(), { headers: { 'Cache-Control': CACHE_CONTROL } });
+  } catch (error) {
+    console.error('Error loading dictionary:', error);
+    return NextResponse.json(
+      { error: 'Failed to load dictionary' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+// API route to serve the entity catalog that types knowledge graph entities
+
+import { NextResponse } from 'next/server';
+import { readEntityCatalogFromCorpus } from '@/lib/entity-corpus';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await readEntityCatalogFromCorpus());
+  } catch (error) {
+    console.error('Error loading entity catalog:', error);
+    return NextResponse.json(
+      { error: 'Failed to load entity catalog' },
+      { status: 500 }
+    );
+  }
+}
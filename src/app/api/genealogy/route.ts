@@ -0,0 +1,16 @@
+// API route to serve the kinship data the family tree view is drawn from
+
+import { NextResponse } from 'next/server';
+import { readGenealogyFromCorpus } from '@/lib/genealogy-corpus';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await readGenealogyFromCorpus());
+  } catch (error) {
+    console.error('Error loading genealogy:', error);
+    return NextResponse.json(
+      { error: 'Failed to load genealogy' },
+      { status: 500 }
+    );
+  }
+}
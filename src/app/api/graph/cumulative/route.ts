@@ -0,0 +1,39 @@
+// API route to serve the knowledge graph of chapters 1..N merged into one
+// GET /api/graph/cumulative?through=5 (defaults to the whole book)
+// See src/types/graph.ts (CumulativeGraph) for the response format and
+// src/lib/cumulative-graph.ts for how names are resolved across chapters
+
+import { NextRequest, NextResponse } from 'next/server';
+import { TOTAL_CHAPTERS, isValidChapterNumber } from '@/lib/chapter-loader';
+import { readCharacterCatalogFromCorpus } from '@/lib/character-corpus';
+import { buildCumulativeGraph } from '@/lib/cumulative-graph';
+import { readEntityCatalogFromCorpus } from '@/lib/entity-corpus';
+import { readServedChapterGraphs } from '@/lib/graph-store';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Validate the last chapter
+    const throughParam = new URL(request.url).searchParams.get('through');
+    const through = throughParam === null ? TOTAL_CHAPTERS : Number(throughParam);
+    if (!isValidChapterNumber(through)) {
+      return NextResponse.json(
+        { error: 'Invalid chapter number' },
+        { status: 400 }
+      );
+    }
+
+    const [graphs, characters, entities] = await Promise.all([
+      readServedChapterGraphs(through),
+      readCharacterCatalogFromCorpus(),
+      readEntityCatalogFromCorpus(),
+    ]);
+    return NextResponse.json(buildCumulativeGraph(graphs, { characters, entities }, through));
+
+  } catch (error) {
+    console.error('Error building cumulative knowledge graph:', error);
+    return NextResponse.json(
+      { error: 'Failed to build cumulative knowledge graph' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+// API route to query the knowledge graph: paths between two entities and neighbourhoods
+// GET /api/graph/query?from=賈雨村&to=林黛玉              one shortest path
+// GET /api/graph/query?from=賈雨村&to=林黛玉&paths=all    every path up to maxLength;
+//                                                       `truncated` when the search stopped early
+// GET /api/graph/query?entity=甄士隱&hops=2               the entities within 2 hops
+// Entities are given by id, name or alias. Options: types=family,friendship limits
+// the relationships followed; maxLength (paths, default 4, at most 6); hops (1-3).
+// Queries the cumulative graph through chapter `through` (default the whole book),
+// or one chapter's graph with chapter=N. See src/lib/graph-query.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { TOTAL_CHAPTERS, isValidChapterNumber } from '@/lib/chapter-loader';
+import { readCharacterCatalogFromCorpus } from '@/lib/character-corpus';
+import { buildCumulativeGraph } from '@/lib/cumulative-graph';
+import { readEntityCatalogFromCorpus } from '@/lib/entity-corpus';
+import { DEFAULT_MAX_PATH_LENGTH, findAllPaths, findShortestPath, getNeighbourhood, resolveGraphEntity, type QueryableGraph } from '@/lib/graph-query';
+import { GRAPH_RELATION_TYPES } from '@/lib/graph-schema';
+import { readServedChapterGraph, readServedChapterGraphs } from '@/lib/graph-store';
+import type { GraphEntity, GraphPath, GraphPathQueryResult, GraphRelationType } from '@/types/graph';
+
+const MAX_PATH_LENGTH = 6;
+const MAX_HOPS = 3;
+
+// Integer query parameter within [1, max]; null when absent, NaN when invalid
+const readBoundedParam = (searchParams: URLSearchParams, name: string, max: number): number | null => {
+  const value = searchParams.get(name);
+  if (value === null) return null;
+  const number = Number(value);
+  return Number.isInteger(number) && number >= 1 && number <= max ? number : NaN;
+};
+
+const readGraph = async (searchParams: URLSearchParams): Promise<QueryableGraph | null> => {
+  const chapter = searchParams.get('chapter');
+  if (chapter !== null) {
+    return readServedChapterGraph(Number(chapter));
+  }
+  const throughParam = searchParams.get('through');
+  const through = throughParam === null ? TOTAL_CHAPTERS : Number(throughParam);
+  const [graphs, characters, entities] = await Promise.all([
+    readServedChapterGraphs(through),
+    readCharacterCatalogFromCorpus(),
+    readEntityCatalogFromCorpus(),
+  ]);
+  return buildCumulativeGraph(graphs, { characters, entities }, through);
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Validate the graph to query
+    const chapters = [searchParams.get('chapter'), searchParams.get('through')];
+    if (chapters.some(chapter => chapter !== null && !isValidChapterNumber(Number(chapter)))) {
+      return NextResponse.json(
+        { error: 'Invalid chapter number' },
+        { status: 400 }
+      );
+    }
+
+    // Validate the relationship types
+    const typesParam = searchParams.get('types');
+    const types = typesParam === null ? undefined : typesParam.split(',').map(type => type.trim()) as GraphRelationType[];
+    if (types?.some(type => !GRAPH_RELATION_TYPES.includes(type))) {
+      return NextResponse.json(
+        { error: `Invalid relationship type; use ${GRAPH_RELATION_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const center = searchParams.get('entity');
+    const maxLength = readBoundedParam(searchParams, 'maxLength', MAX_PATH_LENGTH);
+    const hops = readBoundedParam(searchParams, 'hops', MAX_HOPS);
+    if ((from === null || to === null) && center === null) {
+      return NextResponse.json(
+        { error: 'Give from and to, or entity' },
+        { status: 400 }
+      );
+    }
+    if (Number.isNaN(maxLength)) {
+      return NextResponse.json(
+        { error: `maxLength must be between 1 and ${MAX_PATH_LENGTH}` },
+        { status: 400 }
+      );
+    }
+    if (Number.isNaN(hops)) {
+      return NextResponse.json(
+        { error: `hops must be between 1 and ${MAX_HOPS}` },
+        { status: 400 }
+      );
+    }
+
+    const graph = await readGraph(searchParams);
+    if (!graph) {
+      return NextResponse.json(
+        { error: 'Chapter graph not found' },
+        { status: 404 }
+      );
+    }
+
+    // Resolve the entities by id, name or alias
+    const names = center !== null ? [center] : [from!, to!];
+    const entities = names.map(name => resolveGraphEntity(graph, name));
+    const missing = names.filter((_, index) => !entities[index]);
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Entity not found: ${missing.join(', ')}` },
+        { status: 404 }
+      );
+    }
+
+    if (center !== null) {
+      return NextResponse.json(getNeighbourhood(graph, entities[0]!.id, hops ?? 1, { types }));
+    }
+
+    const [source, target] = entities as GraphEntity[];
+    const options = { types, maxLength: maxLength ?? DEFAULT_MAX_PATH_LENGTH };
+    const result: GraphPathQueryResult = searchParams.get('paths') === 'all'
+      ? { source, target, ...findAllPaths(graph, source.id, target.id, options) }
+      : {
+          source,
+          target,
+          paths: [findShortestPath(graph, source.id, target.id, options)].filter((path): path is GraphPath => path !== null),
+          truncated: false,
+        };
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error querying knowledge graph:', error);
+    return NextResponse.json(
+      { error: 'Failed to query knowledge graph' },
+      { status: 500 }
+    );
+  }
+}
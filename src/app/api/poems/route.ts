@@ -0,0 +1,17 @@
+// API route to serve the poetry catalogue collected from every chapter
+
+import { NextResponse } from 'next/server';
+import { readEditionFromCorpus } from '@/lib/chapter-corpus';
+import { buildPoemCatalogue } from '@/lib/poetry';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ poems: buildPoemCatalogue(await readEditionFromCorpus()) });
+  } catch (error) {
+    console.error('Error loading poetry catalogue:', error);
+    return NextResponse.json(
+      { error: 'Failed to load poetry catalogue' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+// API route for whole-book full-text search over the chapter corpus
+// GET /api/search?q=夢幻&edition=gengchen&limit=20
+// Matches Traditional and Simplified forms of the query alike (see src/lib/chapter-search.ts)
+// Annotation hits cover every commentary source in chapterAnnotations/
+
+import { NextRequest, NextResponse } from 'next/server';
+import { readChapterAnnotations, readEditionFromCorpus } from '@/lib/chapter-corpus';
+import { buildSearchIndex, searchIndex, DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT, type SearchIndex } from '@/lib/chapter-search';
+import { DEFAULT_EDITION_ID, isEditionId } from '@/lib/editions';
+import type { ChapterAnnotation, EditionId } from '@/types/chapter';
+
+const buildEditionIndex = async (editionId: EditionId): Promise<SearchIndex> => {
+  const chapters = await readEditionFromCorpus(editionId);
+  const annotations = new Map<number, ChapterAnnotation[]>();
+  for (const chapter of chapters) {
+    try {
+      annotations.set(chapter.id, await readChapterAnnotations(chapter));
+    } catch (error) {
+      // Fall back to the chapter's inline annotations
+      console.error(`Malformed annotation file for chapter ${chapter.id}:`, error);
+    }
+  }
+  return buildSearchIndex(chapters, annotations);
+};
+
+// One index per edition, built on first use and kept for the life of the server process
+const indexCache = new Map<EditionId, Promise<SearchIndex>>();
+
+const getSearchIndex = (editionId: EditionId): Promise<SearchIndex> => {
+  let index = indexCache.get(editionId);
+  if (!index) {
+    index = buildEditionIndex(editionId);
+    // Do not cache failures; the next request retries
+    index.catch(() => indexCache.delete(editionId));
+    indexCache.set(editionId, index);
+  }
+  return index;
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+
+    // Validate query
+    const query = searchParams.get('q')?.trim() ?? '';
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Missing search query' },
+        { status: 400 }
+      );
+    }
+
+    // Validate edition
+    const edition = searchParams.get('edition') ?? DEFAULT_EDITION_ID;
+    if (!isEditionId(edition)) {
+      return NextResponse.json(
+        { error: 'Invalid edition' },
+        { status: 400 }
+      );
+    }
+
+    // Validate limit
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_SEARCH_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      return NextResponse.json(
+        { error: `Limit must be an integer between 1 and ${MAX_SEARCH_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const index = await getSearchIndex(edition);
+    return NextResponse.json({ ...searchIndex(index, query, { limit }), edition });
+
+  } catch (error) {
+    console.error('Error searching chapter corpus:', error);
+    return NextResponse.json(
+      { error: 'Failed to search chapter text' },
+      { status: 500 }
+    );
+  }
+}
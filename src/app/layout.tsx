@@ -12,6 +12,7 @@
  * - Configure language/internationalization context for multilingual support
  * - Include external font resources (Font Awesome for icons)
  * - Provide toast notification system for user feedback
+ * - Register the service worker that keeps chapters readable offline
  * - Set initial HTML language attribute for accessibility
  * 
  * Provider hierarchy (from outer to inner):
@@ -34,6 +35,8 @@ import { LanguageProvider } from '@/context/LanguageContext';
 import HydrationDebugger from '@/components/HydrationDebugger';
 // Import chunk error boundary for handling dynamic import failures
 import ChunkErrorBoundary from '@/components/ChunkErrorBoundary';
+// Import service worker registration for offline reading
+import ServiceWorkerRegistration from '@/components/ServiceWorkerRegistration';
 
 // Note: Noto Serif SC (Chinese serif font) is imported in globals.css for classical literature display
 
@@ -99,6 +102,9 @@ export default function RootLayout({
                   <Toaster />
                 </ChunkErrorBoundary>
 
+                {/* Offline reading: caches chapters and pages (production only) */}
+                <ServiceWorkerRegistration />
+
                 {/* Development-only hydration debugger */}
                 <ChunkErrorBoundary>
                   <HydrationDebugger />
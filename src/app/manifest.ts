@@ -0,0 +1,25 @@
+/**
+ * @fileOverview Web app manifest, so the reader can be installed and opened offline
+ */
+
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: '紅樓慧讀',
+    short_name: '紅樓慧讀',
+    description: '探索《紅樓夢》的智能閱讀夥伴 (An intelligent reading companion for exploring "Dream of the Red Chamber")',
+    start_url: '/read-book',
+    display: 'standalone',
+    background_color: '#661a1a',
+    theme_color: '#661a1a',
+    lang: 'zh-TW',
+    icons: [
+      {
+        src: '/favicon.ico',
+        sizes: 'any',
+        type: 'image/x-icon',
+      },
+    ],
+  };
+}
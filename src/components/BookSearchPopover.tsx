@@ -0,0 +1,134 @@
+"use client";
+
+/**
+ * @fileOverview Toolbar search button and whole-book search popover
+ *
+ * Shows the query field and the whole-book results of `useBookSearch`, each
+ * with its chapter, the field it was found in and a snippet around the match.
+ * Matching is Traditional/Simplified-insensitive; the reading page highlights
+ * the query in the chapter on screen and scrolls to the result picked.
+ */
+
+import { Search as SearchIcon, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverClose, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { BookSearch } from '@/hooks/useBookSearch';
+import type { SearchResult } from '@/lib/chapter-search';
+import { transformTextForLang } from '@/lib/translations';
+import { cn } from '@/lib/utils';
+
+interface BookSearchPopoverProps {
+  search: BookSearch;
+  /** Chapter on screen, whose results are marked */
+  currentChapterId: number;
+  /** Display title of the chapter a result was found in */
+  getResultChapterTitle: (result: SearchResult) => string;
+  onSelectResult: (result: SearchResult) => void;
+  /** Called on every open, close or click, to keep the toolbar visible */
+  onInteraction: () => void;
+  triggerClassName?: string;
+  iconClassName?: string;
+  labelClassName?: string;
+}
+
+export function BookSearchPopover({
+  search,
+  currentChapterId,
+  getResultChapterTitle,
+  onSelectResult,
+  onInteraction,
+  triggerClassName,
+  iconClassName,
+  labelClassName,
+}: BookSearchPopoverProps) {
+  const { t, language } = useLanguage();
+  const { term, setTerm, results, total, state } = search;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    search.setIsOpen(isOpen);
+    onInteraction();
+    if (!isOpen) setTerm('');
+  };
+
+  return (
+    <Popover open={search.isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" className={triggerClassName} title={t('buttons.search')}>
+          <SearchIcon className={iconClassName} />
+          <span className={labelClassName}>{t('buttons.search')}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        side="bottom"
+        align="end"
+        className="w-80 p-2 bg-card border-border shadow-xl"
+        data-no-selection="true"
+        onClick={(e) => e.stopPropagation()}
+        onInteractOutside={() => { search.setIsOpen(false); onInteraction(); }}
+      >
+        <div className="flex items-center gap-2">
+          <Input
+            type="text"
+            placeholder={t('placeholders.searchInBook')}
+            value={term}
+            onChange={(e) => setTerm(e.target.value)}
+            className="h-9 text-sm bg-background/80 focus:ring-primary"
+          />
+          <Button variant="ghost" size="icon" className="h-9 w-9 text-muted-foreground hover:text-destructive" onClick={() => setTerm('')} title={t('buttons.clearSearch')}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+        {term.trim() && (
+          <div className="mt-2 pt-2 border-t border-border">
+            <div className="flex items-baseline justify-between gap-2 px-1 mb-1">
+              <h4 className="text-xs font-medium text-foreground">{t('bookSearch.wholeBook')}</h4>
+              <span className="text-[11px] text-muted-foreground">{t('bookSearch.variantHint')}</span>
+            </div>
+            <p className="px-1 text-xs text-muted-foreground" aria-live="polite">
+              {state === 'searching' && t('bookSearch.searching')}
+              {state === 'error' && t('bookSearch.error')}
+              {state === 'done' && (total === 0
+                ? t('bookSearch.noResults')
+                : t('bookSearch.resultCount').replace('{count}', String(total)))}
+              {state === 'done' && total > results.length && (
+                <> · {t('bookSearch.moreResults').replace('{shown}', String(results.length))}</>
+              )}
+            </p>
+            {results.length > 0 && (
+              <ul className="mt-1 max-h-80 overflow-y-auto space-y-0.5">
+                {results.map(result => (
+                  <li key={`${result.paragraphId}-${result.field}-${result.annotationId ?? ''}`}>
+                    <button
+                      type="button"
+                      className={cn(
+                        "w-full text-left rounded-md px-2 py-1.5 hover:bg-accent/50 focus:outline-none focus:ring-1 focus:ring-ring",
+                        result.chapterId === currentChapterId && "bg-accent/20"
+                      )}
+                      onClick={() => onSelectResult(result)}
+                    >
+                      <div className="flex items-center justify-between gap-2 text-[11px] text-muted-foreground">
+                        <span className="truncate">{getResultChapterTitle(result)}</span>
+                        <Badge variant="outline" className="shrink-0 px-1.5 py-0 text-[10px] font-normal">{t(`bookSearch.fields.${result.field}`)}</Badge>
+                      </div>
+                      <p className="mt-0.5 text-sm leading-snug line-clamp-3">
+                        {transformTextForLang(result.snippet.before, language, 'original')}
+                        <mark className="bg-yellow-300 text-black px-0.5 rounded-sm">{transformTextForLang(result.snippet.match, language, 'original')}</mark>
+                        {transformTextForLang(result.snippet.after, language, 'original')}
+                      </p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        <PopoverClose className="absolute top-1 right-1 rounded-full p-1 text-muted-foreground hover:text-foreground focus:outline-none focus:ring-1 focus:ring-ring">
+          <X className="h-4 w-4" />
+        </PopoverClose>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+/**
+ * @fileOverview Dialog exporting chapters with the reader's notes
+ *
+ * Exports the current chapter, a range of chapters or the whole book as
+ * Markdown, EPUB or PDF, with the reader's notes and highlights inline or as
+ * endnotes (see `chapter-export`). Signed-out readers export the text alone.
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import {
+  EXPORT_FORMATS,
+  NOTE_PLACEMENTS,
+  collectExportChapters,
+  deliverExport,
+  exportChapters,
+  getExportFileName,
+  type ExportFormat,
+  type NotePlacement,
+} from '@/lib/chapter-export';
+import { TOTAL_CHAPTERS } from '@/lib/chapter-loader';
+import { transformTextForLang } from '@/lib/translations';
+import type { Chapter, ChapterIndexEntry, EditionId } from '@/types/chapter';
+
+type ExportScope = 'chapter' | 'range' | 'book';
+
+const EXPORT_SCOPES: ExportScope[] = ['chapter', 'range', 'book'];
+
+interface ChapterExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Chapter on screen, exported by the "this chapter" scope and starting the range */
+  currentChapter: Chapter;
+  chapterIndex: ChapterIndexEntry[];
+  editionId: EditionId;
+  /** Signed-in reader whose notes and highlights are exported */
+  userId: string | null;
+  /** Display title of a chapter, used as the title of a one-chapter export */
+  getChapterTitle: (chapter: Chapter) => string;
+}
+
+export function ChapterExportDialog({
+  open,
+  onOpenChange,
+  currentChapter,
+  chapterIndex,
+  editionId,
+  userId,
+  getChapterTitle,
+}: ChapterExportDialogProps) {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const [scope, setScope] = useState<ExportScope>('chapter');
+  const [range, setRange] = useState({ from: 1, to: 1 });
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [notePlacement, setNotePlacement] = useState<NotePlacement>('endnotes');
+  const [isExporting, setIsExporting] = useState(false);
+
+  // A range starts at the chapter being read
+  useEffect(() => {
+    if (open) setRange({ from: currentChapter.id, to: currentChapter.id });
+  }, [open]);
+
+  const handleExport = async () => {
+    const chapterIds = scope === 'chapter'
+      ? [currentChapter.id]
+      : scope === 'range'
+        ? Array.from({ length: Math.max(0, range.to - range.from + 1) }, (_, i) => range.from + i)
+        : chapterIndex.map(entry => entry.id);
+
+    setIsExporting(true);
+    try {
+      const chapters = await collectExportChapters(userId, chapterIds, editionId);
+      if (chapters.length === 0) {
+        toast({ title: t('export.title'), description: t('export.nothingToExport'), variant: 'destructive' });
+        return;
+      }
+      const result = exportChapters(chapters, {
+        format,
+        notePlacement,
+        title: scope === 'chapter' ? getChapterTitle(currentChapter) : t('export.bookTitle'),
+        labels: { notes: t('export.notesHeading'), contents: t('export.contentsHeading') },
+        language: language === 'zh-CN' ? 'zh-Hans' : 'zh-Hant',
+        transformText: text => transformTextForLang(text, language, 'original'),
+        fileName: getExportFileName(chapters.map(chapter => chapter.id), chapterIndex.filter(entry => entry.available).length),
+      });
+      deliverExport(result);
+      onOpenChange(false);
+      toast({
+        title: t('export.title'),
+        description: t('export.done').replace('{count}', String(chapters.length)),
+      });
+    } catch (error) {
+      console.error('Failed to export chapters:', error);
+      toast({ title: t('Error'), description: t('export.failed'), variant: 'destructive' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-md bg-card text-card-foreground"
+        data-no-selection="true"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <DialogHeader>
+          <DialogTitle>{t('export.title')}</DialogTitle>
+          <DialogDescription>{userId ? t('export.description') : t('export.signedOutDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t('export.scopeLabel')}</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {EXPORT_SCOPES.map(option => (
+                <Button
+                  key={option}
+                  variant={scope === option ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setScope(option)}
+                >
+                  {t(`export.scopes.${option}`)}
+                </Button>
+              ))}
+            </div>
+            {scope === 'range' && (
+              <div className="flex items-center gap-2 text-sm">
+                <Input
+                  type="number"
+                  min={1}
+                  max={TOTAL_CHAPTERS}
+                  value={range.from}
+                  onChange={(e) => setRange(prev => ({ ...prev, from: Number(e.target.value) || 1 }))}
+                  className="w-20"
+                  aria-label={t('export.rangeFrom')}
+                />
+                <span>–</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={TOTAL_CHAPTERS}
+                  value={range.to}
+                  onChange={(e) => setRange(prev => ({ ...prev, to: Number(e.target.value) || 1 }))}
+                  className="w-20"
+                  aria-label={t('export.rangeTo')}
+                />
+                <span className="text-muted-foreground">{t('export.rangeHint')}</span>
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>{t('export.formatLabel')}</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {EXPORT_FORMATS.map(option => (
+                <Button
+                  key={option}
+                  variant={format === option ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setFormat(option)}
+                >
+                  {t(`export.formats.${option}`)}
+                </Button>
+              ))}
+            </div>
+            {format === 'pdf' && <p className="text-xs text-muted-foreground">{t('export.pdfHint')}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label>{t('export.notePlacementLabel')}</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {NOTE_PLACEMENTS.map(placement => (
+                <Button
+                  key={placement}
+                  variant={notePlacement === placement ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setNotePlacement(placement)}
+                >
+                  {t(`export.notePlacements.${placement}`)}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">{t('buttons.cancel')}</Button>
+          </DialogClose>
+          <Button onClick={handleExport} disabled={isExporting || (scope === 'range' && range.to < range.from)}>
+            {isExporting ? t('export.exporting') : t('export.confirm')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+/**
+ * @fileOverview Character card opened from a name in the chapter text
+ *
+ * Shows the catalog profile of a character as far as the reader has read:
+ * the name and aliases known at their progress, the first appearance, the
+ * latest biography they have reached, the chapters they are named in, and
+ * the nodes the current chapter's knowledge graph connects to the character.
+ * Rendered inside the reading page's character sheet and the family tree's.
+ */
+
+import type { CatalogCharacter, RelatedGraphNode } from '@/types/character';
+import { getCharacterProfile, getKnownAliases } from '@/lib/character-catalog';
+import { transformTextForLang } from '@/lib/translations';
+import { useLanguage } from '@/hooks/useLanguage';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ArrowLeft, ArrowRight, Loader2, Network } from 'lucide-react';
+
+interface CharacterCardProps {
+  character: CatalogCharacter;
+  /** Furthest chapter the reader has reached */
+  progress: number;
+  /** Nodes connected to the character in the current chapter's graph; null while it loads */
+  relatedNodes?: RelatedGraphNode[] | null;
+  /** Shows the knowledge graph section, for cards opened from a chapter */
+  onOpenKnowledgeGraph?: () => void;
+  /** Chapters the character is named in; only those up to `progress` are shown */
+  appearances?: number[];
+}
+
+export function CharacterCard({ character, progress, relatedNodes = null, onOpenKnowledgeGraph, appearances }: CharacterCardProps) {
+  const { t, language } = useLanguage();
+  const display = (text: string) => transformTextForLang(text, language, 'annotation');
+  const profile = getCharacterProfile(character, progress);
+  const aliases = getKnownAliases(character, progress).filter(alias => alias !== profile.name);
+  const readAppearances = appearances?.filter(chapter => chapter <= progress);
+
+  return (
+    <>
+      <SheetHeader className="p-4 border-b border-border">
+        <SheetTitle className="text-primary text-xl font-artistic">{display(profile.name)}</SheetTitle>
+        <SheetDescription>
+          {t('characters.firstAppearance').replace('{chapter}', String(character.firstAppearance.chapter))}
+        </SheetDescription>
+      </SheetHeader>
+      <div className="p-4 space-y-5">
+        {aliases.length > 0 && (
+          <section className="space-y-2">
+            <h4 className="text-sm font-medium text-muted-foreground">{t('characters.aliases')}</h4>
+            <div className="flex flex-wrap gap-1.5">
+              {aliases.map(alias => (
+                <Badge key={alias} variant="secondary">{display(alias)}</Badge>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <section className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">{t('characters.bio')}</h4>
+          <p className="text-foreground leading-relaxed">{display(profile.bio)}</p>
+        </section>
+
+        {readAppearances && (
+          <section className="space-y-2">
+            <h4 className="text-sm font-medium text-muted-foreground">{t('characters.appearances')}</h4>
+            {readAppearances.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('characters.appearancesEmpty')}</p>
+            ) : (
+              <div className="flex flex-wrap gap-1.5">
+                {readAppearances.map(chapter => (
+                  <Badge key={chapter} variant="outline">
+                    {t('characters.appearanceChapter').replace('{chapter}', String(chapter))}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
+        {onOpenKnowledgeGraph && (
+          <section className="space-y-2">
+            <h4 className="text-sm font-medium text-muted-foreground">{t('characters.related')}</h4>
+            {!relatedNodes ? (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {t('characters.relatedLoading')}
+              </p>
+            ) : relatedNodes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('characters.relatedEmpty')}</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {relatedNodes.map(node => (
+                  <li key={`${node.name}|${node.relationship}`} className="flex items-center gap-2 text-sm">
+                    {node.direction === 'outgoing'
+                      ? <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+                      : <ArrowLeft className="h-3.5 w-3.5 text-muted-foreground" />}
+                    <span className="text-muted-foreground">{display(node.relationship)}</span>
+                    <span className="font-medium">{display(node.name)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Button variant="outline" size="sm" className="mt-1" onClick={onOpenKnowledgeGraph}>
+              <Network className="h-4 w-4 mr-2" />
+              {t('characters.openGraph')}
+            </Button>
+          </section>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {t('characters.spoilerNote').replace('{chapter}', String(progress))}
+        </p>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+/**
+ * @fileOverview Layout buttons of the reading toolbar
+ *
+ * Switches between the single-column, double-column and vertical (直排)
+ * layouts, and toggles parallel reading, which sets the vernacular beside the
+ * original sentence by sentence. The double-column and vertical layouts are
+ * paginated by the reading page; the vertical layout reads right to left.
+ */
+
+import type { ComponentType } from 'react';
+import { AlignCenter, AlignLeft, AlignVerticalJustifyStart, Columns2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { ColumnLayout } from '@/lib/reading-position-service';
+import { cn } from '@/lib/utils';
+
+const LAYOUT_BUTTONS: Array<{ layout: ColumnLayout; icon: ComponentType<{ className?: string }>; labelKey: string; hintKey: string }> = [
+  { layout: 'single', icon: AlignLeft, labelKey: 'buttons.singleColumn', hintKey: 'buttons.singleColumn' },
+  { layout: 'double', icon: AlignCenter, labelKey: 'buttons.doubleColumn', hintKey: 'buttons.doubleColumn' },
+  { layout: 'vertical', icon: AlignVerticalJustifyStart, labelKey: 'buttons.verticalText', hintKey: 'buttons.verticalTextHint' },
+];
+
+interface ColumnLayoutButtonsProps {
+  layout: ColumnLayout;
+  onLayoutChange: (layout: ColumnLayout) => void;
+  isParallelMode: boolean;
+  onToggleParallelMode: () => void;
+  buttonClassName?: string;
+  iconClassName?: string;
+  labelClassName?: string;
+  /** Text colour of the buttons that are not selected, from the reading theme */
+  textClassName?: string;
+}
+
+export function ColumnLayoutButtons({
+  layout,
+  onLayoutChange,
+  isParallelMode,
+  onToggleParallelMode,
+  buttonClassName,
+  iconClassName,
+  labelClassName,
+  textClassName,
+}: ColumnLayoutButtonsProps) {
+  const { t } = useLanguage();
+  const activeTextClass = (isActive: boolean) => (isActive ? 'text-secondary-foreground' : textClassName);
+
+  return (
+    <>
+      {LAYOUT_BUTTONS.map(({ layout: option, icon: Icon, labelKey, hintKey }) => (
+        <Button
+          key={option}
+          variant={layout === option ? 'secondary' : 'ghost'}
+          className={cn(buttonClassName, layout === option ? '' : textClassName)}
+          onClick={() => onLayoutChange(option)}
+          title={t(hintKey)}
+        >
+          <Icon className={cn(iconClassName, activeTextClass(layout === option))}/>
+          <span className={cn(labelClassName, activeTextClass(layout === option))}>{t(labelKey)}</span>
+        </Button>
+      ))}
+      <Button
+        variant={isParallelMode ? 'secondary' : 'ghost'}
+        className={cn(buttonClassName, isParallelMode ? '' : textClassName)}
+        onClick={onToggleParallelMode}
+        title={t('buttons.parallelReadingHint')}
+        aria-pressed={isParallelMode}
+      >
+        <Columns2 className={cn(iconClassName, activeTextClass(isParallelMode))}/>
+        <span className={cn(labelClassName, activeTextClass(isParallelMode))}>{t('buttons.parallelReading')}</span>
+      </Button>
+    </>
+  );
+}
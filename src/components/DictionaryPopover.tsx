@@ -0,0 +1,132 @@
+"use client";
+
+/**
+ * @fileOverview Dictionary lookup popover for the selection toolbar
+ *
+ * Shows the selected text split into dictionary words, each with its reading,
+ * definitions and classical usage. Rendered inside the reading page's selection
+ * toolbar, so clicks in it keep the selection.
+ */
+
+import type { DictionarySegment } from '@/types/dictionary';
+import { formatPinyin } from '@/lib/dictionary';
+import { transformTextForLang } from '@/lib/translations';
+import { useLanguage } from '@/hooks/useLanguage';
+import { BookA, Loader2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface DictionaryPopoverProps {
+  /** Segments of the looked-up text; null while the dictionary loads */
+  segments: DictionarySegment[] | null;
+  /** The dictionary could not be loaded */
+  hasError?: boolean;
+  /** Whether the words were added to the reader's vocabulary list */
+  isRecorded?: boolean;
+  /** Open above the toolbar, or below the selection when there is no room */
+  placement: 'above' | 'below';
+  onClose: () => void;
+}
+
+export function DictionaryPopover({ segments, hasError, isRecorded, placement, onClose }: DictionaryPopoverProps) {
+  const { t, language } = useLanguage();
+  const display = (text: string) => (language === 'zh-CN' ? transformTextForLang(text, language, 'annotation') : text);
+  const words = segments?.filter(segment => segment.entries.length > 0) ?? [];
+
+  return (
+    <div
+      className={cn(
+        "absolute left-1/2 -translate-x-1/2 w-80 max-h-80 overflow-y-auto rounded-md border border-neutral-700 bg-neutral-800 p-3 text-left text-white shadow-xl",
+        placement === 'above' ? "bottom-full mb-3" : "top-full mt-10"
+      )}
+      role="dialog"
+      aria-label={t('dictionary.title')}
+      data-selection-action-toolbar="true"
+    >
+      <div className="mb-2 flex items-center justify-between" data-selection-action-toolbar="true">
+        <span className="flex items-center gap-1.5 text-sm font-semibold">
+          <BookA className="h-4 w-4" />
+          {t('dictionary.title')}
+        </span>
+        <button
+          className="rounded p-0.5 hover:bg-neutral-700"
+          onClick={onClose}
+          data-selection-action-toolbar="true"
+          aria-label={t('buttons.close')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {hasError ? (
+        <p className="text-xs text-neutral-300">{t('dictionary.loadFailed')}</p>
+      ) : !segments ? (
+        <p className="flex items-center gap-2 text-xs text-neutral-300">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          {t('dictionary.loading')}
+        </p>
+      ) : (
+        <>
+          {/* Segmentation of the selection */}
+          <p className="mb-3 flex flex-wrap gap-x-1 gap-y-0.5 text-sm" aria-label={t('dictionary.segmentation')}>
+            {segments.map(segment => (
+              <span
+                key={segment.start}
+                className={cn(segment.entries.length > 0 ? "rounded bg-neutral-700 px-1" : "text-neutral-400")}
+              >
+                {segment.text}
+              </span>
+            ))}
+          </p>
+
+          {words.length === 0 ? (
+            <p className="text-xs text-neutral-300">{t('dictionary.noEntries')}</p>
+          ) : (
+            <ul className="space-y-3">
+              {words.map(segment => (
+                <li key={segment.start} className="space-y-1">
+                  {segment.entries.map(entry => (
+                    <div key={`${entry.traditional} ${entry.pinyin}`} className="space-y-1">
+                      <div className="flex items-baseline gap-2">
+                        <span className="text-base font-semibold">
+                          {language === 'zh-CN' ? entry.simplified : entry.traditional}
+                        </span>
+                        <span className="text-xs text-amber-300">{formatPinyin(entry.pinyin)}</span>
+                      </div>
+                      {entry.definitions.length > 0 && (
+                        <ol className="list-decimal space-y-0.5 pl-4 text-xs text-neutral-200">
+                          {entry.definitions.map((definition, index) => (
+                            <li key={index}>{display(definition)}</li>
+                          ))}
+                        </ol>
+                      )}
+                      {/* English glosses are the only sense of CC-CEDICT entries */}
+                      {(language === 'en-US' || entry.definitions.length === 0) && entry.english && (
+                        <p className="text-xs italic text-neutral-300">{entry.english.join('; ')}</p>
+                      )}
+                      {entry.usage && entry.usage.length > 0 && (
+                        <div className="text-xs text-neutral-300">
+                          <span className="font-medium text-neutral-100">{t('dictionary.usage')}</span>
+                          {entry.usage.map((usage, index) => (
+                            <p key={index} className="mt-0.5 border-l-2 border-neutral-600 pl-2">
+                              「{display(usage.text)}」{display(usage.source)}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isRecorded && words.length > 0 && (
+            <p className="mt-3 border-t border-neutral-700 pt-2 text-[11px] text-neutral-400">
+              {t('dictionary.addedToVocabulary')}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
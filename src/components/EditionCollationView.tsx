@@ -0,0 +1,85 @@
+"use client";
+
+/**
+ * @fileOverview Side-by-side collation of two editions of a chapter
+ *
+ * Left column: the edition being read. Right column: the compared edition.
+ * Readings found only on one side are marked so that variants (異文) stand out.
+ */
+
+import { useMemo, useState } from 'react';
+import type { Chapter, EditionId } from '@/types/chapter';
+import { collateChapters, type CollationSegment } from '@/lib/edition-collation';
+import { getEdition } from '@/lib/editions';
+import { useLanguage } from '@/hooks/useLanguage';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface EditionCollationViewProps {
+  base: Chapter;
+  witness: Chapter;
+  baseEditionId: EditionId;
+  witnessEditionId: EditionId;
+}
+
+const renderSide = (segments: CollationSegment[], side: 'base' | 'witness') =>
+  segments
+    .filter(segment => segment.type === 'equal' || segment.type === (side === 'base' ? 'removed' : 'added'))
+    .map((segment, index) => (segment.type === 'equal'
+      ? <span key={index}>{segment.text}</span>
+      : (
+        <mark
+          key={index}
+          className={cn(
+            "rounded px-0.5",
+            side === 'base' ? "bg-red-200/70 dark:bg-red-900/50" : "bg-green-200/70 dark:bg-green-900/50"
+          )}
+        >
+          {segment.text}
+        </mark>
+      )));
+
+export function EditionCollationView({ base, witness, baseEditionId, witnessEditionId }: EditionCollationViewProps) {
+  const { t } = useLanguage();
+  const [showVariantsOnly, setShowVariantsOnly] = useState(false);
+
+  const collated = useMemo(() => collateChapters(base, witness), [base, witness]);
+  const totalVariants = collated.reduce((sum, paragraph) => sum + paragraph.variantCount, 0);
+  const visible = showVariantsOnly ? collated.filter(paragraph => paragraph.variantCount > 0) : collated;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {t('editions.variantCount').replace('{count}', String(totalVariants))}
+        </p>
+        <Button variant="outline" size="sm" onClick={() => setShowVariantsOnly(value => !value)}>
+          {showVariantsOnly ? t('editions.showAllParagraphs') : t('editions.showVariantsOnly')}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6 border-b border-border pb-2 text-sm font-semibold text-primary">
+        <div>{t(getEdition(baseEditionId).nameKey)}</div>
+        <div>{t(getEdition(witnessEditionId).nameKey)}</div>
+      </div>
+
+      {visible.length === 0 && (
+        <p className="py-8 text-center text-muted-foreground">{t('editions.noVariants')}</p>
+      )}
+
+      {visible.map(paragraph => (
+        <div
+          key={paragraph.paragraphId}
+          className={cn(
+            "grid grid-cols-2 gap-6 py-3 border-b border-border/50 leading-relaxed",
+            paragraph.variantCount > 0 ? "" : "text-muted-foreground"
+          )}
+          data-paragraph-id={paragraph.paragraphId}
+        >
+          <div>{paragraph.baseText ? renderSide(paragraph.segments, 'base') : <em>{t('editions.paragraphMissing')}</em>}</div>
+          <div>{paragraph.witnessText ? renderSide(paragraph.segments, 'witness') : <em>{t('editions.paragraphMissing')}</em>}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
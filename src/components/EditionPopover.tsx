@@ -0,0 +1,144 @@
+"use client";
+
+/**
+ * @fileOverview Toolbar popover for editions and annotation sources
+ *
+ * Lists the editions of the book, marking those without the current chapter,
+ * opens the collation sheet against another edition of the chapter, and
+ * switches the annotation sources shown in the text, with the number of
+ * annotations each has in the chapter.
+ */
+
+import { BookOpen, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useLanguage } from '@/hooks/useLanguage';
+import { ANNOTATION_SOURCES } from '@/lib/annotations';
+import { EDITIONS, getEdition } from '@/lib/editions';
+import { cn } from '@/lib/utils';
+import type { AnnotationSourceId, EditionId } from '@/types/chapter';
+
+interface EditionPopoverProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  editionId: EditionId;
+  /** Editions that have the current chapter */
+  availableEditions: EditionId[];
+  onEditionChange: (editionId: EditionId) => void;
+  /** Open the collation sheet against another edition */
+  onOpenCollation: (editionId: EditionId) => void;
+  enabledAnnotationSources: AnnotationSourceId[];
+  /** Number of annotations of each source in the chapter */
+  annotationCounts: Partial<Record<AnnotationSourceId, number>>;
+  onToggleAnnotationSource: (sourceId: AnnotationSourceId) => void;
+  /** Badge colour of an annotation source, as in the text */
+  getSourceBadgeClass: (sourceId: AnnotationSourceId) => string;
+  triggerClassName?: string;
+  iconClassName?: string;
+  labelClassName?: string;
+}
+
+export function EditionPopover({
+  open,
+  onOpenChange,
+  editionId,
+  availableEditions,
+  onEditionChange,
+  onOpenCollation,
+  enabledAnnotationSources,
+  annotationCounts,
+  onToggleAnnotationSource,
+  getSourceBadgeClass,
+  triggerClassName,
+  iconClassName,
+  labelClassName,
+}: EditionPopoverProps) {
+  const { t } = useLanguage();
+  const otherEditions = availableEditions.filter(id => id !== editionId);
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" className={triggerClassName} title={t('editions.buttonLabel')}>
+          <BookOpen className={iconClassName}/>
+          <span className={labelClassName}>{t(getEdition(editionId).nameKey)}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-80 bg-card text-card-foreground p-4 space-y-4"
+        data-no-selection="true"
+        onClick={(e) => e.stopPropagation()}
+        side="bottom"
+        align="end"
+      >
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium text-foreground">{t('editions.title')}</h4>
+          <p className="text-xs text-muted-foreground">{t('editions.description')}</p>
+        </div>
+        <div className="space-y-2">
+          {EDITIONS.map(edition => {
+            const isAvailable = availableEditions.includes(edition.id);
+            return (
+              <Button
+                key={edition.id}
+                variant={editionId === edition.id ? "default" : "outline"}
+                className="w-full h-auto py-2 flex flex-col items-start text-left whitespace-normal"
+                onClick={() => onEditionChange(edition.id)}
+              >
+                <span className="text-sm font-semibold">
+                  {t(edition.nameKey)}
+                  {!isAvailable && <span className="ml-2 text-xs font-normal opacity-70">{t('editions.notInEdition')}</span>}
+                </span>
+                <span className="text-xs font-normal opacity-80">{t(edition.descriptionKey)}</span>
+              </Button>
+            );
+          })}
+        </div>
+        <div className="space-y-2 border-t border-border pt-3">
+          <h4 className="text-sm font-medium text-foreground">{t('editions.openCollation')}</h4>
+          {otherEditions.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{t('editions.noOtherEdition')}</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {otherEditions.map(id => (
+                <Button key={id} variant="secondary" size="sm" onClick={() => onOpenCollation(id)}>
+                  {t('editions.compareWith')} {t(getEdition(id).nameKey)}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="space-y-2 border-t border-border pt-3">
+          <div className="space-y-1">
+            <h4 className="text-sm font-medium text-foreground">{t('annotations.title')}</h4>
+            <p className="text-xs text-muted-foreground">{t('annotations.description')}</p>
+          </div>
+          {ANNOTATION_SOURCES.map(source => {
+            const isEnabled = enabledAnnotationSources.includes(source.id);
+            return (
+              <Button
+                key={source.id}
+                variant={isEnabled ? "secondary" : "ghost"}
+                className="w-full h-auto py-2 flex items-start justify-between gap-2 text-left whitespace-normal"
+                onClick={() => onToggleAnnotationSource(source.id)}
+                aria-pressed={isEnabled}
+              >
+                <span className="flex flex-col items-start">
+                  <span className="text-sm font-semibold">
+                    <span className={cn("mr-1", getSourceBadgeClass(source.id))}>{t(source.badgeKey)}</span>
+                    {t(source.nameKey)}
+                  </span>
+                  <span className="text-xs font-normal opacity-80">{t(source.descriptionKey)}</span>
+                </span>
+                <span className="flex items-center gap-1 text-xs font-normal opacity-80 shrink-0">
+                  {t('annotations.count').replace('{count}', String(annotationCounts[source.id] ?? 0))}
+                  {isEnabled && <Check className="h-4 w-4" />}
+                </span>
+              </Button>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
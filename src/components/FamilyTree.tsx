@@ -0,0 +1,182 @@
+"use client";
+
+/**
+ * @fileOverview Family tree of one of the four great families
+ *
+ * Draws a layout from `layoutFamilyTree` (src/lib/genealogy.ts) as SVG: one
+ * row per generation with the family's generation names on the left, each
+ * member with their wives (solid line) and concubines (dashed line), lines
+ * from parents down to their children, and the 寧國府 and 榮國府 branches as
+ * labelled bands. People the text does not name are drawn with a dashed
+ * border. Selecting a person, by click or keyboard, calls `onSelectPerson`.
+ */
+
+import type { KeyboardEvent } from 'react';
+import type { FamilyTreeLayout, FamilyTreeNode } from '@/lib/genealogy';
+import type { GenealogyPerson } from '@/types/genealogy';
+import { transformTextForLang } from '@/lib/translations';
+import { useLanguage } from '@/hooks/useLanguage';
+import { cn } from '@/lib/utils';
+
+const NODE_WIDTH = 96;
+const NODE_HEIGHT = 44;
+const COLUMN_WIDTH = 112;
+const ROW_HEIGHT = 120;
+// Space for the generation names on the left and the branch names on top
+const LABEL_WIDTH = 80;
+const HEADER_HEIGHT = 40;
+
+interface FamilyTreeProps {
+  layout: FamilyTreeLayout;
+  selectedPersonId?: string | null;
+  onSelectPerson: (person: GenealogyPerson) => void;
+  className?: string;
+}
+
+export function FamilyTree({ layout, selectedPersonId, onSelectPerson, className }: FamilyTreeProps) {
+  const { t, language } = useLanguage();
+  const display = (text: string) => transformTextForLang(text, language, 'annotation');
+
+  const rows = new Map(layout.generations.map((generation, index) => [generation.generation, index]));
+  const left = (x: number) => LABEL_WIDTH + x * COLUMN_WIDTH;
+  const top = (generation: number) => HEADER_HEIGHT + rows.get(generation)! * ROW_HEIGHT;
+  const nodes = new Map(layout.nodes.map(node => [node.person.id, node]));
+  const width = LABEL_WIDTH + layout.width * COLUMN_WIDTH;
+  const height = HEADER_HEIGHT + layout.generations.length * ROW_HEIGHT;
+
+  const centerX = (node: FamilyTreeNode) => left(node.x) + NODE_WIDTH / 2;
+  const centerY = (node: FamilyTreeNode) => top(node.generation) + NODE_HEIGHT / 2;
+
+  const handleKeyDown = (event: KeyboardEvent, person: GenealogyPerson) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onSelectPerson(person);
+    }
+  };
+
+  return (
+    <div className={cn('overflow-auto', className)}>
+      <svg
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        role="group"
+        aria-label={t('genealogy.treeLabel').replace('{family}', display(layout.family.name))}
+      >
+        {/* Branches of the family */}
+        {layout.branches.map(({ branch, from, to }) => (
+          <g key={branch.id}>
+            <rect
+              x={left(from) - 8}
+              y={4}
+              width={left(to) - left(from) + NODE_WIDTH + 16}
+              height={height - 8}
+              rx={12}
+              className="fill-muted/40 stroke-border"
+            />
+            <text x={left(from)} y={26} className="fill-muted-foreground text-sm font-medium">
+              {display(branch.name)}
+            </text>
+          </g>
+        ))}
+
+        {/* Generation names */}
+        {layout.generations.map(generation => (
+          <text
+            key={generation.generation}
+            x={8}
+            y={top(generation.generation) + NODE_HEIGHT / 2 + 4}
+            className="fill-muted-foreground text-xs"
+          >
+            {generation.name
+              ? display(generation.name)
+              : t('genealogy.generation').replace('{generation}', String(generation.generation))}
+          </text>
+        ))}
+
+        {/* Marriages */}
+        {layout.nodes.filter(node => node.partnerOf).map(node => {
+          const member = nodes.get(node.partnerOf!)!;
+          return (
+            <line
+              key={`${member.person.id}-${node.person.id}`}
+              x1={centerX(member)}
+              y1={centerY(member)}
+              x2={centerX(node)}
+              y2={centerY(node)}
+              strokeWidth={2}
+              strokeDasharray={node.role === 'concubine' ? '6 4' : undefined}
+              className="stroke-primary/60"
+            />
+          );
+        })}
+
+        {/* Parents to children */}
+        {layout.links.map(link => {
+          const parent = nodes.get(link.parent)!;
+          const partner = link.partner ? nodes.get(link.partner) : undefined;
+          const child = nodes.get(link.child)!;
+          const startX = partner ? (centerX(parent) + centerX(partner)) / 2 : centerX(parent);
+          const startY = partner ? centerY(parent) : top(parent.generation) + NODE_HEIGHT;
+          const middleY = top(child.generation) - (ROW_HEIGHT - NODE_HEIGHT) / 2;
+          return (
+            <path
+              key={`${link.parent}-${link.child}`}
+              d={`M ${startX} ${startY} V ${middleY} H ${centerX(child)} V ${top(child.generation)}`}
+              fill="none"
+              strokeWidth={1.5}
+              className="stroke-muted-foreground/60"
+            />
+          );
+        })}
+
+        {/* People */}
+        {layout.nodes.map(node => {
+          const { person } = node;
+          const selected = person.id === selectedPersonId;
+          const subtitle = node.role === 'member'
+            ? person.title
+            : t(`genealogy.roles.${node.role}`);
+          return (
+            <g
+              key={`${node.partnerOf ?? ''}${person.id}`}
+              transform={`translate(${left(node.x)}, ${top(node.generation)})`}
+              role="button"
+              tabIndex={0}
+              aria-label={display(person.name)}
+              aria-pressed={selected}
+              className="cursor-pointer focus:outline-none"
+              onClick={() => onSelectPerson(person)}
+              onKeyDown={event => handleKeyDown(event, person)}
+            >
+              <rect
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx={8}
+                strokeWidth={selected ? 3 : 1.5}
+                strokeDasharray={person.unnamed ? '4 3' : undefined}
+                className={cn(
+                  node.role === 'member' ? 'fill-card stroke-primary' : 'fill-muted stroke-muted-foreground',
+                  selected && 'stroke-accent'
+                )}
+              />
+              <text
+                x={NODE_WIDTH / 2}
+                y={subtitle ? 19 : 27}
+                textAnchor="middle"
+                className={cn('text-sm font-medium', person.unnamed ? 'fill-muted-foreground' : 'fill-foreground')}
+              >
+                {display(person.name)}
+              </text>
+              {subtitle && (
+                <text x={NODE_WIDTH / 2} y={35} textAnchor="middle" className="fill-muted-foreground text-[10px]">
+                  {display(subtitle)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
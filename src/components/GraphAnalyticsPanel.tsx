@@ -0,0 +1,214 @@
+"use client";
+
+/**
+ * @fileOverview Network analysis panel of the knowledge graph view
+ *
+ * Shows the analysis of the graph on screen (`analyseGraphData`,
+ * src/lib/graph-analytics.ts) beside it: entities ranked by degree,
+ * betweenness or eigenvector centrality, the communities found and their
+ * modularity, and the bridges that hold the graph together. Readers can size
+ * and colour the graph's nodes by a measure, or colour them by community,
+ * instead of by category. Selecting an entity highlights it in the graph
+ * like a search. Styled for the light view, or the dark fullscreen view.
+ */
+
+import { useMemo, useState } from 'react';
+import type { GraphAnalytics } from '@/types/graph';
+import {
+  COMMUNITY_COLORS,
+  GRAPH_METRICS,
+  METRIC_COLOR_RANGE,
+  rankNodes,
+  type GraphMetric,
+} from '@/lib/graph-analytics';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+
+const METRIC_LABELS: Record<GraphMetric, string> = {
+  degree: '度中心性',
+  betweenness: '中介中心性',
+  eigenvector: '特徵向量中心性',
+};
+
+// Short labels for the table's columns
+const METRIC_COLUMNS: Record<GraphMetric, string> = {
+  degree: '度',
+  betweenness: '中介',
+  eigenvector: '特徵向量',
+};
+
+// Select value for styling by category, as Select items cannot be null
+const NO_METRIC = 'none';
+
+// Rows of the ranked table; the rest are one scroll away
+const MAX_ROWS = 50;
+
+interface GraphAnalyticsPanelProps {
+  analytics: GraphAnalytics;
+  /** Measure that sizes the nodes; null for the theme's sizes */
+  sizeBy: GraphMetric | null;
+  /** Measure or community that colours the nodes; null for the theme's colours */
+  colorBy: GraphMetric | 'community' | null;
+  onSizeByChange: (metric: GraphMetric | null) => void;
+  onColorByChange: (metric: GraphMetric | 'community' | null) => void;
+  /** Called with the name of the entity chosen in the table */
+  onSelectNode: (name: string) => void;
+  /** Styles the panel for the dark fullscreen view */
+  dark?: boolean;
+  className?: string;
+}
+
+const formatMetric = (metric: GraphMetric, value: number) => (metric === 'degree' ? String(value) : value.toFixed(3));
+
+export function GraphAnalyticsPanel({
+  analytics,
+  sizeBy,
+  colorBy,
+  onSizeByChange,
+  onColorByChange,
+  onSelectNode,
+  dark = false,
+  className,
+}: GraphAnalyticsPanelProps) {
+  const [rankBy, setRankBy] = useState<GraphMetric>('betweenness');
+  const ranked = useMemo(() => rankNodes(analytics, rankBy).slice(0, MAX_ROWS), [analytics, rankBy]);
+  const names = useMemo(() => new Map(analytics.nodes.map(node => [node.id, node.name])), [analytics]);
+  const muted = dark ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div
+      className={cn(
+        'flex flex-col gap-3 rounded-lg p-4 text-xs',
+        dark ? 'bg-black/80 backdrop-blur-sm text-white' : 'bg-white/95 shadow-lg border text-gray-800',
+        className
+      )}
+      aria-label="網絡分析"
+    >
+      <h4 className="font-semibold text-sm">網絡分析</h4>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className={muted}>節點大小</span>
+          <Select
+            value={sizeBy ?? NO_METRIC}
+            onValueChange={value => onSizeByChange(value === NO_METRIC ? null : value as GraphMetric)}
+          >
+            <SelectTrigger className={cn('h-8 text-xs', dark && 'bg-black/60 border-white/20')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_METRIC}>依類別</SelectItem>
+              {GRAPH_METRICS.map(metric => (
+                <SelectItem key={metric} value={metric}>{METRIC_LABELS[metric]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+        <label className="space-y-1">
+          <span className={muted}>節點顏色</span>
+          <Select
+            value={colorBy ?? NO_METRIC}
+            onValueChange={value => onColorByChange(value === NO_METRIC ? null : value as GraphMetric | 'community')}
+          >
+            <SelectTrigger className={cn('h-8 text-xs', dark && 'bg-black/60 border-white/20')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_METRIC}>依類別</SelectItem>
+              {GRAPH_METRICS.map(metric => (
+                <SelectItem key={metric} value={metric}>{METRIC_LABELS[metric]}</SelectItem>
+              ))}
+              <SelectItem value="community">社群</SelectItem>
+            </SelectContent>
+          </Select>
+        </label>
+      </div>
+
+      {colorBy && colorBy !== 'community' && (
+        <div className="flex items-center gap-2">
+          <span className={muted}>低</span>
+          <div
+            className="h-2 flex-1 rounded-full"
+            style={{ background: `linear-gradient(to right, ${METRIC_COLOR_RANGE[0]}, ${METRIC_COLOR_RANGE[1]})` }}
+          />
+          <span className={muted}>高</span>
+        </div>
+      )}
+
+      <div className="max-h-64 overflow-auto">
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow className={cn(dark && 'border-white/20 hover:bg-transparent')}>
+              <TableHead className={cn('h-8 px-2', dark && 'text-gray-400')}>#</TableHead>
+              <TableHead className={cn('h-8 px-2', dark && 'text-gray-400')}>實體</TableHead>
+              {GRAPH_METRICS.map(metric => (
+                <TableHead
+                  key={metric}
+                  className={cn('h-8 px-2 text-right', dark && 'text-gray-400')}
+                  aria-sort={rankBy === metric ? 'descending' : undefined}
+                >
+                  <button
+                    type="button"
+                    onClick={() => setRankBy(metric)}
+                    className={cn('hover:underline', rankBy === metric && 'font-bold', rankBy === metric && (dark ? 'text-white' : 'text-gray-900'))}
+                    title={`依${METRIC_LABELS[metric]}排序`}
+                  >
+                    {METRIC_COLUMNS[metric]}
+                  </button>
+                </TableHead>
+              ))}
+              <TableHead className={cn('h-8 px-2 text-right', dark && 'text-gray-400')}>社群</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ranked.map((node, index) => (
+              <TableRow
+                key={node.id}
+                className={cn('cursor-pointer', dark && 'border-white/10 hover:bg-white/10')}
+                onClick={() => onSelectNode(node.name)}
+              >
+                <TableCell className="px-2 py-1">{index + 1}</TableCell>
+                <TableCell className="px-2 py-1 font-medium">{node.name}</TableCell>
+                {GRAPH_METRICS.map(metric => (
+                  <TableCell key={metric} className="px-2 py-1 text-right tabular-nums">
+                    {formatMetric(metric, node[metric])}
+                  </TableCell>
+                ))}
+                <TableCell className="px-2 py-1 text-right">
+                  <span className="inline-flex items-center gap-1">
+                    <span
+                      className="inline-block w-2 h-2 rounded-full"
+                      style={{ backgroundColor: COMMUNITY_COLORS[node.community % COMMUNITY_COLORS.length] }}
+                    />
+                    {node.community + 1}
+                  </span>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <p className={muted}>
+        社群: {analytics.communities.length}（模組度 {analytics.modularity.toFixed(2)}）
+      </p>
+
+      <div>
+        <h5 className="font-semibold mb-1">橋（關鍵關係）</h5>
+        {analytics.bridges.length === 0 ? (
+          <p className={muted}>沒有單一關係能切斷圖譜</p>
+        ) : (
+          <ul className="space-y-1 max-h-24 overflow-auto">
+            {[...analytics.bridges].sort((a, b) => b.separates - a.separates).map(bridge => (
+              <li key={`${bridge.source}-${bridge.target}`}>
+                {names.get(bridge.source)} — {names.get(bridge.target)}
+                <span className={cn('ml-1', muted)}>（切斷 {bridge.separates} 個實體）</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
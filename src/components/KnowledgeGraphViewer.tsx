@@ -8,12 +8,21 @@
  * Key Features:
  * - D3.js force-directed graph layout with physics simulation
  * - Interactive node dragging, zooming (0.1x to 3x), and panning
- * - Entity categorization with color-coded visual representation
+ * - Entity categorization with color-coded visual representation, typed by the
+ *   entity catalog and styled by a configurable theme (src/lib/graph-theme.ts)
  * - Traditional Chinese color scheme and typography
  * - Smooth animations and transitions for user interactions
  * - Node hover effects and relationship highlighting
  * - Search functionality with visual node highlighting
+ * - Highlighting of a path between two entities from the graph query route
+ * - Export of the graph shown to GraphML, GEXF and CSV, and of the current
+ *   view to SVG or PNG (src/lib/graph-export.ts)
+ * - Network analysis panel ranking entities by centrality, with communities
+ *   and bridges; nodes can be sized or coloured by a measure instead
+ *   (src/lib/graph-analytics.ts)
  * - Expert-validated data from kg-gen DeepSeek processing
+ * - Cumulative mode: chapters 1..N merged, with a timeline slider replaying
+ *   how the network grows chapter by chapter
  * 
  * Technical Implementation:
  * - Uses D3.js v7 for visualization and physics simulation
@@ -33,12 +42,41 @@
 
 "use client";
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import * as d3 from 'd3';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { GraphAnalyticsPanel } from '@/components/GraphAnalyticsPanel';
 import { cn } from '@/lib/utils';
-import { loadChapterGraphData, type KnowledgeGraphData } from '@/lib/knowledgeGraphUtils';
+import { downloadFile } from '@/lib/download';
+import { analyseGraphData, applyMetricStyle, type GraphMetric } from '@/lib/graph-analytics';
+import {
+  exportGraph,
+  exportGraphImage,
+  getGraphExportFileName,
+  graphDataToExportGraph,
+  type GraphExportFormat,
+  type GraphImageFormat
+} from '@/lib/graph-export';
+import { applyGraphTheme, DEFAULT_GRAPH_THEME, type GraphTheme } from '@/lib/graph-theme';
+import {
+  loadChapterGraphData,
+  loadCumulativeGraph,
+  loadGraphEntityCatalog,
+  transformCumulativeGraphToGraphData,
+  type KnowledgeGraphData
+} from '@/lib/knowledgeGraphUtils';
+import type { EntityCatalogJson } from '@/types/entity';
+import type { CumulativeGraph, GraphPath } from '@/types/graph';
 import { 
   Search, 
   RotateCcw, 
@@ -46,7 +84,9 @@ import {
   Pause, 
   ZoomIn, 
   ZoomOut,
-  Info
+  Info,
+  Download,
+  BarChart3
 } from 'lucide-react';
 
 // Chapter 1 Knowledge Graph Data from R.6/R.11 Research (Expert-validated)
@@ -285,6 +325,13 @@ const fallbackGraphData: KnowledgeGraphData = {
   ]
 };
 
+// Links of a highlighted path
+const PATH_HIGHLIGHT_COLOR = '#EAB308';
+
+const endpointId = (end: string | KnowledgeGraphNode) => (typeof end === 'string' ? end : end.id);
+
+const pathLinkKey = (source: string, relation: string, target: string) => [source, relation, target].join('\u0000');
+
 // Component Props Interface
 interface KnowledgeGraphViewerProps {
   className?: string;
@@ -294,6 +341,9 @@ interface KnowledgeGraphViewerProps {
   data?: KnowledgeGraphData;
   fullscreen?: boolean; // New prop for fullscreen mode
   chapterNumber?: number; // Chapter number for dynamic data loading
+  cumulative?: boolean; // Merge chapters 1..chapterNumber and show a timeline slider
+  theme?: GraphTheme; // Node colours, sizes and legend (defaults to DEFAULT_GRAPH_THEME)
+  highlightedPath?: GraphPath | null; // Path from the graph query route to highlight
 }
 
 export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
@@ -303,13 +353,21 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
   onNodeClick,
   data,
   fullscreen = false,
-  chapterNumber = 1
+  chapterNumber = 1,
+  cumulative = false,
+  theme,
+  highlightedPath
 }) => {
   // Data loading and state management
   const [graphData, setGraphData] = useState<KnowledgeGraphData | null>(data || null);
   const [isLoading, setIsLoading] = useState(!data);
   const [error, setError] = useState<string | null>(null);
 
+  // Cumulative mode: the merged graph and the chapter the timeline shows
+  const [cumulativeGraph, setCumulativeGraph] = useState<CumulativeGraph | null>(null);
+  const [entityCatalog, setEntityCatalog] = useState<EntityCatalogJson | undefined>(undefined);
+  const [timelineChapter, setTimelineChapter] = useState(chapterNumber);
+
   // Load data if not provided via props
   useEffect(() => {
     if (data) {
@@ -322,6 +380,15 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
       try {
         setIsLoading(true);
         setError(null);
+        if (cumulative) {
+          const [loadedGraph, catalog] = await Promise.all([loadCumulativeGraph(chapterNumber), loadGraphEntityCatalog()]);
+          setCumulativeGraph(loadedGraph);
+          setEntityCatalog(catalog);
+          setTimelineChapter(loadedGraph.through);
+          setGraphData(transformCumulativeGraphToGraphData(loadedGraph, loadedGraph.through, { catalog }));
+          return;
+        }
+        setCumulativeGraph(null);
         const loadedData = await loadChapterGraphData(chapterNumber);
         setGraphData(loadedData);
       } catch (err) {
@@ -335,7 +402,34 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
     };
 
     loadData();
-  }, [data, chapterNumber]);
+  }, [data, chapterNumber, cumulative]);
+
+  // Replay the cumulative graph up to the chapter chosen on the timeline
+  const changeTimelineChapter = useCallback((chapter: number) => {
+    if (!cumulativeGraph) return;
+    setTimelineChapter(chapter);
+    setGraphData(transformCumulativeGraphToGraphData(cumulativeGraph, chapter, { catalog: entityCatalog }));
+  }, [cumulativeGraph, entityCatalog]);
+
+  // Restyle the graph when a theme is given
+  const graphTheme = theme ?? DEFAULT_GRAPH_THEME;
+  const styledData = useMemo(
+    () => (graphData && theme ? applyGraphTheme(graphData, theme) : graphData),
+    [graphData, theme]
+  );
+
+  // Network analysis, computed once the panel is opened or a measure styles the nodes
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [sizeBy, setSizeBy] = useState<GraphMetric | null>(null);
+  const [colorBy, setColorBy] = useState<GraphMetric | 'community' | null>(null);
+  const analytics = useMemo(
+    () => (graphData && (showAnalytics || sizeBy || colorBy) ? analyseGraphData(graphData) : null),
+    [graphData, showAnalytics, sizeBy, colorBy]
+  );
+  const displayData = useMemo(
+    () => (styledData && analytics && (sizeBy || colorBy) ? applyMetricStyle(styledData, analytics, { sizeBy, colorBy }) : styledData),
+    [styledData, analytics, sizeBy, colorBy]
+  );
 
   // Handle dynamic resize for fullscreen mode
   const [dimensions, setDimensions] = useState({ width, height });
@@ -374,10 +468,14 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
   
   // D3.js zoom behavior
   const zoomBehavior = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const zoomTransform = useRef<string | null>(null);
+
+  // Last position of each node, so nodes stay put as the timeline adds chapters
+  const nodePositions = useRef(new Map<string, { x: number; y: number }>());
 
   // Initialize D3.js visualization
   useEffect(() => {
-    if (!svgRef.current || !graphData) return;
+    if (!svgRef.current || !displayData) return;
 
     const svg = d3.select(svgRef.current);
     svg.selectAll("*").remove(); // Clear previous content
@@ -401,9 +499,18 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
       .attr("stop-color", "#EAB308")
       .attr("stop-opacity", 0.3);
 
+    // Start known nodes where they were
+    displayData.nodes.forEach(d => {
+      const position = nodePositions.current.get(d.id);
+      if (position && d.x === undefined) {
+        d.x = position.x;
+        d.y = position.y;
+      }
+    });
+
     // Create force simulation
-    const simulation = d3.forceSimulation<KnowledgeGraphNode>(graphData.nodes)
-      .force("link", d3.forceLink<KnowledgeGraphNode, KnowledgeGraphLink>(graphData.links)
+    const simulation = d3.forceSimulation<KnowledgeGraphNode>(displayData.nodes)
+      .force("link", d3.forceLink<KnowledgeGraphNode, KnowledgeGraphLink>(displayData.links)
         .id(d => d.id)
         .distance(d => d.distance)
         .strength(d => d.strength * 0.3))
@@ -421,7 +528,7 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
     const link = g.append("g")
       .attr("class", "links")
       .selectAll("line")
-      .data(graphData.links)
+      .data(displayData.links)
       .enter().append("line")
       .attr("stroke", "url(#link-gradient)")
       .attr("stroke-width", d => Math.sqrt(d.strength) * 3)
@@ -432,7 +539,7 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
     const node = g.append("g")
       .attr("class", "nodes")
       .selectAll("g")
-      .data(graphData.nodes)
+      .data(displayData.nodes)
       .enter().append("g")
       .attr("class", "node")
       .style("cursor", "pointer")
@@ -498,7 +605,7 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
         node.select("circle")
           .style("opacity", n => {
             if (n.id === d.id) return 1;
-            return graphData.links.some(l => 
+            return displayData.links.some(l => 
               ((l.source as KnowledgeGraphNode).id === d.id && (l.target as KnowledgeGraphNode).id === n.id) ||
               ((l.target as KnowledgeGraphNode).id === d.id && (l.source as KnowledgeGraphNode).id === n.id)
             ) ? 0.8 : 0.3;
@@ -519,6 +626,7 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
         .attr("y2", d => (d.target as KnowledgeGraphNode).y!);
 
       node.attr("transform", d => `translate(${d.x},${d.y})`);
+      displayData.nodes.forEach(d => nodePositions.current.set(d.id, { x: d.x!, y: d.y! }));
     });
 
     // Setup zoom and pan
@@ -527,17 +635,22 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
       .on("zoom", (event) => {
         const { transform } = event;
         g.attr("transform", transform);
+        zoomTransform.current = transform.toString();
         setZoomLevel(transform.k);
       });
 
     zoomBehavior.current = zoom;
     svg.call(zoom);
+    // Keep the zoom when the graph is redrawn for another chapter
+    if (zoomTransform.current) {
+      g.attr("transform", zoomTransform.current);
+    }
 
     // Cleanup function
     return () => {
       simulation.stop();
     };
-  }, [graphData, dimensions.width, dimensions.height, onNodeClick]);
+  }, [displayData, dimensions.width, dimensions.height, onNodeClick]);
 
   // Search functionality
   useEffect(() => {
@@ -562,6 +675,28 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
     }
   }, [searchTerm]);
 
+  // Highlight a path: its links in gold, other nodes faded
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    const pathNodes = new Set(highlightedPath?.entities);
+    const pathLinks = new Set(highlightedPath?.relationships.flatMap(relationship => [
+      pathLinkKey(relationship.source, relationship.relation, relationship.target),
+      pathLinkKey(relationship.target, relationship.relation, relationship.source)
+    ]));
+    const isOnPath = (d: unknown) => {
+      const link = d as KnowledgeGraphLink;
+      return pathLinks.has(pathLinkKey(endpointId(link.source), link.relationship, endpointId(link.target)));
+    };
+
+    svg.selectAll(".links line")
+      .style("stroke", d => (highlightedPath && isOnPath(d) ? PATH_HIGHLIGHT_COLOR : null))
+      .style("stroke-width", d => (highlightedPath && isOnPath(d) ? 6 : null));
+    svg.selectAll(".node")
+      .style("opacity", d => (!highlightedPath || pathNodes.has((d as KnowledgeGraphNode).id) ? null : 0.3));
+  }, [highlightedPath, displayData]);
+
   // Control functions
   const resetView = useCallback(() => {
     if (!svgRef.current || !zoomBehavior.current) return;
@@ -601,6 +736,54 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
       .call(zoomBehavior.current.scaleBy, 1 / 1.5);
   }, []);
 
+  // Export the graph shown (the timeline's chapters, with the current layout)
+  const exportTitle = cumulativeGraph ? `第一回至第${timelineChapter}回知識圖譜` : `第${chapterNumber}回知識圖譜`;
+  const exportFileName = getGraphExportFileName(cumulativeGraph ? timelineChapter : chapterNumber, !!cumulativeGraph);
+
+  const exportData = useCallback((format: GraphExportFormat) => {
+    if (!displayData) return;
+    downloadFile(exportGraph(graphDataToExportGraph(displayData, exportTitle), format, exportFileName));
+  }, [displayData, exportTitle, exportFileName]);
+
+  // Export an image of the current view, with its zoom, search and path highlighting
+  const exportImage = useCallback(async (format: GraphImageFormat, scale = 1) => {
+    if (!svgRef.current) return;
+    const bounds = svgRef.current.getBoundingClientRect();
+    try {
+      const file = await exportGraphImage(svgRef.current, format, {
+        width: bounds.width || dimensions.width,
+        height: bounds.height || dimensions.height,
+        scale,
+        background: fullscreen ? '#000000' : '#F9FAFB'
+      }, exportFileName);
+      downloadFile(file);
+    } catch (err) {
+      console.error('Failed to export knowledge graph image:', err);
+    }
+  }, [dimensions.width, dimensions.height, fullscreen, exportFileName]);
+
+  const renderExportMenu = (triggerVariant: 'ghost' | 'outline', triggerClassName: string) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant={triggerVariant} size="sm" className={triggerClassName} title="匯出圖譜">
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>匯出資料</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => exportData('graphml')}>GraphML（Gephi、NetworkX）</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportData('gexf')}>GEXF（Gephi）</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportData('csv')}>CSV 節點表與關係表</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>匯出目前畫面</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => exportImage('svg')}>SVG 向量圖</DropdownMenuItem>
+        {[1, 2, 4].map(scale => (
+          <DropdownMenuItem key={scale} onSelect={() => exportImage('png', scale)}>PNG 圖片（{scale}x）</DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
   // Handle loading, error, and empty states
   if (isLoading) {
     return renderLoadingState();
@@ -644,8 +827,52 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
           <Button variant="ghost" size="sm" onClick={resetView} className="text-white hover:bg-white/20 h-8 w-8 p-0">
             <RotateCcw className="h-4 w-4" />
           </Button>
+          {renderExportMenu("ghost", "text-white hover:bg-white/20 h-8 w-8 p-0")}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowAnalytics(!showAnalytics)}
+            className={cn("text-white hover:bg-white/20 h-8 w-8 p-0", showAnalytics && "bg-white/20")}
+            title="網絡分析"
+            aria-pressed={showAnalytics}
+          >
+            <BarChart3 className="h-4 w-4" />
+          </Button>
         </div>
 
+        {/* Floating network analysis for fullscreen */}
+        {showAnalytics && analytics && (
+          <GraphAnalyticsPanel
+            analytics={analytics}
+            sizeBy={sizeBy}
+            colorBy={colorBy}
+            onSizeByChange={setSizeBy}
+            onColorByChange={setColorBy}
+            onSelectNode={setSearchTerm}
+            dark
+            className="absolute top-20 left-6 w-96 max-h-[calc(100%-10rem)] overflow-auto"
+          />
+        )}
+
+        {/* Floating timeline for fullscreen */}
+        {cumulativeGraph && cumulativeGraph.through > 1 && (
+          <div className="absolute top-20 left-1/2 transform -translate-x-1/2 w-96 bg-black/70 backdrop-blur-sm rounded-lg px-4 py-3 text-white text-xs">
+            <div className="flex items-center justify-between mb-2">
+              <span>第1回</span>
+              <span className="font-medium text-sm">第一回至第{timelineChapter}回</span>
+              <span>第{cumulativeGraph.through}回</span>
+            </div>
+            <Slider
+              min={1}
+              max={cumulativeGraph.through}
+              step={1}
+              value={[timelineChapter]}
+              onValueChange={([chapter]) => changeTimelineChapter(chapter)}
+              aria-label="章回時間軸"
+            />
+          </div>
+        )}
+
         {/* Floating search for fullscreen */}
         <div className="absolute top-6 right-6 bg-black/70 backdrop-blur-sm rounded-lg p-2">
           <div className="relative">
@@ -659,32 +886,20 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
           </div>
         </div>
 
-        {/* Floating legend for fullscreen */}
-        <div className="absolute bottom-6 right-6 bg-black/80 backdrop-blur-sm rounded-lg p-4 text-white">
-          <h4 className="font-semibold text-sm mb-3">圖例</h4>
-          <div className="space-y-2 text-xs">
-            <div className="flex items-center space-x-3">
-              <div className="w-3 h-3 rounded-full bg-red-500"></div>
-              <span>神話人物</span>
-            </div>
-            <div className="flex items-center space-x-3">
-              <div className="w-3 h-3 rounded-full bg-green-500"></div>
-              <span>世俗人物</span>
-            </div>
-            <div className="flex items-center space-x-3">
-              <div className="w-3 h-3 rounded-full bg-purple-500"></div>
-              <span>神仙</span>
-            </div>
-            <div className="flex items-center space-x-3">
-              <div className="w-3 h-3 rounded-full bg-yellow-500"></div>
-              <span>神器/文學</span>
-            </div>
-            <div className="flex items-center space-x-3">
-              <div className="w-3 h-3 rounded-full bg-amber-500"></div>
-              <span>地點</span>
+        {/* Floating legend for fullscreen, unless a measure colours the nodes */}
+        {!colorBy && (
+          <div className="absolute bottom-6 right-6 bg-black/80 backdrop-blur-sm rounded-lg p-4 text-white">
+            <h4 className="font-semibold text-sm mb-3">圖例</h4>
+            <div className="space-y-2 text-xs">
+              {graphTheme.legend.map(entry => (
+                <div key={entry.label} className="flex items-center space-x-3">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: graphTheme.categories[entry.category]?.color }}></div>
+                  <span>{entry.label}</span>
+                </div>
+              ))}
             </div>
           </div>
-        </div>
+        )}
 
         {/* Floating node info for fullscreen */}
         {hoveredNode && (
@@ -695,6 +910,10 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
                 <div>
                   <h4 className="font-bold mb-1">{node.name}</h4>
                   <p className="text-sm text-gray-300 mb-1">類型: {node.type}</p>
+                  {node.faction && <p className="text-sm text-gray-300 mb-1">家族/派系: {node.faction}</p>}
+                  {node.chapters && (
+                    <p className="text-sm text-gray-300 mb-1">出現: {node.chapters.length}回（第{node.chapters[0]}回起）</p>
+                  )}
                   <p className="text-xs text-gray-400">{node.description}</p>
                 </div>
               ) : null;
@@ -725,7 +944,9 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
       {/* Header with controls */}
       <div className="flex items-center justify-between p-4 border-b bg-gradient-to-r from-red-600 to-amber-600 text-white rounded-t-lg">
         <div className="flex items-center space-x-4">
-          <h3 className="text-lg font-bold font-serif">第一回 知識圖譜</h3>
+          <h3 className="text-lg font-bold font-serif">
+            {cumulativeGraph ? `第一回至第${timelineChapter}回 知識圖譜` : '第一回 知識圖譜'}
+          </h3>
           <div className="text-sm opacity-90">
             縮放: {zoomLevel.toFixed(1)}x
           </div>
@@ -756,59 +977,92 @@ export const KnowledgeGraphViewer: React.FC<KnowledgeGraphViewerProps> = ({
           <Button variant="outline" size="sm" onClick={resetView} className="bg-white/10 border-white/30 text-white hover:bg-white/20">
             <RotateCcw className="h-4 w-4" />
           </Button>
+          {renderExportMenu("outline", "bg-white/10 border-white/30 text-white hover:bg-white/20")}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowAnalytics(!showAnalytics)}
+            className={cn("bg-white/10 border-white/30 text-white hover:bg-white/20", showAnalytics && "bg-white/30")}
+            title="網絡分析"
+            aria-pressed={showAnalytics}
+          >
+            <BarChart3 className="h-4 w-4" />
+          </Button>
         </div>
       </div>
 
-      {/* Graph container */}
-      <div className="relative flex-1 overflow-hidden">
-        <svg
-          ref={svgRef}
-          width={dimensions.width}
-          height={dimensions.height}
-          className="w-full h-full bg-gradient-to-br from-gray-50 to-gray-100"
-        />
+      {/* Timeline */}
+      {cumulativeGraph && cumulativeGraph.through > 1 && (
+        <div className="flex items-center space-x-3 px-4 py-2 border-b bg-white/80 text-xs text-gray-600">
+          <span>第1回</span>
+          <Slider
+            min={1}
+            max={cumulativeGraph.through}
+            step={1}
+            value={[timelineChapter]}
+            onValueChange={([chapter]) => changeTimelineChapter(chapter)}
+            aria-label="章回時間軸"
+          />
+          <span>第{cumulativeGraph.through}回</span>
+        </div>
+      )}
+
+      {/* Graph container, with the network analysis beside the graph */}
+      <div className="flex flex-1 overflow-hidden">
+        <div className="relative flex-1 overflow-hidden">
+          <svg
+            ref={svgRef}
+            width={dimensions.width}
+            height={dimensions.height}
+            className="w-full h-full bg-gradient-to-br from-gray-50 to-gray-100"
+          />
         
-        {/* Legend */}
-        <div className="absolute top-4 right-4 bg-white/95 rounded-lg p-3 shadow-lg border">
-          <h4 className="font-semibold text-sm mb-2 text-gray-800">圖例</h4>
-          <div className="space-y-1 text-xs">
-            <div className="flex items-center space-x-2">
-              <div className="w-3 h-3 rounded-full bg-red-600"></div>
-              <span>神話人物</span>
-            </div>
-            <div className="flex items-center space-x-2">
-              <div className="w-3 h-3 rounded-full bg-green-600"></div>
-              <span>世俗人物</span>
-            </div>
-            <div className="flex items-center space-x-2">
-              <div className="w-3 h-3 rounded-full bg-purple-600"></div>
-              <span>神仙</span>
+          {/* Legend, unless a measure colours the nodes */}
+          {!colorBy && (
+            <div className="absolute top-4 right-4 bg-white/95 rounded-lg p-3 shadow-lg border">
+              <h4 className="font-semibold text-sm mb-2 text-gray-800">圖例</h4>
+              <div className="space-y-1 text-xs">
+                {graphTheme.legend.map(entry => (
+                  <div key={entry.label} className="flex items-center space-x-2">
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: graphTheme.categories[entry.category]?.color }}></div>
+                    <span>{entry.label}</span>
+                  </div>
+                ))}
+              </div>
             </div>
-            <div className="flex items-center space-x-2">
-              <div className="w-3 h-3 rounded-full bg-yellow-600"></div>
-              <span>神器/文學</span>
-            </div>
-            <div className="flex items-center space-x-2">
-              <div className="w-3 h-3 rounded-full bg-amber-600"></div>
-              <span>地點</span>
+          )}
+
+          {/* Node info panel */}
+          {hoveredNode && (
+            <div className="absolute bottom-4 left-4 bg-white/95 rounded-lg p-4 shadow-lg border max-w-xs">
+              {(() => {
+                const node = graphData?.nodes.find(n => n.id === hoveredNode);
+                return node ? (
+                  <div>
+                    <h4 className="font-bold text-gray-800 mb-1">{node.name}</h4>
+                    <p className="text-sm text-gray-600 mb-1">類型: {node.type}</p>
+                    {node.faction && <p className="text-sm text-gray-600 mb-1">家族/派系: {node.faction}</p>}
+                    {node.chapters && (
+                      <p className="text-sm text-gray-600 mb-1">出現: {node.chapters.length}回（第{node.chapters[0]}回起）</p>
+                    )}
+                    <p className="text-xs text-gray-500">{node.description}</p>
+                  </div>
+                ) : null;
+              })()}
             </div>
-          </div>
+          )}
         </div>
 
-        {/* Node info panel */}
-        {hoveredNode && (
-          <div className="absolute bottom-4 left-4 bg-white/95 rounded-lg p-4 shadow-lg border max-w-xs">
-            {(() => {
-              const node = graphData?.nodes.find(n => n.id === hoveredNode);
-              return node ? (
-                <div>
-                  <h4 className="font-bold text-gray-800 mb-1">{node.name}</h4>
-                  <p className="text-sm text-gray-600 mb-1">類型: {node.type}</p>
-                  <p className="text-xs text-gray-500">{node.description}</p>
-                </div>
-              ) : null;
-            })()}
-          </div>
+        {showAnalytics && analytics && (
+          <GraphAnalyticsPanel
+            analytics={analytics}
+            sizeBy={sizeBy}
+            colorBy={colorBy}
+            onSizeByChange={setSizeBy}
+            onColorByChange={setColorBy}
+            onSelectNode={setSearchTerm}
+            className="w-96 shrink-0 overflow-auto rounded-none border-0 border-l shadow-none"
+          />
         )}
       </div>
 
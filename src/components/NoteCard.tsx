@@ -10,6 +10,7 @@ import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Trash2, Edit2, Save, X, Share2, Tag } from 'lucide-react';
 import { useLanguage } from '@/hooks/useLanguage';
+import { transformTextForLang } from '@/lib/translations';
 
 interface NoteCardProps {
   note: Note;
@@ -28,7 +29,7 @@ export function NoteCard({
   onUpdateTags,
   showUserInfo = false
 }: NoteCardProps) {
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState(note.note);
   const [isEditingTags, setIsEditingTags] = useState(false);
@@ -132,7 +133,7 @@ export function NoteCard({
       <CardContent className="space-y-3">
         {/* Selected Text */}
         <blockquote className="border-l-4 border-primary pl-3 py-2 bg-muted/30 rounded-r">
-          <p className="text-sm italic text-muted-foreground">{note.selectedText}</p>
+          <p className="text-sm italic text-muted-foreground">{transformTextForLang(note.selectedText, language, 'original')}</p>
         </blockquote>
 
         {/* Note Content */}
@@ -146,7 +147,7 @@ export function NoteCard({
               placeholder={t('notes.enterNote')}
             />
           ) : (
-            <p className="text-sm whitespace-pre-wrap">{note.note}</p>
+            <p className="text-sm whitespace-pre-wrap">{transformTextForLang(note.note, language, 'annotation')}</p>
           )}
         </div>
 
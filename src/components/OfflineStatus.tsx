@@ -0,0 +1,92 @@
+"use client";
+
+/**
+ * @fileOverview Toolbar entry for offline reading
+ *
+ * Online, a button saves the chapter on screen, with its annotations and
+ * knowledge graph, for reading without a connection; offline, it is replaced
+ * by an indicator with the number of notes, highlights and XP awards waiting
+ * to be synced by `useOfflineSync`.
+ */
+
+import { useState } from 'react';
+import { Download, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import { saveChapterForOffline } from '@/lib/offline-cache';
+import type { EditionId } from '@/types/chapter';
+
+interface OfflineStatusProps {
+  isOnline: boolean;
+  /** Writes queued while offline */
+  pendingCount: number;
+  chapterId: number;
+  editionId: EditionId;
+  /** Display title of the chapter, shown once it is saved */
+  chapterTitle: string;
+  /** Whether the chapter can be saved yet (its text has loaded) */
+  canSave: boolean;
+  onInteraction: () => void;
+  className?: string;
+  iconClassName?: string;
+  labelClassName?: string;
+}
+
+export function OfflineStatus({
+  isOnline,
+  pendingCount,
+  chapterId,
+  editionId,
+  chapterTitle,
+  canSave,
+  onInteraction,
+  className,
+  iconClassName,
+  labelClassName,
+}: OfflineStatusProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    onInteraction();
+    setIsSaving(true);
+    try {
+      await saveChapterForOffline(chapterId, editionId);
+      toast({
+        title: t('offline.saveChapter'),
+        description: t('offline.chapterSaved').replace('{title}', chapterTitle),
+      });
+    } catch (error) {
+      console.error('Failed to save chapter for offline reading:', error);
+      toast({ title: t('Error'), description: t('offline.chapterSaveFailed'), variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOnline) {
+    return (
+      <div className={className} title={t('offline.offlineHint')} role="status">
+        <WifiOff className={iconClassName}/>
+        <span className={labelClassName}>
+          {t('offline.offline')}{pendingCount > 0 && ` · ${t('offline.pending').replace('{count}', String(pendingCount))}`}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      className={className}
+      onClick={handleSave}
+      disabled={isSaving || !canSave}
+      title={t('offline.saveChapterHint')}
+    >
+      <Download className={iconClassName}/>
+      <span className={labelClassName}>{t('offline.saveChapter')}</span>
+    </Button>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+/**
+ * @fileOverview Read-aloud button and player of the reading page
+ *
+ * The floating button plays the chapter, or pauses and resumes it; once
+ * playback has started, `ReadAloudPlayer` shows the controls and caption.
+ * Playback is driven by `useChapterReadAloud`.
+ */
+
+import { Button } from '@/components/ui/button';
+import { ReadAloudPlayer } from '@/components/ReadAloudPlayer';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { ChapterReadAloud } from '@/hooks/useChapterReadAloud';
+import { cn } from '@/lib/utils';
+
+interface ReadAloudControlsProps {
+  chapterReadAloud: ChapterReadAloud;
+  /** Called on every click, to keep the toolbar visible */
+  onInteraction: () => void;
+}
+
+export function ReadAloudControls({ chapterReadAloud, onInteraction }: ReadAloudControlsProps) {
+  const { t } = useLanguage();
+  const { readAloud, isPlayerOpen, source, togglePlayback, changeSource, closePlayer } = chapterReadAloud;
+  const isPlaying = readAloud.state.status === 'playing';
+
+  const handlePlayPause = () => {
+    togglePlayback();
+    onInteraction();
+  };
+
+  return (
+    <>
+      <Button
+        variant="default"
+        className="fixed bottom-8 right-8 h-14 w-14 rounded-full shadow-lg z-40 bg-primary text-primary-foreground hover:bg-primary/90 p-0 flex items-center justify-center"
+        onClick={handlePlayPause}
+        title={isPlaying ? t('readAloud.pause') : t('buttons.readAloud')}
+        data-no-selection="true"
+      >
+        <i className={cn("fa text-[54px]", isPlaying ? "fa-pause-circle-o" : "fa-play-circle-o")} aria-hidden="true"></i>
+      </Button>
+
+      {isPlayerOpen && (
+        <ReadAloudPlayer
+          status={readAloud.state.status}
+          rate={readAloud.state.rate}
+          source={source}
+          caption={readAloud.currentSentence?.text ?? null}
+          onPlayPause={handlePlayPause}
+          onStop={readAloud.stop}
+          onRateChange={readAloud.setRate}
+          onSourceChange={changeSource}
+          onClose={closePlayer}
+        />
+      )}
+    </>
+  );
+}
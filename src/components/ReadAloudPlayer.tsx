@@ -0,0 +1,117 @@
+"use client";
+
+/**
+ * @fileOverview Floating playback bar for the read-aloud engine
+ *
+ * Shows play/pause/stop, playback speed, the text source (original or
+ * vernacular) and a caption of the sentence being spoken. Playback itself is
+ * driven by `useChapterReadAloud` in the reading page.
+ */
+
+import { Pause, Play, Square, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/hooks/useLanguage';
+import { READ_ALOUD_RATES, type ReadAloudSource, type ReadAloudStatus } from '@/lib/read-aloud-service';
+import { cn } from '@/lib/utils';
+
+interface ReadAloudPlayerProps {
+  status: ReadAloudStatus;
+  rate: number;
+  source: ReadAloudSource;
+  /** Sentence currently being spoken */
+  caption: string | null;
+  onPlayPause: () => void;
+  onStop: () => void;
+  onRateChange: (rate: number) => void;
+  onSourceChange: (source: ReadAloudSource) => void;
+  onClose: () => void;
+}
+
+export function ReadAloudPlayer({
+  status,
+  rate,
+  source,
+  caption,
+  onPlayPause,
+  onStop,
+  onRateChange,
+  onSourceChange,
+  onClose,
+}: ReadAloudPlayerProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-[min(92vw,40rem)] rounded-lg border border-border bg-card/95 backdrop-blur-md shadow-xl p-3 space-y-2 text-card-foreground"
+      data-no-selection="true"
+      onClick={(e) => e.stopPropagation()}
+      role="region"
+      aria-label={t('readAloud.playerLabel')}
+    >
+      <div className="flex items-center gap-2">
+        <Button
+          size="icon"
+          className="h-9 w-9 rounded-full"
+          onClick={onPlayPause}
+          title={status === 'playing' ? t('readAloud.pause') : t('readAloud.play')}
+          aria-label={status === 'playing' ? t('readAloud.pause') : t('readAloud.play')}
+        >
+          {status === 'playing' ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button
+          size="icon"
+          variant="outline"
+          className="h-9 w-9 rounded-full"
+          onClick={onStop}
+          disabled={status === 'idle'}
+          title={t('readAloud.stop')}
+          aria-label={t('readAloud.stop')}
+        >
+          <Square className="h-4 w-4" />
+        </Button>
+
+        <div className="flex items-center gap-1 ml-2" aria-label={t('readAloud.speed')}>
+          {READ_ALOUD_RATES.map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={rate === option ? 'default' : 'ghost'}
+              className="h-8 px-2 text-xs"
+              onClick={() => onRateChange(option)}
+            >
+              {option}×
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1 ml-auto">
+          {(['original', 'vernacular'] as const).map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={source === option ? 'secondary' : 'ghost'}
+              className="h-8 px-2 text-xs"
+              onClick={() => onSourceChange(option)}
+            >
+              {t(option === 'original' ? 'readAloud.sourceOriginal' : 'readAloud.sourceVernacular')}
+            </Button>
+          ))}
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            onClick={onClose}
+            title={t('buttons.close')}
+            aria-label={t('buttons.close')}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <p className={cn("text-sm leading-relaxed line-clamp-2 min-h-[2.5rem]", !caption && "text-muted-foreground")}>
+        {caption ?? t('readAloud.idleHint')}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+/**
+ * @fileOverview Ruby section of the reading settings
+ *
+ * Lets the reader show pinyin or zhuyin above the text, and, once ruby is on,
+ * choose the lowest difficulty level annotated. Settings are kept by
+ * `useRubySettings`.
+ */
+
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/hooks/useLanguage';
+import { READING_LEVELS } from '@/lib/character-readings';
+import { RUBY_MODES, type RubySettings } from '@/lib/ruby-annotation';
+import { cn } from '@/lib/utils';
+
+interface RubySettingsPanelProps {
+  settings: RubySettings;
+  onChange: (changes: Partial<RubySettings>) => void;
+}
+
+export function RubySettingsPanel({ settings, onChange }: RubySettingsPanelProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium text-foreground">{t('ruby.title')}</h4>
+      <div className="grid grid-cols-3 gap-2">
+        {RUBY_MODES.map(mode => (
+          <Button
+            key={mode}
+            variant={settings.mode === mode ? "default" : "outline"}
+            onClick={() => onChange({ mode })}
+            className={cn("w-full h-9 text-sm justify-center", settings.mode === mode ? "border-primary bg-primary text-primary-foreground" : "border-input bg-background/70 hover:bg-accent/50")}
+          >
+            {t(`ruby.modes.${mode}`)}
+          </Button>
+        ))}
+      </div>
+      {settings.mode !== 'off' && (
+        <div className="space-y-1.5">
+          <div className="text-xs text-muted-foreground">{t('ruby.levelLabel')}</div>
+          <div className="grid grid-cols-4 gap-1.5">
+            {READING_LEVELS.map(level => (
+              <Button
+                key={level}
+                variant={settings.minLevel === level ? "default" : "outline"}
+                size="sm"
+                onClick={() => onChange({ minLevel: level })}
+                className="h-8 px-1 text-xs"
+                title={t(`ruby.levelHints.${level}`)}
+              >
+                {t(`ruby.levels.${level}`)}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
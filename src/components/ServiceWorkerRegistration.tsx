@@ -0,0 +1,24 @@
+/**
+ * @fileOverview Registers the offline-reading service worker
+ *
+ * Renders nothing. The worker (`public/sw.js`) is only registered in
+ * production builds: in development it would serve stale bundles from its
+ * cache across hot reloads.
+ */
+
+"use client";
+
+import { useEffect } from 'react';
+import { isOfflineCacheSupported, SERVICE_WORKER_URL } from '@/lib/offline-cache';
+
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !isOfflineCacheSupported()) return;
+
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
+  }, []);
+
+  return null;
+}
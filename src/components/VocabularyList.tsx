@@ -0,0 +1,63 @@
+"use client";
+
+import { VocabularyEntry } from '@/lib/vocabulary-service';
+import { formatPinyin } from '@/lib/dictionary';
+import { transformTextForLang } from '@/lib/translations';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { BookA, X } from 'lucide-react';
+import { useLanguage } from '@/hooks/useLanguage';
+
+interface VocabularyListProps {
+  entries: VocabularyEntry[];
+  onRemove: (word: string) => void;
+}
+
+export function VocabularyList({ entries, onRemove }: VocabularyListProps) {
+  const { t, language } = useLanguage();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <BookA className="h-5 w-5 text-primary" />
+          {t('dictionary.vocabularyTitle')}
+        </CardTitle>
+        <CardDescription>{t('dictionary.vocabularyDesc')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('dictionary.vocabularyEmpty')}</p>
+        ) : (
+          <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {entries.map(entry => (
+              <li key={entry.word} className="relative rounded-md border border-border p-3 pr-9">
+                <div className="flex items-baseline gap-2">
+                  <span className="text-lg font-semibold">{language === 'zh-CN' ? entry.simplified : entry.word}</span>
+                  <span className="text-sm text-muted-foreground">{formatPinyin(entry.pinyin)}</span>
+                </div>
+                <p className="text-sm">
+                  {language === 'zh-CN' ? transformTextForLang(entry.definition, language, 'annotation') : entry.definition}
+                </p>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {t('dictionary.lookupCount').replace('{count}', String(entry.lookupCount))}
+                  {entry.chapterId && ` · ${t('dictionary.chapterLabel').replace('{chapter}', String(entry.chapterId))}`}
+                </p>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="absolute right-1 top-1 h-7 w-7"
+                  onClick={() => onRemove(entry.word)}
+                  title={t('dictionary.remove')}
+                  aria-label={t('dictionary.remove')}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -33,6 +33,8 @@ import {
   Users,
   Trophy,
   ChevronDown,
+  Feather,
+  Network,
 } from "lucide-react";
 
 import {
@@ -92,6 +94,8 @@ export function AppShell({ children }: { children: ReactNode }) {
   const navItems = [
     { href: "/dashboard", labelKey: "sidebar.home", icon: LayoutDashboard },
     { href: "/read", labelKey: "sidebar.read", icon: BookOpen },
+    { href: "/poetry", labelKey: "sidebar.poetry", icon: Feather },
+    { href: "/genealogy", labelKey: "sidebar.genealogy", icon: Network },
     { href: "/achievements", labelKey: "sidebar.achievements", icon: Trophy },
     { href: "/community", labelKey: "sidebar.community", icon: Users },
   ];
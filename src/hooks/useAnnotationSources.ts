@@ -0,0 +1,50 @@
+/**
+ * @fileOverview Annotation sources shown on the reading page, kept across visits.
+ *
+ * Every source (editorial notes, 脂批, scholarship) is shown until the reader
+ * switches it off; the choice is restored from and saved to localStorage.
+ *
+ * Usage: const { enabledAnnotationSources, toggleAnnotationSource } = useAnnotationSources();
+ */
+
+"use client";
+
+import { useEffect, useState } from 'react';
+import { ANNOTATION_SOURCES, isAnnotationSourceId } from '@/lib/annotations';
+import type { AnnotationSourceId } from '@/types/chapter';
+
+const ANNOTATION_SOURCES_STORAGE_KEY = 'redmansion_annotation_sources_v1';
+
+export function useAnnotationSources() {
+  const [enabledAnnotationSources, setEnabledAnnotationSources] = useState<AnnotationSourceId[]>(
+    () => ANNOTATION_SOURCES.map(source => source.id)
+  );
+
+  // Restore the annotation sources the reader switched on last time
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(ANNOTATION_SOURCES_STORAGE_KEY);
+      const parsed: unknown = stored ? JSON.parse(stored) : null;
+      if (Array.isArray(parsed)) {
+        setEnabledAnnotationSources(parsed.filter(isAnnotationSourceId));
+      }
+    } catch (error) {
+      console.error('Failed to restore annotation sources:', error);
+    }
+  }, []);
+
+  // Sources stay in the order of ANNOTATION_SOURCES
+  const toggleAnnotationSource = (sourceId: AnnotationSourceId) => {
+    const next = enabledAnnotationSources.includes(sourceId)
+      ? enabledAnnotationSources.filter(id => id !== sourceId)
+      : ANNOTATION_SOURCES.map(source => source.id).filter(id => id === sourceId || enabledAnnotationSources.includes(id));
+    setEnabledAnnotationSources(next);
+    try {
+      localStorage.setItem(ANNOTATION_SOURCES_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Failed to save annotation sources:', error);
+    }
+  };
+
+  return { enabledAnnotationSources, toggleAnnotationSource };
+}
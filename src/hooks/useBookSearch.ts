@@ -0,0 +1,81 @@
+/**
+ * @fileOverview State of the reading page's whole-book search.
+ *
+ * Holds the search popover's query and searches the whole book shortly after
+ * typing stops, plus the result the reader picked, which waits until its
+ * chapter has rendered before the page scrolls to it.
+ *
+ * Usage: const search = useBookSearch(editionId); <BookSearchPopover search={search} ... />
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { searchBook, type SearchResult } from '@/lib/chapter-search';
+import type { EditionId } from '@/types/chapter';
+
+export type BookSearchState = 'idle' | 'searching' | 'done' | 'error';
+
+// Delay between the last keystroke and the search request
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * @param editionId - Edition whose text is searched
+ */
+export function useBookSearch(editionId: EditionId) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [term, setTerm] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [state, setState] = useState<BookSearchState>('idle');
+  const [pendingJump, setPendingJump] = useState<SearchResult | null>(null);
+
+  useEffect(() => {
+    const query = term.trim();
+    if (!isOpen || !query) {
+      setResults([]);
+      setTotal(0);
+      setState('idle');
+      return;
+    }
+    let cancelled = false;
+    setState('searching');
+    const timeout = setTimeout(() => {
+      searchBook(query, editionId)
+        .then(response => {
+          if (cancelled) return;
+          setResults(response.results);
+          setTotal(response.total);
+          setState('done');
+        })
+        .catch(error => {
+          if (cancelled) return;
+          console.error('Whole-book search failed:', error);
+          setState('error');
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [term, isOpen, editionId]);
+
+  const clearPendingJump = useCallback(() => setPendingJump(null), []);
+
+  return {
+    isOpen,
+    setIsOpen,
+    term,
+    setTerm,
+    results,
+    total,
+    state,
+    /** Result to scroll to once its chapter is on screen */
+    pendingJump,
+    jumpTo: setPendingJump,
+    clearPendingJump,
+  };
+}
+
+export type BookSearch = ReturnType<typeof useBookSearch>;
@@ -0,0 +1,125 @@
+/**
+ * @fileOverview Read-aloud of the chapter on the reading page.
+ *
+ * Builds on `useReadAloud`: plays the chapter, one paragraph or a selected
+ * text, in the original or the vernacular, and keeps the sentence being
+ * spoken on screen. Chinese text is spoken with a Mandarin voice in every UI
+ * language. Playback stops when the chapter or edition changes.
+ *
+ * Usage: const chapterReadAloud = useChapterReadAloud(chapter, isChapterReady, editionId);
+ */
+
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useReadAloud } from '@/hooks/useReadAloud';
+import { getParagraphText } from '@/lib/chapter-loader';
+import {
+  buildReadAloudQueue,
+  splitIntoSentences,
+  type ReadAloudSentence,
+  type ReadAloudSource,
+} from '@/lib/read-aloud-service';
+import type { Chapter, EditionId } from '@/types/chapter';
+
+/**
+ * @param chapter - Chapter on screen
+ * @param isChapterReady - Whether the chapter's text has loaded
+ * @param editionId - Edition being read
+ */
+export function useChapterReadAloud(chapter: Chapter, isChapterReady: boolean, editionId: EditionId) {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const readAloud = useReadAloud(language === 'zh-CN' ? 'zh-CN' : 'zh-TW');
+  const [isPlayerOpen, setIsPlayerOpen] = useState(false);
+  const [source, setSource] = useState<ReadAloudSource>('original');
+
+  const start = (queue: ReadAloudSentence[], startIndex = 0) => {
+    if (!readAloud.isSupported) {
+      toast({ title: t('readAloud.unsupported'), variant: 'destructive' });
+      return;
+    }
+    if (queue.length === 0) {
+      toast({ title: t('readAloud.noVernacular') });
+      return;
+    }
+    setIsPlayerOpen(true);
+    readAloud.play(queue, startIndex);
+  };
+
+  const readChapter = (fromParagraphId?: string, queueSource: ReadAloudSource = source) => {
+    if (!isChapterReady) return;
+    const queue = buildReadAloudQueue(chapter.paragraphs, queueSource);
+    const startIndex = fromParagraphId ? Math.max(0, queue.findIndex(s => s.paragraphId === fromParagraphId)) : 0;
+    start(queue, startIndex);
+  };
+
+  const readParagraph = (paragraphId: string) => {
+    const paragraph = chapter.paragraphs.find(p => p.id === paragraphId);
+    if (paragraph) start(buildReadAloudQueue([paragraph], source));
+  };
+
+  // When the text lies inside one paragraph, keep paragraph offsets so the
+  // spoken sentence is highlighted in place
+  const readText = (text: string) => {
+    const paragraph = chapter.paragraphs.find(p => getParagraphText(p).includes(text));
+    const offset = paragraph ? getParagraphText(paragraph).indexOf(text) : 0;
+    start(splitIntoSentences(text).map(sentence => ({
+      paragraphId: paragraph?.id ?? 'selection',
+      text: sentence.text,
+      start: sentence.start + offset,
+      end: sentence.end + offset,
+    })));
+  };
+
+  // Play the chapter, or pause and resume what is playing
+  const togglePlayback = () => {
+    if (readAloud.state.status === 'playing') {
+      readAloud.pause();
+    } else if (readAloud.state.status === 'paused') {
+      readAloud.resume();
+    } else {
+      readChapter();
+    }
+  };
+
+  const changeSource = (nextSource: ReadAloudSource) => {
+    setSource(nextSource);
+    // Restart from the paragraph being read so the switch is audible right away
+    if (readAloud.state.status !== 'idle') {
+      readChapter(readAloud.currentSentence?.paragraphId, nextSource);
+    }
+  };
+
+  const closePlayer = () => {
+    readAloud.stop();
+    setIsPlayerOpen(false);
+  };
+
+  useEffect(() => {
+    readAloud.stop();
+  }, [chapter.id, editionId, readAloud.stop]);
+
+  // Keep the spoken sentence on screen
+  useEffect(() => {
+    if (!readAloud.currentSentence) return;
+    document.querySelector('[data-read-aloud-active="true"]')?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [readAloud.currentSentence]);
+
+  return {
+    readAloud,
+    isPlayerOpen,
+    source,
+    /** Sentence being spoken in the original text, highlighted in place */
+    spokenSentence: source === 'original' ? readAloud.currentSentence : null,
+    readParagraph,
+    readText,
+    togglePlayback,
+    changeSource,
+    closePlayer,
+  };
+}
+
+export type ChapterReadAloud = ReturnType<typeof useChapterReadAloud>;
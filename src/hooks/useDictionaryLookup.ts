@@ -0,0 +1,63 @@
+/**
+ * @fileOverview Dictionary lookup of the reading page's selection.
+ *
+ * Looks the selected text up in the built-in dictionary and, for a signed-in
+ * reader, adds every word found to their vocabulary list. The lookup belongs
+ * to the selection it was made for: a lookup that finishes after the reader
+ * selected something else is dropped.
+ *
+ * Usage: const { dictionaryLookup, toggleLookup, closeLookup } = useDictionaryLookup(userId, chapterId);
+ */
+
+"use client";
+
+import { useCallback, useState } from 'react';
+import { getLookedUpEntries, loadDictionary, lookupSelection } from '@/lib/dictionary';
+import { recordLookup } from '@/lib/vocabulary-service';
+import type { DictionarySegment } from '@/types/dictionary';
+
+export interface DictionaryLookup {
+  text: string;
+  /** The text split into dictionary words; null while the dictionary loads */
+  segments: DictionarySegment[] | null;
+  hasError: boolean;
+  /** Whether the words found were added to the vocabulary list */
+  isRecorded: boolean;
+}
+
+/**
+ * @param userId - Signed-in reader whose vocabulary list records the words, if any
+ * @param chapterId - Chapter the words were looked up in
+ */
+export function useDictionaryLookup(userId: string | null, chapterId: number) {
+  const [dictionaryLookup, setDictionaryLookup] = useState<DictionaryLookup | null>(null);
+
+  // Look the text up, or close the lookup already open for it
+  const toggleLookup = async (text: string) => {
+    if (dictionaryLookup?.text === text) {
+      setDictionaryLookup(null);
+      return;
+    }
+    setDictionaryLookup({ text, segments: null, hasError: false, isRecorded: false });
+    try {
+      const segments = lookupSelection(await loadDictionary(), text);
+      const words = getLookedUpEntries(segments);
+      setDictionaryLookup(current => (current?.text === text
+        ? { ...current, segments, isRecorded: !!userId && words.length > 0 }
+        : current));
+      if (userId) {
+        for (const entry of words) {
+          recordLookup(userId, entry, { chapterId, selectedText: text })
+            .catch(error => console.error('Error recording dictionary lookup:', error));
+        }
+      }
+    } catch (error) {
+      console.error('Error looking up selection in dictionary:', error);
+      setDictionaryLookup(current => (current?.text === text ? { ...current, hasError: true } : current));
+    }
+  };
+
+  const closeLookup = useCallback(() => setDictionaryLookup(null), []);
+
+  return { dictionaryLookup, toggleLookup, closeLookup };
+}
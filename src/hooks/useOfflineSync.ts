@@ -0,0 +1,60 @@
+/**
+ * @fileOverview React binding for the offline write queue.
+ *
+ * Tracks whether the browser is online and how many writes are waiting, and
+ * replays the queue whenever connectivity returns (and once on mount, for
+ * writes left over from an earlier visit).
+ *
+ * Usage: const { isOnline, pendingCount, refreshPendingCount } = useOfflineSync(result => ...);
+ */
+
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getQueuedWriteCount, isOffline, replayQueuedWrites, type ReplayResult } from '@/lib/offline-sync';
+
+/**
+ * @param onReplayed - Called after a replay that settled at least one write
+ */
+export function useOfflineSync(onReplayed?: (result: ReplayResult) => void) {
+  const [isOnline, setIsOnline] = useState(true);
+  const [pendingCount, setPendingCount] = useState(0);
+  const onReplayedRef = useRef(onReplayed);
+  onReplayedRef.current = onReplayed;
+
+  const refreshPendingCount = useCallback(() => setPendingCount(getQueuedWriteCount()), []);
+
+  const replay = useCallback(async () => {
+    if (isOffline() || getQueuedWriteCount() === 0) return;
+    try {
+      const result = await replayQueuedWrites();
+      if (result.replayed > 0 || result.failed > 0) {
+        onReplayedRef.current?.(result);
+      }
+    } catch (error) {
+      console.error('Failed to replay offline writes:', error);
+    } finally {
+      setPendingCount(getQueuedWriteCount());
+    }
+  }, []);
+
+  useEffect(() => {
+    setIsOnline(!isOffline());
+    refreshPendingCount();
+    replay();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      replay();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [refreshPendingCount, replay]);
+
+  return { isOnline, pendingCount, refreshPendingCount };
+}
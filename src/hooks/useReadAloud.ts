@@ -0,0 +1,62 @@
+/**
+ * @fileOverview React binding for the read-aloud engine.
+ *
+ * Owns one `ReadAloudEngine` per component, mirrors its state into React and
+ * stops playback on unmount. The speech provider defaults to the browser's
+ * speech synthesis and can be swapped (e.g. for a fake in tests).
+ *
+ * Usage: const { state, currentSentence, play, pause, resume, stop, setRate } = useReadAloud();
+ */
+
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  BrowserSpeechProvider,
+  ReadAloudEngine,
+  type ReadAloudSentence,
+  type ReadAloudState,
+  type SpeechProvider,
+} from '@/lib/read-aloud-service';
+
+/**
+ * @param lang - BCP 47 language for speech, e.g. `zh-TW`
+ * @param provider - Speech backend; defaults to `BrowserSpeechProvider`
+ */
+export function useReadAloud(lang: string, provider?: SpeechProvider) {
+  const engineRef = useRef<ReadAloudEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = new ReadAloudEngine(provider ?? new BrowserSpeechProvider());
+  }
+  const engine = engineRef.current;
+  const [state, setState] = useState<ReadAloudState>(() => engine.getState());
+
+  useEffect(() => {
+    const unsubscribe = engine.subscribe(setState);
+    return () => {
+      unsubscribe();
+      engine.stop();
+    };
+  }, [engine]);
+
+  useEffect(() => {
+    engine.setLanguage(lang);
+  }, [engine, lang]);
+
+  const play = useCallback((queue: ReadAloudSentence[], startIndex = 0) => engine.play(queue, startIndex), [engine]);
+  const pause = useCallback(() => engine.pause(), [engine]);
+  const resume = useCallback(() => engine.resume(), [engine]);
+  const stop = useCallback(() => engine.stop(), [engine]);
+  const setRate = useCallback((rate: number) => engine.setRate(rate), [engine]);
+
+  return {
+    state,
+    currentSentence: state.currentIndex >= 0 ? state.queue[state.currentIndex] : null,
+    isSupported: engine.isSupported(),
+    play,
+    pause,
+    resume,
+    stop,
+    setRate,
+  };
+}
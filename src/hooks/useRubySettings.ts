@@ -0,0 +1,43 @@
+/**
+ * @fileOverview Ruby settings of the reading page, kept across visits.
+ *
+ * Holds the ruby mode (off, pinyin or zhuyin) and the lowest reading level
+ * that gets a reading, restored from and saved to localStorage.
+ *
+ * Usage: const { rubySettings, changeRubySettings } = useRubySettings();
+ */
+
+"use client";
+
+import { useEffect, useState } from 'react';
+import { DEFAULT_RUBY_SETTINGS, normalizeRubySettings, type RubySettings } from '@/lib/ruby-annotation';
+
+const RUBY_SETTINGS_STORAGE_KEY = 'redmansion_ruby_settings_v1';
+
+export function useRubySettings() {
+  const [rubySettings, setRubySettings] = useState<RubySettings>(DEFAULT_RUBY_SETTINGS);
+
+  // Restore the ruby mode the reader chose last time
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(RUBY_SETTINGS_STORAGE_KEY);
+      if (stored) {
+        setRubySettings(normalizeRubySettings(JSON.parse(stored)));
+      }
+    } catch (error) {
+      console.error('Failed to restore ruby settings:', error);
+    }
+  }, []);
+
+  const changeRubySettings = (changes: Partial<RubySettings>) => {
+    const next = { ...rubySettings, ...changes };
+    setRubySettings(next);
+    try {
+      localStorage.setItem(RUBY_SETTINGS_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Failed to save ruby settings:', error);
+    }
+  };
+
+  return { rubySettings, changeRubySettings };
+}
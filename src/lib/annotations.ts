@@ -0,0 +1,239 @@
+/**
+ * @fileOverview Annotation layer: commentary sources anchored to chapter text
+ *
+ * Annotations are kept apart from the chapter text in
+ * `chapterAnnotations/chapter{N}.json` and tied to spans of it with text anchors
+ * (see `text-anchoring.ts`), so one dataset serves every edition and survives
+ * corrections to the text. Each annotation has a source: editorial notes,
+ * 脂硯齋 commentary (脂批) or modern scholarship. Inline annotations embedded
+ * in older chapter files are read as editorial notes.
+ *
+ * This module is client-safe; the dataset files are read by `chapter-corpus.ts`
+ * and served by `GET /api/chapters/[chapterNumber]/annotations`.
+ */
+
+import type {
+  AnnotationSourceId,
+  AnnotationSourceInfo,
+  Chapter,
+  ChapterAnnotation,
+  ChapterAnnotationsJson,
+  CommentaryPosition,
+  EditionId,
+  Paragraph,
+} from '@/types/chapter';
+import { getParagraphText, isValidChapterNumber } from './chapter-loader';
+import { DEFAULT_EDITION_ID } from './editions';
+import { createTextAnchor, resolveTextAnchor, type ResolvedAnchor } from './text-anchoring';
+
+/** All annotation sources, in display order */
+export const ANNOTATION_SOURCES: AnnotationSourceInfo[] = [
+  {
+    id: 'editorial',
+    nameKey: 'annotations.sources.editorial.name',
+    badgeKey: 'annotations.sources.editorial.badge',
+    descriptionKey: 'annotations.sources.editorial.description',
+  },
+  {
+    id: 'zhiyanzhai',
+    nameKey: 'annotations.sources.zhiyanzhai.name',
+    badgeKey: 'annotations.sources.zhiyanzhai.badge',
+    descriptionKey: 'annotations.sources.zhiyanzhai.description',
+  },
+  {
+    id: 'scholar',
+    nameKey: 'annotations.sources.scholar.name',
+    badgeKey: 'annotations.sources.scholar.badge',
+    descriptionKey: 'annotations.sources.scholar.description',
+  },
+];
+
+export const COMMENTARY_POSITIONS: CommentaryPosition[] = ['interlinear', 'marginal', 'chapter-head', 'chapter-end'];
+
+/** An annotation placed in the current chapter text */
+export interface PlacedAnnotation {
+  annotation: ChapterAnnotation;
+  position: ResolvedAnchor;
+}
+
+/** A run of text and the annotations covering all of it */
+export interface AnnotationSegment {
+  start: number;
+  end: number;
+  annotations: PlacedAnnotation[];
+}
+
+/**
+ * Type guard for source ids coming from storage or data files
+ */
+export function isAnnotationSourceId(value: unknown): value is AnnotationSourceId {
+  return typeof value === 'string' && ANNOTATION_SOURCES.some(source => source.id === value);
+}
+
+/**
+ * Look up source metadata, falling back to editorial notes
+ */
+export function getAnnotationSource(sourceId: AnnotationSourceId): AnnotationSourceInfo {
+  return ANNOTATION_SOURCES.find(source => source.id === sourceId) ?? ANNOTATION_SOURCES[0];
+}
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+const isOffset = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Validate a raw annotation dataset.
+ * @param data - Parsed JSON from a dataset file or API response
+ * @param expectedId - Chapter number the data is expected to describe
+ * @returns The chapter's annotations
+ * @throws Error describing the first schema violation found
+ */
+export function normalizeAnnotationsJson(data: unknown, expectedId?: number): ChapterAnnotation[] {
+  const raw = data as ChapterAnnotationsJson;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Annotation data must be an object');
+  }
+  if (!isValidChapterNumber(raw.chapterId)) {
+    throw new Error(`Invalid chapter id: ${raw.chapterId}`);
+  }
+  if (expectedId !== undefined && raw.chapterId !== expectedId) {
+    throw new Error(`Chapter id ${raw.chapterId} does not match expected chapter ${expectedId}`);
+  }
+  if (!Array.isArray(raw.annotations)) {
+    throw new Error(`Chapter ${raw.chapterId} annotations must be an array`);
+  }
+
+  const ids = new Set<string>();
+  return raw.annotations.map((item, index) => {
+    const label = `Chapter ${raw.chapterId} annotation ${index + 1}`;
+    if (!item || typeof item !== 'object' || typeof item.id !== 'string' || !item.id) {
+      throw new Error(`${label} has no id`);
+    }
+    if (ids.has(item.id)) {
+      throw new Error(`${label} repeats id ${item.id}`);
+    }
+    ids.add(item.id);
+    if (!isAnnotationSourceId(item.source)) {
+      throw new Error(`${label} has an unknown source: ${item.source}`);
+    }
+    if (typeof item.quote !== 'string' || !item.quote || typeof item.note !== 'string' || !item.note.trim()) {
+      throw new Error(`${label} needs a quote and a note`);
+    }
+    const anchor = item.anchor;
+    if (!anchor || typeof anchor.paragraphId !== 'string'
+      || !isOffset(anchor.startOffset) || !isOffset(anchor.endOffset)
+      || anchor.endOffset <= anchor.startOffset
+      || typeof anchor.prefix !== 'string' || typeof anchor.suffix !== 'string') {
+      throw new Error(`${label} has an invalid anchor`);
+    }
+    if (!isOptionalString(item.author) || !isOptionalString(item.work) || !isOptionalString(item.witness)) {
+      throw new Error(`${label} author, work and witness must be strings`);
+    }
+    if (item.position !== undefined && !COMMENTARY_POSITIONS.includes(item.position)) {
+      throw new Error(`${label} has an unknown position: ${item.position}`);
+    }
+    return item;
+  });
+}
+
+/**
+ * Read the inline annotations of a chapter as editorial annotations anchored
+ * to the chapter's own text.
+ */
+export function getInlineAnnotations(chapter: Pick<Chapter, 'paragraphs'>): ChapterAnnotation[] {
+  const annotations: ChapterAnnotation[] = [];
+  for (const paragraph of chapter.paragraphs) {
+    const paragraphText = getParagraphText(paragraph);
+    let offset = 0;
+    for (const item of paragraph.content) {
+      if (typeof item === 'string') {
+        offset += item.length;
+        continue;
+      }
+      if (item.text && item.note) {
+        annotations.push({
+          id: item.id,
+          source: 'editorial',
+          quote: item.text,
+          anchor: createTextAnchor(paragraph.id, paragraphText, offset, offset + item.text.length),
+          note: item.note,
+        });
+      }
+      offset += item.text.length;
+    }
+  }
+  return annotations;
+}
+
+/**
+ * Combine a chapter's annotation dataset with its inline annotations. Dataset
+ * entries win when both use the same id.
+ */
+export function mergeAnnotations(dataset: ChapterAnnotation[], inline: ChapterAnnotation[]): ChapterAnnotation[] {
+  const ids = new Set(dataset.map(annotation => annotation.id));
+  return [...dataset, ...inline.filter(annotation => !ids.has(annotation.id))];
+}
+
+/**
+ * Place annotations in the current chapter text. Annotations whose span can no
+ * longer be found (for example in an edition that lacks the passage) are left out.
+ * @param annotations - Annotations for the chapter
+ * @param paragraphs - The chapter's current paragraphs
+ */
+export function placeAnnotations(
+  annotations: ChapterAnnotation[],
+  paragraphs: Array<Pick<Paragraph, 'id' | 'content'>>
+): PlacedAnnotation[] {
+  const placed: PlacedAnnotation[] = [];
+  for (const annotation of annotations) {
+    const position = resolveTextAnchor(annotation.quote, annotation.anchor, paragraphs);
+    if (position) {
+      placed.push({ annotation, position });
+    }
+  }
+  return placed;
+}
+
+/**
+ * Split `[from, to)` of a paragraph at annotation boundaries, so overlapping
+ * and coinciding annotations can be rendered over the same text.
+ * @param placed - Placed annotations of one paragraph
+ * @returns Consecutive segments covering the range, each listing the annotations over it
+ */
+export function segmentAnnotations(placed: PlacedAnnotation[], from: number, to: number): AnnotationSegment[] {
+  const boundaries = new Set([from, to]);
+  for (const { position } of placed) {
+    if (position.startOffset > from && position.startOffset < to) boundaries.add(position.startOffset);
+    if (position.endOffset > from && position.endOffset < to) boundaries.add(position.endOffset);
+  }
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+
+  const segments: AnnotationSegment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    segments.push({
+      start,
+      end,
+      annotations: placed.filter(({ position }) => position.startOffset <= start && position.endOffset >= end),
+    });
+  }
+  return segments;
+}
+
+/**
+ * Load a chapter's annotations from the annotation API.
+ * @param chapterNumber - Chapter number (1-120)
+ * @param editionId - Edition whose inline annotations are included; omit for the default reading text
+ */
+export const loadChapterAnnotations = async (chapterNumber: number, editionId?: EditionId): Promise<ChapterAnnotation[]> => {
+  const query = editionId && editionId !== DEFAULT_EDITION_ID ? `?edition=${editionId}` : '';
+  const response = await fetch(`/api/chapters/${chapterNumber}/annotations${query}`);
+  if (response.status === 404) {
+    return [];
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load annotations for chapter ${chapterNumber}`);
+  }
+  return normalizeAnnotationsJson(await response.json(), chapterNumber);
+};
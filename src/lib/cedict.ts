@@ -0,0 +1,94 @@
+/**
+ * @fileOverview CC-CEDICT import for the reading dictionary
+ *
+ * Parses CC-CEDICT (https://cc-cedict.org/, CC BY-SA 4.0) and selects the part
+ * of it bundled with the reader (`src/app/(main)/read/dictionary/cedict.json`):
+ *
+ * - every single character, so any character of a selection has a reading;
+ * - words CC-CEDICT marks as idioms, literary, classical, archaic or old usage;
+ * - words that occur in the bundled chapter text.
+ *
+ * Only headwords made of Han characters whose pinyin has one syllable per
+ * character are kept, as the dictionary requires. Entries carry English
+ * glosses only; Chinese definitions and usage come from the hand-edited
+ * `dictionary.json`. `scripts/build-dictionary.ts` writes the selection.
+ */
+
+import type { DictionaryEntry } from '@/types/dictionary';
+
+/** An entry of CC-CEDICT */
+export interface CedictEntry {
+  traditional: string;
+  simplified: string;
+  /** Numbered-tone pinyin as CC-CEDICT writes it (`u:` for ü, capitals for names) */
+  pinyin: string;
+  english: string[];
+}
+
+// 傳統 传统 [chuan2 tong3] /tradition/traditional/
+const CEDICT_LINE = /^(\S+) (\S+) \[([^\]]*)\] \/(.*)\/\s*$/;
+
+// Han characters of the Basic Multilingual Plane, where one character is one UTF-16 unit
+const HAN_HEADWORD = /^[㐀-䶿一-鿿豈-﫿]+$/;
+
+// Usage labels of glosses that mark a word of the classical or literary language
+const CLASSICAL_LABEL = /\((idiom|literary|classical|archaic|old)\b/;
+
+/**
+ * Parse the CC-CEDICT text format. Comment lines (`#`) are skipped.
+ * @throws Error naming the first line that is not a dictionary entry
+ */
+export function parseCedict(text: string): CedictEntry[] {
+  const entries: CedictEntry[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || line.startsWith('#')) return;
+    const match = CEDICT_LINE.exec(line);
+    if (!match) {
+      throw new Error(`CC-CEDICT line ${index + 1} is not a dictionary entry`);
+    }
+    const [, traditional, simplified, pinyin, glosses] = match;
+    entries.push({ traditional, simplified, pinyin: pinyin.trim(), english: glosses.split('/').filter(Boolean) });
+  });
+  return entries;
+}
+
+// Pinyin compared across spellings: nü3, nu:3 and nv3 are one reading
+export const pinyinKey = (pinyin: string) => pinyin.toLowerCase().replace(/u:|v/g, 'ü').replace(/\s+/g, ' ').trim();
+
+const isDictionaryHeadword = (entry: CedictEntry) =>
+  HAN_HEADWORD.test(entry.traditional)
+  && HAN_HEADWORD.test(entry.simplified)
+  && entry.simplified.length === entry.traditional.length
+  && entry.pinyin.split(/\s+/).length === entry.traditional.length
+  && entry.english.length > 0;
+
+/**
+ * Select the CC-CEDICT entries bundled with the reader, in dictionary order.
+ * Entries with the same headword and reading are merged.
+ * @param corpusText - Text of the bundled chapters; words found in it are kept
+ */
+export function selectCedictEntries(entries: CedictEntry[], corpusText: string): DictionaryEntry[] {
+  const selected = new Map<string, DictionaryEntry>();
+  for (const entry of entries) {
+    if (!isDictionaryHeadword(entry)) continue;
+    const wanted = entry.traditional.length === 1
+      || entry.english.some(gloss => CLASSICAL_LABEL.test(gloss))
+      || corpusText.includes(entry.traditional);
+    if (!wanted) continue;
+
+    const key = `${entry.traditional} ${pinyinKey(entry.pinyin)}`;
+    const existing = selected.get(key);
+    if (existing) {
+      existing.english = [...new Set([...existing.english!, ...entry.english])];
+      continue;
+    }
+    selected.set(key, {
+      traditional: entry.traditional,
+      simplified: entry.simplified,
+      pinyin: entry.pinyin,
+      definitions: [],
+      english: entry.english,
+    });
+  }
+  return [...selected.values()];
+}
@@ -0,0 +1,139 @@
+/**
+ * @fileOverview Server-side access to the on-disk chapter corpus
+ *
+ * Reads `chapter{N}.json` files from `src/app/(main)/read/chapterText`, and
+ * edition texts from its `editions/{editionId}/` subdirectories. Annotation
+ * datasets are read from the sibling `chapterAnnotations` directory. Only import
+ * this module from API routes and scripts; it depends on Node's `fs`.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import type { Chapter, ChapterAnnotation, ChapterIndexEntry, EditionId } from '@/types/chapter';
+import { TOTAL_CHAPTERS, normalizeChapterJson } from './chapter-loader';
+import { getInlineAnnotations, mergeAnnotations, normalizeAnnotationsJson } from './annotations';
+import { DEFAULT_EDITION_ID, EDITIONS, editionCoversChapter } from './editions';
+
+/** Directory holding one JSON file per chapter */
+export const CHAPTER_TEXT_DIR = path.join(process.cwd(), 'src', 'app', '(main)', 'read', 'chapterText');
+
+/** Directory holding one annotation dataset per chapter */
+export const CHAPTER_ANNOTATIONS_DIR = path.join(process.cwd(), 'src', 'app', '(main)', 'read', 'chapterAnnotations');
+
+// A missing file means the chapter or dataset is not in the corpus; other read errors are faults
+/** Whether a file system error means the file does not exist */
+export const isMissingFile = (error: unknown) => (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+/**
+ * Resolve the file holding a chapter's text in the given edition
+ */
+function getChapterFilePath(chapterNumber: number, editionId: EditionId): string {
+  const directory = editionId === DEFAULT_EDITION_ID
+    ? CHAPTER_TEXT_DIR
+    : path.join(CHAPTER_TEXT_DIR, 'editions', editionId);
+  return path.join(directory, `chapter${chapterNumber}.json`);
+}
+
+/**
+ * Read and validate a chapter from the corpus.
+ * @param chapterNumber - Chapter number (1-120)
+ * @param editionId - Edition to read; defaults to the standard reading text
+ * @returns The chapter, or null when no file exists for it
+ * @throws Error when the file exists but is malformed or cannot be read
+ */
+export async function readChapterFromCorpus(
+  chapterNumber: number,
+  editionId: EditionId = DEFAULT_EDITION_ID
+): Promise<Chapter | null> {
+  if (!editionCoversChapter(editionId, chapterNumber)) {
+    return null;
+  }
+  let fileContent: string;
+  try {
+    fileContent = await fs.readFile(getChapterFilePath(chapterNumber, editionId), 'utf-8');
+  } catch (error) {
+    if (isMissingFile(error)) return null;
+    throw error;
+  }
+  return { ...normalizeChapterJson(JSON.parse(fileContent), chapterNumber), edition: editionId };
+}
+
+/**
+ * Read every chapter of an edition that exists on disk, in chapter order.
+ * Malformed chapter files are reported and skipped.
+ */
+export async function readEditionFromCorpus(editionId: EditionId = DEFAULT_EDITION_ID): Promise<Chapter[]> {
+  const chapters: Chapter[] = [];
+  for (let id = 1; id <= TOTAL_CHAPTERS; id++) {
+    try {
+      const chapter = await readChapterFromCorpus(id, editionId);
+      if (chapter) chapters.push(chapter);
+    } catch (error) {
+      console.error(`Malformed chapter file for chapter ${id} (${editionId}):`, error);
+    }
+  }
+  return chapters;
+}
+
+/**
+ * Read and validate a chapter's annotation dataset.
+ * @returns The annotations, or an empty list when the chapter has no dataset
+ * @throws Error when the file exists but is malformed or cannot be read
+ */
+export async function readAnnotationDataset(chapterNumber: number): Promise<ChapterAnnotation[]> {
+  let fileContent: string;
+  try {
+    fileContent = await fs.readFile(path.join(CHAPTER_ANNOTATIONS_DIR, `chapter${chapterNumber}.json`), 'utf-8');
+  } catch (error) {
+    if (isMissingFile(error)) return [];
+    throw error;
+  }
+  return normalizeAnnotationsJson(JSON.parse(fileContent), chapterNumber);
+}
+
+/**
+ * All annotations for a chapter: its dataset plus any inline annotations in
+ * the edition's text.
+ * @param chapter - The chapter as read from the corpus
+ */
+export async function readChapterAnnotations(chapter: Chapter): Promise<ChapterAnnotation[]> {
+  return mergeAnnotations(await readAnnotationDataset(chapter.id), getInlineAnnotations(chapter));
+}
+
+/**
+ * List the editions whose text for a chapter exists on disk.
+ */
+export async function listChapterEditions(chapterNumber: number): Promise<EditionId[]> {
+  const available: EditionId[] = [];
+  for (const edition of EDITIONS) {
+    if (!editionCoversChapter(edition.id, chapterNumber)) continue;
+    try {
+      await fs.access(getChapterFilePath(chapterNumber, edition.id));
+      available.push(edition.id);
+    } catch {
+      // Not transcribed yet
+    }
+  }
+  return available;
+}
+
+/**
+ * Build the table of contents for all chapters, marking which ones exist on disk.
+ * Malformed chapter files are reported and listed as unavailable.
+ */
+export async function listChapterCorpus(): Promise<ChapterIndexEntry[]> {
+  const entries: ChapterIndexEntry[] = [];
+  for (let id = 1; id <= TOTAL_CHAPTERS; id++) {
+    try {
+      const chapter = await readChapterFromCorpus(id);
+      const editions = await listChapterEditions(id);
+      entries.push(chapter
+        ? { id, available: true, title: chapter.title, titleKey: chapter.titleKey, paragraphCount: chapter.paragraphs.length, editions }
+        : { id, available: false, editions });
+    } catch (error) {
+      console.error(`Malformed chapter file for chapter ${id}:`, error);
+      entries.push({ id, available: false });
+    }
+  }
+  return entries;
+}
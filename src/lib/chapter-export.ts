@@ -0,0 +1,660 @@
+/**
+ * @fileOverview Export chapters with the reader's notes and highlights
+ *
+ * Combines chapter text with the user's notes (`notes-service`) and
+ * highlights (`highlight-service`) and renders the result as:
+ *
+ * - Markdown: highlights as `<mark>`, notes as blockquotes or footnotes
+ * - EPUB 3: one XHTML file per chapter, packed with `createZip`
+ * - PDF: A4 pages, each chapter starting a new page, written with `createPdf`
+ *   in the viewer's built-in Ming (Song) font; highlights are drawn behind the
+ *   text and notes in a smaller size
+ *
+ * Notes can appear inline (after the paragraph they refer to) or as numbered
+ * endnotes at the end of each chapter. Notes only store the selected text, so
+ * they are placed at its first occurrence; notes whose text cannot be found
+ * are listed with the chapter's endnotes.
+ *
+ * Exported text stays in the corpus script (zh-TW) unless `transformText`
+ * converts it; conversion is applied per run of text, after positions are resolved.
+ */
+
+import type { Chapter, EditionId } from '@/types/chapter';
+import { getParagraphText, loadChapter, loadChapterIndex } from './chapter-loader';
+import { getAllNotesByUser, getNotesByUserAndChapter, type Note } from './notes-service';
+import {
+  getHighlightsByUserAndChapter,
+  placeHighlights,
+  DEFAULT_HIGHLIGHT_COLOR,
+  type Highlight,
+  type HighlightColor,
+} from './highlight-service';
+import { resolveTextAnchor } from './text-anchoring';
+import { getQueuedHighlights, withQueuedNotes, withoutQueuedCopies } from './offline-sync';
+import { DEFAULT_EDITION_ID } from './editions';
+import { downloadFile, type DownloadableFile } from './download';
+import { createZip } from './zip';
+import {
+  createPdf,
+  measurePdfText,
+  pdfLine,
+  pdfRect,
+  pdfText,
+  PDF_PAGE_SIZE,
+  type PdfColor,
+} from './pdf';
+
+export const EXPORT_FORMATS = ['markdown', 'epub', 'pdf'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const NOTE_PLACEMENTS = ['inline', 'endnotes'] as const;
+export type NotePlacement = typeof NOTE_PLACEMENTS[number];
+
+/** A note numbered within its chapter */
+export interface ExportNote {
+  number: number;
+  selectedText: string;
+  note: string;
+  /** Where the selected text was found; absent when it no longer occurs in the chapter */
+  paragraphId?: string;
+  endOffset?: number;
+}
+
+export interface ExportParagraph {
+  id: string;
+  text: string;
+  highlights: Array<{ start: number; end: number; color: HighlightColor }>;
+  notes: ExportNote[];
+}
+
+export interface ExportChapter {
+  id: number;
+  title: string;
+  subtitle?: string;
+  paragraphs: ExportParagraph[];
+  /** All notes of the chapter in reading order */
+  notes: ExportNote[];
+}
+
+/** User-facing strings, already translated */
+export interface ExportLabels {
+  /** Heading of the endnotes list */
+  notes: string;
+  /** Heading of the EPUB table of contents */
+  contents: string;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  notePlacement: NotePlacement;
+  /** Title of the exported document */
+  title: string;
+  labels: ExportLabels;
+  /** BCP 47 language of the text, e.g. `zh-Hant` */
+  language?: string;
+  /** Converts displayed text, e.g. to Simplified Chinese */
+  transformText?: (text: string) => string;
+  /** Base of the file name, without extension */
+  fileName?: string;
+  /** Creation time recorded in EPUB and PDF metadata (defaults to now) */
+  date?: Date;
+}
+
+/** A rendered export ready to download */
+export type ExportResult = DownloadableFile;
+
+/** A run of paragraph text with the same highlighting, and the notes ending after it */
+interface TextRun {
+  text: string;
+  color?: HighlightColor;
+  notes: ExportNote[];
+}
+
+const HIGHLIGHT_CSS_COLORS: Record<HighlightColor, string> = {
+  yellow: '#fef08a',
+  green: '#bbf7d0',
+  blue: '#bfdbfe',
+  pink: '#fbcfe8',
+  purple: '#e9d5ff',
+};
+
+const DEFAULT_FILE_NAME = 'hongloumeng';
+
+/**
+ * Combine a chapter with the notes and highlights made on it.
+ * @param chapter - The chapter in the edition being exported
+ * @param notes - The user's notes for the chapter
+ * @param highlights - The user's highlights for the chapter in that edition
+ */
+export function buildExportChapter(chapter: Chapter, notes: Note[], highlights: Highlight[]): ExportChapter {
+  const paragraphs: ExportParagraph[] = chapter.paragraphs.map(paragraph => ({
+    id: paragraph.id,
+    text: getParagraphText(paragraph),
+    highlights: [],
+    notes: [],
+  }));
+  const paragraphIndex = new Map(paragraphs.map((paragraph, index) => [paragraph.id, index]));
+
+  for (const { highlight, position } of placeHighlights(highlights, chapter.paragraphs)) {
+    paragraphs[paragraphIndex.get(position.paragraphId)!].highlights.push({
+      start: position.startOffset,
+      end: position.endOffset,
+      color: highlight.color ?? DEFAULT_HIGHLIGHT_COLOR,
+    });
+  }
+
+  // Order notes by where they occur, unplaced notes last, then number them
+  const located = notes
+    .map(note => ({ note, position: resolveTextAnchor(note.selectedText, undefined, chapter.paragraphs) }))
+    .map(({ note, position }) => ({
+      note,
+      position,
+      order: position ? paragraphIndex.get(position.paragraphId)! * 1_000_000 + position.endOffset : Infinity,
+    }))
+    .sort((a, b) => a.order - b.order || a.note.createdAt.getTime() - b.note.createdAt.getTime());
+
+  const exportNotes = located.map(({ note, position }, index): ExportNote => {
+    const exportNote: ExportNote = { number: index + 1, selectedText: note.selectedText, note: note.note };
+    if (position) {
+      exportNote.paragraphId = position.paragraphId;
+      exportNote.endOffset = position.endOffset;
+      paragraphs[paragraphIndex.get(position.paragraphId)!].notes.push(exportNote);
+    }
+    return exportNote;
+  });
+
+  for (const paragraph of paragraphs) {
+    paragraph.highlights.sort((a, b) => a.start - b.start);
+  }
+
+  return {
+    id: chapter.id,
+    title: chapter.title || `第${chapter.id}回`,
+    subtitle: chapter.subtitle,
+    paragraphs,
+    notes: exportNotes,
+  };
+}
+
+// Split a paragraph at highlight edges and note positions
+function toRuns(paragraph: ExportParagraph): TextRun[] {
+  const boundaries = new Set([0, paragraph.text.length]);
+  for (const { start, end } of paragraph.highlights) {
+    boundaries.add(start);
+    boundaries.add(end);
+  }
+  for (const note of paragraph.notes) {
+    boundaries.add(note.endOffset!);
+  }
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+
+  const runs: TextRun[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    runs.push({
+      text: paragraph.text.slice(start, end),
+      color: paragraph.highlights.find(h => h.start <= start && h.end >= end)?.color,
+      notes: paragraph.notes.filter(note => note.endOffset === end),
+    });
+  }
+  return runs;
+}
+
+const identity = (text: string) => text;
+
+// ---------------------------------------------------------------------------
+// Markdown
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+
+const quoteBlock = (text: string) => text.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+
+/**
+ * Render chapters as Markdown. Footnotes use the `[^id]` syntax supported by
+ * GitHub, Pandoc and most editors.
+ */
+export function renderMarkdown(chapters: ExportChapter[], options: ExportOptions): string {
+  const convert = options.transformText ?? identity;
+  const endnotes = options.notePlacement === 'endnotes';
+  const footnoteId = (chapter: ExportChapter, note: ExportNote) => `ch${chapter.id}-${note.number}`;
+  const noteLine = (note: ExportNote) => `「${escapeMarkdown(convert(note.selectedText))}」${convert(note.note)}`;
+
+  const blocks: string[] = [`# ${escapeMarkdown(convert(options.title))}`];
+
+  for (const chapter of chapters) {
+    blocks.push(`## ${escapeMarkdown(convert(chapter.title))}`);
+    if (chapter.subtitle) blocks.push(`*${escapeMarkdown(convert(chapter.subtitle))}*`);
+
+    for (const paragraph of chapter.paragraphs) {
+      const text = toRuns(paragraph).map(run => {
+        const body = escapeMarkdown(convert(run.text));
+        const marked = run.color ? `<mark>${body}</mark>` : body;
+        return marked + (endnotes ? run.notes.map(note => `[^${footnoteId(chapter, note)}]`).join('') : '');
+      }).join('');
+      blocks.push(text);
+      if (!endnotes) {
+        blocks.push(...paragraph.notes.map(note => quoteBlock(noteLine(note))));
+      }
+    }
+
+    const listed = endnotes ? chapter.notes : chapter.notes.filter(note => !note.paragraphId);
+    if (listed.length > 0) {
+      blocks.push(`### ${escapeMarkdown(options.labels.notes)}`);
+      blocks.push(listed.map(note => endnotes
+        ? `[^${footnoteId(chapter, note)}]: ${noteLine(note).replace(/\n/g, '\n    ')}`
+        : `- ${noteLine(note).replace(/\n/g, '\n  ')}`
+      ).join('\n'));
+    }
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// HTML (EPUB)
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const multiline = (text: string) => escapeHtml(text).replace(/\n/g, '<br/>');
+
+const EXPORT_CSS = `
+body { font-family: "Noto Serif TC", "Noto Serif SC", "Songti TC", serif; line-height: 1.9; }
+h1 { text-align: center; }
+h2 { margin-top: 2em; }
+p { text-indent: 2em; margin: 0.6em 0; }
+p.subtitle { text-indent: 0; font-style: italic; }
+${Object.entries(HIGHLIGHT_CSS_COLORS).map(([color, css]) => `mark.hl-${color} { background-color: ${css}; }`).join('\n')}
+a.noteref { font-size: 0.75em; vertical-align: super; text-decoration: none; }
+aside.note { margin: 0.4em 0 0.8em 2em; padding-left: 0.8em; border-left: 3px solid #c9a227; font-size: 0.9em; }
+aside.note p, section.endnotes p { text-indent: 0; margin: 0.2em 0; }
+section.endnotes { margin-top: 2em; border-top: 1px solid #999; font-size: 0.9em; }
+`.trim();
+
+/**
+ * Render one chapter as an XHTML fragment (a `<section>`).
+ */
+export function renderChapterHtml(chapter: ExportChapter, options: ExportOptions): string {
+  const convert = options.transformText ?? identity;
+  const endnotes = options.notePlacement === 'endnotes';
+  const noteId = (note: ExportNote) => `note-${chapter.id}-${note.number}`;
+  const refId = (note: ExportNote) => `ref-${chapter.id}-${note.number}`;
+  const noteBody = (note: ExportNote) =>
+    `<p><strong>「${escapeHtml(convert(note.selectedText))}」</strong></p><p>${multiline(convert(note.note))}</p>`;
+
+  const parts = [`<section class="chapter" id="chapter-${chapter.id}">`, `<h2>${escapeHtml(convert(chapter.title))}</h2>`];
+  if (chapter.subtitle) parts.push(`<p class="subtitle">${escapeHtml(convert(chapter.subtitle))}</p>`);
+
+  for (const paragraph of chapter.paragraphs) {
+    const text = toRuns(paragraph).map(run => {
+      const body = escapeHtml(convert(run.text));
+      const marked = run.color ? `<mark class="hl-${run.color}">${body}</mark>` : body;
+      const refs = endnotes
+        ? run.notes.map(note => `<a class="noteref" epub:type="noteref" id="${refId(note)}" href="#${noteId(note)}">${note.number}</a>`).join('')
+        : '';
+      return marked + refs;
+    }).join('');
+    parts.push(`<p>${text}</p>`);
+    if (!endnotes) {
+      parts.push(...paragraph.notes.map(note => `<aside class="note">${noteBody(note)}</aside>`));
+    }
+  }
+
+  const listed = endnotes ? chapter.notes : chapter.notes.filter(note => !note.paragraphId);
+  if (listed.length > 0) {
+    parts.push(`<section class="endnotes" epub:type="endnotes"><h3>${escapeHtml(options.labels.notes)}</h3><ol>`);
+    parts.push(...listed.map(note => {
+      const back = endnotes && note.paragraphId ? ` <a href="#${refId(note)}">↩</a>` : '';
+      return `<li id="${noteId(note)}" epub:type="endnote">${noteBody(note)}${back}</li>`;
+    }));
+    parts.push('</ol></section>');
+  }
+
+  parts.push('</section>');
+  return parts.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// EPUB
+
+const xhtmlDocument = (title: string, language: string, body: string) => `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${language}" xml:lang="${language}">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+/**
+ * Package chapters as an EPUB 3 book.
+ */
+export function buildEpub(chapters: ExportChapter[], options: ExportOptions): Uint8Array {
+  const convert = options.transformText ?? identity;
+  const language = options.language ?? 'zh-Hant';
+  const date = options.date ?? new Date();
+  const title = convert(options.title);
+  const modified = date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const identifier = `urn:redmansion:export:${chapters.map(chapter => chapter.id).join('-')}:${date.getTime()}`;
+  const fileOf = (chapter: ExportChapter) => `chapter${chapter.id}.xhtml`;
+
+  const nav = xhtmlDocument(title, language, `<nav epub:type="toc" id="toc">
+<h1>${escapeHtml(options.labels.contents)}</h1>
+<ol>
+${chapters.map(chapter => `<li><a href="${fileOf(chapter)}">${escapeHtml(convert(chapter.title))}</a></li>`).join('\n')}
+</ol>
+</nav>`);
+
+  const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${escapeHtml(identifier)}</dc:identifier>
+<dc:title>${escapeHtml(title)}</dc:title>
+<dc:creator>曹雪芹</dc:creator>
+<dc:language>${language}</dc:language>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${chapters.map(chapter => `<item id="chapter${chapter.id}" href="${fileOf(chapter)}" media-type="application/xhtml+xml"/>`).join('\n')}
+</manifest>
+<spine>
+${chapters.map(chapter => `<itemref idref="chapter${chapter.id}"/>`).join('\n')}
+</spine>
+</package>
+`;
+
+  const container = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+  return createZip([
+    // The mimetype entry must come first and be stored uncompressed
+    { name: 'mimetype', data: 'application/epub+zip' },
+    { name: 'META-INF/container.xml', data: container },
+    { name: 'OEBPS/content.opf', data: opf },
+    { name: 'OEBPS/nav.xhtml', data: nav },
+    { name: 'OEBPS/style.css', data: EXPORT_CSS + '\n' },
+    ...chapters.map(chapter => ({
+      name: `OEBPS/${fileOf(chapter)}`,
+      data: xhtmlDocument(convert(chapter.title), language, renderChapterHtml(chapter, options)),
+    })),
+  ], date);
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+
+const PDF_MARGIN = 56.69; // 2 cm
+const PDF_CONTENT_WIDTH = PDF_PAGE_SIZE.width - PDF_MARGIN * 2;
+const PDF_BODY_SIZE = 11;
+const PDF_NOTE_SIZE = 9.5;
+const PDF_LINE_HEIGHT = 1.9;
+const PDF_MUTED: PdfColor = [0.4, 0.4, 0.4];
+const PDF_NOTE_BAR: PdfColor = [0.79, 0.64, 0.15];
+
+// Closing punctuation may hang past the right margin rather than start a line
+const HANGING_PUNCTUATION = /^[，。、；：？！」』）》〉】…,.;:?!)]$/;
+
+const toPdfColor = (css: string): PdfColor =>
+  [1, 3, 5].map(i => parseInt(css.slice(i, i + 2), 16) / 255) as PdfColor;
+
+/** Text of a block with the same highlighting, optionally a raised note number */
+interface PdfSpan {
+  text: string;
+  color?: HighlightColor;
+  superscript?: boolean;
+}
+
+/** A piece of text never broken across lines: an ASCII word or one character */
+interface PdfPiece extends PdfSpan {
+  width: number;
+  size: number;
+}
+
+interface PdfBlockStyle {
+  size: number;
+  lineHeight?: number;
+  /** Indent of the first line */
+  indent?: number;
+  /** Left margin of every line */
+  left?: number;
+  center?: boolean;
+  textColor?: PdfColor;
+  /** Draw a bar left of the block, as for inline notes */
+  bar?: boolean;
+}
+
+const toPieces = (spans: PdfSpan[], size: number): PdfPiece[] => spans.flatMap(span => {
+  const pieceSize = span.superscript ? size * 0.6 : size;
+  return (span.text.match(/\n|[!-~]+ ?|[\s\S]/gu) ?? []).map(text => ({
+    ...span,
+    text,
+    size: pieceSize,
+    width: measurePdfText(text, pieceSize),
+  }));
+});
+
+// Fill lines up to the width; `\n` pieces force a break
+function breakLines(pieces: PdfPiece[], width: number, indent: number): PdfPiece[][] {
+  const lines: PdfPiece[][] = [[]];
+  let used = indent;
+  const pending = [...pieces].reverse();
+  while (pending.length > 0) {
+    const piece = pending.pop()!;
+    if (piece.text === '\n') {
+      lines.push([]);
+      used = 0;
+      continue;
+    }
+    if (piece.width > width && piece.text.length > 1) {
+      // A word longer than the line is broken between letters
+      pending.push(...Array.from(piece.text, text => ({ ...piece, text, width: measurePdfText(text, piece.size) })).reverse());
+      continue;
+    }
+    if (used + piece.width > width && lines[lines.length - 1].length > 0 && !HANGING_PUNCTUATION.test(piece.text)) {
+      lines.push([]);
+      used = 0;
+      if (piece.text === ' ') continue;
+    }
+    lines[lines.length - 1].push(piece);
+    used += piece.width;
+  }
+  return lines;
+}
+
+// Consecutive pieces drawn alike are drawn with one text operator
+const groupPieces = (line: PdfPiece[]): PdfPiece[] => line.reduce<PdfPiece[]>((groups, piece) => {
+  const last = groups[groups.length - 1];
+  if (last && last.color === piece.color && last.superscript === piece.superscript) {
+    last.text += piece.text;
+    last.width += piece.width;
+  } else {
+    groups.push({ ...piece });
+  }
+  return groups;
+}, []);
+
+/**
+ * Lay out chapters on A4 pages and write them as a PDF. Each chapter starts a
+ * new page; pages are numbered at the foot.
+ */
+export function buildPdf(chapters: ExportChapter[], options: ExportOptions): Uint8Array {
+  const convert = options.transformText ?? identity;
+  const endnotes = options.notePlacement === 'endnotes';
+  const top = PDF_PAGE_SIZE.height - PDF_MARGIN;
+
+  const pages: string[][] = [];
+  let cursor = top;
+  const newPage = () => {
+    pages.push([]);
+    cursor = top;
+  };
+  const draw = (operators: string) => pages[pages.length - 1].push(operators);
+
+  const writeBlock = (spans: PdfSpan[], style: PdfBlockStyle) => {
+    const { size, indent = 0, left = 0 } = style;
+    const lineHeight = size * (style.lineHeight ?? PDF_LINE_HEIGHT);
+    breakLines(toPieces(spans, size), PDF_CONTENT_WIDTH - left, indent).forEach((line, index) => {
+      if (cursor - lineHeight < PDF_MARGIN) newPage();
+      const baseline = cursor - lineHeight / 2 - size * 0.35;
+      const lineWidth = line.reduce((sum, piece) => sum + piece.width, 0);
+      let x = style.center
+        ? PDF_MARGIN + (PDF_CONTENT_WIDTH - lineWidth) / 2
+        : PDF_MARGIN + left + (index === 0 ? indent : 0);
+      if (style.bar) draw(pdfRect(PDF_MARGIN + left - size * 0.8, cursor - lineHeight, 2, lineHeight, PDF_NOTE_BAR));
+      for (const group of groupPieces(line)) {
+        if (group.color) {
+          draw(pdfRect(x, baseline - size * 0.3, group.width, size * 1.25, toPdfColor(HIGHLIGHT_CSS_COLORS[group.color])));
+        }
+        draw(pdfText(group.text, x, group.superscript ? baseline + size * 0.45 : baseline, group.size, style.textColor));
+        x += group.width;
+      }
+      cursor -= lineHeight;
+    });
+  };
+
+  const noteText = (note: ExportNote) => `「${convert(note.selectedText)}」\n${convert(note.note)}`;
+
+  newPage();
+  writeBlock([{ text: convert(options.title) }], { size: 20, lineHeight: 2.4, center: true });
+
+  chapters.forEach((chapter, index) => {
+    if (index > 0) newPage();
+    cursor -= PDF_BODY_SIZE;
+    writeBlock([{ text: convert(chapter.title) }], { size: 16, lineHeight: 1.8 });
+    if (chapter.subtitle) writeBlock([{ text: convert(chapter.subtitle) }], { size: PDF_BODY_SIZE, textColor: PDF_MUTED });
+    cursor -= PDF_BODY_SIZE / 2;
+
+    for (const paragraph of chapter.paragraphs) {
+      const spans = toRuns(paragraph).flatMap((run): PdfSpan[] => [
+        { text: convert(run.text), color: run.color },
+        ...(endnotes ? run.notes.map(note => ({ text: String(note.number), superscript: true })) : []),
+      ]);
+      writeBlock(spans, { size: PDF_BODY_SIZE, indent: PDF_BODY_SIZE * 2 });
+      if (!endnotes) {
+        for (const note of paragraph.notes) {
+          writeBlock([{ text: noteText(note) }], { size: PDF_NOTE_SIZE, lineHeight: 1.6, left: PDF_BODY_SIZE * 2, bar: true });
+        }
+      }
+      cursor -= PDF_BODY_SIZE * 0.4;
+    }
+
+    const listed = endnotes ? chapter.notes : chapter.notes.filter(note => !note.paragraphId);
+    if (listed.length > 0) {
+      if (cursor - PDF_BODY_SIZE * 4 < PDF_MARGIN) newPage();
+      cursor -= PDF_BODY_SIZE;
+      draw(pdfLine(PDF_MARGIN, cursor, PDF_MARGIN + PDF_CONTENT_WIDTH, cursor, PDF_MUTED));
+      writeBlock([{ text: options.labels.notes }], { size: 13, lineHeight: 2 });
+      for (const note of listed) {
+        writeBlock([{ text: `${note.number}. ${noteText(note)}` }], { size: PDF_NOTE_SIZE, lineHeight: 1.6 });
+      }
+    }
+  });
+
+  return createPdf(
+    pages.map((operators, index) => {
+      const number = String(index + 1);
+      const x = (PDF_PAGE_SIZE.width - measurePdfText(number, 9)) / 2;
+      return [...operators, pdfText(number, x, PDF_MARGIN / 2, 9, PDF_MUTED)].join('\n');
+    }),
+    {
+      title: convert(options.title),
+      script: options.language === 'zh-Hans' ? 'simplified' : 'traditional',
+      date: options.date,
+    }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Export entry points
+
+/**
+ * File name for an export of the given chapters, e.g. `hongloumeng-ch1-5`.
+ */
+export function getExportFileName(chapterIds: number[], totalChapters?: number): string {
+  if (chapterIds.length === 0 || chapterIds.length === totalChapters) return DEFAULT_FILE_NAME;
+  const first = Math.min(...chapterIds);
+  const last = Math.max(...chapterIds);
+  return first === last ? `${DEFAULT_FILE_NAME}-ch${first}` : `${DEFAULT_FILE_NAME}-ch${first}-${last}`;
+}
+
+/**
+ * Render chapters in the requested format.
+ * @throws Error when there is nothing to export
+ */
+export function exportChapters(chapters: ExportChapter[], options: ExportOptions): ExportResult {
+  if (chapters.length === 0) {
+    throw new Error('No chapters to export');
+  }
+  const fileName = options.fileName ?? getExportFileName(chapters.map(chapter => chapter.id));
+  switch (options.format) {
+    case 'markdown':
+      return { fileName: `${fileName}.md`, mimeType: 'text/markdown;charset=utf-8', data: renderMarkdown(chapters, options) };
+    case 'epub':
+      return { fileName: `${fileName}.epub`, mimeType: 'application/epub+zip', data: buildEpub(chapters, options) };
+    case 'pdf':
+      return { fileName: `${fileName}.pdf`, mimeType: 'application/pdf', data: buildPdf(chapters, options) };
+  }
+}
+
+/**
+ * Load chapters with the user's notes and highlights, skipping chapters not in
+ * the corpus. Notes and highlights still queued offline are included.
+ * @param userId - The reader, or null to export the text alone
+ * @param chapterIds - Chapters to export, in order
+ * @param editionId - Edition whose text and highlights are exported
+ */
+export async function collectExportChapters(
+  userId: string | null,
+  chapterIds: number[],
+  editionId?: EditionId
+): Promise<ExportChapter[]> {
+  const index = await loadChapterIndex();
+  const available = new Set(index.filter(entry => entry.available).map(entry => entry.id));
+  const ids = chapterIds.filter(id => available.has(id));
+
+  // One query for every note when exporting several chapters
+  const allNotes = userId && ids.length > 1 ? await getAllNotesByUser(userId) : null;
+
+  const chapters: ExportChapter[] = [];
+  for (const id of ids) {
+    const chapter = await loadChapter(id, editionId);
+    if (!chapter) continue;
+
+    let notes: Note[] = [];
+    let highlights: Highlight[] = [];
+    if (userId) {
+      const saved = allNotes ? allNotes.filter(note => note.chapterId === id) : await getNotesByUserAndChapter(userId, id);
+      notes = withQueuedNotes(saved, userId, id);
+      highlights = [
+        ...withoutQueuedCopies(await getHighlightsByUserAndChapter(userId, id, editionId)),
+        ...getQueuedHighlights(userId, id)
+          .filter(highlight => !editionId || (highlight.editionId ?? DEFAULT_EDITION_ID) === editionId),
+      ];
+    }
+    chapters.push(buildExportChapter(chapter, notes, highlights));
+  }
+  return chapters;
+}
+
+/**
+ * Save an export in the browser as a download.
+ */
+export function deliverExport(result: ExportResult) {
+  downloadFile(result);
+}
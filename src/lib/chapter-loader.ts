@@ -0,0 +1,177 @@
+/**
+ * @fileOverview Chapter corpus loader for the reading page
+ *
+ * Chapters are stored one file per chapter (see `src/types/chapter.ts` for the
+ * on-disk format) and served through the `/api/chapters` routes. This module
+ * holds the format validation shared by the server routes and the browser-side
+ * loaders used by `ReadBookPage`.
+ */
+
+import type { Annotation, Chapter, ChapterIndexEntry, ChapterJson, ChapterPoem, EditionId, Paragraph, ReadingOverride, SentenceAlignment } from '@/types/chapter';
+import { DEFAULT_EDITION_ID } from './editions';
+import { isPoemForm } from './poetry';
+
+/** Total number of chapters in the 120-chapter edition */
+export const TOTAL_CHAPTERS = 120;
+
+/**
+ * Check whether a value is a valid chapter number (integer in 1..120)
+ */
+export function isValidChapterNumber(chapterNumber: number): boolean {
+  return Number.isInteger(chapterNumber) && chapterNumber >= 1 && chapterNumber <= TOTAL_CHAPTERS;
+}
+
+const isAnnotation = (value: unknown): value is Annotation => {
+  const item = value as Annotation;
+  return !!item && typeof item === 'object'
+    && typeof item.id === 'string'
+    && typeof item.text === 'string'
+    && typeof item.note === 'string';
+};
+
+const isSentenceRange = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2
+  && Number.isInteger(value[0]) && Number.isInteger(value[1])
+  && value[0] >= 0 && value[1] >= value[0];
+
+const isSentenceAlignment = (value: unknown): value is SentenceAlignment => {
+  const item = value as SentenceAlignment;
+  return !!item && typeof item === 'object' && isSentenceRange(item.original) && isSentenceRange(item.vernacular);
+};
+
+const isReadingOverride = (value: unknown): value is ReadingOverride => {
+  const item = value as ReadingOverride;
+  return !!item && typeof item === 'object'
+    && typeof item.text === 'string' && item.text.length > 0
+    && typeof item.pinyin === 'string' && item.pinyin.trim().split(/\s+/).length === item.text.length
+    && (item.paragraphId === undefined || typeof item.paragraphId === 'string');
+};
+
+const isChapterPoem = (value: unknown): value is ChapterPoem => {
+  const item = value as ChapterPoem;
+  return !!item && typeof item === 'object'
+    && typeof item.id === 'string' && item.id.length > 0
+    && typeof item.title === 'string'
+    && isPoemForm(item.form)
+    && (item.authorId === undefined || typeof item.authorId === 'string')
+    && typeof item.paragraphId === 'string'
+    && typeof item.text === 'string' && item.text.length > 0
+    && (item.notes === undefined || (Array.isArray(item.notes) && item.notes.every(note =>
+      !!note && typeof note.quote === 'string' && typeof note.note === 'string' && item.text.includes(note.quote))));
+};
+
+/**
+ * Validate raw chapter JSON and assign default paragraph ids.
+ * @param data - Parsed JSON from a chapter file or API response
+ * @param expectedId - Chapter number the data is expected to describe
+ * @returns Normalized chapter
+ * @throws Error describing the first schema violation found
+ */
+export function normalizeChapterJson(data: unknown, expectedId?: number): Chapter {
+  const raw = data as ChapterJson;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Chapter data must be an object');
+  }
+  if (!isValidChapterNumber(raw.id)) {
+    throw new Error(`Invalid chapter id: ${raw.id}`);
+  }
+  if (expectedId !== undefined && raw.id !== expectedId) {
+    throw new Error(`Chapter id ${raw.id} does not match expected chapter ${expectedId}`);
+  }
+  if (typeof raw.title !== 'string' || !raw.title.trim()) {
+    throw new Error(`Chapter ${raw.id} is missing a title`);
+  }
+  if (!Array.isArray(raw.paragraphs)) {
+    throw new Error(`Chapter ${raw.id} paragraphs must be an array`);
+  }
+  if (raw.readings !== undefined && (!Array.isArray(raw.readings) || !raw.readings.every(isReadingOverride))) {
+    throw new Error(`Chapter ${raw.id} has an invalid reading override`);
+  }
+
+  const paragraphs: Paragraph[] = raw.paragraphs.map((p, index) => {
+    if (!p || !Array.isArray(p.content)) {
+      throw new Error(`Chapter ${raw.id} paragraph ${index + 1} has no content array`);
+    }
+    p.content.forEach(item => {
+      if (typeof item !== 'string' && !isAnnotation(item)) {
+        throw new Error(`Chapter ${raw.id} paragraph ${index + 1} contains an invalid annotation`);
+      }
+    });
+    if (p.vernacular !== undefined && typeof p.vernacular !== 'string') {
+      throw new Error(`Chapter ${raw.id} paragraph ${index + 1} vernacular must be a string`);
+    }
+    if (p.alignment !== undefined && (!Array.isArray(p.alignment) || !p.alignment.every(isSentenceAlignment))) {
+      throw new Error(`Chapter ${raw.id} paragraph ${index + 1} has an invalid sentence alignment`);
+    }
+    return {
+      id: p.id || `ch${raw.id}-p${index + 1}`,
+      content: p.content,
+      vernacular: p.vernacular,
+      ...(p.alignment ? { alignment: p.alignment } : {}),
+    };
+  });
+
+  if (raw.poems !== undefined) {
+    if (!Array.isArray(raw.poems)) {
+      throw new Error(`Chapter ${raw.id} poems must be an array`);
+    }
+    raw.poems.forEach((poem, index) => {
+      const paragraph = isChapterPoem(poem) ? paragraphs.find(p => p.id === poem.paragraphId) : undefined;
+      if (!paragraph || !getParagraphText(paragraph).includes(poem.text)) {
+        throw new Error(`Chapter ${raw.id} has an invalid poem at index ${index}`);
+      }
+    });
+  }
+
+  return { ...raw, paragraphs };
+}
+
+/**
+ * Join a paragraph's original text, dropping annotation markup.
+ */
+export function getParagraphText(paragraph: Pick<Paragraph, 'content'>): string {
+  return paragraph.content.map(item => (typeof item === 'string' ? item : item.text)).join('');
+}
+
+/**
+ * A paragraph's vernacular rendering without its leading （白話文） label.
+ */
+export function getVernacularText(paragraph: Pick<Paragraph, 'vernacular'>): string {
+  return (paragraph.vernacular ?? '').replace(/^（白話文）/, '');
+}
+
+/**
+ * Load one chapter from the chapter API.
+ * @param chapterNumber - Chapter number (1-120)
+ * @param editionId - Edition to load; omit for the default reading text
+ * @returns The chapter, or null when the corpus does not contain it yet
+ */
+export const loadChapter = async (chapterNumber: number, editionId?: EditionId): Promise<Chapter | null> => {
+  const query = editionId && editionId !== DEFAULT_EDITION_ID ? `?edition=${editionId}` : '';
+  const response = await fetch(`/api/chapters/${chapterNumber}${query}`);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load chapter ${chapterNumber}`);
+  }
+  return normalizeChapterJson(await response.json(), chapterNumber);
+};
+
+/**
+ * Load the table of contents for all 120 chapters.
+ * Falls back to an index with every chapter marked unavailable on error.
+ */
+export const loadChapterIndex = async (): Promise<ChapterIndexEntry[]> => {
+  try {
+    const response = await fetch('/api/chapters');
+    if (!response.ok) {
+      throw new Error(`Failed to load chapter index (${response.status})`);
+    }
+    const data = await response.json();
+    return data.chapters as ChapterIndexEntry[];
+  } catch (error) {
+    console.error('Error loading chapter index:', error);
+    return Array.from({ length: TOTAL_CHAPTERS }, (_, i) => ({ id: i + 1, available: false }));
+  }
+};
@@ -0,0 +1,246 @@
+/**
+ * @fileOverview Whole-book full-text search over the chapter corpus
+ *
+ * Every paragraph contributes up to three kinds of searchable documents: its
+ * original text, its vernacular rendering and the body of each annotation
+ * anchored to it (from the annotation dataset, see `annotations.ts`).
+ * Text is normalized with `normalizeForSearch` so that Traditional and
+ * Simplified forms of a character (夢 / 梦) match each other, and each
+ * character points at the documents containing it. A query is answered by
+ * intersecting those lists and confirming the phrase in the normalized text.
+ *
+ * The index is built on the server (`GET /api/search`) from the corpus files;
+ * `searchBook` is the browser-side client for that route.
+ */
+
+import type { AnnotationSourceId, Chapter, ChapterAnnotation, EditionId } from '@/types/chapter';
+import { getInlineAnnotations } from './annotations';
+import { getParagraphText, getVernacularText } from './chapter-loader';
+import { normalizeForSearch } from './chinese-variants';
+import { DEFAULT_EDITION_ID } from './editions';
+
+/** Part of a paragraph a search hit was found in */
+export type SearchField = 'original' | 'vernacular' | 'annotation';
+
+/** One searchable unit of text */
+interface SearchDocument {
+  chapterId: number;
+  chapterTitle: string;
+  paragraphId: string;
+  field: SearchField;
+  /** Annotation id and source for `annotation` documents */
+  annotationId?: string;
+  annotationSource?: AnnotationSourceId;
+  /** Text as displayed (zh-TW) */
+  text: string;
+  /** Text after `normalizeForSearch`; same length as `text` */
+  normalized: string;
+}
+
+/** In-memory search index for one edition of the corpus */
+export interface SearchIndex {
+  documents: SearchDocument[];
+  /** Character → ascending indexes of the documents containing it */
+  postings: Map<string, number[]>;
+}
+
+/** Matched text with surrounding context */
+export interface SearchSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface SearchResult {
+  chapterId: number;
+  chapterTitle: string;
+  paragraphId: string;
+  field: SearchField;
+  annotationId?: string;
+  annotationSource?: AnnotationSourceId;
+  /** Relevance score; higher ranks first */
+  score: number;
+  /** Occurrences of the query terms in this document */
+  matchCount: number;
+  /** Offset of the first match in the document text */
+  offset: number;
+  snippet: SearchSnippet;
+}
+
+export interface SearchResponse {
+  query: string;
+  /** Number of matching documents before `limit` was applied */
+  total: number;
+  results: SearchResult[];
+}
+
+export interface SearchOptions {
+  /** Maximum results to return (default 50) */
+  limit?: number;
+  /** Characters of context on each side of the snippet (default 24) */
+  contextLength?: number;
+}
+
+/** Original text ranks above annotations, which rank above vernacular renderings */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  original: 3,
+  annotation: 2,
+  vernacular: 1,
+};
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_LIMIT = 200;
+const DEFAULT_CONTEXT_LENGTH = 24;
+
+/**
+ * Split a query into normalized terms. Whitespace separates terms; all terms
+ * must occur in the same document.
+ */
+export function parseSearchQuery(query: string): string[] {
+  return Array.from(new Set(normalizeForSearch(query).split(/\s+/).filter(Boolean)));
+}
+
+/**
+ * Build a search index from chapters.
+ * @param chapters - Chapters in reading order
+ * @param annotationsByChapter - Annotations per chapter id; chapters not listed
+ *   use their inline annotations
+ */
+export function buildSearchIndex(chapters: Chapter[], annotationsByChapter: Map<number, ChapterAnnotation[]> = new Map()): SearchIndex {
+  const documents: SearchDocument[] = [];
+  const postings = new Map<string, number[]>();
+
+  const addDocument = (document: Omit<SearchDocument, 'normalized'>) => {
+    if (!document.text.trim()) return;
+    const docIndex = documents.length;
+    const normalized = normalizeForSearch(document.text);
+    documents.push({ ...document, normalized });
+
+    for (const char of new Set(normalized)) {
+      if (/\s/.test(char)) continue;
+      const list = postings.get(char);
+      if (list) {
+        list.push(docIndex);
+      } else {
+        postings.set(char, [docIndex]);
+      }
+    }
+  };
+
+  for (const chapter of chapters) {
+    const annotations = annotationsByChapter.get(chapter.id) ?? getInlineAnnotations(chapter);
+    for (const paragraph of chapter.paragraphs) {
+      const base = { chapterId: chapter.id, chapterTitle: chapter.title, paragraphId: paragraph.id };
+      addDocument({ ...base, field: 'original', text: getParagraphText(paragraph) });
+      if (paragraph.vernacular) {
+        addDocument({ ...base, field: 'vernacular', text: getVernacularText(paragraph) });
+      }
+      for (const annotation of annotations) {
+        if (annotation.anchor.paragraphId === paragraph.id) {
+          addDocument({ ...base, field: 'annotation', annotationId: annotation.id, annotationSource: annotation.source, text: annotation.note });
+        }
+      }
+    }
+  }
+
+  return { documents, postings };
+}
+
+// Documents containing every character of every term, in document order
+const findCandidates = (index: SearchIndex, terms: string[]): number[] => {
+  const chars = Array.from(new Set(terms.join('')));
+  const lists = chars.map(char => index.postings.get(char) ?? []);
+  if (lists.some(list => list.length === 0)) return [];
+
+  lists.sort((a, b) => a.length - b.length);
+  let candidates = lists[0];
+  for (const list of lists.slice(1)) {
+    const members = new Set(list);
+    candidates = candidates.filter(docIndex => members.has(docIndex));
+    if (candidates.length === 0) break;
+  }
+  return candidates;
+};
+
+const countOccurrences = (text: string, term: string): number => {
+  let count = 0;
+  for (let from = text.indexOf(term); from !== -1; from = text.indexOf(term, from + term.length)) {
+    count++;
+  }
+  return count;
+};
+
+/**
+ * Cut a snippet around a match, marking truncated ends with an ellipsis.
+ */
+export function buildSnippet(text: string, offset: number, length: number, contextLength = DEFAULT_CONTEXT_LENGTH): SearchSnippet {
+  const start = Math.max(0, offset - contextLength);
+  const end = Math.min(text.length, offset + length + contextLength);
+  return {
+    before: (start > 0 ? '…' : '') + text.slice(start, offset),
+    match: text.slice(offset, offset + length),
+    after: text.slice(offset + length, end) + (end < text.length ? '…' : ''),
+  };
+}
+
+/**
+ * Search the index.
+ * Results are ranked by field weight and number of occurrences, then by
+ * position in the book.
+ * @param index - Index from `buildSearchIndex`
+ * @param query - Query in Traditional or Simplified Chinese
+ */
+export function searchIndex(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResponse {
+  const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_SEARCH_LIMIT), MAX_SEARCH_LIMIT);
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) {
+    return { query, total: 0, results: [] };
+  }
+
+  const ranked: Array<{ docIndex: number; result: SearchResult }> = [];
+  for (const docIndex of findCandidates(index, terms)) {
+    const document = index.documents[docIndex];
+    const counts = terms.map(term => countOccurrences(document.normalized, term));
+    if (counts.some(count => count === 0)) continue;
+
+    const matchCount = counts.reduce((sum, count) => sum + count, 0);
+    const offset = document.normalized.indexOf(terms[0]);
+    const result: SearchResult = {
+      chapterId: document.chapterId,
+      chapterTitle: document.chapterTitle,
+      paragraphId: document.paragraphId,
+      field: document.field,
+      annotationId: document.annotationId,
+      annotationSource: document.annotationSource,
+      score: FIELD_WEIGHTS[document.field] * (1 + Math.log2(matchCount)),
+      matchCount,
+      offset,
+      snippet: buildSnippet(document.text, offset, terms[0].length, options.contextLength),
+    };
+    ranked.push({ docIndex, result });
+  }
+
+  ranked.sort((a, b) => b.result.score - a.result.score || a.docIndex - b.docIndex);
+  return {
+    query,
+    total: ranked.length,
+    results: ranked.slice(0, limit).map(entry => entry.result),
+  };
+}
+
+/**
+ * Search the whole book through the search API.
+ * @param query - Query in Traditional or Simplified Chinese
+ * @param editionId - Edition to search; omit for the default reading text
+ */
+export const searchBook = async (query: string, editionId?: EditionId): Promise<SearchResponse> => {
+  const params = new URLSearchParams({ q: query });
+  if (editionId && editionId !== DEFAULT_EDITION_ID) {
+    params.set('edition', editionId);
+  }
+  const response = await fetch(`/api/search?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Search failed (${response.status})`);
+  }
+  return response.json();
+};
@@ -0,0 +1,285 @@
+/**
+ * @fileOverview Character catalog: recognising names in chapter text
+ *
+ * Tags the names of characters in a paragraph using the catalog dataset
+ * (`src/app/(main)/read/characters/characters.json`), so the reading page can
+ * open a character card from any of them. Names are found by forward maximum
+ * matching, so 賈雨村 is one mention rather than 雨村 inside it; words listed as
+ * `nonNames` (通靈寶玉) are skipped the same way.
+ *
+ * Everything here is limited by the reader's progress, the furthest chapter
+ * they have reached: characters and aliases introduced later are not tagged,
+ * and a card shows the latest profile the reader has reached.
+ *
+ * This module is client-safe; the dataset is read by `character-corpus.ts`
+ * and served by `GET /api/characters`.
+ */
+
+import type { Chapter } from '@/types/chapter';
+import type {
+  CatalogCharacter,
+  CharacterAppearancesJson,
+  CharacterCatalogJson,
+  CharacterMention,
+  CharacterProfileStage,
+  RelatedGraphNode,
+} from '@/types/character';
+import type { KnowledgeGraphData, KnowledgeGraphNode } from './knowledgeGraphUtils';
+import { TOTAL_CHAPTERS, getParagraphText } from './chapter-loader';
+
+/** Names of a catalog that can be tagged at some reading progress */
+export interface MentionIndex {
+  /** Name → character id, or null for a word that is not a name */
+  names: Map<string, string | null>;
+  /** Length of the longest name */
+  maxLength: number;
+}
+
+const isChapterNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= TOTAL_CHAPTERS;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Validate a raw character catalog.
+ * @param data - Parsed JSON from the dataset file or API response
+ * @returns The catalog
+ * @throws Error describing the first schema violation found
+ */
+export function normalizeCharacterCatalog(data: unknown): CharacterCatalogJson {
+  const raw = data as CharacterCatalogJson;
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.characters)) {
+    throw new Error('Character catalog must be an object with a characters array');
+  }
+  if (raw.nonNames !== undefined && !(Array.isArray(raw.nonNames) && raw.nonNames.every(isNonEmptyString))) {
+    throw new Error('Character catalog has malformed nonNames');
+  }
+
+  const ids = new Set<string>();
+  const aliasOwners = new Map<string, string>();
+  const characters = raw.characters.map((item, index): CatalogCharacter => {
+    if (!item || typeof item !== 'object' || !isNonEmptyString(item.id)) {
+      throw new Error(`Character ${index + 1} has no id`);
+    }
+    const label = `Character ${item.id}`;
+    if (ids.has(item.id)) {
+      throw new Error(`${label} is listed twice`);
+    }
+    ids.add(item.id);
+    if (!isNonEmptyString(item.name)) {
+      throw new Error(`${label} has no name`);
+    }
+
+    const firstChapter = item.firstAppearance?.chapter;
+    if (!isChapterNumber(firstChapter)) {
+      throw new Error(`${label} needs a first appearance chapter between 1 and ${TOTAL_CHAPTERS}`);
+    }
+    const paragraphId = item.firstAppearance.paragraphId;
+    if (paragraphId !== undefined && !isNonEmptyString(paragraphId)) {
+      throw new Error(`${label} has a malformed first appearance paragraph`);
+    }
+
+    if (!Array.isArray(item.aliases) || item.aliases.length === 0) {
+      throw new Error(`${label} needs at least one alias`);
+    }
+    const aliases = item.aliases.map(alias => {
+      if (!alias || typeof alias.text !== 'string' || alias.text.trim().length < 2) {
+        throw new Error(`${label} has an alias shorter than two characters`);
+      }
+      const text = alias.text.trim();
+      if (alias.fromChapter !== undefined && !(isChapterNumber(alias.fromChapter) && alias.fromChapter >= firstChapter)) {
+        throw new Error(`${label} introduces alias ${text} before its first appearance`);
+      }
+      const owner = aliasOwners.get(text);
+      if (owner) {
+        throw new Error(`${label} repeats alias ${text} of ${owner}`);
+      }
+      aliasOwners.set(text, item.id);
+      return alias.fromChapter === undefined ? { text } : { text, fromChapter: alias.fromChapter };
+    });
+
+    if (!Array.isArray(item.profile) || item.profile.length === 0) {
+      throw new Error(`${label} needs a profile`);
+    }
+    const profile = item.profile.map((stage, stageIndex): CharacterProfileStage => {
+      if (!stage || !isChapterNumber(stage.fromChapter) || !isNonEmptyString(stage.bio)) {
+        throw new Error(`${label} has a malformed profile stage`);
+      }
+      const isOutOfOrder = stageIndex === 0
+        ? stage.fromChapter !== firstChapter
+        : stage.fromChapter <= item.profile[stageIndex - 1].fromChapter;
+      if (isOutOfOrder) {
+        throw new Error(`${label} needs profile stages in chapter order, starting at its first appearance`);
+      }
+      if (stage.name !== undefined && !isNonEmptyString(stage.name)) {
+        throw new Error(`${label} has a profile stage with an empty name`);
+      }
+      return { fromChapter: stage.fromChapter, ...(stage.name && { name: stage.name }), bio: stage.bio };
+    });
+
+    if (!Array.isArray(item.graphEntities) || !item.graphEntities.every(isNonEmptyString)) {
+      throw new Error(`${label} has malformed knowledge graph entities`);
+    }
+
+    return {
+      id: item.id,
+      name: item.name,
+      aliases,
+      firstAppearance: paragraphId ? { chapter: firstChapter, paragraphId } : { chapter: firstChapter },
+      profile,
+      graphEntities: item.graphEntities,
+    };
+  });
+
+  return { version: raw.version, characters, ...(raw.nonNames && { nonNames: raw.nonNames }) };
+}
+
+/**
+ * Whether a reader who has reached `progress` has met the character.
+ */
+export function isCharacterKnown(character: CatalogCharacter, progress: number): boolean {
+  return character.firstAppearance.chapter <= progress;
+}
+
+/**
+ * The character's aliases a reader who has reached `progress` knows, in catalog order.
+ */
+export function getKnownAliases(character: CatalogCharacter, progress: number): string[] {
+  if (!isCharacterKnown(character, progress)) return [];
+  return character.aliases
+    .filter(alias => (alias.fromChapter ?? character.firstAppearance.chapter) <= progress)
+    .map(alias => alias.text);
+}
+
+/**
+ * The profile shown on a character's card: the latest stage the reader has reached.
+ * @returns Name and biography; the first stage when the reader has not met the character yet
+ */
+export function getCharacterProfile(character: CatalogCharacter, progress: number): { name: string; bio: string } {
+  const reached = character.profile.filter(stage => stage.fromChapter <= progress);
+  const stage = reached[reached.length - 1] ?? character.profile[0];
+  return { name: stage.name ?? character.name, bio: stage.bio };
+}
+
+/**
+ * Index the names a reader who has reached `progress` can be shown.
+ */
+export function buildMentionIndex(catalog: CharacterCatalogJson, progress: number): MentionIndex {
+  const names = new Map<string, string | null>();
+  for (const word of catalog.nonNames ?? []) {
+    names.set(word, null);
+  }
+  for (const character of catalog.characters) {
+    for (const alias of getKnownAliases(character, progress)) {
+      names.set(alias, character.id);
+    }
+  }
+  const maxLength = Math.max(0, ...[...names.keys()].map(name => name.length));
+  return { names, maxLength };
+}
+
+/**
+ * Find the character names in a paragraph's original text, longest match first.
+ */
+export function findCharacterMentions(index: MentionIndex, text: string): CharacterMention[] {
+  const mentions: CharacterMention[] = [];
+  let position = 0;
+  while (position < text.length) {
+    let length = Math.min(index.maxLength, text.length - position);
+    for (; length > 1; length--) {
+      if (index.names.has(text.slice(position, position + length))) break;
+    }
+    if (length < 2) {
+      position++;
+      continue;
+    }
+    const characterId = index.names.get(text.slice(position, position + length));
+    if (characterId) {
+      mentions.push({ characterId, start: position, end: position + length });
+    }
+    position += length;
+  }
+  return mentions;
+}
+
+/**
+ * The nodes a chapter's knowledge graph connects to the character, once per
+ * node and relationship.
+ */
+export function getRelatedGraphNodes(character: CatalogCharacter, graph: KnowledgeGraphData): RelatedGraphNode[] {
+  const ownIds = new Set(
+    graph.nodes.filter(node => character.graphEntities.includes(node.name)).map(node => node.id)
+  );
+  const nodeId = (end: string | KnowledgeGraphNode) => (typeof end === 'string' ? end : end.id);
+  const nodeName = (id: string) => graph.nodes.find(node => node.id === id)?.name;
+
+  const related = new Map<string, RelatedGraphNode>();
+  for (const link of graph.links) {
+    const source = nodeId(link.source);
+    const target = nodeId(link.target);
+    const direction = ownIds.has(source) ? 'outgoing' : ownIds.has(target) ? 'incoming' : null;
+    // Links between two of the character's own nodes (絳珠草 修成 絳珠仙子) say nothing about others
+    if (!direction || (ownIds.has(source) && ownIds.has(target))) continue;
+    const name = nodeName(direction === 'outgoing' ? target : source);
+    if (name && !related.has(`${name}|${link.relationship}`)) {
+      related.set(`${name}|${link.relationship}`, { name, relationship: link.relationship, direction });
+    }
+  }
+  return [...related.values()];
+}
+
+/**
+ * The chapters each character is named in, by the aliases known in that chapter.
+ * @param chapters - Chapters in any order
+ */
+export function buildCharacterAppearances(
+  catalog: CharacterCatalogJson,
+  chapters: Chapter[]
+): CharacterAppearancesJson['appearances'] {
+  const appearances: CharacterAppearancesJson['appearances'] = {};
+  for (const chapter of [...chapters].sort((a, b) => a.id - b.id)) {
+    const index = buildMentionIndex(catalog, chapter.id);
+    const named = new Set(chapter.paragraphs.flatMap(paragraph =>
+      findCharacterMentions(index, getParagraphText(paragraph)).map(mention => mention.characterId)
+    ));
+    for (const characterId of named) {
+      (appearances[characterId] ??= []).push(chapter.id);
+    }
+  }
+  return appearances;
+}
+
+let catalogPromise: Promise<CharacterCatalogJson> | null = null;
+
+/**
+ * Load the character catalog from the characters API. The dataset is fetched
+ * once per page load; a failed load is retried on the next call.
+ */
+export const loadCharacterCatalog = (): Promise<CharacterCatalogJson> => {
+  if (!catalogPromise) {
+    catalogPromise = (async () => {
+      const response = await fetch('/api/characters');
+      if (!response.ok) {
+        throw new Error(`Failed to load character catalog (${response.status})`);
+      }
+      return normalizeCharacterCatalog(await response.json());
+    })();
+    catalogPromise.catch(() => {
+      catalogPromise = null;
+    });
+  }
+  return catalogPromise;
+};
+
+/**
+ * Load the chapters each character is named in from the appearances API.
+ */
+export const loadCharacterAppearances = async (): Promise<CharacterAppearancesJson['appearances']> => {
+  const response = await fetch('/api/characters/appearances');
+  if (!response.ok) {
+    throw new Error(`Failed to load character appearances (${response.status})`);
+  }
+  const data: CharacterAppearancesJson = await response.json();
+  return data.appearances;
+};
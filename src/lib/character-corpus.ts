@@ -0,0 +1,22 @@
+/**
+ * @fileOverview Server-side access to the bundled character catalog
+ *
+ * Reads `src/app/(main)/read/characters/characters.json`. Only import this
+ * module from API routes and scripts; it depends on Node's `fs`.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import type { CharacterCatalogJson } from '@/types/character';
+import { normalizeCharacterCatalog } from './character-catalog';
+
+/** The character catalog file */
+export const CHARACTER_CATALOG_FILE = path.join(process.cwd(), 'src', 'app', '(main)', 'read', 'characters', 'characters.json');
+
+/**
+ * Read and validate the character catalog.
+ * @throws Error when the file is missing or malformed
+ */
+export async function readCharacterCatalogFromCorpus(): Promise<CharacterCatalogJson> {
+  return normalizeCharacterCatalog(JSON.parse(await fs.readFile(CHARACTER_CATALOG_FILE, 'utf-8')));
+}
@@ -0,0 +1,129 @@
+/**
+ * @fileOverview Character readings for ruby (pinyin / zhuyin) annotation
+ *
+ * A character-level table giving each character its default Mandarin reading,
+ * in numbered-tone pinyin, and a difficulty level from 1 (everyday) to 4
+ * (rare). The reading page uses it to show pinyin or zhuyin above the text,
+ * either for every character or only for characters at or above a chosen level.
+ *
+ * Readings come from the bundled CC-CEDICT selection, through
+ * `character-readings.json` (`npm run readings:build`). The hand-edited table
+ * below grades the characters of the corpus and gives polyphonic characters
+ * (多音字) their most frequent reading in the book, where CC-CEDICT's default
+ * differs; characters it does not grade count as rare. Readings that depend on
+ * context (鼓樂 yuè, 終朝 zhāo, 忘不了 liǎo) are stored with the chapter as
+ * `readings` overrides, see `ReadingOverride` in `src/types/chapter.ts`.
+ * Characters missing from both tables are shown without ruby.
+ */
+
+import cedictReadings from './character-readings.json';
+import { TRADITIONAL_TO_SIMPLIFIED_CHARS } from './chinese-variants';
+
+/** Difficulty levels, from everyday to rare characters */
+export const READING_LEVELS = [1, 2, 3, 4] as const;
+export type ReadingLevel = typeof READING_LEVELS[number];
+
+/** Default reading and difficulty of a character */
+export interface CharacterReading {
+  /** Numbered-tone pinyin, e.g. `yu4` */
+  pinyin: string;
+  level: ReadingLevel;
+}
+
+/**
+ * Character + pinyin tokens per level, ordered by frequency in the corpus.
+ * Polyphonic characters whose CC-CEDICT default is not the book's usual reading
+ * come last in their level.
+ */
+const READINGS_BY_LEVEL: Record<ReadingLevel, string> = {
+  // Level 1: everyday characters a young reader already knows
+  1: `
+一yi1 道dao4 了le5 不bu4 之zhi1 士shi4 人ren2 此ci3 你ni3 來lai2 是shi4 我wo3 好hao3 日ri4 自zi4 中zhong1
+無wu2 有you3 那na4 何he2 便bian4 見jian4 這zhe4 只zhi3 在zai4 大da4 去qu4 可ke3 時shi2 家jia1 石shi2 頭tou2
+以yi3 也ye3 將jiang1 又you4 上shang4 已yi3 生sheng1 下xia4 世shi4 到dao4 的de5 因yin1 回hui2 歷li4 而er2 說shuo1
+所suo3 知zhi1 為wei2 神shen2 處chu4 後hou4 書shu1 今jin1 些xie1 雨yu3 二er4 得de2 笑xiao4 聽ting1 名ming2 故gu4
+成cheng2 正zheng4 地di4 明ming2 看kan4 言yan2 老lao3 心xin1 事shi4 出chu1 天tian1 多duo1 然ran2 小xiao3 方fang1 問wen4
+弟di4 個ge4 字zi4 忘wang4 作zuo4 過guo4 念nian4 女nü3 若ruo4 師shi1 萬wan4 聞wen2 用yong4 先xian1 物wu4 身shen1
+本ben3 再zai4 樂le4 情qing2 外wai4 足zu2 兒er2 他ta1 口kou3 都dou1 曉xiao3 經jing1 己ji3 風feng1 及ji2 細xi4
+行xing2 恩en1 德de2 衣yi1 父fu4 兄xiong1 使shi3 破po4 目mu4 從cong2 三san1 百bai3 性xing4 坐zuo4 形xing2 面mian4
+富fu4 貴gui4 喜xi3 前qian2 且qie3 幾ji3 忙mang2 相xiang1 進jin4 京jing1 早zao3 歌ge1 眼yan3 藥yao4 別bie2 夢meng4
+借jie4 通tong1 記ji4 忽hu1 當dang1 子zi3 考kao3 覺jue2 其qi2 止zhi3 識shi2 皆jie1 堂tang2 實shi2 如ru2 当dang1
+欲yu4 往wang3 友you3 半ban4 告gao4 表biao3 傳chuan2 起qi3 卻que4 補bu3 於yu2 山shan1 高gao1 十shi2 丈zhang4 六liu4
+千qian1 五wu3 單dan1 青qing1 誰shui2 才cai2 入ru4 遠yuan3 長chang2 談tan2 手shou3 把ba3 白bai2 花hua1 華hua2 走zou3
+體ti3 須xu1 件jian4 送song4 兩liang3 拜bai4 沒mei2 難nan2 流liu2 居ju1 文wen2 會hui4 位wei4 城cheng2 關guan1 住zhu4
+着zhe5 姓xing4 妻qi1 禮li3 望wang4 每mei3 年nian2 歲sui4 草cao3 原yuan2 母mu3 取qu3 內nei4 與yu3 交jiao1 想xiang3
+古gu3 孫sun1 還hai2 開kai1 第di4 者zhe3 真zhen1 但dan4 比bi3 同tong2 近jin4 四si4 夜ye4 寫xie3 帶dai4 答da2
+全quan2 發fa1 謝xie4 登deng1 變bian4 美mei3 玉yu4 話hua4 说shuo1 完wan2 色se4 東dong1 南nan2 久jiu3 太tai4 平ping2
+意yi4 深shen1 觀guan1 酒jiu3 夏xia4 聲sheng1 步bu4 認ren4 化hua4 飛fei1 號hao4 州zhou1 讀du2 求qiu2 安an1 賣mai4
+常chang2 接jie1 力li4 少shao3 路lu4 門men2 語yu3 房fang2 金jin1 死si3 什shen2 果guo3 算suan4 要yao4 請qing3 點dian3
+清qing1 氣qi4 感gan3 數shu4 秋qiu1 月yue4 火huo3 紅hong2
+空kong1 重zhong4 著zhe5 嗎ma5 啊a5 轉zhuan3
+`,
+  // Level 2: common characters of written Chinese
+  2: `
+隱yin3 村cun1 云yun2 塊kuai4 仙xian1 僧seng1 隨sui2 倒dao4 雖sui1 亦yi4 鄉xiang1 氏shi4 番fan1 塵chen2 則ze2 益yi4
+荒huang1 煉lian4 遂sui4 攜xie2 況kuang4 輩bei4 功gong1 靈ling2 幻huan4 曰yue1 愧kui4 祖zu3 負fu4 罪zui4 編bian1 閣ge2
+素su4 剩sheng4 峰feng1 凡fan2 論lun4 鮮xian1 潔jie2 狀zhuang4 繁fan2 溫wen1 遭zao1 般ban1 掌zhang3 盛sheng4 訪fang3 妙miao4
+哉zai1 蹤zong1 姑gu1 蘇su1 費fei4 吟yin2 詩shi1 英ying1 蓮lian2 閒xian2 默mo4 鼓gu3 系xi4 基ji1 盡jin4 寄ji4
+施shi1 適shi4 順shun4 落luo4 君jun1 悟wu4 徹che4 卷juan4 曾ceng2 較jiao4 眉mei2 誠cheng2 彼bi3 裙qun2 餘yu2 悔hui3
+賴lai4 錦jin3 甘gan1 肥fei2 背bei4 教jiao4 育yu4 規gui1 訓xun4 致zhi4 技ji4 述shu4 集ji2 固gu4 護hu4 短duan3
+滅mie4 逐zhu2 次ci4 聊liao2 姊zi3 妹mei4 敢gan3 類lei4 謂wei4 昭zhao1 復fu4 悶men4 醒xing3 宜yi2 乎hu1 唐tang2
+玩wan2 頗po1 趣qu4 味wei4 崖ya2 頑wan2 零ling2 皇huang2 未wei4 棄qi4 鍛duan4 眾zhong4 俱ju4 獨du2 堪kan1 選xuan3
+怨yuan4 悲bei1 哀ai1 際ji4 骨gu3 格ge2 豐feng1 席xi2 闊kuo4 左zuo3 右you4 嘆tan4 息xi1 待dai4 柳liu3 柔rou2
+必bi4 勞lao2 願yuan4 奇qi2 受shou4 豈qi3 歡huan1 符fu2 展zhan3 術shu4 縮suo1 托tuo1 徒tu2 界jie4 裡li3 斷duan4
+值zhi2 章zhang1 顯xian3 赫he4 機ji1 昌chang1 枉wang3 合he2 吾wu2 飄piao1 旁pang2 封feng1 賢xian2 淑shu1 義yi4 甚shen4
+推tui1 族zu2 淡dan4 種zhong3 竹zhu2 乳ru3 炎yan2 永yong3 珠zhu1 窗chuang1 耳er3 布bu4 醉zui4 窮qiong2 湖hu2 末mo4
+宗zong1 根gen1 衰shuai1 喪sang4 整zheng3 業ye4 暫zan4 陪pei2 鬧nao4 賀he4 辭ci2 該gai1 圖tu2 怎zen3 奈nai4 羞xiu1
+蒙meng2 厚hou4 承cheng2 嚴yan2 爺ye2 許xu3 盤pan2 兼jian1 試shi4 檢jian3 束shu4 寸cun4 灰hui1 俗su2 套tao4 奏zou4
+凱kai3 靜jing4 候hou4 佳jia1 音yin1 敘xu4 寒han2 直zhi2 瘋feng1 狂kuang2 拓tuo4 麻ma2 鞋xie2 句ju4 詞ci2 惟wei2
+堆dui1 銀yin2 終zhong1 朝chao2 恨hen4 聚ju4 閉bi4 嬌jiao1 痴chi1 孝xiao4 滿man3 麼me5 宿su4 慧hui4 並bing4 廣guang3
+遊you2 稱cheng1 善shan4 傾qing1 切qie4 依yi1 頓dun4 爽shuang3 亮liang4 跡ji4 歎tan4 捨she3 尋xun2 賞shang3 資zi1 助zhu4
+赴fu4 元yuan2 節jie2 被bei4 災zai1 異yi4 寶bao3
+藏cang2 創chuang4 濟ji4 趟tang4 佛fo2
+`,
+  // Level 3: less common characters
+  3: `
+賈jia3 葫hu2 蘆lu2 廟miao4 跛bo3 碌lu4 閨gui1 瑩ying2 敷fu1 鬚xu1 釵chai1 褲ku4 潦liao2 肖xiao4 併bing4 泯min3
+稽ji1 悼dao4 俄e2 瞧qiao2 蠢chun3 叩kou4 咒zhou4 扇shan4 墜zhui4 灑sa3 悉xi1 宦huan4 嫡di2 恬tian2 酌zhuo2 膝xi1
+晝zhou4 齋zhai1 拈nian1 魁kui2 梧wu2 履lü3 儒ru2 淹yan1 喧xuan1 囊nang2 澀se4 贈zeng4 薦jian4 函han2 倘tang3 僥jiao3
+倖xing4 囑zhu3 咐fu4 塚zhong3 禪chan2 渺miao3 劫jie2 宵xiao1 燈deng1 拐guai3 撰zhuan4
+馮feng2 姥lao3
+`,
+  // Level 4: rare characters, mostly classical or names
+  4: `
+甄zhen1 媧wa1 埂geng3 紈wan2 飫yu4 饜yan4 嗟jie1 迥jiong3 鐫juan1 儻tang3 稟bing3 蹇jian3 鶉chun2 遨ao2
+`,
+};
+
+const buildReadingMap = (): Map<string, CharacterReading> => {
+  const map = new Map<string, CharacterReading>();
+  for (const level of READING_LEVELS) {
+    for (const token of READINGS_BY_LEVEL[level].trim().split(/\s+/)) {
+      const char = token[0];
+      if (!map.has(char)) map.set(char, { pinyin: token.slice(1), level });
+    }
+  }
+  // Simplified forms read the same as their Traditional characters
+  for (const [traditional, reading] of [...map]) {
+    const simplified = TRADITIONAL_TO_SIMPLIFIED_CHARS.get(traditional);
+    if (simplified && !map.has(simplified)) map.set(simplified, reading);
+  }
+  // Every other character takes CC-CEDICT's reading and counts as rare
+  const rare = READING_LEVELS[READING_LEVELS.length - 1];
+  for (const token of cedictReadings.readings.split(' ')) {
+    const char = token[0];
+    if (!map.has(char)) map.set(char, { pinyin: token.slice(1), level: rare });
+  }
+  return map;
+};
+
+/** Character → default reading and difficulty level */
+export const CHARACTER_READINGS: ReadonlyMap<string, CharacterReading> = buildReadingMap();
+
+/**
+ * Default reading and level of a character, or undefined when the character has
+ * no reading (punctuation, Latin letters, characters CC-CEDICT lacks).
+ */
+export function getCharacterReading(char: string): CharacterReading | undefined {
+  return CHARACTER_READINGS.get(char);
+}
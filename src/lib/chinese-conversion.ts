@@ -0,0 +1,96 @@
+/**
+ * @fileOverview Traditional → Simplified Chinese conversion for display
+ *
+ * Converts zh-TW text (the chapter corpus, annotations, notes, AI answers) to
+ * zh-CN as OpenCC's Taiwan → Mainland conversion does, from the OpenCC tables
+ * in `chinese-variants.json`. Text goes through two passes of forward maximum
+ * matching against a phrase table, falling back to a character table:
+ *
+ * 1. Taiwan forms to OpenCC's Traditional forms (裡 → 裏; 著 → 着, but 著名
+ *    and 著作 keep 著);
+ * 2. Traditional to Simplified (乾淨 → 干净, but 乾坤 stays 乾坤).
+ *
+ * A few phrases of the book that OpenCC gets wrong are corrected in the first
+ * pass (`BOOK_PHRASES`).
+ *
+ * Every phrase converts to a phrase of the same length, so converted text keeps
+ * the offsets of the original: selections, notes and highlights made on
+ * Simplified text line up with the zh-TW corpus.
+ */
+
+import variantTables from './chinese-variants.json';
+import { parseOpenccTable, TAIWAN_VARIANT_CHARS } from './chinese-variants';
+
+/**
+ * Corrections to OpenCC's first pass, `taiwan=traditional`, for words of the
+ * book it reads wrongly: 著 as zhù in 專著, 遺著 and 見微知著, and as zhe in
+ * 合著眼 (闔眼) rather than the 合著 of co-authors; 甚麼 is written 什么.
+ */
+const BOOK_PHRASES = `
+專著=專著 遺著=遺著 見微知著=見微知著 合著眼=合着眼 甚麼=什麼
+`;
+
+// One pass of the conversion: phrases first, then characters
+interface ConversionTable {
+  phrases: ReadonlyMap<string, string>;
+  characters: ReadonlyMap<string, string>;
+  maxPhraseLength: number;
+}
+
+const buildTable = (phrases: Map<string, string>, characters: ReadonlyMap<string, string>): ConversionTable => ({
+  phrases,
+  characters,
+  maxPhraseLength: Math.max(...[...phrases.keys()].map(phrase => phrase.length)),
+});
+
+const buildBookPhrases = (): Map<string, string> => {
+  const map = new Map<string, string>();
+  for (const entry of BOOK_PHRASES.split(/\s+/)) {
+    const [traditional, corrected] = entry.split('=');
+    if (!traditional || !corrected || traditional.length !== corrected.length) continue;
+    map.set(traditional, corrected);
+  }
+  return map;
+};
+
+const TAIWAN_PASS = buildTable(
+  new Map([...parseOpenccTable(variantTables.twVariantPhrases), ...buildBookPhrases()]),
+  TAIWAN_VARIANT_CHARS
+);
+
+const SIMPLIFIED_PASS = buildTable(
+  parseOpenccTable(variantTables.phrases),
+  parseOpenccTable(variantTables.characters)
+);
+
+function convertWith(text: string, table: ConversionTable): string {
+  let converted = '';
+  let position = 0;
+  while (position < text.length) {
+    let length = Math.min(table.maxPhraseLength, text.length - position);
+    for (; length > 1; length--) {
+      const phrase = table.phrases.get(text.slice(position, position + length));
+      if (phrase) {
+        converted += phrase;
+        break;
+      }
+    }
+    if (length > 1) {
+      position += length;
+      continue;
+    }
+    const char = text[position];
+    converted += table.characters.get(char) ?? char;
+    position++;
+  }
+  return converted;
+}
+
+/**
+ * Convert Traditional Chinese text to Simplified Chinese. Text already in
+ * Simplified, punctuation and other scripts pass through unchanged; the result
+ * has the same length as the input.
+ */
+export function convertToSimplified(text: string): string {
+  return convertWith(convertWith(text, TAIWAN_PASS), SIMPLIFIED_PASS);
+}
@@ -0,0 +1,66 @@
+/**
+ * @fileOverview Traditional/Simplified Chinese character variants
+ *
+ * A character-level table mapping Traditional characters, as written in
+ * Taiwan, to their Simplified forms. It is OpenCC's Taiwan → Mainland
+ * conversion (`chinese-variants.json`, Apache-2.0): the Taiwan forms are
+ * taken to OpenCC's Traditional forms (裡 → 裏), then to Simplified (裏 → 里).
+ * Search uses it to fold text so that a query typed in either script
+ * (夢 / 梦) matches the zh-TW corpus.
+ *
+ * Folding is one character to one character, so offsets found in folded text
+ * are valid offsets in the original text; the few characters OpenCC
+ * simplifies outside the Basic Multilingual Plane (綎 → 𬘩) are left as they are. Several Traditional characters can
+ * fold to the same Simplified one (髮 / 發 → 发), which is also right for
+ * display. A few characters convert differently by context (乾淨 → 干净 but
+ * 乾坤 stays 乾坤), so text shown to readers goes through the phrase table in
+ * `chinese-conversion.ts`, which falls back to this table.
+ */
+
+import variantTables from './chinese-variants.json';
+
+/**
+ * Parse a table of `chinese-variants.json` (`傳 传|統 统`), generated from the
+ * OpenCC dictionaries by `scripts/build-chinese-variants.ts`.
+ */
+export function parseOpenccTable(table: string): Map<string, string> {
+  return new Map(table.split('|').map(entry => entry.split(' ') as [string, string]));
+}
+
+/** Taiwan forms → OpenCC Traditional forms, applied before conversion */
+export const TAIWAN_VARIANT_CHARS: ReadonlyMap<string, string> = parseOpenccTable(variantTables.twVariants);
+
+const buildVariantMap = (): Map<string, string> => {
+  const characters = parseOpenccTable(variantTables.characters);
+  const map = new Map<string, string>();
+  for (const traditional of new Set([...TAIWAN_VARIANT_CHARS.keys(), ...characters.keys()])) {
+    const standard = TAIWAN_VARIANT_CHARS.get(traditional) ?? traditional;
+    const simplified = characters.get(standard) ?? standard;
+    if (simplified !== traditional) map.set(traditional, simplified);
+  }
+  return map;
+};
+
+/** Traditional character → Simplified character */
+export const TRADITIONAL_TO_SIMPLIFIED_CHARS: ReadonlyMap<string, string> = buildVariantMap();
+
+/**
+ * Fold Traditional characters to their Simplified forms, character by character.
+ * The result has the same length as the input.
+ */
+export function foldChineseVariants(text: string): string {
+  let folded = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    folded += TRADITIONAL_TO_SIMPLIFIED_CHARS.get(char) ?? char;
+  }
+  return folded;
+}
+
+/**
+ * Normalize text for search: fold script variants and case.
+ * Keeps a one-to-one character correspondence with the input.
+ */
+export function normalizeForSearch(text: string): string {
+  return foldChineseVariants(text).toLowerCase();
+}
@@ -0,0 +1,208 @@
+/**
+ * @fileOverview Cumulative knowledge graph: chapters 1..N merged into one
+ *
+ * Merges the chapter graphs a reader has reached into one network, resolving
+ * names across chapters so each person or thing is one node:
+ *
+ * - People through the character catalog: an entity's `characterId`, or a name
+ *   that is a graph entity or known alias of exactly one character
+ *   (絳珠草, 絳珠仙子 → 林黛玉). Names shared by several characters (一僧一道)
+ *   stay nodes of their own.
+ * - Other entities through the entity catalog, by `entityId` or name
+ *   (石頭, 補天石 → 通靈寶玉).
+ *
+ * Every node and edge records the chapters it comes from, so the network can be
+ * replayed chapter by chapter with `sliceCumulativeGraph`. Names follow the
+ * reader's progress like character cards do: through chapter 1, 林黛玉 is 絳珠仙子.
+ * Entities whose name, aliases or owner changed along the way keep each
+ * naming, so a slice shows them as they were known at its chapter.
+ *
+ * This module is client-safe; `GET /api/graph/cumulative` builds the graph
+ * from the served chapter graphs.
+ */
+
+import type { CatalogCharacter, CharacterCatalogJson } from '@/types/character';
+import type { CatalogEntity, EntityCatalogJson } from '@/types/entity';
+import type {
+  CumulativeGraph,
+  CumulativeGraphEntity,
+  CumulativeGraphEntityNaming,
+  CumulativeGraphRelationship,
+  GraphEntity,
+  StructuredChapterGraph,
+} from '@/types/graph';
+import { getCharacterProfile, getKnownAliases } from './character-catalog';
+import { buildEntityCatalogIndex, findCatalogEntity } from './entity-catalog';
+
+/** Catalogs used to resolve names across chapters */
+export interface CumulativeGraphCatalogs {
+  characters: CharacterCatalogJson;
+  entities: EntityCatalogJson;
+}
+
+// An entity of the merged graph while chapters are being added
+interface EntityDraft {
+  id: string;
+  /** Names in the order seen, with the chapter each was first seen in */
+  names: Map<string, number>;
+  character?: CatalogCharacter;
+  catalogEntity?: CatalogEntity;
+  type?: GraphEntity['type'];
+  chapters: Set<number>;
+}
+
+// Names that point to exactly one character at a chapter; shared names map to null
+function indexCharacterNames(catalog: CharacterCatalogJson, chapter: number): Map<string, CatalogCharacter | null> {
+  const names = new Map<string, CatalogCharacter | null>();
+  for (const character of catalog.characters) {
+    for (const name of new Set([...character.graphEntities, ...getKnownAliases(character, chapter)])) {
+      names.set(name, names.has(name) && names.get(name) !== character ? null : character);
+    }
+  }
+  return names;
+}
+
+// The entity's name, aliases and owner as known after `chapter`
+function nameEntity(draft: EntityDraft, chapter: number): CumulativeGraphEntityNaming {
+  const seen = [...draft.names].filter(([, firstChapter]) => firstChapter <= chapter).map(([name]) => name);
+  const name = draft.character
+    ? getCharacterProfile(draft.character, chapter).name
+    : draft.catalogEntity?.name ?? seen[0];
+  const aliases = seen.filter(alias => alias !== name);
+  const owner = draft.catalogEntity?.owner;
+  return {
+    fromChapter: chapter,
+    name,
+    ...(aliases.length > 0 && { aliases }),
+    ...(owner && owner.fromChapter <= chapter && { ownerCharacterId: owner.characterId }),
+  };
+}
+
+const sameNaming = (a: CumulativeGraphEntityNaming, b: CumulativeGraphEntityNaming) =>
+  a.name === b.name && a.ownerCharacterId === b.ownerCharacterId && (a.aliases ?? []).join('\u0000') === (b.aliases ?? []).join('\u0000');
+
+// The entity's namings from its first chapter to `through`, one per change
+function nameHistory(draft: EntityDraft, through: number): CumulativeGraphEntityNaming[] {
+  const namings: CumulativeGraphEntityNaming[] = [];
+  for (let chapter = Math.min(...draft.chapters); chapter <= through; chapter++) {
+    const naming = nameEntity(draft, chapter);
+    if (namings.length === 0 || !sameNaming(namings[namings.length - 1], naming)) namings.push(naming);
+  }
+  return namings;
+}
+
+// The fields a naming sets on an entity
+const namedAs = ({ fromChapter: _fromChapter, ...naming }: CumulativeGraphEntityNaming) => naming;
+
+const relationshipKey = (source: string, relation: string, target: string, undirected: boolean) =>
+  (undirected && target < source ? [target, relation, source] : [source, relation, target]).join('\u0000');
+
+/**
+ * Merge the graphs of chapters 1..`through`.
+ * @param graphs - Chapter graphs in any order; graphs after `through` are ignored
+ */
+export function buildCumulativeGraph(
+  graphs: StructuredChapterGraph[],
+  catalogs: CumulativeGraphCatalogs,
+  through: number
+): CumulativeGraph {
+  const characters = new Map(catalogs.characters.characters.map(character => [character.id, character]));
+  const catalogEntities = buildEntityCatalogIndex(catalogs.entities);
+
+  const drafts = new Map<string, EntityDraft>();
+  const relationships = new Map<string, CumulativeGraphRelationship>();
+  const included = graphs.filter(graph => graph.chapter <= through).sort((a, b) => a.chapter - b.chapter);
+
+  for (const graph of included) {
+    const characterNames = indexCharacterNames(catalogs.characters, graph.chapter);
+    // Chapter entity id → merged entity id
+    const resolved = new Map<string, string>();
+
+    for (const entity of graph.entities) {
+      const named = (entity.characterId && characters.get(entity.characterId)) || characterNames.get(entity.name) || undefined;
+      const listed = named ? undefined : findCatalogEntity(catalogEntities, entity);
+      // Catalog entries of people share the character's id
+      const character = named ?? (listed && characters.get(listed.id));
+      const catalogEntity = character ? undefined : listed;
+      const id = character?.id ?? entity.characterId ?? catalogEntity?.id ?? entity.name;
+
+      const draft: EntityDraft = drafts.get(id) ?? { id, names: new Map(), character, catalogEntity, chapters: new Set<number>() };
+      drafts.set(id, draft);
+      for (const name of [entity.name, ...(entity.aliases ?? [])]) {
+        if (!draft.names.has(name)) draft.names.set(name, graph.chapter);
+      }
+      draft.type ??= entity.type;
+      draft.chapters.add(graph.chapter);
+      resolved.set(entity.id, id);
+    }
+
+    for (const relationship of graph.relationships) {
+      const source = resolved.get(relationship.source)!;
+      const target = resolved.get(relationship.target)!;
+      // Relationships between two names of one entity (絳珠草 修成 絳珠仙子) merge away
+      if (source === target) continue;
+      const key = relationshipKey(source, relationship.relation, target, relationship.direction === 'undirected');
+      const existing = relationships.get(key);
+      if (existing) {
+        if (!existing.chapters.includes(graph.chapter)) existing.chapters.push(graph.chapter);
+        continue;
+      }
+      relationships.set(key, { ...relationship, source, target, chapters: [graph.chapter] });
+    }
+  }
+
+  const entities = [...drafts.values()].map((draft): CumulativeGraphEntity => {
+    const namings = nameHistory(draft, through);
+    const type = draft.character ? 'character' : draft.catalogEntity?.type ?? draft.type;
+    return {
+      id: draft.id,
+      ...namedAs(namings[namings.length - 1]),
+      ...(type && { type }),
+      ...(draft.character && { characterId: draft.character.id }),
+      ...(draft.catalogEntity && { entityId: draft.catalogEntity.id }),
+      chapters: [...draft.chapters].sort((a, b) => a - b),
+      ...(namings.length > 1 && { namings }),
+    };
+  });
+
+  return {
+    through,
+    chapters: included.map(graph => graph.chapter),
+    entities,
+    relationships: [...relationships.values()],
+  };
+}
+
+// An entity as it was known after `chapter`
+function entityAfter(entity: CumulativeGraphEntity, chapter: number): CumulativeGraphEntity {
+  const chapters = entity.chapters.filter(value => value <= chapter);
+  const namings = entity.namings?.filter(naming => naming.fromChapter <= chapter);
+  if (!namings || namings.length === entity.namings?.length) return { ...entity, chapters };
+
+  const { aliases: _aliases, ownerCharacterId: _ownerCharacterId, namings: _namings, ...unnamed } = entity;
+  return {
+    ...unnamed,
+    ...namedAs(namings[namings.length - 1]),
+    chapters,
+    ...(namings.length > 1 && { namings }),
+  };
+}
+
+/**
+ * The cumulative graph as it stood after `chapter`: the entities and
+ * relationships first shown by then, with their chapters up to it and
+ * entities named as they were known then.
+ */
+export function sliceCumulativeGraph(graph: CumulativeGraph, chapter: number): CumulativeGraph {
+  const upTo = (chapters: number[]) => chapters.filter(value => value <= chapter);
+  return {
+    through: Math.min(chapter, graph.through),
+    chapters: upTo(graph.chapters),
+    entities: graph.entities
+      .filter(entity => entity.chapters[0] <= chapter)
+      .map(entity => entityAfter(entity, chapter)),
+    relationships: graph.relationships
+      .filter(relationship => relationship.chapters[0] <= chapter)
+      .map(relationship => ({ ...relationship, chapters: upTo(relationship.chapters) })),
+  };
+}
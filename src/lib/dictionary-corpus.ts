@@ -0,0 +1,44 @@
+/**
+ * @fileOverview Server-side access to the bundled dictionary dataset
+ *
+ * Reads the hand-edited `src/app/(main)/read/dictionary/dictionary.json` and
+ * the CC-CEDICT selection next to it (`cedict.json`, see `src/lib/cedict.ts`)
+ * and serves them as one dictionary. Hand-edited entries come first and
+ * replace CC-CEDICT entries with the same headword and reading.
+ * Only import this module from API routes and scripts; it depends on Node's `fs`.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import type { DictionaryJson } from '@/types/dictionary';
+import { pinyinKey } from './cedict';
+import { normalizeDictionaryJson } from './dictionary';
+
+const DICTIONARY_DIR = path.join(process.cwd(), 'src', 'app', '(main)', 'read', 'dictionary');
+
+/** The hand-edited dictionary dataset file */
+export const DICTIONARY_FILE = path.join(DICTIONARY_DIR, 'dictionary.json');
+
+/** The CC-CEDICT selection written by `scripts/build-dictionary.ts` */
+export const CEDICT_FILE = path.join(DICTIONARY_DIR, 'cedict.json');
+
+/**
+ * Read and validate the dictionary dataset, CC-CEDICT selection included.
+ * @throws Error when a file is missing or malformed
+ */
+export async function readDictionaryFromCorpus(): Promise<DictionaryJson> {
+  const [data, cedict] = await Promise.all(
+    [DICTIONARY_FILE, CEDICT_FILE].map(async file => JSON.parse(await fs.readFile(file, 'utf-8')))
+  );
+  const edited = normalizeDictionaryJson(data);
+  const readings = new Set(edited.map(entry => `${entry.traditional} ${pinyinKey(entry.pinyin)}`));
+  const imported = normalizeDictionaryJson(cedict)
+    .filter(entry => !readings.has(`${entry.traditional} ${pinyinKey(entry.pinyin)}`));
+  return {
+    name: data.name,
+    version: data.version,
+    license: data.license,
+    attribution: cedict.attribution,
+    entries: [...edited, ...imported],
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * @fileOverview Reading dictionary: word segmentation and lookup of selected text
+ *
+ * Looks selected text up in the bundled dictionary dataset
+ * (`src/app/(main)/read/dictionary/`) without calling the AI.
+ * The selection is split into words by forward maximum matching: at each
+ * position the longest headword that matches wins, so 飫甘饜肥 is found as one
+ * word before 飫 on its own. Headwords are indexed with Traditional characters
+ * folded to Simplified (`chinese-variants.ts`), so selections in either script
+ * find the same entries.
+ *
+ * This module is client-safe; the dataset is read by `dictionary-corpus.ts`
+ * and served by `GET /api/dictionary`.
+ */
+
+import type { DictionaryEntry, DictionaryJson, DictionarySegment } from '@/types/dictionary';
+import { foldChineseVariants } from './chinese-variants';
+
+/** Longest selection looked up; longer selections are cut off */
+export const MAX_LOOKUP_LENGTH = 40;
+
+/** A dictionary indexed for lookup */
+export interface Dictionary {
+  entries: DictionaryEntry[];
+  /** Folded headword → entries with that headword */
+  index: Map<string, DictionaryEntry[]>;
+  /** Length of the longest headword */
+  maxWordLength: number;
+}
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim().length > 0);
+
+/**
+ * Validate a raw dictionary dataset.
+ * @param data - Parsed JSON from the dataset file or API response
+ * @returns The dictionary entries
+ * @throws Error describing the first schema violation found
+ */
+export function normalizeDictionaryJson(data: unknown): DictionaryEntry[] {
+  const raw = data as DictionaryJson;
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.entries)) {
+    throw new Error('Dictionary data must be an object with an entries array');
+  }
+
+  const readings = new Set<string>();
+  return raw.entries.map((item, index) => {
+    const label = `Dictionary entry ${index + 1}`;
+    if (!item || typeof item !== 'object' || typeof item.traditional !== 'string' || !item.traditional) {
+      throw new Error(`${label} has no headword`);
+    }
+    // A headword may have several readings (長 chang2, zhang3), each once
+    const reading = `${item.traditional} ${typeof item.pinyin === 'string' ? item.pinyin.trim() : ''}`;
+    if (readings.has(reading)) {
+      throw new Error(`${label} repeats headword ${item.traditional} (${item.pinyin})`);
+    }
+    readings.add(reading);
+    if (typeof item.simplified !== 'string' || item.simplified.length !== item.traditional.length) {
+      throw new Error(`${label} (${item.traditional}) needs a simplified headword of the same length`);
+    }
+    if (typeof item.pinyin !== 'string' || item.pinyin.trim().split(/\s+/).length !== item.traditional.length) {
+      throw new Error(`${label} (${item.traditional}) needs one pinyin syllable per character`);
+    }
+    if (item.definitions !== undefined && !isStringList(item.definitions)) {
+      throw new Error(`${label} (${item.traditional}) has malformed definitions`);
+    }
+    if (item.english !== undefined && !isStringList(item.english)) {
+      throw new Error(`${label} (${item.traditional}) has malformed English glosses`);
+    }
+    if (!item.definitions?.length && !item.english?.length) {
+      throw new Error(`${label} (${item.traditional}) needs at least one definition or English gloss`);
+    }
+    if (item.usage !== undefined && !(Array.isArray(item.usage) && item.usage.every(
+      usage => usage && typeof usage.text === 'string' && usage.text && typeof usage.source === 'string' && usage.source
+    ))) {
+      throw new Error(`${label} (${item.traditional}) has malformed usage quotations`);
+    }
+
+    return {
+      traditional: item.traditional,
+      simplified: item.simplified,
+      pinyin: item.pinyin.trim(),
+      definitions: item.definitions ?? [],
+      ...(item.english && { english: item.english }),
+      ...(item.usage && { usage: item.usage.map(usage => ({ text: usage.text, source: usage.source })) }),
+    };
+  });
+}
+
+/**
+ * Index dictionary entries by headword in both scripts.
+ */
+export function buildDictionary(entries: DictionaryEntry[]): Dictionary {
+  const index = new Map<string, DictionaryEntry[]>();
+  let maxWordLength = 0;
+  for (const entry of entries) {
+    const keys = new Set([foldChineseVariants(entry.traditional), foldChineseVariants(entry.simplified)]);
+    for (const key of keys) {
+      const existing = index.get(key);
+      if (existing) existing.push(entry);
+      else index.set(key, [entry]);
+    }
+    maxWordLength = Math.max(maxWordLength, entry.traditional.length);
+  }
+  return { entries, index, maxWordLength };
+}
+
+/**
+ * Find the entries for a word. Entries written exactly as the word come first;
+ * the rest only share its folded form (e.g. 鬚 and 須 both fold to 须).
+ */
+export function lookupWord(dictionary: Dictionary, word: string): DictionaryEntry[] {
+  const entries = dictionary.index.get(foldChineseVariants(word)) ?? [];
+  const exact = (entry: DictionaryEntry) => entry.traditional === word || entry.simplified === word;
+  return [...entries.filter(exact), ...entries.filter(entry => !exact(entry))];
+}
+
+/**
+ * Split text into dictionary words by forward maximum matching. Consecutive
+ * characters that start no headword are kept together as one segment without
+ * entries.
+ */
+export function segmentText(dictionary: Dictionary, text: string): DictionarySegment[] {
+  const folded = foldChineseVariants(text);
+  const segments: DictionarySegment[] = [];
+  let unmatchedStart = -1;
+
+  const flushUnmatched = (end: number) => {
+    if (unmatchedStart >= 0) {
+      segments.push({ text: text.slice(unmatchedStart, end), start: unmatchedStart, end, entries: [] });
+      unmatchedStart = -1;
+    }
+  };
+
+  let position = 0;
+  while (position < text.length) {
+    let length = Math.min(dictionary.maxWordLength, text.length - position);
+    for (; length > 0; length--) {
+      if (dictionary.index.has(folded.slice(position, position + length))) break;
+    }
+    if (length === 0) {
+      if (unmatchedStart < 0) unmatchedStart = position;
+      position++;
+      continue;
+    }
+    flushUnmatched(position);
+    const word = text.slice(position, position + length);
+    segments.push({ text: word, start: position, end: position + length, entries: lookupWord(dictionary, word) });
+    position += length;
+  }
+  flushUnmatched(text.length);
+  return segments;
+}
+
+/**
+ * Look up a reader's selection: trimmed, cut to MAX_LOOKUP_LENGTH, then segmented.
+ */
+export function lookupSelection(dictionary: Dictionary, selection: string): DictionarySegment[] {
+  return segmentText(dictionary, selection.trim().slice(0, MAX_LOOKUP_LENGTH));
+}
+
+/**
+ * The words a lookup found, once each, in the order they appear.
+ */
+export function getLookedUpEntries(segments: DictionarySegment[]): DictionaryEntry[] {
+  const found = new Map<string, DictionaryEntry>();
+  for (const segment of segments) {
+    const entry = segment.entries[0];
+    if (entry && !found.has(entry.traditional)) {
+      found.set(entry.traditional, entry);
+    }
+  }
+  return [...found.values()];
+}
+
+const TONE_MARKS: Record<string, string[]> = {
+  a: ['ā', 'á', 'ǎ', 'à'],
+  e: ['ē', 'é', 'ě', 'è'],
+  i: ['ī', 'í', 'ǐ', 'ì'],
+  o: ['ō', 'ó', 'ǒ', 'ò'],
+  u: ['ū', 'ú', 'ǔ', 'ù'],
+  ü: ['ǖ', 'ǘ', 'ǚ', 'ǜ'],
+};
+
+const markSyllable = (syllable: string): string => {
+  const match = /^([a-zü:]+)([1-5])?$/i.exec(syllable.replace(/u:|v/gi, 'ü'));
+  if (!match) return syllable;
+  const [, letters, toneDigit] = match;
+  const tone = Number(toneDigit ?? 5);
+  if (tone === 5) return letters;
+
+  // The mark goes on a or e, on the o of "ou", otherwise on the last vowel
+  const lower = letters.toLowerCase();
+  let target = lower.search(/[ae]/);
+  if (target < 0) target = lower.indexOf('ou');
+  if (target < 0) {
+    for (let i = lower.length - 1; i >= 0; i--) {
+      if (TONE_MARKS[lower[i]]) {
+        target = i;
+        break;
+      }
+    }
+  }
+  if (target < 0) return letters;
+
+  const marked = TONE_MARKS[lower[target]][tone - 1];
+  const isUpper = letters[target] !== lower[target];
+  return letters.slice(0, target) + (isUpper ? marked.toUpperCase() : marked) + letters.slice(target + 1);
+};
+
+/**
+ * Turn numbered-tone pinyin into tone marks: `yu4 gan1 yan4 fei2` → `yù gān yàn féi`.
+ * Neutral tones (5 or no digit) are left unmarked; `v` and `u:` are read as ü.
+ */
+export function formatPinyin(pinyin: string): string {
+  return pinyin.trim().split(/\s+/).map(markSyllable).join(' ');
+}
+
+let dictionaryPromise: Promise<Dictionary> | null = null;
+
+/**
+ * Load the dictionary from the dictionary API. The dataset is fetched once per
+ * page load; a failed load is retried on the next call.
+ */
+export const loadDictionary = (): Promise<Dictionary> => {
+  if (!dictionaryPromise) {
+    dictionaryPromise = (async () => {
+      const response = await fetch('/api/dictionary');
+      if (!response.ok) {
+        throw new Error(`Failed to load dictionary (${response.status})`);
+      }
+      return buildDictionary(normalizeDictionaryJson(await response.json()));
+    })();
+    dictionaryPromise.catch(() => {
+      dictionaryPromise = null;
+    });
+  }
+  return dictionaryPromise;
+};
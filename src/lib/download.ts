@@ -0,0 +1,28 @@
+/**
+ * @fileOverview Save generated files from the browser
+ *
+ * Shared by the exports that build a file in memory (chapters, knowledge
+ * graphs) and hand it to the user as a download.
+ */
+
+/** A generated file ready to download */
+export interface DownloadableFile {
+  fileName: string;
+  mimeType: string;
+  data: string | Uint8Array;
+}
+
+/**
+ * Download a file through a temporary object URL.
+ */
+export function downloadFile(file: DownloadableFile) {
+  const blob = new Blob([file.data], { type: file.mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,170 @@
+/**
+ * @fileOverview Variant collation (校勘) between two editions of a chapter
+ *
+ * Paragraphs are aligned by id (falling back to position) and compared
+ * character by character with a longest-common-subsequence diff, which suits
+ * classical Chinese where there are no word boundaries to diff on. The result
+ * drives the side-by-side collation view on the reading page.
+ */
+
+import type { Chapter } from '@/types/chapter';
+import { getParagraphText } from './chapter-loader';
+
+/**
+ * One run of text in a collated paragraph
+ * - `equal`: present in both editions
+ * - `removed`: only in the base edition
+ * - `added`: only in the compared edition
+ */
+export interface CollationSegment {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+/**
+ * Collation result for one aligned paragraph pair
+ */
+export interface CollatedParagraph {
+  /** Paragraph id from the base edition (or the compared edition when absent in the base) */
+  paragraphId: string;
+  /** Base edition text, or empty when the paragraph exists only in the compared edition */
+  baseText: string;
+  /** Compared edition text, or empty when the paragraph exists only in the base edition */
+  witnessText: string;
+  /** Ordered diff segments */
+  segments: CollationSegment[];
+  /** Number of variant readings (contiguous non-equal runs) */
+  variantCount: number;
+}
+
+const pushSegment = (segments: CollationSegment[], type: CollationSegment['type'], text: string) => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * Character-level diff between two strings.
+ * @returns Segments that rebuild `base` from equal + removed and `witness` from equal + added
+ */
+export function diffText(base: string, witness: string): CollationSegment[] {
+  const a = Array.from(base);
+  const b = Array.from(witness);
+
+  // Trim the common prefix and suffix so the LCS table only covers the variant region
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+
+  // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const segments: CollationSegment[] = [];
+  pushSegment(segments, 'equal', a.slice(0, prefix).join(''));
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      pushSegment(segments, 'equal', midA[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      pushSegment(segments, 'removed', midA[i]);
+      i++;
+    } else {
+      pushSegment(segments, 'added', midB[j]);
+      j++;
+    }
+  }
+  pushSegment(segments, 'removed', midA.slice(i).join(''));
+  pushSegment(segments, 'added', midB.slice(j).join(''));
+
+  pushSegment(segments, 'equal', a.slice(a.length - suffix).join(''));
+  return segments;
+}
+
+/**
+ * Count variant readings: each maximal run of non-equal segments counts once,
+ * so a substitution (removed + added) is a single variant.
+ */
+export function countVariants(segments: CollationSegment[]): number {
+  let count = 0;
+  let inVariant = false;
+  for (const segment of segments) {
+    if (segment.type === 'equal') {
+      inVariant = false;
+    } else if (!inVariant) {
+      count++;
+      inVariant = true;
+    }
+  }
+  return count;
+}
+
+/**
+ * Collate two editions of the same chapter paragraph by paragraph.
+ * @param base - Edition shown on the left (the one being read)
+ * @param witness - Edition it is compared against
+ */
+export function collateChapters(base: Chapter, witness: Chapter): CollatedParagraph[] {
+  const witnessById = new Map(witness.paragraphs.map(p => [p.id, p]));
+  const baseIds = new Set(base.paragraphs.map(p => p.id));
+  const matchedWitnessIds = new Set<string>();
+
+  const collated = base.paragraphs.map((paragraph, index) => {
+    // Fall back to position only when the positional paragraph has no id match of its own
+    const positional = witness.paragraphs[index];
+    const counterpart = witnessById.get(paragraph.id)
+      ?? (positional && !baseIds.has(positional.id) && !matchedWitnessIds.has(positional.id) ? positional : undefined);
+    if (counterpart) matchedWitnessIds.add(counterpart.id);
+    const baseText = getParagraphText(paragraph);
+    const witnessText = counterpart ? getParagraphText(counterpart) : '';
+    const segments = diffText(baseText, witnessText);
+    return {
+      paragraphId: paragraph.id,
+      baseText,
+      witnessText,
+      segments,
+      variantCount: countVariants(segments),
+    };
+  });
+
+  // Paragraphs that only the compared edition has
+  witness.paragraphs
+    .filter(paragraph => !matchedWitnessIds.has(paragraph.id))
+    .forEach(paragraph => {
+      const witnessText = getParagraphText(paragraph);
+      const segments = diffText('', witnessText);
+      collated.push({
+        paragraphId: paragraph.id,
+        baseText: '',
+        witnessText,
+        segments,
+        variantCount: countVariants(segments),
+      });
+    });
+
+  return collated;
+}
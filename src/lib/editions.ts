@@ -0,0 +1,78 @@
+/**
+ * @fileOverview Registry of text editions available to the reader
+ *
+ * The default reading text (通行本) is the corpus under `chapterText/`. The
+ * historical editions below store their own chapter files under
+ * `chapterText/editions/{editionId}/`. This module is client-safe and is shared
+ * by the chapter API, the reading page and the library page.
+ */
+
+import type { EditionId, EditionInfo } from '@/types/chapter';
+
+/** Edition used when no edition is requested */
+export const DEFAULT_EDITION_ID: EditionId = 'standard';
+
+/** All known editions, in display order */
+export const EDITIONS: EditionInfo[] = [
+  {
+    id: 'standard',
+    nameKey: 'editions.standard.name',
+    descriptionKey: 'editions.standard.description',
+    chapterCount: 120,
+    missingChapters: [],
+  },
+  {
+    id: 'gengchen',
+    nameKey: 'editions.gengchen.name',
+    descriptionKey: 'editions.gengchen.description',
+    chapterCount: 80,
+    missingChapters: [64, 67],
+  },
+  {
+    id: 'chengjia',
+    nameKey: 'editions.chengjia.name',
+    descriptionKey: 'editions.chengjia.description',
+    chapterCount: 120,
+    missingChapters: [],
+  },
+  {
+    id: 'chengyi',
+    nameKey: 'editions.chengyi.name',
+    descriptionKey: 'editions.chengyi.description',
+    chapterCount: 120,
+    missingChapters: [],
+  },
+];
+
+/**
+ * Type guard for edition ids coming from URLs or request parameters
+ */
+export function isEditionId(value: unknown): value is EditionId {
+  return typeof value === 'string' && EDITIONS.some(edition => edition.id === value);
+}
+
+/**
+ * Look up edition metadata, falling back to the default edition
+ */
+export function getEdition(editionId: EditionId): EditionInfo {
+  return EDITIONS.find(edition => edition.id === editionId) ?? EDITIONS[0];
+}
+
+/**
+ * Whether an edition contains a chapter at all (independent of whether its
+ * text has been added to the corpus yet). The 80-chapter 脂本 end at chapter 80.
+ */
+export function editionCoversChapter(editionId: EditionId, chapterNumber: number): boolean {
+  const edition = getEdition(editionId);
+  return Number.isInteger(chapterNumber)
+    && chapterNumber >= 1
+    && chapterNumber <= edition.chapterCount
+    && !edition.missingChapters.includes(chapterNumber);
+}
+
+/**
+ * Reader URL for an edition, used by the library page
+ */
+export function getEditionReadLink(editionId: EditionId): string {
+  return editionId === DEFAULT_EDITION_ID ? '/read-book' : `/read-book?edition=${editionId}`;
+}
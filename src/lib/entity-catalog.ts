@@ -0,0 +1,145 @@
+/**
+ * @fileOverview Entity catalog: types and names of knowledge graph entities
+ *
+ * Validates and loads the entity dataset (`src/app/(main)/read/entities/entities.json`).
+ * Each entry types an entity (type, category, importance, family or faction);
+ * the graph view finds the entry of a graph entity by its `entityId` or
+ * `characterId`, or by name for graph files that reference no ids, and only
+ * types entities the catalog does not list by their names.
+ *
+ * The catalog also lists the names the chapter graphs use for the same thing
+ * (石頭, 補天石 → 通靈寶玉). The cumulative graph uses it to merge them; people
+ * are merged with the character catalog instead.
+ *
+ * This module is client-safe; the dataset is read by `entity-corpus.ts` and
+ * served by `GET /api/entities`.
+ */
+
+import type { CatalogEntity, EntityCatalogJson, EntityImportance } from '@/types/entity';
+import type { GraphEntity } from '@/types/graph';
+import { isValidChapterNumber } from './chapter-loader';
+import { GRAPH_ENTITY_TYPES } from './graph-schema';
+
+export const ENTITY_IMPORTANCE_LEVELS: EntityImportance[] = ['primary', 'secondary', 'tertiary'];
+
+/** Catalog entries by id and by every name */
+export interface EntityCatalogIndex {
+  byId: Map<string, CatalogEntity>;
+  byName: Map<string, CatalogEntity>;
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Validate a raw entity catalog.
+ * @param data - Parsed JSON from the dataset file or API response
+ * @returns The catalog
+ * @throws Error describing the first schema violation found
+ */
+export function normalizeEntityCatalog(data: unknown): EntityCatalogJson {
+  const raw = data as EntityCatalogJson;
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.entities)) {
+    throw new Error('Entity catalog must be an object with an entities array');
+  }
+
+  const ids = new Set<string>();
+  const nameOwners = new Map<string, string>();
+  const entities = raw.entities.map((item, index): CatalogEntity => {
+    if (!item || typeof item !== 'object' || !isNonEmptyString(item.id)) {
+      throw new Error(`Entity ${index + 1} has no id`);
+    }
+    const label = `Entity ${item.id}`;
+    if (ids.has(item.id)) {
+      throw new Error(`${label} is listed twice`);
+    }
+    ids.add(item.id);
+    if (!isNonEmptyString(item.name)) {
+      throw new Error(`${label} has no name`);
+    }
+    if (!Array.isArray(item.aliases) || !item.aliases.every(isNonEmptyString)) {
+      throw new Error(`${label} has malformed aliases`);
+    }
+    for (const name of [item.name, ...item.aliases]) {
+      const owner = nameOwners.get(name);
+      if (owner) {
+        throw new Error(`${label} repeats name ${name} of ${owner}`);
+      }
+      nameOwners.set(name, item.id);
+    }
+    if (!GRAPH_ENTITY_TYPES.includes(item.type)) {
+      throw new Error(`${label} has an unknown type ${item.type}`);
+    }
+    if (!isNonEmptyString(item.category)) {
+      throw new Error(`${label} has no category`);
+    }
+    if (!ENTITY_IMPORTANCE_LEVELS.includes(item.importance)) {
+      throw new Error(`${label} has an unknown importance ${item.importance}`);
+    }
+    if (item.faction !== undefined && !isNonEmptyString(item.faction)) {
+      throw new Error(`${label} has a malformed faction`);
+    }
+    if (item.owner !== undefined && !(isNonEmptyString(item.owner?.characterId) && isValidChapterNumber(item.owner.fromChapter))) {
+      throw new Error(`${label} has a malformed owner`);
+    }
+
+    return {
+      id: item.id,
+      name: item.name,
+      aliases: item.aliases,
+      type: item.type,
+      category: item.category,
+      importance: item.importance,
+      ...(item.faction && { faction: item.faction }),
+      ...(item.owner && { owner: { characterId: item.owner.characterId, fromChapter: item.owner.fromChapter } }),
+    };
+  });
+
+  return { version: raw.version, entities };
+}
+
+/**
+ * Index a catalog for `findCatalogEntity`.
+ */
+export function buildEntityCatalogIndex(catalog: EntityCatalogJson): EntityCatalogIndex {
+  const byId = new Map<string, CatalogEntity>();
+  const byName = new Map<string, CatalogEntity>();
+  for (const entity of catalog.entities) {
+    byId.set(entity.id, entity);
+    for (const name of [entity.name, ...entity.aliases]) byName.set(name, entity);
+  }
+  return { byId, byName };
+}
+
+/**
+ * Find the catalog entry of a graph entity: by its entity or character id,
+ * else by name for graph files that reference no ids.
+ * @returns The entry, or undefined when the catalog does not list the entity
+ */
+export function findCatalogEntity(index: EntityCatalogIndex, entity: GraphEntity): CatalogEntity | undefined {
+  return (entity.entityId && index.byId.get(entity.entityId))
+    || (entity.characterId && index.byId.get(entity.characterId))
+    || index.byName.get(entity.name);
+}
+
+let catalogPromise: Promise<EntityCatalogJson> | null = null;
+
+/**
+ * Load the entity catalog from the entities API. The dataset is fetched
+ * once per page load; a failed load is retried on the next call.
+ */
+export const loadEntityCatalog = (): Promise<EntityCatalogJson> => {
+  if (!catalogPromise) {
+    catalogPromise = (async () => {
+      const response = await fetch('/api/entities');
+      if (!response.ok) {
+        throw new Error(`Failed to load entity catalog (${response.status})`);
+      }
+      return normalizeEntityCatalog(await response.json());
+    })();
+    catalogPromise.catch(() => {
+      catalogPromise = null;
+    });
+  }
+  return catalogPromise;
+};
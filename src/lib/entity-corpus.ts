@@ -0,0 +1,22 @@
+/**
+ * @fileOverview Server-side access to the bundled entity catalog
+ *
+ * Reads `src/app/(main)/read/entities/entities.json`. Only import this
+ * module from API routes and scripts; it depends on Node's `fs`.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import type { EntityCatalogJson } from '@/types/entity';
+import { normalizeEntityCatalog } from './entity-catalog';
+
+/** The entity catalog file */
+export const ENTITY_CATALOG_FILE = path.join(process.cwd(), 'src', 'app', '(main)', 'read', 'entities', 'entities.json');
+
+/**
+ * Read and validate the entity catalog.
+ * @throws Error when the file is missing or malformed
+ */
+export async function readEntityCatalogFromCorpus(): Promise<EntityCatalogJson> {
+  return normalizeEntityCatalog(JSON.parse(await fs.readFile(ENTITY_CATALOG_FILE, 'utf-8')));
+}
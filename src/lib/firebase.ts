@@ -6,6 +6,7 @@
  * - Authentication service setup for user management
  * - Optional services (Firestore, Storage, Analytics) ready for future use
  * - Development debugging and error handling
+ * - Offline persistence for Firestore reads in the browser
  * 
  * The configuration uses environment variables for security and flexibility
  * across different deployment environments (development, staging, production).
@@ -16,7 +17,13 @@ import { initializeApp, getApps, getApp, type FirebaseOptions } from 'firebase/a
 // Import authentication services for user login/logout functionality
 import { getAuth } from 'firebase/auth';
 // Import Firebase services for database and storage functionality
-import { getFirestore } from 'firebase/firestore'; // Database for storing user data and progress
+import {
+  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  type Firestore,
+} from 'firebase/firestore'; // Database for storing user data and progress
 import { getStorage } from 'firebase/storage'; // File storage for user uploads and assets
 // import { getAnalytics } from "firebase/analytics"; // Analytics for usage tracking and insights
 
@@ -63,7 +70,32 @@ if (!firebaseConfig.projectId) {
 // This pattern prevents re-initializing the app on hot reloads in development
 const app = !getApps().length ? initializeApp(firebaseConfig) : getApp();
 const auth = getAuth(app);
-const db = getFirestore(app); // Firestore database for community posts and user data
+
+/**
+ * In the browser Firestore keeps a persistent cache in IndexedDB (shared
+ * between tabs), so notes, highlights and the profile already loaded stay
+ * readable offline. initializeFirestore may only run once per app, so hot
+ * reloads and browsers without IndexedDB fall back to the default instance.
+ *
+ * Writes do not fail while the server is unreachable; they wait for it. Code
+ * that must not hang goes through src/lib/offline-sync.ts, which gives up
+ * after a timeout and queues the write.
+ */
+function createFirestore(): Firestore {
+  if (typeof window === 'undefined') {
+    return getFirestore(app);
+  }
+  try {
+    return initializeFirestore(app, {
+      localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+    });
+  } catch (error) {
+    console.warn('Firestore offline persistence unavailable, using the default cache:', error);
+    return getFirestore(app);
+  }
+}
+
+const db = createFirestore(); // Firestore database for community posts and user data
 const storage = getStorage(app); // Storage for user uploads and media files
 // const analytics = getAnalytics(app); // Analytics for usage tracking and insights
 
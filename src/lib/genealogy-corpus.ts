@@ -0,0 +1,22 @@
+/**
+ * @fileOverview Server-side access to the bundled genealogy
+ *
+ * Reads `src/app/(main)/read/genealogy/genealogy.json`. Only import this
+ * module from API routes and scripts; it depends on Node's `fs`.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import type { GenealogyJson } from '@/types/genealogy';
+import { normalizeGenealogy } from './genealogy';
+
+/** The genealogy file */
+export const GENEALOGY_FILE = path.join(process.cwd(), 'src', 'app', '(main)', 'read', 'genealogy', 'genealogy.json');
+
+/**
+ * Read and validate the genealogy.
+ * @throws Error when the file is missing or malformed
+ */
+export async function readGenealogyFromCorpus(): Promise<GenealogyJson> {
+  return normalizeGenealogy(JSON.parse(await fs.readFile(GENEALOGY_FILE, 'utf-8')));
+}
@@ -0,0 +1,351 @@
+/**
+ * @fileOverview Genealogy of the four great families: validation and tree layout
+ *
+ * Validates the kinship dataset (`src/app/(main)/read/genealogy/genealogy.json`)
+ * and lays out one family's tree for `FamilyTree`:
+ *
+ * - one row per generation, named by the family's generation names (玉字輩);
+ * - each member next to their wives and concubines, or a daughter next to her husband;
+ * - children centred under their parents, and members of 寧國府 and 榮國府
+ *   grouped under their branch's ancestor;
+ * - people born outside the four houses (林黛玉) drawn under their parent who
+ *   belongs to the family.
+ *
+ * Like character cards, the tree is limited by the reader's progress: people
+ * and marriages the text has not shown yet are left out.
+ *
+ * This module is client-safe; the dataset is read by `genealogy-corpus.ts`
+ * and served by `GET /api/genealogy`.
+ */
+
+import type {
+  GenealogyBranch,
+  GenealogyFamily,
+  GenealogyJson,
+  GenealogyPerson,
+  GenealogyUnion,
+  GenealogyUnionKind,
+} from '@/types/genealogy';
+import { isValidChapterNumber } from './chapter-loader';
+
+export const GENEALOGY_UNION_KINDS: GenealogyUnionKind[] = ['wife', 'concubine'];
+
+/** How a person is drawn: a member of the family, or the partner of one */
+export type FamilyTreeRole = 'member' | 'husband' | GenealogyUnionKind;
+
+/** A person placed in the tree */
+export interface FamilyTreeNode {
+  person: GenealogyPerson;
+  role: FamilyTreeRole;
+  /** Column, in node widths from the left; parents centred over children may sit between columns */
+  x: number;
+  /** Row: the generation of the member the node belongs to */
+  generation: number;
+  /** Branch of the family, for members */
+  branch?: string;
+  /** Member whose partner the node is */
+  partnerOf?: string;
+}
+
+/** A line from a member down to a child */
+export interface FamilyTreeLink {
+  parent: string;
+  child: string;
+  /** The child's other parent, when drawn next to `parent` */
+  partner?: string;
+}
+
+/** Columns spanned by the members of a branch */
+export interface FamilyTreeBranch {
+  branch: GenealogyBranch;
+  from: number;
+  to: number;
+}
+
+export interface FamilyTreeGeneration {
+  generation: number;
+  /** e.g. 玉字輩 */
+  name?: string;
+}
+
+/** One family's tree as far as the reader has read */
+export interface FamilyTreeLayout {
+  family: GenealogyFamily;
+  /** Generations that have people, top to bottom */
+  generations: FamilyTreeGeneration[];
+  nodes: FamilyTreeNode[];
+  links: FamilyTreeLink[];
+  branches: FamilyTreeBranch[];
+  /** Number of columns */
+  width: number;
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+function normalizeFamily(item: GenealogyFamily, index: number, ids: Set<string>): GenealogyFamily {
+  if (!item || typeof item !== 'object' || !isNonEmptyString(item.id)) {
+    throw new Error(`Family ${index + 1} has no id`);
+  }
+  const label = `Family ${item.id}`;
+  if (ids.has(item.id)) {
+    throw new Error(`${label} is listed twice`);
+  }
+  ids.add(item.id);
+  if (!isNonEmptyString(item.name)) {
+    throw new Error(`${label} has no name`);
+  }
+  const branches = item.branches ?? [];
+  if (!Array.isArray(branches) || !branches.every(branch => isNonEmptyString(branch?.id) && isNonEmptyString(branch.name))) {
+    throw new Error(`${label} has malformed branches`);
+  }
+  if (new Set(branches.map(branch => branch.id)).size !== branches.length) {
+    throw new Error(`${label} lists a branch twice`);
+  }
+  const generationNames = item.generationNames ?? {};
+  if (typeof generationNames !== 'object' || !Object.values(generationNames).every(isNonEmptyString)) {
+    throw new Error(`${label} has malformed generation names`);
+  }
+
+  return {
+    id: item.id,
+    name: item.name,
+    ...(item.branches && { branches: branches.map(branch => ({ id: branch.id, name: branch.name })) }),
+    ...(item.generationNames && { generationNames }),
+  };
+}
+
+/**
+ * Validate a raw genealogy.
+ * @param data - Parsed JSON from the dataset file or API response
+ * @returns The genealogy
+ * @throws Error describing the first schema violation found
+ */
+export function normalizeGenealogy(data: unknown): GenealogyJson {
+  const raw = data as GenealogyJson;
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.families) || !Array.isArray(raw.people) || !Array.isArray(raw.unions)) {
+    throw new Error('Genealogy must be an object with families, people and unions arrays');
+  }
+
+  const familyIds = new Set<string>();
+  const families = raw.families.map((item, index) => normalizeFamily(item, index, familyIds));
+
+  const people = new Map<string, GenealogyPerson>();
+  for (const [index, item] of raw.people.entries()) {
+    if (!item || typeof item !== 'object' || !isNonEmptyString(item.id)) {
+      throw new Error(`Person ${index + 1} has no id`);
+    }
+    const label = `Person ${item.id}`;
+    if (people.has(item.id)) {
+      throw new Error(`${label} is listed twice`);
+    }
+    if (!isNonEmptyString(item.name)) {
+      throw new Error(`${label} has no name`);
+    }
+    if (item.family !== undefined && !isNonEmptyString(item.family)) {
+      throw new Error(`${label} has a malformed family`);
+    }
+    if (item.branch !== undefined
+      && !families.find(family => family.id === item.family)?.branches?.some(branch => branch.id === item.branch)) {
+      throw new Error(`${label} has an unknown branch ${item.branch}`);
+    }
+    if (!Number.isInteger(item.generation) || item.generation < 1) {
+      throw new Error(`${label} has an invalid generation`);
+    }
+    if (item.gender !== 'male' && item.gender !== 'female') {
+      throw new Error(`${label} has an unknown gender ${item.gender}`);
+    }
+    if (item.parents !== undefined && !(Array.isArray(item.parents) && item.parents.length <= 2 && item.parents.every(isNonEmptyString))) {
+      throw new Error(`${label} has malformed parents`);
+    }
+    if (!isValidChapterNumber(item.fromChapter)) {
+      throw new Error(`${label} has an invalid chapter`);
+    }
+    if ((item.title !== undefined && !isNonEmptyString(item.title)) || (item.note !== undefined && !isNonEmptyString(item.note))) {
+      throw new Error(`${label} has a malformed title or note`);
+    }
+
+    people.set(item.id, {
+      id: item.id,
+      name: item.name,
+      ...(item.family && { family: item.family }),
+      ...(item.branch && { branch: item.branch }),
+      generation: item.generation,
+      gender: item.gender,
+      ...(item.parents && { parents: item.parents }),
+      ...(item.title && { title: item.title }),
+      ...(item.unnamed === true && { unnamed: true }),
+      fromChapter: item.fromChapter,
+      ...(item.note && { note: item.note }),
+    });
+  }
+
+  // Parents are checked once every person is known, since they may be listed after their children
+  for (const person of people.values()) {
+    for (const parentId of person.parents ?? []) {
+      const parent = people.get(parentId);
+      if (!parent) {
+        throw new Error(`Person ${person.id} has an unknown parent ${parentId}`);
+      }
+      if (parent.generation !== person.generation - 1) {
+        throw new Error(`Person ${person.id} is not one generation below parent ${parentId}`);
+      }
+    }
+  }
+
+  const unions = raw.unions.map((item, index): GenealogyUnion => {
+    const label = `Union ${index + 1}`;
+    if (!item || typeof item !== 'object' || people.get(item.husband)?.gender !== 'male') {
+      throw new Error(`${label} has an unknown husband ${item?.husband}`);
+    }
+    if (people.get(item.wife)?.gender !== 'female') {
+      throw new Error(`${label} has an unknown wife ${item.wife}`);
+    }
+    if (!GENEALOGY_UNION_KINDS.includes(item.kind)) {
+      throw new Error(`${label} has an unknown kind ${item.kind}`);
+    }
+    if (item.fromChapter !== undefined && !isValidChapterNumber(item.fromChapter)) {
+      throw new Error(`${label} has an invalid chapter`);
+    }
+    return {
+      husband: item.husband,
+      wife: item.wife,
+      kind: item.kind,
+      ...(item.fromChapter !== undefined && { fromChapter: item.fromChapter }),
+    };
+  });
+
+  return { version: raw.version, families, people: [...people.values()], unions };
+}
+
+/**
+ * Lay out one family's tree as far as the reader has read.
+ * @param progress - Furthest chapter the reader has reached
+ * @throws Error when the genealogy has no such family
+ */
+export function layoutFamilyTree(genealogy: GenealogyJson, familyId: string, progress: number): FamilyTreeLayout {
+  const family = genealogy.families.find(candidate => candidate.id === familyId);
+  if (!family) {
+    throw new Error(`Unknown family ${familyId}`);
+  }
+
+  const visible = new Map(genealogy.people.filter(person => person.fromChapter <= progress).map(person => [person.id, person]));
+  const unions = genealogy.unions.filter(union => {
+    const husband = visible.get(union.husband);
+    const wife = visible.get(union.wife);
+    return husband && wife && (union.fromChapter ?? Math.max(husband.fromChapter, wife.fromChapter)) <= progress;
+  });
+
+  // Members: born into the family, or born outside the four houses to a parent who was
+  const houses = new Set(genealogy.families.map(candidate => candidate.id));
+  const members = new Map<string, GenealogyPerson>();
+  for (const person of visible.values()) {
+    const bornOutside = !houses.has(person.family ?? '');
+    if (person.family === familyId || (bornOutside && person.parents?.some(id => visible.get(id)?.family === familyId))) {
+      members.set(person.id, person);
+    }
+  }
+
+  // Each member hangs under their first parent in the tree
+  const children = new Map<string, string[]>();
+  const roots: string[] = [];
+  const treeParent = new Map<string, string>();
+  for (const person of genealogy.people) {
+    if (!members.has(person.id)) continue;
+    const parent = person.parents?.find(id => members.has(id));
+    if (parent) {
+      treeParent.set(person.id, parent);
+      children.set(parent, [...(children.get(parent) ?? []), person.id]);
+    } else {
+      roots.push(person.id);
+    }
+  }
+
+  // Partners drawn next to each member: husbands, then wives, then concubines
+  const partners = new Map<string, { person: GenealogyPerson; role: FamilyTreeRole }[]>();
+  for (const union of [...unions].sort((a, b) => GENEALOGY_UNION_KINDS.indexOf(a.kind) - GENEALOGY_UNION_KINDS.indexOf(b.kind))) {
+    if (members.has(union.husband) && !members.has(union.wife)) {
+      partners.set(union.husband, [...(partners.get(union.husband) ?? []), { person: visible.get(union.wife)!, role: union.kind }]);
+    } else if (members.has(union.wife) && !members.has(union.husband)) {
+      partners.set(union.wife, [{ person: visible.get(union.husband)!, role: 'husband' }]);
+    }
+  }
+
+  const unitWidth = (id: string) => 1 + (partners.get(id)?.length ?? 0);
+  const widths = new Map<string, number>();
+  const measure = (id: string): number => {
+    const childrenWidth = (children.get(id) ?? []).reduce((total, child) => total + measure(child), 0);
+    const width = Math.max(unitWidth(id), childrenWidth);
+    widths.set(id, width);
+    return width;
+  };
+
+  const nodes: FamilyTreeNode[] = [];
+  const links: FamilyTreeLink[] = [];
+  const branchOf = (id: string): string | undefined => members.get(id)!.branch ?? (treeParent.has(id) ? branchOf(treeParent.get(id)!) : undefined);
+  const place = (id: string, left: number) => {
+    const person = members.get(id)!;
+    const width = widths.get(id)!;
+    const x = left + (width - unitWidth(id)) / 2;
+    const branch = branchOf(id);
+    nodes.push({ person, role: 'member', x, generation: person.generation, ...(branch && { branch }) });
+    (partners.get(id) ?? []).forEach((partner, index) => {
+      nodes.push({ person: partner.person, role: partner.role, x: x + 1 + index, generation: person.generation, partnerOf: id });
+    });
+
+    const kids = children.get(id) ?? [];
+    let cursor = left + (width - kids.reduce((total, child) => total + widths.get(child)!, 0)) / 2;
+    for (const child of kids) {
+      const other = members.get(child)!.parents?.find(parentId => parentId !== id);
+      const partner = partners.get(id)?.some(candidate => candidate.person.id === other) ? other : undefined;
+      links.push({ parent: id, child, ...(partner && { partner }) });
+      place(child, cursor);
+      cursor += widths.get(child)!;
+    }
+  };
+
+  let width = 0;
+  for (const root of roots) {
+    measure(root);
+    place(root, width);
+    width += widths.get(root)!;
+  }
+
+  const branches = (family.branches ?? []).flatMap((branch): FamilyTreeBranch[] => {
+    const columns = nodes
+      .filter(node => (node.partnerOf ? branchOf(node.partnerOf) : node.branch) === branch.id)
+      .map(node => node.x);
+    return columns.length > 0 ? [{ branch, from: Math.min(...columns), to: Math.max(...columns) }] : [];
+  });
+
+  const generations = [...new Set(nodes.map(node => node.generation))]
+    .sort((a, b) => a - b)
+    .map(generation => {
+      const name = family.generationNames?.[String(generation)];
+      return { generation, ...(name && { name }) };
+    });
+
+  return { family, generations, nodes, links, branches, width };
+}
+
+let genealogyPromise: Promise<GenealogyJson> | null = null;
+
+/**
+ * Load the genealogy from the genealogy API. The dataset is fetched once per
+ * page load; a failed load is retried on the next call.
+ */
+export const loadGenealogy = (): Promise<GenealogyJson> => {
+  if (!genealogyPromise) {
+    genealogyPromise = (async () => {
+      const response = await fetch('/api/genealogy');
+      if (!response.ok) {
+        throw new Error(`Failed to load genealogy (${response.status})`);
+      }
+      return normalizeGenealogy(await response.json());
+    })();
+    genealogyPromise.catch(() => {
+      genealogyPromise = null;
+    });
+  }
+  return genealogyPromise;
+};
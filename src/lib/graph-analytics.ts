@@ -0,0 +1,384 @@
+/**
+ * @fileOverview Network analysis of knowledge graphs
+ *
+ * Measures who matters in a chapter graph or the cumulative graph:
+ *
+ * - degree centrality: how many entities each one is related to
+ * - betweenness centrality (Brandes): how often an entity lies on the shortest
+ *   chains between others, e.g. 賈雨村 linking 甄家 to 賈府
+ * - eigenvector centrality: being related to entities that are themselves central
+ * - communities (Louvain modularity optimisation): groups more closely related
+ *   to each other than to the rest
+ * - bridges: relationships without which part of the graph is cut off
+ *
+ * Relationships count either way, whatever their direction, and several
+ * relationships between the same two entities count once; they can be limited
+ * to some types as in graph queries. Results are deterministic: entities are
+ * visited in the graph's order.
+ *
+ * `applyMetricStyle` sizes or colours the graph view's nodes by a measure
+ * instead of their category. This module is client-safe.
+ */
+
+import type { GraphAnalytics, GraphBridge, GraphNodeMetrics } from '@/types/graph';
+import type { GraphQueryOptions, QueryableGraph } from './graph-query';
+import { getRelationType, type KnowledgeGraphData } from './knowledgeGraphUtils';
+
+/** Measures that nodes can be ranked, sized and coloured by */
+export const GRAPH_METRICS = ['degree', 'betweenness', 'eigenvector'] as const;
+export type GraphMetric = typeof GRAPH_METRICS[number];
+
+export interface MetricStyleOptions {
+  /** Measure that sets node radius; the theme's radius when null */
+  sizeBy: GraphMetric | null;
+  /** Measure or community that sets node colour; the theme's colour when null */
+  colorBy: GraphMetric | 'community' | null;
+}
+
+/** Radius range of nodes sized by a measure */
+export const METRIC_RADIUS_RANGE: [number, number] = [14, 42];
+/** Colours of the lowest and highest values of nodes coloured by a measure */
+export const METRIC_COLOR_RANGE: [string, string] = ['#FDE68A', '#991B1B'];
+/** Colours of communities, largest community first; repeats past the tenth */
+export const COMMUNITY_COLORS = [
+  '#DC2626', '#059669', '#2563EB', '#D97706', '#7C3AED',
+  '#DB2777', '#0891B2', '#65A30D', '#9F1239', '#475569',
+];
+
+const EIGENVECTOR_ITERATIONS = 100;
+const EIGENVECTOR_TOLERANCE = 1e-6;
+
+// Entities as indices with their distinct neighbours, and how many relationships join each pair
+interface SimpleGraph {
+  ids: string[];
+  names: string[];
+  neighbours: number[][];
+  multiplicity: Map<string, number>;
+}
+
+const pairKey = (a: number, b: number) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+function buildSimpleGraph(nodes: Array<{ id: string; name: string }>, edges: Array<[string, string]>): SimpleGraph {
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+  const neighbours = nodes.map(() => new Set<number>());
+  const multiplicity = new Map<string, number>();
+  for (const [source, target] of edges) {
+    const a = index.get(source);
+    const b = index.get(target);
+    if (a === undefined || b === undefined || a === b) continue;
+    neighbours[a].add(b);
+    neighbours[b].add(a);
+    multiplicity.set(pairKey(a, b), (multiplicity.get(pairKey(a, b)) ?? 0) + 1);
+  }
+  return {
+    ids: nodes.map(node => node.id),
+    names: nodes.map(node => node.name),
+    neighbours: neighbours.map(set => [...set]),
+    multiplicity,
+  };
+}
+
+// Brandes' algorithm on the unweighted graph, normalised by the pairs of other entities
+function computeBetweenness({ neighbours }: SimpleGraph): number[] {
+  const n = neighbours.length;
+  const betweenness = new Array<number>(n).fill(0);
+  for (let source = 0; source < n; source++) {
+    const order: number[] = [];
+    const predecessors: number[][] = Array.from({ length: n }, () => []);
+    const paths = new Array<number>(n).fill(0);
+    const distance = new Array<number>(n).fill(-1);
+    paths[source] = 1;
+    distance[source] = 0;
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      order.push(node);
+      for (const next of neighbours[node]) {
+        if (distance[next] < 0) {
+          distance[next] = distance[node] + 1;
+          queue.push(next);
+        }
+        if (distance[next] === distance[node] + 1) {
+          paths[next] += paths[node];
+          predecessors[next].push(node);
+        }
+      }
+    }
+
+    const dependency = new Array<number>(n).fill(0);
+    for (let i = order.length - 1; i >= 0; i--) {
+      const node = order[i];
+      for (const previous of predecessors[node]) {
+        dependency[previous] += (paths[previous] / paths[node]) * (1 + dependency[node]);
+      }
+      if (node !== source) betweenness[node] += dependency[node];
+    }
+  }
+  // Each pair was counted from both ends
+  const pairs = ((n - 1) * (n - 2)) / 2;
+  return betweenness.map(value => (pairs > 0 ? value / 2 / pairs : 0));
+}
+
+// Power iteration on A + I, which has the same leading eigenvector as A and converges on bipartite graphs
+function computeEigenvector({ neighbours }: SimpleGraph): number[] {
+  const n = neighbours.length;
+  if (neighbours.every(list => list.length === 0)) return new Array<number>(n).fill(0);
+
+  let vector = new Array<number>(n).fill(1);
+  for (let iteration = 0; iteration < EIGENVECTOR_ITERATIONS; iteration++) {
+    const next = vector.map((value, node) => neighbours[node].reduce((total, neighbour) => total + vector[neighbour], value));
+    const max = Math.max(...next);
+    const scaled = next.map(value => value / max);
+    const change = scaled.reduce((total, value, node) => total + Math.abs(value - vector[node]), 0);
+    vector = scaled;
+    if (change < n * EIGENVECTOR_TOLERANCE) break;
+  }
+  return vector;
+}
+
+/**
+ * Louvain community detection: move each entity to the neighbouring community
+ * that most increases modularity until none moves, merge each community into
+ * one node, and repeat on the merged graph.
+ * @returns The community of each entity, unnumbered
+ */
+function detectCommunities({ neighbours }: SimpleGraph): number[] {
+  // Weighted graph of the current level; a loop holds the weight inside a merged node
+  let adjacency: Array<Map<number, number>> = neighbours.map(list => new Map(list.map(neighbour => [neighbour, 1])));
+  let loops = new Array<number>(neighbours.length).fill(0);
+  let membership = neighbours.map((_, node) => node);
+
+  for (;;) {
+    const size = adjacency.length;
+    const degree = adjacency.map((edges, node) => [...edges.values()].reduce((total, weight) => total + weight, 2 * loops[node]));
+    const totalDegree = degree.reduce((total, value) => total + value, 0);
+    if (totalDegree === 0) break;
+
+    const community = adjacency.map((_, node) => node);
+    const communityDegree = [...degree];
+    let moved = false;
+    for (let improved = true; improved;) {
+      improved = false;
+      for (let node = 0; node < size; node++) {
+        const current = community[node];
+        const links = new Map<number, number>();
+        for (const [neighbour, weight] of adjacency[node]) {
+          links.set(community[neighbour], (links.get(community[neighbour]) ?? 0) + weight);
+        }
+        communityDegree[current] -= degree[node];
+        const gain = (target: number) => (links.get(target) ?? 0) - (communityDegree[target] * degree[node]) / totalDegree;
+        let best = current;
+        let bestGain = gain(current);
+        for (const candidate of links.keys()) {
+          if (gain(candidate) > bestGain + 1e-12) {
+            best = candidate;
+            bestGain = gain(candidate);
+          }
+        }
+        communityDegree[best] += degree[node];
+        if (best !== current) {
+          community[node] = best;
+          improved = true;
+          moved = true;
+        }
+      }
+    }
+    if (!moved) break;
+
+    // Merge each community into one node of the next level
+    const renumber = new Map<number, number>();
+    community.forEach(label => renumber.has(label) || renumber.set(label, renumber.size));
+    const merged: Array<Map<number, number>> = Array.from({ length: renumber.size }, () => new Map());
+    const mergedLoops = new Array<number>(renumber.size).fill(0);
+    adjacency.forEach((edges, node) => {
+      const from = renumber.get(community[node])!;
+      mergedLoops[from] += loops[node];
+      for (const [neighbour, weight] of edges) {
+        const to = renumber.get(community[neighbour])!;
+        if (from === to) {
+          // Each internal relationship is seen from both ends
+          mergedLoops[from] += weight / 2;
+        } else {
+          merged[from].set(to, (merged[from].get(to) ?? 0) + weight);
+        }
+      }
+    });
+    membership = membership.map(node => renumber.get(community[node])!);
+    adjacency = merged;
+    loops = mergedLoops;
+  }
+  return membership;
+}
+
+// Share of relationships inside communities, less what random wiring with the same degrees would give
+function computeModularity({ neighbours }: SimpleGraph, community: number[]): number {
+  const edgeEnds = neighbours.reduce((total, list) => total + list.length, 0);
+  if (edgeEnds === 0) return 0;
+  const inside = new Map<number, number>();
+  const degree = new Map<number, number>();
+  neighbours.forEach((list, node) => {
+    const label = community[node];
+    degree.set(label, (degree.get(label) ?? 0) + list.length);
+    inside.set(label, (inside.get(label) ?? 0) + list.filter(neighbour => community[neighbour] === label).length);
+  });
+  return [...degree.keys()].reduce(
+    (total, label) => total + inside.get(label)! / edgeEnds - (degree.get(label)! / edgeEnds) ** 2,
+    0
+  );
+}
+
+// Tarjan's bridge search, iterative so long chains do not exhaust the stack
+function findBridges({ ids, neighbours, multiplicity }: SimpleGraph): GraphBridge[] {
+  const n = neighbours.length;
+  const discovered = new Array<number>(n).fill(-1);
+  const low = new Array<number>(n).fill(0);
+  const subtree = new Array<number>(n).fill(1);
+  const found: Array<{ parent: number; child: number; root: number }> = [];
+  const componentSize = new Map<number, number>();
+  let time = 0;
+
+  for (let root = 0; root < n; root++) {
+    if (discovered[root] >= 0) continue;
+    discovered[root] = low[root] = time++;
+    const stack = [{ node: root, parent: -1, next: 0 }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.next < neighbours[frame.node].length) {
+        const neighbour = neighbours[frame.node][frame.next++];
+        if (neighbour === frame.parent) continue;
+        if (discovered[neighbour] < 0) {
+          discovered[neighbour] = low[neighbour] = time++;
+          stack.push({ node: neighbour, parent: frame.node, next: 0 });
+        } else {
+          low[frame.node] = Math.min(low[frame.node], discovered[neighbour]);
+        }
+        continue;
+      }
+      stack.pop();
+      const { node, parent } = frame;
+      if (parent < 0) continue;
+      low[parent] = Math.min(low[parent], low[node]);
+      subtree[parent] += subtree[node];
+      // Two relationships between the same entities are not a bridge
+      if (low[node] > discovered[parent] && multiplicity.get(pairKey(parent, node)) === 1) {
+        found.push({ parent, child: node, root });
+      }
+    }
+    componentSize.set(root, subtree[root]);
+  }
+
+  return found.map(({ parent, child, root }) => ({
+    source: ids[parent],
+    target: ids[child],
+    separates: Math.min(subtree[child], componentSize.get(root)! - subtree[child]),
+  }));
+}
+
+function analyse(graph: SimpleGraph): GraphAnalytics {
+  const n = graph.ids.length;
+  const betweenness = computeBetweenness(graph);
+  const eigenvector = computeEigenvector(graph);
+  const membership = detectCommunities(graph);
+
+  // Number communities by size, largest first, then by their first entity
+  const groups = new Map<number, number[]>();
+  membership.forEach((label, node) => groups.set(label, [...(groups.get(label) ?? []), node]));
+  const ordered = [...groups.values()].sort((a, b) => b.length - a.length || a[0] - b[0]);
+  const community = new Array<number>(n);
+  ordered.forEach((members, index) => members.forEach(node => { community[node] = index; }));
+
+  const nodes: GraphNodeMetrics[] = graph.ids.map((id, node) => ({
+    id,
+    name: graph.names[node],
+    degree: graph.neighbours[node].length,
+    degreeCentrality: n > 1 ? graph.neighbours[node].length / (n - 1) : 0,
+    betweenness: betweenness[node],
+    eigenvector: eigenvector[node],
+    community: community[node],
+  }));
+
+  return {
+    nodes,
+    communities: ordered.map(members => members.map(node => graph.ids[node])),
+    modularity: computeModularity(graph, community),
+    bridges: findBridges(graph),
+  };
+}
+
+/**
+ * Analyse a chapter graph or the cumulative graph.
+ */
+export function analyseGraph(graph: QueryableGraph, options: GraphQueryOptions = {}): GraphAnalytics {
+  const relationships = options.types
+    ? graph.relationships.filter(relationship => options.types!.includes(getRelationType(relationship)))
+    : graph.relationships;
+  return analyse(buildSimpleGraph(
+    graph.entities,
+    relationships.map(relationship => [relationship.source, relationship.target])
+  ));
+}
+
+/**
+ * Analyse the graph shown by the graph view.
+ */
+export function analyseGraphData(data: KnowledgeGraphData): GraphAnalytics {
+  const endpointId = (endpoint: KnowledgeGraphData['links'][number]['source']) =>
+    (typeof endpoint === 'string' ? endpoint : endpoint.id);
+  return analyse(buildSimpleGraph(
+    data.nodes,
+    data.links.map(link => [endpointId(link.source), endpointId(link.target)])
+  ));
+}
+
+/**
+ * Entities from the highest value of a measure to the lowest; ties keep the graph's order.
+ */
+export function rankNodes(analytics: GraphAnalytics, metric: GraphMetric): GraphNodeMetrics[] {
+  return [...analytics.nodes].sort((a, b) => b[metric] - a[metric]);
+}
+
+// Blend two #RRGGBB colours
+const mixColors = (from: string, to: string, amount: number) => {
+  const channels = (color: string) => [1, 3, 5].map(start => parseInt(color.slice(start, start + 2), 16));
+  const [a, b] = [channels(from), channels(to)];
+  return `#${a.map((channel, i) => Math.round(channel + (b[i] - channel) * amount).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+};
+
+// Position of each value between the lowest and highest, 0.5 when all are equal
+const normalise = (values: number[]) => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return values.map(value => (max > min ? (value - min) / (max - min) : 0.5));
+};
+
+/**
+ * Size or colour the graph view's nodes by a measure, or colour them by
+ * community, instead of by their category. Like `applyGraphTheme`, nodes and
+ * links are copied and links point at node ids again.
+ */
+export function applyMetricStyle(data: KnowledgeGraphData, analytics: GraphAnalytics, options: MetricStyleOptions): KnowledgeGraphData {
+  const metrics = new Map(analytics.nodes.map(node => [node.id, node]));
+  const valuesOf = (metric: GraphMetric) => normalise(data.nodes.map(node => metrics.get(node.id)?.[metric] ?? 0));
+  const sizes = options.sizeBy ? valuesOf(options.sizeBy) : null;
+  const shades = options.colorBy && options.colorBy !== 'community' ? valuesOf(options.colorBy) : null;
+  const [minRadius, maxRadius] = METRIC_RADIUS_RANGE;
+
+  return {
+    nodes: data.nodes.map((node, index) => {
+      const community = metrics.get(node.id)?.community;
+      return {
+        ...node,
+        ...(sizes && { radius: Math.round(minRadius + (maxRadius - minRadius) * sizes[index]) }),
+        ...(shades && { color: mixColors(METRIC_COLOR_RANGE[0], METRIC_COLOR_RANGE[1], shades[index]) }),
+        ...(options.colorBy === 'community' && community !== undefined && {
+          color: COMMUNITY_COLORS[community % COMMUNITY_COLORS.length],
+        }),
+      };
+    }),
+    links: data.links.map(link => ({
+      ...link,
+      source: typeof link.source === 'string' ? link.source : link.source.id,
+      target: typeof link.target === 'string' ? link.target : link.target.id,
+    })),
+  };
+}
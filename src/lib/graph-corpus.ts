@@ -0,0 +1,92 @@
+/**
+ * @fileOverview Server-side access to the bundled chapter knowledge graphs
+ *
+ * Reads and writes `chapter{N}.json` files in `src/app/(main)/read/chapterGraph`,
+ * and generates them from the chapter corpus with `graph-pipeline.ts`. Only
+ * import this module from API routes and scripts; it depends on Node's `fs`.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import type { StructuredChapterGraph } from '@/types/graph';
+import { TOTAL_CHAPTERS } from './chapter-loader';
+import { isMissingFile, readChapterFromCorpus } from './chapter-corpus';
+import { runGraphPipeline, type GraphPipelineOptions } from './graph-pipeline';
+import { normalizeChapterGraph } from './graph-schema';
+
+/** Directory holding one knowledge graph per chapter */
+export const CHAPTER_GRAPH_DIR = path.join(process.cwd(), 'src', 'app', '(main)', 'read', 'chapterGraph');
+
+/**
+ * Read and validate a chapter's knowledge graph. Legacy files are upgraded
+ * to the structured format.
+ * @param directory - Graph directory; defaults to the bundled graphs
+ * @returns The graph, or null when no file exists for the chapter
+ * @throws Error when the file exists but cannot be read or is malformed
+ */
+export async function readChapterGraphFromCorpus(chapterNumber: number, directory = CHAPTER_GRAPH_DIR): Promise<StructuredChapterGraph | null> {
+  let fileContent: string;
+  try {
+    fileContent = await fs.readFile(path.join(directory, `chapter${chapterNumber}.json`), 'utf-8');
+  } catch (error) {
+    if (isMissingFile(error)) return null;
+    throw error;
+  }
+  return normalizeChapterGraph(JSON.parse(fileContent), chapterNumber);
+}
+
+/** What happened to one chapter in a generation run */
+export type GraphGenerationStatus = 'written' | 'kept' | 'no-text' | 'failed';
+
+export interface GraphGenerationResult {
+  chapterId: number;
+  status: GraphGenerationStatus;
+  error?: string;
+}
+
+export interface GraphGenerationOptions extends GraphPipelineOptions {
+  /** Chapters to generate; defaults to all 120 */
+  chapters?: number[];
+  /** Output directory; defaults to the bundled graphs */
+  directory?: string;
+  /** Replace graphs that already exist (hand-curated graphs are kept otherwise) */
+  force?: boolean;
+}
+
+/**
+ * Generate and write the knowledge graphs of the given chapters. Chapters
+ * without text in the corpus are reported as `no-text`; a failing chapter
+ * is reported and the run continues with the next.
+ */
+export async function generateCorpusGraphs(options: GraphGenerationOptions): Promise<GraphGenerationResult[]> {
+  const directory = options.directory ?? CHAPTER_GRAPH_DIR;
+  const chapters = options.chapters ?? Array.from({ length: TOTAL_CHAPTERS }, (_, i) => i + 1);
+  await fs.mkdir(directory, { recursive: true });
+
+  const results: GraphGenerationResult[] = [];
+  for (const chapterId of chapters) {
+    try {
+      const filePath = path.join(directory, `chapter${chapterId}.json`);
+      const exists = await fs.access(filePath).then(() => true, error => {
+        if (isMissingFile(error)) return false;
+        throw error;
+      });
+      if (!options.force && exists) {
+        results.push({ chapterId, status: 'kept' });
+        continue;
+      }
+      const chapter = await readChapterFromCorpus(chapterId);
+      if (!chapter) {
+        results.push({ chapterId, status: 'no-text' });
+        continue;
+      }
+      const graph = await runGraphPipeline(chapter, options);
+      await fs.writeFile(filePath, `${JSON.stringify(graph, null, 2)}\n`, 'utf-8');
+      results.push({ chapterId, status: 'written' });
+    } catch (error) {
+      console.error(`Failed to generate the knowledge graph of chapter ${chapterId}:`, error);
+      results.push({ chapterId, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return results;
+}
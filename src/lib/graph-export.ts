@@ -0,0 +1,462 @@
+/**
+ * @fileOverview Export knowledge graphs for analysis tools and as images
+ *
+ * Writes a graph in the formats network tools read:
+ *
+ * - GraphML, read by Gephi, NetworkX (`read_graphml`) and igraph
+ * - GEXF 1.3 for Gephi, with node colours, sizes and positions (viz module)
+ * - CSV: a node table and an edge table with Gephi's `Id`/`Source`/`Target`
+ *   headers, zipped together for download
+ *
+ * Graphs come from the viewer (`KnowledgeGraphData`, with its colours and
+ * layout positions) or straight from a chapter graph file in either format
+ * (`ChapterGraphFile`, keeping aliases, catalog ids and evidence). Both are
+ * first turned into one `ExportGraph` of nodes and edges with typed attributes.
+ *
+ * Images are taken from the viewer's live SVG, so they show the view as it
+ * is: zoom and pan, the chapters on the timeline, search matches and a
+ * highlighted path. PNG is drawn through a canvas at a chosen scale.
+ */
+
+import type { ChapterGraphFile, GraphEvidence } from '@/types/graph';
+import type { DownloadableFile } from './download';
+import { getRelationType, type KnowledgeGraphData, type KnowledgeGraphLink } from './knowledgeGraphUtils';
+import { isStructuredChapterGraph, upgradeLegacyChapterGraph } from './graph-schema';
+import { createZip } from './zip';
+
+export const GRAPH_EXPORT_FORMATS = ['graphml', 'gexf', 'csv'] as const;
+export type GraphExportFormat = typeof GRAPH_EXPORT_FORMATS[number];
+
+export const GRAPH_IMAGE_FORMATS = ['svg', 'png'] as const;
+export type GraphImageFormat = typeof GRAPH_IMAGE_FORMATS[number];
+
+/** Value type of an attribute, as GraphML and GEXF declare it */
+export type GraphAttributeType = 'string' | 'int' | 'double';
+
+export interface GraphAttribute {
+  id: string;
+  type: GraphAttributeType;
+}
+
+export type GraphAttributeValues = Record<string, string | number>;
+
+export interface ExportNode {
+  id: string;
+  label: string;
+  attributes: GraphAttributeValues;
+}
+
+export interface ExportEdge {
+  id: string;
+  source: string;
+  target: string;
+  label: string;
+  directed: boolean;
+  attributes: GraphAttributeValues;
+}
+
+/** A graph ready to write in any export format */
+export interface ExportGraph {
+  /** Title recorded in the file, e.g. 第1回知識圖譜 */
+  title: string;
+  /** Attributes that at least one node has, in column order */
+  nodeAttributes: GraphAttribute[];
+  edgeAttributes: GraphAttribute[];
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+}
+
+export interface GraphImageOptions {
+  /** Size of the view being exported, in CSS pixels */
+  width: number;
+  height: number;
+  /** Output pixels per CSS pixel; defaults to 1 */
+  scale?: number;
+  /** Fill behind the graph; transparent when omitted */
+  background?: string;
+}
+
+const DEFAULT_FILE_NAME = 'hongloumeng-graph';
+const SVG_NS = 'http://www.w3.org/2000/svg';
+// Largest canvas browsers draw reliably (Safari's limit)
+const MAX_IMAGE_PIXELS = 16_777_216;
+// Lists such as chapters and aliases are joined into one attribute value
+const LIST_SEPARATOR = ';';
+
+const NODE_ATTRIBUTES: GraphAttribute[] = [
+  { id: 'type', type: 'string' },
+  { id: 'category', type: 'string' },
+  { id: 'importance', type: 'string' },
+  { id: 'faction', type: 'string' },
+  { id: 'description', type: 'string' },
+  { id: 'aliases', type: 'string' },
+  { id: 'characterId', type: 'string' },
+  { id: 'entityId', type: 'string' },
+  { id: 'chapters', type: 'string' },
+  { id: 'color', type: 'string' },
+  { id: 'radius', type: 'double' },
+  { id: 'x', type: 'double' },
+  { id: 'y', type: 'double' },
+];
+
+const EDGE_ATTRIBUTES: GraphAttribute[] = [
+  { id: 'type', type: 'string' },
+  { id: 'strength', type: 'double' },
+  { id: 'description', type: 'string' },
+  { id: 'chapter', type: 'int' },
+  { id: 'chapters', type: 'string' },
+  { id: 'paragraphId', type: 'string' },
+  { id: 'quote', type: 'string' },
+];
+
+// Drop absent values, so every attribute of an item has a value
+const compact = (values: Record<string, string | number | undefined>): GraphAttributeValues =>
+  Object.fromEntries(Object.entries(values).filter((entry): entry is [string, string | number] => entry[1] !== undefined && entry[1] !== ''));
+
+const joinList = (list?: Array<string | number>) => (list && list.length > 0 ? list.join(LIST_SEPARATOR) : undefined);
+
+// Layout positions to a hundredth of a pixel
+const roundPosition = (value?: number) => (value === undefined ? undefined : Math.round(value * 100) / 100);
+
+const evidenceAttributes = (evidence?: GraphEvidence) => ({ paragraphId: evidence?.paragraphId, quote: evidence?.quote });
+
+// Declared attributes that some item uses
+const usedAttributes = (declared: GraphAttribute[], items: Array<{ attributes: GraphAttributeValues }>) =>
+  declared.filter(attribute => items.some(item => attribute.id in item.attributes));
+
+// Link ends are ids until the force simulation replaces them with nodes
+const endpointId = (endpoint: KnowledgeGraphLink['source']) => (typeof endpoint === 'string' ? endpoint : endpoint.id);
+
+/**
+ * Prepare the graph shown by the viewer for export, with its styling and the
+ * node positions of the current layout.
+ * @param title - Title recorded in the file
+ */
+export function graphDataToExportGraph(data: KnowledgeGraphData, title: string): ExportGraph {
+  const nodes: ExportNode[] = data.nodes.map(node => ({
+    id: node.id,
+    label: node.name,
+    attributes: compact({
+      type: node.type,
+      category: node.category,
+      importance: node.importance,
+      faction: node.faction,
+      description: node.description,
+      chapters: joinList(node.chapters),
+      color: node.color,
+      radius: node.radius,
+      x: roundPosition(node.x),
+      y: roundPosition(node.y),
+    }),
+  }));
+  const edges: ExportEdge[] = data.links.map((link, index) => ({
+    id: `e${index}`,
+    source: endpointId(link.source),
+    target: endpointId(link.target),
+    label: link.relationship,
+    directed: link.direction !== 'undirected',
+    attributes: compact({
+      type: link.type,
+      strength: link.strength,
+      description: link.description,
+      chapters: joinList(link.chapters),
+      ...evidenceAttributes(link.evidence),
+    }),
+  }));
+  return {
+    title,
+    nodeAttributes: usedAttributes(NODE_ATTRIBUTES, nodes),
+    edgeAttributes: usedAttributes(EDGE_ATTRIBUTES, edges),
+    nodes,
+    edges,
+  };
+}
+
+/**
+ * Prepare a chapter graph file for export as it is stored, without the
+ * viewer's styling. Legacy files are upgraded first; relationship types are
+ * inferred from their labels where the file does not give them.
+ * @param chapterNumber - Chapter of a legacy file, which does not record it
+ */
+export function chapterGraphToExportGraph(file: ChapterGraphFile, chapterNumber = 1): ExportGraph {
+  const graph = isStructuredChapterGraph(file) ? file : upgradeLegacyChapterGraph(file, chapterNumber);
+  const nodes: ExportNode[] = graph.entities.map(entity => ({
+    id: entity.id,
+    label: entity.name,
+    attributes: compact({
+      type: entity.type,
+      aliases: joinList(entity.aliases),
+      characterId: entity.characterId,
+      entityId: entity.entityId,
+    }),
+  }));
+  const edges: ExportEdge[] = graph.relationships.map((relationship, index) => ({
+    id: `e${index}`,
+    source: relationship.source,
+    target: relationship.target,
+    label: relationship.relation,
+    directed: relationship.direction === 'directed',
+    attributes: compact({
+      type: getRelationType(relationship),
+      chapter: relationship.chapter,
+      ...evidenceAttributes(relationship.evidence),
+    }),
+  }));
+  return {
+    title: `第${graph.chapter}回知識圖譜`,
+    nodeAttributes: usedAttributes(NODE_ATTRIBUTES, nodes),
+    edgeAttributes: usedAttributes(EDGE_ATTRIBUTES, edges),
+    nodes,
+    edges,
+  };
+}
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Write a graph as GraphML. The label is stored as the `label` attribute of
+ * nodes and edges; edges that read both ways are marked `directed="false"`.
+ */
+export function renderGraphML(graph: ExportGraph): string {
+  const keys = [
+    { id: 'label', type: 'string' as const, for: 'node' },
+    ...graph.nodeAttributes.map(attribute => ({ ...attribute, for: 'node' })),
+    { id: 'label', type: 'string' as const, for: 'edge' },
+    ...graph.edgeAttributes.map(attribute => ({ ...attribute, for: 'edge' })),
+  ];
+  const keyId = (scope: string, id: string) => `${scope === 'node' ? 'n' : 'e'}_${id}`;
+  const data = (scope: string, values: GraphAttributeValues) => Object.entries(values)
+    .map(([id, value]) => `      <data key="${keyId(scope, id)}">${escapeXml(String(value))}</data>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...keys.map(key => `  <key id="${keyId(key.for, key.id)}" for="${key.for}" attr.name="${key.id}" attr.type="${key.type}"/>`),
+    '  <graph id="G" edgedefault="directed">',
+    `    <desc>${escapeXml(graph.title)}</desc>`,
+    ...graph.nodes.flatMap(node => [
+      `    <node id="${escapeXml(node.id)}">`,
+      ...data('node', { label: node.label, ...node.attributes }),
+      '    </node>',
+    ]),
+    ...graph.edges.flatMap(edge => [
+      `    <edge id="${edge.id}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"${edge.directed ? '' : ' directed="false"'}>`,
+      ...data('edge', { label: edge.label, ...edge.attributes }),
+      '    </edge>',
+    ]),
+    '  </graph>',
+    '</graphml>',
+    '',
+  ].join('\n');
+}
+
+// `#DC2626` as GEXF viz colour components; undefined for other colour syntaxes
+const hexToRgb = (color: string | number | undefined) => {
+  const match = typeof color === 'string' ? /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color) : null;
+  return match ? match.slice(1).map(component => parseInt(component, 16)) : undefined;
+};
+
+/**
+ * Write a graph as GEXF 1.3. Colours, radii and positions from the viewer are
+ * also written with the viz module, so Gephi opens the graph as it was shown.
+ */
+export function renderGEXF(graph: ExportGraph): string {
+  const attributeValues = (declared: GraphAttribute[], values: GraphAttributeValues) => {
+    const entries = declared.filter(attribute => attribute.id in values);
+    return entries.length === 0 ? [] : [
+      '        <attvalues>',
+      ...entries.map(attribute => `          <attvalue for="${attribute.id}" value="${escapeXml(String(values[attribute.id]))}"/>`),
+      '        </attvalues>',
+    ];
+  };
+  const attributeDeclarations = (scope: 'node' | 'edge', declared: GraphAttribute[]) => declared.length === 0 ? [] : [
+    `    <attributes class="${scope}">`,
+    ...declared.map(attribute => `      <attribute id="${attribute.id}" title="${attribute.id}" type="${attribute.type === 'int' ? 'integer' : attribute.type}"/>`),
+    '    </attributes>',
+  ];
+  const viz = ({ color, radius, x, y }: GraphAttributeValues) => {
+    const rgb = hexToRgb(color);
+    return [
+      ...(rgb ? [`        <viz:color r="${rgb[0]}" g="${rgb[1]}" b="${rgb[2]}"/>`] : []),
+      ...(typeof radius === 'number' ? [`        <viz:size value="${radius}"/>`] : []),
+      ...(typeof x === 'number' && typeof y === 'number' ? [`        <viz:position x="${x}" y="${-y}" z="0"/>`] : []),
+    ];
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    '  <meta>',
+    `    <description>${escapeXml(graph.title)}</description>`,
+    '  </meta>',
+    '  <graph mode="static" defaultedgetype="directed">',
+    ...attributeDeclarations('node', graph.nodeAttributes),
+    ...attributeDeclarations('edge', graph.edgeAttributes),
+    '    <nodes>',
+    ...graph.nodes.flatMap(node => [
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}">`,
+      ...attributeValues(graph.nodeAttributes, node.attributes),
+      ...viz(node.attributes),
+      '      </node>',
+    ]),
+    '    </nodes>',
+    '    <edges>',
+    ...graph.edges.flatMap(edge => {
+      const open = `      <edge id="${edge.id}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" label="${escapeXml(edge.label)}"${edge.directed ? '' : ' type="undirected"'}`;
+      const values = attributeValues(graph.edgeAttributes, edge.attributes);
+      return values.length === 0 ? [`${open}/>`] : [`${open}>`, ...values, '      </edge>'];
+    }),
+    '    </edges>',
+    '  </graph>',
+    '</gexf>',
+    '',
+  ].join('\n');
+}
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRows = (rows: Array<Array<string | number | undefined>>) =>
+  rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * The node table as CSV, with Gephi's `Id` and `Label` columns first.
+ */
+export function renderNodeCsv(graph: ExportGraph): string {
+  return csvRows([
+    ['Id', 'Label', ...graph.nodeAttributes.map(attribute => attribute.id)],
+    ...graph.nodes.map(node => [node.id, node.label, ...graph.nodeAttributes.map(attribute => node.attributes[attribute.id])]),
+  ]);
+}
+
+/**
+ * The edge table as CSV, with Gephi's `Source`, `Target`, `Type` (Directed or
+ * Undirected), `Id` and `Label` columns first.
+ */
+export function renderEdgeCsv(graph: ExportGraph): string {
+  return csvRows([
+    ['Source', 'Target', 'Type', 'Id', 'Label', ...graph.edgeAttributes.map(attribute => attribute.id)],
+    ...graph.edges.map(edge => [
+      edge.source,
+      edge.target,
+      edge.directed ? 'Directed' : 'Undirected',
+      edge.id,
+      edge.label,
+      ...graph.edgeAttributes.map(attribute => edge.attributes[attribute.id]),
+    ]),
+  ]);
+}
+
+/**
+ * File name for an export of a chapter's graph or of chapters 1..N merged,
+ * e.g. `hongloumeng-graph-ch1` or `hongloumeng-graph-ch1-5`.
+ */
+export function getGraphExportFileName(chapter: number, cumulative = false): string {
+  return cumulative && chapter > 1 ? `${DEFAULT_FILE_NAME}-ch1-${chapter}` : `${DEFAULT_FILE_NAME}-ch${chapter}`;
+}
+
+/**
+ * Write a graph in the requested format. CSV is a ZIP of `nodes.csv` and `edges.csv`.
+ * @param fileName - Base of the file name, without extension
+ */
+export function exportGraph(graph: ExportGraph, format: GraphExportFormat, fileName = DEFAULT_FILE_NAME): DownloadableFile {
+  switch (format) {
+    case 'graphml':
+      return { fileName: `${fileName}.graphml`, mimeType: 'application/graphml+xml', data: renderGraphML(graph) };
+    case 'gexf':
+      return { fileName: `${fileName}.gexf`, mimeType: 'application/gexf+xml', data: renderGEXF(graph) };
+    case 'csv':
+      return {
+        fileName: `${fileName}-csv.zip`,
+        mimeType: 'application/zip',
+        data: createZip([
+          { name: `${fileName}-nodes.csv`, data: renderNodeCsv(graph) },
+          { name: `${fileName}-edges.csv`, data: renderEdgeCsv(graph) },
+        ]),
+      };
+  }
+}
+
+/**
+ * Serialise the viewer's SVG as a standalone image of the current view. The
+ * zoom and pan, search highlighting and faded nodes are attributes and inline
+ * styles of the live elements, so the copy keeps them.
+ */
+export function serializeGraphSvg(svg: SVGSVGElement, options: GraphImageOptions): string {
+  const { width, height, scale = 1, background } = options;
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.setAttribute('width', String(Math.round(width * scale)));
+  copy.setAttribute('height', String(Math.round(height * scale)));
+  copy.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  // Stylesheet classes do not travel with the file
+  copy.removeAttribute('class');
+  if (background) {
+    const fill = document.createElementNS(SVG_NS, 'rect');
+    fill.setAttribute('width', '100%');
+    fill.setAttribute('height', '100%');
+    fill.setAttribute('fill', background);
+    copy.insertBefore(fill, copy.firstChild);
+  }
+  // The serializer declares the SVG namespace
+  return new XMLSerializer().serializeToString(copy);
+}
+
+/**
+ * Draw a serialised SVG onto a canvas and encode it as PNG.
+ * @throws Error when the image is too large for a canvas or cannot be drawn
+ */
+export async function renderSvgToPng(svgMarkup: string, width: number, height: number): Promise<Uint8Array> {
+  if (width * height > MAX_IMAGE_PIXELS) {
+    throw new Error(`Image of ${width}×${height} pixels is too large; choose a lower resolution`);
+  }
+  const url = URL.createObjectURL(new Blob([svgMarkup], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to draw the graph image'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas drawing is not available');
+    }
+    context.drawImage(image, 0, 0, width, height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+      throw new Error('Failed to encode the graph image');
+    }
+    return new Uint8Array(await blob.arrayBuffer());
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Export the current view of the viewer's SVG as an SVG or PNG file.
+ * @param fileName - Base of the file name, without extension
+ */
+export async function exportGraphImage(
+  svg: SVGSVGElement,
+  format: GraphImageFormat,
+  options: GraphImageOptions,
+  fileName = DEFAULT_FILE_NAME
+): Promise<DownloadableFile> {
+  const markup = serializeGraphSvg(svg, options);
+  if (format === 'svg') {
+    return { fileName: `${fileName}.svg`, mimeType: 'image/svg+xml', data: markup };
+  }
+  const scale = options.scale ?? 1;
+  const data = await renderSvgToPng(markup, Math.round(options.width * scale), Math.round(options.height * scale));
+  return { fileName: scale === 1 ? `${fileName}.png` : `${fileName}@${scale}x.png`, mimeType: 'image/png', data };
+}
@@ -0,0 +1,244 @@
+/**
+ * @fileOverview Queries over a knowledge graph: paths and neighbourhoods
+ *
+ * Answers "how are 賈雨村 and 林黛玉 related?" on a chapter graph or the
+ * cumulative graph:
+ *
+ * - `findShortestPath`: one shortest chain of relationships between two entities
+ * - `findAllPaths`: every chain without repeated entities, up to a maximum length
+ * - `getNeighbourhood`: the entities within k hops of one entity
+ *
+ * Relationships are followed either way, whatever their direction, and can be
+ * limited to some types (`family`, `friendship`…); relationships without a type
+ * are typed by their label as in the graph view.
+ *
+ * This module is client-safe; `GET /api/graph/query` runs the queries on the
+ * served graphs.
+ */
+
+import type {
+  GraphEntity,
+  GraphNeighbourhood,
+  GraphPath,
+  GraphPathQueryResult,
+  GraphRelationType,
+  GraphRelationship,
+  StructuredChapterGraph,
+} from '@/types/graph';
+import { getRelationType } from './knowledgeGraphUtils';
+
+/** Longest path, in relationships, that path queries search by default */
+export const DEFAULT_MAX_PATH_LENGTH = 4;
+/** Most paths `findAllPaths` returns by default */
+export const DEFAULT_PATH_LIMIT = 100;
+/** Most relationships `findAllPaths` follows before it returns the paths found so far */
+export const MAX_PATH_SEARCH_STEPS = 200_000;
+
+/** A graph to query: a chapter graph or the cumulative graph */
+export type QueryableGraph = Pick<StructuredChapterGraph, 'entities' | 'relationships'>;
+
+export interface GraphQueryOptions {
+  /** Only follow relationships of these types; all types when omitted */
+  types?: GraphRelationType[];
+}
+
+export interface GraphPathOptions extends GraphQueryOptions {
+  /** Longest path in relationships; defaults to `DEFAULT_MAX_PATH_LENGTH` */
+  maxLength?: number;
+  /** Most paths to return; defaults to `DEFAULT_PATH_LIMIT` */
+  limit?: number;
+}
+
+// A relationship as seen from one of its ends
+interface Edge {
+  neighbour: string;
+  relationship: GraphRelationship;
+}
+
+// Relationships of each entity, in both directions, limited to the given types
+function buildAdjacency(graph: QueryableGraph, types?: GraphRelationType[]): Map<string, Edge[]> {
+  const adjacency = new Map<string, Edge[]>(graph.entities.map(entity => [entity.id, []]));
+  for (const relationship of graph.relationships) {
+    if (relationship.source === relationship.target) continue;
+    if (types && !types.includes(getRelationType(relationship))) continue;
+    adjacency.get(relationship.source)?.push({ neighbour: relationship.target, relationship });
+    adjacency.get(relationship.target)?.push({ neighbour: relationship.source, relationship });
+  }
+  return adjacency;
+}
+
+// Hops from one entity to each entity within `maxHops` of it, by breadth-first
+// search; paths through `avoid` are not counted
+function hopDistances(adjacency: Map<string, Edge[]>, from: string, maxHops: number, avoid?: string): Map<string, number> {
+  const distances = new Map([[from, 0]]);
+  if (avoid !== undefined) distances.set(avoid, Infinity);
+  let frontier = [from];
+  for (let distance = 1; distance <= maxHops && frontier.length > 0; distance++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const { neighbour } of adjacency.get(id)!) {
+        if (distances.has(neighbour)) continue;
+        distances.set(neighbour, distance);
+        next.push(neighbour);
+      }
+    }
+    frontier = next;
+  }
+  if (avoid !== undefined) distances.delete(avoid);
+  return distances;
+}
+
+function requireEntity(graph: QueryableGraph, id: string): GraphEntity {
+  const entity = graph.entities.find(candidate => candidate.id === id);
+  if (!entity) {
+    throw new Error(`Unknown graph entity ${id}`);
+  }
+  return entity;
+}
+
+/**
+ * Find an entity by id, name or alias.
+ * @returns The entity, or undefined when the graph has none by that name
+ */
+export function resolveGraphEntity(graph: QueryableGraph, query: string): GraphEntity | undefined {
+  const name = query.trim();
+  return graph.entities.find(entity => entity.id === name)
+    ?? graph.entities.find(entity => entity.name === name)
+    ?? graph.entities.find(entity => entity.aliases?.includes(name));
+}
+
+/**
+ * One shortest path between two entities.
+ * @param source - Entity id the path starts from
+ * @param target - Entity id the path ends at
+ * @returns The path, or null when the entities are not connected within `maxLength`
+ * @throws Error when either entity is not in the graph
+ */
+export function findShortestPath(
+  graph: QueryableGraph,
+  source: string,
+  target: string,
+  options: GraphPathOptions = {}
+): GraphPath | null {
+  requireEntity(graph, source);
+  requireEntity(graph, target);
+  const maxLength = options.maxLength ?? DEFAULT_MAX_PATH_LENGTH;
+  const adjacency = buildAdjacency(graph, options.types);
+
+  // Breadth-first search, remembering the edge each entity was reached by
+  const reachedBy = new Map<string, { from: string; relationship: GraphRelationship } | null>([[source, null]]);
+  let frontier = [source];
+  for (let length = 0; length < maxLength && !reachedBy.has(target) && frontier.length > 0; length++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const { neighbour, relationship } of adjacency.get(id)!) {
+        if (reachedBy.has(neighbour)) continue;
+        reachedBy.set(neighbour, { from: id, relationship });
+        next.push(neighbour);
+      }
+    }
+    frontier = next;
+  }
+  if (!reachedBy.has(target)) return null;
+
+  const entities = [target];
+  const relationships: GraphRelationship[] = [];
+  for (let step = reachedBy.get(target); step; step = reachedBy.get(step.from)) {
+    entities.unshift(step.from);
+    relationships.unshift(step.relationship);
+  }
+  return { entities, relationships };
+}
+
+/**
+ * Every path between two entities that visits no entity twice, shortest first.
+ * Parallel relationships between two entities give separate paths. The search
+ * gives up after `MAX_PATH_SEARCH_STEPS` relationships, returning the paths
+ * found until then.
+ * @param source - Entity id the paths start from
+ * @param target - Entity id the paths end at
+ * @returns The paths, and whether the search stopped before finding them all:
+ *   more than `limit` paths exist, or the step limit was reached
+ * @throws Error when either entity is not in the graph
+ */
+export function findAllPaths(
+  graph: QueryableGraph,
+  source: string,
+  target: string,
+  options: GraphPathOptions = {}
+): Pick<GraphPathQueryResult, 'paths' | 'truncated'> {
+  requireEntity(graph, source);
+  requireEntity(graph, target);
+  const maxLength = options.maxLength ?? DEFAULT_MAX_PATH_LENGTH;
+  const limit = options.limit ?? DEFAULT_PATH_LIMIT;
+  const adjacency = buildAdjacency(graph, options.types);
+  if (source === target) return { paths: [], truncated: false };
+
+  // Depth-first search at each length in turn, so paths come shortest first
+  // and the search ends once more than `limit` paths are found. Entities further from
+  // the target than the relationships left are never entered, so the search
+  // only walks chains that can still reach it; distances leave out the source,
+  // which no path can go back through. The one path beyond `limit` tells
+  // whether the limit cut the answer short
+  const toTarget = hopDistances(adjacency, target, maxLength, source);
+  const paths: GraphPath[] = [];
+  const entities = [source];
+  const relationships: GraphRelationship[] = [];
+  let steps = 0;
+  let outOfSteps = false;
+  const visit = (id: string, length: number) => {
+    for (const { neighbour, relationship } of adjacency.get(id)!) {
+      if (paths.length > limit) return;
+      if (steps >= MAX_PATH_SEARCH_STEPS) {
+        outOfSteps = true;
+        return;
+      }
+      if ((toTarget.get(neighbour) ?? Infinity) > length - relationships.length - 1) continue;
+      if (entities.includes(neighbour)) continue;
+      steps++;
+      entities.push(neighbour);
+      relationships.push(relationship);
+      if (relationships.length === length) {
+        if (neighbour === target) paths.push({ entities: [...entities], relationships: [...relationships] });
+      } else if (neighbour !== target) {
+        visit(neighbour, length);
+      }
+      entities.pop();
+      relationships.pop();
+    }
+  };
+  for (let length = 1; length <= maxLength && paths.length <= limit && !outOfSteps; length++) {
+    visit(source, length);
+  }
+  return { paths: paths.slice(0, limit), truncated: outOfSteps || paths.length > limit };
+}
+
+/**
+ * The entities within `hops` relationships of one entity, with the
+ * relationships between them.
+ * @param center - Entity id
+ * @throws Error when the entity is not in the graph
+ */
+export function getNeighbourhood(
+  graph: QueryableGraph,
+  center: string,
+  hops: number,
+  options: GraphQueryOptions = {}
+): GraphNeighbourhood {
+  const centerEntity = requireEntity(graph, center);
+  const adjacency = buildAdjacency(graph, options.types);
+
+  const distances = hopDistances(adjacency, center, hops);
+
+  // Relationships between entities of the neighbourhood, of the types followed
+  const followed = new Set([...adjacency.values()].flat().map(edge => edge.relationship));
+
+  return {
+    center: centerEntity,
+    hops,
+    entities: graph.entities.filter(entity => distances.has(entity.id)),
+    relationships: graph.relationships.filter(relationship =>
+      followed.has(relationship) && distances.has(relationship.source) && distances.has(relationship.target)),
+    distances: Object.fromEntries(distances),
+  };
+}
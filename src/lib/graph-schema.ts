@@ -0,0 +1,196 @@
+/**
+ * @fileOverview Chapter knowledge-graph schema: validation and legacy upgrade
+ *
+ * Graph files come in two formats (see `src/types/graph.ts`). Everything that
+ * reads a graph works on the structured format (`schemaVersion: 2`):
+ *
+ * - `normalizeChapterGraph` checks a graph file strictly and returns it in the
+ *   structured format, upgrading legacy files. The graph route and scripts use it.
+ * - `upgradeLegacyChapterGraph` converts `"A - rel - B"` strings leniently,
+ *   dropping malformed strings with a warning. The graph view uses it so a
+ *   partly broken file still shows what it can.
+ *
+ * Legacy entities get the ids `entity-{index}`; a legacy relationship links the
+ * first entity of each name and is read as directed, with no evidence.
+ */
+
+import type {
+  ChapterGraphFile,
+  ChapterGraphJson,
+  ChapterGraphMetadata,
+  GraphEntityType,
+  GraphRelationDirection,
+  GraphRelationType,
+  StructuredChapterGraph,
+} from '@/types/graph';
+import { isValidChapterNumber } from './chapter-loader';
+
+/** Version written by the graph pipeline */
+export const CHAPTER_GRAPH_SCHEMA_VERSION = 2;
+
+export const GRAPH_ENTITY_TYPES: GraphEntityType[] = ['character', 'location', 'concept', 'event', 'artifact'];
+export const GRAPH_RELATION_TYPES: GraphRelationType[] = ['family', 'friendship', 'conflict', 'literary', 'conceptual'];
+const GRAPH_RELATION_DIRECTIONS: GraphRelationDirection[] = ['directed', 'undirected'];
+
+// Separator of the legacy relationship strings
+const LEGACY_SEPARATOR = ' - ';
+
+const METADATA_NUMBER_FIELDS = [
+  'processing_time', 'chunks_processed', 'total_characters', 'clustering_time', 'clustered_entities',
+  'phase3_time', 'synonym_merges_applied', 'entities_merged', 'total_processing_time', 'text_length',
+  'original_entities', 'streamlined_entities', 'original_relationships', 'streamlined_relationships',
+] as const;
+
+const METADATA_STRING_FIELDS = [
+  'version', 'description', 'strategy', 'reduction_ratio', 'focus', 'creation_date', 'notes',
+] as const;
+
+/**
+ * Whether a graph file uses the structured format
+ */
+export const isStructuredChapterGraph = (data: ChapterGraphFile): data is StructuredChapterGraph =>
+  (data as StructuredChapterGraph).schemaVersion === CHAPTER_GRAPH_SCHEMA_VERSION;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Convert a legacy graph to the structured format. Relationship strings that
+ * are malformed or name an unlisted entity are dropped with a warning.
+ * @param chapter - Chapter the graph describes; legacy files do not record it
+ */
+export function upgradeLegacyChapterGraph(data: ChapterGraphJson, chapter: number): StructuredChapterGraph {
+  const names: string[] = Array.isArray(data.entities) ? data.entities : [];
+  const relationships: StructuredChapterGraph['relationships'] = [];
+
+  for (const relationshipText of Array.isArray(data.relationships) ? data.relationships : []) {
+    const parts = typeof relationshipText === 'string' ? relationshipText.split(LEGACY_SEPARATOR) : [];
+    if (parts.length !== 3) {
+      console.warn(`Invalid relationship format: ${relationshipText}`);
+      continue;
+    }
+    const [sourceName, relation, targetName] = parts;
+    const sourceIndex = names.indexOf(sourceName);
+    const targetIndex = names.indexOf(targetName);
+    if (sourceIndex === -1 || targetIndex === -1) {
+      console.warn(`Entity not found for relationship: ${relationshipText}`);
+      continue;
+    }
+    relationships.push({
+      source: `entity-${sourceIndex}`,
+      target: `entity-${targetIndex}`,
+      relation,
+      direction: 'directed',
+      chapter,
+    });
+  }
+
+  return {
+    schemaVersion: CHAPTER_GRAPH_SCHEMA_VERSION,
+    chapter,
+    entities: names.map((name, index) => ({ id: `entity-${index}`, name })),
+    relationships,
+    metadata: data.metadata,
+  };
+}
+
+function validateMetadata(metadata: ChapterGraphMetadata): void {
+  const fields = metadata as unknown as Record<string, unknown>;
+  if (!fields || typeof fields !== 'object') {
+    throw new Error('Chapter graph is missing its metadata');
+  }
+  for (const key of METADATA_NUMBER_FIELDS) {
+    if (typeof fields[key] !== 'number' || !Number.isFinite(fields[key])) {
+      throw new Error(`Chapter graph metadata ${key} must be a number`);
+    }
+  }
+  for (const key of METADATA_STRING_FIELDS) {
+    if (typeof fields[key] !== 'string') {
+      throw new Error(`Chapter graph metadata ${key} must be a string`);
+    }
+  }
+}
+
+function validateLegacyGraph(graph: ChapterGraphJson): void {
+  const entities = new Set<string>();
+  for (const entity of graph.entities) {
+    if (!isNonEmptyString(entity) || entity.includes(LEGACY_SEPARATOR.trim())) {
+      throw new Error(`Chapter graph has an invalid entity: ${entity}`);
+    }
+    if (entities.has(entity)) {
+      throw new Error(`Chapter graph repeats entity ${entity}`);
+    }
+    entities.add(entity);
+  }
+  for (const relationship of graph.relationships) {
+    const parts = typeof relationship === 'string' ? relationship.split(LEGACY_SEPARATOR) : [];
+    if (parts.length !== 3 || !parts[1] || !entities.has(parts[0]) || !entities.has(parts[2])) {
+      throw new Error(`Chapter graph has an invalid relationship: ${relationship}`);
+    }
+  }
+}
+
+function validateStructuredGraph(graph: StructuredChapterGraph, chapter: number): void {
+  if (graph.chapter !== chapter) {
+    throw new Error(`Chapter graph describes chapter ${graph.chapter}, expected chapter ${chapter}`);
+  }
+  const ids = new Set<string>();
+  for (const entity of graph.entities) {
+    if (!entity || !isNonEmptyString(entity.id) || !isNonEmptyString(entity.name)) {
+      throw new Error(`Chapter graph has an invalid entity: ${JSON.stringify(entity)}`);
+    }
+    if (ids.has(entity.id)) {
+      throw new Error(`Chapter graph repeats entity id ${entity.id}`);
+    }
+    if (entity.type !== undefined && !GRAPH_ENTITY_TYPES.includes(entity.type)) {
+      throw new Error(`Chapter graph entity ${entity.id} has an unknown type ${entity.type}`);
+    }
+    if (entity.aliases !== undefined && (!Array.isArray(entity.aliases) || !entity.aliases.every(isNonEmptyString))) {
+      throw new Error(`Chapter graph entity ${entity.id} has invalid aliases`);
+    }
+    if (entity.characterId !== undefined && !isNonEmptyString(entity.characterId)) {
+      throw new Error(`Chapter graph entity ${entity.id} has an invalid character id`);
+    }
+    if (entity.entityId !== undefined && !isNonEmptyString(entity.entityId)) {
+      throw new Error(`Chapter graph entity ${entity.id} has an invalid entity id`);
+    }
+    ids.add(entity.id);
+  }
+  graph.relationships.forEach((relationship, index) => {
+    const valid = !!relationship
+      && ids.has(relationship.source) && ids.has(relationship.target)
+      && isNonEmptyString(relationship.relation)
+      && (relationship.type === undefined || GRAPH_RELATION_TYPES.includes(relationship.type))
+      && GRAPH_RELATION_DIRECTIONS.includes(relationship.direction)
+      && isValidChapterNumber(relationship.chapter)
+      && (relationship.evidence === undefined || (
+        isNonEmptyString(relationship.evidence.paragraphId)
+        && (relationship.evidence.quote === undefined || isNonEmptyString(relationship.evidence.quote))
+      ));
+    if (!valid) {
+      throw new Error(`Chapter graph has an invalid relationship at index ${index}`);
+    }
+  });
+}
+
+/**
+ * Validate a graph file in either format and return it in the structured format.
+ * @param data - Parsed JSON of a graph file
+ * @param chapter - Chapter the file belongs to
+ * @throws Error describing the first violation found
+ */
+export function normalizeChapterGraph(data: unknown, chapter: number): StructuredChapterGraph {
+  const graph = data as ChapterGraphFile;
+  if (!graph || typeof graph !== 'object' || !Array.isArray(graph.entities) || !Array.isArray(graph.relationships)) {
+    throw new Error('Chapter graph must have entity and relationship arrays');
+  }
+  validateMetadata(graph.metadata);
+  if (isStructuredChapterGraph(graph)) {
+    validateStructuredGraph(graph, chapter);
+    return graph;
+  }
+  if ((graph as { schemaVersion?: unknown }).schemaVersion !== undefined) {
+    throw new Error(`Unsupported chapter graph schema version: ${(graph as { schemaVersion?: unknown }).schemaVersion}`);
+  }
+  validateLegacyGraph(graph);
+  return upgradeLegacyChapterGraph(graph, chapter);
+}
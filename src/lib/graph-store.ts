@@ -0,0 +1,281 @@
+/**
+ * @fileOverview Version history of uploaded chapter knowledge graphs
+ *
+ * Graphs uploaded through `POST /api/chapters/[chapterNumber]/graph` are kept
+ * as numbered versions next to a per-chapter index:
+ *
+ *   {GRAPH_STORE_DIR}/chapter{N}/index.json   - `GraphVersionIndex`
+ *   {GRAPH_STORE_DIR}/chapter{N}/v{version}.json
+ *
+ * Uploads are validated with `normalizeChapterGraph`, stored in the structured
+ * format and start as `pending`. An editor approves a version, which makes it
+ * the one the graph route serves; a rollback serves an earlier approved version
+ * again. Until a version is approved the bundled graph file is served.
+ *
+ * Editors are configured on the server with `GRAPH_EDITOR_TOKENS`
+ * (`name:token,name:token`) and send `Authorization: Bearer <token>`. Only
+ * editors can upload.
+ *
+ * Single server only: versions are local files, and changes to a chapter's
+ * history are serialised within this process. On serverless hosting (App
+ * Hosting, Cloud Run with several instances) local files do not survive a
+ * deploy and instances do not share them, so uploads, approvals and rollbacks
+ * are off unless `GRAPH_STORE_DIR` names a persistent directory of a single
+ * server.
+ * Only import this module from API routes and scripts; it depends on Node's `fs`.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { timingSafeEqual } from 'crypto';
+import type { GraphVersion, GraphVersionIndex, StructuredChapterGraph } from '@/types/graph';
+import { isMissingFile } from './chapter-corpus';
+import { readChapterGraphFromCorpus } from './graph-corpus';
+import { normalizeChapterGraph } from './graph-schema';
+
+/** Largest graph file accepted for upload, in bytes */
+export const MAX_GRAPH_UPLOAD_BYTES = 512 * 1024;
+export const MAX_GRAPH_ENTITIES = 500;
+export const MAX_GRAPH_RELATIONSHIPS = 2000;
+
+/**
+ * Directory holding the version history; `GRAPH_STORE_DIR` overrides the
+ * default `data/chapter-graphs` in the project root.
+ */
+export const graphStoreDir = (): string =>
+  process.env.GRAPH_STORE_DIR || path.join(process.cwd(), 'data', 'chapter-graphs');
+
+/**
+ * Whether this server accepts uploads, approvals and rollbacks: only when `GRAPH_STORE_DIR` is set,
+ * as a deployment's way of saying its store is persistent and not shared.
+ */
+export const graphUploadsEnabled = (): boolean => Boolean(process.env.GRAPH_STORE_DIR);
+
+const chapterDir = (directory: string, chapter: number) => path.join(directory, `chapter${chapter}`);
+const indexPath = (directory: string, chapter: number) => path.join(chapterDir(directory, chapter), 'index.json');
+const versionPath = (directory: string, chapter: number, version: number) =>
+  path.join(chapterDir(directory, chapter), `v${version}.json`);
+
+// Last change queued per chapter history; each change waits for the one before
+const historyLocks = new Map<string, Promise<unknown>>();
+
+// Run a read-modify-write of a chapter's history after the changes already queued for it
+async function withHistoryLock<T>(directory: string, chapter: number, change: () => Promise<T>): Promise<T> {
+  const key = chapterDir(directory, chapter);
+  const previous = historyLocks.get(key) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(change);
+  historyLocks.set(key, current);
+  try {
+    return await current;
+  } finally {
+    if (historyLocks.get(key) === current) historyLocks.delete(key);
+  }
+}
+
+async function writeIndex(directory: string, index: GraphVersionIndex): Promise<void> {
+  await fs.mkdir(chapterDir(directory, index.chapter), { recursive: true });
+  await fs.writeFile(indexPath(directory, index.chapter), `${JSON.stringify(index, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Name of the editor whose token is given in an `Authorization` header.
+ * @returns The editor's name, or null when the token is missing or unknown
+ */
+export function findGraphEditor(authorization: string | null): string | null {
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) return null;
+  for (const entry of (process.env.GRAPH_EDITOR_TOKENS ?? '').split(',')) {
+    const separator = entry.indexOf(':');
+    const name = entry.slice(0, separator).trim();
+    const expected = Buffer.from(entry.slice(separator + 1).trim());
+    const given = Buffer.from(token);
+    if (separator > 0 && name && expected.length === given.length && timingSafeEqual(expected, given)) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse and validate an uploaded graph file.
+ * @param body - Raw request body
+ * @throws Error when the file is too large, not JSON or not a valid graph
+ */
+export function parseGraphUpload(body: string, chapter: number): StructuredChapterGraph {
+  if (Buffer.byteLength(body, 'utf-8') > MAX_GRAPH_UPLOAD_BYTES) {
+    throw new Error(`Graph upload exceeds ${MAX_GRAPH_UPLOAD_BYTES} bytes`);
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new Error('Graph upload is not valid JSON');
+  }
+  const graph = normalizeChapterGraph(data, chapter);
+  if (graph.entities.length > MAX_GRAPH_ENTITIES) {
+    throw new Error(`Graph upload has more than ${MAX_GRAPH_ENTITIES} entities`);
+  }
+  if (graph.relationships.length > MAX_GRAPH_RELATIONSHIPS) {
+    throw new Error(`Graph upload has more than ${MAX_GRAPH_RELATIONSHIPS} relationships`);
+  }
+  return graph;
+}
+
+/**
+ * Read a chapter's version history; chapters without uploads have an empty one.
+ * @throws Error when the index cannot be read or parsed
+ */
+export async function readGraphVersionIndex(chapter: number, directory = graphStoreDir()): Promise<GraphVersionIndex> {
+  let fileContent: string;
+  try {
+    fileContent = await fs.readFile(indexPath(directory, chapter), 'utf-8');
+  } catch (error) {
+    if (isMissingFile(error)) return { chapter, current: null, versions: [] };
+    throw error;
+  }
+  return JSON.parse(fileContent);
+}
+
+/**
+ * Read one stored version of a chapter graph.
+ * @returns The graph, or null when the version does not exist
+ * @throws Error when the version file cannot be read or parsed
+ */
+export async function readGraphVersion(chapter: number, version: number, directory = graphStoreDir()): Promise<StructuredChapterGraph | null> {
+  let fileContent: string;
+  try {
+    fileContent = await fs.readFile(versionPath(directory, chapter, version), 'utf-8');
+  } catch (error) {
+    if (isMissingFile(error)) return null;
+    throw error;
+  }
+  return JSON.parse(fileContent);
+}
+
+/**
+ * Read the version the graph route serves.
+ * @returns The current approved graph, or null when no upload has been approved
+ */
+export async function readApprovedChapterGraph(chapter: number, directory = graphStoreDir()): Promise<StructuredChapterGraph | null> {
+  const index = await readGraphVersionIndex(chapter, directory);
+  return index.current === null ? null : readGraphVersion(chapter, index.current, directory);
+}
+
+/**
+ * Read the graph readers are shown: the approved upload, else the bundled file.
+ * @returns The graph, or null when the chapter has neither
+ */
+export async function readServedChapterGraph(chapter: number, directory = graphStoreDir()): Promise<StructuredChapterGraph | null> {
+  return await readApprovedChapterGraph(chapter, directory) ?? await readChapterGraphFromCorpus(chapter);
+}
+
+/**
+ * Read the served graphs of chapters 1..`through`. Chapters without a graph are
+ * left out, and so are malformed files, which are logged.
+ */
+export async function readServedChapterGraphs(through: number, directory = graphStoreDir()): Promise<StructuredChapterGraph[]> {
+  const graphs: StructuredChapterGraph[] = [];
+  for (let chapter = 1; chapter <= through; chapter++) {
+    try {
+      const graph = await readServedChapterGraph(chapter, directory);
+      if (graph) graphs.push(graph);
+    } catch (error) {
+      console.error(`Malformed knowledge graph for chapter ${chapter}:`, error);
+    }
+  }
+  return graphs;
+}
+
+/**
+ * Store a validated graph as the chapter's next version, pending approval.
+ * @param uploadedBy - Editor who uploaded it
+ * @throws Error when the version file already exists, e.g. written by another process
+ */
+export async function saveGraphVersion(
+  graph: StructuredChapterGraph,
+  uploadedBy: string,
+  directory = graphStoreDir()
+): Promise<GraphVersion> {
+  return withHistoryLock(directory, graph.chapter, () => appendGraphVersion(graph, uploadedBy, directory));
+}
+
+async function appendGraphVersion(graph: StructuredChapterGraph, uploadedBy: string, directory: string): Promise<GraphVersion> {
+  const index = await readGraphVersionIndex(graph.chapter, directory);
+  const content = `${JSON.stringify(graph, null, 2)}\n`;
+  const entry: GraphVersion = {
+    version: index.versions.reduce((latest, { version }) => Math.max(latest, version), 0) + 1,
+    status: 'pending',
+    uploadedAt: new Date().toISOString(),
+    uploadedBy,
+    size: Buffer.byteLength(content, 'utf-8'),
+    entityCount: graph.entities.length,
+    relationshipCount: graph.relationships.length,
+  };
+  await fs.mkdir(chapterDir(directory, graph.chapter), { recursive: true });
+  // Never overwrite a stored version
+  await fs.writeFile(versionPath(directory, graph.chapter, entry.version), content, { encoding: 'utf-8', flag: 'wx' });
+  await writeIndex(directory, { ...index, versions: [...index.versions, entry] });
+  return entry;
+}
+
+/**
+ * Approve a version and serve it.
+ * @returns The approved version, or null when it does not exist
+ */
+export async function approveGraphVersion(
+  chapter: number,
+  version: number,
+  editor: string,
+  directory = graphStoreDir()
+): Promise<GraphVersion | null> {
+  return withHistoryLock(directory, chapter, () => markApproved(chapter, version, editor, directory));
+}
+
+async function markApproved(chapter: number, version: number, editor: string, directory: string): Promise<GraphVersion | null> {
+  const index = await readGraphVersionIndex(chapter, directory);
+  const entry = index.versions.find(candidate => candidate.version === version);
+  if (!entry) return null;
+
+  const now = new Date().toISOString();
+  const approved: GraphVersion = entry.status === 'approved' ? entry : { ...entry, status: 'approved', approvedAt: now, approvedBy: editor };
+  await writeIndex(directory, {
+    ...index,
+    current: version,
+    versions: index.versions.map(candidate => (candidate.version === version ? approved : candidate)),
+    updatedAt: now,
+    updatedBy: editor,
+  });
+  return approved;
+}
+
+/**
+ * Serve an earlier approved version again.
+ * @param version - Version to serve; defaults to the approved version before the current one
+ * @returns The updated history, or null when the version is not approved or
+ *   there is no earlier approved version
+ */
+export async function rollbackChapterGraph(
+  chapter: number,
+  version: number | undefined,
+  editor: string,
+  directory = graphStoreDir()
+): Promise<GraphVersionIndex | null> {
+  return withHistoryLock(directory, chapter, () => serveEarlierVersion(chapter, version, editor, directory));
+}
+
+async function serveEarlierVersion(
+  chapter: number,
+  version: number | undefined,
+  editor: string,
+  directory: string
+): Promise<GraphVersionIndex | null> {
+  const index = await readGraphVersionIndex(chapter, directory);
+  const approved = index.versions.filter(entry => entry.status === 'approved');
+  const target = version ?? approved.filter(entry => index.current === null || entry.version < index.current).pop()?.version;
+
+  if (target === undefined || !approved.some(entry => entry.version === target)) return null;
+
+  const updated: GraphVersionIndex = { ...index, current: target, updatedAt: new Date().toISOString(), updatedBy: editor };
+  await writeIndex(directory, updated);
+  return updated;
+}
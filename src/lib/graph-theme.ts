@@ -0,0 +1,87 @@
+/**
+ * @fileOverview Styling of knowledge graph nodes
+ *
+ * Entities are typed by the entity catalog (or, for entities it does not list,
+ * by their names) into a category such as 神話人物 or 世俗地點. A theme maps
+ * each category to the colour, radius and group of its nodes, and lists the
+ * categories the graph view's legend shows.
+ *
+ * `DEFAULT_GRAPH_THEME` is the traditional red-and-gold palette of the graph
+ * view; pass another theme to `KnowledgeGraphViewer` or the graph transforms
+ * to restyle it.
+ */
+
+import type { GraphEntityType } from '@/types/graph';
+import type { KnowledgeGraphData } from './knowledgeGraphUtils';
+
+/** How nodes of one category are drawn */
+export interface GraphNodeStyle {
+  color: string;
+  radius: number;
+  /** Group of related categories, e.g. all places */
+  group: number;
+}
+
+/** One entry of the graph view's legend */
+export interface GraphLegendEntry {
+  label: string;
+  /** Category whose colour the entry shows */
+  category: string;
+}
+
+export interface GraphTheme {
+  /** Style of each category */
+  categories: Record<string, GraphNodeStyle>;
+  /** Style of entities whose category the theme does not list, by type */
+  types: Record<GraphEntityType, GraphNodeStyle>;
+  legend: GraphLegendEntry[];
+}
+
+export const DEFAULT_GRAPH_THEME: GraphTheme = {
+  categories: {
+    '神話人物': { color: '#DC2626', radius: 35, group: 1 }, // Traditional Chinese red
+    '主要人物': { color: '#059669', radius: 30, group: 2 }, // Emerald green
+    '次要人物': { color: '#EC4899', radius: 25, group: 2 }, // Pink
+    '其他人物': { color: '#6B7280', radius: 18, group: 7 }, // Gray
+    '神話地點': { color: '#8B5CF6', radius: 28, group: 3 }, // Purple for mystical places
+    '世俗地點': { color: '#F59E0B', radius: 24, group: 3 }, // Amber
+    '重要物品/文獻': { color: '#EAB308', radius: 30, group: 4 }, // Golden yellow
+    '書名': { color: '#9F1239', radius: 26, group: 4 }, // Deep rose
+    '詩詞': { color: '#0F766E', radius: 22, group: 4 }, // Teal
+    '哲學概念': { color: '#0891B2', radius: 22, group: 5 }, // Cyan
+    '情節事件': { color: '#7C2D12', radius: 20, group: 6 }, // Brown
+  },
+  types: {
+    character: { color: '#6B7280', radius: 18, group: 7 },
+    location: { color: '#F59E0B', radius: 24, group: 3 },
+    concept: { color: '#0891B2', radius: 22, group: 5 },
+    event: { color: '#7C2D12', radius: 20, group: 6 },
+    artifact: { color: '#EAB308', radius: 30, group: 4 },
+  },
+  legend: [
+    { label: '神話人物', category: '神話人物' },
+    { label: '世俗人物', category: '主要人物' },
+    { label: '神仙', category: '神話地點' },
+    { label: '神器/文學', category: '重要物品/文獻' },
+    { label: '地點', category: '世俗地點' },
+  ],
+};
+
+/**
+ * Style of an entity's nodes; categories the theme does not list are styled by type.
+ */
+export const getNodeStyle = (theme: GraphTheme, category: string, type: GraphEntityType): GraphNodeStyle =>
+  theme.categories[category] ?? theme.types[type];
+
+/**
+ * Restyle graph data with another theme. Nodes and links are copied, and links
+ * point at node ids again, so the data can be laid out afresh.
+ */
+export const applyGraphTheme = (data: KnowledgeGraphData, theme: GraphTheme): KnowledgeGraphData => ({
+  nodes: data.nodes.map(node => ({ ...node, ...getNodeStyle(theme, node.category, node.type) })),
+  links: data.links.map(link => ({
+    ...link,
+    source: typeof link.source === 'string' ? link.source : link.source.id,
+    target: typeof link.target === 'string' ? link.target : link.target.id,
+  })),
+});
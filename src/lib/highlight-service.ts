@@ -1,55 +1,167 @@
 /**
- * @fileOverview Service functions for saving and retrieving user underline highlights in Firestore.
+ * @fileOverview Service functions for saving and retrieving user highlights in Firestore.
  *
  * This module provides functions to save a highlight and fetch highlights for a specific user and chapter.
- * It is designed for underline (not background highlight) integration with the Red Mansion reading system.
+ * Each highlight carries a position anchor (paragraph id, character offsets and a
+ * context quote, see `text-anchoring.ts`) so repeated phrases can be told apart and
+ * highlights survive corrections to the chapter text, plus a colour and category.
+ *
+ * Records saved before anchors existed only have `selectedText`; they are still
+ * returned and resolve to the first occurrence of their text.
  */
 
 import { db } from './firebase';
-import { collection, addDoc, getDocs, query, where, Timestamp, deleteDoc, doc } from 'firebase/firestore';
+import { collection, addDoc, getDocs, query, where, Timestamp, deleteDoc, doc, setDoc, updateDoc } from 'firebase/firestore';
+import type { EditionId, Paragraph } from '@/types/chapter';
+import { DEFAULT_EDITION_ID } from './editions';
+import { getParagraphText } from './chapter-loader';
+import { createTextAnchor, resolveTextAnchor, type ResolvedAnchor, type TextAnchor } from './text-anchoring';
+
+/** Highlight colours offered in the reader */
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink', 'purple'] as const;
+export type HighlightColor = typeof HIGHLIGHT_COLORS[number];
+
+/** Categories a reader can file a highlight under */
+export const HIGHLIGHT_CATEGORIES = ['general', 'character', 'poetry', 'foreshadowing', 'question'] as const;
+export type HighlightCategory = typeof HIGHLIGHT_CATEGORIES[number];
 
-// Type definition for a user highlight (underline)
+export const DEFAULT_HIGHLIGHT_COLOR: HighlightColor = 'yellow';
+export const DEFAULT_HIGHLIGHT_CATEGORY: HighlightCategory = 'general';
+
+// Type definition for a user highlight
 export interface Highlight {
   id?: string; // Firestore document ID
   userId: string; // User's unique ID
   chapterId: number; // Chapter number
-  selectedText: string; // The text user underlined
+  selectedText: string; // The text user highlighted
   createdAt: Date; // Timestamp of creation
+  editionId?: EditionId; // Edition the offsets refer to; absent means the default edition
+  anchor?: TextAnchor; // Position in the chapter; absent on records saved before anchoring
+  color?: HighlightColor; // Highlight colour (default: yellow)
+  category?: HighlightCategory; // Reader-chosen category (default: general)
 }
 
+/** A highlight placed in the current chapter text */
+export interface PlacedHighlight {
+  highlight: Highlight;
+  position: ResolvedAnchor;
+  /** Anchor for the resolved position; differs from `highlight.anchor` after re-anchoring */
+  anchor: TextAnchor;
+}
+
+const HIGHLIGHTS_COLLECTION = 'highlights';
+
+const isHighlightColor = (value: unknown): value is HighlightColor =>
+  HIGHLIGHT_COLORS.includes(value as HighlightColor);
+
+const isHighlightCategory = (value: unknown): value is HighlightCategory =>
+  HIGHLIGHT_CATEGORIES.includes(value as HighlightCategory);
+
 /**
- * Save an underline highlight to Firestore for a user and chapter.
+ * Reserve a Firestore document ID for a highlight that will be saved later.
+ */
+export function newHighlightId(): string {
+  return doc(collection(db, HIGHLIGHTS_COLLECTION)).id;
+}
+
+/**
+ * Save a highlight to Firestore for a user and chapter.
  * @param highlight - Highlight object without id and createdAt
+ * @param id - Document ID to save under, e.g. one reserved with `newHighlightId`;
+ *   saving twice under the same ID writes the highlight once
  * @returns The Firestore document ID of the saved highlight
  */
-export async function saveHighlight(highlight: Omit<Highlight, 'id' | 'createdAt'>) {
-  const docRef = await addDoc(collection(db, 'highlights'), {
+export async function saveHighlight(highlight: Omit<Highlight, 'id' | 'createdAt'>, id?: string) {
+  const data = {
     ...highlight,
+    editionId: highlight.editionId ?? DEFAULT_EDITION_ID,
+    color: highlight.color ?? DEFAULT_HIGHLIGHT_COLOR,
+    category: highlight.category ?? DEFAULT_HIGHLIGHT_CATEGORY,
     createdAt: Timestamp.now(),
-  });
+  };
+  if (id) {
+    await setDoc(doc(db, HIGHLIGHTS_COLLECTION, id), data);
+    return id;
+  }
+  const docRef = await addDoc(collection(db, HIGHLIGHTS_COLLECTION), data);
   return docRef.id;
 }
 
 /**
- * Fetch all underline highlights for a user and chapter from Firestore.
+ * Fetch all highlights for a user and chapter from Firestore.
+ * Older records without colour, category or edition get the defaults.
  * @param userId - The user's unique ID
  * @param chapterId - The chapter number
+ * @param editionId - Only return highlights made in this edition (optional)
  * @returns Array of Highlight objects
  */
-export async function getHighlightsByUserAndChapter(userId: string, chapterId: number): Promise<Highlight[]> {
+export async function getHighlightsByUserAndChapter(userId: string, chapterId: number, editionId?: EditionId): Promise<Highlight[]> {
   const q = query(
-    collection(db, 'highlights'),
+    collection(db, HIGHLIGHTS_COLLECTION),
     where('userId', '==', userId),
     where('chapterId', '==', chapterId)
   );
   const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data(),
-    createdAt: doc.data().createdAt.toDate(),
-  } as Highlight));
+  const highlights = querySnapshot.docs.map(doc => {
+    const data = doc.data();
+    return {
+      ...data,
+      id: doc.id,
+      createdAt: data.createdAt.toDate(),
+      editionId: data.editionId ?? DEFAULT_EDITION_ID,
+      color: isHighlightColor(data.color) ? data.color : DEFAULT_HIGHLIGHT_COLOR,
+      category: isHighlightCategory(data.category) ? data.category : DEFAULT_HIGHLIGHT_CATEGORY,
+    } as Highlight;
+  });
+  return editionId ? highlights.filter(h => h.editionId === editionId) : highlights;
+}
+
+/**
+ * Change a highlight's colour or category.
+ */
+export async function updateHighlightStyle(id: string, style: Partial<Pick<Highlight, 'color' | 'category'>>) {
+  await updateDoc(doc(db, HIGHLIGHTS_COLLECTION, id), style);
+}
+
+/**
+ * Store a new anchor for a highlight after it was re-anchored to corrected text.
+ */
+export async function updateHighlightAnchor(id: string, selectedText: string, anchor: TextAnchor) {
+  await updateDoc(doc(db, HIGHLIGHTS_COLLECTION, id), { selectedText, anchor });
 }
 
 export async function deleteHighlightById(id: string) {
-  await deleteDoc(doc(db, 'highlights', id));
-} 
\ No newline at end of file
+  await deleteDoc(doc(db, HIGHLIGHTS_COLLECTION, id));
+}
+
+/**
+ * Place highlights in the current chapter text, re-anchoring any whose text moved
+ * or changed. Highlights that can no longer be found are left out.
+ * @param highlights - Highlights for the chapter
+ * @param paragraphs - The chapter's current paragraphs
+ */
+export function placeHighlights(highlights: Highlight[], paragraphs: Array<Pick<Paragraph, 'id' | 'content'>>): PlacedHighlight[] {
+  const placed: PlacedHighlight[] = [];
+  for (const highlight of highlights) {
+    const position = resolveTextAnchor(highlight.selectedText, highlight.anchor, paragraphs);
+    const paragraph = position && paragraphs.find(p => p.id === position.paragraphId);
+    if (position && paragraph) {
+      const anchor = createTextAnchor(position.paragraphId, getParagraphText(paragraph), position.startOffset, position.endOffset);
+      placed.push({ highlight, position, anchor });
+    }
+  }
+  return placed;
+}
+
+/**
+ * Save the new anchors of highlights that had to be re-anchored, so the next
+ * load finds them at their offsets directly. Records without anchors gain one.
+ * @returns Number of highlights updated
+ */
+export async function saveReanchoredHighlights(placed: PlacedHighlight[]): Promise<number> {
+  const reanchored = placed.filter(({ highlight, position }) => highlight.id && position.status !== 'exact');
+  await Promise.all(
+    reanchored.map(({ highlight, position, anchor }) => updateHighlightAnchor(highlight.id!, position.text, anchor))
+  );
+  return reanchored.length;
+}
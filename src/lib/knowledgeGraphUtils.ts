@@ -1,44 +1,29 @@
 // Knowledge Graph Data Transformation Utilities
 // This file provides utilities to transform chapter JSON data to D3.js compatible format
 
-export interface ChapterGraphJson {
-  entities: string[];
-  relationships: string[];
-  metadata: {
-    version: string;
-    description: string;
-    processing_time: number;
-    chunks_processed: number;
-    total_characters: number;
-    clustering_time: number;
-    clustered_entities: number;
-    phase3_time: number;
-    synonym_merges_applied: number;
-    entities_merged: number;
-    total_processing_time: number;
-    strategy: string;
-    text_length: number;
-    original_entities: number;
-    streamlined_entities: number;
-    original_relationships: number;
-    streamlined_relationships: number;
-    reduction_ratio: string;
-    focus: string;
-    creation_date: string;
-    notes: string;
-  };
-}
+import type { EntityCatalogJson, EntityImportance } from '@/types/entity';
+import type { ChapterGraphFile, CumulativeGraph, GraphEntity, GraphPathQueryResult, GraphEntityType, GraphEvidence, GraphRelationDirection, GraphRelationType, GraphRelationship } from '@/types/graph';
+import { sliceCumulativeGraph } from './cumulative-graph';
+import { buildEntityCatalogIndex, findCatalogEntity, loadEntityCatalog, type EntityCatalogIndex } from './entity-catalog';
+import { isStructuredChapterGraph, upgradeLegacyChapterGraph } from './graph-schema';
+import { DEFAULT_GRAPH_THEME, getNodeStyle, type GraphTheme } from './graph-theme';
+
+export type { ChapterGraphJson } from '@/types/graph';
 
 export interface KnowledgeGraphNode {
   id: string;
   name: string;
-  type: 'character' | 'location' | 'concept' | 'event' | 'artifact';
-  importance: 'primary' | 'secondary' | 'tertiary';
+  type: GraphEntityType;
+  importance: EntityImportance;
   description: string;
   category: string;
+  /** Family or faction, for entities of the entity catalog */
+  faction?: string;
   radius: number;
   color: string;
   group: number;
+  /** Chapters the node appears in, for cumulative graphs */
+  chapters?: number[];
   x?: number;
   y?: number;
   vx?: number;
@@ -52,9 +37,15 @@ export interface KnowledgeGraphLink {
   target: string | KnowledgeGraphNode;
   relationship: string;
   strength: number;
-  type: 'family' | 'friendship' | 'conflict' | 'literary' | 'conceptual';
+  type: GraphRelationType;
   description: string;
   distance: number;
+  /** Read as directed when omitted */
+  direction?: GraphRelationDirection;
+  /** Paragraph of the chapter that shows the relationship */
+  evidence?: GraphEvidence;
+  /** Chapters the relationship appears in, for cumulative graphs */
+  chapters?: number[];
 }
 
 export interface KnowledgeGraphData {
@@ -62,24 +53,30 @@ export interface KnowledgeGraphData {
   links: KnowledgeGraphLink[];
 }
 
-// Entity categorization rules based on Chinese literature domain knowledge
-const categorizeEntity = (entityName: string): {
-  type: KnowledgeGraphNode['type'];
+export interface GraphTransformOptions {
+  /** Catalog that types entities; without it entities are typed by name */
+  catalog?: EntityCatalogJson;
+  /** Node styling; defaults to `DEFAULT_GRAPH_THEME` */
+  theme?: GraphTheme;
+}
+
+// How an entity is typed, from the entity catalog or its name
+interface EntityClassification {
+  type: GraphEntityType;
   category: string;
-  importance: KnowledgeGraphNode['importance'];
-  color: string;
-  group: number;
-  radius: number;
-} => {
+  importance: EntityImportance;
+  faction?: string;
+}
+
+// Entity categorization rules based on Chinese literature domain knowledge,
+// the fallback for entities the entity catalog does not list
+const categorizeEntity = (entityName: string): EntityClassification => {
   // Character patterns - 人物角色
   if (entityName.includes('氏') || entityName.includes('仙') || entityName.includes('媧')) {
     return {
       type: 'character',
       category: '神話人物',
-      importance: 'primary',
-      color: '#DC2626', // Traditional Chinese red
-      group: 1,
-      radius: 35
+      importance: 'primary'
     };
   }
   
@@ -87,10 +84,7 @@ const categorizeEntity = (entityName: string): {
     return {
       type: 'character',
       category: '主要人物',
-      importance: 'primary',
-      color: '#059669', // Emerald green
-      group: 2,
-      radius: 30
+      importance: 'primary'
     };
   }
   
@@ -98,10 +92,7 @@ const categorizeEntity = (entityName: string): {
     return {
       type: 'character',
       category: '次要人物',
-      importance: 'secondary',
-      color: '#EC4899', // Pink
-      group: 2,
-      radius: 25
+      importance: 'secondary'
     };
   }
   
@@ -110,10 +101,7 @@ const categorizeEntity = (entityName: string): {
     return {
       type: 'location',
       category: '神話地點',
-      importance: 'primary',
-      color: '#8B5CF6', // Purple for mystical places
-      group: 3,
-      radius: 28
+      importance: 'primary'
     };
   }
   
@@ -121,10 +109,7 @@ const categorizeEntity = (entityName: string): {
     return {
       type: 'location',
       category: '世俗地點',
-      importance: 'secondary',
-      color: '#F59E0B', // Amber
-      group: 3,
-      radius: 24
+      importance: 'secondary'
     };
   }
   
@@ -133,10 +118,7 @@ const categorizeEntity = (entityName: string): {
     return {
       type: 'event',
       category: '情節事件',
-      importance: 'secondary',
-      color: '#7C2D12', // Brown
-      group: 6,
-      radius: 20
+      importance: 'secondary'
     };
   }
   
@@ -145,10 +127,7 @@ const categorizeEntity = (entityName: string): {
     return {
       type: 'artifact',
       category: '重要物品/文獻',
-      importance: 'primary',
-      color: '#EAB308', // Golden yellow
-      group: 4,
-      radius: 30
+      importance: 'primary'
     };
   }
   
@@ -157,10 +136,7 @@ const categorizeEntity = (entityName: string): {
     return {
       type: 'concept',
       category: '哲學概念',
-      importance: 'secondary',
-      color: '#0891B2', // Cyan
-      group: 5,
-      radius: 22
+      importance: 'secondary'
     };
   }
   
@@ -168,10 +144,7 @@ const categorizeEntity = (entityName: string): {
   return {
     type: 'character',
     category: '其他人物',
-    importance: 'tertiary',
-    color: '#6B7280', // Gray
-    group: 7,
-    radius: 18
+    importance: 'tertiary'
   };
 };
 
@@ -207,72 +180,166 @@ const classifyRelationship = (relationshipText: string): {
   return { type: 'literary', strength: 0.5, distance: 110 };
 };
 
-// Transform chapter JSON data to D3.js compatible format
-export const transformChapterDataToGraphData = (chapterData: ChapterGraphJson): KnowledgeGraphData => {
-  // Create nodes from entities
-  const nodes: KnowledgeGraphNode[] = chapterData.entities.map((entityName, index) => {
-    const classification = categorizeEntity(entityName);
-    
-    return {
-      id: `entity-${index}`,
-      name: entityName,
-      type: classification.type,
-      importance: classification.importance,
-      description: `來自第一回的重要${classification.category}：${entityName}`,
-      category: classification.category,
-      radius: classification.radius,
-      color: classification.color,
-      group: classification.group
-    };
-  });
-  
-  // Create links from relationships
-  const links: KnowledgeGraphLink[] = chapterData.relationships.map((relationshipText, index) => {
-    // Parse relationship text format: "entityA - relationship - entityB"
-    const parts = relationshipText.split(' - ');
-    if (parts.length !== 3) {
-      console.warn(`Invalid relationship format: ${relationshipText}`);
-      return null;
-    }
-    
-    const [sourceEntity, relationshipType, targetEntity] = parts;
-    
-    // Find corresponding node IDs
-    const sourceIndex = chapterData.entities.findIndex(entity => entity === sourceEntity);
-    const targetIndex = chapterData.entities.findIndex(entity => entity === targetEntity);
-    
-    if (sourceIndex === -1 || targetIndex === -1) {
-      console.warn(`Entity not found for relationship: ${relationshipText}`);
-      return null;
-    }
-    
-    const sourceId = `entity-${sourceIndex}`;
-    const targetId = `entity-${targetIndex}`;
-    
-    const classification = classifyRelationship(relationshipType);
-    
+// Categories for entities whose file type differs from what their name suggests
+const ENTITY_TYPE_CLASSIFICATION: Record<GraphEntityType, EntityClassification> = {
+  character: { type: 'character', category: '其他人物', importance: 'tertiary' },
+  location: { type: 'location', category: '世俗地點', importance: 'secondary' },
+  concept: { type: 'concept', category: '哲學概念', importance: 'secondary' },
+  event: { type: 'event', category: '情節事件', importance: 'secondary' },
+  artifact: { type: 'artifact', category: '重要物品/文獻', importance: 'primary' },
+};
+
+// Link forces for relationships whose file gives their type
+const RELATION_TYPE_CLASSIFICATION: Record<GraphRelationType, ReturnType<typeof classifyRelationship>> = {
+  family: { type: 'family', strength: 0.9, distance: 60 },
+  friendship: { type: 'friendship', strength: 0.7, distance: 90 },
+  conflict: { type: 'conflict', strength: 0.8, distance: 80 },
+  literary: { type: 'literary', strength: 0.8, distance: 100 },
+  conceptual: { type: 'conceptual', strength: 0.6, distance: 120 },
+};
+
+// Catalog entities take their catalog entry; others are typed by name, unless the file types them otherwise
+const classifyEntity = (entity: GraphEntity, catalog?: EntityCatalogIndex): EntityClassification => {
+  const entry = catalog && findCatalogEntity(catalog, entity);
+  if (entry) {
+    return { type: entry.type, category: entry.category, importance: entry.importance, ...(entry.faction && { faction: entry.faction }) };
+  }
+  const byName = categorizeEntity(entity.name);
+  return !entity.type || entity.type === byName.type ? byName : ENTITY_TYPE_CLASSIFICATION[entity.type];
+};
+
+const classifyGraphRelationship = (relationship: GraphRelationship) =>
+  relationship.type ? RELATION_TYPE_CLASSIFICATION[relationship.type] : classifyRelationship(relationship.relation);
+
+// Type of a relationship, inferred from its label when the file omits it
+export const getRelationType = (relationship: GraphRelationship): GraphRelationType =>
+  classifyGraphRelationship(relationship).type;
+
+// The catalog index and theme nodes are created with
+interface NodeStyling {
+  catalog?: EntityCatalogIndex;
+  theme: GraphTheme;
+}
+
+const getNodeStyling = (options: GraphTransformOptions): NodeStyling => ({
+  catalog: options.catalog && buildEntityCatalogIndex(options.catalog),
+  theme: options.theme ?? DEFAULT_GRAPH_THEME
+});
+
+// Create a node styled by its classification
+const createNode = (
+  entity: GraphEntity,
+  styling: NodeStyling,
+  describe: (classification: EntityClassification) => string
+): KnowledgeGraphNode => {
+  const classification = classifyEntity(entity, styling.catalog);
+  const style = getNodeStyle(styling.theme, classification.category, classification.type);
+
+  return {
+    id: entity.id,
+    name: entity.name,
+    type: classification.type,
+    importance: classification.importance,
+    description: describe(classification),
+    category: classification.category,
+    ...(classification.faction && { faction: classification.faction }),
+    radius: style.radius,
+    color: style.color,
+    group: style.group
+  };
+};
+
+// Create links from relationships
+const createLinks = (entities: GraphEntity[], relationships: GraphRelationship[]): KnowledgeGraphLink[] => {
+  const names = new Map(entities.map(entity => [entity.id, entity.name]));
+
+  return relationships.map(relationship => {
+    const classification = classifyGraphRelationship(relationship);
+
     return {
-      source: sourceId,
-      target: targetId,
-      relationship: relationshipType,
+      source: relationship.source,
+      target: relationship.target,
+      relationship: relationship.relation,
       strength: classification.strength,
       type: classification.type,
-      description: `${sourceEntity}與${targetEntity}的關係：${relationshipType}`,
-      distance: classification.distance
+      description: `${names.get(relationship.source)}與${names.get(relationship.target)}的關係：${relationship.relation}`,
+      distance: classification.distance,
+      direction: relationship.direction,
+      ...(relationship.evidence ? { evidence: relationship.evidence } : {})
     };
-  }).filter(link => link !== null) as KnowledgeGraphLink[];
-  
+  });
+};
+
+/**
+ * Transform a chapter graph file to D3.js compatible format. Legacy files are
+ * upgraded first, dropping relationship strings that cannot be read.
+ * @param chapterData - Graph file in either format
+ * @param chapterNumber - Chapter of a legacy file, which does not record it
+ */
+export const transformChapterDataToGraphData = (
+  chapterData: ChapterGraphFile,
+  chapterNumber = 1,
+  options: GraphTransformOptions = {}
+): KnowledgeGraphData => {
+  const graph = isStructuredChapterGraph(chapterData)
+    ? chapterData
+    : upgradeLegacyChapterGraph(chapterData, chapterNumber);
+  const styling = getNodeStyling(options);
+
+  // Create nodes from entities
+  const nodes: KnowledgeGraphNode[] = graph.entities.map(entity =>
+    createNode(entity, styling, classification => `來自第${graph.chapter}回的重要${classification.category}：${entity.name}`)
+  );
+
+  return {
+    nodes,
+    links: createLinks(graph.entities, graph.relationships)
+  };
+};
+
+/**
+ * Transform a cumulative graph to D3.js compatible format.
+ * @param chapter - Show the graph as it stood after this chapter; defaults to the whole graph
+ */
+export const transformCumulativeGraphToGraphData = (
+  cumulativeGraph: CumulativeGraph,
+  chapter = cumulativeGraph.through,
+  options: GraphTransformOptions = {}
+): KnowledgeGraphData => {
+  const graph = sliceCumulativeGraph(cumulativeGraph, chapter);
+  const owners = new Map(graph.entities.map(entity => [entity.id, entity.name]));
+  const styling = getNodeStyling(options);
+
+  const nodes: KnowledgeGraphNode[] = graph.entities.map(entity => ({
+    ...createNode(entity, styling, classification => {
+      const owner = entity.ownerCharacterId && owners.get(entity.ownerCharacterId);
+      const name = owner ? `${owner}的${entity.name}` : entity.name;
+      return `第${entity.chapters[0]}回起的${classification.category}：${name}，見於${entity.chapters.length}回`;
+    }),
+    chapters: entity.chapters
+  }));
+  const links = createLinks(graph.entities, graph.relationships).map((link, index) => ({
+    ...link,
+    chapters: graph.relationships[index].chapters
+  }));
+
   return {
     nodes,
     links
   };
 };
 
+// Load the entity catalog that types graph entities; without it they are typed by name
+export const loadGraphEntityCatalog = (): Promise<EntityCatalogJson | undefined> =>
+  loadEntityCatalog().catch(error => {
+    console.warn('Entity catalog unavailable, typing graph entities by name:', error);
+    return undefined;
+  });
+
 // Load chapter data from JSON file
 export const loadChapterGraphData = async (chapterNumber: number): Promise<KnowledgeGraphData> => {
   try {
-    // In production, this would be an API call to cloud database
-    // For now, we'll load from the local JSON file
+    // The graph route serves the approved uploaded version, else the bundled file
     const response = await fetch(`/api/chapters/${chapterNumber}/graph`);
     
     if (!response.ok) {
@@ -281,12 +348,12 @@ export const loadChapterGraphData = async (chapterNumber: number): Promise<Knowl
       if (!localResponse.ok) {
         throw new Error(`Failed to load chapter ${chapterNumber} graph data`);
       }
-      const chapterData: ChapterGraphJson = await localResponse.json();
-      return transformChapterDataToGraphData(chapterData);
+      const chapterData: ChapterGraphFile = await localResponse.json();
+      return transformChapterDataToGraphData(chapterData, chapterNumber, { catalog: await loadGraphEntityCatalog() });
     }
     
-    const chapterData: ChapterGraphJson = await response.json();
-    return transformChapterDataToGraphData(chapterData);
+    const chapterData: ChapterGraphFile = await response.json();
+    return transformChapterDataToGraphData(chapterData, chapterNumber, { catalog: await loadGraphEntityCatalog() });
     
   } catch (error) {
     console.error(`Error loading chapter ${chapterNumber} graph data:`, error);
@@ -299,18 +366,59 @@ export const loadChapterGraphData = async (chapterNumber: number): Promise<Knowl
   }
 };
 
-// Load chapter data from cloud database (future implementation)
-export const loadChapterGraphFromDatabase = async (chapterNumber: number): Promise<KnowledgeGraphData> => {
+// Load chapter data from the graph version store. Uploaded graphs are stored
+// server-side (src/lib/graph-store.ts) and the graph route serves the approved
+// version, so this is the same request as loadChapterGraphData
+export const loadChapterGraphFromDatabase = (chapterNumber: number): Promise<KnowledgeGraphData> =>
+  loadChapterGraphData(chapterNumber);
+
+// Load the graph of chapters 1..through merged into one
+export const loadCumulativeGraph = async (through: number): Promise<CumulativeGraph> => {
   try {
-    // This will be implemented when cloud database is ready
-    // For now, return local file data
-    return await loadChapterGraphData(chapterNumber);
-    
+    const response = await fetch(`/api/graph/cumulative?through=${through}`);
+    if (!response.ok) {
+      throw new Error(`Failed to load cumulative graph through chapter ${through}`);
+    }
+    return await response.json();
+
   } catch (error) {
-    console.error(`Error loading chapter ${chapterNumber} from database:`, error);
-    return {
-      nodes: [],
-      links: []
-    };
+    console.error(`Error loading cumulative graph through chapter ${through}:`, error);
+
+    // Return an empty graph as fallback
+    return { through, chapters: [], entities: [], relationships: [] };
+  }
+};
+
+export interface GraphPathQuery {
+  /** Query this chapter's graph; the cumulative graph through `through` otherwise */
+  chapter?: number;
+  through?: number;
+  /** Only follow relationships of these types */
+  types?: GraphRelationType[];
+  /** Longest path in relationships */
+  maxLength?: number;
+  /** Every path up to `maxLength` instead of one shortest path */
+  all?: boolean;
+}
+
+// Ask how two entities (by id, name or alias) are related; null when the query fails
+export const loadGraphPaths = async (from: string, to: string, query: GraphPathQuery = {}): Promise<GraphPathQueryResult | null> => {
+  const params = new URLSearchParams({ from, to });
+  if (query.chapter !== undefined) params.set('chapter', String(query.chapter));
+  if (query.through !== undefined) params.set('through', String(query.through));
+  if (query.types) params.set('types', query.types.join(','));
+  if (query.maxLength !== undefined) params.set('maxLength', String(query.maxLength));
+  if (query.all) params.set('paths', 'all');
+
+  try {
+    const response = await fetch(`/api/graph/query?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to find paths from ${from} to ${to}`);
+    }
+    return await response.json();
+
+  } catch (error) {
+    console.error(`Error finding paths from ${from} to ${to}:`, error);
+    return null;
   }
-}; 
\ No newline at end of file
+};
@@ -6,7 +6,7 @@
  */
 
 import { db } from './firebase';
-import { collection, addDoc, getDocs, query, where, Timestamp, deleteDoc, doc, updateDoc } from 'firebase/firestore';
+import { collection, addDoc, getDocs, query, where, Timestamp, deleteDoc, doc, setDoc, updateDoc } from 'firebase/firestore';
 
 // Type definition for a user note
 export interface Note {
@@ -33,23 +33,37 @@ function calculateWordCount(text: string): number {
   return text.trim().split(/\s+/).filter(word => word.length > 0).length;
 }
 
+/**
+ * Reserve a Firestore document ID for a note that will be saved later.
+ */
+export function newNoteId(): string {
+  return doc(collection(db, 'notes')).id;
+}
+
 /**
  * Save a note to Firestore for a user and chapter.
  * @param note - Note object without id and createdAt
+ * @param id - Document ID to save under, e.g. one reserved with `newNoteId`;
+ *   saving twice under the same ID writes the note once
  * @returns The Firestore document ID of the saved note
  */
-export async function saveNote(note: Omit<Note, 'id' | 'createdAt'>) {
+export async function saveNote(note: Omit<Note, 'id' | 'createdAt'>, id?: string) {
   const now = Timestamp.now();
-
-  // Add a new document to the 'notes' collection with auto-calculated fields
-  const docRef = await addDoc(collection(db, 'notes'), {
+  const data = {
     ...note,
     createdAt: now,
     lastModified: now,
     wordCount: calculateWordCount(note.note),
     tags: note.tags || [],
     isPublic: note.isPublic || false,
-  });
+  };
+
+  if (id) {
+    await setDoc(doc(db, 'notes', id), data);
+    return id;
+  }
+  // Add a new document to the 'notes' collection with auto-calculated fields
+  const docRef = await addDoc(collection(db, 'notes'), data);
   return docRef.id;
 }
 
@@ -57,13 +71,15 @@ export async function saveNote(note: Omit<Note, 'id' | 'createdAt'>) {
  * Update an existing note in Firestore.
  * @param id - The Firestore document ID of the note to update
  * @param content - The new content of the note
+ * @param isPublic - New visibility, changed in the same write; unchanged when omitted
  */
-export async function updateNote(id: string, content: string) {
+export async function updateNote(id: string, content: string, isPublic?: boolean) {
   const noteRef = doc(db, 'notes', id);
   await updateDoc(noteRef, {
     note: content,
     wordCount: calculateWordCount(content),
     lastModified: Timestamp.now(),
+    ...(isPublic !== undefined && { isPublic }),
   });
 }
 
@@ -84,6 +100,7 @@ export async function getNotesByUserAndChapter(userId: string, chapterId: number
     id: doc.id,
     ...doc.data(),
     createdAt: doc.data().createdAt.toDate(),
+    lastModified: doc.data().lastModified?.toDate() || doc.data().createdAt.toDate(),
   } as Note));
 }
 
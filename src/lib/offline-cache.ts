@@ -0,0 +1,71 @@
+/**
+ * @fileOverview Chapter data kept for offline reading
+ *
+ * The service worker (`public/sw.js`) caches chapter responses as they are
+ * read. This module fills the same cache ahead of time, so a reader can save
+ * chapters before going offline: the chapter text, its annotations and its
+ * knowledge graph, in the edition being read, plus the reading dictionary and
+ * the character catalog.
+ */
+
+import type { EditionId } from '@/types/chapter';
+import { DEFAULT_EDITION_ID } from './editions';
+
+/** Must match CHAPTER_CACHE in public/sw.js */
+export const CHAPTER_CACHE_NAME = 'redmansion-chapters-v1';
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Whether this browser can keep chapters offline.
+ */
+export function isOfflineCacheSupported(): boolean {
+  return typeof window !== 'undefined' && 'caches' in window && 'serviceWorker' in navigator;
+}
+
+/**
+ * API requests a chapter needs when read offline.
+ * @param chapterNumber - Chapter number (1-120)
+ * @param editionId - Edition being read; omit for the default reading text
+ */
+export function getChapterOfflineUrls(chapterNumber: number, editionId?: EditionId): string[] {
+  const query = editionId && editionId !== DEFAULT_EDITION_ID ? `?edition=${editionId}` : '';
+  return [
+    '/api/chapters',
+    `/api/chapters/${chapterNumber}${query}`,
+    `/api/chapters/${chapterNumber}/annotations${query}`,
+    `/api/chapters/${chapterNumber}/graph`,
+    '/api/dictionary',
+    '/api/characters',
+  ];
+}
+
+/**
+ * Download a chapter into the offline cache. A chapter without a knowledge
+ * graph is still saved.
+ * @returns Number of responses stored
+ */
+export async function saveChapterForOffline(chapterNumber: number, editionId?: EditionId): Promise<number> {
+  if (!isOfflineCacheSupported()) {
+    throw new Error('Offline reading is not supported in this browser');
+  }
+  const cache = await caches.open(CHAPTER_CACHE_NAME);
+  const urls = getChapterOfflineUrls(chapterNumber, editionId);
+  const responses = await Promise.all(urls.map(url => fetch(url)));
+
+  if (!responses[1].ok) {
+    throw new Error(`Failed to download chapter ${chapterNumber}`);
+  }
+  const stored = responses.map((response, index) => (response.ok ? cache.put(urls[index], response) : null));
+  await Promise.all(stored);
+  return stored.filter(Boolean).length;
+}
+
+/**
+ * Whether a chapter's text is in the offline cache.
+ */
+export async function isChapterSavedOffline(chapterNumber: number, editionId?: EditionId): Promise<boolean> {
+  if (!isOfflineCacheSupported()) return false;
+  const cache = await caches.open(CHAPTER_CACHE_NAME);
+  return !!(await cache.match(getChapterOfflineUrls(chapterNumber, editionId)[1]));
+}
@@ -0,0 +1,531 @@
+/**
+ * @fileOverview Offline write queue for notes, highlights and XP events
+ *
+ * Readers often lose connectivity mid-chapter. Writes made while offline are
+ * kept in a queue in localStorage instead of failing, shown in the reader
+ * straight away under a local id (`offline-…`), and replayed in order by
+ * `replayQueuedWrites` once the browser is back online.
+ *
+ * The browser does not always know it is offline: on a dead or captive
+ * connection `navigator.onLine` stays true, and with the persistent cache
+ * Firestore writes wait for the server instead of failing. A write that gets
+ * no answer within `WRITE_TIMEOUT_MS` is therefore queued too. Firestore
+ * still holds it in its own queue and may send it later, so replays must not
+ * repeat it: notes, highlights and conflict copies are saved under a document
+ * id reserved when they are queued, and not written again when a document
+ * already exists under it (which may since have been edited on another
+ * device); a note edit whose content is already on the server is not
+ * replayed, and every XP event carries a sourceId.
+ *
+ * Public notes are posted to the community once they are saved, including
+ * when they are replayed; so are notes made public by an offline edit.
+ *
+ * Conflicts: a queued note edit remembers when the note was last modified as
+ * the reader saw it. If the note was changed on another device in the
+ * meantime (or deleted there), the offline edit is saved as a separate
+ * conflict copy tagged `offline-conflict` so neither version is lost.
+ *
+ * XP events replay through `userLevelService.awardXP`, whose sourceId check
+ * keeps a replayed event from being rewarded twice.
+ */
+
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { deleteNoteById, newNoteId, saveNote, updateNote, type Note } from './notes-service';
+import { deleteHighlightById, newHighlightId, saveHighlight, type Highlight } from './highlight-service';
+import { communityService, type CreatePostData } from './community-service';
+import { userLevelService } from './user-level-service';
+import type { XPTransaction } from './types/user-level';
+
+export const OFFLINE_QUEUE_STORAGE_KEY = 'redmansion_offline_queue_v1';
+
+/** Prefix of ids given to notes and highlights that exist only in the queue */
+export const OFFLINE_ID_PREFIX = 'offline-';
+
+/** Tag added to notes saved as conflict copies during replay */
+export const CONFLICT_NOTE_TAG = 'offline-conflict';
+
+/** How long a write may wait for the server before it is queued instead */
+export const WRITE_TIMEOUT_MS = 10_000;
+
+type NewNote = Omit<Note, 'id' | 'createdAt'>;
+type NewHighlight = Omit<Highlight, 'id' | 'createdAt'>;
+
+// Where a queued note or highlight will be saved, and whether Firestore already holds a write to it
+interface ReservedDocument {
+  /** Firestore id reserved for the document; absent on writes queued before ids were reserved */
+  docId?: string;
+  /** Set when a write timed out, so Firestore may still save the document by itself */
+  sentToServer?: boolean;
+}
+
+/** A write waiting for connectivity */
+export type QueuedWrite =
+  | ({
+      id: string;
+      queuedAt: number;
+      type: 'saveNote';
+      note: NewNote;
+      /** Post for the community once the note is saved, for public notes */
+      communityPost?: CreatePostData;
+    } & ReservedDocument)
+  | {
+      id: string;
+      queuedAt: number;
+      type: 'updateNote';
+      noteId: string;
+      note: Pick<Note, 'userId' | 'chapterId' | 'selectedText'>;
+      content: string;
+      /** New visibility; unchanged when absent */
+      isPublic?: boolean;
+      /** Post for the community once the edit is saved, for notes made public */
+      communityPost?: CreatePostData;
+      /** The note's lastModified (ms) when the reader opened it; absent when unknown */
+      baseLastModified?: number;
+      /** Firestore id reserved for a conflict copy; absent on edits queued before ids were reserved */
+      conflictDocId?: string;
+    }
+  | ({ id: string; queuedAt: number; type: 'saveHighlight'; highlight: NewHighlight } & ReservedDocument)
+  | {
+      id: string;
+      queuedAt: number;
+      type: 'awardXP';
+      userId: string;
+      amount: number;
+      reason: string;
+      source: XPTransaction['source'];
+      /** The caller's sourceId, or the queued event's own id */
+      sourceId?: string;
+    };
+
+/** A change of a note's visibility saved along with its content */
+export interface NoteVisibilityChange {
+  isPublic: boolean;
+  /** Post for the community, when the note is made public */
+  communityPost?: CreatePostData;
+}
+
+export type AwardXPResult = Awaited<ReturnType<typeof userLevelService.awardXP>>;
+
+/** Outcome of replaying the queue */
+export interface ReplayResult {
+  replayed: number;
+  /** Note edits saved as conflict copies */
+  conflicts: number;
+  /** Writes dropped after the server rejected them */
+  failed: number;
+  /** XP actually awarded (duplicates excluded) */
+  xpAwarded: number;
+  /** Set when a replayed XP event raised the reader's level */
+  levelUp?: { fromLevel: number; toLevel: number };
+}
+
+const isBrowser = () => typeof window !== 'undefined' && typeof localStorage !== 'undefined';
+
+/**
+ * Whether the browser reports being offline. Unknown counts as online.
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Whether an error means the server could not be reached, as opposed to
+ * the write being rejected.
+ */
+export function isNetworkError(error: unknown): boolean {
+  const code = (error as { code?: unknown })?.code;
+  if (code === 'unavailable' || code === 'deadline-exceeded') return true;
+  const message = error instanceof Error ? error.message.toLowerCase() : '';
+  return message.includes('offline') || message.includes('network') || message.includes('failed to fetch');
+}
+
+export function isOfflineId(id: string | undefined): boolean {
+  return !!id && id.startsWith(OFFLINE_ID_PREFIX);
+}
+
+const createOfflineId = (kind: string) =>
+  `${OFFLINE_ID_PREFIX}${kind}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const timedOut = (error: unknown) => (error as { timedOut?: boolean })?.timedOut === true;
+
+/**
+ * Wait for a write, failing as unreachable when the server has not answered
+ * in `WRITE_TIMEOUT_MS`. The write itself goes on; a later failure is reported.
+ */
+function withWriteTimeout<T>(write: Promise<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      write.catch(error => console.error('Write that timed out failed later:', error));
+      reject(Object.assign(new Error('Write timed out waiting for the server'), { code: 'deadline-exceeded', timedOut: true }));
+    }, WRITE_TIMEOUT_MS);
+    write.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Post a public note to the community. A post that times out is still in
+ * Firestore's own queue and goes out with it, and a rejected post (e.g. by the
+ * content filter) does not undo the note, so neither is retried.
+ */
+async function shareToCommunity(post: CreatePostData) {
+  try {
+    await withWriteTimeout(communityService.createPost(post));
+  } catch (error) {
+    console.error('Error sharing note to community:', error);
+  }
+}
+
+/**
+ * Read the queue. Unreadable storage yields an empty queue.
+ */
+export function getQueuedWrites(): QueuedWrite[] {
+  if (!isBrowser()) return [];
+  try {
+    const stored = localStorage.getItem(OFFLINE_QUEUE_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to read offline queue:', error);
+    return [];
+  }
+}
+
+function setQueuedWrites(writes: QueuedWrite[]) {
+  if (!isBrowser()) return;
+  if (writes.length === 0) {
+    localStorage.removeItem(OFFLINE_QUEUE_STORAGE_KEY);
+  } else {
+    localStorage.setItem(OFFLINE_QUEUE_STORAGE_KEY, JSON.stringify(writes));
+  }
+}
+
+function enqueue(write: QueuedWrite) {
+  setQueuedWrites([...getQueuedWrites(), write]);
+}
+
+export function getQueuedWriteCount(): number {
+  return getQueuedWrites().length;
+}
+
+/**
+ * Save a note, or queue it when offline, then post it to the community if a
+ * post is given.
+ * @param communityPost - Post for the community, for public notes
+ * @returns The Firestore id, or a local `offline-` id when queued
+ */
+export async function saveNoteOrQueue(note: NewNote, communityPost?: CreatePostData): Promise<{ id: string; queued: boolean }> {
+  const docId = newNoteId();
+  let sentToServer = false;
+  if (!isOffline()) {
+    try {
+      const id = await withWriteTimeout(saveNote(note, docId));
+      if (communityPost) await shareToCommunity(communityPost);
+      return { id, queued: false };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      sentToServer = timedOut(error);
+    }
+  }
+  const id = createOfflineId('note');
+  enqueue({ id, queuedAt: Date.now(), type: 'saveNote', note, docId, sentToServer, communityPost });
+  return { id, queued: true };
+}
+
+// A community post only goes out for a note that ends up public
+const postIfPublic = (isPublic: boolean | undefined, ...posts: Array<CreatePostData | undefined>) =>
+  (isPublic ? posts.find(Boolean) : undefined);
+
+/**
+ * Update a note's content, and its visibility if it changed, or queue the
+ * edit when offline. Edits to a note that is itself still queued change the
+ * queued note instead.
+ * @param note - The note as the reader opened it
+ * @param visibility - Visibility chosen by the reader, with a post for the community when the note is made public
+ * @returns Whether the edit was queued
+ */
+export async function updateNoteOrQueue(
+  note: Note & { id: string },
+  content: string,
+  visibility?: NoteVisibilityChange
+): Promise<boolean> {
+  const writes = getQueuedWrites();
+  const isPublic = visibility && visibility.isPublic !== (note.isPublic ?? false) ? visibility.isPublic : undefined;
+
+  if (isOfflineId(note.id)) {
+    setQueuedWrites(writes.map(write => {
+      if (write.type !== 'saveNote' || write.id !== note.id) return write;
+      const notePublic = isPublic ?? write.note.isPublic;
+      return {
+        ...write,
+        note: { ...write.note, note: content, isPublic: notePublic },
+        communityPost: postIfPublic(notePublic, isPublic ? visibility?.communityPost : undefined, write.communityPost),
+      };
+    }));
+    return true;
+  }
+
+  if (!isOffline()) {
+    try {
+      await withWriteTimeout(updateNote(note.id, content, isPublic));
+      if (isPublic && visibility?.communityPost) await shareToCommunity(visibility.communityPost);
+      return false;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  // A second offline edit of the same note replaces the first but keeps its base version
+  const pending = writes.find(write => write.type === 'updateNote' && write.noteId === note.id);
+  if (pending && pending.type === 'updateNote') {
+    // The note as opened already shows the pending edit's visibility
+    const pendingPublic = isPublic ?? pending.isPublic;
+    setQueuedWrites(writes.map(write => (write === pending
+      ? {
+          ...pending,
+          content,
+          isPublic: pendingPublic,
+          communityPost: postIfPublic(pendingPublic, isPublic ? visibility?.communityPost : undefined, pending.communityPost),
+          queuedAt: Date.now(),
+        }
+      : write)));
+    return true;
+  }
+
+  const lastModified = note.lastModified ?? note.createdAt;
+  enqueue({
+    id: createOfflineId('edit'),
+    queuedAt: Date.now(),
+    type: 'updateNote',
+    noteId: note.id,
+    note: { userId: note.userId, chapterId: note.chapterId, selectedText: note.selectedText },
+    content,
+    isPublic,
+    communityPost: postIfPublic(isPublic, visibility?.communityPost),
+    baseLastModified: lastModified instanceof Date ? lastModified.getTime() : undefined,
+    conflictDocId: newNoteId(),
+  });
+  return true;
+}
+
+/**
+ * Save a highlight, or queue it when offline.
+ * @returns The Firestore id, or a local `offline-` id when queued
+ */
+export async function saveHighlightOrQueue(highlight: NewHighlight): Promise<{ id: string; queued: boolean }> {
+  const docId = newHighlightId();
+  let sentToServer = false;
+  if (!isOffline()) {
+    try {
+      return { id: await withWriteTimeout(saveHighlight(highlight, docId)), queued: false };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      sentToServer = timedOut(error);
+    }
+  }
+  const id = createOfflineId('highlight');
+  enqueue({ id, queuedAt: Date.now(), type: 'saveHighlight', highlight, docId, sentToServer });
+  return { id, queued: true };
+}
+
+/**
+ * Change the colour or category of a highlight that is still queued.
+ */
+export function updateQueuedHighlight(id: string, style: Partial<Pick<Highlight, 'color' | 'category'>>) {
+  setQueuedWrites(getQueuedWrites().map(write =>
+    write.type === 'saveHighlight' && write.id === id
+      ? { ...write, highlight: { ...write.highlight, ...style } }
+      : write
+  ));
+}
+
+// Remove a write from the queue once it is settled
+function removeQueuedWrite(id: string) {
+  setQueuedWrites(getQueuedWrites().filter(write => write.id !== id));
+}
+
+/**
+ * Drop a queued note or highlight, e.g. when the reader deletes it before it
+ * was synced. One that Firestore may still save by itself is deleted after it.
+ */
+export function discardQueuedWrite(id: string) {
+  const write = getQueuedWrites().find(queued => queued.id === id);
+  removeQueuedWrite(id);
+  if (!write || !('docId' in write) || !write.docId || !write.sentToServer) return;
+  // Firestore applies the deletion after the pending save, whenever it reaches the server
+  const deletion = write.type === 'saveNote' ? deleteNoteById(write.docId) : deleteHighlightById(write.docId);
+  deletion.catch(error => console.error(`Failed to delete discarded ${write.type}:`, error));
+}
+
+/**
+ * Award XP, or queue the event when offline. Events without a sourceId get
+ * their queue id as one, so an award that lands late or a replay cut short
+ * after the award is not rewarded again.
+ * @returns The award result, or null when the event was queued
+ */
+export async function awardXPOrQueue(
+  userId: string,
+  amount: number,
+  reason: string,
+  source: XPTransaction['source'],
+  sourceId?: string
+): Promise<AwardXPResult | null> {
+  const id = createOfflineId('xp');
+  const eventSourceId = sourceId ?? id;
+  if (!isOffline()) {
+    try {
+      return await withWriteTimeout(userLevelService.awardXP(userId, amount, reason, source, eventSourceId));
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  enqueue({ id, queuedAt: Date.now(), type: 'awardXP', userId, amount, reason, source, sourceId: eventSourceId });
+  return null;
+}
+
+/**
+ * Apply queued notes and note edits to notes loaded for a chapter, so offline
+ * work shows up before it is synced.
+ */
+export function withQueuedNotes(notes: Note[], userId: string, chapterId: number): Note[] {
+  const writes = getQueuedWrites();
+  const edited = withoutQueuedCopies(notes).map(note => {
+    const edit = writes.find(write => write.type === 'updateNote' && write.noteId === note.id);
+    return edit && edit.type === 'updateNote'
+      ? { ...note, note: edit.content, isPublic: edit.isPublic ?? note.isPublic, lastModified: new Date(edit.queuedAt) }
+      : note;
+  });
+  const queued = writes.flatMap(write =>
+    write.type === 'saveNote' && write.note.userId === userId && write.note.chapterId === chapterId
+      ? [{ ...write.note, id: write.id, createdAt: new Date(write.queuedAt) }]
+      : []
+  );
+  return [...edited, ...queued];
+}
+
+/**
+ * Drop loaded notes or highlights that are still queued. Firestore lists a
+ * write that timed out from its own cache under the id reserved for it, while
+ * the reader shows the queued copy under its `offline-` id.
+ */
+export function withoutQueuedCopies<T extends { id?: string }>(items: T[]): T[] {
+  const reserved = new Set(getQueuedWrites().flatMap(write => ('docId' in write && write.docId ? [write.docId] : [])));
+  return reserved.size ? items.filter(item => !item.id || !reserved.has(item.id)) : items;
+}
+
+/**
+ * Highlights still waiting in the queue for a chapter.
+ */
+export function getQueuedHighlights(userId: string, chapterId: number): Highlight[] {
+  return getQueuedWrites().flatMap(write =>
+    write.type === 'saveHighlight' && write.highlight.userId === userId && write.highlight.chapterId === chapterId
+      ? [{ ...write.highlight, id: write.id, createdAt: new Date(write.queuedAt) }]
+      : []
+  );
+}
+
+// Whether a document was already saved under its reserved id, e.g. by Firestore sending a write that timed out
+async function alreadySaved(collectionName: string, docId: string | undefined): Promise<boolean> {
+  if (!docId) return false;
+  const snapshot = await getDoc(doc(db, collectionName, docId));
+  return snapshot.exists();
+}
+
+// Replay a note edit, keeping both versions when the note changed elsewhere meanwhile
+async function replayNoteUpdate(write: Extract<QueuedWrite, { type: 'updateNote' }>): Promise<'updated' | 'conflict'> {
+  const snapshot = await getDoc(doc(db, 'notes', write.noteId));
+  const server = snapshot.exists() ? snapshot.data() : undefined;
+
+  // Already saved: the first attempt timed out but Firestore sent it later
+  if (server && server.note === write.content && (write.isPublic === undefined || server.isPublic === write.isPublic)) {
+    return 'updated';
+  }
+
+  const serverModified = server?.lastModified?.toMillis?.();
+  const changedElsewhere = !server
+    || (write.baseLastModified !== undefined && serverModified !== undefined && serverModified > write.baseLastModified);
+
+  if (!changedElsewhere) {
+    await updateNote(write.noteId, write.content, write.isPublic);
+    return 'updated';
+  }
+
+  if (!(await alreadySaved('notes', write.conflictDocId))) {
+    await saveNote({
+      ...write.note,
+      note: write.content,
+      tags: [CONFLICT_NOTE_TAG],
+      ...(write.isPublic !== undefined && { isPublic: write.isPublic }),
+    }, write.conflictDocId);
+  }
+  return 'conflict';
+}
+
+async function replayWrite(write: QueuedWrite, result: ReplayResult) {
+  switch (write.type) {
+    case 'saveNote':
+      if (!(await alreadySaved('notes', write.docId))) await saveNote(write.note, write.docId);
+      if (write.communityPost) await shareToCommunity(write.communityPost);
+      break;
+    case 'updateNote':
+      if ((await replayNoteUpdate(write)) === 'conflict') result.conflicts++;
+      if (write.communityPost) await shareToCommunity(write.communityPost);
+      break;
+    case 'saveHighlight':
+      if (!(await alreadySaved('highlights', write.docId))) await saveHighlight(write.highlight, write.docId);
+      break;
+    case 'awardXP': {
+      const award = await userLevelService.awardXP(write.userId, write.amount, write.reason, write.source, write.sourceId ?? write.id);
+      if (award.success && !award.isDuplicate) result.xpAwarded += write.amount;
+      if (award.leveledUp) {
+        result.levelUp = { fromLevel: result.levelUp?.fromLevel ?? award.fromLevel ?? award.newLevel - 1, toLevel: award.newLevel };
+      }
+      break;
+    }
+  }
+}
+
+async function replayQueue(): Promise<ReplayResult> {
+  const result: ReplayResult = { replayed: 0, conflicts: 0, failed: 0, xpAwarded: 0 };
+
+  for (const write of getQueuedWrites()) {
+    try {
+      await withWriteTimeout(replayWrite(write, result));
+      result.replayed++;
+    } catch (error) {
+      // Still unreachable: keep this write and everything after it for the next attempt
+      if (isNetworkError(error)) break;
+      console.error(`Dropping queued ${write.type} rejected by the server:`, error);
+      result.failed++;
+    }
+    // Remove each write as soon as it is settled so an interrupted replay does not repeat it
+    removeQueuedWrite(write.id);
+  }
+  return result;
+}
+
+let replayInFlight: Promise<ReplayResult> | null = null;
+
+/**
+ * Replay queued writes in the order they were made. Concurrent calls share one
+ * replay, and tabs take turns through the Web Locks API where available.
+ */
+export function replayQueuedWrites(): Promise<ReplayResult> {
+  if (!replayInFlight) {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    const run = locks ? locks.request('redmansion-offline-replay', replayQueue) : replayQueue();
+    replayInFlight = run.finally(() => {
+      replayInFlight = null;
+    });
+  }
+  return replayInFlight;
+}
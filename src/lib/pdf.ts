@@ -0,0 +1,155 @@
+/**
+ * @fileOverview Minimal PDF writer for Chinese text
+ *
+ * Writes PDF 1.4 documents whose pages are drawn with text, filled rectangles
+ * and lines, which is all chapter export needs. Text is set in one of the
+ * standard CJK fonts every PDF viewer provides — MSung-Light for Traditional
+ * Chinese, STSong-Light for Simplified — without embedding it: Acrobat,
+ * Preview and the viewers of Chrome and Firefox substitute an installed Ming
+ * (Song) face, so files stay small and no font has to be bundled.
+ *
+ * Text is encoded as UCS-2 (`UniCNS-UCS2-H`, `UniGB-UCS2-H`); characters
+ * outside the Basic Multilingual Plane cannot be encoded and are drawn as 〓.
+ * Runs in the browser and in Node without dependencies.
+ */
+
+/** Script of the text, which selects the font */
+export type PdfScript = 'traditional' | 'simplified';
+
+/** A4 in points */
+export const PDF_PAGE_SIZE = { width: 595.28, height: 841.89 };
+
+/** An RGB colour with components from 0 to 1 */
+export type PdfColor = [number, number, number];
+
+export interface PdfDocumentOptions {
+  /** Document title recorded in the metadata */
+  title: string;
+  script: PdfScript;
+  /** Creation time recorded in the metadata (defaults to now) */
+  date?: Date;
+}
+
+interface CjkFont {
+  name: string;
+  encoding: string;
+  ordering: string;
+  supplement: number;
+  bbox: string;
+  capHeight: number;
+  stemV: number;
+}
+
+const CJK_FONTS: Record<PdfScript, CjkFont> = {
+  traditional: {
+    name: 'MSung-Light', encoding: 'UniCNS-UCS2-H', ordering: 'CNS1', supplement: 1,
+    bbox: '-160 -249 1015 1071', capHeight: 880, stemV: 93,
+  },
+  simplified: {
+    name: 'STSong-Light', encoding: 'UniGB-UCS2-H', ordering: 'GB1', supplement: 2,
+    bbox: '-25 -254 1000 880', capHeight: 737, stemV: 58,
+  },
+};
+
+// Drawn in place of characters UCS-2 cannot encode (geta mark)
+const REPLACEMENT_CHAR = 0x3013;
+
+// Printable ASCII is set half-width (CIDs 1–95 of both character collections)
+const isHalfWidth = (char: string) => char >= ' ' && char <= '~';
+
+/**
+ * Width of a text in points when set at the given size.
+ */
+export function measurePdfText(text: string, fontSize: number): number {
+  let ems = 0;
+  for (const char of text) {
+    ems += isHalfWidth(char) ? 0.5 : 1;
+  }
+  return ems * fontSize;
+}
+
+// A PDF hex string of UCS-2 code units
+const encodeText = (text: string) => {
+  let hex = '';
+  for (const char of text) {
+    const code = char.length > 1 ? REPLACEMENT_CHAR : char.charCodeAt(0);
+    hex += code.toString(16).padStart(4, '0');
+  }
+  return `<${hex.toUpperCase()}>`;
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const formatColor = (color: PdfColor) => color.map(formatNumber).join(' ');
+
+/**
+ * Content-stream operators drawing text with its baseline starting at (x, y).
+ */
+export function pdfText(text: string, x: number, y: number, fontSize: number, color: PdfColor = [0, 0, 0]): string {
+  return `BT ${formatColor(color)} rg /F1 ${formatNumber(fontSize)} Tf ${formatNumber(x)} ${formatNumber(y)} Td ${encodeText(text)} Tj ET`;
+}
+
+/**
+ * Content-stream operators filling a rectangle whose lower left corner is (x, y).
+ */
+export function pdfRect(x: number, y: number, width: number, height: number, color: PdfColor): string {
+  return `${formatColor(color)} rg ${[x, y, width, height].map(formatNumber).join(' ')} re f`;
+}
+
+/**
+ * Content-stream operators drawing a line from (x1, y1) to (x2, y2).
+ */
+export function pdfLine(x1: number, y1: number, x2: number, y2: number, color: PdfColor, lineWidth = 0.5): string {
+  return `${formatColor(color)} RG ${formatNumber(lineWidth)} w ${[x1, y1].map(formatNumber).join(' ')} m ${[x2, y2].map(formatNumber).join(' ')} l S`;
+}
+
+// PDF date string, e.g. D:20261019080000Z
+const formatPdfDate = (date: Date) => `D:${date.toISOString().replace(/[-:T]|\.\d{3}/g, '').replace('Z', '')}Z`;
+
+/**
+ * Build a PDF document of A4 pages.
+ * @param pages - Content stream of each page, from `pdfText`, `pdfRect` and `pdfLine`
+ * @throws Error when there are no pages
+ */
+export function createPdf(pages: string[], options: PdfDocumentOptions): Uint8Array {
+  if (pages.length === 0) {
+    throw new Error('A PDF needs at least one page');
+  }
+  const font = CJK_FONTS[options.script];
+  const { width, height } = PDF_PAGE_SIZE;
+
+  // Objects 1–5 are fixed; each page then takes two: the page and its content
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    `<< /Type /Font /Subtype /Type0 /BaseFont /${font.name} /Encoding /${font.encoding} /DescendantFonts [4 0 R] >>`,
+    `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${font.name} `
+      + `/CIDSystemInfo << /Registry (Adobe) /Ordering (${font.ordering}) /Supplement ${font.supplement} >> `
+      + '/FontDescriptor 5 0 R /DW 1000 /W [1 95 500] >>',
+    `<< /Type /FontDescriptor /FontName /${font.name} /Flags 6 /FontBBox [${font.bbox}] /ItalicAngle 0 `
+      + `/Ascent 880 /Descent -120 /CapHeight ${font.capHeight} /StemV ${font.stemV} >>`,
+  ];
+  pages.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+  const infoId = objects.length + 1;
+  objects.push(`<< /Title ${encodeText(`\uFEFF${options.title}`)} /CreationDate (${formatPdfDate(options.date ?? new Date())}) >>`);
+
+  // Every object is ASCII, so string offsets are byte offsets
+  let body = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = body.length;
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = body.length;
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new TextEncoder().encode(body);
+}
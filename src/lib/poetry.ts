@@ -0,0 +1,137 @@
+/**
+ * @fileOverview Poems of the novel: verse layout and the poetry catalogue
+ *
+ * Chapters list the poems quoted in their paragraphs (`ChapterJson.poems`).
+ * The reading page lays each poem out line by line in place, and the poetry
+ * catalogue (`GET /api/poems`) collects the poems of every chapter so they can
+ * be browsed by chapter, author and form.
+ *
+ * A verse line ends at a comma, full stop, exclamation, question mark or
+ * semicolon, so each 句 of the poem (世人都曉神仙好，) gets a line of its own.
+ * Lines are ranges of the poem's text: laying them out adds no characters, and
+ * selection offsets in the paragraph are unaffected.
+ *
+ * This module is client-safe; the poems API builds the catalogue from the
+ * corpus read by `chapter-corpus.ts`.
+ */
+
+import type { Chapter, ChapterPoem, PoemForm } from '@/types/chapter';
+
+/** Verse forms in catalogue order */
+export const POEM_FORMS: PoemForm[] = ['regulated', 'quatrain', 'ancient', 'song', 'ci', 'qu', 'judgement', 'couplet'];
+
+export const isPoemForm = (value: unknown): value is PoemForm => POEM_FORMS.includes(value as PoemForm);
+
+/** One line of a poem, by offset in the poem's text */
+export interface VerseLine {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** A poem located in its paragraph */
+export interface PlacedPoem {
+  poem: ChapterPoem;
+  /** Offsets of the poem in the paragraph's original text */
+  start: number;
+  end: number;
+  /** Lines by offset in the paragraph's original text */
+  lines: Array<{ start: number; end: number }>;
+}
+
+/** A poem in the catalogue, with the chapter it comes from */
+export interface PoemCatalogueEntry extends ChapterPoem {
+  chapterId: number;
+  /** Chapter title (zh-TW) */
+  chapterTitle: string;
+  lines: string[];
+}
+
+/** Catalogue filters; an absent filter matches every poem */
+export interface PoemFilters {
+  chapterId?: number;
+  authorId?: string;
+  form?: PoemForm;
+}
+
+// A line ends at these marks, together with any closing quotation marks after them
+const LINE_END = /[，。！？；][」』”’]*/g;
+
+/**
+ * Split a poem into lines. Text after the last line-ending mark forms a final line.
+ */
+export function splitVerseLines(text: string): VerseLine[] {
+  const lines: VerseLine[] = [];
+  let start = 0;
+  for (const match of text.matchAll(LINE_END)) {
+    const end = match.index! + match[0].length;
+    lines.push({ text: text.slice(start, end), start, end });
+    start = end;
+  }
+  if (start < text.length && text.slice(start).trim()) {
+    lines.push({ text: text.slice(start), start, end: text.length });
+  }
+  return lines;
+}
+
+/**
+ * Locate a paragraph's poems in its original text, in reading order. A poem
+ * whose text is not found, or that overlaps an earlier one, is left out.
+ * @param paragraphId - The paragraph
+ * @param text - The paragraph's original text
+ * @param poems - The chapter's poems
+ */
+export function placePoems(paragraphId: string, text: string, poems: ChapterPoem[]): PlacedPoem[] {
+  const placed = poems
+    .filter(poem => poem.paragraphId === paragraphId)
+    .map(poem => ({ poem, start: text.indexOf(poem.text) }))
+    .filter(({ start }) => start >= 0)
+    .sort((a, b) => a.start - b.start);
+
+  const result: PlacedPoem[] = [];
+  for (const { poem, start } of placed) {
+    if (result.length > 0 && start < result[result.length - 1].end) continue;
+    result.push({
+      poem,
+      start,
+      end: start + poem.text.length,
+      lines: splitVerseLines(poem.text).map(line => ({ start: start + line.start, end: start + line.end })),
+    });
+  }
+  return result;
+}
+
+/**
+ * Collect the poems of the given chapters, in chapter order.
+ */
+export function buildPoemCatalogue(chapters: Chapter[]): PoemCatalogueEntry[] {
+  return chapters.flatMap(chapter => (chapter.poems ?? []).map(poem => ({
+    ...poem,
+    chapterId: chapter.id,
+    chapterTitle: chapter.title,
+    lines: splitVerseLines(poem.text).map(line => line.text),
+  })));
+}
+
+/**
+ * The catalogue entries matching every given filter.
+ */
+export function filterPoems(entries: PoemCatalogueEntry[], filters: PoemFilters): PoemCatalogueEntry[] {
+  return entries.filter(entry =>
+    (filters.chapterId === undefined || entry.chapterId === filters.chapterId)
+    && (filters.authorId === undefined || entry.authorId === filters.authorId)
+    && (filters.form === undefined || entry.form === filters.form)
+  );
+}
+
+/**
+ * Load the poetry catalogue from the poems API.
+ */
+export const loadPoemCatalogue = async (): Promise<PoemCatalogueEntry[]> => {
+  const response = await fetch('/api/poems');
+  if (!response.ok) {
+    throw new Error(`Failed to load poetry catalogue (${response.status})`);
+  }
+  const data = await response.json();
+  return data.poems as PoemCatalogueEntry[];
+};
@@ -0,0 +1,270 @@
+/**
+ * @fileOverview Read-aloud (朗讀) engine for the reading page
+ *
+ * Text is split into sentences and spoken one sentence at a time so the page
+ * can highlight the sentence being read. Speech output goes through a
+ * `SpeechProvider`, which keeps the engine independent of the browser:
+ * - `BrowserSpeechProvider` wraps the Web Speech API (`window.speechSynthesis`)
+ * - tests plug in a fake provider that completes utterances on demand
+ *
+ * Engine state is pushed to subscribers; `useReadAloud` adapts it to React.
+ */
+
+import type { Paragraph } from '@/types/chapter';
+import { getParagraphText, getVernacularText } from './chapter-loader';
+
+/** Which text of a paragraph is read */
+export type ReadAloudSource = 'original' | 'vernacular';
+
+export type ReadAloudStatus = 'idle' | 'playing' | 'paused';
+
+/** Supported playback rates, slowest first */
+export const READ_ALOUD_RATES = [0.75, 1, 1.25, 1.5] as const;
+
+/**
+ * One sentence in the playback queue
+ */
+export interface ReadAloudSentence {
+  /** Paragraph the sentence belongs to, or `selection` for selected text */
+  paragraphId: string;
+  /** Sentence text as spoken */
+  text: string;
+  /** Character offset of the sentence in its paragraph's text (original source only) */
+  start: number;
+  /** Character offset just past the sentence */
+  end: number;
+}
+
+/**
+ * Snapshot of the engine state delivered to subscribers
+ */
+export interface ReadAloudState {
+  status: ReadAloudStatus;
+  /** Index into `queue` of the sentence being spoken, -1 when idle */
+  currentIndex: number;
+  queue: ReadAloudSentence[];
+  rate: number;
+}
+
+/**
+ * Callbacks a provider invokes for each utterance
+ */
+export interface SpeechCallbacks {
+  onEnd: () => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * Pluggable speech backend
+ */
+export interface SpeechProvider {
+  /** Whether the backend can produce speech in this environment */
+  isSupported(): boolean;
+  /** Speak one utterance; exactly one of the callbacks fires when it finishes */
+  speak(text: string, options: { lang: string; rate: number }, callbacks: SpeechCallbacks): void;
+  pause(): void;
+  resume(): void;
+  /** Stop speaking and drop any queued utterance without firing callbacks */
+  cancel(): void;
+}
+
+/**
+ * Speech provider backed by the browser's Web Speech API
+ */
+export class BrowserSpeechProvider implements SpeechProvider {
+  private currentUtterance: SpeechSynthesisUtterance | null = null;
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined'
+      && 'speechSynthesis' in window
+      && typeof window.SpeechSynthesisUtterance === 'function';
+  }
+
+  speak(text: string, options: { lang: string; rate: number }, callbacks: SpeechCallbacks): void {
+    if (!this.isSupported()) {
+      callbacks.onError(new Error('Speech synthesis is not supported in this browser'));
+      return;
+    }
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = options.lang;
+    utterance.rate = options.rate;
+    const voice = window.speechSynthesis.getVoices().find(v => v.lang === options.lang)
+      ?? window.speechSynthesis.getVoices().find(v => v.lang.startsWith('zh'));
+    if (voice) utterance.voice = voice;
+
+    utterance.onend = () => {
+      if (this.currentUtterance !== utterance) return;
+      this.currentUtterance = null;
+      callbacks.onEnd();
+    };
+    utterance.onerror = (event) => {
+      if (this.currentUtterance !== utterance) return;
+      this.currentUtterance = null;
+      // 'interrupted' and 'canceled' come from our own cancel() calls
+      if (event.error === 'interrupted' || event.error === 'canceled') return;
+      callbacks.onError(new Error(`Speech synthesis failed: ${event.error}`));
+    };
+
+    this.currentUtterance = utterance;
+    window.speechSynthesis.speak(utterance);
+  }
+
+  pause(): void {
+    if (this.isSupported()) window.speechSynthesis.pause();
+  }
+
+  resume(): void {
+    if (this.isSupported()) window.speechSynthesis.resume();
+  }
+
+  cancel(): void {
+    this.currentUtterance = null;
+    if (!this.isSupported()) return;
+    window.speechSynthesis.cancel();
+    // Chrome keeps the synthesizer paused across cancel(), which would mute the next utterance
+    window.speechSynthesis.resume();
+  }
+}
+
+// Sentence-final punctuation, optionally followed by closing quotes/brackets
+const SENTENCE_PATTERN = /[^。！？；…!?;]*(?:[。！？；!?;]+|…+)[」』”’）)]*|[^。！？；…!?;]+$/g;
+
+/**
+ * Split text into sentences on Chinese and Western sentence-final punctuation.
+ * Closing quotation marks stay with the sentence they close.
+ * @returns Sentences with their offsets in `text`; whitespace-only pieces are dropped
+ */
+export function splitIntoSentences(text: string): Array<{ text: string; start: number; end: number }> {
+  const sentences: Array<{ text: string; start: number; end: number }> = [];
+  for (const match of text.matchAll(SENTENCE_PATTERN)) {
+    if (!match[0].trim()) continue;
+    const start = match.index ?? 0;
+    sentences.push({ text: match[0], start, end: start + match[0].length });
+  }
+  return sentences;
+}
+
+/**
+ * Build the playback queue for a list of paragraphs.
+ * Paragraphs without vernacular text are skipped in vernacular mode.
+ */
+export function buildReadAloudQueue(paragraphs: Paragraph[], source: ReadAloudSource): ReadAloudSentence[] {
+  return paragraphs.flatMap(paragraph => {
+    const text = source === 'original'
+      ? getParagraphText(paragraph)
+      : getVernacularText(paragraph);
+    return splitIntoSentences(text).map(sentence => ({ paragraphId: paragraph.id, ...sentence }));
+  });
+}
+
+type ReadAloudListener = (state: ReadAloudState) => void;
+
+/**
+ * Sentence-by-sentence playback controller
+ */
+export class ReadAloudEngine {
+  private provider: SpeechProvider;
+  private listeners = new Set<ReadAloudListener>();
+  private state: ReadAloudState = { status: 'idle', currentIndex: -1, queue: [], rate: 1 };
+  private lang = 'zh-TW';
+  // Incremented whenever playback is restarted or stopped so late callbacks are ignored
+  private generation = 0;
+
+  constructor(provider: SpeechProvider) {
+    this.provider = provider;
+  }
+
+  isSupported(): boolean {
+    return this.provider.isSupported();
+  }
+
+  getState(): ReadAloudState {
+    return this.state;
+  }
+
+  /**
+   * Listen for state changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ReadAloudListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Set the BCP 47 language used for speech, e.g. `zh-TW` or `zh-CN` */
+  setLanguage(lang: string): void {
+    this.lang = lang;
+  }
+
+  /**
+   * Replace the queue and start speaking from a sentence
+   */
+  play(queue: ReadAloudSentence[], startIndex = 0): void {
+    this.provider.cancel();
+    if (queue.length === 0 || startIndex >= queue.length) {
+      this.stop();
+      return;
+    }
+    this.setState({ status: 'playing', queue, currentIndex: startIndex });
+    this.speakCurrent();
+  }
+
+  pause(): void {
+    if (this.state.status !== 'playing') return;
+    this.provider.pause();
+    this.setState({ status: 'paused' });
+  }
+
+  resume(): void {
+    if (this.state.status !== 'paused') return;
+    this.provider.resume();
+    this.setState({ status: 'playing' });
+  }
+
+  stop(): void {
+    this.generation++;
+    this.provider.cancel();
+    this.setState({ status: 'idle', currentIndex: -1, queue: [] });
+  }
+
+  /**
+   * Change the playback rate. The current sentence restarts at the new rate
+   * because speech engines cannot change the rate of an utterance in flight.
+   */
+  setRate(rate: number): void {
+    this.setState({ rate });
+    if (this.state.status === 'playing') {
+      this.provider.cancel();
+      this.speakCurrent();
+    }
+  }
+
+  private speakCurrent(): void {
+    const generation = ++this.generation;
+    const sentence = this.state.queue[this.state.currentIndex];
+    this.provider.speak(sentence.text, { lang: this.lang, rate: this.state.rate }, {
+      onEnd: () => {
+        if (generation !== this.generation) return;
+        const nextIndex = this.state.currentIndex + 1;
+        if (nextIndex >= this.state.queue.length) {
+          this.stop();
+          return;
+        }
+        this.setState({ currentIndex: nextIndex });
+        this.speakCurrent();
+      },
+      onError: (error) => {
+        if (generation !== this.generation) return;
+        console.error('Read-aloud playback error:', error);
+        this.stop();
+      },
+    });
+  }
+
+  private setState(partial: Partial<ReadAloudState>): void {
+    this.state = { ...this.state, ...partial };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
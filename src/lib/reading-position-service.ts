@@ -0,0 +1,99 @@
+/**
+ * @fileOverview Service functions for syncing a reader's position across devices.
+ *
+ * One Firestore document per user and edition (`readingPositions/{userId}_{editionId}`)
+ * records the chapter, the paragraph at the top of the viewport, the page in
+ * pagination mode and the column layout. The reading page restores it on open
+ * and the dashboard lists the most recent positions under "Recent Activity".
+ */
+
+import { db } from './firebase';
+import { collection, doc, getDoc, getDocs, query, setDoc, where, Timestamp } from 'firebase/firestore';
+import type { EditionId } from '@/types/chapter';
+import { getEdition } from './editions';
+
+/** Column layout of the reading page; `vertical` is traditional right-to-left 直排 */
+export type ColumnLayout = 'single' | 'double' | 'vertical';
+
+const COLUMN_LAYOUTS: ColumnLayout[] = ['single', 'double', 'vertical'];
+
+// Type definition for a saved reading position
+export interface ReadingPosition {
+  id?: string; // Firestore document ID (`{userId}_{editionId}`)
+  userId: string; // User's unique ID
+  editionId: EditionId; // Edition being read
+  chapterId: number; // Chapter number (1-120)
+  chapterTitle?: string; // Chapter title (zh-TW) for display without loading the chapter
+  paragraphId: string | null; // Paragraph at the top of the viewport, if known
+  page: number; // 1-based page in the paginated (double-column or vertical) layouts
+  columnLayout: ColumnLayout; // Layout the reader was using
+  updatedAt: Date; // When the position was last saved
+}
+
+const READING_POSITIONS_COLLECTION = 'readingPositions';
+
+const getPositionDocId = (userId: string, editionId: EditionId) => `${userId}_${editionId}`;
+
+const fromFirestore = (id: string, data: Record<string, any>): ReadingPosition => ({
+  id,
+  userId: data.userId,
+  editionId: data.editionId,
+  chapterId: data.chapterId,
+  chapterTitle: data.chapterTitle,
+  paragraphId: data.paragraphId ?? null,
+  page: data.page ?? 1,
+  columnLayout: COLUMN_LAYOUTS.includes(data.columnLayout) ? data.columnLayout : 'single',
+  updatedAt: data.updatedAt?.toDate?.() ?? new Date(0),
+});
+
+/**
+ * Save (overwrite) the reading position for a user and edition.
+ * @param position - Position without id and timestamp
+ */
+export async function saveReadingPosition(position: Omit<ReadingPosition, 'id' | 'updatedAt'>) {
+  const positionRef = doc(db, READING_POSITIONS_COLLECTION, getPositionDocId(position.userId, position.editionId));
+  await setDoc(positionRef, {
+    ...position,
+    chapterTitle: position.chapterTitle ?? null,
+    updatedAt: Timestamp.now(),
+  });
+}
+
+/**
+ * Fetch the saved reading position for a user and edition.
+ * @returns The position, or null when the user has not read this edition yet
+ */
+export async function getReadingPosition(userId: string, editionId: EditionId): Promise<ReadingPosition | null> {
+  const snapshot = await getDoc(doc(db, READING_POSITIONS_COLLECTION, getPositionDocId(userId, editionId)));
+  if (!snapshot.exists()) {
+    return null;
+  }
+  return fromFirestore(snapshot.id, snapshot.data());
+}
+
+/**
+ * Fetch a user's reading positions across editions, most recent first.
+ * @param userId - The user's unique ID
+ * @param maxResults - Maximum number of positions to return (default: 10)
+ */
+export async function getRecentReadingPositions(userId: string, maxResults: number = 10): Promise<ReadingPosition[]> {
+  const q = query(
+    collection(db, READING_POSITIONS_COLLECTION),
+    where('userId', '==', userId)
+  );
+  const querySnapshot = await getDocs(q);
+  const positions = querySnapshot.docs.map(doc => fromFirestore(doc.id, doc.data()));
+
+  // Sort client-side to avoid requiring a composite index
+  return positions
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    .slice(0, maxResults);
+}
+
+/**
+ * Reading progress through an edition, in percent, based on the chapter reached.
+ */
+export function getReadingProgressPercent(position: Pick<ReadingPosition, 'editionId' | 'chapterId'>): number {
+  const { chapterCount } = getEdition(position.editionId);
+  return Math.min(100, Math.round((position.chapterId / chapterCount) * 100));
+}
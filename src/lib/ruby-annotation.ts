@@ -0,0 +1,153 @@
+/**
+ * @fileOverview Ruby annotation: pinyin or zhuyin readings above the text
+ *
+ * Works out, for each character of a paragraph, the reading shown above it in
+ * the reader's ruby mode. Readings come from the character table
+ * (`character-readings.ts`), corrected by the chapter's `readings` overrides for
+ * polyphonic characters, and are shown as tone-marked pinyin (`formatPinyin`)
+ * or as zhuyin (注音符號).
+ *
+ * The reader can annotate every character or only characters at or above a
+ * difficulty level. A character whose override changes its default reading is
+ * always annotated, since that is exactly where a learner would misread it.
+ */
+
+import type { ReadingOverride } from '@/types/chapter';
+import { getCharacterReading, READING_LEVELS, type ReadingLevel } from './character-readings';
+import { formatPinyin } from './dictionary';
+
+/** Script the readings are shown in; `off` hides them */
+export type RubyMode = 'off' | 'pinyin' | 'zhuyin';
+
+export const RUBY_MODES: RubyMode[] = ['off', 'pinyin', 'zhuyin'];
+
+/** Ruby settings of the reading page */
+export interface RubySettings {
+  mode: RubyMode;
+  /** Lowest difficulty level annotated; 1 annotates every character */
+  minLevel: ReadingLevel;
+}
+
+export const DEFAULT_RUBY_SETTINGS: RubySettings = { mode: 'off', minLevel: 1 };
+
+/**
+ * Read ruby settings saved by an earlier session, falling back to the defaults
+ * for anything missing or malformed.
+ */
+export function normalizeRubySettings(value: unknown): RubySettings {
+  const raw = (value && typeof value === 'object' ? value : {}) as Partial<RubySettings>;
+  return {
+    mode: RUBY_MODES.includes(raw.mode as RubyMode) ? raw.mode as RubyMode : DEFAULT_RUBY_SETTINGS.mode,
+    minLevel: READING_LEVELS.includes(raw.minLevel as ReadingLevel) ? raw.minLevel as ReadingLevel : DEFAULT_RUBY_SETTINGS.minLevel,
+  };
+}
+
+const ZHUYIN_INITIALS: Record<string, string> = {
+  b: 'ㄅ', p: 'ㄆ', m: 'ㄇ', f: 'ㄈ', d: 'ㄉ', t: 'ㄊ', n: 'ㄋ', l: 'ㄌ',
+  g: 'ㄍ', k: 'ㄎ', h: 'ㄏ', j: 'ㄐ', q: 'ㄑ', x: 'ㄒ',
+  zh: 'ㄓ', ch: 'ㄔ', sh: 'ㄕ', r: 'ㄖ', z: 'ㄗ', c: 'ㄘ', s: 'ㄙ',
+};
+
+const ZHUYIN_FINALS: Record<string, string> = {
+  a: 'ㄚ', o: 'ㄛ', e: 'ㄜ', ê: 'ㄝ', ai: 'ㄞ', ei: 'ㄟ', ao: 'ㄠ', ou: 'ㄡ',
+  an: 'ㄢ', en: 'ㄣ', ang: 'ㄤ', eng: 'ㄥ', ong: 'ㄨㄥ', er: 'ㄦ',
+  i: 'ㄧ', ia: 'ㄧㄚ', io: 'ㄧㄛ', ie: 'ㄧㄝ', iai: 'ㄧㄞ', iao: 'ㄧㄠ', iou: 'ㄧㄡ',
+  ian: 'ㄧㄢ', in: 'ㄧㄣ', iang: 'ㄧㄤ', ing: 'ㄧㄥ', iong: 'ㄩㄥ',
+  u: 'ㄨ', ua: 'ㄨㄚ', uo: 'ㄨㄛ', uai: 'ㄨㄞ', uei: 'ㄨㄟ',
+  uan: 'ㄨㄢ', uen: 'ㄨㄣ', uang: 'ㄨㄤ', ueng: 'ㄨㄥ',
+  ü: 'ㄩ', üe: 'ㄩㄝ', üan: 'ㄩㄢ', ün: 'ㄩㄣ',
+};
+
+// Tone 1 is unmarked; the neutral tone's dot goes before the syllable
+const ZHUYIN_TONES = ['', 'ˊ', 'ˇ', 'ˋ'];
+
+// Finals written in their short pinyin forms
+const CONTRACTED_FINALS: Record<string, string> = { iu: 'iou', ui: 'uei', un: 'uen' };
+
+const syllableToZhuyin = (syllable: string): string => {
+  const match = /^([a-zêü:]+)([1-5])?$/.exec(syllable.toLowerCase().replace(/u:|v/g, 'ü'));
+  if (!match) return syllable;
+  const [, letters, toneDigit] = match;
+  const tone = Number(toneDigit ?? 5);
+
+  const initial = /^(zh|ch|sh|[bpmfdtnlgkhjqxrzcs])/.exec(letters)?.[1] ?? '';
+  let final = letters.slice(initial.length);
+  if (!initial) {
+    // y and w only spell out a medial: yi → i, you → iou, yu → ü, wu → u, wei → uei
+    if (final.startsWith('yu')) final = 'ü' + final.slice(2);
+    else if (final.startsWith('yi')) final = 'i' + final.slice(2);
+    else if (final.startsWith('y')) final = 'i' + final.slice(1);
+    else if (final.startsWith('wu')) final = 'u' + final.slice(2);
+    else if (final.startsWith('w')) final = 'u' + final.slice(1);
+  } else if (/^[jqx]$/.test(initial) && final.startsWith('u')) {
+    final = 'ü' + final.slice(1);
+  }
+  final = CONTRACTED_FINALS[final] ?? final;
+
+  let zhuyin: string;
+  if (/^(zh|ch|sh|r|z|c|s)$/.test(initial) && final === 'i') {
+    // The i of zhi, chi, shi, ri, zi, ci, si is not written
+    zhuyin = ZHUYIN_INITIALS[initial];
+  } else if (final in ZHUYIN_FINALS) {
+    zhuyin = (initial ? ZHUYIN_INITIALS[initial] : '') + ZHUYIN_FINALS[final];
+  } else {
+    return syllable;
+  }
+  return tone === 5 ? `˙${zhuyin}` : zhuyin + ZHUYIN_TONES[tone - 1];
+};
+
+/**
+ * Turn numbered-tone pinyin into zhuyin: `xiang1 lian2` → `ㄒㄧㄤ ㄌㄧㄢˊ`.
+ * Syllables that are not valid pinyin are returned unchanged.
+ */
+export function pinyinToZhuyin(pinyin: string): string {
+  return pinyin.trim().split(/\s+/).map(syllableToZhuyin).join(' ');
+}
+
+/**
+ * Readings of a paragraph's characters in numbered-tone pinyin, by offset in
+ * its original text; null for characters without a reading. Overrides apply
+ * wherever their phrase occurs, later overrides winning where they overlap.
+ * @returns Readings and, per offset, whether an override changed the default reading
+ */
+export function getParagraphReadings(
+  paragraphId: string,
+  text: string,
+  overrides: ReadingOverride[] = []
+): { readings: Array<string | null>; corrected: boolean[] } {
+  const readings = Array.from({ length: text.length }, (_, offset) => getCharacterReading(text[offset])?.pinyin ?? null);
+  const corrected = readings.map(() => false);
+
+  for (const override of overrides) {
+    if (override.paragraphId && override.paragraphId !== paragraphId) continue;
+    const syllables = override.pinyin.trim().split(/\s+/);
+    for (let start = text.indexOf(override.text); start >= 0; start = text.indexOf(override.text, start + 1)) {
+      syllables.forEach((syllable, i) => {
+        const offset = start + i;
+        corrected[offset] = syllable !== getCharacterReading(text[offset])?.pinyin;
+        readings[offset] = syllable;
+      });
+    }
+  }
+  return { readings, corrected };
+}
+
+/**
+ * The ruby shown above each character of a paragraph under the given settings,
+ * by offset in its original text; null where nothing is shown.
+ */
+export function getParagraphRuby(
+  paragraphId: string,
+  text: string,
+  overrides: ReadingOverride[],
+  settings: RubySettings
+): Array<string | null> {
+  if (settings.mode === 'off') return Array.from({ length: text.length }, () => null);
+  const { readings, corrected } = getParagraphReadings(paragraphId, text, overrides);
+  return readings.map((reading, offset) => {
+    if (!reading) return null;
+    const level = getCharacterReading(text[offset])?.level ?? READING_LEVELS[READING_LEVELS.length - 1];
+    if (level < settings.minLevel && !corrected[offset]) return null;
+    return settings.mode === 'zhuyin' ? pinyinToZhuyin(reading) : formatPinyin(reading);
+  });
+}
@@ -0,0 +1,143 @@
+/**
+ * @fileOverview Sentence alignment between original text and its vernacular rendering
+ *
+ * The parallel reading mode pairs each classical sentence with the vernacular
+ * sentences that render it. A paragraph may store a reviewed alignment
+ * (`Paragraph.alignment`); otherwise its sentences are aligned by length in the
+ * manner of Gale and Church: a vernacular rendering runs to a roughly constant
+ * multiple of the original's length, so a dynamic programme picks the grouping
+ * (1:1, 1:2, 2:1, …) whose groups keep closest to the paragraph's ratio.
+ */
+
+import type { Paragraph, SentenceAlignment } from '@/types/chapter';
+import { getParagraphText, getVernacularText } from './chapter-loader';
+import { splitIntoSentences } from './read-aloud-service';
+
+/** A span of a paragraph's text */
+export interface AlignedSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** Original sentences and the vernacular sentences that render them */
+export interface AlignedSegment {
+  original: AlignedSpan;
+  vernacular: AlignedSpan;
+}
+
+/**
+ * Groupings the aligner may choose, as [original sentences, vernacular sentences, penalty].
+ * One-to-one is free; merges cost a little and dropped sentences a lot.
+ */
+const GROUPINGS: Array<[number, number, number]> = [
+  [1, 1, 0],
+  [1, 2, 0.4],
+  [2, 1, 0.4],
+  [2, 2, 0.8],
+  [1, 3, 0.9],
+  [3, 1, 0.9],
+  [1, 0, 2.5],
+  [0, 1, 2.5],
+];
+
+/** Vernacular-to-original length ratio assumed when a paragraph gives no evidence */
+const DEFAULT_LENGTH_RATIO = 1.6;
+
+/**
+ * Align two lists of sentences by length.
+ * @param originalLengths - Length of each original sentence
+ * @param vernacularLengths - Length of each vernacular sentence
+ * @returns Consecutive groups covering both lists, or [] when either is empty
+ */
+export function alignSentences(originalLengths: number[], vernacularLengths: number[]): SentenceAlignment[] {
+  const m = originalLengths.length;
+  const n = vernacularLengths.length;
+  if (m === 0 || n === 0) return [];
+
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const originalTotal = sum(originalLengths);
+  const ratio = originalTotal > 0 ? sum(vernacularLengths) / originalTotal : DEFAULT_LENGTH_RATIO;
+
+  // cost[i][j]: best cost of aligning the first i original and first j vernacular sentences
+  const cost = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(Infinity));
+  const step = Array.from({ length: m + 1 }, () => new Array<[number, number]>(n + 1));
+  cost[0][0] = 0;
+
+  for (let i = 0; i <= m; i++) {
+    for (let j = 0; j <= n; j++) {
+      if (cost[i][j] === Infinity) continue;
+      for (const [di, dj, penalty] of GROUPINGS) {
+        if (i + di > m || j + dj > n) continue;
+        const originalLength = sum(originalLengths.slice(i, i + di));
+        const vernacularLength = sum(vernacularLengths.slice(j, j + dj));
+        const mismatch = Math.abs(Math.log((vernacularLength + 1) / (ratio * originalLength + 1)));
+        const total = cost[i][j] + penalty + mismatch;
+        if (total < cost[i + di][j + dj]) {
+          cost[i + di][j + dj] = total;
+          step[i + di][j + dj] = [di, dj];
+        }
+      }
+    }
+  }
+
+  const alignment: SentenceAlignment[] = [];
+  for (let i = m, j = n; i > 0 || j > 0;) {
+    const [di, dj] = step[i][j];
+    alignment.unshift({ original: [i - di, i], vernacular: [j - dj, j] });
+    i -= di;
+    j -= dj;
+  }
+  return alignment;
+}
+
+/**
+ * Whether an alignment covers both sentence lists in order without gaps.
+ */
+export function isCompleteAlignment(alignment: SentenceAlignment[], originalCount: number, vernacularCount: number): boolean {
+  let original = 0;
+  let vernacular = 0;
+  for (const pair of alignment) {
+    if (pair.original[0] !== original || pair.vernacular[0] !== vernacular) return false;
+    if (pair.original[1] === pair.original[0] && pair.vernacular[1] === pair.vernacular[0]) return false;
+    original = pair.original[1];
+    vernacular = pair.vernacular[1];
+  }
+  return original === originalCount && vernacular === vernacularCount;
+}
+
+// Spans for each group; every span runs on to the next group so the spans cover the whole text
+const toSpans = (text: string, sentences: AlignedSpan[], ranges: Array<[number, number]>): AlignedSpan[] => {
+  let start = 0;
+  return ranges.map(([first, last], index) => {
+    const end = index === ranges.length - 1 ? text.length : last > first ? sentences[last - 1].end : start;
+    const span = { text: text.slice(start, end), start, end };
+    start = end;
+    return span;
+  });
+};
+
+/**
+ * Pair a paragraph's original sentences with its vernacular sentences, using
+ * the stored alignment when it fits the current text.
+ * @returns Segments covering both texts in order, or [] when the paragraph has no vernacular
+ */
+export function alignParagraph(paragraph: Pick<Paragraph, 'content' | 'vernacular' | 'alignment'>): AlignedSegment[] {
+  const originalText = getParagraphText(paragraph);
+  const vernacularText = getVernacularText(paragraph);
+  const originalSentences = splitIntoSentences(originalText);
+  const vernacularSentences = splitIntoSentences(vernacularText);
+
+  const stored = paragraph.alignment;
+  const alignment = stored && isCompleteAlignment(stored, originalSentences.length, vernacularSentences.length)
+    ? stored
+    : alignSentences(
+        originalSentences.map(sentence => sentence.text.length),
+        vernacularSentences.map(sentence => sentence.text.length)
+      );
+  if (alignment.length === 0) return [];
+
+  const originalSpans = toSpans(originalText, originalSentences, alignment.map(pair => pair.original));
+  const vernacularSpans = toSpans(vernacularText, vernacularSentences, alignment.map(pair => pair.vernacular));
+  return originalSpans.map((original, index) => ({ original, vernacular: vernacularSpans[index] }));
+}
@@ -0,0 +1,205 @@
+/**
+ * @fileOverview Position anchors for spans of chapter text
+ *
+ * A `TextAnchor` records where a span sits (paragraph id plus character
+ * offsets into the paragraph's original text, see `getParagraphText`) and a
+ * short quote of the text around it. Offsets alone break when a chapter is
+ * corrected, so `resolveTextAnchor` re-finds the span in the current text:
+ *
+ * 1. `exact`  – the offsets still hold the quoted text
+ * 2. `moved`  – the quoted text occurs elsewhere; the occurrence whose
+ *               surrounding context best matches the anchor wins
+ * 3. `fuzzy`  – the quoted text itself was edited; the closest approximate
+ *               match (bounded edit distance) wins
+ *
+ * Spans with no anchor (records saved before anchoring existed) resolve to
+ * their first occurrence in the chapter with status `unanchored`.
+ */
+
+import type { Paragraph, TextAnchor } from '@/types/chapter';
+import { getParagraphText } from './chapter-loader';
+
+/** Characters of context stored on each side of an anchored span */
+export const ANCHOR_CONTEXT_LENGTH = 32;
+
+/** Largest edit distance accepted for fuzzy matches, as a share of the span length */
+const MAX_FUZZY_ERROR_RATE = 0.25;
+
+/** Spans shorter than this are too ambiguous to match approximately */
+const MIN_FUZZY_LENGTH = 4;
+
+export type { TextAnchor };
+
+export type AnchorMatchStatus = 'exact' | 'moved' | 'fuzzy' | 'unanchored';
+
+/** Where an anchored span is in the current chapter text */
+export interface ResolvedAnchor {
+  paragraphId: string;
+  startOffset: number;
+  endOffset: number;
+  /** Text currently at the resolved position */
+  text: string;
+  status: AnchorMatchStatus;
+}
+
+type AnchorParagraph = Pick<Paragraph, 'id' | 'content'>;
+
+interface Candidate {
+  paragraphIndex: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Build an anchor for `text.slice(startOffset, endOffset)` in a paragraph.
+ * @param paragraphId - Paragraph the span belongs to
+ * @param paragraphText - The paragraph's original text
+ */
+export function createTextAnchor(paragraphId: string, paragraphText: string, startOffset: number, endOffset: number): TextAnchor {
+  return {
+    paragraphId,
+    startOffset,
+    endOffset,
+    prefix: paragraphText.slice(Math.max(0, startOffset - ANCHOR_CONTEXT_LENGTH), startOffset),
+    suffix: paragraphText.slice(endOffset, endOffset + ANCHOR_CONTEXT_LENGTH),
+  };
+}
+
+// Length of the common suffix of a and b
+const commonSuffixLength = (a: string, b: string): number => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) {
+    length++;
+  }
+  return length;
+};
+
+// Length of the common prefix of a and b
+const commonPrefixLength = (a: string, b: string): number => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+};
+
+/**
+ * Best approximate occurrence of `pattern` in `text` (Sellers' algorithm).
+ * @returns Start, end and edit distance, or null when no match is within `maxErrors`
+ */
+export function findApproximateMatch(
+  text: string,
+  pattern: string,
+  maxErrors: number
+): { start: number; end: number; errors: number } | null {
+  const m = pattern.length;
+  if (m === 0 || text.length === 0) return null;
+
+  // column[i] = edit distance of pattern[0..i) to the best substring of text ending here;
+  // starts[i] = where that substring begins
+  let column = Array.from({ length: m + 1 }, (_, i) => i);
+  let starts = new Array<number>(m + 1).fill(0);
+  let best: { start: number; end: number; errors: number } | null = null;
+
+  for (let j = 1; j <= text.length; j++) {
+    const nextColumn = [0];
+    const nextStarts = [j];
+    for (let i = 1; i <= m; i++) {
+      const substitution = column[i - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+      const deletion = column[i] + 1; // text character not in pattern
+      const insertion = nextColumn[i - 1] + 1; // pattern character missing from text
+      if (substitution <= deletion && substitution <= insertion) {
+        nextColumn.push(substitution);
+        nextStarts.push(starts[i - 1]);
+      } else if (deletion <= insertion) {
+        nextColumn.push(deletion);
+        nextStarts.push(starts[i]);
+      } else {
+        nextColumn.push(insertion);
+        nextStarts.push(nextStarts[i - 1]);
+      }
+    }
+    column = nextColumn;
+    starts = nextStarts;
+
+    const errors = column[m];
+    if (errors <= maxErrors && (!best || errors < best.errors)) {
+      best = { start: starts[m], end: j, errors };
+    }
+  }
+  return best;
+}
+
+/**
+ * Find the current position of an anchored span.
+ * @param quote - The span's text when it was anchored
+ * @param anchor - Saved anchor, or undefined for records without one
+ * @param paragraphs - The chapter's current paragraphs
+ * @returns The resolved position, or null when the span can no longer be found
+ */
+export function resolveTextAnchor(
+  quote: string,
+  anchor: TextAnchor | undefined,
+  paragraphs: AnchorParagraph[]
+): ResolvedAnchor | null {
+  if (!quote) return null;
+  const texts = paragraphs.map(getParagraphText);
+  const anchorIndex = anchor ? paragraphs.findIndex(p => p.id === anchor.paragraphId) : -1;
+
+  const toResolved = (candidate: Candidate, status: AnchorMatchStatus): ResolvedAnchor => ({
+    paragraphId: paragraphs[candidate.paragraphIndex].id,
+    startOffset: candidate.start,
+    endOffset: candidate.end,
+    text: texts[candidate.paragraphIndex].slice(candidate.start, candidate.end),
+    status,
+  });
+
+  // 1) Offsets still valid
+  if (anchor && anchorIndex !== -1 && texts[anchorIndex].slice(anchor.startOffset, anchor.endOffset) === quote) {
+    return toResolved({ paragraphIndex: anchorIndex, start: anchor.startOffset, end: anchor.endOffset }, 'exact');
+  }
+
+  // 2) Exact occurrences anywhere in the chapter
+  const occurrences: Candidate[] = [];
+  texts.forEach((text, paragraphIndex) => {
+    for (let start = text.indexOf(quote); start !== -1; start = text.indexOf(quote, start + 1)) {
+      occurrences.push({ paragraphIndex, start, end: start + quote.length });
+    }
+  });
+
+  if (!anchor) {
+    return occurrences.length > 0 ? toResolved(occurrences[0], 'unanchored') : null;
+  }
+
+  // Prefer matching context, then the original paragraph, then nearby offsets
+  const rank = (candidate: Candidate): number => {
+    const text = texts[candidate.paragraphIndex];
+    const context =
+      commonSuffixLength(text.slice(0, candidate.start), anchor.prefix) +
+      commonPrefixLength(text.slice(candidate.end), anchor.suffix);
+    const sameParagraph = candidate.paragraphIndex === anchorIndex ? 1 : 0;
+    const distance = sameParagraph ? Math.abs(candidate.start - anchor.startOffset) : Math.abs(candidate.paragraphIndex - anchorIndex) * 1000;
+    return context * 1_000_000 + sameParagraph * 100_000 - Math.min(distance, 99_999);
+  };
+  const pickBest = (candidates: Candidate[]) =>
+    candidates.reduce((best, candidate) => (rank(candidate) > rank(best) ? candidate : best));
+
+  if (occurrences.length > 0) {
+    return toResolved(pickBest(occurrences), 'moved');
+  }
+
+  // 3) Approximate match, tried in the original paragraph first
+  if (quote.length < MIN_FUZZY_LENGTH) return null;
+  const maxErrors = Math.floor(quote.length * MAX_FUZZY_ERROR_RATE);
+  const searchOrder = anchorIndex === -1
+    ? texts.map((_, i) => i)
+    : [anchorIndex, ...texts.map((_, i) => i).filter(i => i !== anchorIndex)];
+
+  for (const paragraphIndex of searchOrder) {
+    const match = findApproximateMatch(texts[paragraphIndex], quote, maxErrors);
+    if (match) {
+      return toResolved({ paragraphIndex, ...match }, 'fuzzy');
+    }
+  }
+  return null;
+}
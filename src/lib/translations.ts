@@ -1,3 +1,5 @@
+import { convertToSimplified } from './chinese-conversion';
+
 export type Language = 'zh-TW' | 'zh-CN' | 'en-US';
 
 export const LANGUAGES: { code: Language; name: string }[] = [
@@ -12,142 +14,19 @@ interface Translations {
   [key: string]: any; // Allows for nested structure
 }
 
-// Placeholder transformation function
+/**
+ * Show zh-TW text in the reader's language. zh-CN converts Traditional to
+ * Simplified (`chinese-conversion.ts`); the conversion keeps text length, so
+ * offsets into the converted text are offsets into the original. There is no
+ * English rendering of the corpus, so en-US readers see the zh-TW text as is.
+ * @param type - Kind of text being shown; every kind converts the same way
+ */
 export function transformTextForLang(text: string | undefined, lang: Language, type: 'original' | 'vernacular' | 'annotation'): string {
   if (!text) return "";
   if (lang === 'zh-CN') {
-    // Basic placeholder for TW -> SC conversion
-    return text
-      .replace(/臺/g, '台')
-      .replace(/裡/g, '里')
-      .replace(/蘋/g, '苹')
-      .replace(/纔/g, '才')
-      .replace(/眾/g, '众')
-      .replace(/夢/g, '梦')
-      .replace(/寧/g, '宁')
-      .replace(/寶/g, '宝')
-      .replace(/釵/g, '钗')
-      .replace(/黛/g, '黛')
-      .replace(/襲/g, '袭')
-      .replace(/鳳/g, '凤')
-      .replace(/風/g, '风')
-      .replace(/塵/g, '尘')
-      .replace(/懷/g, '怀')
-      .replace(/閨/g, '闺')
-      .replace(/識/g, '识')
-      .replace(/靈/g, '灵')
-      .replace(/頑/g, '顽')
-      .replace(/無/g, '无')
-      .replace(/選/g, '选')
-      .replace(/塊/g, '块')
-      .replace(/煉/g, '炼')
-      .replace(/媧/g, '娲')
-      .replace(/補/g, '补')
-      .replace(/員/g, '员')
-      .replace(/僅/g, '仅')
-      .replace(/劉/g, '刘')
-      .replace(/姥/g, '姥')
-      .replace(/進/g, '进')
-      .replace(/觀/g, '观')
-      .replace(/園/g, '园')
-      .replace(/圓/g, '圆')
-      .replace(/鍾/g, '钟')
-      .replace(/應/g, '应')
-      .replace(/嘆/g, '叹')
-      .replace(/見/g, '见')
-      .replace(/說/g, '说')
-      .replace(/聽/g, '听')
-      .replace(/聯/g, '联')
-      .replace(/聰/g, '聪')
-      .replace(/遊/g, '游')
-      .replace(/鬱/g, '郁')
-      .replace(/點/g, '点')
-      .replace(/癡/g, '痴')
-      .replace(/隨/g, '随')
-      .replace(/隱/g, '隐')
-      .replace(/義/g, '义')
-      .replace(/術/g, '术')
-      .replace(/葉/g, '叶')
-      .replace(/搗/g, '捣')
-      .replace(/畫/g, '画')
-      .replace(/詩/g, '诗')
-      .replace(/詞/g, '词')
-      .replace(/賞/g, '赏')
-      .replace(/析/g, '析')
-      .replace(/評/g, '评')
-      .replace(/註/g, '注')
-      .replace(/釋/g, '释')
-      .replace(/論/g, '论')
-      .replace(/講/g, '讲')
-      .replace(/細/g, '细')
-      .replace(/課/g, '课')
-      .replace(/庫/g, '库')
-      .replace(/歷/g, '历')
-      .replace(/範/g, '范')
-      .replace(/圍/g, '围')
-      .replace(/歸/g, '归')
-      .replace(/傑/g, '杰')
-      .replace(/處/g, '处')
-      .replace(/總/g, '总')
-      .replace(/響/g, '响')
-      .replace(/興/g, '兴')
-      .replace(/趣/g, '趣')
-      .replace(/賈/g, '贾')
-      .replace(/雨/g, '雨')
-      .replace(/村/g, '村')
-      .replace(/甄/g, '甄')
-      .replace(/士/g, '士')
-      .replace(/隱/g, '隐')
-      .replace(/畢/g, '毕')
-      .replace(/畢竟/g, '毕竟')
-      .replace(/叢/g, '丛')
-      .replace(/書/g, '书')
-      .replace(/孫/g, '孙')
-      .replace(/兒/g, '儿')
-      .replace(/號/g, '号')
-      .replace(/畢/g, '毕')
-      .replace(/叢/g, '丛')
-      .replace(/書/g, '书')
-      .replace(/孫/g, '孙')
-      .replace(/兒/g, '儿')
-      .replace(/號/g, '号')
-      .replace(/卻/g, '却')
-      .replace(/開卷/g, '开卷')
-      .replace(/罷/g, '罢')
-      .replace(/師/g, '师')
-      .replace(/蹤/g, '踪')
-      .replace(/跡/g, '迹')
-      .replace(/階/g, '阶')
-      .replace(/齣/g, '出')
-      .replace(/壞/g, '坏')
-      .replace(/災/g, '灾')
-      .replace(/鄉/g, '乡')
-      .replace(/遊/g, '游')
-      .replace(/蹤/g, '踪')
-      .replace(/跡/g, '迹')
-      .replace(/階/g, '阶')
-      .replace(/齣/g, '出')
-      .replace(/壞/g, '坏')
-      .replace(/災/g, '灾')
-      .replace(/鄉/g, '乡')
-      .replace(/遊/g, '游')
-      .replace(/蹤/g, '踪')
-      .replace(/跡/g, '迹')
-      .replace(/階/g, '阶')
-      .replace(/齣/g, '出')
-      .replace(/壞/g, '坏')
-      .replace(/災/g, '灾')
-      .replace(/鄉/g, '乡')
-      .replace(/遊/g, '游');
-  } else if (lang === 'en-US') {
-    // Placeholder: In a real app, use a proper translation service or library.
-    // This is just to show structure and that transformation happens.
-    const textStart = text.substring(0, 50);
-    if (type === 'original') return `[EN] ${textStart}... (Full original text translation pending)`;
-    if (type === 'vernacular') return `[EN Vernacular] ${textStart}... (Full vernacular translation pending)`;
-    if (type === 'annotation') return `[EN Annotation] ${textStart}... (Full annotation translation pending)`;
+    return convertToSimplified(text);
   }
-  return text; // Default to zh-TW or original text
+  return text;
 }
 
 export const translations: Record<Language, Translations> = {
@@ -190,6 +69,10 @@ export const translations: Record<Language, Translations> = {
       singleColumn: '單欄',
       doubleColumn: '雙欄',
       tripleColumn: '三欄',
+      verticalText: '直排',
+      verticalTextHint: '傳統直排，由右至左閱讀',
+      parallelReading: '對照',
+      parallelReadingHint: '原文與白話逐句對照',
       hideVernacular: '隱藏白話',
       showVernacular: '顯示白話',
       knowledgeGraph: '圖譜',
@@ -283,6 +166,8 @@ export const translations: Record<Language, Translations> = {
     sidebar: {
       home: '首頁',
       read: '閱讀',
+      poetry: '詩詞',
+      genealogy: '族譜',
       achievements: '成就與目標',
       community: '紅學社',
     },
@@ -364,6 +249,10 @@ export const translations: Record<Language, Translations> = {
       myLearningGoalsDesc: '追蹤您的個人學習目標，保持學習動力。',
       manageAllGoals: '管理所有目標',
       continueReading: '繼續閱讀',
+      recentReadingBook: '紅樓夢（{edition}）',
+      recentReadingChapter: '讀到第 {number} 回',
+      recentReadingEmpty: '還沒有閱讀紀錄。開始閱讀後，這裡會記住您讀到的位置。',
+      startReading: '開始閱讀',
     },
     read: {
       myShelf: '我的書架',
@@ -553,6 +442,8 @@ export const translations: Record<Language, Translations> = {
     readBook: {
       knowledgeGraphSheetTitle: '章回知識圖譜',
       knowledgeGraphSheetDesc: '呈現本章回主要概念之間的關聯。(此為模擬圖，實際圖譜會基於文本動態生成)',
+      knowledgeGraphScopeChapter: '本回',
+      knowledgeGraphScopeCumulative: '第一回至本回',
       tocSheetTitle: '目錄',
       tocSheetDesc: '選擇章回以快速跳轉。',
       noteSheetTitle: '撰寫筆記',
@@ -565,6 +456,11 @@ export const translations: Record<Language, Translations> = {
       errorAIExplain: '向 AI 提問時發生錯誤。',
       errorAIMissingOutput: 'AI模型未能生成有效的文本解釋。',
       errorAIContextAnalysis: 'AI模型未能生成有效的文本脈絡分析。',
+      chapterFallbackTitle: '第 {number} 回',
+      chapterNotAvailable: '尚未收錄',
+      chapterNotAvailableDesc: '第 {number} 回原文尚未收錄。',
+      chapterLoading: '章回載入中……',
+      chapterLoadError: '章回載入失敗，請稍後再試。',
     },
     notes: {
       dashboard: '筆記儀表板',
@@ -634,6 +530,267 @@ export const translations: Record<Language, Translations> = {
       page: '第',
       of: '頁，共',
     },
+    // Read-aloud player translations
+    readAloud: {
+      playerLabel: '朗讀播放器',
+      play: '播放',
+      pause: '暫停',
+      stop: '停止',
+      speed: '語速',
+      sourceOriginal: '原文',
+      sourceVernacular: '白話',
+      idleHint: '點選播放朗讀本回，或選取文字後按「聽當前」。',
+      unsupported: '此瀏覽器不支援語音朗讀。',
+      noVernacular: '本回尚無白話譯文可朗讀。',
+      playParagraph: '朗讀此段',
+    },
+    // Annotation layer translations
+    annotations: {
+      title: '註釋來源',
+      description: '選擇要在原文中標示的註釋。點選加點線的文字可閱讀該處所有註釋。',
+      count: '{count} 則',
+      panelTitle: '註釋',
+      panelDesc: '此處共 {count} 則註釋',
+      loadError: '註釋載入失敗，請稍後再試。',
+      sources: {
+        editorial: {
+          name: '編者注釋',
+          badge: '注',
+          description: '詞語、典故與名物的解釋',
+        },
+        zhiyanzhai: {
+          name: '脂硯齋評',
+          badge: '脂',
+          description: '甲戌、庚辰等脂本抄本中的批語',
+        },
+        scholar: {
+          name: '今人評論',
+          badge: '評',
+          description: '近現代學者的研究與評論',
+        },
+      },
+      positions: {
+        interlinear: '夾批',
+        marginal: '眉批',
+        'chapter-head': '回前批',
+        'chapter-end': '回後批',
+      },
+    },
+    // Offline reading and queued writes
+    offline: {
+      saveChapter: '離線保存',
+      saveChapterHint: '下載本回原文、註釋與知識圖譜，離線時也能閱讀',
+      chapterSaved: '{title} 已可離線閱讀',
+      chapterSaveFailed: '無法下載本回，請稍後再試',
+      offline: '離線中',
+      offlineHint: '目前離線：筆記、畫線與經驗值會先存在本機，連線後自動同步',
+      pending: '{count} 筆待同步',
+      savedOffline: '目前離線，已先存在本機，連線後會自動同步',
+      syncedTitle: '已同步',
+      syncedDesc: '離線時的 {count} 筆變更已同步',
+      conflictTitle: '筆記同步衝突',
+      conflictDesc: '{count} 則筆記已在其他裝置修改，離線時的版本另存為新筆記，兩個版本都保留',
+      syncFailed: '{count} 筆離線變更無法同步，已捨棄',
+    },
+    // Export of chapters with notes and highlights
+    export: {
+      button: '匯出',
+      buttonHint: '將原文連同筆記與畫線匯出為 EPUB、PDF 或 Markdown',
+      title: '匯出筆記與原文',
+      description: '匯出原文，並附上你的筆記與畫線',
+      signedOutDescription: '登入後可一併匯出筆記與畫線；目前只會匯出原文',
+      scopeLabel: '範圍',
+      scopes: {
+        chapter: '本回',
+        range: '指定章回',
+        book: '全書',
+      },
+      rangeFrom: '起始回',
+      rangeTo: '結束回',
+      rangeHint: '回',
+      formatLabel: '格式',
+      formats: {
+        markdown: 'Markdown',
+        epub: 'EPUB',
+        pdf: 'PDF',
+      },
+      pdfHint: 'A4 版面，可直接列印；文字使用 PDF 閱讀器內建的明體',
+      notePlacementLabel: '筆記位置',
+      notePlacements: {
+        inline: '段落之後',
+        endnotes: '章末附註',
+      },
+      confirm: '匯出',
+      exporting: '匯出中…',
+      done: '已匯出 {count} 回',
+      failed: '匯出失敗，請稍後再試',
+      nothingToExport: '所選範圍內沒有已收錄的章回',
+      bookTitle: '紅樓夢',
+      notesHeading: '筆記',
+      contentsHeading: '目錄',
+    },
+    // Built-in dictionary and vocabulary list
+    dictionary: {
+      button: '字典',
+      buttonHint: '在內建字典中查詢選取的文字',
+      title: '字典',
+      loading: '正在載入字典…',
+      loadFailed: '字典載入失敗，請稍後再試。',
+      segmentation: '分詞結果',
+      noEntries: '字典中沒有找到這段文字的詞條。',
+      usage: '用例',
+      addedToVocabulary: '已加入你的生詞本。',
+      vocabularyTitle: '生詞本',
+      vocabularyDesc: '你在閱讀時查過的詞語',
+      vocabularyEmpty: '還沒有查過任何詞語。閱讀時選取文字並點選「字典」即可查詢。',
+      lookupCount: '查詢 {count} 次',
+      chapterLabel: '第 {chapter} 回',
+      remove: '移出生詞本',
+      removeFailed: '無法移除此詞語',
+    },
+    // Pinyin / zhuyin ruby annotation
+    ruby: {
+      title: '注音',
+      modes: {
+        off: '關閉',
+        pinyin: '拼音',
+        zhuyin: '注音符號',
+      },
+      levelLabel: '標注範圍',
+      levels: {
+        1: '全部',
+        2: '二級以上',
+        3: '三級以上',
+        4: '僅罕見字',
+      },
+      levelHints: {
+        1: '為每個字標注讀音',
+        2: '略過最常用的字',
+        3: '只標注較少見的字',
+        4: '只標注罕見字',
+      },
+    },
+    // Character cards opened from names in the text
+    characters: {
+      aliases: '又稱',
+      firstAppearance: '首次出場：第 {chapter} 回',
+      bio: '簡介',
+      related: '知識圖譜中的關係',
+      relatedLoading: '正在載入知識圖譜…',
+      relatedEmpty: '本回知識圖譜中沒有此人物的關係。',
+      openGraph: '開啟知識圖譜',
+      spoilerNote: '只顯示到第 {chapter} 回為止的內容，避免劇透。',
+      mentionHint: '查看人物卡片',
+      loadError: '人物目錄載入失敗，人名暫不標註。',
+      appearances: '出場回目',
+      appearanceChapter: '第 {chapter} 回',
+      appearancesEmpty: '已讀的回目中尚未提及此人物。',
+    },
+    // Poetry catalogue of poems marked in the chapters
+    poetry: {
+      title: '詩詞目錄',
+      description: '書中的詩、詞、歌與判詞，依回目、作者與詩體瀏覽，附注釋。',
+      allChapters: '全部回目',
+      chapter: '第 {chapter} 回',
+      allAuthors: '全部作者',
+      allForms: '全部詩體',
+      clearFilters: '清除篩選',
+      count: '共 {count} 首',
+      empty: '沒有符合條件的詩詞。',
+      notes: '注釋',
+      loadError: '詩詞目錄載入失敗，請稍後再試。',
+      lockedTitle: '詩詞目錄尚未開放',
+      lockedDesc: '升至第 {levelNumber} 級「{level}」即可受邀參與詩社雅集，欣賞書中詩詞。',
+      forms: {
+        regulated: '律詩',
+        quatrain: '絕句',
+        ancient: '古體詩',
+        song: '歌行',
+        ci: '詞',
+        qu: '曲',
+        judgement: '判詞',
+        couplet: '對聯',
+      },
+    },
+    // Family trees of the four great families
+    genealogy: {
+      title: '四大家族族譜',
+      description: '賈、史、王、薛四家的世系、婚配與寧榮二府房支。點選人物可查看人物卡片與出場回目。',
+      loadError: '族譜載入失敗，請稍後再試。',
+      empty: '讀到目前為止，書中尚未交代此家族的人物。',
+      spoilerNote: '只顯示到第 {chapter} 回為止書中已交代的人物與婚配，避免劇透。',
+      treeLabel: '{family}族譜',
+      generation: '第 {generation} 代',
+      unnamed: '書中未具名',
+      notInCatalog: '人物目錄尚未收錄此人物。',
+      roles: {
+        husband: '夫',
+        wife: '妻',
+        concubine: '妾',
+      },
+      legendWife: '正室',
+      legendConcubine: '妾室',
+      legendChild: '子女',
+    },
+    // User highlight translations
+    highlights: {
+      colorLabel: '畫線顏色',
+      categoryLabel: '畫線分類',
+      colors: {
+        yellow: '黃色',
+        green: '綠色',
+        blue: '藍色',
+        pink: '粉紅色',
+        purple: '紫色',
+      },
+      categories: {
+        general: '一般',
+        character: '人物',
+        poetry: '詩詞',
+        foreshadowing: '伏筆',
+        question: '疑問',
+      },
+      overlapTitle: '已有畫線',
+      overlapDesc: '選取的文字與現有畫線重疊，請先刪除原畫線。',
+      saveFailed: '畫線儲存失敗，請稍後再試。',
+    },
+    // Whole-book search translations
+    bookSearch: {
+      wholeBook: '全書搜尋',
+      searching: '搜尋中…',
+      resultCount: '全書共 {count} 處結果',
+      moreResults: '僅顯示前 {shown} 筆',
+      noResults: '全書找不到相符的文字。',
+      error: '搜尋失敗，請稍後再試。',
+      variantHint: '繁簡字皆可搜尋',
+      fields: {
+        original: '原文',
+        vernacular: '白話',
+        annotation: '註釋',
+      },
+    },
+    // Edition and collation translations
+    editions: {
+      buttonLabel: '版本',
+      title: '選擇版本',
+      description: '同一回在不同版本中的文字可能不同，可切換閱讀或並排校勘。',
+      standard: { name: '通行本', description: '現代校注本，前八十回以脂本為底本，後四十回據程本。' },
+      gengchen: { name: '庚辰本', description: '脂硯齋重評石頭記抄本，存七十八回（缺第六十四、六十七回）。' },
+      chengjia: { name: '程甲本', description: '乾隆五十六年（1791）萃文書屋首次排印的一百二十回本。' },
+      chengyi: { name: '程乙本', description: '乾隆五十七年（1792）程偉元、高鶚修訂重印的一百二十回本。' },
+      notInEdition: '此版本未收錄本回',
+      compareWith: '對照版本',
+      openCollation: '並排校勘',
+      collationTitle: '版本校勘',
+      collationDesc: '{base} 與 {witness} 第 {number} 回對照，標示兩本文字相異之處。',
+      variantCount: '共 {count} 處異文',
+      showVariantsOnly: '只顯示有異文的段落',
+      showAllParagraphs: '顯示全部段落',
+      noVariants: '兩個版本本回文字相同。',
+      paragraphMissing: '（此本無此段）',
+      noOtherEdition: '本回目前沒有其他版本可供對照。',
+      collationLoadError: '對照版本載入失敗，請稍後再試。',
+    },
     // Book shelf translations
     bookShelf: {
       hlmtimesedition: {
@@ -752,6 +909,10 @@ export const translations: Record<Language, Translations> = {
       singleColumn: '单栏',
       doubleColumn: '双栏',
       tripleColumn: '三栏',
+      verticalText: '竖排',
+      verticalTextHint: '传统竖排，由右至左阅读',
+      parallelReading: '对照',
+      parallelReadingHint: '原文与白话逐句对照',
       hideVernacular: '隐藏白话',
       showVernacular: '显示白话',
       knowledgeGraph: '知识图谱',
@@ -845,6 +1006,8 @@ export const translations: Record<Language, Translations> = {
     sidebar: {
       home: '首页',
       read: '阅读',
+      poetry: '诗词',
+      genealogy: '族谱',
       achievements: '成就与目标',
       community: '红学社',
     },
@@ -919,6 +1082,10 @@ export const translations: Record<Language, Translations> = {
       myLearningGoalsDesc: '追踪您的个人学习目标，保持学习动力。',
       manageAllGoals: '管理所有目标',
       continueReading: '继续阅读',
+      recentReadingBook: '红楼梦（{edition}）',
+      recentReadingChapter: '读到第 {number} 回',
+      recentReadingEmpty: '还没有阅读纪录。开始阅读后，这里会记住您读到的位置。',
+      startReading: '开始阅读',
     },
     read: {
       myShelf: '我的书架',
@@ -1107,6 +1274,8 @@ export const translations: Record<Language, Translations> = {
     readBook: {
       knowledgeGraphSheetTitle: '章回知识图谱',
       knowledgeGraphSheetDesc: '呈现本章回主要概念之间的关联。(此为模拟图，实际图谱会基于文本动态生成)',
+      knowledgeGraphScopeChapter: '本回',
+      knowledgeGraphScopeCumulative: '第一回至本回',
       tocSheetTitle: '目录',
       tocSheetDesc: '选择章回以快速跳转。',
       noteSheetTitle: '撰写笔记',
@@ -1119,6 +1288,11 @@ export const translations: Record<Language, Translations> = {
       errorAIExplain: '向 AI 提问时发生错误。',
       errorAIMissingOutput: 'AI模型未能生成有效的文本解释。',
       errorAIContextAnalysis: 'AI模型未能生成有效的文本脉络分析。',
+      chapterFallbackTitle: '第 {number} 回',
+      chapterNotAvailable: '尚未收录',
+      chapterNotAvailableDesc: '第 {number} 回原文尚未收录。',
+      chapterLoading: '章回载入中……',
+      chapterLoadError: '章回载入失败，请稍后再试。',
     },
     notes: {
       dashboard: '笔记仪表板',
@@ -1188,6 +1362,255 @@ export const translations: Record<Language, Translations> = {
       page: '第',
       of: '页，共',
     },
+    readAloud: {
+      playerLabel: '朗读播放器',
+      play: '播放',
+      pause: '暂停',
+      stop: '停止',
+      speed: '语速',
+      sourceOriginal: '原文',
+      sourceVernacular: '白话',
+      idleHint: '点选播放朗读本回，或选取文字后按「听当前」。',
+      unsupported: '此浏览器不支持语音朗读。',
+      noVernacular: '本回尚无白话译文可朗读。',
+      playParagraph: '朗读此段',
+    },
+    annotations: {
+      title: '注释来源',
+      description: '选择要在原文中标示的注释。点选加点线的文字可阅读该处所有注释。',
+      count: '{count} 则',
+      panelTitle: '注释',
+      panelDesc: '此处共 {count} 则注释',
+      loadError: '注释载入失败，请稍后再试。',
+      sources: {
+        editorial: {
+          name: '编者注释',
+          badge: '注',
+          description: '词语、典故与名物的解释',
+        },
+        zhiyanzhai: {
+          name: '脂砚斋评',
+          badge: '脂',
+          description: '甲戌、庚辰等脂本抄本中的批语',
+        },
+        scholar: {
+          name: '今人评论',
+          badge: '评',
+          description: '近现代学者的研究与评论',
+        },
+      },
+      positions: {
+        interlinear: '夹批',
+        marginal: '眉批',
+        'chapter-head': '回前批',
+        'chapter-end': '回后批',
+      },
+    },
+    offline: {
+      saveChapter: '离线保存',
+      saveChapterHint: '下载本回原文、注释与知识图谱，离线时也能阅读',
+      chapterSaved: '{title} 已可离线阅读',
+      chapterSaveFailed: '无法下载本回，请稍后再试',
+      offline: '离线中',
+      offlineHint: '目前离线：笔记、画线与经验值会先存在本机，连线后自动同步',
+      pending: '{count} 笔待同步',
+      savedOffline: '目前离线，已先存在本机，连线后会自动同步',
+      syncedTitle: '已同步',
+      syncedDesc: '离线时的 {count} 笔变更已同步',
+      conflictTitle: '笔记同步冲突',
+      conflictDesc: '{count} 则笔记已在其他设备修改，离线时的版本另存为新笔记，两个版本都保留',
+      syncFailed: '{count} 笔离线变更无法同步，已舍弃',
+    },
+    export: {
+      button: '导出',
+      buttonHint: '将原文连同笔记与画线导出为 EPUB、PDF 或 Markdown',
+      title: '导出笔记与原文',
+      description: '导出原文，并附上你的笔记与画线',
+      signedOutDescription: '登录后可一并导出笔记与画线；目前只会导出原文',
+      scopeLabel: '范围',
+      scopes: {
+        chapter: '本回',
+        range: '指定章回',
+        book: '全书',
+      },
+      rangeFrom: '起始回',
+      rangeTo: '结束回',
+      rangeHint: '回',
+      formatLabel: '格式',
+      formats: {
+        markdown: 'Markdown',
+        epub: 'EPUB',
+        pdf: 'PDF',
+      },
+      pdfHint: 'A4 版面，可直接打印；文字使用 PDF 阅读器内置的宋体',
+      notePlacementLabel: '笔记位置',
+      notePlacements: {
+        inline: '段落之后',
+        endnotes: '章末附注',
+      },
+      confirm: '导出',
+      exporting: '导出中…',
+      done: '已导出 {count} 回',
+      failed: '导出失败，请稍后再试',
+      nothingToExport: '所选范围内没有已收录的章回',
+      bookTitle: '红楼梦',
+      notesHeading: '笔记',
+      contentsHeading: '目录',
+    },
+    dictionary: {
+      button: '字典',
+      buttonHint: '在内置字典中查询选中的文字',
+      title: '字典',
+      loading: '正在加载字典…',
+      loadFailed: '字典加载失败，请稍后再试。',
+      segmentation: '分词结果',
+      noEntries: '字典中没有找到这段文字的词条。',
+      usage: '用例',
+      addedToVocabulary: '已加入你的生词本。',
+      vocabularyTitle: '生词本',
+      vocabularyDesc: '你在阅读时查过的词语',
+      vocabularyEmpty: '还没有查过任何词语。阅读时选中文字并点击「字典」即可查询。',
+      lookupCount: '查询 {count} 次',
+      chapterLabel: '第 {chapter} 回',
+      remove: '移出生词本',
+      removeFailed: '无法移除此词语',
+    },
+    ruby: {
+      title: '注音',
+      modes: {
+        off: '关闭',
+        pinyin: '拼音',
+        zhuyin: '注音符号',
+      },
+      levelLabel: '标注范围',
+      levels: {
+        1: '全部',
+        2: '二级以上',
+        3: '三级以上',
+        4: '仅罕见字',
+      },
+      levelHints: {
+        1: '为每个字标注读音',
+        2: '略过最常用的字',
+        3: '只标注较少见的字',
+        4: '只标注罕见字',
+      },
+    },
+    characters: {
+      aliases: '又称',
+      firstAppearance: '首次出场：第 {chapter} 回',
+      bio: '简介',
+      related: '知识图谱中的关系',
+      relatedLoading: '正在加载知识图谱…',
+      relatedEmpty: '本回知识图谱中没有此人物的关系。',
+      openGraph: '打开知识图谱',
+      spoilerNote: '只显示到第 {chapter} 回为止的内容，避免剧透。',
+      mentionHint: '查看人物卡片',
+      loadError: '人物目录加载失败，人名暂不标注。',
+      appearances: '出场回目',
+      appearanceChapter: '第 {chapter} 回',
+      appearancesEmpty: '已读的回目中尚未提及此人物。',
+    },
+    poetry: {
+      title: '诗词目录',
+      description: '书中的诗、词、歌与判词，依回目、作者与诗体浏览，附注释。',
+      allChapters: '全部回目',
+      chapter: '第 {chapter} 回',
+      allAuthors: '全部作者',
+      allForms: '全部诗体',
+      clearFilters: '清除筛选',
+      count: '共 {count} 首',
+      empty: '没有符合条件的诗词。',
+      notes: '注释',
+      loadError: '诗词目录加载失败，请稍后再试。',
+      lockedTitle: '诗词目录尚未开放',
+      lockedDesc: '升至第 {levelNumber} 级「{level}」即可受邀参与诗社雅集，欣赏书中诗词。',
+      forms: {
+        regulated: '律诗',
+        quatrain: '绝句',
+        ancient: '古体诗',
+        song: '歌行',
+        ci: '词',
+        qu: '曲',
+        judgement: '判词',
+        couplet: '对联',
+      },
+    },
+    genealogy: {
+      title: '四大家族族谱',
+      description: '贾、史、王、薛四家的世系、婚配与宁荣二府房支。点选人物可查看人物卡片与出场回目。',
+      loadError: '族谱加载失败，请稍后再试。',
+      empty: '读到目前为止，书中尚未交代此家族的人物。',
+      spoilerNote: '只显示到第 {chapter} 回为止书中已交代的人物与婚配，避免剧透。',
+      treeLabel: '{family}族谱',
+      generation: '第 {generation} 代',
+      unnamed: '书中未具名',
+      notInCatalog: '人物目录尚未收录此人物。',
+      roles: {
+        husband: '夫',
+        wife: '妻',
+        concubine: '妾',
+      },
+      legendWife: '正室',
+      legendConcubine: '妾室',
+      legendChild: '子女',
+    },
+    highlights: {
+      colorLabel: '划线颜色',
+      categoryLabel: '划线分类',
+      colors: {
+        yellow: '黄色',
+        green: '绿色',
+        blue: '蓝色',
+        pink: '粉红色',
+        purple: '紫色',
+      },
+      categories: {
+        general: '一般',
+        character: '人物',
+        poetry: '诗词',
+        foreshadowing: '伏笔',
+        question: '疑问',
+      },
+      overlapTitle: '已有划线',
+      overlapDesc: '选取的文字与现有划线重叠，请先删除原划线。',
+      saveFailed: '划线保存失败，请稍后再试。',
+    },
+    bookSearch: {
+      wholeBook: '全书搜索',
+      searching: '搜索中…',
+      resultCount: '全书共 {count} 处结果',
+      moreResults: '仅显示前 {shown} 条',
+      noResults: '全书找不到相符的文字。',
+      error: '搜索失败，请稍后再试。',
+      variantHint: '繁简字皆可搜索',
+      fields: {
+        original: '原文',
+        vernacular: '白话',
+        annotation: '注释',
+      },
+    },
+    editions: {
+      buttonLabel: '版本',
+      title: '选择版本',
+      description: '同一回在不同版本中的文字可能不同，可切换阅读或并排校勘。',
+      standard: { name: '通行本', description: '现代校注本，前八十回以脂本为底本，后四十回据程本。' },
+      gengchen: { name: '庚辰本', description: '脂砚斋重评石头记抄本，存七十八回（缺第六十四、六十七回）。' },
+      chengjia: { name: '程甲本', description: '乾隆五十六年（1791）萃文书屋首次排印的一百二十回本。' },
+      chengyi: { name: '程乙本', description: '乾隆五十七年（1792）程伟元、高鹗修订重印的一百二十回本。' },
+      notInEdition: '此版本未收录本回',
+      compareWith: '对照版本',
+      openCollation: '并排校勘',
+      collationTitle: '版本校勘',
+      collationDesc: '{base} 与 {witness} 第 {number} 回对照，标示两本文字相异之处。',
+      variantCount: '共 {count} 处异文',
+      showVariantsOnly: '只显示有异文的段落',
+      showAllParagraphs: '显示全部段落',
+      noVariants: '两个版本本回文字相同。',
+      paragraphMissing: '（此本无此段）',
+      noOtherEdition: '本回目前没有其他版本可供对照。',
+      collationLoadError: '对照版本载入失败，请稍后再试。',
+    },
     bookShelf: {
       hlmtimesedition: {
         title: '红楼梦上中下三册',
@@ -1302,6 +1725,10 @@ export const translations: Record<Language, Translations> = {
       singleColumn: 'Single',
       doubleColumn: 'Double',
       tripleColumn: 'Triple',
+      verticalText: 'Vertical',
+      verticalTextHint: 'Traditional vertical text, read right to left',
+      parallelReading: 'Parallel',
+      parallelReadingHint: 'Original and vernacular side by side, sentence by sentence',
       hideVernacular: 'Hide Vern.',
       showVernacular: 'Show Vern.',
       knowledgeGraph: 'Graph',
@@ -1395,6 +1822,8 @@ export const translations: Record<Language, Translations> = {
     sidebar: {
       home: 'Home',
       read: 'Read',
+      poetry: 'Poetry',
+      genealogy: 'Family Trees',
       achievements: 'Achievements',
       community: 'Community',
     },
@@ -1469,6 +1898,10 @@ export const translations: Record<Language, Translations> = {
       myLearningGoalsDesc: 'Track your personal learning goals and stay motivated.',
       manageAllGoals: 'Manage All Goals',
       continueReading: 'Continue Reading',
+      recentReadingBook: 'Dream of the Red Chamber ({edition})',
+      recentReadingChapter: 'Reached chapter {number}',
+      recentReadingEmpty: 'No reading history yet. Once you start reading, your place will be remembered here.',
+      startReading: 'Start Reading',
     },
     read: {
       myShelf: 'My Shelf',
@@ -1657,6 +2090,8 @@ export const translations: Record<Language, Translations> = {
     readBook: {
       knowledgeGraphSheetTitle: 'Chapter Knowledge Graph',
       knowledgeGraphSheetDesc: 'Displays relationships between main concepts in this chapter. (Simulated graph, actual graph generated dynamically).',
+      knowledgeGraphScopeChapter: 'This chapter',
+      knowledgeGraphScopeCumulative: 'Chapters 1 to here',
       tocSheetTitle: 'Table of Contents',
       tocSheetDesc: 'Select a chapter to navigate quickly.',
       noteSheetTitle: 'Write Note',
@@ -1669,6 +2104,11 @@ export const translations: Record<Language, Translations> = {
       errorAIExplain: 'An error occurred while asking the AI.',
       errorAIMissingOutput: 'The AI model failed to generate a valid text explanation.',
       errorAIContextAnalysis: 'The AI model failed to generate a valid context analysis.',
+      chapterFallbackTitle: 'Chapter {number}',
+      chapterNotAvailable: 'Not yet available',
+      chapterNotAvailableDesc: 'The text of Chapter {number} has not been added to the library yet.',
+      chapterLoading: 'Loading chapter...',
+      chapterLoadError: 'Failed to load this chapter. Please try again later.',
     },
     notes: {
       dashboard: 'Notes Dashboard',
@@ -1738,6 +2178,255 @@ export const translations: Record<Language, Translations> = {
       page: 'Page',
       of: 'of',
     },
+    readAloud: {
+      playerLabel: 'Read-aloud player',
+      play: 'Play',
+      pause: 'Pause',
+      stop: 'Stop',
+      speed: 'Speed',
+      sourceOriginal: 'Original',
+      sourceVernacular: 'Vernacular',
+      idleHint: 'Press play to hear this chapter, or select text and choose "Listen".',
+      unsupported: 'Speech synthesis is not supported in this browser.',
+      noVernacular: 'This chapter has no vernacular text to read yet.',
+      playParagraph: 'Read this paragraph',
+    },
+    annotations: {
+      title: 'Annotation Sources',
+      description: 'Choose which annotations are marked in the text. Click dotted text to read every annotation on it.',
+      count: '{count} notes',
+      panelTitle: 'Annotations',
+      panelDesc: '{count} annotations on this passage',
+      loadError: 'Failed to load annotations. Please try again later.',
+      sources: {
+        editorial: {
+          name: 'Editorial Notes',
+          badge: 'Ed',
+          description: 'Explanations of words, allusions and objects',
+        },
+        zhiyanzhai: {
+          name: 'Zhiyanzhai Commentary',
+          badge: 'Zhi',
+          description: 'Comments recorded in the Jiaxu, Gengchen and other Zhiyanzhai manuscripts',
+        },
+        scholar: {
+          name: 'Modern Scholarship',
+          badge: 'Sch',
+          description: 'Research and criticism by modern scholars',
+        },
+      },
+      positions: {
+        interlinear: 'Interlinear comment',
+        marginal: 'Marginal comment',
+        'chapter-head': 'Chapter-opening comment',
+        'chapter-end': 'Chapter-closing comment',
+      },
+    },
+    offline: {
+      saveChapter: 'Save offline',
+      saveChapterHint: 'Download this chapter\'s text, annotations and knowledge graph to read without a connection',
+      chapterSaved: '{title} is available offline',
+      chapterSaveFailed: 'Could not download this chapter. Please try again later',
+      offline: 'Offline',
+      offlineHint: 'You are offline: notes, highlights and XP are kept on this device and sync when you reconnect',
+      pending: '{count} to sync',
+      savedOffline: 'You are offline. Saved on this device; it will sync when you reconnect',
+      syncedTitle: 'Synced',
+      syncedDesc: '{count} offline changes synced',
+      conflictTitle: 'Note sync conflict',
+      conflictDesc: '{count} note(s) were changed on another device. Your offline version was saved as a separate note so both versions are kept',
+      syncFailed: '{count} offline changes could not be synced and were discarded',
+    },
+    export: {
+      button: 'Export',
+      buttonHint: 'Export the text with your notes and highlights as EPUB, PDF or Markdown',
+      title: 'Export notes and text',
+      description: 'Export the chapter text together with your notes and highlights',
+      signedOutDescription: 'Sign in to include your notes and highlights; only the text will be exported',
+      scopeLabel: 'Scope',
+      scopes: {
+        chapter: 'This chapter',
+        range: 'Chapter range',
+        book: 'Whole book',
+      },
+      rangeFrom: 'First chapter',
+      rangeTo: 'Last chapter',
+      rangeHint: 'chapters',
+      formatLabel: 'Format',
+      formats: {
+        markdown: 'Markdown',
+        epub: 'EPUB',
+        pdf: 'PDF',
+      },
+      pdfHint: 'A4 pages ready to print, set in the PDF viewer\'s built-in Chinese font',
+      notePlacementLabel: 'Notes',
+      notePlacements: {
+        inline: 'After each paragraph',
+        endnotes: 'As endnotes',
+      },
+      confirm: 'Export',
+      exporting: 'Exporting…',
+      done: 'Exported {count} chapter(s)',
+      failed: 'Export failed. Please try again later',
+      nothingToExport: 'No chapters in the selected range are available yet',
+      bookTitle: 'Dream of the Red Chamber',
+      notesHeading: 'Notes',
+      contentsHeading: 'Contents',
+    },
+    dictionary: {
+      button: 'Dictionary',
+      buttonHint: 'Look up the selected text in the built-in dictionary',
+      title: 'Dictionary',
+      loading: 'Loading dictionary…',
+      loadFailed: 'The dictionary could not be loaded. Please try again later.',
+      segmentation: 'Word segmentation',
+      noEntries: 'No dictionary entries were found for this text.',
+      usage: 'Usage',
+      addedToVocabulary: 'Added to your vocabulary list.',
+      vocabularyTitle: 'Vocabulary',
+      vocabularyDesc: 'Words you have looked up while reading',
+      vocabularyEmpty: 'You have not looked up any words yet. Select text while reading and choose Dictionary.',
+      lookupCount: 'Looked up {count} times',
+      chapterLabel: 'Chapter {chapter}',
+      remove: 'Remove from vocabulary',
+      removeFailed: 'Could not remove this word',
+    },
+    ruby: {
+      title: 'Pronunciation',
+      modes: {
+        off: 'Off',
+        pinyin: 'Pinyin',
+        zhuyin: 'Zhuyin',
+      },
+      levelLabel: 'Annotate',
+      levels: {
+        1: 'All',
+        2: 'Level 2+',
+        3: 'Level 3+',
+        4: 'Rare only',
+      },
+      levelHints: {
+        1: 'Show the reading of every character',
+        2: 'Skip the most common characters',
+        3: 'Only less common characters',
+        4: 'Only rare characters',
+      },
+    },
+    characters: {
+      aliases: 'Also called',
+      firstAppearance: 'First appears: Chapter {chapter}',
+      bio: 'Profile',
+      related: 'Relationships in the knowledge graph',
+      relatedLoading: 'Loading the knowledge graph…',
+      relatedEmpty: 'This chapter\'s knowledge graph has no relationships for this character.',
+      openGraph: 'Open knowledge graph',
+      spoilerNote: 'Only shows what happens up to Chapter {chapter}, to avoid spoilers.',
+      mentionHint: 'View character card',
+      loadError: 'Failed to load the character catalog; names are not tagged for now.',
+      appearances: 'Appears in',
+      appearanceChapter: 'Chapter {chapter}',
+      appearancesEmpty: 'Not named in the chapters read so far.',
+    },
+    poetry: {
+      title: 'Poetry Catalogue',
+      description: 'The poems, songs, lyrics and fate verses of the novel, by chapter, author and form, with notes.',
+      allChapters: 'All chapters',
+      chapter: 'Chapter {chapter}',
+      allAuthors: 'All authors',
+      allForms: 'All forms',
+      clearFilters: 'Clear filters',
+      count: '{count} poems',
+      empty: 'No poems match these filters.',
+      notes: 'Notes',
+      loadError: 'Failed to load the poetry catalogue. Please try again later.',
+      lockedTitle: 'Poetry catalogue locked',
+      lockedDesc: 'Reach level {levelNumber}, {level}, to be invited to the poetry club and read the novel\'s poems.',
+      forms: {
+        regulated: 'Regulated verse',
+        quatrain: 'Quatrain',
+        ancient: 'Ancient-style verse',
+        song: 'Song',
+        ci: 'Ci lyric',
+        qu: 'Qu lyric',
+        judgement: 'Fate verse',
+        couplet: 'Couplet',
+      },
+    },
+    genealogy: {
+      title: 'Family Trees of the Four Great Houses',
+      description: 'Generations, marriages and the Ningguo and Rongguo branches of the Jia, Shi, Wang and Xue families. Select a person for their character card and chapter appearances.',
+      loadError: 'Failed to load the family trees. Please try again later.',
+      empty: 'The novel has not introduced anyone of this family yet.',
+      spoilerNote: 'Only shows the people and marriages introduced up to Chapter {chapter}, to avoid spoilers.',
+      treeLabel: 'Family tree of the {family}',
+      generation: 'Generation {generation}',
+      unnamed: 'Not named in the novel',
+      notInCatalog: 'This person is not in the character catalog yet.',
+      roles: {
+        husband: 'Husband',
+        wife: 'Wife',
+        concubine: 'Concubine',
+      },
+      legendWife: 'Wife',
+      legendConcubine: 'Concubine',
+      legendChild: 'Children',
+    },
+    highlights: {
+      colorLabel: 'Highlight colour',
+      categoryLabel: 'Highlight category',
+      colors: {
+        yellow: 'Yellow',
+        green: 'Green',
+        blue: 'Blue',
+        pink: 'Pink',
+        purple: 'Purple',
+      },
+      categories: {
+        general: 'General',
+        character: 'Character',
+        poetry: 'Poetry',
+        foreshadowing: 'Foreshadowing',
+        question: 'Question',
+      },
+      overlapTitle: 'Already highlighted',
+      overlapDesc: 'The selection overlaps an existing highlight. Delete that highlight first.',
+      saveFailed: 'Could not save the highlight. Please try again later.',
+    },
+    bookSearch: {
+      wholeBook: 'Search whole book',
+      searching: 'Searching…',
+      resultCount: '{count} results in the whole book',
+      moreResults: 'Showing the first {shown}',
+      noResults: 'No matching text in the book.',
+      error: 'Search failed. Please try again later.',
+      variantHint: 'Traditional and Simplified characters both match',
+      fields: {
+        original: 'Original',
+        vernacular: 'Vernacular',
+        annotation: 'Annotation',
+      },
+    },
+    editions: {
+      buttonLabel: 'Edition',
+      title: 'Choose Edition',
+      description: 'The same chapter can read differently across editions. Switch editions or collate them side by side.',
+      standard: { name: 'Standard Edition', description: 'Modern annotated text: chapters 1-80 follow the Zhiyan manuscripts, 81-120 the Cheng-Gao prints.' },
+      gengchen: { name: 'Gengchen Manuscript', description: 'Zhiyanzhai commentary manuscript, 78 chapters surviving (chapters 64 and 67 missing).' },
+      chengjia: { name: 'Cheng A Edition', description: 'First 120-chapter movable-type printing, 1791.' },
+      chengyi: { name: 'Cheng B Edition', description: 'Revised 120-chapter reprint by Cheng Weiyuan and Gao E, 1792.' },
+      notInEdition: 'Not in this edition',
+      compareWith: 'Compare with',
+      openCollation: 'Collate side by side',
+      collationTitle: 'Edition Collation',
+      collationDesc: 'Chapter {number} in {base} and {witness}, with differing readings marked.',
+      variantCount: '{count} variant readings',
+      showVariantsOnly: 'Only paragraphs with variants',
+      showAllParagraphs: 'Show all paragraphs',
+      noVariants: 'Both editions read the same in this chapter.',
+      paragraphMissing: '(Paragraph absent in this edition)',
+      noOtherEdition: 'No other edition of this chapter is available for comparison yet.',
+      collationLoadError: 'Failed to load the comparison edition. Please try again later.',
+    },
     bookShelf: {
         hlmtimesedition: {
             title: 'Dream of the Red Chamber (3 Vol. Set)',
@@ -0,0 +1,102 @@
+/**
+ * @fileOverview Service functions for a reader's vocabulary list in Firestore.
+ *
+ * Every dictionary lookup on the reading page is recorded here: one document
+ * per user and headword (`vocabulary/{userId}_{headword}`) keeping the entry's
+ * reading and first definition, how often the reader looked it up, and where
+ * they last met it. The notes dashboard lists the words most recently looked up.
+ */
+
+import { db } from './firebase';
+import { collection, deleteDoc, doc, getDoc, getDocs, increment, query, setDoc, updateDoc, where, Timestamp } from 'firebase/firestore';
+import type { DictionaryEntry } from '@/types/dictionary';
+
+// Type definition for a word in a user's vocabulary list
+export interface VocabularyEntry {
+  id?: string; // Firestore document ID (`{userId}_{headword}`)
+  userId: string; // User's unique ID
+  word: string; // Headword in Traditional characters
+  simplified: string; // Headword in Simplified characters
+  pinyin: string; // Numbered-tone pinyin
+  definition: string; // First definition (zh-TW), or English gloss of CC-CEDICT words
+  lookupCount: number; // Number of times the user looked the word up
+  chapterId?: number; // Chapter of the most recent lookup
+  context?: string; // Selected text of the most recent lookup
+  firstLookedUpAt: Date; // When the word was first looked up
+  lastLookedUpAt: Date; // When the word was last looked up
+}
+
+/** Where a lookup happened */
+export interface LookupContext {
+  chapterId?: number;
+  selectedText?: string;
+}
+
+const VOCABULARY_COLLECTION = 'vocabulary';
+
+const getVocabularyDocId = (userId: string, word: string) => `${userId}_${word}`;
+
+const fromFirestore = (id: string, data: Record<string, any>): VocabularyEntry => ({
+  id,
+  userId: data.userId,
+  word: data.word,
+  simplified: data.simplified ?? data.word,
+  pinyin: data.pinyin ?? '',
+  definition: data.definition ?? '',
+  lookupCount: data.lookupCount ?? 1,
+  chapterId: data.chapterId ?? undefined,
+  context: data.context ?? undefined,
+  firstLookedUpAt: data.firstLookedUpAt?.toDate?.() ?? new Date(0),
+  lastLookedUpAt: data.lastLookedUpAt?.toDate?.() ?? new Date(0),
+});
+
+/**
+ * Record that a user looked a word up. The first lookup adds the word to the
+ * user's vocabulary list; later lookups count up and update the context.
+ * @param userId - The user's unique ID
+ * @param entry - Dictionary entry that was shown
+ * @param context - Chapter and selection the word was looked up from
+ */
+export async function recordLookup(userId: string, entry: DictionaryEntry, context: LookupContext = {}) {
+  const wordRef = doc(db, VOCABULARY_COLLECTION, getVocabularyDocId(userId, entry.traditional));
+  const lookup = {
+    chapterId: context.chapterId ?? null,
+    context: context.selectedText ?? null,
+    lastLookedUpAt: Timestamp.now(),
+  };
+
+  const snapshot = await getDoc(wordRef);
+  if (snapshot.exists()) {
+    await updateDoc(wordRef, { ...lookup, lookupCount: increment(1) });
+    return;
+  }
+  await setDoc(wordRef, {
+    userId,
+    word: entry.traditional,
+    simplified: entry.simplified,
+    pinyin: entry.pinyin,
+    definition: entry.definitions[0] ?? entry.english?.[0] ?? '',
+    lookupCount: 1,
+    firstLookedUpAt: lookup.lastLookedUpAt,
+    ...lookup,
+  });
+}
+
+/**
+ * Fetch a user's vocabulary list, most recently looked up first.
+ * @param userId - The user's unique ID
+ */
+export async function getVocabularyByUser(userId: string): Promise<VocabularyEntry[]> {
+  const q = query(collection(db, VOCABULARY_COLLECTION), where('userId', '==', userId));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs
+    .map(wordDoc => fromFirestore(wordDoc.id, wordDoc.data()))
+    .sort((a, b) => b.lastLookedUpAt.getTime() - a.lastLookedUpAt.getTime());
+}
+
+/**
+ * Remove a word from a user's vocabulary list.
+ */
+export async function deleteVocabularyEntry(userId: string, word: string) {
+  await deleteDoc(doc(db, VOCABULARY_COLLECTION, getVocabularyDocId(userId, word)));
+}
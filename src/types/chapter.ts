@@ -0,0 +1,295 @@
+/**
+ * @fileOverview Type definitions for the chapter text corpus
+ *
+ * The reading page no longer embeds chapter text. Each chapter is stored as one
+ * JSON file under `src/app/(main)/read/chapterText/chapter{N}.json` (next to the
+ * knowledge graph files in `chapterGraph/`) and served by
+ * `GET /api/chapters/[chapterNumber]`.
+ *
+ * On-disk format (`ChapterJson`):
+ * ```json
+ * {
+ *   "id": 1,
+ *   "title": "第一回 甄士隱夢幻識通靈 賈雨村風塵懷閨秀",
+ *   "titleKey": "chapterContent.ch1.title",
+ *   "summary": "本回主要講述了……",
+ *   "paragraphs": [
+ *     {
+ *       "id": "ch1-p2",
+ *       "content": [
+ *         "卻說那",
+ *         { "id": "ch1-p2-anno-nuwa", "text": "女媧氏煉石補天", "note": "古代神話……" },
+ *         "之時……"
+ *       ],
+ *       "vernacular": "（白話文）……"
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * All text is stored in Traditional Chinese (zh-TW); other languages are derived
+ * at render time. Translation keys are optional and only needed when a chapter
+ * has hand-written translated metadata in `src/lib/translations.ts`.
+ *
+ * Files directly under `chapterText/` are the default reading text (通行本).
+ * Historical editions live in `chapterText/editions/{editionId}/chapter{N}.json`
+ * using the same format, so one chapter can exist in several editions.
+ *
+ * Paragraphs may carry a sentence-level `alignment` with their vernacular
+ * rendering for the parallel reading mode; without it the reader aligns
+ * sentences automatically (see `sentence-alignment.ts`).
+ *
+ * A chapter may list `readings`, context-specific pronunciations of
+ * polyphonic characters (多音字) for the pinyin / zhuyin ruby mode; every other
+ * character is read as in `character-readings.ts`.
+ *
+ * Poems quoted in the text (《好了歌》, 判詞, poetry-club verses) are listed in
+ * the chapter's `poems`, each pointing at the paragraph that holds it. The
+ * reading page lays them out line by line and the poetry catalogue
+ * (`GET /api/poems`) collects them from every chapter.
+ *
+ * Annotations are a separate dataset in `chapterAnnotations/chapter{N}.json`
+ * (`ChapterAnnotationsJson`), anchored to spans of the text rather than embedded
+ * in it, and served by `GET /api/chapters/[chapterNumber]/annotations`. Inline
+ * `Annotation` objects in `content` are still accepted and treated as editorial notes.
+ */
+
+/**
+ * Identifier of a text edition
+ * 版本代號：通行本、庚辰本、程甲本、程乙本
+ */
+export type EditionId = 'standard' | 'gengchen' | 'chengjia' | 'chengyi';
+
+/**
+ * Inline annotation attached to a span of original text (legacy format;
+ * new annotations belong in the annotation dataset, see `ChapterAnnotation`)
+ * 原文中的註釋
+ */
+export interface Annotation {
+  /** Stable identifier, conventionally `ch{N}-p{M}-anno-{slug}` */
+  id: string;
+  /** Annotated span of original text (zh-TW) */
+  text: string;
+  /** Annotation body (zh-TW) */
+  note: string;
+}
+
+/**
+ * A run of original sentences and the vernacular sentences that render it.
+ * Ranges are `[first, last)` indexes into the paragraph's sentences as split
+ * by `splitIntoSentences`; consecutive pairs cover both texts in order.
+ * 原文與白話的句子對應
+ */
+export interface SentenceAlignment {
+  original: [number, number];
+  vernacular: [number, number];
+}
+
+/**
+ * One paragraph of original text plus its vernacular rendering
+ * 原文段落與白話譯文
+ */
+export interface Paragraph {
+  /** Stable paragraph identifier, conventionally `ch{N}-p{M}` (1-based) */
+  id: string;
+  /** Original text, interleaved with annotated spans (zh-TW) */
+  content: Array<string | Annotation>;
+  /** Vernacular (白話文) rendering of the whole paragraph (zh-TW) */
+  vernacular?: string;
+  /** Sentence-level alignment of `content` with `vernacular`; computed when absent */
+  alignment?: SentenceAlignment[];
+}
+
+/**
+ * Pronunciation of a phrase wherever it occurs, overriding the default
+ * character readings (e.g. 鼓樂 gu3 yue4 rather than le4)
+ * 多音字讀音校訂
+ */
+export interface ReadingOverride {
+  /** Phrase of original text (zh-TW) */
+  text: string;
+  /** Numbered-tone pinyin, one syllable per character of `text` */
+  pinyin: string;
+  /** Restrict the override to one paragraph; applies chapter-wide when absent */
+  paragraphId?: string;
+}
+
+/**
+ * Verse form of a poem
+ * 詩體：律詩、絕句、古體詩、歌行、詞、曲、判詞、對聯
+ */
+export type PoemForm = 'regulated' | 'quatrain' | 'ancient' | 'song' | 'ci' | 'qu' | 'judgement' | 'couplet';
+
+/**
+ * A note on a phrase of a poem
+ * 詩詞注釋
+ */
+export interface PoemNote {
+  /** Phrase of the poem the note explains (zh-TW) */
+  quote: string;
+  /** Note body (zh-TW) */
+  note: string;
+}
+
+/**
+ * A poem quoted in a paragraph of the chapter
+ * 回中詩詞
+ */
+export interface ChapterPoem {
+  /** Stable identifier, conventionally `ch{N}-poem-{slug}` */
+  id: string;
+  /** Title without book-title marks, e.g. 好了歌 (zh-TW) */
+  title: string;
+  form: PoemForm;
+  /** Character catalog id of the character who composes or recites the poem */
+  authorId?: string;
+  /** Paragraph holding the poem */
+  paragraphId: string;
+  /** The verse exactly as it appears in the paragraph, without enclosing quotation marks (zh-TW) */
+  text: string;
+  notes?: PoemNote[];
+}
+
+/**
+ * A chapter as stored on disk. Paragraph ids may be omitted in the file;
+ * the loader assigns `ch{N}-p{M}` in document order.
+ */
+export interface ChapterJson {
+  /** Chapter number, 1-120 */
+  id: number;
+  /** Full chapter title (zh-TW), e.g. 「第一回 …」 */
+  title: string;
+  /** Optional subtitle (zh-TW) */
+  subtitle?: string;
+  /** Optional chapter summary (zh-TW) */
+  summary?: string;
+  /** Optional translation keys that override the zh-TW metadata above */
+  titleKey?: string;
+  subtitleKey?: string;
+  summaryKey?: string;
+  /** Context-specific readings for the ruby mode */
+  readings?: ReadingOverride[];
+  /** Poems quoted in the chapter's paragraphs */
+  poems?: ChapterPoem[];
+  paragraphs: Array<Omit<Paragraph, 'id'> & { id?: string }>;
+}
+
+/**
+ * A validated chapter ready for rendering
+ */
+export interface Chapter extends Omit<ChapterJson, 'paragraphs'> {
+  paragraphs: Paragraph[];
+  /** Edition this text belongs to; absent means the default edition */
+  edition?: EditionId;
+}
+
+/**
+ * Descriptive metadata for an edition
+ * 版本資訊
+ */
+export interface EditionInfo {
+  id: EditionId;
+  /** Translation key for the edition name */
+  nameKey: string;
+  /** Translation key for a one-line description */
+  descriptionKey: string;
+  /** Number of chapters the edition was printed or copied with (80 or 120) */
+  chapterCount: number;
+  /** Chapters missing from the surviving witness, e.g. 庚辰本 lacks 64 and 67 */
+  missingChapters: number[];
+}
+
+/**
+ * Table-of-contents entry returned by `GET /api/chapters`
+ * 目錄條目
+ */
+export interface ChapterIndexEntry {
+  /** Chapter number, 1-120 */
+  id: number;
+  /** Whether the corpus contains this chapter's text */
+  available: boolean;
+  /** Chapter title (zh-TW) when available */
+  title?: string;
+  /** Translation key for the title when the chapter defines one */
+  titleKey?: string;
+  /** Number of paragraphs when available */
+  paragraphCount?: number;
+  /** Editions whose text for this chapter exists in the corpus */
+  editions?: EditionId[];
+}
+
+/**
+ * Position of a span of original text within a chapter
+ * 文字位置錨點
+ */
+export interface TextAnchor {
+  /** Paragraph holding the span, e.g. `ch3-p12` */
+  paragraphId: string;
+  /** Offset of the first character in the paragraph's original text */
+  startOffset: number;
+  /** Offset just past the last character */
+  endOffset: number;
+  /** Text immediately before the span */
+  prefix: string;
+  /** Text immediately after the span */
+  suffix: string;
+}
+
+/**
+ * Where an annotation comes from
+ * 註釋來源：編者注釋、脂硯齋評語、今人評論
+ */
+export type AnnotationSourceId = 'editorial' | 'zhiyanzhai' | 'scholar';
+
+/**
+ * Where a manuscript comment is written on the page
+ * 批語位置：夾批、眉批、回前批、回後批
+ */
+export type CommentaryPosition = 'interlinear' | 'marginal' | 'chapter-head' | 'chapter-end';
+
+/**
+ * Descriptive metadata for an annotation source
+ * 註釋來源資訊
+ */
+export interface AnnotationSourceInfo {
+  id: AnnotationSourceId;
+  /** Translation key for the source name */
+  nameKey: string;
+  /** Translation key for a one-character badge shown in the text */
+  badgeKey: string;
+  /** Translation key for a one-line description */
+  descriptionKey: string;
+}
+
+/**
+ * An annotation anchored to a span of chapter text
+ * 錨定於原文的註釋
+ */
+export interface ChapterAnnotation {
+  /** Stable identifier, conventionally `ch{N}-{source}-{slug}` */
+  id: string;
+  source: AnnotationSourceId;
+  /** Annotated span of original text (zh-TW) as it read when annotated */
+  quote: string;
+  /** Position of the span in the default edition's text */
+  anchor: TextAnchor;
+  /** Annotation body (zh-TW) */
+  note: string;
+  /** Commentator or scholar, e.g. 脂硯齋, 胡適 */
+  author?: string;
+  /** Work the note is taken from, e.g. 《紅樓夢考證》 */
+  work?: string;
+  /** Manuscript the comment is recorded in, e.g. 甲戌本 */
+  witness?: string;
+  /** Placement of a manuscript comment */
+  position?: CommentaryPosition;
+}
+
+/**
+ * Annotation dataset for one chapter as stored on disk
+ */
+export interface ChapterAnnotationsJson {
+  /** Chapter number, 1-120 */
+  chapterId: number;
+  annotations: ChapterAnnotation[];
+}
@@ -0,0 +1,103 @@
+/**
+ * @fileOverview Type definitions for the character catalog
+ *
+ * The catalog is one JSON file, `src/app/(main)/read/characters/characters.json`
+ * (`CharacterCatalogJson`), served by `GET /api/characters`. It lists each
+ * person of the novel once with every name the text calls them by, so 黛玉,
+ * 林黛玉, 顰兒 and 絳珠仙子 all point to the same character card.
+ *
+ * Names, aliases and profiles are staged by chapter so the reading page never
+ * shows more than the reader has read: an alias is only recognised from the
+ * chapter it is introduced in, and a card shows the latest profile the reader
+ * has reached. Text is Traditional Chinese (zh-TW), like the chapter corpus.
+ */
+
+/**
+ * A name the text uses for a character
+ * 稱謂
+ */
+export interface CharacterAlias {
+  /** Name as written in the text, at least two characters */
+  text: string;
+  /** First chapter the name refers to this character; defaults to the first appearance */
+  fromChapter?: number;
+}
+
+/**
+ * What the reader knows about a character from a given chapter on
+ * 人物簡介（依回目分段）
+ */
+export interface CharacterProfileStage {
+  /** First chapter this profile applies to */
+  fromChapter: number;
+  /** Name shown on the card from this chapter on; defaults to the character's name */
+  name?: string;
+  /** Short biography (zh-TW) using only what the text has told by this chapter */
+  bio: string;
+}
+
+/**
+ * One person of the novel
+ * 人物
+ */
+export interface CatalogCharacter {
+  /** Stable identifier, e.g. `lin-daiyu` */
+  id: string;
+  /** Name the character is best known by */
+  name: string;
+  /** Every name tagged in the text, including `name` itself where it appears */
+  aliases: CharacterAlias[];
+  /** Where the character first appears */
+  firstAppearance: {
+    chapter: number;
+    /** Paragraph of the first appearance, when the chapter text has it */
+    paragraphId?: string;
+  };
+  /** Profiles in chapter order; the first applies from the first appearance */
+  profile: CharacterProfileStage[];
+  /** Names of this character's nodes in the chapter knowledge graphs */
+  graphEntities: string[];
+}
+
+/**
+ * On-disk format of the character catalog
+ */
+export interface CharacterCatalogJson {
+  version: number;
+  characters: CatalogCharacter[];
+  /** Words that contain an alias but never name a character, e.g. 通靈寶玉 */
+  nonNames?: string[];
+}
+
+/**
+ * A run of paragraph text naming a character
+ * 文中提及的人物
+ */
+export interface CharacterMention {
+  characterId: string;
+  /** Offsets of the name in the paragraph's original text */
+  start: number;
+  end: number;
+}
+
+/**
+ * A knowledge-graph node connected to a character in a chapter graph
+ */
+export interface RelatedGraphNode {
+  /** Name of the connected node */
+  name: string;
+  /** Relationship as written in the graph, e.g. 資助 */
+  relationship: string;
+  /** Whether the character is the subject (`outgoing`) or the object of the relationship */
+  direction: 'outgoing' | 'incoming';
+}
+
+/**
+ * Chapters each character is named in, collected from the chapter text;
+ * served by `GET /api/characters/appearances`
+ * 人物出場回目
+ */
+export interface CharacterAppearancesJson {
+  /** Chapter numbers in ascending order, by character id */
+  appearances: Record<string, number[]>;
+}
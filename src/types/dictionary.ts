@@ -0,0 +1,66 @@
+/**
+ * @fileOverview Type definitions for the bundled reading dictionary
+ *
+ * The dictionary is two JSON files (`DictionaryJson`) in
+ * `src/app/(main)/read/dictionary/`: the hand-edited `dictionary.json` and a
+ * selection of CC-CEDICT, `cedict.json`, served together by `GET /api/dictionary`.
+ * Headwords are stored in both scripts; pinyin uses numbered tones
+ * (`yu4 gan1 yan4 fei2`) and is turned into tone marks for display.
+ * Definitions and usage quotes are Traditional Chinese (zh-TW), like the
+ * chapter corpus; CC-CEDICT entries have English glosses only.
+ */
+
+/**
+ * A quotation showing a word in classical use
+ * 古籍用例
+ */
+export interface DictionaryUsage {
+  /** Quoted passage (zh-TW) */
+  text: string;
+  /** Work the passage comes from, e.g. 《孟子·梁惠王上》 */
+  source: string;
+}
+
+/**
+ * One headword of the dictionary
+ * 詞條
+ */
+export interface DictionaryEntry {
+  /** Headword in Traditional characters */
+  traditional: string;
+  /** Headword in Simplified characters, same length as `traditional` */
+  simplified: string;
+  /** Numbered-tone pinyin, one syllable per character */
+  pinyin: string;
+  /** Definitions (zh-TW), most common sense first; empty for entries with English glosses only */
+  definitions: string[];
+  /** English glosses */
+  english?: string[];
+  /** Classical usage quotations */
+  usage?: DictionaryUsage[];
+}
+
+/**
+ * On-disk format of the dictionary dataset
+ */
+export interface DictionaryJson {
+  name: string;
+  version: number;
+  license: string;
+  /** Credit the licence asks for, for data taken from elsewhere */
+  attribution?: string;
+  entries: DictionaryEntry[];
+}
+
+/**
+ * A run of looked-up text and the entries whose headword it is. Runs with no
+ * entry (punctuation, characters missing from the dictionary) have none.
+ * 切分後的詞語
+ */
+export interface DictionarySegment {
+  text: string;
+  /** Offset of the run in the looked-up text */
+  start: number;
+  end: number;
+  entries: DictionaryEntry[];
+}
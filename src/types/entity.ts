@@ -0,0 +1,60 @@
+/**
+ * @fileOverview Type definitions for the entity catalog
+ *
+ * The catalog is one JSON file, `src/app/(main)/read/entities/entities.json`
+ * (`EntityCatalogJson`). It types the nodes of the knowledge graphs: each
+ * entry gives an entity's type, category, importance and family or faction,
+ * and chapter graphs reference entries by id (`entityId`, or `characterId`
+ * for people). It also lists every name the chapter graphs use for the same
+ * place, object, text or idea, so 石頭, 補天石 and 通靈寶玉 become one node
+ * when chapter graphs are merged; people are merged with the character catalog.
+ *
+ * Names are Traditional Chinese (zh-TW), like the chapter corpus.
+ */
+
+import type { GraphEntityType } from './graph';
+
+/**
+ * How prominent an entity is in the novel
+ * 重要性
+ */
+export type EntityImportance = 'primary' | 'secondary' | 'tertiary';
+
+/**
+ * Who an object belongs to, from the chapter the text reveals it
+ * 物品的主人
+ */
+export interface EntityOwner {
+  characterId: string;
+  /** First chapter the text ties the object to the character */
+  fromChapter: number;
+}
+
+/**
+ * A person, place, object, text or idea of the novel
+ * 實體
+ */
+export interface CatalogEntity {
+  /** Stable identifier, e.g. `tongling-baoyu`; people use their character catalog id */
+  id: string;
+  /** Name the entity is best known by */
+  name: string;
+  /** Other names the chapter graphs use for it */
+  aliases: string[];
+  type: GraphEntityType;
+  /** Category the graph view styles it by, e.g. 神話地點 */
+  category: string;
+  importance: EntityImportance;
+  /** Family or faction, e.g. 賈府 */
+  faction?: string;
+  /** Character the entity belongs to, e.g. 賈寶玉's jade */
+  owner?: EntityOwner;
+}
+
+/**
+ * On-disk format of the entity catalog
+ */
+export interface EntityCatalogJson {
+  version: number;
+  entities: CatalogEntity[];
+}
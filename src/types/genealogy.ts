@@ -0,0 +1,105 @@
+/**
+ * @fileOverview Type definitions for the genealogy of the four great families
+ *
+ * The genealogy is one JSON file, `src/app/(main)/read/genealogy/genealogy.json`
+ * (`GenealogyJson`), served by `GET /api/genealogy`. It records the kinship of
+ * the 賈, 史, 王 and 薛 houses as data: who each person's parents are, which
+ * generation they belong to, and who is married to whom as wife or concubine.
+ * The family tree view (`src/components/FamilyTree.tsx`) is laid out from it.
+ *
+ * People of the character catalog take their catalog id as `id`, so the tree
+ * opens their character card. Every person and union carries the chapter that
+ * reveals it, so the tree never shows more than the reader has read.
+ * Names are Traditional Chinese (zh-TW), like the chapter corpus.
+ */
+
+/**
+ * One of the houses the tree is drawn for
+ * 家族
+ */
+export interface GenealogyFamily {
+  /** e.g. `jia` */
+  id: string;
+  /** e.g. 賈府 */
+  name: string;
+  /** Houses of the family, e.g. 寧國府 and 榮國府; members belong to one through their ancestor */
+  branches?: GenealogyBranch[];
+  /** Name of each generation in the family, e.g. `{ "4": "玉字輩" }` */
+  generationNames?: Record<string, string>;
+}
+
+/**
+ * A house of a family
+ * 房支
+ */
+export interface GenealogyBranch {
+  /** e.g. `rongguo` */
+  id: string;
+  /** e.g. 榮國府 */
+  name: string;
+}
+
+export type GenealogyGender = 'male' | 'female';
+
+/**
+ * One person of the genealogy
+ * 族譜人物
+ */
+export interface GenealogyPerson {
+  /** Character catalog id for people of the catalog, else a stable id of its own */
+  id: string;
+  /** Name, or a description such as 湘雲之父 for people the text does not name (zh-TW) */
+  name: string;
+  /**
+   * Family the person is born into; families without a tree of their own (林)
+   * are drawn under a parent, and people of no known family only as partners
+   */
+  family?: string;
+  /** Branch of the family; descendants inherit their ancestor's branch */
+  branch?: string;
+  /**
+   * Generation counted across the four families, 1 for the dukes of 寧國府 and
+   * 榮國府; one more than the person's parents
+   */
+  generation: number;
+  gender: GenealogyGender;
+  /** Ids of the father and mother, as far as the genealogy knows them */
+  parents?: string[];
+  /** Rank or office, e.g. 榮國公 */
+  title?: string;
+  /** The text never names the person */
+  unnamed?: boolean;
+  /** First chapter that shows the person's place in the family */
+  fromChapter: number;
+  /** Short note on the person (zh-TW) */
+  note?: string;
+}
+
+/**
+ * Wife (正室, including a second wife) or concubine (妾)
+ * 婚姻關係
+ */
+export type GenealogyUnionKind = 'wife' | 'concubine';
+
+/**
+ * A marriage
+ * 婚配
+ */
+export interface GenealogyUnion {
+  husband: string;
+  wife: string;
+  kind: GenealogyUnionKind;
+  /** First chapter that shows the marriage; defaults to the later of the two people */
+  fromChapter?: number;
+}
+
+/**
+ * On-disk format of the genealogy
+ */
+export interface GenealogyJson {
+  version: number;
+  families: GenealogyFamily[];
+  /** People in the order the tree draws siblings */
+  people: GenealogyPerson[];
+  unions: GenealogyUnion[];
+}
@@ -0,0 +1,313 @@
+/**
+ * @fileOverview Type definitions for chapter knowledge graphs
+ *
+ * Each chapter's graph is one JSON file in `src/app/(main)/read/chapterGraph/`,
+ * served by `GET /api/chapters/[chapterNumber]/graph`. Two formats exist:
+ *
+ * - The structured format (`StructuredChapterGraph`, `schemaVersion: 2`):
+ *   entities with ids, aliases and types, and relationships that point at
+ *   entity ids with a typed relation, a direction, the chapter they come from
+ *   and the paragraph that shows them.
+ * - The legacy format (`ChapterGraphJson`): entity names and
+ *   `"甄士隱 - 女兒 - 英蓮"` strings. It is still read, and upgraded to the
+ *   structured format by `upgradeLegacyChapterGraph` in `src/lib/graph-schema.ts`.
+ *
+ * Names and relation labels are Traditional Chinese (zh-TW), like the chapter corpus.
+ */
+
+/**
+ * Figures recorded by the pipeline that produced a graph
+ * 圖譜生成紀錄
+ */
+export interface ChapterGraphMetadata {
+  version: string;
+  description: string;
+  processing_time: number;
+  chunks_processed: number;
+  total_characters: number;
+  clustering_time: number;
+  clustered_entities: number;
+  phase3_time: number;
+  synonym_merges_applied: number;
+  entities_merged: number;
+  total_processing_time: number;
+  strategy: string;
+  text_length: number;
+  original_entities: number;
+  streamlined_entities: number;
+  original_relationships: number;
+  streamlined_relationships: number;
+  reduction_ratio: string;
+  focus: string;
+  creation_date: string;
+  notes: string;
+}
+
+/**
+ * A chapter graph in the legacy string format
+ * 舊版圖譜格式（字串關係）
+ */
+export interface ChapterGraphJson {
+  entities: string[];
+  /** `"source - relation - target"`, naming entities from `entities` */
+  relationships: string[];
+  metadata: ChapterGraphMetadata;
+}
+
+/**
+ * Kind of entity
+ * 實體類型：人物、地點、概念、事件、物品
+ */
+export type GraphEntityType = 'character' | 'location' | 'concept' | 'event' | 'artifact';
+
+/**
+ * A node of the graph
+ * 圖譜實體
+ */
+export interface GraphEntity {
+  /** Stable identifier, unique within the graph; relationships refer to it */
+  id: string;
+  /** Display name (zh-TW) */
+  name: string;
+  /** Other names the text uses for the entity */
+  aliases?: string[];
+  /** Kind of entity; entries of the entity catalog take their catalog type, others are typed by name when omitted */
+  type?: GraphEntityType;
+  /** Character catalog id, for entities that are people of the catalog */
+  characterId?: string;
+  /** Entity catalog id, for places, objects, texts and ideas of the catalog */
+  entityId?: string;
+}
+
+/**
+ * Kind of relation, which sets how strongly the graph view pulls two nodes together
+ * 關係類型：家庭、交誼、衝突、文學、概念
+ */
+export type GraphRelationType = 'family' | 'friendship' | 'conflict' | 'literary' | 'conceptual';
+
+/**
+ * Whether a relation reads from source to target only (女兒) or both ways (鄰居)
+ */
+export type GraphRelationDirection = 'directed' | 'undirected';
+
+/**
+ * Where the text shows a relationship
+ * 關係出處
+ */
+export interface GraphEvidence {
+  /** Paragraph of the chapter, e.g. `ch1-p5` */
+  paragraphId: string;
+  /** Words of the paragraph that state the relationship (zh-TW) */
+  quote?: string;
+}
+
+/**
+ * An edge of the graph
+ * 圖譜關係
+ */
+export interface GraphRelationship {
+  /** Entity id the relation starts from */
+  source: string;
+  /** Entity id the relation points to */
+  target: string;
+  /** Relation label as the text puts it, e.g. 女兒 (zh-TW) */
+  relation: string;
+  /** Kind of relation; inferred from the label when omitted */
+  type?: GraphRelationType;
+  direction: GraphRelationDirection;
+  /** Chapter the relationship is shown in */
+  chapter: number;
+  evidence?: GraphEvidence;
+}
+
+/**
+ * A chapter graph in the structured format
+ * 章回知識圖譜（結構化格式）
+ */
+export interface StructuredChapterGraph {
+  schemaVersion: 2;
+  /** Chapter the graph describes */
+  chapter: number;
+  entities: GraphEntity[];
+  relationships: GraphRelationship[];
+  metadata: ChapterGraphMetadata;
+}
+
+/** A graph file in either format */
+export type ChapterGraphFile = ChapterGraphJson | StructuredChapterGraph;
+
+/**
+ * Review state of an uploaded graph: uploads wait for an editor's approval
+ * 上傳圖譜的審核狀態
+ */
+export type GraphVersionStatus = 'pending' | 'approved';
+
+/**
+ * One uploaded version of a chapter graph
+ * 圖譜版本紀錄
+ */
+export interface GraphVersion {
+  /** Sequential per chapter, from 1 */
+  version: number;
+  status: GraphVersionStatus;
+  /** ISO timestamp */
+  uploadedAt: string;
+  /** Editor who uploaded the version */
+  uploadedBy: string;
+  approvedAt?: string;
+  approvedBy?: string;
+  /** Size of the uploaded file in bytes */
+  size: number;
+  entityCount: number;
+  relationshipCount: number;
+}
+
+/**
+ * Version history of a chapter graph
+ * 章回圖譜的版本歷史
+ */
+export interface GraphVersionIndex {
+  chapter: number;
+  /** Version served by the graph route; null serves the bundled file */
+  current: number | null;
+  versions: GraphVersion[];
+  /** Last approval or rollback */
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+/**
+ * An entity of the merged graph of chapters 1..N
+ * 累積圖譜實體
+ */
+export interface CumulativeGraphEntity extends GraphEntity {
+  /** Chapters whose graph has the entity under any of its names, ascending */
+  chapters: number[];
+  /** Character the entity belongs to, once the text has revealed it */
+  ownerCharacterId?: string;
+  /** Name, aliases and owner from each chapter where they changed, ascending; absent when they never did */
+  namings?: CumulativeGraphEntityNaming[];
+}
+
+/**
+ * How a cumulative graph entity was known from a chapter until the next naming
+ * 累積圖譜實體在某回起的名稱
+ */
+export interface CumulativeGraphEntityNaming {
+  fromChapter: number;
+  name: string;
+  aliases?: string[];
+  ownerCharacterId?: string;
+}
+
+/**
+ * A relationship of the merged graph; `chapter` and `evidence` are those of
+ * the first chapter that shows it
+ * 累積圖譜關係
+ */
+export interface CumulativeGraphRelationship extends GraphRelationship {
+  /** Chapters whose graph has the relationship, ascending */
+  chapters: number[];
+}
+
+/**
+ * The chapter graphs of chapters 1..N merged into one, with names resolved
+ * across chapters (絳珠草 → 絳珠仙子 → 林黛玉)
+ * 全書累積知識圖譜
+ */
+export interface CumulativeGraph {
+  /** Last chapter merged */
+  through: number;
+  /** Chapters that have a graph, ascending */
+  chapters: number[];
+  entities: CumulativeGraphEntity[];
+  relationships: CumulativeGraphRelationship[];
+}
+
+/**
+ * A chain of relationships between two entities of a graph
+ * 圖譜路徑
+ */
+export interface GraphPath {
+  /** Entity ids from the start of the path to its end */
+  entities: string[];
+  /**
+   * Relationship between each entity and the next; paths follow relationships
+   * either way, so `source` may be the later entity
+   */
+  relationships: GraphRelationship[];
+}
+
+/**
+ * Paths between two entities, shortest first
+ * 兩個實體之間的路徑
+ */
+export interface GraphPathQueryResult {
+  source: GraphEntity;
+  target: GraphEntity;
+  /** Empty when the entities are not connected within the maximum length */
+  paths: GraphPath[];
+  /**
+   * The search for every path stopped early, at the path limit or the step
+   * limit of `findAllPaths`, so more paths may exist; false for shortest paths
+   */
+  truncated: boolean;
+}
+
+/**
+ * The entities within some hops of one entity and the relationships between them
+ * 實體的鄰近網絡
+ */
+export interface GraphNeighbourhood {
+  center: GraphEntity;
+  hops: number;
+  entities: GraphEntity[];
+  relationships: GraphRelationship[];
+  /** Hops from the center to each entity, by entity id */
+  distances: Record<string, number>;
+}
+
+/**
+ * Network measures of one entity; relationships count either way, whatever their direction
+ * 實體的網絡指標
+ */
+export interface GraphNodeMetrics {
+  id: string;
+  name: string;
+  /** Number of entities related to this one */
+  degree: number;
+  /** Degree over the most it could be, one less than the number of entities */
+  degreeCentrality: number;
+  /** Share of shortest paths between other entities that pass through this one, 0-1 */
+  betweenness: number;
+  /** Eigenvector centrality, scaled so the most central entity has 1 */
+  eigenvector: number;
+  /** Index of the entity's community in `GraphAnalytics.communities` */
+  community: number;
+}
+
+/**
+ * A relationship whose removal splits its part of the graph in two
+ * 橋（關鍵關係）
+ */
+export interface GraphBridge {
+  /** Entity ids of the two ends */
+  source: string;
+  target: string;
+  /** Entities on the smaller side, cut off from the rest without the relationship */
+  separates: number;
+}
+
+/**
+ * Network analysis of a chapter graph or the cumulative graph
+ * 圖譜網絡分析
+ */
+export interface GraphAnalytics {
+  /** Measures of each entity, in the graph's order */
+  nodes: GraphNodeMetrics[];
+  /** Entity ids of each community, largest first */
+  communities: string[][];
+  /** Modularity of the communities, from -0.5 to 1; higher means more clearly separated groups */
+  modularity: number;
+  bridges: GraphBridge[];
+}
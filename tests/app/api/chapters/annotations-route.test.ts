@@ -0,0 +1,71 @@
+/**
+ * @fileOverview Unit Tests for the Chapter Annotations API Route
+ * @description Validates GET /api/chapters/[chapterNumber]/annotations against the
+ * on-disk annotation datasets (src/app/(main)/read/chapterAnnotations).
+ */
+
+// Mock NextResponse to avoid polyfill issues (same approach as graph-route tests)
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn().mockImplementation((input: string) => ({ url: input })),
+  NextResponse: {
+    json: jest.fn().mockImplementation((data: any, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: jest.fn().mockResolvedValue(data)
+    }))
+  }
+}));
+
+import { NextRequest } from 'next/server';
+import { GET as getAnnotations } from '@/app/api/chapters/[chapterNumber]/annotations/route';
+import { readChapterFromCorpus } from '@/lib/chapter-corpus';
+import { placeAnnotations } from '@/lib/annotations';
+
+const callAnnotationsRoute = async (chapterNumber: string, query = '') => {
+  const request = new NextRequest(`http://localhost:3000/api/chapters/${chapterNumber}/annotations${query}`);
+  const response = await getAnnotations(request, { params: Promise.resolve({ chapterNumber }) });
+  return { status: response.status, data: await response.json() };
+};
+
+describe('Chapter Annotations API Route - GET /api/chapters/[chapterNumber]/annotations', () => {
+  test('should return annotations from every source for chapter 1', async () => {
+    const { status, data } = await callAnnotationsRoute('1');
+
+    expect(status).toBe(200);
+    expect(data).toMatchObject({ chapterId: 1, edition: 'standard' });
+    const sources = new Set(data.annotations.map((a: any) => a.source));
+    expect(sources).toEqual(new Set(['editorial', 'zhiyanzhai', 'scholar']));
+    expect(data.annotations).toContainEqual(expect.objectContaining({ id: 'ch1-p2-anno-nuwa', quote: '女媧氏煉石補天' }));
+  });
+
+  test('should anchor every annotation exactly in the default text', async () => {
+    const { data } = await callAnnotationsRoute('1');
+    const chapter = await readChapterFromCorpus(1);
+
+    const placed = placeAnnotations(data.annotations, chapter!.paragraphs);
+    expect(placed).toHaveLength(data.annotations.length);
+    placed.forEach(({ position }) => expect(position.status).toBe('exact'));
+  });
+
+  test('should place annotations in a historical edition', async () => {
+    const { status, data } = await callAnnotationsRoute('1', '?edition=gengchen');
+    const chapter = await readChapterFromCorpus(1, 'gengchen');
+
+    expect(status).toBe(200);
+    expect(data.edition).toBe('gengchen');
+    // 庚辰本 reads 高經十二丈, so the 脂批 on 十二丈 has moved
+    const twelve = placeAnnotations(data.annotations, chapter!.paragraphs)
+      .find(({ annotation }) => annotation.id === 'ch1-zhiyanzhai-shierzhang');
+    expect(twelve?.position).toMatchObject({ paragraphId: 'ch1-p2', text: '十二丈', status: 'moved' });
+  });
+
+  test('should validate the chapter number and edition', async () => {
+    expect((await callAnnotationsRoute('0')).status).toBe(400);
+    expect((await callAnnotationsRoute('abc')).data.error).toBe('Invalid chapter number');
+    expect((await callAnnotationsRoute('1', '?edition=unknown')).data.error).toBe('Invalid edition');
+  });
+
+  test('should return 404 for chapters not yet in the corpus', async () => {
+    const { status } = await callAnnotationsRoute('120');
+    expect(status).toBe(404);
+  });
+});
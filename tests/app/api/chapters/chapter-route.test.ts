@@ -0,0 +1,118 @@
+/**
+ * @fileOverview Unit Tests for Chapter Text API Routes
+ * @description Validates the routes that serve chapter text and the table of contents
+ * from the on-disk chapter corpus (src/app/(main)/read/chapterText).
+ *
+ * Test Categories:
+ * 1. Chapter text retrieval for chapters present in the corpus
+ * 2. Chapter number validation
+ * 3. Missing chapters, and read errors that are not
+ * 4. Edition selection via ?edition=
+ * 5. Table of contents for all 120 chapters
+ */
+
+// Mock NextResponse to avoid polyfill issues (same approach as graph-route tests)
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn().mockImplementation((input: string) => ({ url: input })),
+  NextResponse: {
+    json: jest.fn().mockImplementation((data: any, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: jest.fn().mockResolvedValue(data)
+    }))
+  }
+}));
+
+import fs from 'fs/promises';
+import { NextRequest } from 'next/server';
+import { GET as getChapter } from '@/app/api/chapters/[chapterNumber]/route';
+import { GET as getChapterIndex } from '@/app/api/chapters/route';
+
+const callChapterRoute = async (chapterNumber: string, query = '') => {
+  const request = new NextRequest(`http://localhost:3000/api/chapters/${chapterNumber}${query}`);
+  const response = await getChapter(request, { params: Promise.resolve({ chapterNumber }) });
+  return { status: response.status, data: await response.json() };
+};
+
+describe('Chapter Text API Route - GET /api/chapters/[chapterNumber]', () => {
+  test('should return chapter 1 with normalized paragraph ids', async () => {
+    const { status, data } = await callChapterRoute('1');
+
+    expect(status).toBe(200);
+    expect(data.id).toBe(1);
+    expect(data.title).toContain('第一回');
+    expect(data.paragraphs.length).toBeGreaterThan(0);
+    expect(data.paragraphs[0].id).toBe('ch1-p1');
+    // Annotations live in the annotation dataset, not in the chapter text
+    expect(data.paragraphs.flatMap((p: any) => p.content).every((c: any) => typeof c === 'string')).toBe(true);
+  });
+
+  test('should reject chapter numbers outside 1-120', async () => {
+    for (const chapterNumber of ['0', '121', 'abc', '-5', '1.5']) {
+      const { status, data } = await callChapterRoute(chapterNumber);
+      expect(status).toBe(400);
+      expect(data.error).toBe('Invalid chapter number');
+    }
+  });
+
+  test('should return 404 for chapters not yet in the corpus', async () => {
+    const { status, data } = await callChapterRoute('120');
+
+    expect(status).toBe(404);
+    expect(data.error).toContain('第120回');
+  });
+
+  test('should return 500 when a chapter file cannot be read', async () => {
+    const denied = Object.assign(new Error('EACCES: permission denied'), { code: 'EACCES' });
+    jest.spyOn(fs, 'readFile').mockRejectedValueOnce(denied);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { status, data } = await callChapterRoute('1');
+
+    expect(status).toBe(500);
+    expect(data.error).toBe('Failed to load chapter text');
+    jest.restoreAllMocks();
+  });
+});
+
+describe('Chapter Text API Route - editions', () => {
+  test('should serve the default edition when no edition is requested', async () => {
+    const { data } = await callChapterRoute('1');
+    expect(data.edition).toBe('standard');
+  });
+
+  test('should serve a historical edition with its own readings', async () => {
+    const { status, data } = await callChapterRoute('1', '?edition=chengjia');
+
+    expect(status).toBe(200);
+    expect(data.edition).toBe('chengjia');
+    expect(data.paragraphs[0].id).toBe('ch1-p1');
+    expect(data.paragraphs[0].content[0]).toContain('而借通靈說此《石頭記》一書也');
+  });
+
+  test('should reject unknown editions', async () => {
+    const { status, data } = await callChapterRoute('1', '?edition=unknown');
+    expect(status).toBe(400);
+    expect(data.error).toBe('Invalid edition');
+  });
+
+  test('should return 404 for chapters outside an edition', async () => {
+    // 庚辰本 ends at chapter 80
+    const { status } = await callChapterRoute('81', '?edition=gengchen');
+    expect(status).toBe(404);
+  });
+});
+
+describe('Chapter Index API Route - GET /api/chapters', () => {
+  test('should list all 120 chapters and mark available ones', async () => {
+    const response = await getChapterIndex();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.total).toBe(120);
+    expect(data.chapters).toHaveLength(120);
+    expect(data.chapters[0]).toMatchObject({ id: 1, available: true, titleKey: 'chapterContent.ch1.title' });
+    expect(data.chapters[0].editions).toEqual(['standard', 'gengchen', 'chengjia', 'chengyi']);
+    expect(data.chapters[119]).toEqual({ id: 120, available: false, editions: [] });
+    expect(data.available).toBe(data.chapters.filter((c: any) => c.available).length);
+  });
+});
@@ -7,7 +7,7 @@
  * 1. Successful data retrieval for valid chapters
  * 2. Chapter number validation and boundary testing
  * 3. File system error handling
- * 4. POST endpoint for future database integration
+ * 4. POST uploads, version history, approval and rollback
  * 5. Response format validation
  * 6. Performance and caching considerations
  * 
@@ -41,8 +41,40 @@ jest.mock('next/server', () => ({
   }
 }));
 
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
 import { NextRequest } from 'next/server';
 import { GET, POST } from '@/app/api/chapters/[chapterNumber]/graph/route';
+import { GET as getVersions } from '@/app/api/chapters/[chapterNumber]/graph/versions/route';
+import { GET as getVersion } from '@/app/api/chapters/[chapterNumber]/graph/versions/[version]/route';
+import { POST as approve } from '@/app/api/chapters/[chapterNumber]/graph/versions/[version]/approve/route';
+import { POST as rollback } from '@/app/api/chapters/[chapterNumber]/graph/rollback/route';
+import { CHAPTER_GRAPH_DIR } from '@/lib/graph-corpus';
+
+// Uploads go to a temporary version store
+let storeDirectory: string;
+
+beforeAll(async () => {
+  storeDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-route-'));
+  process.env.GRAPH_STORE_DIR = storeDirectory;
+  process.env.GRAPH_EDITOR_TOKENS = 'lin:editor-token';
+});
+
+afterAll(async () => {
+  await fs.rm(storeDirectory, { recursive: true, force: true });
+  delete process.env.GRAPH_STORE_DIR;
+  delete process.env.GRAPH_EDITOR_TOKENS;
+});
+
+// Build a request whose body is read with request.text()
+const postRequest = (url: string, body: string, headers: Record<string, string> = {}) => {
+  const request = new NextRequest(url, { method: 'POST', headers, body });
+  request.text = jest.fn().mockResolvedValue(body);
+  return request;
+};
+
+const editorHeaders = { authorization: 'Bearer editor-token' };
 
 describe('Chapter Graph API Route - GET Endpoint', () => {
   beforeEach(() => {
@@ -110,6 +142,12 @@ describe('Chapter Graph API Route - GET Endpoint', () => {
     
     expect(response2.status).toBe(400);
     expect(data2.error).toBe('Invalid chapter number');
+
+    // Test trailing characters
+    const request3 = new NextRequest('http://localhost:3000/api/chapters/5abc/graph');
+    const response3 = await GET(request3, { params: Promise.resolve({ chapterNumber: '5abc' }) });
+
+    expect(response3.status).toBe(400);
   });
 
   test('should return empty data when file does not exist', async () => {
@@ -201,23 +239,15 @@ describe('Chapter Graph API Route - GET Endpoint', () => {
 });
 
 describe('Chapter Graph API Route - POST Endpoint', () => {
-  test('should accept and validate POST data for future database integration', async () => {
+  let bundledChapter1: string;
+
+  beforeAll(async () => {
+    bundledChapter1 = await fs.readFile(path.join(CHAPTER_GRAPH_DIR, 'chapter1.json'), 'utf-8');
+  });
+
+  test('should store a valid upload as a pending version without serving it', async () => {
     // Arrange
-    const postData = {
-      entities: ["測試實體"],
-      relationships: ["測試關係"],
-      metadata: { version: "test" }
-    };
-    
-    const request = new NextRequest('http://localhost:3000/api/chapters/1/graph', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(postData)
-    });
-    
-    // Mock request.json() to return our test data
-    request.json = jest.fn().mockResolvedValue(postData);
-    
+    const request = postRequest('http://localhost:3000/api/chapters/1/graph', bundledChapter1, editorHeaders);
     const params = Promise.resolve({ chapterNumber: '1' });
 
     // Act
@@ -225,71 +255,171 @@ describe('Chapter Graph API Route - POST Endpoint', () => {
     const data = await response.json();
 
     // Assert
-    expect(response.status).toBe(200);
-    expect(data.message).toBe('Chapter 1 graph data received');
+    expect(response.status).toBe(201);
+    expect(data.message).toBe('Chapter 1 graph version 1 received');
+    expect(data.version).toEqual(expect.objectContaining({ version: 1, status: 'pending', uploadedBy: 'lin' }));
+
+    const served = await (await GET(new NextRequest('http://localhost:3000/api/chapters/1/graph'), { params: Promise.resolve({ chapterNumber: '1' }) })).json();
+    expect(served.metadata.version).toBe(JSON.parse(bundledChapter1).metadata.version);
+  });
+
+  test('should reject uploads that are not valid JSON or not valid graphs', async () => {
+    const params = () => Promise.resolve({ chapterNumber: '1' });
+
+    const invalidJson = await POST(postRequest('http://localhost:3000/api/chapters/1/graph', 'invalid json', editorHeaders), { params: params() });
+    expect(invalidJson.status).toBe(400);
+    expect((await invalidJson.json()).error).toBe('Graph upload is not valid JSON');
+
+    const invalidGraph = await POST(postRequest('http://localhost:3000/api/chapters/1/graph', JSON.stringify({ entities: ['測試實體'], relationships: ['測試關係'], metadata: { version: 'test' } }), editorHeaders), { params: params() });
+    expect(invalidGraph.status).toBe(400);
+    expect((await invalidGraph.json()).error).toContain('metadata');
   });
 
-  test('should validate POST request content type', async () => {
+  test('should reject oversized uploads', async () => {
     // Arrange
-    const request = new NextRequest('http://localhost:3000/api/chapters/1/graph', {
-      method: 'POST',
-      headers: { 'Content-Type': 'text/plain' },
-      body: 'invalid data'
-    });
-    
-    // Mock request.json() to throw an error for invalid JSON
-    request.json = jest.fn().mockRejectedValue(new Error('Invalid JSON'));
-    
+    const request = postRequest('http://localhost:3000/api/chapters/1/graph', bundledChapter1, { ...editorHeaders, 'content-length': String(10 * 1024 * 1024) });
     const params = Promise.resolve({ chapterNumber: '1' });
 
     // Act
     const response = await POST(request, { params });
-    const data = await response.json();
 
-    // Assert - API returns 500 for JSON parsing errors
-    expect(response.status).toBe(500);
-    expect(data.error).toBe('Failed to store chapter graph data');
+    // Assert
+    expect(response.status).toBe(413);
+    expect(request.text).not.toHaveBeenCalled();
+  });
+
+  test('should validate chapter number in POST requests', async () => {
+    for (const chapterNumber of ['999', '5abc', '1.5']) {
+      // Arrange
+      const request = postRequest(`http://localhost:3000/api/chapters/${chapterNumber}/graph`, bundledChapter1, editorHeaders);
+      const params = Promise.resolve({ chapterNumber });
+
+      // Act
+      const response = await POST(request, { params });
+      const data = await response.json();
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Invalid chapter number');
+    }
   });
 
-  test('should handle malformed POST JSON gracefully', async () => {
+  test('should accept uploads from editors only', async () => {
     // Arrange
-    const request = new NextRequest('http://localhost:3000/api/chapters/1/graph', {
-      method: 'POST',
-      body: 'invalid json'
-    });
-    
-    // Mock request.json() to throw an error
-    request.json = jest.fn().mockRejectedValue(new Error('Invalid JSON'));
-    
+    const request = postRequest('http://localhost:3000/api/chapters/1/graph', bundledChapter1);
     const params = Promise.resolve({ chapterNumber: '1' });
 
     // Act
     const response = await POST(request, { params });
-    const data = await response.json();
 
-    // Assert - API returns 500 for JSON parsing errors
-    expect(response.status).toBe(500);
-    expect(data.error).toBe('Failed to store chapter graph data');
+    // Assert
+    expect(response.status).toBe(403);
+    expect(request.text).not.toHaveBeenCalled();
+  });
+
+  test('should refuse uploads when no persistent store is configured', async () => {
+    // Arrange
+    delete process.env.GRAPH_STORE_DIR;
+    const request = postRequest('http://localhost:3000/api/chapters/1/graph', bundledChapter1, editorHeaders);
+
+    try {
+      // Act
+      const response = await POST(request, { params: Promise.resolve({ chapterNumber: '1' }) });
+
+      // Assert
+      expect(response.status).toBe(503);
+    } finally {
+      process.env.GRAPH_STORE_DIR = storeDirectory;
+    }
   });
+});
 
-  test('should validate chapter number in POST requests', async () => {
+describe('Chapter Graph API Route - Versions, Approval and Rollback', () => {
+  const params = (version?: number) => Promise.resolve({ chapterNumber: '2', version: String(version) });
+  const graphOfChapter2 = (entities: string[]) => JSON.stringify({ ...JSON.parse(bundledGraph), entities, relationships: [] });
+  let bundledGraph: string;
+
+  beforeAll(async () => {
+    bundledGraph = await fs.readFile(path.join(CHAPTER_GRAPH_DIR, 'chapter1.json'), 'utf-8');
+  });
+
+  const servedEntities = async () =>
+    (await (await GET(new NextRequest('http://localhost:3000/api/chapters/2/graph'), { params: params() })).json()).entities.map((entity: { name: string }) => entity.name);
+
+  test('should let only editors view pending versions and approve them', async () => {
     // Arrange
-    const postData = { entities: [], relationships: [], metadata: {} };
-    const request = new NextRequest('http://localhost:3000/api/chapters/999/graph', {
-      method: 'POST',
-      body: JSON.stringify(postData)
-    });
-    
-    request.json = jest.fn().mockResolvedValue(postData);
-    const params = Promise.resolve({ chapterNumber: '999' });
+    await POST(postRequest('http://localhost:3000/api/chapters/2/graph', graphOfChapter2(['甄士隱']), editorHeaders), { params: params() });
+
+    // Act & Assert
+    expect((await getVersion(new NextRequest('http://localhost:3000/api/chapters/2/graph/versions/1'), { params: params(1) })).status).toBe(403);
+    const review = await getVersion(new NextRequest('http://localhost:3000/api/chapters/2/graph/versions/1', { headers: editorHeaders }), { params: params(1) });
+    expect(review.status).toBe(200);
+    expect((await review.json()).graph.chapter).toBe(2);
+
+    const denied = await approve(postRequest('http://localhost:3000/api/chapters/2/graph/versions/1/approve', ''), { params: params(1) });
+    expect(denied.status).toBe(403);
+    expect(await servedEntities()).toEqual([]);
+
+    const approved = await approve(postRequest('http://localhost:3000/api/chapters/2/graph/versions/1/approve', '', editorHeaders), { params: params(1) });
+    expect(approved.status).toBe(200);
+    expect((await approved.json()).version).toEqual(expect.objectContaining({ status: 'approved', approvedBy: 'lin' }));
+    expect(await servedEntities()).toEqual(['甄士隱']);
 
+    const missing = await approve(postRequest('http://localhost:3000/api/chapters/2/graph/versions/9/approve', '', editorHeaders), { params: params(9) });
+    expect(missing.status).toBe(404);
+  });
+
+  test('should roll back to the previous approved version', async () => {
+    // Arrange
+    await POST(postRequest('http://localhost:3000/api/chapters/2/graph', graphOfChapter2(['賈雨村']), editorHeaders), { params: params() });
+    await approve(postRequest('http://localhost:3000/api/chapters/2/graph/versions/2/approve', '', editorHeaders), { params: params(2) });
+    expect(await servedEntities()).toEqual(['賈雨村']);
+
+    // Act & Assert
+    expect((await rollback(postRequest('http://localhost:3000/api/chapters/2/graph/rollback', ''), { params: params() })).status).toBe(403);
+
+    const rolledBack = await rollback(postRequest('http://localhost:3000/api/chapters/2/graph/rollback', '', editorHeaders), { params: params() });
+    expect(rolledBack.status).toBe(200);
+    expect((await rolledBack.json()).current).toBe(1);
+    expect(await servedEntities()).toEqual(['甄士隱']);
+
+    const nothingEarlier = await rollback(postRequest('http://localhost:3000/api/chapters/2/graph/rollback', '', editorHeaders), { params: params() });
+    expect(nothingEarlier.status).toBe(409);
+
+    const forward = await rollback(postRequest('http://localhost:3000/api/chapters/2/graph/rollback', '{"version":2}', editorHeaders), { params: params() });
+    expect(forward.status).toBe(200);
+    expect(await servedEntities()).toEqual(['賈雨村']);
+
+    const invalid = await rollback(postRequest('http://localhost:3000/api/chapters/2/graph/rollback', '{"version":"2"}', editorHeaders), { params: params() });
+    expect(invalid.status).toBe(400);
+  });
+
+  test('should refuse approvals and rollbacks when no persistent store is configured', async () => {
+    // Arrange
+    delete process.env.GRAPH_STORE_DIR;
+
+    try {
+      // Act
+      const approved = await approve(postRequest('http://localhost:3000/api/chapters/2/graph/versions/1/approve', '', editorHeaders), { params: params(1) });
+      const rolledBack = await rollback(postRequest('http://localhost:3000/api/chapters/2/graph/rollback', '', editorHeaders), { params: params() });
+
+      // Assert
+      expect(approved.status).toBe(503);
+      expect(rolledBack.status).toBe(503);
+    } finally {
+      process.env.GRAPH_STORE_DIR = storeDirectory;
+    }
+  });
+
+  test('should list the version history', async () => {
     // Act
-    const response = await POST(request, { params });
+    const response = await getVersions(new NextRequest('http://localhost:3000/api/chapters/2/graph/versions'), { params: params() });
     const data = await response.json();
 
-    // Assert - POST doesn't validate chapter number range, so it returns 200
+    // Assert
     expect(response.status).toBe(200);
-    expect(data.message).toBe('Chapter 999 graph data received');
+    expect(data.current).toBe(2);
+    expect(data.versions.map((version: { version: number; status: string }) => [version.version, version.status])).toEqual([[1, 'approved'], [2, 'approved']]);
   });
 });
 
@@ -380,7 +510,7 @@ afterAll(() => {
   console.log('✅ GET endpoint with valid chapter data tests');
   console.log('✅ Chapter number validation and boundary tests');
   console.log('✅ File system error handling tests');
-  console.log('✅ POST endpoint for future database integration');
+  console.log('✅ POST uploads, approval and rollback tests');
   console.log('✅ Performance and concurrent request tests');
   console.log('✅ Integration tests for response schema validation');
   console.log('\n🎉 All Chapter Graph API Route tests completed successfully!');
@@ -0,0 +1,28 @@
+/**
+ * @fileOverview Unit Tests for the Character Appearances API Route
+ * @description Validates GET /api/characters/appearances against the bundled catalog and chapter 1.
+ */
+
+// Mock NextResponse to avoid polyfill issues (same approach as graph-route tests)
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn().mockImplementation((data: any, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: jest.fn().mockResolvedValue(data)
+    }))
+  }
+}));
+
+import { GET as getAppearances } from '@/app/api/characters/appearances/route';
+import type { CharacterAppearancesJson } from '@/types/character';
+
+describe('Character Appearances API Route - GET /api/characters/appearances', () => {
+  test('should list the catalog characters named in chapter 1', async () => {
+    const response = await getAppearances();
+    const { appearances } = (await response.json()) as CharacterAppearancesJson;
+
+    expect(response.status).toBe(200);
+    expect(appearances['jia-yucun']).toEqual([1]);
+    expect(appearances['zhen-shiyin']).toEqual([1]);
+  });
+});
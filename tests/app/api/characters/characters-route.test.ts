@@ -0,0 +1,72 @@
+/**
+ * @fileOverview Unit Tests for the Characters API Route
+ * @description Validates GET /api/characters against the bundled catalog
+ * (src/app/(main)/read/characters) and checks it against chapter 1 and its knowledge graph.
+ */
+
+// Mock NextResponse to avoid polyfill issues (same approach as graph-route tests)
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn().mockImplementation((data: any, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: jest.fn().mockResolvedValue(data)
+    }))
+  }
+}));
+
+import path from 'path';
+import fs from 'fs/promises';
+import { GET as getCharacters } from '@/app/api/characters/route';
+import { readChapterFromCorpus } from '@/lib/chapter-corpus';
+import { getParagraphText } from '@/lib/chapter-loader';
+import { buildMentionIndex, findCharacterMentions } from '@/lib/character-catalog';
+import type { ChapterGraphJson } from '@/lib/knowledgeGraphUtils';
+import type { CharacterCatalogJson } from '@/types/character';
+
+const callCharactersRoute = async () => {
+  const response = await getCharacters();
+  return { status: response.status, data: (await response.json()) as CharacterCatalogJson };
+};
+
+describe('Characters API Route - GET /api/characters', () => {
+  test('should serve the validated catalog', async () => {
+    const { status, data } = await callCharactersRoute();
+
+    expect(status).toBe(200);
+    expect(data.characters).toContainEqual(expect.objectContaining({ id: 'lin-daiyu', name: '林黛玉' }));
+  });
+
+  test('should tag the names of chapter 1 for a reader on chapter 1', async () => {
+    const { data } = await callCharactersRoute();
+    const chapter = await readChapterFromCorpus(1);
+    const index = buildMentionIndex(data, 1);
+    const tagged = chapter!.paragraphs.flatMap(paragraph => {
+      const text = getParagraphText(paragraph);
+      return findCharacterMentions(index, text).map(mention => text.slice(mention.start, mention.end));
+    });
+
+    expect(new Set(tagged)).toEqual(new Set(['甄士隱', '賈雨村', '女媧氏', '媧皇', '士隱', '英蓮', '封氏', '時飛', '雨村', '跛足道人']));
+  });
+
+  test('should point first appearances at paragraphs of the chapter text', async () => {
+    const { data } = await callCharactersRoute();
+
+    for (const { firstAppearance } of data.characters) {
+      if (!firstAppearance.paragraphId) continue;
+      const chapter = await readChapterFromCorpus(firstAppearance.chapter);
+      expect(chapter!.paragraphs.map(paragraph => paragraph.id)).toContain(firstAppearance.paragraphId);
+    }
+  });
+
+  test('should name nodes that exist in the chapter 1 knowledge graph', async () => {
+    const { data } = await callCharactersRoute();
+    const graphFile = path.join(process.cwd(), 'src', 'app', '(main)', 'read', 'chapterGraph', 'chapter1.json');
+    const graph: ChapterGraphJson = JSON.parse(await fs.readFile(graphFile, 'utf-8'));
+
+    const entities = data.characters
+      .filter(character => character.firstAppearance.chapter === 1)
+      .flatMap(character => character.graphEntities);
+    expect(entities.length).toBeGreaterThan(0);
+    entities.forEach(entity => expect(graph.entities).toContain(entity));
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @fileOverview Unit Tests for the Dictionary API Route
+ * @description Validates GET /api/dictionary against the bundled dataset
+ * (src/app/(main)/read/dictionary), hand-edited entries and the CC-CEDICT
+ * selection together, its caching, and its quotations of the novel.
+ */
+
+// Mock NextResponse to avoid polyfill issues (same approach as graph-route tests)
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn().mockImplementation((data: any, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers ?? {})),
+      json: jest.fn().mockResolvedValue(data)
+    }))
+  }
+}));
+
+import { GET as getDictionary } from '@/app/api/dictionary/route';
+import { readChapterFromCorpus } from '@/lib/chapter-corpus';
+import { getParagraphText } from '@/lib/chapter-loader';
+import { buildDictionary, lookupSelection, lookupWord } from '@/lib/dictionary';
+import type { DictionaryEntry } from '@/types/dictionary';
+
+const callDictionaryRoute = async () => {
+  const response = await getDictionary();
+  return { status: response.status, headers: response.headers, data: await response.json() };
+};
+
+describe('Dictionary API Route - GET /api/dictionary', () => {
+  test('should serve the validated dataset with its licence', async () => {
+    const { status, data } = await callDictionaryRoute();
+
+    expect(status).toBe(200);
+    expect(data.license).toBe('CC BY-SA 4.0');
+    expect(data.attribution).toContain('CC-CEDICT');
+    expect(data.entries).toContainEqual(expect.objectContaining({ traditional: '飫甘饜肥', pinyin: 'yu4 gan1 yan4 fei2' }));
+  });
+
+  test('should read the dataset once and let clients cache it', async () => {
+    const first = await callDictionaryRoute();
+    const second = await callDictionaryRoute();
+
+    expect(second.data.entries).toBe(first.data.entries);
+    expect(first.headers.get('Cache-Control')).toMatch(/^public, max-age=\d+/);
+  });
+
+  test('should put hand-edited entries before CC-CEDICT entries of the same word', async () => {
+    const { data } = await callDictionaryRoute();
+    const dictionary = buildDictionary(data.entries);
+
+    // The hand-edited entry replaces CC-CEDICT's, which has the same reading
+    const [yu] = lookupWord(dictionary, '飫');
+    expect(yu.definitions).toContain('飽食；吃飽。');
+    expect(lookupWord(dictionary, '飫').filter(entry => entry.pinyin === 'yu4')).toHaveLength(1);
+    // Characters without a hand-edited entry have CC-CEDICT's English glosses
+    expect(lookupWord(dictionary, '隱')[0]).toEqual(expect.objectContaining({ definitions: [], english: expect.any(Array) }));
+  });
+
+  test('should find a reading for every character of chapter 1', async () => {
+    const { data } = await callDictionaryRoute();
+    const dictionary = buildDictionary(data.entries);
+    const chapter = await readChapterFromCorpus(1);
+    const text = chapter!.paragraphs.map(getParagraphText).join('');
+
+    const missing = [...new Set(text.match(/[一-鿿]/g))].filter(character => lookupWord(dictionary, character).length === 0);
+    expect(missing).toEqual([]);
+  });
+
+  test('should look up chapter 1 phrases as whole words', async () => {
+    const { data } = await callDictionaryRoute();
+    const segments = lookupSelection(buildDictionary(data.entries), '錦衣紈褲之時，飫甘饜肥之日');
+
+    expect(segments.map(segment => segment.text)).toEqual(expect.arrayContaining(['錦衣紈褲', '飫甘饜肥']));
+  });
+
+  test('should quote the novel exactly as the standard text reads', async () => {
+    const { data } = await callDictionaryRoute();
+    const chapter = await readChapterFromCorpus(1);
+    const text = chapter!.paragraphs.map(getParagraphText).join('');
+
+    const quotes = (data.entries as DictionaryEntry[])
+      .flatMap(entry => entry.usage ?? [])
+      .filter(usage => usage.source === '《紅樓夢》第一回');
+    expect(quotes.length).toBeGreaterThan(0);
+    quotes.forEach(usage => expect(text).toContain(usage.text));
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * @fileOverview Unit Tests for the Entities API Route
+ * @description Validates GET /api/entities against the bundled entity catalog
+ * (src/app/(main)/read/entities) and checks it against the character catalog and chapter 1's knowledge graph.
+ */
+
+// Mock NextResponse to avoid polyfill issues (same approach as graph-route tests)
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn().mockImplementation((data: any, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: jest.fn().mockResolvedValue(data)
+    }))
+  }
+}));
+
+import { GET as getEntities } from '@/app/api/entities/route';
+import { readCharacterCatalogFromCorpus } from '@/lib/character-corpus';
+import { buildEntityCatalogIndex, findCatalogEntity } from '@/lib/entity-catalog';
+import { readChapterGraphFromCorpus } from '@/lib/graph-corpus';
+import { DEFAULT_GRAPH_THEME } from '@/lib/graph-theme';
+import type { EntityCatalogJson } from '@/types/entity';
+
+const callEntitiesRoute = async () => {
+  const response = await getEntities();
+  return { status: response.status, data: (await response.json()) as EntityCatalogJson };
+};
+
+describe('Entities API Route - GET /api/entities', () => {
+  test('should serve the validated catalog', async () => {
+    const { status, data } = await callEntitiesRoute();
+
+    expect(status).toBe(200);
+    expect(data.entities).toContainEqual(expect.objectContaining({ id: 'honglou-meng', type: 'concept', category: '書名' }));
+  });
+
+  test('should type every person of the character catalog under the character id', async () => {
+    const { data } = await callEntitiesRoute();
+    const characters = await readCharacterCatalogFromCorpus();
+    const index = buildEntityCatalogIndex(data);
+
+    for (const character of characters.characters) {
+      expect(index.byId.get(character.id)).toEqual(expect.objectContaining({ type: 'character' }));
+    }
+  });
+
+  test('should list every entity of the chapter 1 knowledge graph in a category of the default theme', async () => {
+    const { data } = await callEntitiesRoute();
+    const graph = await readChapterGraphFromCorpus(1);
+    const index = buildEntityCatalogIndex(data);
+
+    for (const entity of graph!.entities) {
+      const entry = findCatalogEntity(index, entity);
+      expect(entry).toBeDefined();
+      expect(Object.keys(DEFAULT_GRAPH_THEME.categories)).toContain(entry!.category);
+    }
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * @fileOverview Unit Tests for the Genealogy API Route
+ * @description Validates GET /api/genealogy against the bundled dataset
+ * (src/app/(main)/read/genealogy) and checks its people against the character catalog.
+ */
+
+// Mock NextResponse to avoid polyfill issues (same approach as graph-route tests)
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn().mockImplementation((data: any, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: jest.fn().mockResolvedValue(data)
+    }))
+  }
+}));
+
+import { GET as getGenealogy } from '@/app/api/genealogy/route';
+import { readCharacterCatalogFromCorpus } from '@/lib/character-corpus';
+import { layoutFamilyTree } from '@/lib/genealogy';
+import type { GenealogyJson } from '@/types/genealogy';
+
+describe('Genealogy API Route - GET /api/genealogy', () => {
+  test('should serve the four great families', async () => {
+    const response = await getGenealogy();
+    const data = (await response.json()) as GenealogyJson;
+
+    expect(response.status).toBe(200);
+    expect(data.families.map(family => family.name)).toEqual(['賈府', '史家', '王家', '薛家']);
+    expect(data.families[0].branches?.map(branch => branch.name)).toEqual(['寧國府', '榮國府']);
+  });
+
+  test('should lay out every family for a reader who has finished the book', async () => {
+    const data = (await (await getGenealogy()).json()) as GenealogyJson;
+
+    for (const family of data.families) {
+      expect(layoutFamilyTree(data, family.id, 120).nodes.length).toBeGreaterThan(0);
+    }
+  });
+
+  test('should take the catalog id and first appearance for catalog characters', async () => {
+    const data = (await (await getGenealogy()).json()) as GenealogyJson;
+    const catalog = await readCharacterCatalogFromCorpus();
+
+    for (const character of catalog.characters) {
+      const person = data.people.find(candidate => candidate.id === character.id);
+      if (person) {
+        expect(person.fromChapter).toBeGreaterThanOrEqual(character.firstAppearance.chapter);
+      }
+    }
+    expect(data.people.some(person => person.id === 'lin-daiyu')).toBe(true);
+  });
+});
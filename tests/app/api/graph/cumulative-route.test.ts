@@ -0,0 +1,70 @@
+/**
+ * @fileOverview Unit Tests for the Cumulative Graph API Route
+ * @description Validates GET /api/graph/cumulative against the bundled chapter graphs and catalogs.
+ */
+
+// Mock NextResponse to avoid polyfill issues (same approach as graph-route tests)
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn().mockImplementation((data: any, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: jest.fn().mockResolvedValue(data)
+    }))
+  }
+}));
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/graph/cumulative/route';
+import type { CumulativeGraph } from '@/types/graph';
+
+const request = (query: string) => ({ url: `http://localhost:3000/api/graph/cumulative${query}` }) as NextRequest;
+
+// No uploads: the bundled graph files are served
+let storeDirectory: string;
+
+beforeAll(async () => {
+  storeDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'cumulative-route-'));
+  process.env.GRAPH_STORE_DIR = storeDirectory;
+});
+
+afterAll(async () => {
+  delete process.env.GRAPH_STORE_DIR;
+  await fs.rm(storeDirectory, { recursive: true, force: true });
+});
+
+describe('Cumulative Graph API Route - GET /api/graph/cumulative', () => {
+  test('should merge the chapter graphs up to the given chapter', async () => {
+    const response = await GET(request('?through=1'));
+    const graph = (await response.json()) as CumulativeGraph;
+
+    expect(response.status).toBe(200);
+    expect(graph.through).toBe(1);
+    expect(graph.chapters).toEqual([1]);
+    expect(graph.entities).toContainEqual(expect.objectContaining({
+      id: 'lin-daiyu',
+      name: '絳珠仙子',
+      aliases: expect.arrayContaining(['絳珠草']),
+      chapters: [1],
+    }));
+    expect(graph.entities).toContainEqual(expect.objectContaining({
+      id: 'tongling-baoyu',
+      aliases: expect.arrayContaining(['石頭', '補天石']),
+    }));
+  });
+
+  test('should name characters by the last chapter read', async () => {
+    const graph = (await (await GET(request('?through=3'))).json()) as CumulativeGraph;
+
+    expect(graph.entities.find(entity => entity.id === 'lin-daiyu')?.name).toBe('林黛玉');
+  });
+
+  test('should reject invalid chapter numbers', async () => {
+    const response = await GET(request('?through=abc'));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid chapter number' });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @fileOverview Unit Tests for the Graph Query API Route
+ * @description Validates GET /api/graph/query against the bundled chapter graphs and catalogs.
+ */
+
+// Mock NextResponse to avoid polyfill issues (same approach as graph-route tests)
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn().mockImplementation((data: any, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: jest.fn().mockResolvedValue(data)
+    }))
+  }
+}));
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/graph/query/route';
+import type { GraphNeighbourhood, GraphPathQueryResult } from '@/types/graph';
+
+const request = (query: string) => ({ url: `http://localhost:3000/api/graph/query${encodeURI(query)}` }) as NextRequest;
+
+// No uploads: the bundled graph files are served
+let storeDirectory: string;
+
+beforeAll(async () => {
+  storeDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'query-route-'));
+  process.env.GRAPH_STORE_DIR = storeDirectory;
+});
+
+afterAll(async () => {
+  delete process.env.GRAPH_STORE_DIR;
+  await fs.rm(storeDirectory, { recursive: true, force: true });
+});
+
+describe('Graph Query API Route - GET /api/graph/query', () => {
+  test('should find how two entities of a chapter are related', async () => {
+    const response = await GET(request('?chapter=1&from=賈雨村&to=英蓮'));
+    const result = (await response.json()) as GraphPathQueryResult;
+
+    expect(response.status).toBe(200);
+    expect(result.source.name).toBe('賈雨村');
+    expect(result.paths).toHaveLength(1);
+    expect(result.paths[0].relationships.map(step => step.relation)).toEqual(['資助', '女兒']);
+    expect(result.truncated).toBe(false);
+  });
+
+  test('should query the cumulative graph by default', async () => {
+    const result = (await (await GET(request('?from=賈雨村&to=甄士隱&paths=all&maxLength=3'))).json()) as GraphPathQueryResult;
+
+    expect(result.source.id).toBe('jia-yucun');
+    // 資助, and the way round through 葫蘆廟
+    expect(result.paths.length).toBeGreaterThan(1);
+    expect(result.paths[0].entities).toEqual(['jia-yucun', 'zhen-shiyin']);
+    expect(result.paths.every(found => found.relationships.length <= 3)).toBe(true);
+    expect(result.truncated).toBe(result.paths.length === 100);
+  });
+
+  test('should return the neighbourhood of an entity', async () => {
+    const neighbourhood = (await (await GET(request('?chapter=1&entity=甄士隱&types=family'))).json()) as GraphNeighbourhood;
+
+    expect(neighbourhood.hops).toBe(1);
+    expect(neighbourhood.entities.map(entity => entity.name).sort()).toEqual(['封氏', '甄士隱', '英蓮'].sort());
+  });
+
+  test('should reject invalid queries', async () => {
+    expect((await GET(request('?from=甄士隱'))).status).toBe(400);
+    expect((await GET(request('?entity=甄士隱&types=romance'))).status).toBe(400);
+    expect((await GET(request('?entity=甄士隱&hops=9'))).status).toBe(400);
+    expect((await GET(request('?chapter=0&entity=甄士隱'))).status).toBe(400);
+  });
+
+  test('should return 404 for unknown entities', async () => {
+    const response = await GET(request('?chapter=1&from=甄士隱&to=孫悟空'));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Entity not found: 孫悟空' });
+  });
+});
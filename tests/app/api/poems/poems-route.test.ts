@@ -0,0 +1,41 @@
+/**
+ * @fileOverview Unit Tests for the Poems API Route
+ * @description Validates GET /api/poems against the poems marked in the bundled chapter corpus.
+ */
+
+// Mock NextResponse to avoid polyfill issues (same approach as graph-route tests)
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: jest.fn().mockImplementation((data: any, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: jest.fn().mockResolvedValue(data)
+    }))
+  }
+}));
+
+import { GET as getPoems } from '@/app/api/poems/route';
+import { readCharacterCatalogFromCorpus } from '@/lib/character-corpus';
+import type { PoemCatalogueEntry } from '@/lib/poetry';
+
+describe('Poems API Route - GET /api/poems', () => {
+  test('should list the poems of chapter 1 with their lines', async () => {
+    const response = await getPoems();
+    const { poems } = (await response.json()) as { poems: PoemCatalogueEntry[] };
+
+    expect(response.status).toBe(200);
+    expect(poems).toContainEqual(expect.objectContaining({ id: 'ch1-poem-haoliao', chapterId: 1, form: 'song' }));
+    const haoliao = poems.find(poem => poem.id === 'ch1-poem-haoliao')!;
+    expect(haoliao.lines).toHaveLength(16);
+    expect(haoliao.lines.slice(0, 2)).toEqual(['世人都曉神仙好，', '惟有功名忘不了！']);
+  });
+
+  test('should name authors that exist in the character catalog', async () => {
+    const { poems } = (await (await getPoems()).json()) as { poems: PoemCatalogueEntry[] };
+    const catalog = await readCharacterCatalogFromCorpus();
+    const ids = new Set(catalog.characters.map(character => character.id));
+
+    for (const poem of poems.filter(entry => entry.authorId)) {
+      expect(ids).toContain(poem.authorId);
+    }
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * @fileOverview Unit Tests for the Whole-Book Search API Route
+ * @description Validates GET /api/search against the on-disk chapter corpus
+ * (src/app/(main)/read/chapterText) and annotation datasets (chapterAnnotations),
+ * including Traditional/Simplified-insensitive matching.
+ */
+
+// Mock NextResponse to avoid polyfill issues (same approach as graph-route tests)
+jest.mock('next/server', () => ({
+  NextRequest: jest.fn().mockImplementation((input: string) => ({ url: input })),
+  NextResponse: {
+    json: jest.fn().mockImplementation((data: any, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: jest.fn().mockResolvedValue(data)
+    }))
+  }
+}));
+
+import { NextRequest } from 'next/server';
+import { GET as search } from '@/app/api/search/route';
+
+const callSearchRoute = async (query: string) => {
+  const response = await search(new NextRequest(`http://localhost:3000/api/search${query}`));
+  return { status: response.status, data: await response.json() };
+};
+
+describe('Search API Route - GET /api/search', () => {
+  test('should find chapter 1 hits for a Simplified query', async () => {
+    const { status, data } = await callSearchRoute(`?q=${encodeURIComponent('女娲')}`);
+
+    expect(status).toBe(200);
+    expect(data.edition).toBe('standard');
+    expect(data.total).toBeGreaterThan(0);
+    expect(data.results).toContainEqual(expect.objectContaining({ chapterId: 1, paragraphId: 'ch1-p2', field: 'original' }));
+    expect(data.results.map((r: any) => r.field)).toEqual(expect.arrayContaining(['annotation', 'vernacular']));
+    data.results.forEach((r: any) => expect(r.snippet.match).toBe('女媧'));
+  });
+
+  test('should include commentary from the annotation dataset', async () => {
+    const { data } = await callSearchRoute(`?q=${encodeURIComponent('糊涂')}`);
+
+    expect(data.results).toContainEqual(expect.objectContaining({
+      chapterId: 1,
+      paragraphId: 'ch1-p5',
+      field: 'annotation',
+      annotationId: 'ch1-zhiyanzhai-hulumiao',
+      annotationSource: 'zhiyanzhai',
+    }));
+  });
+
+  test('should search the requested edition', async () => {
+    const { status, data } = await callSearchRoute(`?q=${encodeURIComponent('石頭')}&edition=gengchen&limit=5`);
+
+    expect(status).toBe(200);
+    expect(data.edition).toBe('gengchen');
+    expect(data.results.length).toBeLessThanOrEqual(5);
+  });
+
+  test('should reject missing queries, unknown editions and bad limits', async () => {
+    expect((await callSearchRoute('?q=%20%20')).data.error).toBe('Missing search query');
+    expect((await callSearchRoute('?q=夢&edition=unknown')).status).toBe(400);
+    expect((await callSearchRoute('?q=夢&limit=0')).status).toBe(400);
+    expect((await callSearchRoute('?q=夢&limit=abc')).status).toBe(400);
+  });
+});
@@ -109,6 +109,8 @@ jest.mock('lucide-react', () => ({
   ZoomOut: () => <div data-testid="zoom-out-icon">ZoomOut</div>,
   RotateCcw: () => <div data-testid="rotate-icon">RotateCcw</div>,
   Info: () => <div data-testid="info-icon">Info</div>,
+  Download: () => <div data-testid="download-icon">Download</div>,
+  BarChart3: () => <div data-testid="bar-chart-icon">BarChart3</div>,
 }));
 
 // Mock cn utility
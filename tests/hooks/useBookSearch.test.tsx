@@ -0,0 +1,105 @@
+/**
+ * @fileOverview Tests for the useBookSearch hook
+ *
+ * Tests cover:
+ * - Searching only while the popover is open and the query is not blank
+ * - Debouncing the query and dropping stale responses
+ * - Reporting failed searches
+ * - Holding the result picked until the page has scrolled to it
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { useBookSearch } from '@/hooks/useBookSearch';
+import { searchBook, type SearchResult } from '@/lib/chapter-search';
+
+jest.mock('@/lib/chapter-search', () => ({
+  searchBook: jest.fn(),
+}));
+
+const mockSearchBook = searchBook as jest.MockedFunction<typeof searchBook>;
+
+const result: SearchResult = {
+  chapterId: 3,
+  chapterTitle: '托內兄如海薦西賓',
+  paragraphId: 'p3-1',
+  field: 'original',
+  score: 2,
+  matchCount: 1,
+  offset: 0,
+  snippet: { before: '', match: '黛玉', after: '方進入房時' },
+};
+
+describe('useBookSearch', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockSearchBook.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should not search while the popover is closed or the query is blank', () => {
+    const { result: hook } = renderHook(() => useBookSearch('gengchen'));
+
+    act(() => hook.current.setTerm('黛玉'));
+    act(() => jest.advanceTimersByTime(1000));
+    act(() => {
+      hook.current.setIsOpen(true);
+      hook.current.setTerm('  ');
+    });
+    act(() => jest.advanceTimersByTime(1000));
+
+    expect(mockSearchBook).not.toHaveBeenCalled();
+    expect(hook.current.state).toBe('idle');
+  });
+
+  test('should search the edition once typing stops', async () => {
+    mockSearchBook.mockResolvedValue({ query: '黛玉', total: 42, results: [result] });
+    const { result: hook } = renderHook(() => useBookSearch('gengchen'));
+
+    act(() => {
+      hook.current.setIsOpen(true);
+      hook.current.setTerm('黛');
+    });
+    act(() => hook.current.setTerm('黛玉'));
+    expect(hook.current.state).toBe('searching');
+
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(mockSearchBook).toHaveBeenCalledTimes(1);
+    expect(mockSearchBook).toHaveBeenCalledWith('黛玉', 'gengchen');
+    expect(hook.current.state).toBe('done');
+    expect(hook.current.total).toBe(42);
+    expect(hook.current.results).toEqual([result]);
+  });
+
+  test('should report a failed search', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockSearchBook.mockRejectedValue(new Error('offline'));
+    const { result: hook } = renderHook(() => useBookSearch('gengchen'));
+
+    act(() => {
+      hook.current.setIsOpen(true);
+      hook.current.setTerm('黛玉');
+    });
+    await act(async () => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(hook.current.state).toBe('error');
+    consoleError.mockRestore();
+  });
+
+  test('should hold the result picked until it is cleared', () => {
+    const { result: hook } = renderHook(() => useBookSearch('gengchen'));
+
+    act(() => hook.current.jumpTo(result));
+    expect(hook.current.pendingJump).toBe(result);
+
+    act(() => hook.current.clearPendingJump());
+    expect(hook.current.pendingJump).toBeNull();
+  });
+});
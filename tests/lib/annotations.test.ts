@@ -0,0 +1,111 @@
+/**
+ * @fileOverview Unit Tests for the Annotation Layer
+ * @description Validates annotation dataset parsing, conversion of inline annotations,
+ * merging, placement in (possibly corrected) chapter text and segmentation of
+ * overlapping annotations for rendering.
+ */
+
+import {
+  getAnnotationSource,
+  getInlineAnnotations,
+  isAnnotationSourceId,
+  mergeAnnotations,
+  normalizeAnnotationsJson,
+  placeAnnotations,
+  segmentAnnotations,
+} from '@/lib/annotations';
+import { createTextAnchor } from '@/lib/text-anchoring';
+import type { ChapterAnnotation, Paragraph } from '@/types/chapter';
+
+const paragraphText = '卻說姑蘇城關外，有個葫蘆廟，廟旁住着一家鄉宦，姓甄名費，字士隱。';
+const paragraphs: Paragraph[] = [{ id: 'ch1-p5', content: [paragraphText] }];
+
+const annotate = (id: string, source: ChapterAnnotation['source'], quote: string, note: string): ChapterAnnotation => {
+  const start = paragraphText.indexOf(quote);
+  return { id, source, quote, note, anchor: createTextAnchor('ch1-p5', paragraphText, start, start + quote.length) };
+};
+
+const hulu = annotate('ch1-zhiyanzhai-hulumiao', 'zhiyanzhai', '葫蘆廟', '糊塗也，故假語從此具焉。');
+const huluEditorial = annotate('ch1-editorial-hulumiao', 'editorial', '葫蘆廟', '廟名。');
+const gusu = annotate('ch1-editorial-gusu', 'editorial', '姑蘇城關外，有個葫蘆廟', '姑蘇即今蘇州。');
+
+describe('Annotation sources', () => {
+  test('should recognise known source ids only', () => {
+    expect(isAnnotationSourceId('zhiyanzhai')).toBe(true);
+    expect(isAnnotationSourceId('unknown')).toBe(false);
+    expect(isAnnotationSourceId(undefined)).toBe(false);
+    expect(getAnnotationSource('scholar').nameKey).toBe('annotations.sources.scholar.name');
+  });
+});
+
+describe('normalizeAnnotationsJson', () => {
+  test('should accept a valid dataset', () => {
+    const annotations = normalizeAnnotationsJson({ chapterId: 1, annotations: [{ ...hulu, author: '脂硯齋', position: 'interlinear' }] }, 1);
+    expect(annotations).toHaveLength(1);
+    expect(annotations[0].position).toBe('interlinear');
+  });
+
+  test('should reject mismatched chapters and malformed annotations', () => {
+    expect(() => normalizeAnnotationsJson({ chapterId: 2, annotations: [] }, 1)).toThrow('does not match');
+    expect(() => normalizeAnnotationsJson({ chapterId: 1, annotations: [{ ...hulu, source: 'other' }] })).toThrow('unknown source');
+    expect(() => normalizeAnnotationsJson({ chapterId: 1, annotations: [{ ...hulu, note: ' ' }] })).toThrow('quote and a note');
+    expect(() => normalizeAnnotationsJson({ chapterId: 1, annotations: [{ ...hulu, anchor: { ...hulu.anchor, endOffset: 0 } }] })).toThrow('invalid anchor');
+    expect(() => normalizeAnnotationsJson({ chapterId: 1, annotations: [{ ...hulu, position: 'footnote' }] })).toThrow('unknown position');
+    expect(() => normalizeAnnotationsJson({ chapterId: 1, annotations: [hulu, hulu] })).toThrow('repeats id');
+  });
+});
+
+describe('getInlineAnnotations', () => {
+  test('should anchor inline annotations as editorial notes', () => {
+    const [annotation] = getInlineAnnotations({
+      paragraphs: [{ id: 'ch3-p2', content: ['那', { id: 'ch3-p2-anno-x', text: '冷子興', note: '古董商人' }, '笑道'] }],
+    });
+
+    expect(annotation).toMatchObject({ id: 'ch3-p2-anno-x', source: 'editorial', quote: '冷子興', note: '古董商人' });
+    expect(annotation.anchor).toMatchObject({ paragraphId: 'ch3-p2', startOffset: 1, endOffset: 4, prefix: '那', suffix: '笑道' });
+  });
+});
+
+describe('mergeAnnotations', () => {
+  test('should prefer dataset entries over inline annotations with the same id', () => {
+    const inline = [{ ...hulu, note: '舊註' }, huluEditorial];
+    expect(mergeAnnotations([hulu], inline)).toEqual([hulu, huluEditorial]);
+  });
+});
+
+describe('placeAnnotations', () => {
+  test('should re-anchor annotations in a differing text and drop those not found', () => {
+    const corrected: Paragraph[] = [{ id: 'ch1-p5', content: ['話說姑蘇城關外，有個葫蘆廟，廟旁住着一家鄉宦。'] }];
+    const missing = annotate('ch1-zhiyanzhai-shiyin', 'zhiyanzhai', '士隱', '託言將真事隱去也。');
+
+    const placed = placeAnnotations([hulu, missing], corrected);
+
+    expect(placed).toHaveLength(1);
+    expect(placed[0].position).toMatchObject({ paragraphId: 'ch1-p5', startOffset: 10, endOffset: 13, status: 'exact' });
+  });
+});
+
+describe('segmentAnnotations', () => {
+  const placed = placeAnnotations([hulu, huluEditorial, gusu], paragraphs);
+
+  test('should split a range at annotation boundaries', () => {
+    const segments = segmentAnnotations(placed, 0, 14);
+
+    expect(segments.map(s => [s.start, s.end, s.annotations.map(a => a.annotation.id)])).toEqual([
+      [0, 2, []],
+      [2, 10, ['ch1-editorial-gusu']],
+      [10, 13, ['ch1-zhiyanzhai-hulumiao', 'ch1-editorial-hulumiao', 'ch1-editorial-gusu']],
+      [13, 14, []],
+    ]);
+  });
+
+  test('should clip annotations to the requested range', () => {
+    const segments = segmentAnnotations(placed, 11, 12);
+    expect(segments).toHaveLength(1);
+    expect(segments[0].annotations).toHaveLength(3);
+  });
+
+  test('should return one plain segment when nothing is annotated', () => {
+    expect(segmentAnnotations([], 3, 8)).toEqual([{ start: 3, end: 8, annotations: [] }]);
+  });
+});
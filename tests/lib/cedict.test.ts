@@ -0,0 +1,56 @@
+/**
+ * @fileOverview Unit tests for the CC-CEDICT import
+ *
+ * Tests building the bundled part of the reading dictionary:
+ * - Parsing the CC-CEDICT text format
+ * - Selecting characters, classical words and words of the chapters
+ * - Merging entries with the same headword and reading
+ */
+
+import { parseCedict, pinyinKey, selectCedictEntries, type CedictEntry } from '@/lib/cedict';
+
+const cedict = `# CC-CEDICT
+# Community maintained free Chinese-English dictionary.
+隱 隐 [yin3] /secret; hidden/
+隱 隐 [yin4] /to lean upon/
+甄 甄 [Zhen1] /surname Zhen/
+甄 甄 [zhen1] /to distinguish/
+夢幻 梦幻 [meng4 huan4] /dream; illusion/
+飫甘饜肥 饫甘餍肥 [yu4 gan1 yan4 fei2] /(idiom) to live in luxury/
+電腦 电脑 [dian4 nao3] /computer/
+女 女 [nu:3] /female/
+3C 3C [san1 C] /computers, communications, and consumer electronics/
+`;
+
+describe('CC-CEDICT import', () => {
+  let entries: CedictEntry[];
+
+  beforeAll(() => {
+    entries = parseCedict(cedict);
+  });
+
+  it('parses entries and skips comments', () => {
+    expect(entries).toHaveLength(9);
+    expect(entries[0]).toEqual({ traditional: '隱', simplified: '隐', pinyin: 'yin3', english: ['secret; hidden'] });
+    expect(() => parseCedict('隱 隐 yin3 /secret/')).toThrow('line 1');
+  });
+
+  it('selects characters, classical words and words of the chapters', () => {
+    const selected = selectCedictEntries(entries, '甄士隱夢幻識通靈');
+
+    expect(selected.map(entry => entry.traditional)).toEqual(['隱', '隱', '甄', '夢幻', '飫甘饜肥', '女']);
+    expect(selected.every(entry => entry.definitions.length === 0)).toBe(true);
+  });
+
+  it('merges entries that differ only in capitalisation', () => {
+    const [zhen] = selectCedictEntries(entries, '').filter(entry => entry.traditional === '甄');
+
+    expect(zhen.english).toEqual(['surname Zhen', 'to distinguish']);
+  });
+
+  it('compares pinyin across spellings of ü', () => {
+    expect(pinyinKey('nu:3')).toBe(pinyinKey('nü3'));
+    expect(pinyinKey('Nv3')).toBe(pinyinKey('nü3'));
+    expect(pinyinKey('yin3')).not.toBe(pinyinKey('yin4'));
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * @fileOverview Unit Tests for Chapter Export
+ * @description Validates placement of notes and highlights in the exported
+ * text, Markdown and HTML rendering with inline notes or endnotes, EPUB
+ * packaging, PDF layout and file naming.
+ */
+
+import {
+  buildEpub,
+  buildExportChapter,
+  buildPdf,
+  exportChapters,
+  getExportFileName,
+  renderChapterHtml,
+  renderMarkdown,
+  type ExportOptions,
+} from '@/lib/chapter-export';
+import { createTextAnchor } from '@/lib/text-anchoring';
+import type { Note } from '@/lib/notes-service';
+import type { Highlight } from '@/lib/highlight-service';
+import type { Chapter } from '@/types/chapter';
+
+jest.mock('@/lib/firebase', () => ({ db: {} }));
+
+const chapter: Chapter = {
+  id: 1,
+  title: '第一回 甄士隱夢幻識通靈 賈雨村風塵懷閨秀',
+  paragraphs: [
+    { id: 'ch1-p1', content: ['此開卷第一回也。作者自云：因曾歷過一番夢幻之後，故將真事隱去。'] },
+    { id: 'ch1-p2', content: ['卻說那女媧氏煉石補天之時，於大荒山無稽崖煉成高經十二丈的頑石。'] },
+  ],
+};
+
+const note = (selectedText: string, text: string, minutes = 0): Note => ({
+  userId: 'user-1',
+  chapterId: 1,
+  selectedText,
+  note: text,
+  createdAt: new Date(2026, 0, 1, 0, minutes),
+});
+
+const p2 = '卻說那女媧氏煉石補天之時，於大荒山無稽崖煉成高經十二丈的頑石。';
+const highlight: Highlight = {
+  userId: 'user-1',
+  chapterId: 1,
+  selectedText: '女媧氏煉石補天',
+  anchor: createTextAnchor('ch1-p2', p2, 3, 10),
+  color: 'green',
+  createdAt: new Date(2026, 0, 1),
+};
+
+const options = (overrides: Partial<ExportOptions> = {}): ExportOptions => ({
+  format: 'markdown',
+  notePlacement: 'endnotes',
+  title: '紅樓夢',
+  labels: { notes: '筆記', contents: '目錄' },
+  date: new Date('2026-10-19T08:00:00Z'),
+  ...overrides,
+});
+
+describe('buildExportChapter', () => {
+  test('should number notes in reading order and list unplaced notes last', () => {
+    const exported = buildExportChapter(chapter, [
+      note('頑石', '通靈寶玉的前身', 0),
+      note('已刪去的句子', '找不到原文', 1),
+      note('真事隱去', '甄士隱', 2),
+    ], []);
+
+    expect(exported.notes.map(n => [n.number, n.selectedText])).toEqual([
+      [1, '真事隱去'],
+      [2, '頑石'],
+      [3, '已刪去的句子'],
+    ]);
+    expect(exported.paragraphs[0].notes).toHaveLength(1);
+    expect(exported.paragraphs[1].notes[0]).toMatchObject({ number: 2, endOffset: p2.length - 1 });
+    expect(exported.notes[2].paragraphId).toBeUndefined();
+  });
+
+  test('should place highlights by their anchors', () => {
+    const exported = buildExportChapter(chapter, [], [highlight]);
+    expect(exported.paragraphs[1].highlights).toEqual([{ start: 3, end: 10, color: 'green' }]);
+  });
+});
+
+describe('renderMarkdown', () => {
+  const exported = buildExportChapter(chapter, [note('女媧氏煉石補天', '神話*補天*'), note('不在本回', '另記')], [highlight]);
+
+  test('should mark highlights and add footnotes as endnotes', () => {
+    const markdown = renderMarkdown([exported], options());
+
+    expect(markdown).toContain('# 紅樓夢\n\n## 第一回');
+    expect(markdown).toContain('卻說那<mark>女媧氏煉石補天</mark>[^ch1-1]之時');
+    expect(markdown).toContain('### 筆記\n\n[^ch1-1]: 「女媧氏煉石補天」神話*補天*\n[^ch1-2]: 「不在本回」另記');
+  });
+
+  test('should quote notes after their paragraph when inline', () => {
+    const markdown = renderMarkdown([exported], options({ notePlacement: 'inline' }));
+
+    expect(markdown).not.toContain('[^');
+    expect(markdown).toContain('的頑石。\n\n> 「女媧氏煉石補天」神話*補天*');
+    // Notes whose text is missing are still listed
+    expect(markdown).toContain('### 筆記\n\n- 「不在本回」另記');
+  });
+
+  test('should escape Markdown syntax in chapter text and convert scripts', () => {
+    const starred = buildExportChapter({ id: 2, title: '第二回', paragraphs: [{ id: 'ch2-p1', content: ['*夢*'] }] }, [], []);
+    const markdown = renderMarkdown([starred], options({ transformText: text => text.replace(/夢/g, '梦') }));
+    expect(markdown).toContain('\\*梦\\*');
+  });
+});
+
+describe('HTML rendering', () => {
+  const exported = buildExportChapter(chapter, [note('女媧氏煉石補天', '<神話>')], [highlight]);
+
+  test('should link note references to endnotes and escape text', () => {
+    const html = renderChapterHtml(exported, options({ format: 'epub' }));
+
+    expect(html).toContain('<mark class="hl-green">女媧氏煉石補天</mark><a class="noteref" epub:type="noteref" id="ref-1-1" href="#note-1-1">1</a>');
+    expect(html).toContain('<li id="note-1-1" epub:type="endnote">');
+    expect(html).toContain('&lt;神話&gt;');
+  });
+
+  test('should put inline notes in asides', () => {
+    const html = renderChapterHtml(exported, options({ notePlacement: 'inline' }));
+    expect(html).toContain('<aside class="note">');
+    expect(html).not.toContain('noteref');
+  });
+});
+
+describe('buildEpub', () => {
+  test('should start with a stored mimetype and include every chapter', () => {
+    const second = buildExportChapter({ id: 2, title: '第二回', paragraphs: [{ id: 'ch2-p1', content: ['冷子興演說榮國府'] }] }, [], []);
+    const epub = buildEpub([buildExportChapter(chapter, [], []), second], options({ format: 'epub' }));
+    const text = new TextDecoder().decode(epub);
+
+    expect(text.slice(30, 58)).toBe('mimetypeapplication/epub+zip');
+    expect(text).toContain('<rootfile full-path="OEBPS/content.opf"');
+    expect(text).toContain('<itemref idref="chapter1"/>\n<itemref idref="chapter2"/>');
+    expect(text).toContain('<meta property="dcterms:modified">2026-10-19T08:00:00Z</meta>');
+    expect(text).toContain('OEBPS/chapter2.xhtml');
+  });
+});
+
+describe('buildPdf', () => {
+  // Hex string of text as the PDF writer encodes it
+  const hex = (text: string) => Array.from(text, char => char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')).join('');
+  const decode = (pdf: Uint8Array) => new TextDecoder().decode(pdf);
+
+  test('should draw highlights behind the text and number endnotes', () => {
+    const exported = buildExportChapter(chapter, [note('女媧氏煉石補天', '神話')], [highlight]);
+    const pdf = decode(buildPdf([exported], options({ format: 'pdf' })));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/BaseFont /MSung-Light /Encoding /UniCNS-UCS2-H');
+    // Green highlight, then the highlighted text and its raised note number
+    expect(pdf).toMatch(new RegExp(`0\\.73 0\\.97 0\\.82 rg [\\d. ]+ re f\\nBT 0 0 0 rg /F1 11 Tf [\\d. ]+ Td <${hex('女媧氏煉石補天')}> Tj ET`));
+    expect(pdf).toContain(`/F1 6.6 Tf`);
+    expect(pdf).toContain(`<${hex('1. 「女媧氏煉石補天」')}>`);
+    expect(pdf).toContain(`<${hex('筆記')}>`);
+  });
+
+  test('should put inline notes after their paragraph and start each chapter on a new page', () => {
+    const second = buildExportChapter({ id: 2, title: '第二回', paragraphs: [{ id: 'ch2-p1', content: ['冷子興演說榮國府'] }] }, [], []);
+    const exported = buildExportChapter(chapter, [note('頑石', '通靈寶玉')], []);
+    const pdf = decode(buildPdf([exported, second], options({ format: 'pdf', notePlacement: 'inline' })));
+
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain(`<${hex('「頑石」')}>`);
+    expect(pdf).toContain(`<${hex('通靈寶玉')}>`);
+    expect(pdf).not.toContain('/F1 6.6 Tf');
+  });
+
+  test('should break long chapters across pages and use the Simplified font', () => {
+    const long = buildExportChapter({
+      id: 3,
+      title: '第三回',
+      paragraphs: Array.from({ length: 40 }, (_, i) => ({ id: `ch3-p${i + 1}`, content: ['賈雨村夤緣復舊職，林黛玉拋父進京都。'.repeat(6)] })),
+    }, [], []);
+    const pdf = decode(buildPdf([long], options({ format: 'pdf', language: 'zh-Hans' })));
+
+    expect(Number(/\/Count (\d+)/.exec(pdf)![1])).toBeGreaterThan(1);
+    expect(pdf).toContain('/BaseFont /STSong-Light /Encoding /UniGB-UCS2-H');
+  });
+});
+
+describe('exportChapters', () => {
+  test('should name files after the chapters exported', () => {
+    expect(getExportFileName([1])).toBe('hongloumeng-ch1');
+    expect(getExportFileName([3, 1, 2])).toBe('hongloumeng-ch1-3');
+    expect(getExportFileName([1, 2], 2)).toBe('hongloumeng');
+  });
+
+  test('should return a file for each format', () => {
+    const exported = [buildExportChapter(chapter, [], [])];
+    expect(exportChapters(exported, options())).toMatchObject({ fileName: 'hongloumeng-ch1.md', mimeType: 'text/markdown;charset=utf-8' });
+    expect(exportChapters(exported, options({ format: 'epub' })).data).toBeInstanceOf(Uint8Array);
+    expect(exportChapters(exported, options({ format: 'pdf' }))).toMatchObject({ fileName: 'hongloumeng-ch1.pdf', mimeType: 'application/pdf' });
+  });
+
+  test('should refuse an empty export', () => {
+    expect(() => exportChapters([], options())).toThrow('No chapters to export');
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @fileOverview Unit Tests for the Chapter Corpus Loader
+ * @description Validates chapter file validation, paragraph id assignment and the
+ * browser-side loaders used by the reading page.
+ */
+
+import {
+  TOTAL_CHAPTERS,
+  isValidChapterNumber,
+  normalizeChapterJson,
+  getParagraphText,
+  getVernacularText,
+  loadChapter,
+  loadChapterIndex,
+} from '@/lib/chapter-loader';
+
+global.fetch = jest.fn();
+
+const validChapter = {
+  id: 3,
+  title: '第三回 托內兄如海酬訓教 接外孫賈母惜孤女',
+  paragraphs: [
+    { content: ['卻說雨村忙回頭看時，'] },
+    {
+      id: 'custom-id',
+      content: ['那', { id: 'ch3-p2-anno-x', text: '冷子興', note: '古董商人' }, '笑道'],
+      vernacular: '（白話文）……',
+    },
+  ],
+};
+
+describe('Chapter Loader - validation', () => {
+  test('should accept chapter numbers 1-120 only', () => {
+    expect(TOTAL_CHAPTERS).toBe(120);
+    expect(isValidChapterNumber(1)).toBe(true);
+    expect(isValidChapterNumber(120)).toBe(true);
+    expect(isValidChapterNumber(0)).toBe(false);
+    expect(isValidChapterNumber(121)).toBe(false);
+    expect(isValidChapterNumber(2.5)).toBe(false);
+    expect(isValidChapterNumber(NaN)).toBe(false);
+  });
+
+  test('should assign default paragraph ids and keep explicit ones', () => {
+    const chapter = normalizeChapterJson(validChapter, 3);
+
+    expect(chapter.paragraphs[0].id).toBe('ch3-p1');
+    expect(chapter.paragraphs[1].id).toBe('custom-id');
+  });
+
+  test('should reject malformed chapter data', () => {
+    expect(() => normalizeChapterJson(null)).toThrow('Chapter data must be an object');
+    expect(() => normalizeChapterJson({ ...validChapter, id: 200 })).toThrow('Invalid chapter id');
+    expect(() => normalizeChapterJson(validChapter, 4)).toThrow('does not match expected chapter 4');
+    expect(() => normalizeChapterJson({ ...validChapter, title: '' })).toThrow('missing a title');
+    expect(() => normalizeChapterJson({ ...validChapter, paragraphs: [{ content: [{ text: '缺少註釋' }] }] }))
+      .toThrow('invalid annotation');
+  });
+
+  test('should join paragraph text without annotation markup', () => {
+    const chapter = normalizeChapterJson(validChapter);
+    expect(getParagraphText(chapter.paragraphs[1])).toBe('那冷子興笑道');
+  });
+
+  test('should keep sentence alignments and reject malformed ones', () => {
+    const alignment = [{ original: [0, 1], vernacular: [0, 2] }];
+    const chapter = normalizeChapterJson({ ...validChapter, paragraphs: [{ content: ['甲。'], vernacular: '乙。丙。', alignment }] });
+    expect(chapter.paragraphs[0].alignment).toEqual(alignment);
+    expect(normalizeChapterJson(validChapter).paragraphs[0]).not.toHaveProperty('alignment');
+
+    for (const invalid of [{}, [{ original: [1, 0], vernacular: [0, 1] }], [{ original: [0, 1] }]]) {
+      expect(() => normalizeChapterJson({ ...validChapter, paragraphs: [{ content: ['甲。'], alignment: invalid }] }))
+        .toThrow('invalid sentence alignment');
+    }
+  });
+
+  test('should keep reading overrides and reject malformed ones', () => {
+    const readings = [{ text: '鼓樂', pinyin: 'gu3 yue4' }, { text: '好了', pinyin: 'hao3 liao3', paragraphId: 'ch1-p1' }];
+    expect(normalizeChapterJson({ ...validChapter, readings }).readings).toEqual(readings);
+
+    for (const invalid of [{}, [{ text: '鼓樂', pinyin: 'gu3' }], [{ text: '', pinyin: '' }], [{ text: '鼓', pinyin: 'gu3', paragraphId: 1 }]]) {
+      expect(() => normalizeChapterJson({ ...validChapter, readings: invalid })).toThrow('invalid reading override');
+    }
+  });
+
+  test('should keep poems found in their paragraph and reject others', () => {
+    const poem = { id: 'ch3-poem-x', title: '詩', form: 'quatrain', paragraphId: 'ch3-p1', text: '雨村忙回頭', notes: [{ quote: '回頭', note: '轉身' }] };
+    expect(normalizeChapterJson({ ...validChapter, poems: [poem] }).poems).toEqual([poem]);
+
+    for (const invalid of [
+      { ...poem, form: 'sonnet' },
+      { ...poem, paragraphId: 'ch3-p9' },
+      { ...poem, text: '雨村笑道' },
+      { ...poem, notes: [{ quote: '笑道', note: '……' }] },
+    ]) {
+      expect(() => normalizeChapterJson({ ...validChapter, poems: [invalid] })).toThrow('invalid poem at index 0');
+    }
+    expect(() => normalizeChapterJson({ ...validChapter, poems: {} })).toThrow('poems must be an array');
+  });
+
+  test('should strip the vernacular label', () => {
+    expect(getVernacularText({ vernacular: '（白話文）這是第一回。' })).toBe('這是第一回。');
+    expect(getVernacularText({})).toBe('');
+  });
+});
+
+describe('Chapter Loader - API loaders', () => {
+  beforeEach(() => {
+    (fetch as jest.Mock).mockReset();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  test('should load and normalize a chapter', async () => {
+    (fetch as jest.Mock).mockResolvedValue({ ok: true, status: 200, json: async () => validChapter });
+
+    const chapter = await loadChapter(3);
+
+    expect(fetch).toHaveBeenCalledWith('/api/chapters/3');
+    expect(chapter?.paragraphs[0].id).toBe('ch3-p1');
+  });
+
+  test('should request a specific edition only when it is not the default', async () => {
+    (fetch as jest.Mock).mockResolvedValue({ ok: true, status: 200, json: async () => validChapter });
+
+    await loadChapter(3, 'gengchen');
+    await loadChapter(3, 'standard');
+
+    expect(fetch).toHaveBeenNthCalledWith(1, '/api/chapters/3?edition=gengchen');
+    expect(fetch).toHaveBeenNthCalledWith(2, '/api/chapters/3');
+  });
+
+  test('should return null for chapters missing from the corpus', async () => {
+    (fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404, json: async () => ({}) });
+
+    await expect(loadChapter(99)).resolves.toBeNull();
+  });
+
+  test('should throw on server errors', async () => {
+    (fetch as jest.Mock).mockResolvedValue({ ok: false, status: 500, json: async () => ({}) });
+
+    await expect(loadChapter(1)).rejects.toThrow('Failed to load chapter 1');
+  });
+
+  test('should fall back to an all-unavailable index when the API fails', async () => {
+    (fetch as jest.Mock).mockRejectedValue(new Error('offline'));
+
+    const index = await loadChapterIndex();
+
+    expect(index).toHaveLength(120);
+    expect(index.every(entry => !entry.available)).toBe(true);
+  });
+});
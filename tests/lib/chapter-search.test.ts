@@ -0,0 +1,126 @@
+/**
+ * @fileOverview Unit Tests for Whole-Book Full-Text Search
+ * @description Validates Traditional/Simplified folding, index construction over
+ * original, vernacular and annotation text, ranking and snippet extraction.
+ */
+
+import { buildSearchIndex, buildSnippet, parseSearchQuery, searchIndex } from '@/lib/chapter-search';
+import { foldChineseVariants, normalizeForSearch } from '@/lib/chinese-variants';
+import type { Chapter, ChapterAnnotation } from '@/types/chapter';
+
+const chapters: Chapter[] = [
+  {
+    id: 1,
+    title: '第一回 甄士隱夢幻識通靈 賈雨村風塵懷閨秀',
+    paragraphs: [
+      {
+        id: 'ch1-p1',
+        content: ['此開卷第一回也。作者自云：', { id: 'ch1-p1-anno-dream', text: '因曾歷過一番夢幻之後', note: '夢幻：比喻人生無常。' }, '，故將真事隱去。'],
+        vernacular: '（白話文）這是本書的第一回。作者自己說曾經歷過一番夢幻。',
+      },
+      { id: 'ch1-p2', content: ['你道此書從何而起？說來雖近荒唐，細玩頗有趣味。'] },
+    ],
+  },
+  {
+    id: 5,
+    title: '第五回 遊幻境指迷十二釵 飲仙醪曲演紅樓夢',
+    paragraphs: [
+      { id: 'ch5-p1', content: ['寶玉夢中聽得仙姑唱紅樓夢曲，夢醒猶記夢中事。'] },
+    ],
+  },
+];
+
+describe('Chinese variant folding', () => {
+  test('should fold Traditional characters to Simplified one to one', () => {
+    expect(foldChineseVariants('紅樓夢')).toBe('红楼梦');
+    expect(foldChineseVariants('红楼梦')).toBe('红楼梦');
+    expect(foldChineseVariants('寶玉與黛玉')).toHaveLength('寶玉與黛玉'.length);
+  });
+
+  test('should ignore case for Latin text', () => {
+    expect(normalizeForSearch('Dream 夢')).toBe('dream 梦');
+  });
+});
+
+describe('parseSearchQuery', () => {
+  test('should split on whitespace and drop duplicate terms', () => {
+    expect(parseSearchQuery('  夢幻  梦幻 通靈 ')).toEqual(['梦幻', '通灵']);
+    expect(parseSearchQuery('   ')).toEqual([]);
+  });
+});
+
+describe('searchIndex', () => {
+  const index = buildSearchIndex(chapters);
+
+  test('should index original, vernacular and annotation text', () => {
+    const fields = index.documents.map(d => `${d.paragraphId}:${d.field}`);
+    expect(fields).toEqual(['ch1-p1:original', 'ch1-p1:vernacular', 'ch1-p1:annotation', 'ch1-p2:original', 'ch5-p1:original']);
+    // The vernacular label is not searchable text
+    expect(index.documents[1].text.startsWith('這是')).toBe(true);
+  });
+
+  test('should match Simplified queries against Traditional text', () => {
+    const traditional = searchIndex(index, '夢幻');
+    const simplified = searchIndex(index, '梦幻');
+
+    expect(simplified.total).toBe(3);
+    expect(simplified.results).toEqual(traditional.results);
+    expect(simplified.results[0].snippet.match).toBe('夢幻');
+  });
+
+  test('should rank by field weight and occurrences, then book order', () => {
+    const { results } = searchIndex(index, '梦');
+
+    // 第五回 has four occurrences in original text and ranks first
+    expect(results.map(r => `${r.paragraphId}:${r.field}`)).toEqual([
+      'ch5-p1:original',
+      'ch1-p1:original',
+      'ch1-p1:annotation',
+      'ch1-p1:vernacular',
+    ]);
+    expect(results[0]).toMatchObject({ chapterId: 5, matchCount: 4 });
+    expect(results[2].annotationId).toBe('ch1-p1-anno-dream');
+  });
+
+  test('should require every term to appear in the same document', () => {
+    expect(searchIndex(index, '作者 夢幻').results.map(r => r.field)).toEqual(['original', 'vernacular']);
+    expect(searchIndex(index, '作者 仙姑').total).toBe(0);
+  });
+
+  test('should respect the result limit while reporting the total', () => {
+    const response = searchIndex(index, '梦', { limit: 1 });
+    expect(response.total).toBe(4);
+    expect(response.results).toHaveLength(1);
+  });
+
+  test('should return nothing for empty or unknown queries', () => {
+    expect(searchIndex(index, ' ').results).toEqual([]);
+    expect(searchIndex(index, '林黛玉').total).toBe(0);
+  });
+
+  test('should index annotation datasets in place of inline annotations', () => {
+    const commentary: ChapterAnnotation = {
+      id: 'ch1-zhiyanzhai-huangtang',
+      source: 'zhiyanzhai',
+      quote: '荒唐',
+      anchor: { paragraphId: 'ch1-p2', startOffset: 13, endOffset: 15, prefix: '', suffix: '' },
+      note: '荒唐也。',
+      author: '脂硯齋',
+    };
+    const withDataset = buildSearchIndex(chapters, new Map([[1, [commentary]]]));
+
+    expect(searchIndex(withDataset, '比喻').total).toBe(0);
+    expect(searchIndex(withDataset, '荒唐也').results).toEqual([
+      expect.objectContaining({ paragraphId: 'ch1-p2', field: 'annotation', annotationId: 'ch1-zhiyanzhai-huangtang', annotationSource: 'zhiyanzhai' }),
+    ]);
+    // Chapters missing from the map keep their inline annotations
+    expect(searchIndex(index, '比喻').results[0].annotationSource).toBe('editorial');
+  });
+});
+
+describe('buildSnippet', () => {
+  test('should cut context around the match and mark truncation', () => {
+    expect(buildSnippet('甲乙丙丁戊己庚', 3, 1, 2)).toEqual({ before: '…乙丙', match: '丁', after: '戊己…' });
+    expect(buildSnippet('甲乙丙', 0, 1, 5)).toEqual({ before: '', match: '甲', after: '乙丙' });
+  });
+});
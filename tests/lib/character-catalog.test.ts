@@ -0,0 +1,157 @@
+/**
+ * @fileOverview Unit tests for the character catalog
+ *
+ * Tests tagging of character names in chapter text:
+ * - Validation of the catalog format
+ * - Longest-match name recognition and words that are not names
+ * - Spoiler limits: characters, aliases and profiles by reading progress
+ * - Knowledge-graph nodes related to a character
+ * - Chapters each character is named in
+ */
+
+import {
+  buildCharacterAppearances,
+  buildMentionIndex,
+  findCharacterMentions,
+  getCharacterProfile,
+  getKnownAliases,
+  getRelatedGraphNodes,
+  normalizeCharacterCatalog,
+} from '@/lib/character-catalog';
+import { transformChapterDataToGraphData, type ChapterGraphJson } from '@/lib/knowledgeGraphUtils';
+import type { CatalogCharacter, CharacterCatalogJson } from '@/types/character';
+import type { Chapter } from '@/types/chapter';
+
+const character = (overrides: Partial<CatalogCharacter> & Pick<CatalogCharacter, 'id' | 'name'>): CatalogCharacter => ({
+  aliases: [{ text: overrides.name }],
+  firstAppearance: { chapter: 1 },
+  profile: [{ fromChapter: overrides.firstAppearance?.chapter ?? 1, bio: '簡介' }],
+  graphEntities: [],
+  ...overrides,
+});
+
+const daiyu = character({
+  id: 'lin-daiyu',
+  name: '林黛玉',
+  aliases: [{ text: '絳珠仙子' }, { text: '林黛玉', fromChapter: 2 }, { text: '黛玉', fromChapter: 2 }, { text: '瀟湘妃子', fromChapter: 37 }],
+  profile: [
+    { fromChapter: 1, name: '絳珠仙子', bio: '靈河岸上的絳珠草' },
+    { fromChapter: 2, bio: '林如海之女' },
+    { fromChapter: 37, bio: '號瀟湘妃子' },
+  ],
+  graphEntities: ['絳珠草', '絳珠仙子'],
+});
+
+const catalog: CharacterCatalogJson = {
+  version: 1,
+  characters: [
+    character({ id: 'jia-yucun', name: '賈雨村', aliases: [{ text: '賈雨村' }, { text: '雨村' }] }),
+    character({ id: 'jia-baoyu', name: '賈寶玉', aliases: [{ text: '寶玉' }], firstAppearance: { chapter: 2 } }),
+    daiyu,
+  ],
+  nonNames: ['通靈寶玉'],
+};
+
+describe('Character catalog', () => {
+  describe('normalizeCharacterCatalog', () => {
+    test('should accept a valid catalog', () => {
+      expect(normalizeCharacterCatalog(catalog)).toEqual(catalog);
+    });
+
+    test('should reject an alias claimed by two characters', () => {
+      const data = { version: 1, characters: [...catalog.characters, character({ id: 'other', name: '雨村' })] };
+
+      expect(() => normalizeCharacterCatalog(data)).toThrow('repeats alias 雨村 of jia-yucun');
+    });
+
+    test('should reject aliases introduced before the first appearance', () => {
+      const data = {
+        version: 1,
+        characters: [character({ id: 'xue-baochai', name: '薛寶釵', firstAppearance: { chapter: 4 }, aliases: [{ text: '寶釵', fromChapter: 3 }] })],
+      };
+
+      expect(() => normalizeCharacterCatalog(data)).toThrow('introduces alias 寶釵 before its first appearance');
+    });
+
+    test('should require profiles to start at the first appearance', () => {
+      const data = { version: 1, characters: [character({ id: 'jia-zheng', name: '賈政', profile: [{ fromChapter: 2, bio: '簡介' }] })] };
+
+      expect(() => normalizeCharacterCatalog(data)).toThrow('needs profile stages in chapter order');
+    });
+
+    test('should reject one-character aliases', () => {
+      const data = { version: 1, characters: [character({ id: 'monk', name: '僧' })] };
+
+      expect(() => normalizeCharacterCatalog(data)).toThrow('alias shorter than two characters');
+    });
+  });
+
+  describe('findCharacterMentions', () => {
+    test('should prefer the longest name', () => {
+      const index = buildMentionIndex(catalog, 1);
+
+      expect(findCharacterMentions(index, '這賈雨村見雨村')).toEqual([
+        { characterId: 'jia-yucun', start: 1, end: 4 },
+        { characterId: 'jia-yucun', start: 5, end: 7 },
+      ]);
+    });
+
+    test('should skip words that contain a name but are not one', () => {
+      const index = buildMentionIndex(catalog, 5);
+
+      expect(findCharacterMentions(index, '通靈寶玉與寶玉')).toEqual([
+        { characterId: 'jia-baoyu', start: 5, end: 7 },
+      ]);
+    });
+
+    test('should not tag characters or aliases beyond the reader\'s progress', () => {
+      const text = '寶玉見了黛玉，原是絳珠仙子，號瀟湘妃子';
+
+      expect(findCharacterMentions(buildMentionIndex(catalog, 1), text).map(mention => text.slice(mention.start, mention.end)))
+        .toEqual(['絳珠仙子']);
+      expect(findCharacterMentions(buildMentionIndex(catalog, 3), text).map(mention => text.slice(mention.start, mention.end)))
+        .toEqual(['寶玉', '黛玉', '絳珠仙子']);
+    });
+  });
+
+  describe('profiles', () => {
+    test('should show the latest profile the reader has reached', () => {
+      expect(getCharacterProfile(daiyu, 1)).toEqual({ name: '絳珠仙子', bio: '靈河岸上的絳珠草' });
+      expect(getCharacterProfile(daiyu, 36)).toEqual({ name: '林黛玉', bio: '林如海之女' });
+      expect(getCharacterProfile(daiyu, 80)).toEqual({ name: '林黛玉', bio: '號瀟湘妃子' });
+    });
+
+    test('should list only the aliases known at the reader\'s progress', () => {
+      expect(getKnownAliases(daiyu, 1)).toEqual(['絳珠仙子']);
+      expect(getKnownAliases(daiyu, 37)).toEqual(['絳珠仙子', '林黛玉', '黛玉', '瀟湘妃子']);
+      expect(getKnownAliases(catalog.characters[1], 1)).toEqual([]);
+    });
+  });
+
+  describe('getRelatedGraphNodes', () => {
+    test('should list the nodes connected to any of the character\'s graph entities', () => {
+      const graph = transformChapterDataToGraphData({
+        entities: ['絳珠草', '絳珠仙子', '赤瑕宮神瑛侍者', '還淚'],
+        relationships: ['絳珠草 - 修成 - 絳珠仙子', '絳珠仙子 - 下凡 - 還淚', '赤瑕宮神瑛侍者 - 灌溉 - 絳珠草'],
+      } as ChapterGraphJson);
+
+      expect(getRelatedGraphNodes(daiyu, graph)).toEqual([
+        { name: '還淚', relationship: '下凡', direction: 'outgoing' },
+        { name: '赤瑕宮神瑛侍者', relationship: '灌溉', direction: 'incoming' },
+      ]);
+    });
+  });
+
+  describe('buildCharacterAppearances', () => {
+    test('should list the chapters each character is named in, by the aliases known there', () => {
+      const chapter = (id: number, text: string): Chapter => ({
+        id, title: `第${id}回`, paragraphs: [{ id: `ch${id}-p1`, content: [text] }],
+      });
+
+      // 黛玉 is only an alias of 林黛玉 from chapter 2
+      const appearances = buildCharacterAppearances(catalog, [chapter(2, '雨村見了黛玉'), chapter(1, '黛玉與雨村')]);
+
+      expect(appearances).toEqual({ 'jia-yucun': [1, 2], 'lin-daiyu': [2] });
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * @fileOverview Unit tests for the character reading table
+ *
+ * Tests the default readings used for ruby annotation:
+ * - Hand-edited levels and polyphone defaults
+ * - Readings from CC-CEDICT for characters the table does not grade
+ * - A reading for every character of the bundled chapters, character lists,
+ *   genealogy and annotations
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getCharacterReading } from '@/lib/character-readings';
+
+const BUNDLED_DATA_DIR = path.join(process.cwd(), 'src/app/(main)/read');
+
+// Text of every bundled JSON file but the dictionaries
+const readBundledText = (dir: string = BUNDLED_DATA_DIR): string =>
+  fs.readdirSync(dir, { withFileTypes: true }).map(entry => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name === 'dictionary' ? '' : readBundledText(file);
+    return entry.name.endsWith('.json') ? fs.readFileSync(file, 'utf-8') : '';
+  }).join('\n');
+
+describe('getCharacterReading', () => {
+  test('should grade characters of the hand-edited table', () => {
+    expect(getCharacterReading('一')).toEqual({ pinyin: 'yi1', level: 1 });
+    expect(getCharacterReading('甄')).toEqual({ pinyin: 'zhen1', level: 4 });
+    expect(getCharacterReading('隐')).toEqual({ pinyin: 'yin3', level: 2 });
+  });
+
+  test('should prefer the book reading of polyphonic characters', () => {
+    expect(getCharacterReading('著')?.pinyin).toBe('zhe5');
+    expect(getCharacterReading('馮')?.pinyin).toBe('feng2');
+    expect(getCharacterReading('重')?.pinyin).toBe('zhong4');
+  });
+
+  test('should read other characters from CC-CEDICT as rare', () => {
+    expect(getCharacterReading('薛')).toEqual({ pinyin: 'xue1', level: 4 });
+    expect(getCharacterReading('黛')?.pinyin).toBe('dai4');
+    expect(getCharacterReading('盐')?.pinyin).toBe('yan2');
+  });
+
+  test('should have no reading for punctuation and Latin letters', () => {
+    expect(getCharacterReading('，')).toBeUndefined();
+    expect(getCharacterReading('a')).toBeUndefined();
+  });
+
+  test('should have a reading for every character of the bundled text', () => {
+    const characters = new Set(readBundledText().match(/[㐀-䶿一-鿿豈-﫿]/g));
+
+    expect(characters.size).toBeGreaterThan(1000);
+    expect([...characters].filter(char => !getCharacterReading(char))).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @fileOverview Unit tests for Traditional → Simplified conversion
+ *
+ * Tests the conversion used for zh-CN display:
+ * - Many-to-one and context-dependent characters
+ * - Length preservation, so text offsets stay valid
+ * - Hand-checked passages of chapter 1
+ * - Hand-checked sentences on ambiguous characters (tests/fixtures/zh-CN-reference.json)
+ * - All bundled text (chapters, annotations, catalogs, dictionary headwords)
+ *   against OpenCC's own Taiwan → Mainland conversion
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Converter } from 'opencc-js/t2cn';
+import { convertToSimplified } from '@/lib/chinese-conversion';
+import variantTables from '@/lib/chinese-variants.json';
+import { parseOpenccTable } from '@/lib/chinese-variants';
+import { getParagraphText } from '@/lib/chapter-loader';
+import { readChapterFromCorpus } from '@/lib/chapter-corpus';
+import reference from '../fixtures/zh-CN-reference.json';
+
+const BUNDLED_DATA_DIR = path.join(process.cwd(), 'src/app/(main)/read');
+
+// Words the conversion deliberately converts unlike OpenCC (BOOK_PHRASES)
+const OPENCC_CORRECTIONS: [string, string][] = [
+  ['专着', '专著'], ['遗着', '遗著'], ['见微知着', '见微知著'], ['合著眼', '合着眼'], ['甚么', '什么'],
+];
+
+// Every string in a JSON value
+const collectStrings = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(collectStrings);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(collectStrings);
+  return [];
+};
+
+// Text of every bundled JSON file; of the CC-CEDICT selection, the headwords
+const readBundledText = (): string[] => {
+  const texts: string[] = [];
+  const visit = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        visit(file);
+      } else if (entry.name === 'cedict.json') {
+        const cedict = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        texts.push(...cedict.entries.map((headword: { traditional: string }) => headword.traditional));
+      } else if (entry.name.endsWith('.json')) {
+        texts.push(...collectStrings(JSON.parse(fs.readFileSync(file, 'utf-8'))));
+      }
+    }
+  };
+  visit(BUNDLED_DATA_DIR);
+  return texts.filter(text => /[\u4e00-\u9fff]/.test(text));
+};
+
+describe('convertToSimplified', () => {
+  test('should convert many-to-one characters', () => {
+    expect(convertToSimplified('頭髮發白')).toBe('头发发白');
+    expect(convertToSimplified('乾淨能幹')).toBe('干净能干');
+    expect(convertToSimplified('裡外裏面')).toBe('里外里面');
+  });
+
+  test('should convert context-dependent characters by phrase', () => {
+    expect(convertToSimplified('乾坤')).toBe('乾坤');
+    expect(convertToSimplified('乾隆年間')).toBe('乾隆年间');
+    expect(convertToSimplified('著實著名')).toBe('着实著名');
+    expect(convertToSimplified('宮商角徵羽，徵收')).toBe('宫商角徵羽，征收');
+    expect(convertToSimplified('說甚麼')).toBe('说什么');
+    expect(convertToSimplified('名著巨著，議論著，大著膽子')).toBe('名著巨著，议论着，大着胆子');
+    expect(convertToSimplified('於是於菟')).toBe('于是於菟');
+    expect(convertToSimplified('藉此機會，杯盤狼藉')).toBe('借此机会，杯盘狼藉');
+    expect(convertToSimplified('計畫畫畫，鐵鍊鍛鍊')).toBe('计划画画，铁链锻炼');
+  });
+
+  test('should convert 後, 臺, 颱, 檯 and 幹 everywhere and keep 后, 台 and 干', () => {
+    expect(convertToSimplified('皇后身後，后土')).toBe('皇后身后，后土');
+    expect(convertToSimplified('臺灣颱風，櫃檯戲台')).toBe('台湾台风，柜台戏台');
+    expect(convertToSimplified('能幹幹練，干涉若干')).toBe('能干干练，干涉若干');
+  });
+
+  test('should leave Simplified text, punctuation and Latin text unchanged', () => {
+    expect(convertToSimplified('红楼梦 Dream，「通灵」')).toBe('红楼梦 Dream，「通灵」');
+    expect(convertToSimplified('')).toBe('');
+  });
+
+  test('should only hold table entries that keep their length', () => {
+    for (const table of [variantTables.twVariantPhrases, variantTables.twVariants, variantTables.phrases, variantTables.characters]) {
+      for (const [traditional, simplified] of parseOpenccTable(table)) {
+        expect(simplified).toHaveLength(traditional.length);
+      }
+    }
+  });
+});
+
+describe('convertToSimplified - chapter 1 corpus', () => {
+  test('should match hand-checked passages', async () => {
+    const chapter = await readChapterFromCorpus(1);
+    const opening = getParagraphText(chapter!.paragraphs[0]);
+
+    expect(convertToSimplified(opening)).toMatch(
+      /^此开卷第一回也。作者自云：因曾历过一番梦幻之后，故将真事隐去，而借「通灵」之说，撰此《石头记》一书也。/
+    );
+    expect(convertToSimplified('我堂堂鬚眉，誠不若彼裙釵。我實愧則有餘，悔又無益')).toBe('我堂堂须眉，诚不若彼裙钗。我实愧则有余，悔又无益');
+    expect(convertToSimplified('錦衣紈褲之時，飫甘饜肥之日')).toBe('锦衣纨裤之时，饫甘餍肥之日');
+  });
+});
+
+describe('convertToSimplified - reference conversion', () => {
+  test.each(reference.passages.map(passage => [passage.traditional.slice(0, 12), passage]))(
+    'should match the hand-checked reference for %s',
+    (_, { traditional, simplified }) => {
+      expect(convertToSimplified(traditional)).toBe(simplified);
+    }
+  );
+
+  test('should convert all bundled text as OpenCC does and keep every offset', () => {
+    const opencc = Converter({ from: 'tw', to: 'cn' });
+    const mismatches: { text: string; converted: string; expected: string }[] = [];
+
+    for (const text of readBundledText()) {
+      const converted = convertToSimplified(text);
+      expect(converted).toHaveLength(text.length);
+      // Characters OpenCC simplifies outside the Basic Multilingual Plane (綎 → 𬘩)
+      // would change offsets, so they stay Traditional
+      const expected = OPENCC_CORRECTIONS.reduce((result, [wrong, right]) => result.split(wrong).join(right), opencc(text));
+      if (expected.length !== text.length) continue;
+      if (converted !== expected) mismatches.push({ text, converted, expected });
+    }
+
+    expect(mismatches).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * @fileOverview Unit tests for the cumulative knowledge graph
+ *
+ * Tests merging chapter graphs 1..N into one network:
+ * - Validation of the entity catalog
+ * - Resolution of names across chapters through the character and entity catalogs
+ * - Chapters recorded on nodes and edges, and replaying them with slices
+ * - Transformation for the graph view's timeline
+ */
+
+import { buildCumulativeGraph, sliceCumulativeGraph } from '@/lib/cumulative-graph';
+import { normalizeEntityCatalog } from '@/lib/entity-catalog';
+import { transformCumulativeGraphToGraphData } from '@/lib/knowledgeGraphUtils';
+import type { CatalogCharacter, CharacterCatalogJson } from '@/types/character';
+import type { EntityCatalogJson } from '@/types/entity';
+import type { GraphEntity, GraphRelationship, StructuredChapterGraph } from '@/types/graph';
+
+const metadata = {
+  version: 'test', description: '測試', processing_time: 0, chunks_processed: 1, total_characters: 10,
+  clustering_time: 0, clustered_entities: 3, phase3_time: 0, synonym_merges_applied: 0, entities_merged: 0,
+  total_processing_time: 0, strategy: '測試', text_length: 10, original_entities: 3, streamlined_entities: 3,
+  original_relationships: 2, streamlined_relationships: 2, reduction_ratio: '0%', focus: '測試',
+  creation_date: '2026-01-01', notes: '',
+};
+
+const character = (overrides: Partial<CatalogCharacter> & Pick<CatalogCharacter, 'id' | 'name'>): CatalogCharacter => ({
+  aliases: [{ text: overrides.name }],
+  firstAppearance: { chapter: 1 },
+  profile: [{ fromChapter: overrides.firstAppearance?.chapter ?? 1, bio: '簡介' }],
+  graphEntities: [],
+  ...overrides,
+});
+
+const characters: CharacterCatalogJson = {
+  version: 1,
+  characters: [
+    character({
+      id: 'lin-daiyu',
+      name: '林黛玉',
+      aliases: [{ text: '絳珠仙子' }, { text: '林黛玉', fromChapter: 2 }, { text: '黛玉', fromChapter: 2 }],
+      profile: [{ fromChapter: 1, name: '絳珠仙子', bio: '絳珠草' }, { fromChapter: 2, bio: '林如海之女' }],
+      graphEntities: ['絳珠草', '絳珠仙子'],
+    }),
+    character({ id: 'jia-baoyu', name: '賈寶玉', aliases: [{ text: '寶玉' }], firstAppearance: { chapter: 2 } }),
+    character({ id: 'mangmang', name: '茫茫大士', graphEntities: ['一僧一道'] }),
+    character({ id: 'miaomiao', name: '渺渺真人', graphEntities: ['一僧一道'] }),
+  ],
+  nonNames: ['通靈寶玉'],
+};
+
+const entities: EntityCatalogJson = {
+  version: 1,
+  entities: [
+    {
+      id: 'tongling-baoyu', name: '通靈寶玉', aliases: ['石頭', '補天石'], type: 'artifact', category: '重要物品/文獻',
+      importance: 'primary', owner: { characterId: 'jia-baoyu', fromChapter: 2 },
+    },
+  ],
+};
+
+const graph = (chapter: number, names: string[], relationships: [string, string, string][]): StructuredChapterGraph => ({
+  schemaVersion: 2,
+  chapter,
+  entities: names.map((name, index): GraphEntity => ({ id: `entity-${index}`, name })),
+  relationships: relationships.map(([source, relation, target]): GraphRelationship => ({
+    source: `entity-${names.indexOf(source)}`,
+    target: `entity-${names.indexOf(target)}`,
+    relation,
+    direction: 'directed',
+    chapter,
+  })),
+  metadata,
+});
+
+const chapter1 = graph(1, ['絳珠草', '絳珠仙子', '石頭', '一僧一道'], [
+  ['絳珠草', '修成', '絳珠仙子'],
+  ['一僧一道', '攜帶', '石頭'],
+]);
+const chapter2 = graph(2, ['林黛玉', '寶玉', '補天石', '一僧一道'], [
+  ['寶玉', '銜', '補天石'],
+  ['一僧一道', '攜帶', '補天石'],
+]);
+const chapter3 = graph(3, ['黛玉', '寶玉'], [['寶玉', '初會', '黛玉']]);
+
+const catalogs = { characters, entities };
+
+describe('Cumulative graph', () => {
+  describe('normalizeEntityCatalog', () => {
+    test('should accept the catalog and reject repeated names or malformed owners', () => {
+      expect(normalizeEntityCatalog(entities)).toEqual(entities);
+
+      const [stone] = entities.entities;
+      expect(() => normalizeEntityCatalog({ version: 1, entities: [stone, { ...stone, id: 'wanshi', name: '頑石', aliases: ['石頭'] }] }))
+        .toThrow('Entity wanshi repeats name 石頭 of tongling-baoyu');
+      expect(() => normalizeEntityCatalog({ version: 1, entities: [{ ...stone, owner: { characterId: 'jia-baoyu', fromChapter: 0 } }] }))
+        .toThrow('has a malformed owner');
+    });
+  });
+
+  describe('buildCumulativeGraph', () => {
+    test('should resolve names across chapters into one node', () => {
+      const merged = buildCumulativeGraph([chapter3, chapter1, chapter2], catalogs, 3);
+
+      expect(merged.chapters).toEqual([1, 2, 3]);
+      expect(merged.entities.map(entity => [entity.id, entity.chapters])).toEqual([
+        ['lin-daiyu', [1, 2, 3]],
+        ['tongling-baoyu', [1, 2]],
+        ['一僧一道', [1, 2]],
+        ['jia-baoyu', [2, 3]],
+      ]);
+      expect(merged.entities[0]).toEqual(expect.objectContaining({
+        name: '林黛玉',
+        type: 'character',
+        characterId: 'lin-daiyu',
+        aliases: ['絳珠草', '絳珠仙子', '黛玉'],
+      }));
+    });
+
+    test('should merge repeated relationships and drop those between names of one entity', () => {
+      const merged = buildCumulativeGraph([chapter1, chapter2, chapter3], catalogs, 3);
+
+      expect(merged.relationships.map(({ source, relation, target, chapters }) => [source, relation, target, chapters])).toEqual([
+        ['一僧一道', '攜帶', 'tongling-baoyu', [1, 2]],
+        ['jia-baoyu', '銜', 'tongling-baoyu', [2]],
+        ['jia-baoyu', '初會', 'lin-daiyu', [3]],
+      ]);
+    });
+
+    test('should follow reading progress for names and owners', () => {
+      const merged = buildCumulativeGraph([chapter1, chapter2, chapter3], catalogs, 1);
+
+      expect(merged.chapters).toEqual([1]);
+      expect(merged.entities.find(entity => entity.id === 'lin-daiyu')?.name).toBe('絳珠仙子');
+      expect(merged.entities.find(entity => entity.id === 'tongling-baoyu')?.ownerCharacterId).toBeUndefined();
+      expect(buildCumulativeGraph([chapter1, chapter2], catalogs, 2).entities.find(entity => entity.id === 'tongling-baoyu')?.ownerCharacterId)
+        .toBe('jia-baoyu');
+    });
+  });
+
+  describe('sliceCumulativeGraph', () => {
+    test('should replay the network as it stood after a chapter', () => {
+      const slice = sliceCumulativeGraph(buildCumulativeGraph([chapter1, chapter2, chapter3], catalogs, 3), 2);
+
+      expect(slice.through).toBe(2);
+      expect(slice.entities.map(entity => [entity.id, entity.chapters])).toEqual([
+        ['lin-daiyu', [1, 2]],
+        ['tongling-baoyu', [1, 2]],
+        ['一僧一道', [1, 2]],
+        ['jia-baoyu', [2]],
+      ]);
+      expect(slice.relationships).toHaveLength(2);
+    });
+
+    test('should name entities as they were known after the chapter', () => {
+      const merged = buildCumulativeGraph([chapter1, chapter2, chapter3], catalogs, 3);
+      const slice = sliceCumulativeGraph(merged, 1);
+
+      expect(slice.entities.find(entity => entity.id === 'lin-daiyu')).toEqual(expect.objectContaining({
+        name: '絳珠仙子',
+        aliases: ['絳珠草'],
+      }));
+      expect(slice.entities.find(entity => entity.id === 'tongling-baoyu')?.ownerCharacterId).toBeUndefined();
+      expect(slice.entities).toEqual(buildCumulativeGraph([chapter1, chapter2, chapter3], catalogs, 1).entities);
+      expect(sliceCumulativeGraph(merged, 3)).toEqual(merged);
+
+      const { nodes } = transformCumulativeGraphToGraphData(merged, 1);
+      expect(nodes.map(node => node.name)).toContain('絳珠仙子');
+      expect(nodes.find(node => node.id === 'tongling-baoyu')?.description).not.toContain('賈寶玉的通靈寶玉');
+    });
+  });
+
+  describe('transformCumulativeGraphToGraphData', () => {
+    test('should carry chapters and describe owned entities', () => {
+      const { nodes, links } = transformCumulativeGraphToGraphData(buildCumulativeGraph([chapter1, chapter2, chapter3], catalogs, 3), 2);
+
+      const stone = nodes.find(node => node.id === 'tongling-baoyu')!;
+      expect(stone.chapters).toEqual([1, 2]);
+      expect(stone.description).toContain('賈寶玉的通靈寶玉');
+      expect(links.map(link => link.chapters)).toEqual([[1, 2], [2]]);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * @fileOverview Unit tests for the reading dictionary
+ *
+ * Tests dictionary lookup of selected text:
+ * - Validation of the dataset format
+ * - Longest-match segmentation in either script
+ * - Words recorded from a lookup
+ * - Numbered-tone pinyin shown with tone marks
+ */
+
+import {
+  MAX_LOOKUP_LENGTH,
+  buildDictionary,
+  formatPinyin,
+  getLookedUpEntries,
+  lookupSelection,
+  lookupWord,
+  normalizeDictionaryJson,
+  segmentText,
+} from '@/lib/dictionary';
+import type { DictionaryEntry } from '@/types/dictionary';
+
+const entry = (traditional: string, simplified: string, pinyin: string, definition = '釋義'): DictionaryEntry => ({
+  traditional,
+  simplified,
+  pinyin,
+  definitions: [definition],
+});
+
+const dictionary = buildDictionary([
+  entry('飫甘饜肥', '饫甘餍肥', 'yu4 gan1 yan4 fei2'),
+  entry('飫', '饫', 'yu4'),
+  entry('饜', '餍', 'yan4'),
+  entry('錦衣紈褲', '锦衣纨裤', 'jin3 yi1 wan2 ku4'),
+  entry('紈褲', '纨裤', 'wan2 ku4'),
+  entry('鬚', '须', 'xu1', '鬍鬚'),
+  entry('須', '须', 'xu1', '必須'),
+]);
+
+describe('Dictionary', () => {
+  describe('normalizeDictionaryJson', () => {
+    const valid = { name: '字典', version: 1, license: 'CC BY-SA 4.0', entries: [entry('飫', '饫', 'yu4')] };
+
+    it('accepts well-formed entries', () => {
+      expect(normalizeDictionaryJson(valid)).toEqual([entry('飫', '饫', 'yu4')]);
+    });
+
+    it('rejects malformed entries', () => {
+      expect(() => normalizeDictionaryJson({})).toThrow('entries array');
+      expect(() => normalizeDictionaryJson({ ...valid, entries: [entry('飫', '饫', 'yu4'), entry('飫', '饫', 'yu4')] }))
+        .toThrow('repeats headword 飫');
+      expect(() => normalizeDictionaryJson({ ...valid, entries: [entry('紈褲', '纨', 'wan2 ku4')] }))
+        .toThrow('same length');
+      expect(() => normalizeDictionaryJson({ ...valid, entries: [entry('紈褲', '纨裤', 'wan2')] }))
+        .toThrow('one pinyin syllable per character');
+      expect(() => normalizeDictionaryJson({ ...valid, entries: [{ ...entry('飫', '饫', 'yu4'), definitions: [] }] }))
+        .toThrow('at least one definition or English gloss');
+    });
+
+    it('accepts English-only entries and several readings of a headword', () => {
+      const readings = [
+        { traditional: '長', simplified: '长', pinyin: 'chang2', english: ['long'] },
+        { traditional: '長', simplified: '长', pinyin: 'zhang3', english: ['chief'] },
+      ];
+
+      expect(normalizeDictionaryJson({ ...valid, entries: readings })).toEqual(
+        readings.map(reading => ({ ...reading, definitions: [] }))
+      );
+    });
+  });
+
+  describe('segmentText', () => {
+    it('prefers the longest headword', () => {
+      const segments = segmentText(dictionary, '飫甘饜肥之日');
+
+      expect(segments.map(segment => segment.text)).toEqual(['飫甘饜肥', '之日']);
+      expect(segments[0].entries[0].traditional).toBe('飫甘饜肥');
+      expect(segments[1]).toMatchObject({ start: 4, end: 6, entries: [] });
+    });
+
+    it('falls back to shorter words and single characters', () => {
+      const segments = segmentText(dictionary, '錦衣紈褲，飫饜');
+      expect(segments.map(segment => segment.text)).toEqual(['錦衣紈褲', '，', '飫', '饜']);
+    });
+
+    it('finds Traditional headwords from Simplified text', () => {
+      const segments = segmentText(dictionary, '饫甘餍肥');
+      expect(segments).toHaveLength(1);
+      expect(segments[0].entries[0].traditional).toBe('飫甘饜肥');
+    });
+
+    it('lists entries written exactly as the selection first', () => {
+      expect(lookupWord(dictionary, '須').map(e => e.definitions[0])).toEqual(['必須', '鬍鬚']);
+      expect(lookupWord(dictionary, '鬚').map(e => e.definitions[0])).toEqual(['鬍鬚', '必須']);
+    });
+  });
+
+  describe('lookupSelection', () => {
+    it('trims and cuts long selections', () => {
+      const segments = lookupSelection(dictionary, `  ${'紈褲'.repeat(MAX_LOOKUP_LENGTH)}  `);
+      expect(segments).toHaveLength(MAX_LOOKUP_LENGTH / 2);
+    });
+
+    it('records each word found once', () => {
+      const words = getLookedUpEntries(lookupSelection(dictionary, '紈褲子弟，紈褲'));
+      expect(words.map(word => word.traditional)).toEqual(['紈褲']);
+    });
+  });
+
+  describe('formatPinyin', () => {
+    it('places tone marks by the standard rules', () => {
+      expect(formatPinyin('yu4 gan1 yan4 fei2')).toBe('yù gān yàn féi');
+      expect(formatPinyin('gou3 liu2 gui4')).toBe('gǒu liú guì');
+      expect(formatPinyin('nü3 lv4 nu:3')).toBe('nǚ lǜ nǚ');
+      expect(formatPinyin('hu2 lu5 ma')).toBe('hú lu ma');
+    });
+  });
+});
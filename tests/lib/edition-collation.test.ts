@@ -0,0 +1,112 @@
+/**
+ * @fileOverview Unit Tests for Edition Collation
+ * @description Validates the character-level diff used by the side-by-side
+ * collation view and the paragraph alignment between two editions.
+ */
+
+import { diffText, countVariants, collateChapters } from '@/lib/edition-collation';
+import { editionCoversChapter, isEditionId } from '@/lib/editions';
+import type { Chapter } from '@/types/chapter';
+
+const rebuild = (segments: ReturnType<typeof diffText>, side: 'base' | 'witness') =>
+  segments
+    .filter(s => s.type === 'equal' || s.type === (side === 'base' ? 'removed' : 'added'))
+    .map(s => s.text)
+    .join('');
+
+describe('diffText', () => {
+  test('should return a single equal segment for identical text', () => {
+    expect(diffText('甄士隱夢幻識通靈', '甄士隱夢幻識通靈')).toEqual([
+      { type: 'equal', text: '甄士隱夢幻識通靈' },
+    ]);
+  });
+
+  test('should mark a substitution as removed + added', () => {
+    const segments = diffText('形體倒也是個寶物了', '形體倒也是個靈物了');
+
+    expect(segments).toEqual([
+      { type: 'equal', text: '形體倒也是個' },
+      { type: 'removed', text: '寶' },
+      { type: 'added', text: '靈' },
+      { type: 'equal', text: '物了' },
+    ]);
+    expect(countVariants(segments)).toBe(1);
+  });
+
+  test('should rebuild both texts from the segments', () => {
+    const base = '作者自云：因曾歷過一番夢幻之後，故將真事隱去，而借「通靈」之說，撰此《石頭記》一書也。';
+    const witness = '作者自云：曾歷過一番夢幻之後，故將真事隱去，而借通靈說此《石頭記》一書也。';
+    const segments = diffText(base, witness);
+
+    expect(rebuild(segments, 'base')).toBe(base);
+    expect(rebuild(segments, 'witness')).toBe(witness);
+    expect(countVariants(segments)).toBeGreaterThanOrEqual(2);
+  });
+
+  test('should handle empty input on either side', () => {
+    expect(diffText('', '好了歌')).toEqual([{ type: 'added', text: '好了歌' }]);
+    expect(diffText('好了歌', '')).toEqual([{ type: 'removed', text: '好了歌' }]);
+    expect(diffText('', '')).toEqual([]);
+  });
+});
+
+describe('collateChapters', () => {
+  const base: Chapter = {
+    id: 1,
+    title: '第一回',
+    paragraphs: [
+      { id: 'ch1-p1', content: ['豐神迥異'] },
+      { id: 'ch1-p2', content: ['那僧便念咒書符'] },
+    ],
+  };
+
+  test('should align paragraphs by id and count variants', () => {
+    const witness: Chapter = {
+      id: 1,
+      title: '第一回',
+      paragraphs: [
+        { id: 'ch1-p1', content: ['豐神迥別'] },
+        { id: 'ch1-p2', content: ['那僧便念咒書符'] },
+      ],
+    };
+
+    const collated = collateChapters(base, witness);
+
+    expect(collated.map(p => p.paragraphId)).toEqual(['ch1-p1', 'ch1-p2']);
+    expect(collated[0].variantCount).toBe(1);
+    expect(collated[1].variantCount).toBe(0);
+  });
+
+  test('should report paragraphs found in only one edition', () => {
+    const witness: Chapter = {
+      id: 1,
+      title: '第一回',
+      paragraphs: [
+        { id: 'ch1-p1', content: ['豐神迥異'] },
+        { id: 'ch1-p2', content: ['那僧便念咒書符'] },
+        { id: 'ch1-p3', content: ['此段僅見於對照本'] },
+      ],
+    };
+
+    const collated = collateChapters(base, witness);
+
+    expect(collated).toHaveLength(3);
+    expect(collated[2]).toMatchObject({ paragraphId: 'ch1-p3', baseText: '', variantCount: 1 });
+  });
+});
+
+describe('edition registry', () => {
+  test('should recognise known edition ids only', () => {
+    expect(isEditionId('gengchen')).toBe(true);
+    expect(isEditionId('chengyi')).toBe(true);
+    expect(isEditionId('zhiyan')).toBe(false);
+    expect(isEditionId(null)).toBe(false);
+  });
+
+  test('should limit the Gengchen manuscript to its surviving chapters', () => {
+    expect(editionCoversChapter('gengchen', 1)).toBe(true);
+    expect(editionCoversChapter('gengchen', 64)).toBe(false);
+    expect(editionCoversChapter('gengchen', 81)).toBe(false);
+    expect(editionCoversChapter('chengjia', 120)).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * @fileOverview Unit tests for the genealogy of the four great families
+ *
+ * Tests validation of the kinship dataset and the family tree layout:
+ * - Rejecting unknown parents, generation gaps, unknown branches and malformed unions
+ * - Spoiler limits on people and marriages by reading progress
+ * - Wives and concubines beside their husband, children centred below
+ * - Branches inherited from their ancestor, and people born outside the four houses
+ */
+
+import { layoutFamilyTree, normalizeGenealogy } from '@/lib/genealogy';
+import type { GenealogyJson, GenealogyPerson } from '@/types/genealogy';
+
+const person = (overrides: Partial<GenealogyPerson> & Pick<GenealogyPerson, 'id' | 'name' | 'generation'>): GenealogyPerson => ({
+  family: 'jia',
+  gender: 'male',
+  fromChapter: 2,
+  ...overrides,
+});
+
+const genealogy: GenealogyJson = {
+  version: 1,
+  families: [
+    {
+      id: 'jia',
+      name: '賈府',
+      branches: [{ id: 'ningguo', name: '寧國府' }, { id: 'rongguo', name: '榮國府' }],
+      generationNames: { '4': '玉字輩' },
+    },
+    { id: 'wang', name: '王家' },
+  ],
+  people: [
+    person({ id: 'jia-jing', name: '賈敬', generation: 3, branch: 'ningguo' }),
+    person({ id: 'jia-zhen', name: '賈珍', generation: 4, parents: ['jia-jing'] }),
+    person({ id: 'jia-zheng', name: '賈政', generation: 3, branch: 'rongguo' }),
+    person({ id: 'jia-min', name: '賈敏', generation: 3, gender: 'female', branch: 'rongguo' }),
+    person({ id: 'wang-furen', name: '王夫人', generation: 3, gender: 'female', family: 'wang' }),
+    person({ id: 'zhao-yiniang', name: '趙姨娘', generation: 3, gender: 'female', family: undefined, fromChapter: 20 }),
+    person({ id: 'lin-ruhai', name: '林如海', generation: 3, family: 'lin' }),
+    person({ id: 'jia-zhu', name: '賈珠', generation: 4, parents: ['jia-zheng', 'wang-furen'] }),
+    person({ id: 'jia-baoyu', name: '賈寶玉', generation: 4, parents: ['jia-zheng', 'wang-furen'] }),
+    person({ id: 'jia-huan', name: '賈環', generation: 4, parents: ['jia-zheng', 'zhao-yiniang'], fromChapter: 20 }),
+    person({ id: 'lin-daiyu', name: '林黛玉', generation: 4, gender: 'female', family: 'lin', parents: ['lin-ruhai', 'jia-min'] }),
+  ],
+  unions: [
+    { husband: 'jia-zheng', wife: 'zhao-yiniang', kind: 'concubine' },
+    { husband: 'jia-zheng', wife: 'wang-furen', kind: 'wife' },
+    { husband: 'lin-ruhai', wife: 'jia-min', kind: 'wife', fromChapter: 3 },
+  ],
+};
+
+describe('Genealogy', () => {
+  describe('normalizeGenealogy', () => {
+    test('should accept a valid genealogy', () => {
+      expect(normalizeGenealogy(genealogy)).toEqual(genealogy);
+    });
+
+    test('should reject unknown parents and generation gaps', () => {
+      const unknown = { ...genealogy, people: [...genealogy.people, person({ id: 'jia-lan', name: '賈蘭', generation: 5, parents: ['li-wan'] })] };
+      const gap = { ...genealogy, people: [...genealogy.people, person({ id: 'jia-lan', name: '賈蘭', generation: 6, parents: ['jia-zhu'] })] };
+
+      expect(() => normalizeGenealogy(unknown)).toThrow('Person jia-lan has an unknown parent li-wan');
+      expect(() => normalizeGenealogy(gap)).toThrow('Person jia-lan is not one generation below parent jia-zhu');
+    });
+
+    test('should reject branches of another family', () => {
+      const data = { ...genealogy, people: [...genealogy.people, person({ id: 'wang-ziteng', name: '王子騰', generation: 3, family: 'wang', branch: 'rongguo' })] };
+
+      expect(() => normalizeGenealogy(data)).toThrow('Person wang-ziteng has an unknown branch rongguo');
+    });
+
+    test('should reject unions with the wrong partners or kinds', () => {
+      const swapped = { ...genealogy, unions: [{ husband: 'wang-furen', wife: 'jia-zheng', kind: 'wife' }] };
+      const kind = { ...genealogy, unions: [{ husband: 'jia-zheng', wife: 'wang-furen', kind: 'maid' }] };
+
+      expect(() => normalizeGenealogy(swapped)).toThrow('Union 1 has an unknown husband wang-furen');
+      expect(() => normalizeGenealogy(kind)).toThrow('Union 1 has an unknown kind maid');
+    });
+  });
+
+  describe('layoutFamilyTree', () => {
+    test('should leave out people and marriages beyond the reader\'s progress', () => {
+      const early = layoutFamilyTree(genealogy, 'jia', 2);
+      const late = layoutFamilyTree(genealogy, 'jia', 20);
+
+      expect(early.nodes.map(node => node.person.id)).not.toContain('jia-huan');
+      expect(early.nodes.find(node => node.person.id === 'lin-ruhai')).toBeUndefined();
+      expect(late.nodes.map(node => node.person.id)).toEqual(expect.arrayContaining(['jia-huan', 'zhao-yiniang', 'lin-ruhai']));
+    });
+
+    test('should draw wives before concubines beside their husband', () => {
+      const layout = layoutFamilyTree(genealogy, 'jia', 20);
+      const zheng = layout.nodes.find(node => node.person.id === 'jia-zheng')!;
+      const partners = layout.nodes.filter(node => node.partnerOf === 'jia-zheng');
+
+      expect(partners.map(node => [node.person.id, node.role, node.x - zheng.x])).toEqual([
+        ['wang-furen', 'wife', 1],
+        ['zhao-yiniang', 'concubine', 2],
+      ]);
+      expect(layout.links.filter(link => link.parent === 'jia-zheng')).toEqual([
+        { parent: 'jia-zheng', child: 'jia-zhu', partner: 'wang-furen' },
+        { parent: 'jia-zheng', child: 'jia-baoyu', partner: 'wang-furen' },
+        { parent: 'jia-zheng', child: 'jia-huan', partner: 'zhao-yiniang' },
+      ]);
+    });
+
+    test('should draw a daughter\'s husband beside her and her children below', () => {
+      const layout = layoutFamilyTree(genealogy, 'jia', 3);
+
+      expect(layout.nodes.find(node => node.person.id === 'lin-ruhai')).toMatchObject({ role: 'husband', partnerOf: 'jia-min' });
+      expect(layout.links).toContainEqual({ parent: 'jia-min', child: 'lin-daiyu', partner: 'lin-ruhai' });
+      expect(layoutFamilyTree(genealogy, 'wang', 3).nodes.map(node => node.person.id)).toEqual(['wang-furen', 'jia-zheng']);
+    });
+
+    test('should group descendants under their ancestor\'s branch', () => {
+      const layout = layoutFamilyTree(genealogy, 'jia', 20);
+
+      expect(layout.nodes.find(node => node.person.id === 'jia-zhen')?.branch).toBe('ningguo');
+      expect(layout.nodes.find(node => node.person.id === 'jia-baoyu')?.branch).toBe('rongguo');
+      expect(layout.branches.map(({ branch, from, to }) => [branch.id, from, to])).toEqual([
+        ['ningguo', 0, 0],
+        ['rongguo', 1, 5],
+      ]);
+      expect(layout.generations).toEqual([{ generation: 3 }, { generation: 4, name: '玉字輩' }]);
+    });
+
+    test('should reject unknown families', () => {
+      expect(() => layoutFamilyTree(genealogy, 'lin', 1)).toThrow('Unknown family lin');
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * @fileOverview Unit tests for knowledge graph network analysis
+ *
+ * Tests the measures over two groups joined by one relationship:
+ * - Degree, betweenness and eigenvector centrality
+ * - Community detection and modularity
+ * - Bridges, ignoring pairs joined by more than one relationship
+ * - Filtering by relationship type, ranking, and styling graph data by a measure
+ */
+
+import {
+  COMMUNITY_COLORS,
+  METRIC_COLOR_RANGE,
+  METRIC_RADIUS_RANGE,
+  analyseGraph,
+  analyseGraphData,
+  applyMetricStyle,
+  rankNodes,
+} from '@/lib/graph-analytics';
+import type { QueryableGraph } from '@/lib/graph-query';
+import type { KnowledgeGraphData } from '@/lib/knowledgeGraphUtils';
+import type { GraphRelationship } from '@/types/graph';
+
+const relationship = (source: string, relation: string, target: string, overrides: Partial<GraphRelationship> = {}): GraphRelationship => ({
+  source, target, relation, direction: 'directed', chapter: 1, ...overrides,
+});
+
+// 甄家 (甄士隱, 封氏, 英蓮) and 賈府 (賈政, 王夫人, 賈寶玉), joined only by the
+// relationship between 甄士隱 and 賈政; 石頭 stands apart
+const graph: QueryableGraph = {
+  entities: [
+    { id: 'fengshi', name: '封氏' },
+    { id: 'xiangling', name: '英蓮' },
+    { id: 'zhen-shiyin', name: '甄士隱' },
+    { id: 'jia-zheng', name: '賈政' },
+    { id: 'lady-wang', name: '王夫人' },
+    { id: 'jia-baoyu', name: '賈寶玉' },
+    { id: 'stone', name: '石頭' },
+  ],
+  relationships: [
+    relationship('zhen-shiyin', '妻子', 'fengshi', { type: 'family' }),
+    relationship('zhen-shiyin', '女兒', 'xiangling', { type: 'family' }),
+    relationship('fengshi', '女兒', 'xiangling', { type: 'family' }),
+    relationship('zhen-shiyin', '資助', 'jia-zheng', { type: 'friendship' }),
+    relationship('jia-zheng', '妻子', 'lady-wang', { type: 'family' }),
+    relationship('jia-zheng', '兒子', 'jia-baoyu', { type: 'family' }),
+    relationship('lady-wang', '兒子', 'jia-baoyu', { type: 'family' }),
+  ],
+};
+
+const metricsOf = (id: string, analytics = analyseGraph(graph)) => analytics.nodes.find(node => node.id === id)!;
+
+describe('Knowledge Graph Analytics', () => {
+  test('should measure degree and betweenness centrality', () => {
+    const analytics = analyseGraph(graph);
+
+    expect(metricsOf('zhen-shiyin', analytics).degree).toBe(3);
+    expect(metricsOf('zhen-shiyin', analytics).degreeCentrality).toBeCloseTo(0.5);
+    expect(metricsOf('stone', analytics).degreeCentrality).toBe(0);
+    // 甄士隱 and 賈政 each lie on the 6 shortest paths from the other family to their own, of 15 pairs of others
+    expect(metricsOf('zhen-shiyin', analytics).betweenness).toBeCloseTo(6 / 15);
+    expect(metricsOf('jia-zheng', analytics).betweenness).toBeCloseTo(6 / 15);
+    expect(metricsOf('fengshi', analytics).betweenness).toBe(0);
+  });
+
+  test('should scale eigenvector centrality to the most central entity', () => {
+    const analytics = analyseGraph(graph);
+
+    expect(metricsOf('zhen-shiyin', analytics).eigenvector).toBeCloseTo(1);
+    expect(metricsOf('jia-zheng', analytics).eigenvector).toBeCloseTo(1);
+    expect(metricsOf('fengshi', analytics).eigenvector).toBeGreaterThan(0.5);
+    expect(metricsOf('fengshi', analytics).eigenvector).toBeLessThan(1);
+    expect(metricsOf('stone', analytics).eigenvector).toBeCloseTo(0, 4);
+  });
+
+  test('should detect communities, largest first', () => {
+    const analytics = analyseGraph(graph);
+
+    expect(analytics.communities).toEqual([
+      ['fengshi', 'xiangling', 'zhen-shiyin'],
+      ['jia-zheng', 'lady-wang', 'jia-baoyu'],
+      ['stone'],
+    ]);
+    expect(metricsOf('jia-baoyu', analytics).community).toBe(1);
+    expect(analytics.modularity).toBeCloseTo(5 / 14);
+  });
+
+  test('should find bridges and the entities they separate', () => {
+    expect(analyseGraph(graph).bridges).toEqual([
+      { source: 'zhen-shiyin', target: 'jia-zheng', separates: 3 },
+    ]);
+
+    // A second relationship between 甄士隱 and 賈政 keeps the families joined without either
+    const twice = { ...graph, relationships: [...graph.relationships, relationship('jia-zheng', '相識', 'zhen-shiyin')] };
+    expect(analyseGraph(twice).bridges).toEqual([]);
+    expect(metricsOf('zhen-shiyin', analyseGraph(twice)).degree).toBe(3);
+  });
+
+  test('should filter relationships by type', () => {
+    const analytics = analyseGraph(graph, { types: ['family'] });
+
+    expect(analytics.bridges).toEqual([]);
+    expect(metricsOf('zhen-shiyin', analytics).betweenness).toBe(0);
+    expect(analytics.communities).toHaveLength(3);
+  });
+
+  test('should analyse graph view data and rank entities by a measure', () => {
+    const data: KnowledgeGraphData = {
+      nodes: graph.entities.map((entity, index) => ({
+        id: entity.id, name: entity.name, type: 'character', importance: 'secondary', description: '',
+        category: '主要角色', radius: 20, color: '#DC2626', group: index,
+      })),
+      links: graph.relationships.map(({ source, target, relation }) => ({
+        source, target, relationship: relation, strength: 1, type: 'family', description: '', distance: 80,
+      })),
+    };
+    const analytics = analyseGraphData(data);
+
+    expect(analytics).toEqual(analyseGraph(graph));
+    expect(rankNodes(analytics, 'betweenness').slice(0, 2).map(node => node.name)).toEqual(['甄士隱', '賈政']);
+    expect(rankNodes(analytics, 'degree').at(-1)?.name).toBe('石頭');
+  });
+
+  test('should size and colour nodes by a measure or community', () => {
+    const data: KnowledgeGraphData = {
+      nodes: graph.entities.map((entity, index) => ({
+        id: entity.id, name: entity.name, type: 'character', importance: 'secondary', description: '',
+        category: '主要角色', radius: 20, color: '#DC2626', group: index,
+      })),
+      links: [],
+    };
+    const analytics = analyseGraph(graph);
+
+    const bySize = applyMetricStyle(data, analytics, { sizeBy: 'degree', colorBy: null });
+    expect(bySize.nodes.find(node => node.id === 'zhen-shiyin')?.radius).toBe(METRIC_RADIUS_RANGE[1]);
+    expect(bySize.nodes.find(node => node.id === 'stone')?.radius).toBe(METRIC_RADIUS_RANGE[0]);
+    expect(bySize.nodes[0].color).toBe('#DC2626');
+    expect(data.nodes[2].radius).toBe(20);
+
+    const byColor = applyMetricStyle(data, analytics, { sizeBy: null, colorBy: 'betweenness' });
+    expect(byColor.nodes.find(node => node.id === 'jia-zheng')?.color).toBe(METRIC_COLOR_RANGE[1]);
+    expect(byColor.nodes.find(node => node.id === 'stone')?.color).toBe(METRIC_COLOR_RANGE[0]);
+    expect(byColor.nodes[0].radius).toBe(20);
+
+    const byCommunity = applyMetricStyle(data, analytics, { sizeBy: null, colorBy: 'community' });
+    expect(byCommunity.nodes.find(node => node.id === 'jia-baoyu')?.color).toBe(COMMUNITY_COLORS[1]);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * @fileOverview Unit Tests for Knowledge Graph Export
+ * @description Validates GraphML, GEXF and CSV output from viewer graph data
+ * and from chapter graph files in either format, and SVG snapshots of the
+ * current view.
+ */
+
+import {
+  chapterGraphToExportGraph,
+  exportGraph,
+  getGraphExportFileName,
+  graphDataToExportGraph,
+  renderEdgeCsv,
+  renderGEXF,
+  renderGraphML,
+  renderNodeCsv,
+  renderSvgToPng,
+  serializeGraphSvg,
+} from '@/lib/graph-export';
+import { transformChapterDataToGraphData, type ChapterGraphJson, type KnowledgeGraphData } from '@/lib/knowledgeGraphUtils';
+import type { StructuredChapterGraph } from '@/types/graph';
+
+const metadata = {
+  version: 'test', description: '測試', processing_time: 0, chunks_processed: 1, total_characters: 10,
+  clustering_time: 0, clustered_entities: 3, phase3_time: 0, synonym_merges_applied: 0, entities_merged: 0,
+  total_processing_time: 0, strategy: '測試', text_length: 10, original_entities: 3, streamlined_entities: 3,
+  original_relationships: 2, streamlined_relationships: 2, reduction_ratio: '0%', focus: '測試',
+  creation_date: '2026-01-01', notes: '',
+};
+
+const structured: StructuredChapterGraph = {
+  schemaVersion: 2,
+  chapter: 1,
+  entities: [
+    { id: 'zhen-shiyin', name: '甄士隱', aliases: ['甄費'], type: 'character', characterId: 'zhen-shiyin' },
+    { id: 'xiangling', name: '英蓮', type: 'character' },
+    { id: 'gusu', name: '姑蘇', type: 'location' },
+  ],
+  relationships: [
+    { source: 'zhen-shiyin', target: 'xiangling', relation: '女兒', direction: 'directed', chapter: 1, evidence: { paragraphId: 'ch1-p5', quote: '只有一女，乳名英蓮' } },
+    { source: 'zhen-shiyin', target: 'gusu', relation: '居住', type: 'conceptual', direction: 'undirected', chapter: 1 },
+  ],
+  metadata,
+};
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+describe('Knowledge Graph Export', () => {
+  describe('chapterGraphToExportGraph', () => {
+    test('should keep aliases, catalog ids, evidence and inferred relationship types', () => {
+      const graph = chapterGraphToExportGraph(structured);
+
+      expect(graph.title).toBe('第1回知識圖譜');
+      expect(graph.nodes[0]).toEqual({
+        id: 'zhen-shiyin',
+        label: '甄士隱',
+        attributes: { type: 'character', aliases: '甄費', characterId: 'zhen-shiyin' },
+      });
+      expect(graph.edges[0]).toMatchObject({ source: 'zhen-shiyin', target: 'xiangling', label: '女兒', directed: true });
+      expect(graph.edges[0].attributes).toEqual({ type: 'family', chapter: 1, paragraphId: 'ch1-p5', quote: '只有一女，乳名英蓮' });
+      expect(graph.edges[1].directed).toBe(false);
+      expect(graph.nodeAttributes.map(attribute => attribute.id)).toEqual(['type', 'aliases', 'characterId']);
+    });
+
+    test('should upgrade legacy chapter graphs', () => {
+      const legacy: ChapterGraphJson = { entities: ['甄士隱', '英蓮'], relationships: ['甄士隱 - 女兒 - 英蓮'], metadata };
+      const graph = chapterGraphToExportGraph(legacy, 3);
+
+      expect(graph.title).toBe('第3回知識圖譜');
+      expect(graph.nodes.map(node => node.label)).toEqual(['甄士隱', '英蓮']);
+      expect(graph.edges[0].attributes.chapter).toBe(3);
+    });
+  });
+
+  describe('graphDataToExportGraph', () => {
+    test('should keep the viewer styling and layout positions, with ids for simulated links', () => {
+      const data: KnowledgeGraphData = transformChapterDataToGraphData(structured);
+      data.nodes[0].x = 120.4567;
+      data.nodes[0].y = 80;
+      data.links[0].source = data.nodes[0];
+
+      const graph = graphDataToExportGraph(data, '第1回知識圖譜');
+
+      expect(graph.nodes[0].attributes).toMatchObject({ color: data.nodes[0].color, radius: data.nodes[0].radius, x: 120.46, y: 80 });
+      expect(graph.edges[0]).toMatchObject({ source: 'zhen-shiyin', target: 'xiangling', label: '女兒' });
+    });
+  });
+
+  describe('renderGraphML', () => {
+    test('should declare typed keys and mark undirected edges', () => {
+      const doc = parseXml(renderGraphML(chapterGraphToExportGraph(structured)));
+
+      expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+      expect(doc.querySelector('key[id="e_chapter"]')?.getAttribute('attr.type')).toBe('int');
+      expect(doc.querySelectorAll('node')).toHaveLength(3);
+      const edges = doc.querySelectorAll('edge');
+      expect(edges[0].getAttribute('directed')).toBeNull();
+      expect(edges[1].getAttribute('directed')).toBe('false');
+      expect(edges[0].querySelector('data[key="e_label"]')?.textContent).toBe('女兒');
+    });
+
+    test('should escape markup in names', () => {
+      const graph = chapterGraphToExportGraph({ ...structured, entities: [{ id: 'a', name: '<好了歌> & "注"' }], relationships: [] });
+      const doc = parseXml(renderGraphML(graph));
+
+      expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+      expect(doc.querySelector('data[key="n_label"]')?.textContent).toBe('<好了歌> & "注"');
+    });
+  });
+
+  describe('renderGEXF', () => {
+    test('should write attributes and viz colours, sizes and positions', () => {
+      const data = transformChapterDataToGraphData(structured);
+      data.nodes[0].x = 10;
+      data.nodes[0].y = 20;
+      const doc = parseXml(renderGEXF(graphDataToExportGraph(data, '第1回知識圖譜')));
+
+      expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+      expect(doc.getElementsByTagName('description')[0].textContent).toBe('第1回知識圖譜');
+      const node = doc.getElementsByTagName('node')[0];
+      expect(node.getAttribute('label')).toBe('甄士隱');
+      expect(node.getElementsByTagName('viz:position')[0].getAttribute('y')).toBe('-20');
+      expect(node.getElementsByTagName('viz:color')).toHaveLength(1);
+      expect(doc.getElementsByTagName('edge')[1].getAttribute('type')).toBe('undirected');
+    });
+  });
+
+  describe('CSV', () => {
+    test('should write Gephi node and edge tables, quoting cells that need it', () => {
+      const graph = chapterGraphToExportGraph(structured);
+      graph.nodes[1].label = '英蓮, "香菱"';
+
+      expect(renderNodeCsv(graph).split('\r\n').slice(0, 3)).toEqual([
+        'Id,Label,type,aliases,characterId',
+        'zhen-shiyin,甄士隱,character,甄費,zhen-shiyin',
+        'xiangling,"英蓮, ""香菱""",character,,',
+      ]);
+      expect(renderEdgeCsv(graph).split('\r\n').slice(0, 3)).toEqual([
+        'Source,Target,Type,Id,Label,type,chapter,paragraphId,quote',
+        'zhen-shiyin,xiangling,Directed,e0,女兒,family,1,ch1-p5,只有一女，乳名英蓮',
+        'zhen-shiyin,gusu,Undirected,e1,居住,conceptual,1,,',
+      ]);
+    });
+
+    test('should zip the two tables for download', () => {
+      const file = exportGraph(chapterGraphToExportGraph(structured), 'csv', 'hongloumeng-graph-ch1');
+      const text = new TextDecoder().decode(file.data as Uint8Array);
+
+      expect(file.fileName).toBe('hongloumeng-graph-ch1-csv.zip');
+      expect(file.mimeType).toBe('application/zip');
+      expect(text).toContain('hongloumeng-graph-ch1-nodes.csv');
+      expect(text).toContain('hongloumeng-graph-ch1-edges.csv');
+    });
+  });
+
+  test('should name exports after the chapters shown', () => {
+    expect(getGraphExportFileName(1)).toBe('hongloumeng-graph-ch1');
+    expect(getGraphExportFileName(5, true)).toBe('hongloumeng-graph-ch1-5');
+    expect(exportGraph(chapterGraphToExportGraph(structured), 'gexf').fileName).toBe('hongloumeng-graph.gexf');
+  });
+
+  describe('images', () => {
+    test('should snapshot the SVG with its zoom and highlighting at the chosen size', () => {
+      const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+      svg.setAttribute('class', 'w-full h-full');
+      svg.innerHTML = '<g class="main-group" transform="translate(10,20) scale(2)"><circle r="5" style="stroke: #ff6b6b;"></circle></g>';
+
+      const markup = serializeGraphSvg(svg, { width: 800, height: 600, scale: 2, background: '#000000' });
+      const copy = parseXml(markup).documentElement;
+
+      expect(copy.getAttribute('width')).toBe('1600');
+      expect(copy.getAttribute('viewBox')).toBe('0 0 800 600');
+      expect(copy.getAttribute('class')).toBeNull();
+      expect(copy.firstElementChild?.getAttribute('fill')).toBe('#000000');
+      expect(markup).toContain('transform="translate(10,20) scale(2)"');
+      expect(markup).toContain('stroke: #ff6b6b');
+      expect(svg.getAttribute('class')).toBe('w-full h-full');
+    });
+
+    test('should refuse PNGs larger than a canvas can hold', async () => {
+      await expect(renderSvgToPng('<svg/>', 8000, 6000)).rejects.toThrow('too large');
+    });
+  });
+});
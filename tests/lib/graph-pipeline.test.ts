@@ -0,0 +1,162 @@
+/**
+ * @fileOverview Unit tests for the knowledge-graph generation pipeline
+ *
+ * Tests generation of chapter graphs from chapter text:
+ * - Chunking at sentence boundaries
+ * - Reading the bundled graph files
+ * - Alias merging, streamlining and metadata with pluggable backends
+ * - Writing graphs for the corpus without overwriting curated ones
+ */
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { readChapterFromCorpus } from '@/lib/chapter-corpus';
+import { readCharacterCatalogFromCorpus } from '@/lib/character-corpus';
+import { readEntityCatalogFromCorpus } from '@/lib/entity-corpus';
+import { generateCorpusGraphs, readChapterGraphFromCorpus } from '@/lib/graph-corpus';
+import {
+  chunkChapterText,
+  createFakeExtractionBackend,
+  runGraphPipeline,
+  type GraphExtractionBackend,
+} from '@/lib/graph-pipeline';
+import type { Chapter } from '@/types/chapter';
+
+const chapter: Chapter = {
+  id: 2,
+  title: '第二回',
+  paragraphs: [
+    { id: 'ch2-p1', content: ['士隱見了雨村。雨村笑道：「好。」'] },
+    { id: 'ch2-p2', content: ['封氏哭了。'] },
+  ],
+};
+
+const stubBackend = (extract: GraphExtractionBackend['extract']): GraphExtractionBackend => ({ id: 'stub', extract });
+
+describe('Graph pipeline', () => {
+  test('should cut chunks at sentence ends without crossing paragraphs', () => {
+    expect(chunkChapterText(chapter, 8).map(chunk => chunk.text)).toEqual([
+      '士隱見了雨村。',
+      '雨村笑道：「好。」',
+      '封氏哭了。',
+    ]);
+    expect(chunkChapterText(chapter).map(chunk => [chunk.index, chunk.paragraphId])).toEqual([[0, 'ch2-p1'], [1, 'ch2-p2']]);
+  });
+
+  test('should read the bundled chapter 1 graph in the structured format', async () => {
+    const graph = await readChapterGraphFromCorpus(1);
+
+    expect(graph).toEqual(expect.objectContaining({ schemaVersion: 2, chapter: 1, entities: expect.any(Array) }));
+    expect(graph!.relationships.length).toBeGreaterThan(0);
+  });
+
+  test('should report unreadable graph files instead of treating them as missing', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'chapter-graphs-'));
+    try {
+      await fs.mkdir(path.join(directory, 'chapter2.json'));
+
+      await expect(readChapterGraphFromCorpus(1, directory)).resolves.toBeNull();
+      await expect(readChapterGraphFromCorpus(2, directory)).rejects.toThrow(/EISDIR/);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  describe('runGraphPipeline', () => {
+    test('should merge aliases and fill the metadata from a deterministic run', async () => {
+      const catalog = await readCharacterCatalogFromCorpus();
+      const options = { backend: createFakeExtractionBackend(catalog), catalog, clock: () => 0, creationDate: '2026-01-01' };
+      const graph = await runGraphPipeline(chapter, options);
+
+      expect(graph.entities).toEqual([
+        { id: 'zhen-shiyin', name: '甄士隱', aliases: ['士隱'], type: 'character', characterId: 'zhen-shiyin' },
+        { id: 'jia-yucun', name: '賈雨村', aliases: ['雨村'], type: 'character', characterId: 'jia-yucun' },
+        { id: 'feng-shi', name: '封氏', type: 'character', characterId: 'feng-shi' },
+      ]);
+      expect(graph.relationships).toEqual([{
+        source: 'zhen-shiyin',
+        target: 'jia-yucun',
+        relation: '同場',
+        direction: 'undirected',
+        chapter: 2,
+        evidence: { paragraphId: 'ch2-p1' },
+      }]);
+      expect(graph.metadata).toEqual(expect.objectContaining({
+        chunks_processed: 2,
+        total_characters: 21,
+        original_entities: 3,
+        synonym_merges_applied: 5,
+        entities_merged: 2,
+        streamlined_entities: 3,
+        strategy: '自動抽取（fake）',
+        creation_date: '2026-01-01',
+      }));
+      await expect(runGraphPipeline(chapter, options)).resolves.toEqual(graph);
+    });
+
+    test('should keep the best-connected entities and drop self-links', async () => {
+      const graph = await runGraphPipeline(chapter, {
+        maxEntities: 2,
+        backend: stubBackend(async chunk => chunk.index === 0
+          ? { entities: ['甲', '乙', '丙'], relationships: [{ source: '甲', relation: '識', target: '丁' }, { source: '甲', relation: '識', target: '甲' }] }
+          : { entities: ['丁', '丁'], relationships: [{ source: '丙', relation: '見', target: '乙' }] }),
+      });
+
+      expect(graph.entities).toEqual([{ id: 'entity-0', name: '甲' }, { id: 'entity-1', name: '丁' }]);
+      expect(graph.relationships).toEqual([
+        { source: 'entity-0', target: 'entity-1', relation: '識', direction: 'directed', chapter: 2, evidence: { paragraphId: 'ch2-p1' } },
+      ]);
+      expect(graph.metadata.original_entities).toBe(4);
+      expect(graph.metadata.original_relationships).toBe(3);
+      expect(graph.metadata.reduction_ratio).toBe('50%');
+    });
+
+    test('should reference entity catalog entries by id', async () => {
+      const graph = await runGraphPipeline(chapter, {
+        catalog: await readCharacterCatalogFromCorpus(),
+        entities: await readEntityCatalogFromCorpus(),
+        backend: stubBackend(async chunk => chunk.index === 0
+          ? { entities: ['士隱', '石頭', '某物'], relationships: [{ source: '士隱', relation: '夢見', target: '石頭' }] }
+          : { entities: [], relationships: [] }),
+      });
+
+      expect(graph.entities).toEqual([
+        { id: 'zhen-shiyin', name: '甄士隱', aliases: ['士隱'], type: 'character', characterId: 'zhen-shiyin' },
+        { id: 'entity-1', name: '石頭', type: 'artifact', entityId: 'tongling-baoyu' },
+        { id: 'entity-2', name: '某物' },
+      ]);
+    });
+  });
+
+  describe('generateCorpusGraphs', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'chapter-graphs-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    test('should write chapters with text and keep existing graphs unless forced', async () => {
+      const catalog = await readCharacterCatalogFromCorpus();
+      const backend = createFakeExtractionBackend(catalog);
+      await fs.writeFile(path.join(directory, 'chapter3.json'), '{}');
+
+      const results = await generateCorpusGraphs({ backend, catalog, directory, chapters: [1, 2, 3] });
+
+      expect(results).toEqual([
+        { chapterId: 1, status: 'written' },
+        { chapterId: 2, status: 'no-text' },
+        { chapterId: 3, status: 'kept' },
+      ]);
+      const graph = await readChapterGraphFromCorpus(1, directory);
+      expect(graph!.metadata.chunks_processed).toBe(chunkChapterText((await readChapterFromCorpus(1))!).length);
+
+      const forced = await generateCorpusGraphs({ backend, catalog, directory, chapters: [1, 3], force: true });
+      expect(forced.map(result => result.status)).toEqual(['written', 'no-text']);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * @fileOverview Unit tests for knowledge graph queries
+ *
+ * Tests paths and neighbourhoods over a small graph:
+ * - Resolving entities by id, name and alias
+ * - Shortest paths, following relationships either way, within a maximum length
+ * - All simple paths, shortest first, with a limit, skipping entities that cannot reach the target,
+ *   and whether the limits cut the answer short
+ * - k-hop neighbourhoods and filtering by relationship type
+ */
+
+import {
+  findAllPaths,
+  findShortestPath,
+  getNeighbourhood,
+  MAX_PATH_SEARCH_STEPS,
+  resolveGraphEntity,
+  type QueryableGraph,
+} from '@/lib/graph-query';
+import type { GraphRelationship } from '@/types/graph';
+
+const relationship = (source: string, relation: string, target: string, overrides: Partial<GraphRelationship> = {}): GraphRelationship => ({
+  source, target, relation, direction: 'directed', chapter: 1, ...overrides,
+});
+
+// 賈雨村 ← 資助 ← 甄士隱 → 女兒 → 英蓮; 賈雨村 → 寄居 → 葫蘆廟 → 位於 → 姑蘇 ← 居住 ← 甄士隱
+const graph: QueryableGraph = {
+  entities: [
+    { id: 'jia-yucun', name: '賈雨村', aliases: ['雨村'] },
+    { id: 'zhen-shiyin', name: '甄士隱' },
+    { id: 'xiangling', name: '英蓮' },
+    { id: 'hulu-temple', name: '葫蘆廟' },
+    { id: 'gusu', name: '姑蘇' },
+    { id: 'stone', name: '石頭' },
+  ],
+  relationships: [
+    relationship('zhen-shiyin', '資助', 'jia-yucun', { type: 'friendship' }),
+    relationship('zhen-shiyin', '女兒', 'xiangling', { type: 'family' }),
+    relationship('jia-yucun', '寄居', 'hulu-temple', { type: 'conceptual' }),
+    relationship('hulu-temple', '位於', 'gusu'),
+    relationship('zhen-shiyin', '居住', 'gusu'),
+  ],
+};
+
+describe('Knowledge Graph Queries', () => {
+  test('should resolve entities by id, name or alias', () => {
+    expect(resolveGraphEntity(graph, 'jia-yucun')?.name).toBe('賈雨村');
+    expect(resolveGraphEntity(graph, '甄士隱')?.id).toBe('zhen-shiyin');
+    expect(resolveGraphEntity(graph, '雨村')?.id).toBe('jia-yucun');
+    expect(resolveGraphEntity(graph, '林黛玉')).toBeUndefined();
+  });
+
+  test('should find a shortest path, following relationships against their direction', () => {
+    const path = findShortestPath(graph, 'jia-yucun', 'xiangling');
+
+    expect(path?.entities).toEqual(['jia-yucun', 'zhen-shiyin', 'xiangling']);
+    expect(path?.relationships.map(step => step.relation)).toEqual(['資助', '女兒']);
+  });
+
+  test('should return null when the entities are not connected within the maximum length', () => {
+    expect(findShortestPath(graph, 'jia-yucun', 'stone')).toBeNull();
+    expect(findShortestPath(graph, 'jia-yucun', 'xiangling', { maxLength: 1 })).toBeNull();
+  });
+
+  test('should filter the relationships followed by type', () => {
+    // Without 資助 (friendship) the path goes round through 葫蘆廟 and 姑蘇;
+    // 位於 and 居住 are typed conceptual by their labels
+    const path = findShortestPath(graph, 'jia-yucun', 'xiangling', { types: ['family', 'conceptual'] });
+
+    expect(path?.entities).toEqual(['jia-yucun', 'hulu-temple', 'gusu', 'zhen-shiyin', 'xiangling']);
+  });
+
+  test('should find all simple paths shortest first', () => {
+    const { paths, truncated } = findAllPaths(graph, 'jia-yucun', 'zhen-shiyin');
+
+    expect(paths.map(path => path.entities)).toEqual([
+      ['jia-yucun', 'zhen-shiyin'],
+      ['jia-yucun', 'hulu-temple', 'gusu', 'zhen-shiyin'],
+    ]);
+    expect(truncated).toBe(false);
+    expect(findAllPaths(graph, 'jia-yucun', 'zhen-shiyin', { maxLength: 2 }).paths).toHaveLength(1);
+  });
+
+  test('should say when the path limit cut the answer short', () => {
+    expect(findAllPaths(graph, 'jia-yucun', 'zhen-shiyin', { limit: 1 })).toEqual({ paths: [expect.any(Object)], truncated: true });
+    expect(findAllPaths(graph, 'jia-yucun', 'zhen-shiyin', { limit: 2 }).truncated).toBe(false);
+  });
+
+  test('should not search entities that reach the target only back through the source', () => {
+    // Forty guests who all know each other and 賈雨村: searched naively, the
+    // chains among them up to six relationships long run to the hundreds of millions
+    const guests = Array.from({ length: 40 }, (_, index) => `guest-${index}`);
+    const crowded: QueryableGraph = {
+      entities: [...graph.entities, ...guests.map(id => ({ id, name: id }))],
+      relationships: [
+        ...graph.relationships,
+        ...guests.map(guest => relationship('jia-yucun', '宴請', guest)),
+        ...guests.flatMap((guest, index) => guests.slice(index + 1).map(other => relationship(guest, '相識', other))),
+      ],
+    };
+
+    const { paths } = findAllPaths(crowded, 'jia-yucun', 'zhen-shiyin', { maxLength: 6 });
+
+    expect(paths.map(path => path.entities)).toEqual([
+      ['jia-yucun', 'zhen-shiyin'],
+      ['jia-yucun', 'hulu-temple', 'gusu', 'zhen-shiyin'],
+    ]);
+  });
+
+  test('should say when the search ran out of steps', () => {
+    // Thirty guests who all know each other, 賈雨村 and 甄士隱: millions of paths
+    const guests = Array.from({ length: 30 }, (_, index) => `guest-${index}`);
+    const crowded: QueryableGraph = {
+      entities: [...graph.entities, ...guests.map(id => ({ id, name: id }))],
+      relationships: [
+        ...graph.relationships,
+        ...guests.flatMap(guest => [relationship('jia-yucun', '宴請', guest), relationship(guest, '拜訪', 'zhen-shiyin')]),
+        ...guests.flatMap((guest, index) => guests.slice(index + 1).map(other => relationship(guest, '相識', other))),
+      ],
+    };
+
+    const { paths, truncated } = findAllPaths(crowded, 'jia-yucun', 'zhen-shiyin', { maxLength: 6, limit: Infinity });
+
+    expect(truncated).toBe(true);
+    expect(paths.length).toBeGreaterThan(0);
+    expect(paths.length).toBeLessThan(MAX_PATH_SEARCH_STEPS);
+  });
+
+  test('should find the neighbourhood within k hops', () => {
+    const neighbourhood = getNeighbourhood(graph, 'zhen-shiyin', 1);
+
+    expect(neighbourhood.center.name).toBe('甄士隱');
+    expect(neighbourhood.distances).toEqual({ 'zhen-shiyin': 0, 'jia-yucun': 1, xiangling: 1, gusu: 1 });
+    expect(neighbourhood.relationships.map(step => step.relation)).toEqual(['資助', '女兒', '居住']);
+    expect(getNeighbourhood(graph, 'zhen-shiyin', 2).entities).toHaveLength(5);
+    expect(getNeighbourhood(graph, 'zhen-shiyin', 2, { types: ['family'] }).entities.map(entity => entity.id))
+      .toEqual(['zhen-shiyin', 'xiangling']);
+  });
+
+  test('should reject entities that are not in the graph', () => {
+    expect(() => findShortestPath(graph, 'jia-yucun', 'lin-daiyu')).toThrow('Unknown graph entity lin-daiyu');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @fileOverview Unit tests for the chapter knowledge-graph schema
+ *
+ * Tests the two graph file formats:
+ * - Lenient upgrade of legacy `"A - rel - B"` graphs
+ * - Strict validation of structured and legacy graph files
+ * - Transformation of structured graphs for the graph view
+ */
+
+import { normalizeChapterGraph, upgradeLegacyChapterGraph } from '@/lib/graph-schema';
+import { transformChapterDataToGraphData } from '@/lib/knowledgeGraphUtils';
+import type { ChapterGraphJson, StructuredChapterGraph } from '@/types/graph';
+
+const metadata = {
+  version: 'test', description: '測試', processing_time: 0, chunks_processed: 1, total_characters: 10,
+  clustering_time: 0, clustered_entities: 3, phase3_time: 0, synonym_merges_applied: 0, entities_merged: 0,
+  total_processing_time: 0, strategy: '測試', text_length: 10, original_entities: 3, streamlined_entities: 3,
+  original_relationships: 2, streamlined_relationships: 2, reduction_ratio: '0%', focus: '測試',
+  creation_date: '2026-01-01', notes: '',
+};
+
+const legacyGraph: ChapterGraphJson = {
+  entities: ['甄士隱', '英蓮', '姑蘇城'],
+  relationships: ['甄士隱 - 女兒 - 英蓮', '甄士隱 - 居住 - 姑蘇城'],
+  metadata,
+};
+
+const structuredGraph: StructuredChapterGraph = {
+  schemaVersion: 2,
+  chapter: 1,
+  entities: [
+    { id: 'zhen-shiyin', name: '甄士隱', aliases: ['士隱'], type: 'character', characterId: 'zhen-shiyin' },
+    { id: 'jia-yucun', name: '賈雨村', type: 'character', characterId: 'jia-yucun' },
+    { id: 'hulumiao', name: '葫蘆廟', type: 'location' },
+  ],
+  relationships: [
+    { source: 'zhen-shiyin', target: 'jia-yucun', relation: '資助', type: 'friendship', direction: 'directed', chapter: 1, evidence: { paragraphId: 'ch1-p9', quote: '封五十兩白銀' } },
+    { source: 'jia-yucun', target: 'hulumiao', relation: '寄居', direction: 'directed', chapter: 1 },
+  ],
+  metadata,
+};
+
+describe('Graph schema', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('upgradeLegacyChapterGraph', () => {
+    test('should give entities positional ids and point relationships at them', () => {
+      const graph = upgradeLegacyChapterGraph(legacyGraph, 1);
+
+      expect(graph.schemaVersion).toBe(2);
+      expect(graph.entities).toEqual([
+        { id: 'entity-0', name: '甄士隱' },
+        { id: 'entity-1', name: '英蓮' },
+        { id: 'entity-2', name: '姑蘇城' },
+      ]);
+      expect(graph.relationships[0]).toEqual({ source: 'entity-0', target: 'entity-1', relation: '女兒', direction: 'directed', chapter: 1 });
+    });
+
+    test('should drop unreadable relationship strings with a warning', () => {
+      const graph = upgradeLegacyChapterGraph({ ...legacyGraph, relationships: ['甄士隱 - 英蓮', '甄士隱 - 認識 - 無名氏'] }, 1);
+
+      expect(graph.relationships).toEqual([]);
+      expect(console.warn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('normalizeChapterGraph', () => {
+    test('should return structured graphs as they are and upgrade legacy ones', () => {
+      expect(normalizeChapterGraph(structuredGraph, 1)).toBe(structuredGraph);
+      expect(normalizeChapterGraph(legacyGraph, 3).chapter).toBe(3);
+    });
+
+    test('should reject legacy graphs that the lenient upgrade would repair', () => {
+      expect(() => normalizeChapterGraph({ ...legacyGraph, relationships: ['甄士隱 - 認識 - 無名氏'] }, 1)).toThrow('invalid relationship');
+      expect(() => normalizeChapterGraph({ ...legacyGraph, entities: [...legacyGraph.entities, '英蓮'] }, 1)).toThrow('repeats entity');
+    });
+
+    test('should reject structured graphs with broken references, fields or metadata', () => {
+      const [first, second] = structuredGraph.relationships;
+
+      expect(() => normalizeChapterGraph(structuredGraph, 2)).toThrow('describes chapter 1, expected chapter 2');
+      expect(() => normalizeChapterGraph({ ...structuredGraph, relationships: [{ ...first, target: 'nobody' }] }, 1)).toThrow('invalid relationship at index 0');
+      expect(() => normalizeChapterGraph({ ...structuredGraph, relationships: [first, { ...second, direction: 'both' }] }, 1)).toThrow('invalid relationship at index 1');
+      expect(() => normalizeChapterGraph({ ...structuredGraph, entities: [...structuredGraph.entities, structuredGraph.entities[0]] }, 1)).toThrow('repeats entity id zhen-shiyin');
+      expect(() => normalizeChapterGraph({ ...structuredGraph, entities: [{ id: 'x', name: '某', type: 'person' }] }, 1)).toThrow('unknown type person');
+      expect(() => normalizeChapterGraph({ ...structuredGraph, entities: [{ id: 'x', name: '某', entityId: '' }] }, 1)).toThrow('x has an invalid entity id');
+      expect(() => normalizeChapterGraph({ ...structuredGraph, metadata: { ...metadata, chunks_processed: '1' } }, 1)).toThrow('chunks_processed must be a number');
+      expect(() => normalizeChapterGraph({ ...structuredGraph, schemaVersion: 3 }, 1)).toThrow('Unsupported chapter graph schema version: 3');
+    });
+  });
+
+  describe('transformChapterDataToGraphData', () => {
+    test('should use entity ids, given types, direction and evidence from structured graphs', () => {
+      const { nodes, links } = transformChapterDataToGraphData(structuredGraph);
+
+      expect(nodes.map(node => [node.id, node.type])).toEqual([
+        ['zhen-shiyin', 'character'],
+        ['jia-yucun', 'character'],
+        ['hulumiao', 'location'],
+      ]);
+      expect(links[0]).toEqual(expect.objectContaining({
+        source: 'zhen-shiyin',
+        target: 'jia-yucun',
+        type: 'friendship',
+        direction: 'directed',
+        evidence: { paragraphId: 'ch1-p9', quote: '封五十兩白銀' },
+        description: '甄士隱與賈雨村的關係：資助',
+      }));
+      expect(links[1].evidence).toBeUndefined();
+    });
+
+    test('should read legacy graphs through the upgrade', () => {
+      const { nodes, links } = transformChapterDataToGraphData(legacyGraph, 5);
+
+      expect(nodes.map(node => node.id)).toEqual(['entity-0', 'entity-1', 'entity-2']);
+      expect(nodes[0].description).toContain('來自第5回');
+      expect(links.map(link => [link.source, link.target, link.direction])).toEqual([
+        ['entity-0', 'entity-1', 'directed'],
+        ['entity-0', 'entity-2', 'directed'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * @fileOverview Unit tests for the chapter graph version store
+ *
+ * Tests uploads of chapter graphs:
+ * - Size, JSON and schema checks of uploads
+ * - Version numbering, also of concurrent uploads, approval and rollback
+ * - Unreadable history files reported as errors, not as empty history
+ * - Editor tokens
+ */
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import {
+  MAX_GRAPH_UPLOAD_BYTES,
+  approveGraphVersion,
+  findGraphEditor,
+  parseGraphUpload,
+  readApprovedChapterGraph,
+  readGraphVersion,
+  readGraphVersionIndex,
+  rollbackChapterGraph,
+  saveGraphVersion,
+} from '@/lib/graph-store';
+import { CHAPTER_GRAPH_DIR, readChapterGraphFromCorpus } from '@/lib/graph-corpus';
+
+describe('Graph store', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'graph-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+    delete process.env.GRAPH_EDITOR_TOKENS;
+  });
+
+  test('should upgrade legacy uploads and reject oversized, malformed or invalid ones', async () => {
+    const bundled = await fs.readFile(path.join(CHAPTER_GRAPH_DIR, 'chapter1.json'), 'utf-8');
+
+    const graph = await readChapterGraphFromCorpus(1);
+
+    expect(parseGraphUpload(bundled, 1)).toEqual(graph);
+    expect(() => parseGraphUpload(' '.repeat(MAX_GRAPH_UPLOAD_BYTES + 1), 1)).toThrow('exceeds');
+    expect(() => parseGraphUpload('{"entities":', 1)).toThrow('not valid JSON');
+    expect(() => parseGraphUpload(JSON.stringify(graph), 2)).toThrow('expected chapter 2');
+    expect(() => parseGraphUpload(JSON.stringify({ entities: [], relationships: [] }), 1)).toThrow('metadata');
+  });
+
+  test('should number versions, serve the approved one and roll back to earlier approvals', async () => {
+    const graph = (await readChapterGraphFromCorpus(1))!;
+
+    const first = await saveGraphVersion(graph, 'lin', directory);
+    const second = await saveGraphVersion({ ...graph, entities: graph.entities.slice(0, 3), relationships: [] }, 'lin', directory);
+    expect([first.version, second.version]).toEqual([1, 2]);
+    expect(second).toEqual(expect.objectContaining({ status: 'pending', uploadedBy: 'lin', entityCount: 3, relationshipCount: 0 }));
+    await expect(readApprovedChapterGraph(1, directory)).resolves.toBeNull();
+
+    await approveGraphVersion(1, 1, 'lin', directory);
+    await approveGraphVersion(1, 2, 'lin', directory);
+    expect((await readApprovedChapterGraph(1, directory))!.entities).toHaveLength(3);
+    await expect(approveGraphVersion(1, 9, 'lin', directory)).resolves.toBeNull();
+
+    const rolledBack = await rollbackChapterGraph(1, undefined, 'wang', directory);
+    expect(rolledBack).toEqual(expect.objectContaining({ current: 1, updatedBy: 'wang' }));
+    expect(await readApprovedChapterGraph(1, directory)).toEqual(graph);
+    await expect(rollbackChapterGraph(1, undefined, 'wang', directory)).resolves.toBeNull();
+
+    await saveGraphVersion(graph, 'lin', directory);
+    await expect(rollbackChapterGraph(1, 3, 'wang', directory)).resolves.toBeNull();
+    expect((await readGraphVersionIndex(1, directory)).versions.map(version => version.status)).toEqual(['approved', 'approved', 'pending']);
+  });
+
+  test('should number concurrent uploads of a chapter without gaps or repeats', async () => {
+    const graph = (await readChapterGraphFromCorpus(1))!;
+
+    const versions = await Promise.all(
+      Array.from({ length: 5 }, () => saveGraphVersion({ ...graph, chapter: 3 }, 'lin', directory))
+    );
+
+    expect(versions.map(version => version.version).sort()).toEqual([1, 2, 3, 4, 5]);
+    expect((await readGraphVersionIndex(3, directory)).versions).toHaveLength(5);
+  });
+
+  test('should report a corrupt history instead of starting it again', async () => {
+    const graph = (await readChapterGraphFromCorpus(1))!;
+    await saveGraphVersion(graph, 'lin', directory);
+    await fs.writeFile(path.join(directory, 'chapter1', 'index.json'), '{"chapter":1,', 'utf-8');
+    await fs.writeFile(path.join(directory, 'chapter1', 'v1.json'), '{"entities":', 'utf-8');
+
+    await expect(readGraphVersionIndex(1, directory)).rejects.toThrow(SyntaxError);
+    await expect(saveGraphVersion(graph, 'lin', directory)).rejects.toThrow(SyntaxError);
+    await expect(readGraphVersion(1, 1, directory)).rejects.toThrow(SyntaxError);
+    await expect(readGraphVersion(1, 2, directory)).resolves.toBeNull();
+    await expect(readGraphVersionIndex(2, directory)).resolves.toEqual({ chapter: 2, current: null, versions: [] });
+  });
+
+  test('should recognise configured editor tokens only', () => {
+    process.env.GRAPH_EDITOR_TOKENS = 'lin:secret-1, wang:secret-2';
+
+    expect(findGraphEditor('Bearer secret-2')).toBe('wang');
+    expect(findGraphEditor('Bearer secret')).toBeNull();
+    expect(findGraphEditor('secret-1')).toBeNull();
+    expect(findGraphEditor(null)).toBeNull();
+  });
+});
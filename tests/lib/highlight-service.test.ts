@@ -0,0 +1,127 @@
+/**
+ * @fileOverview Unit tests for the highlight service
+ *
+ * Tests anchored highlights:
+ * - Saving highlights with anchors, colours and categories
+ * - Reading older records saved with only the selected text
+ * - Placing highlights in corrected chapter text and saving the new anchors
+ */
+
+import {
+  saveHighlight,
+  getHighlightsByUserAndChapter,
+  updateHighlightStyle,
+  placeHighlights,
+  saveReanchoredHighlights,
+  type Highlight,
+} from '@/lib/highlight-service';
+import { createTextAnchor } from '@/lib/text-anchoring';
+import { addDoc, collection, doc, getDocs, updateDoc } from 'firebase/firestore';
+import type { Paragraph } from '@/types/chapter';
+
+// Mock Firebase
+jest.mock('firebase/firestore');
+jest.mock('@/lib/firebase', () => ({
+  db: {}
+}));
+
+const paragraphText = '賈雨村言：「這寶玉，寶玉，原是銜玉而生。」';
+const paragraphs: Paragraph[] = [{ id: 'ch2-p4', content: [paragraphText] }];
+const secondBaoyu = paragraphText.lastIndexOf('寶玉');
+
+const baseHighlight: Highlight = {
+  id: 'h1',
+  userId: 'user-123',
+  chapterId: 2,
+  selectedText: '寶玉',
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  anchor: createTextAnchor('ch2-p4', paragraphText, secondBaoyu, secondBaoyu + 2),
+};
+
+describe('Highlight Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('saveHighlight', () => {
+    it('should save the anchor with default colour, category and edition', async () => {
+      (collection as jest.Mock).mockReturnValue({ path: 'highlights' });
+      (addDoc as jest.Mock).mockResolvedValue({ id: 'new-id' });
+
+      const { id: _id, createdAt: _createdAt, ...highlight } = baseHighlight;
+      await expect(saveHighlight(highlight)).resolves.toBe('new-id');
+
+      expect(addDoc).toHaveBeenCalledWith({ path: 'highlights' }, expect.objectContaining({
+        selectedText: '寶玉',
+        anchor: expect.objectContaining({ paragraphId: 'ch2-p4', startOffset: secondBaoyu }),
+        editionId: 'standard',
+        color: 'yellow',
+        category: 'general',
+      }));
+    });
+  });
+
+  describe('getHighlightsByUserAndChapter', () => {
+    it('should keep older records readable', async () => {
+      (getDocs as jest.Mock).mockResolvedValue({
+        docs: [
+          { id: 'old', data: () => ({ userId: 'user-123', chapterId: 2, selectedText: '寶玉', createdAt: { toDate: () => new Date(0) } }) },
+          { id: 'new', data: () => ({ userId: 'user-123', chapterId: 2, selectedText: '銜玉', color: 'blue', category: 'character', editionId: 'gengchen', createdAt: { toDate: () => new Date(0) } }) },
+        ],
+      });
+
+      const highlights = await getHighlightsByUserAndChapter('user-123', 2);
+
+      expect(highlights[0]).toMatchObject({ id: 'old', color: 'yellow', category: 'general', editionId: 'standard' });
+      expect(highlights[0].anchor).toBeUndefined();
+      expect(highlights[1]).toMatchObject({ id: 'new', color: 'blue', category: 'character' });
+    });
+
+    it('should filter by edition when asked', async () => {
+      (getDocs as jest.Mock).mockResolvedValue({
+        docs: [
+          { id: 'a', data: () => ({ selectedText: 'x', createdAt: { toDate: () => new Date(0) } }) },
+          { id: 'b', data: () => ({ selectedText: 'y', editionId: 'gengchen', createdAt: { toDate: () => new Date(0) } }) },
+        ],
+      });
+
+      const highlights = await getHighlightsByUserAndChapter('user-123', 2, 'gengchen');
+      expect(highlights.map(h => h.id)).toEqual(['b']);
+    });
+  });
+
+  describe('updateHighlightStyle', () => {
+    it('should update only the given fields', async () => {
+      (doc as jest.Mock).mockReturnValue({ path: 'highlights/h1' });
+      await updateHighlightStyle('h1', { color: 'pink' });
+      expect(updateDoc).toHaveBeenCalledWith({ path: 'highlights/h1' }, { color: 'pink' });
+    });
+  });
+
+  describe('placeHighlights', () => {
+    it('should place the second of two identical phrases', () => {
+      const [placed] = placeHighlights([baseHighlight], paragraphs);
+      expect(placed.position).toMatchObject({ startOffset: secondBaoyu, status: 'exact' });
+    });
+
+    it('should re-anchor after a correction and save the new anchor', async () => {
+      const corrected: Paragraph[] = [{ id: 'ch2-p4', content: ['冷子興笑道：「這寶玉，寶玉，原是銜玉而生。」'] }];
+      const legacy: Highlight = { ...baseHighlight, id: 'legacy', selectedText: '銜玉', anchor: undefined };
+
+      const placed = placeHighlights([baseHighlight, legacy], corrected);
+      const saved = await saveReanchoredHighlights(placed);
+
+      expect(placed[0].position).toMatchObject({ startOffset: secondBaoyu + 1, status: 'moved' });
+      expect(placed[1].position.status).toBe('unanchored');
+      expect(saved).toBe(2);
+      expect(updateDoc).toHaveBeenCalledWith(expect.anything(), {
+        selectedText: '寶玉',
+        anchor: expect.objectContaining({ startOffset: secondBaoyu + 1, prefix: '冷子興笑道：「這寶玉，' }),
+      });
+    });
+
+    it('should leave out highlights whose text is gone', () => {
+      expect(placeHighlights([baseHighlight], [{ id: 'ch2-p4', content: ['另起一段'] }])).toEqual([]);
+    });
+  });
+});
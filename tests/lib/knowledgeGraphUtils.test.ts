@@ -10,6 +10,7 @@
  * 4. Data loading from files and APIs
  * 5. Edge cases and error handling
  * 6. Performance with large datasets
+ * 7. Typing by the entity catalog and styling by theme
  * 
  * @author Senior Project Development Team
  * @version 1.0.0
@@ -20,9 +21,13 @@ import {
   transformChapterDataToGraphData,
   loadChapterGraphData,
   loadChapterGraphFromDatabase,
+  loadGraphPaths,
   type ChapterGraphJson,
   type KnowledgeGraphData
 } from '@/lib/knowledgeGraphUtils';
+import { applyGraphTheme, DEFAULT_GRAPH_THEME, type GraphTheme } from '@/lib/graph-theme';
+import type { EntityCatalogJson } from '@/types/entity';
+import type { StructuredChapterGraph } from '@/types/graph';
 
 // Mock fetch for testing
 global.fetch = jest.fn();
@@ -82,6 +87,16 @@ const mockChapterGraphJson: ChapterGraphJson = {
   }
 };
 
+const mockEntityCatalog: EntityCatalogJson = {
+  version: 1,
+  entities: [
+    { id: 'jia-mu', name: '賈母', aliases: [], type: 'character', category: '主要人物', importance: 'primary', faction: '賈府' },
+    { id: 'rongguo-fu', name: '榮國府', aliases: ['榮府'], type: 'location', category: '世俗地點', importance: 'primary', faction: '賈府' },
+    { id: 'honglou-meng', name: '《紅樓夢》', aliases: ['紅樓夢'], type: 'concept', category: '書名', importance: 'primary' },
+    { id: 'shitou-ji', name: '《石頭記》', aliases: ['石頭記'], type: 'concept', category: '書名', importance: 'primary' }
+  ]
+};
+
 const mockEmptyChapterGraphJson: ChapterGraphJson = {
   entities: [],
   relationships: [],
@@ -587,14 +602,118 @@ describe('Knowledge Graph Utils - Data Loading', () => {
     consoleSpy.mockRestore();
   });
 
-  test('should load data from database (future implementation)', async () => {
+  test('should load data from the graph version store through the graph route', async () => {
     // Arrange & Act
     const result = await loadChapterGraphFromDatabase(1);
 
     // Assert
-    // Currently falls back to file loading
+    // Same request as loadChapterGraphData
     expect(result).toEqual({ nodes: [], links: [] });
   });
+
+  test('should type entities with the entity catalog from the entities API', async () => {
+    // Arrange
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockChapterGraphJson
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockEntityCatalog
+      });
+
+    // Act
+    const result = await loadChapterGraphData(1);
+
+    // Assert
+    expect(global.fetch).toHaveBeenCalledWith('/api/entities');
+    expect(result.nodes.find(node => node.name === '石頭記')?.category).toBe('書名');
+  });
+
+  test('should ask the graph query API how two entities are related', async () => {
+    // Arrange
+    const pathResult = { source: { id: 'a', name: '甲' }, target: { id: 'b', name: '乙' }, paths: [] };
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => pathResult
+    });
+
+    // Act
+    const result = await loadGraphPaths('賈雨村', '林黛玉', { chapter: 1, types: ['family', 'friendship'], all: true });
+
+    // Assert
+    const url = new URL((global.fetch as jest.Mock).mock.calls[0][0], 'http://localhost');
+    expect(url.pathname).toBe('/api/graph/query');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      from: '賈雨村', to: '林黛玉', chapter: '1', types: 'family,friendship', paths: 'all'
+    });
+    expect(result).toEqual(pathResult);
+  });
+});
+
+describe('Knowledge Graph Utils - Entity Catalog and Theme', () => {
+  test('should type listed entities by the catalog instead of their names', () => {
+    // Arrange & Act
+    const withoutCatalog = transformChapterDataToGraphData({ ...mockChapterGraphJson, entities: ['《紅樓夢》', '青埂峰'], relationships: [] });
+    const withCatalog = transformChapterDataToGraphData(
+      { ...mockChapterGraphJson, entities: ['《紅樓夢》', '青埂峰'], relationships: [] },
+      1,
+      { catalog: mockEntityCatalog }
+    );
+
+    // Assert - the name suggests an artifact (夢), the catalog knows it is a title
+    expect(withoutCatalog.nodes[0]).toEqual(expect.objectContaining({ type: 'artifact', category: '重要物品/文獻' }));
+    expect(withCatalog.nodes[0]).toEqual(expect.objectContaining({
+      type: 'concept',
+      category: '書名',
+      importance: 'primary',
+      color: DEFAULT_GRAPH_THEME.categories['書名'].color
+    }));
+    // Unlisted entities fall back to the name rules
+    expect(withCatalog.nodes[1]).toEqual(expect.objectContaining({ type: 'location', category: '神話地點', radius: 28 }));
+  });
+
+  test('should find entries by entity and character id before names', () => {
+    // Arrange
+    const graph: StructuredChapterGraph = {
+      schemaVersion: 2,
+      chapter: 3,
+      entities: [
+        { id: 'e1', name: '那府', type: 'location', entityId: 'rongguo-fu' },
+        { id: 'e2', name: '老太太', characterId: 'jia-mu' }
+      ],
+      relationships: [],
+      metadata: mockChapterGraphJson.metadata
+    };
+
+    // Act
+    const { nodes } = transformChapterDataToGraphData(graph, 3, { catalog: mockEntityCatalog });
+
+    // Assert
+    expect(nodes.map(node => [node.name, node.category, node.faction])).toEqual([
+      ['那府', '世俗地點', '賈府'],
+      ['老太太', '主要人物', '賈府']
+    ]);
+  });
+
+  test('should style nodes with the given theme', () => {
+    // Arrange
+    const theme: GraphTheme = {
+      ...DEFAULT_GRAPH_THEME,
+      categories: { ...DEFAULT_GRAPH_THEME.categories, '書名': { color: '#000000', radius: 40, group: 9 } }
+    };
+    const data = transformChapterDataToGraphData({ ...mockChapterGraphJson, entities: ['《紅樓夢》', '無名之物'], relationships: [] }, 1, { catalog: mockEntityCatalog });
+
+    // Act
+    const themed = transformChapterDataToGraphData({ ...mockChapterGraphJson, entities: ['《紅樓夢》', '無名之物'], relationships: [] }, 1, { catalog: mockEntityCatalog, theme });
+    const restyled = applyGraphTheme(data, theme);
+
+    // Assert
+    expect(themed.nodes[0]).toEqual(expect.objectContaining({ color: '#000000', radius: 40, group: 9 }));
+    expect(restyled).toEqual(themed);
+    expect(data.nodes[0].color).toBe(DEFAULT_GRAPH_THEME.categories['書名'].color);
+  });
 });
 
 describe('Knowledge Graph Utils - Performance Tests', () => {
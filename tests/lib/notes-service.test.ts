@@ -18,7 +18,7 @@ import {
   getPublicNotes,
   type Note
 } from '@/lib/notes-service';
-import { collection, addDoc, getDocs, query, where, deleteDoc, doc, updateDoc, Timestamp } from 'firebase/firestore';
+import { collection, addDoc, setDoc, getDocs, query, where, deleteDoc, doc, updateDoc, Timestamp } from 'firebase/firestore';
 
 // Mock Firebase
 jest.mock('firebase/firestore');
@@ -88,6 +88,19 @@ describe('Notes Service', () => {
       );
     });
 
+    it('should save under a reserved ID without creating a new document', async () => {
+      const mockNoteRef = {};
+      (doc as jest.Mock).mockReturnValue(mockNoteRef);
+      (setDoc as jest.Mock).mockResolvedValue(undefined);
+
+      const noteId = await saveNote({ userId: 'user-123', chapterId: 1, selectedText: '甄士隱', note: '真事隱去' }, 'reserved-id');
+
+      expect(noteId).toBe('reserved-id');
+      expect(doc).toHaveBeenCalledWith(expect.anything(), 'notes', 'reserved-id');
+      expect(setDoc).toHaveBeenCalledWith(mockNoteRef, expect.objectContaining({ note: '真事隱去', isPublic: false }));
+      expect(addDoc).not.toHaveBeenCalled();
+    });
+
     it('should calculate word count correctly', async () => {
       const mockDocRef = { id: 'mock-note-id' };
       (addDoc as jest.Mock).mockResolvedValue(mockDocRef);
@@ -128,6 +141,17 @@ describe('Notes Service', () => {
         })
       );
     });
+
+    it('should change visibility in the same write when given', async () => {
+      const mockNoteRef = {};
+      (doc as jest.Mock).mockReturnValue(mockNoteRef);
+      (updateDoc as jest.Mock).mockResolvedValue(undefined);
+
+      await updateNote('note-id-123', '公開的筆記', true);
+
+      expect(updateDoc).toHaveBeenCalledTimes(1);
+      expect(updateDoc).toHaveBeenCalledWith(mockNoteRef, expect.objectContaining({ note: '公開的筆記', isPublic: true }));
+    });
   });
 
   describe('updateNoteVisibility', () => {
@@ -0,0 +1,485 @@
+/**
+ * @fileOverview Unit tests for the offline write queue
+ *
+ * Tests queueing and replay of offline writes including:
+ * - Writing straight through when online
+ * - Queueing notes, note edits, highlights and XP events when offline
+ * - Editing and discarding writes that are still queued
+ * - Queueing writes the server does not answer in time, under reserved ids
+ * - Saving visibility changes and community posts with notes, also on replay
+ * - Replaying in order, stopping while still unreachable
+ * - Conflict copies for notes edited on another device
+ * - Not rewriting documents Firestore already saved under their reserved ids
+ */
+
+import { getDoc } from 'firebase/firestore';
+import { deleteNoteById, saveNote, updateNote, type Note } from '@/lib/notes-service';
+import { saveHighlight } from '@/lib/highlight-service';
+import { communityService, type CreatePostData } from '@/lib/community-service';
+import { userLevelService } from '@/lib/user-level-service';
+import {
+  CONFLICT_NOTE_TAG,
+  WRITE_TIMEOUT_MS,
+  awardXPOrQueue,
+  discardQueuedWrite,
+  getQueuedHighlights,
+  getQueuedWrites,
+  isNetworkError,
+  isOfflineId,
+  replayQueuedWrites,
+  saveHighlightOrQueue,
+  saveNoteOrQueue,
+  updateNoteOrQueue,
+  updateQueuedHighlight,
+  withQueuedNotes,
+  withoutQueuedCopies,
+} from '@/lib/offline-sync';
+
+jest.mock('@/lib/firebase', () => ({ db: {} }));
+jest.mock('@/lib/notes-service', () => ({
+  newNoteId: jest.fn(() => `reserved-note-${Math.random().toString(36).slice(2)}`),
+  saveNote: jest.fn(),
+  updateNote: jest.fn(),
+  deleteNoteById: jest.fn(),
+}));
+jest.mock('@/lib/highlight-service', () => ({
+  newHighlightId: jest.fn(() => 'reserved-highlight'),
+  saveHighlight: jest.fn(),
+  deleteHighlightById: jest.fn(),
+}));
+jest.mock('@/lib/community-service', () => ({
+  communityService: { createPost: jest.fn() },
+}));
+jest.mock('@/lib/user-level-service', () => ({
+  userLevelService: { awardXP: jest.fn() },
+}));
+
+const newNote = {
+  userId: 'user-1',
+  chapterId: 1,
+  selectedText: '甄士隱',
+  note: '真事隱去',
+};
+
+const savedNote: Note & { id: string } = {
+  ...newNote,
+  id: 'note-1',
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  lastModified: new Date('2026-01-02T00:00:00Z'),
+};
+
+const serverNote = (lastModified: Date | null, content = newNote.note) => ({
+  exists: () => lastModified !== null,
+  data: () => ({ ...newNote, note: content, lastModified: lastModified && { toMillis: () => lastModified.getTime() } }),
+});
+
+const post: CreatePostData = {
+  authorId: 'user-1',
+  authorName: '讀者',
+  content: '我的閱讀筆記',
+  tags: ['第1回'],
+  category: 'discussion',
+};
+
+// A write the server never answers, as on a dead connection the browser thinks is online
+const pending = () => new Promise<never>(() => {});
+
+describe('Offline sync', () => {
+  let onLine: jest.SpyInstance;
+
+  const goOffline = () => onLine.mockReturnValue(false);
+  const goOnline = () => onLine.mockReturnValue(true);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    onLine = jest.spyOn(window.navigator, 'onLine', 'get').mockReturnValue(true);
+    (getDoc as jest.Mock).mockResolvedValue({ exists: () => false });
+    (saveNote as jest.Mock).mockResolvedValue('server-note');
+    (updateNote as jest.Mock).mockResolvedValue(undefined);
+    (saveHighlight as jest.Mock).mockResolvedValue('server-highlight');
+    (deleteNoteById as jest.Mock).mockResolvedValue(undefined);
+    (communityService.createPost as jest.Mock).mockResolvedValue('post-1');
+    (userLevelService.awardXP as jest.Mock).mockResolvedValue({
+      success: true, newTotalXP: 15, newLevel: 1, leveledUp: false,
+    });
+  });
+
+  afterEach(() => {
+    onLine.mockRestore();
+  });
+
+  describe('isNetworkError', () => {
+    it('recognises unreachable servers but not rejected writes', () => {
+      expect(isNetworkError({ code: 'unavailable' })).toBe(true);
+      expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true);
+      expect(isNetworkError({ code: 'permission-denied' })).toBe(false);
+      expect(isNetworkError(new Error('Missing or insufficient permissions'))).toBe(false);
+    });
+  });
+
+  describe('when online', () => {
+    it('writes straight through', async () => {
+      await expect(saveNoteOrQueue(newNote)).resolves.toEqual({ id: 'server-note', queued: false });
+      await expect(updateNoteOrQueue(savedNote, '新內容')).resolves.toBe(false);
+      expect(updateNote).toHaveBeenCalledWith('note-1', '新內容', undefined);
+      expect(getQueuedWrites()).toHaveLength(0);
+    });
+
+    it('saves a changed visibility with the content and shares notes made public', async () => {
+      await updateNoteOrQueue(savedNote, '新內容', { isPublic: true, communityPost: post });
+      await saveNoteOrQueue({ ...newNote, isPublic: true }, post);
+
+      expect(updateNote).toHaveBeenCalledWith('note-1', '新內容', true);
+      expect(communityService.createPost).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives XP events without a sourceId one of their own', async () => {
+      await awardXPOrQueue('user-1', 5, 'Created note', 'reading');
+
+      const sourceId = (userLevelService.awardXP as jest.Mock).mock.calls[0][4];
+      expect(isOfflineId(sourceId)).toBe(true);
+    });
+
+    it('queues a write that fails for lack of connectivity', async () => {
+      (saveHighlight as jest.Mock).mockRejectedValue({ code: 'unavailable' });
+
+      const result = await saveHighlightOrQueue({ userId: 'user-1', chapterId: 1, selectedText: '女媧' });
+
+      expect(result.queued).toBe(true);
+      expect(getQueuedWrites()).toHaveLength(1);
+    });
+
+    it('queues writes the server does not answer in time under a reserved id', async () => {
+      jest.useFakeTimers();
+      try {
+        (saveNote as jest.Mock).mockReturnValue(pending());
+        (userLevelService.awardXP as jest.Mock).mockReturnValue(pending());
+
+        const note = saveNoteOrQueue(newNote);
+        await jest.advanceTimersByTimeAsync(WRITE_TIMEOUT_MS);
+        const xp = awardXPOrQueue('user-1', 5, 'Created note', 'reading');
+        await jest.advanceTimersByTimeAsync(WRITE_TIMEOUT_MS);
+
+        await expect(note).resolves.toMatchObject({ queued: true });
+        await expect(xp).resolves.toBeNull();
+        const [queuedNote, queuedXP] = getQueuedWrites();
+        expect(queuedNote).toMatchObject({ type: 'saveNote', sentToServer: true });
+        expect(saveNote).toHaveBeenCalledWith(newNote, (queuedNote as { docId: string }).docId);
+        // The queued award keeps the sourceId the first attempt used
+        expect(queuedXP).toMatchObject({ type: 'awardXP', sourceId: (userLevelService.awardXP as jest.Mock).mock.calls[0][4] });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('rethrows writes the server rejects', async () => {
+      (saveNote as jest.Mock).mockRejectedValue({ code: 'permission-denied' });
+
+      await expect(saveNoteOrQueue(newNote)).rejects.toEqual({ code: 'permission-denied' });
+      expect(getQueuedWrites()).toHaveLength(0);
+    });
+  });
+
+  describe('when offline', () => {
+    beforeEach(goOffline);
+
+    it('queues notes, highlights and XP under local ids', async () => {
+      const note = await saveNoteOrQueue(newNote);
+      const highlight = await saveHighlightOrQueue({ userId: 'user-1', chapterId: 1, selectedText: '女媧' });
+      const xp = await awardXPOrQueue('user-1', 5, 'Created note', 'reading', 'note-ch1-abc');
+
+      expect(note.queued && highlight.queued).toBe(true);
+      expect(isOfflineId(note.id)).toBe(true);
+      expect(xp).toBeNull();
+      expect(getQueuedWrites().map(write => write.type)).toEqual(['saveNote', 'saveHighlight', 'awardXP']);
+      expect(saveNote).not.toHaveBeenCalled();
+      expect(userLevelService.awardXP).not.toHaveBeenCalled();
+    });
+
+    it('shows queued notes and edits with the loaded notes', async () => {
+      await saveNoteOrQueue(newNote);
+      await updateNoteOrQueue(savedNote, '離線修改');
+
+      const notes = withQueuedNotes([savedNote], 'user-1', 1);
+
+      expect(notes).toHaveLength(2);
+      expect(notes[0].note).toBe('離線修改');
+      expect(isOfflineId(notes[1].id)).toBe(true);
+      expect(withQueuedNotes([], 'user-1', 2)).toHaveLength(0);
+    });
+
+    it('folds edits of a queued note into the queued save', async () => {
+      const { id } = await saveNoteOrQueue(newNote);
+
+      await updateNoteOrQueue({ ...newNote, id, createdAt: new Date() }, '改過的筆記');
+
+      const writes = getQueuedWrites();
+      expect(writes).toHaveLength(1);
+      expect(writes[0]).toMatchObject({ type: 'saveNote', note: { note: '改過的筆記' } });
+    });
+
+    it('queues visibility changes and community posts with notes', async () => {
+      const { id } = await saveNoteOrQueue(newNote);
+      await updateNoteOrQueue({ ...newNote, id, createdAt: new Date() }, '公開的筆記', { isPublic: true, communityPost: post });
+      await updateNoteOrQueue(savedNote, '離線修改', { isPublic: true, communityPost: post });
+
+      const writes = getQueuedWrites();
+      expect(writes[0]).toMatchObject({ type: 'saveNote', note: { isPublic: true }, communityPost: post });
+      expect(writes[1]).toMatchObject({ type: 'updateNote', isPublic: true, communityPost: post });
+      expect(withQueuedNotes([savedNote], 'user-1', 1)[0].isPublic).toBe(true);
+
+      // Made private again before syncing: nothing is shared
+      await updateNoteOrQueue({ ...savedNote, isPublic: true }, '離線修改', { isPublic: false });
+      expect(getQueuedWrites()[1]).toMatchObject({ isPublic: false });
+      expect(getQueuedWrites()[1]).not.toHaveProperty('communityPost');
+    });
+
+    it('keeps the first base version when a note is edited twice offline', async () => {
+      await updateNoteOrQueue(savedNote, '第一次');
+      await updateNoteOrQueue({ ...savedNote, lastModified: new Date() }, '第二次');
+
+      const writes = getQueuedWrites();
+      expect(writes).toHaveLength(1);
+      expect(writes[0]).toMatchObject({
+        type: 'updateNote',
+        content: '第二次',
+        baseLastModified: savedNote.lastModified!.getTime(),
+      });
+    });
+
+    it('restyles and discards queued highlights', async () => {
+      const first = await saveHighlightOrQueue({ userId: 'user-1', chapterId: 1, selectedText: '女媧', color: 'yellow' });
+      const second = await saveHighlightOrQueue({ userId: 'user-1', chapterId: 1, selectedText: '頑石' });
+
+      updateQueuedHighlight(first.id, { color: 'blue' });
+      discardQueuedWrite(second.id);
+
+      const highlights = getQueuedHighlights('user-1', 1);
+      expect(highlights).toHaveLength(1);
+      expect(highlights[0]).toMatchObject({ id: first.id, color: 'blue' });
+    });
+
+    it('hides documents Firestore lists for writes still queued', async () => {
+      await saveHighlightOrQueue({ userId: 'user-1', chapterId: 1, selectedText: '女媧' });
+
+      const loaded = [{ id: 'reserved-highlight' }, { id: 'other' }];
+      expect(withoutQueuedCopies(loaded)).toEqual([{ id: 'other' }]);
+    });
+
+    it('deletes a discarded note Firestore may still save', async () => {
+      goOnline();
+      jest.useFakeTimers();
+      try {
+        (saveNote as jest.Mock).mockReturnValue(pending());
+        const note = saveNoteOrQueue(newNote);
+        await jest.advanceTimersByTimeAsync(WRITE_TIMEOUT_MS);
+        const { id } = await note;
+        const { docId } = getQueuedWrites()[0] as { docId: string };
+
+        discardQueuedWrite(id);
+
+        expect(deleteNoteById).toHaveBeenCalledWith(docId);
+        expect(getQueuedWrites()).toHaveLength(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('replayQueuedWrites', () => {
+    it('replays writes in order and empties the queue', async () => {
+      goOffline();
+      await saveNoteOrQueue(newNote);
+      await saveHighlightOrQueue({ userId: 'user-1', chapterId: 1, selectedText: '女媧' });
+      await awardXPOrQueue('user-1', 5, 'Created note', 'reading', 'note-ch1-abc');
+      goOnline();
+
+      const result = await replayQueuedWrites();
+
+      expect(result).toMatchObject({ replayed: 3, conflicts: 0, failed: 0, xpAwarded: 5 });
+      expect(saveNote).toHaveBeenCalledWith(newNote, expect.stringMatching(/^reserved-note-/));
+      expect(saveHighlight).toHaveBeenCalledWith(expect.anything(), 'reserved-highlight');
+      expect(userLevelService.awardXP).toHaveBeenCalledWith('user-1', 5, 'Created note', 'reading', 'note-ch1-abc');
+      expect(getQueuedWrites()).toHaveLength(0);
+    });
+
+    it('shares public notes saved offline once they are saved', async () => {
+      goOffline();
+      await saveNoteOrQueue({ ...newNote, isPublic: true }, post);
+      expect(communityService.createPost).not.toHaveBeenCalled();
+      goOnline();
+
+      await replayQueuedWrites();
+
+      expect(communityService.createPost).toHaveBeenCalledWith(post);
+    });
+
+    it('replays queued XP events under their own sourceId', async () => {
+      goOffline();
+      await awardXPOrQueue('user-1', 5, 'Created note', 'reading');
+      const [{ id }] = getQueuedWrites();
+      goOnline();
+
+      await replayQueuedWrites();
+
+      expect(userLevelService.awardXP).toHaveBeenCalledWith('user-1', 5, 'Created note', 'reading', id);
+    });
+
+    it('does not count XP the server reports as already awarded', async () => {
+      goOffline();
+      await awardXPOrQueue('user-1', 10, 'Completed chapter 1', 'reading', 'chapter-1');
+      goOnline();
+      (userLevelService.awardXP as jest.Mock).mockResolvedValue({
+        success: true, newTotalXP: 10, newLevel: 1, leveledUp: false, isDuplicate: true,
+      });
+
+      await expect(replayQueuedWrites()).resolves.toMatchObject({ replayed: 1, xpAwarded: 0 });
+    });
+
+    it('reports level-ups from replayed XP', async () => {
+      goOffline();
+      await awardXPOrQueue('user-1', 100, 'Completed chapter 2', 'reading', 'chapter-2');
+      goOnline();
+      (userLevelService.awardXP as jest.Mock).mockResolvedValue({
+        success: true, newTotalXP: 110, newLevel: 2, leveledUp: true, fromLevel: 1,
+      });
+
+      const result = await replayQueuedWrites();
+
+      expect(result.levelUp).toEqual({ fromLevel: 1, toLevel: 2 });
+    });
+
+    it('stops at the first unreachable write and keeps the rest', async () => {
+      goOffline();
+      await saveNoteOrQueue(newNote);
+      await saveHighlightOrQueue({ userId: 'user-1', chapterId: 1, selectedText: '女媧' });
+      goOnline();
+      (saveNote as jest.Mock).mockRejectedValueOnce({ code: 'unavailable' });
+
+      const result = await replayQueuedWrites();
+
+      expect(result.replayed).toBe(0);
+      expect(saveHighlight).not.toHaveBeenCalled();
+      expect(getQueuedWrites()).toHaveLength(2);
+    });
+
+    it('drops writes the server rejects', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      goOffline();
+      await saveNoteOrQueue(newNote);
+      await saveHighlightOrQueue({ userId: 'user-1', chapterId: 1, selectedText: '女媧' });
+      goOnline();
+      (saveNote as jest.Mock).mockRejectedValueOnce({ code: 'permission-denied' });
+
+      const result = await replayQueuedWrites();
+
+      expect(result).toMatchObject({ replayed: 1, failed: 1 });
+      expect(getQueuedWrites()).toHaveLength(0);
+      consoleError.mockRestore();
+    });
+
+    it('applies an offline edit when the note is unchanged on the server', async () => {
+      goOffline();
+      await updateNoteOrQueue(savedNote, '離線修改');
+      goOnline();
+      (getDoc as jest.Mock).mockResolvedValue(serverNote(savedNote.lastModified!));
+
+      const result = await replayQueuedWrites();
+
+      expect(result.conflicts).toBe(0);
+      expect(updateNote).toHaveBeenCalledWith('note-1', '離線修改', undefined);
+      expect(saveNote).not.toHaveBeenCalled();
+    });
+
+    it('applies a queued visibility change and shares the note', async () => {
+      goOffline();
+      await updateNoteOrQueue(savedNote, '離線修改', { isPublic: true, communityPost: post });
+      goOnline();
+      (getDoc as jest.Mock).mockResolvedValue(serverNote(savedNote.lastModified!));
+
+      await replayQueuedWrites();
+
+      expect(updateNote).toHaveBeenCalledWith('note-1', '離線修改', true);
+      expect(communityService.createPost).toHaveBeenCalledWith(post);
+    });
+
+    it('does not repeat an edit the server already has', async () => {
+      goOffline();
+      await updateNoteOrQueue(savedNote, '離線修改');
+      goOnline();
+      // The first attempt timed out but reached the server later
+      (getDoc as jest.Mock).mockResolvedValue(serverNote(new Date('2026-01-03T00:00:00Z'), '離線修改'));
+
+      const result = await replayQueuedWrites();
+
+      expect(result).toMatchObject({ replayed: 1, conflicts: 0 });
+      expect(updateNote).not.toHaveBeenCalled();
+      expect(saveNote).not.toHaveBeenCalled();
+    });
+
+    it('keeps both versions when the note was edited on another device', async () => {
+      goOffline();
+      await updateNoteOrQueue(savedNote, '離線修改');
+      goOnline();
+      (getDoc as jest.Mock).mockResolvedValueOnce(serverNote(new Date('2026-01-03T00:00:00Z')));
+      const { conflictDocId } = getQueuedWrites()[0] as { conflictDocId: string };
+
+      const result = await replayQueuedWrites();
+
+      expect(result).toMatchObject({ replayed: 1, conflicts: 1 });
+      expect(updateNote).not.toHaveBeenCalled();
+      expect(conflictDocId).toMatch(/^reserved-note-/);
+      expect(saveNote).toHaveBeenCalledWith({
+        userId: 'user-1',
+        chapterId: 1,
+        selectedText: '甄士隱',
+        note: '離線修改',
+        tags: [CONFLICT_NOTE_TAG],
+      }, conflictDocId);
+    });
+
+    it('does not save a conflict copy again once it reached the server', async () => {
+      goOffline();
+      await updateNoteOrQueue(savedNote, '離線修改');
+      goOnline();
+      // The note changed elsewhere, and an earlier replay's conflict copy timed out but was sent
+      (getDoc as jest.Mock)
+        .mockResolvedValueOnce(serverNote(new Date('2026-01-03T00:00:00Z')))
+        .mockResolvedValueOnce({ exists: () => true });
+
+      const result = await replayQueuedWrites();
+
+      expect(result).toMatchObject({ replayed: 1, conflicts: 1 });
+      expect(saveNote).not.toHaveBeenCalled();
+    });
+
+    it('does not overwrite notes and highlights Firestore already saved under their reserved ids', async () => {
+      goOffline();
+      await saveNoteOrQueue({ ...newNote, isPublic: true }, post);
+      await saveHighlightOrQueue({ userId: 'user-1', chapterId: 1, selectedText: '女媧' });
+      goOnline();
+      (getDoc as jest.Mock).mockResolvedValue({ exists: () => true });
+
+      const result = await replayQueuedWrites();
+
+      expect(result).toMatchObject({ replayed: 2, failed: 0 });
+      expect(saveNote).not.toHaveBeenCalled();
+      expect(saveHighlight).not.toHaveBeenCalled();
+      expect(communityService.createPost).toHaveBeenCalledWith(post);
+      expect(getQueuedWrites()).toHaveLength(0);
+    });
+
+    it('saves an offline edit of a note deleted elsewhere as a new note', async () => {
+      goOffline();
+      await updateNoteOrQueue(savedNote, '離線修改');
+      goOnline();
+      (getDoc as jest.Mock).mockResolvedValueOnce(serverNote(null));
+
+      const result = await replayQueuedWrites();
+
+      expect(result.conflicts).toBe(1);
+      expect(saveNote).toHaveBeenCalledWith(expect.objectContaining({ note: '離線修改' }), expect.stringMatching(/^reserved-note-/));
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * @fileOverview Unit tests for the PDF writer
+ *
+ * Tests:
+ * - Text measurement and UCS-2 encoding
+ * - Fonts for Traditional and Simplified text
+ * - Object offsets in the cross-reference table
+ */
+
+import { createPdf, measurePdfText, pdfLine, pdfRect, pdfText } from '@/lib/pdf';
+
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe('PDF writer', () => {
+  it('measures Chinese full-width and ASCII half-width', () => {
+    expect(measurePdfText('紅樓夢', 10)).toBe(30);
+    expect(measurePdfText('Red 夢', 10)).toBe(30);
+  });
+
+  it('encodes text as UCS-2 and replaces characters outside the BMP', () => {
+    expect(pdfText('夢a', 10, 20, 11)).toBe('BT 0 0 0 rg /F1 11 Tf 10 20 Td <59220061> Tj ET');
+    expect(pdfText('𬘩', 0, 0, 11)).toContain('<3013>');
+    expect(pdfRect(1, 2, 3.456, 4, [1, 0.5, 0])).toBe('1 0.5 0 rg 1 2 3.46 4 re f');
+    expect(pdfLine(0, 0, 10, 0, [0, 0, 0])).toBe('0 0 0 RG 0.5 w 0 0 m 10 0 l S');
+  });
+
+  it('uses the standard font of the script', () => {
+    const traditional = decode(createPdf(['q Q'], { title: '紅樓夢', script: 'traditional' }));
+    const simplified = decode(createPdf(['q Q'], { title: '红楼梦', script: 'simplified' }));
+
+    expect(traditional).toContain('/BaseFont /MSung-Light /Encoding /UniCNS-UCS2-H');
+    expect(traditional).toContain('/Ordering (CNS1)');
+    expect(simplified).toContain('/BaseFont /STSong-Light /Encoding /UniGB-UCS2-H');
+    expect(simplified).toContain('/Ordering (GB1)');
+  });
+
+  it('records every object at its offset', () => {
+    const pdf = decode(createPdf(['q Q', pdfText('第二頁', 10, 10, 11)], {
+      title: '紅樓夢',
+      script: 'traditional',
+      date: new Date('2026-10-19T08:00:00Z'),
+    }));
+    const xref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+    const offsets = pdf.slice(xref).split('\n').slice(3).filter(line => line.endsWith(' n ')).map(line => Number(line.slice(0, 10)));
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.slice(xref, xref + 4)).toBe('xref');
+    expect(offsets).toHaveLength(10);
+    offsets.forEach((offset, index) => expect(pdf.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj\n`)));
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('/Title <FEFF7D056A135922>');
+    expect(pdf).toContain('/CreationDate (D:20261019080000Z)');
+  });
+
+  it('refuses a document without pages', () => {
+    expect(() => createPdf([], { title: '', script: 'traditional' })).toThrow('at least one page');
+  });
+});
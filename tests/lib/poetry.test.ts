@@ -0,0 +1,94 @@
+/**
+ * @fileOverview Unit tests for the poetry helpers
+ *
+ * Tests verse layout and the poetry catalogue:
+ * - Splitting a poem into lines at clause-ending marks
+ * - Locating poems in their paragraph by offset
+ * - Building and filtering the catalogue
+ */
+
+import { buildPoemCatalogue, filterPoems, placePoems, splitVerseLines } from '@/lib/poetry';
+import type { Chapter, ChapterPoem } from '@/types/chapter';
+
+const haoliao: ChapterPoem = {
+  id: 'ch1-poem-haoliao',
+  title: '好了歌',
+  form: 'song',
+  authorId: 'miaomiao-zhenren',
+  paragraphId: 'ch1-p8',
+  text: '世人都曉神仙好，惟有功名忘不了！古今將相在何方？荒塚一堆草沒了。',
+};
+
+const chapter = (id: number, poems: ChapterPoem[]): Chapter => ({
+  id,
+  title: `第${id}回`,
+  paragraphs: [{ id: `ch${id}-p1`, content: ['詩'] }],
+  poems,
+});
+
+describe('Poetry', () => {
+  describe('splitVerseLines', () => {
+    test('should end lines at clause-ending marks and keep the marks', () => {
+      expect(splitVerseLines(haoliao.text).map(line => line.text)).toEqual([
+        '世人都曉神仙好，',
+        '惟有功名忘不了！',
+        '古今將相在何方？',
+        '荒塚一堆草沒了。',
+      ]);
+    });
+
+    test('should keep closing quotation marks and trailing text', () => {
+      expect(splitVerseLines('一把辛酸淚！」誰解其中味')).toEqual([
+        { text: '一把辛酸淚！」', start: 0, end: 7 },
+        { text: '誰解其中味', start: 7, end: 12 },
+      ]);
+    });
+  });
+
+  describe('placePoems', () => {
+    test('should give the poem and its lines by offset in the paragraph', () => {
+      const text = `道是：「${haoliao.text}」士隱聽了`;
+      const [placed] = placePoems('ch1-p8', text, [haoliao]);
+
+      expect(text.slice(placed.start, placed.end)).toBe(haoliao.text);
+      expect(placed.lines.map(line => text.slice(line.start, line.end))).toEqual([
+        '世人都曉神仙好，',
+        '惟有功名忘不了！',
+        '古今將相在何方？',
+        '荒塚一堆草沒了。',
+      ]);
+    });
+
+    test('should skip poems of other paragraphs, missing text and overlaps', () => {
+      const text = '甲乙丙丁。戊己庚辛。';
+      const poem = (id: string, poemText: string, paragraphId = 'p1'): ChapterPoem =>
+        ({ id, title: id, form: 'couplet', paragraphId, text: poemText });
+
+      expect(placePoems('p1', text, [
+        poem('later', '戊己庚辛。'),
+        poem('overlap', '丁。戊己'),
+        poem('first', '甲乙丙丁。'),
+        poem('missing', '壬癸'),
+        poem('elsewhere', '甲乙', 'p2'),
+      ]).map(placed => placed.poem.id)).toEqual(['first', 'later']);
+    });
+  });
+
+  describe('catalogue', () => {
+    const judgement: ChapterPoem = { id: 'ch5-poem-x', title: '判詞', form: 'judgement', paragraphId: 'ch5-p1', text: '可嘆停機德。' };
+    const catalogue = buildPoemCatalogue([chapter(1, [haoliao]), chapter(2, []), chapter(5, [judgement])]);
+
+    test('should collect poems in chapter order with their lines', () => {
+      expect(catalogue.map(entry => [entry.chapterId, entry.id])).toEqual([[1, 'ch1-poem-haoliao'], [5, 'ch5-poem-x']]);
+      expect(catalogue[0].chapterTitle).toBe('第1回');
+      expect(catalogue[0].lines).toHaveLength(4);
+    });
+
+    test('should filter by chapter, author and form', () => {
+      expect(filterPoems(catalogue, {})).toHaveLength(2);
+      expect(filterPoems(catalogue, { chapterId: 5 }).map(entry => entry.id)).toEqual(['ch5-poem-x']);
+      expect(filterPoems(catalogue, { authorId: 'miaomiao-zhenren' }).map(entry => entry.id)).toEqual(['ch1-poem-haoliao']);
+      expect(filterPoems(catalogue, { form: 'song', chapterId: 5 })).toEqual([]);
+    });
+  });
+});
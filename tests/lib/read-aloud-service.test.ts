@@ -0,0 +1,197 @@
+/**
+ * @fileOverview Unit Tests for the Read-Aloud Engine
+ * @description Validates sentence splitting, queue building and sentence-by-sentence
+ * playback using a fake speech provider in place of the browser's speech synthesis.
+ */
+
+import {
+  ReadAloudEngine,
+  BrowserSpeechProvider,
+  buildReadAloudQueue,
+  splitIntoSentences,
+  type ReadAloudState,
+  type SpeechCallbacks,
+  type SpeechProvider,
+} from '@/lib/read-aloud-service';
+import type { Paragraph } from '@/types/chapter';
+
+/**
+ * Fake provider: records utterances and lets the test finish them explicitly
+ */
+class FakeSpeechProvider implements SpeechProvider {
+  spoken: Array<{ text: string; lang: string; rate: number }> = [];
+  paused = false;
+  private pending: SpeechCallbacks | null = null;
+
+  isSupported() {
+    return true;
+  }
+
+  speak(text: string, options: { lang: string; rate: number }, callbacks: SpeechCallbacks) {
+    this.spoken.push({ text, ...options });
+    this.pending = callbacks;
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+  }
+
+  cancel() {
+    this.pending = null;
+  }
+
+  finishCurrent() {
+    const callbacks = this.pending;
+    this.pending = null;
+    callbacks?.onEnd();
+  }
+
+  failCurrent() {
+    const callbacks = this.pending;
+    this.pending = null;
+    callbacks?.onError(new Error('synthesis-failed'));
+  }
+}
+
+const paragraphs: Paragraph[] = [
+  {
+    id: 'ch1-p1',
+    content: ['此開卷第一回也。作者自云：', { id: 'a', text: '因曾歷過一番夢幻之後', note: '' }, '，故將真事隱去。'],
+    vernacular: '（白話文）這是本書的第一回。作者自己說。',
+  },
+  { id: 'ch1-p2', content: ['你道此書從何而起？說來雖近荒唐，細玩頗有趣味。'] },
+];
+
+describe('splitIntoSentences', () => {
+  test('should split on Chinese sentence-final punctuation and keep offsets', () => {
+    const text = '你道此書從何而起？說來雖近荒唐，細玩頗有趣味。';
+    const sentences = splitIntoSentences(text);
+
+    expect(sentences.map(s => s.text)).toEqual(['你道此書從何而起？', '說來雖近荒唐，細玩頗有趣味。']);
+    sentences.forEach(s => expect(text.slice(s.start, s.end)).toBe(s.text));
+  });
+
+  test('should keep closing quotes with the sentence they end', () => {
+    const sentences = splitIntoSentences('那僧道：「妙哉，妙哉！」二人遂相攜而去。');
+    expect(sentences.map(s => s.text)).toEqual(['那僧道：「妙哉，妙哉！」', '二人遂相攜而去。']);
+  });
+
+  test('should keep trailing text without punctuation', () => {
+    expect(splitIntoSentences('好了歌。世人都曉神仙好').map(s => s.text)).toEqual(['好了歌。', '世人都曉神仙好']);
+    expect(splitIntoSentences('   ')).toEqual([]);
+  });
+});
+
+describe('buildReadAloudQueue', () => {
+  test('should read original text across annotations', () => {
+    const queue = buildReadAloudQueue(paragraphs, 'original');
+
+    expect(queue[0]).toMatchObject({ paragraphId: 'ch1-p1', text: '此開卷第一回也。', start: 0 });
+    expect(queue[1].text).toBe('作者自云：因曾歷過一番夢幻之後，故將真事隱去。');
+    expect(queue.filter(s => s.paragraphId === 'ch1-p2')).toHaveLength(2);
+  });
+
+  test('should read vernacular text without the label and skip paragraphs without it', () => {
+    const queue = buildReadAloudQueue(paragraphs, 'vernacular');
+
+    expect(queue.map(s => s.text)).toEqual(['這是本書的第一回。', '作者自己說。']);
+  });
+});
+
+describe('ReadAloudEngine', () => {
+  let provider: FakeSpeechProvider;
+  let engine: ReadAloudEngine;
+  let states: ReadAloudState[];
+
+  beforeEach(() => {
+    provider = new FakeSpeechProvider();
+    engine = new ReadAloudEngine(provider);
+    states = [];
+    engine.subscribe(state => states.push(state));
+  });
+
+  test('should speak sentences in order and return to idle at the end', () => {
+    const queue = buildReadAloudQueue([paragraphs[1]], 'original');
+    engine.play(queue);
+
+    expect(engine.getState()).toMatchObject({ status: 'playing', currentIndex: 0 });
+    provider.finishCurrent();
+    expect(engine.getState().currentIndex).toBe(1);
+    provider.finishCurrent();
+
+    expect(provider.spoken.map(u => u.text)).toEqual(queue.map(s => s.text));
+    expect(engine.getState()).toMatchObject({ status: 'idle', currentIndex: -1 });
+  });
+
+  test('should start from the requested sentence and use the configured language', () => {
+    engine.setLanguage('zh-CN');
+    engine.play(buildReadAloudQueue(paragraphs, 'original'), 2);
+
+    expect(provider.spoken[0]).toMatchObject({ text: '你道此書從何而起？', lang: 'zh-CN', rate: 1 });
+  });
+
+  test('should pause and resume without advancing', () => {
+    engine.play(buildReadAloudQueue(paragraphs, 'original'));
+    engine.pause();
+
+    expect(provider.paused).toBe(true);
+    expect(engine.getState().status).toBe('paused');
+
+    engine.resume();
+    expect(provider.paused).toBe(false);
+    expect(engine.getState()).toMatchObject({ status: 'playing', currentIndex: 0 });
+  });
+
+  test('should restart the current sentence when the rate changes', () => {
+    engine.play(buildReadAloudQueue(paragraphs, 'original'));
+    engine.setRate(1.5);
+
+    expect(provider.spoken).toHaveLength(2);
+    expect(provider.spoken[1]).toMatchObject({ text: provider.spoken[0].text, rate: 1.5 });
+    expect(engine.getState().rate).toBe(1.5);
+  });
+
+  test('should ignore callbacks from utterances that were stopped', () => {
+    engine.play(buildReadAloudQueue(paragraphs, 'original'));
+    const staleCallbacks = (provider as any).pending as SpeechCallbacks;
+    engine.stop();
+
+    staleCallbacks.onEnd();
+
+    expect(provider.spoken).toHaveLength(1);
+    expect(engine.getState().status).toBe('idle');
+  });
+
+  test('should stop on provider errors', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    engine.play(buildReadAloudQueue(paragraphs, 'original'));
+
+    provider.failCurrent();
+
+    expect(engine.getState().status).toBe('idle');
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  test('should stay idle when given an empty queue', () => {
+    engine.play([]);
+    expect(provider.spoken).toHaveLength(0);
+    expect(engine.getState().status).toBe('idle');
+  });
+});
+
+describe('BrowserSpeechProvider', () => {
+  test('should report an error when speech synthesis is unavailable', () => {
+    const provider = new BrowserSpeechProvider();
+    const onError = jest.fn();
+
+    // jsdom does not implement the Web Speech API
+    expect(provider.isSupported()).toBe(false);
+    provider.speak('你好', { lang: 'zh-TW', rate: 1 }, { onEnd: jest.fn(), onError });
+
+    expect(onError).toHaveBeenCalledWith(expect.any(Error));
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @fileOverview Unit tests for the reading position service
+ *
+ * Tests cross-device reading position sync:
+ * - Saving one position document per user and edition
+ * - Restoring a saved position
+ * - Listing recent positions for the dashboard
+ * - Progress calculation per edition
+ */
+
+import {
+  saveReadingPosition,
+  getReadingPosition,
+  getRecentReadingPositions,
+  getReadingProgressPercent,
+} from '@/lib/reading-position-service';
+import { doc, getDoc, getDocs, setDoc, where } from 'firebase/firestore';
+
+// Mock Firebase
+jest.mock('firebase/firestore');
+jest.mock('@/lib/firebase', () => ({
+  db: {}
+}));
+
+const timestamp = (iso: string) => ({ toDate: () => new Date(iso) });
+
+describe('Reading Position Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('saveReadingPosition', () => {
+    it('should overwrite the document for the user and edition', async () => {
+      (doc as jest.Mock).mockReturnValue({ path: 'readingPositions/user-123_gengchen' });
+
+      await saveReadingPosition({
+        userId: 'user-123',
+        editionId: 'gengchen',
+        chapterId: 5,
+        chapterTitle: '第五回',
+        paragraphId: 'ch5-p3',
+        page: 2,
+        columnLayout: 'double',
+      });
+
+      expect(doc).toHaveBeenCalledWith(expect.anything(), 'readingPositions', 'user-123_gengchen');
+      expect(setDoc).toHaveBeenCalledWith(
+        { path: 'readingPositions/user-123_gengchen' },
+        expect.objectContaining({
+          userId: 'user-123',
+          editionId: 'gengchen',
+          chapterId: 5,
+          paragraphId: 'ch5-p3',
+          page: 2,
+          columnLayout: 'double',
+          updatedAt: expect.any(Object),
+        })
+      );
+    });
+  });
+
+  describe('getReadingPosition', () => {
+    it('should return null when nothing has been saved', async () => {
+      (getDoc as jest.Mock).mockResolvedValue({ exists: () => false });
+
+      await expect(getReadingPosition('user-123', 'standard')).resolves.toBeNull();
+    });
+
+    it('should convert the stored document', async () => {
+      (getDoc as jest.Mock).mockResolvedValue({
+        exists: () => true,
+        id: 'user-123_standard',
+        data: () => ({
+          userId: 'user-123',
+          editionId: 'standard',
+          chapterId: 3,
+          paragraphId: 'ch3-p7',
+          page: 1,
+          columnLayout: 'single',
+          updatedAt: timestamp('2025-01-02T03:04:05Z'),
+        }),
+      });
+
+      const position = await getReadingPosition('user-123', 'standard');
+
+      expect(position).toMatchObject({
+        id: 'user-123_standard',
+        chapterId: 3,
+        paragraphId: 'ch3-p7',
+        columnLayout: 'single',
+      });
+      expect(position?.updatedAt.toISOString()).toBe('2025-01-02T03:04:05.000Z');
+    });
+
+    it('should default missing fields from older documents', async () => {
+      (getDoc as jest.Mock).mockResolvedValue({
+        exists: () => true,
+        id: 'user-123_standard',
+        data: () => ({ userId: 'user-123', editionId: 'standard', chapterId: 2 }),
+      });
+
+      const position = await getReadingPosition('user-123', 'standard');
+
+      expect(position).toMatchObject({ paragraphId: null, page: 1, columnLayout: 'single' });
+    });
+
+    it('should keep the vertical layout and fall back from unknown ones', async () => {
+      const stored = (columnLayout: string) => ({
+        exists: () => true,
+        id: 'user-123_standard',
+        data: () => ({ userId: 'user-123', editionId: 'standard', chapterId: 2, page: 4, columnLayout }),
+      });
+
+      (getDoc as jest.Mock).mockResolvedValue(stored('vertical'));
+      await expect(getReadingPosition('user-123', 'standard')).resolves.toMatchObject({ page: 4, columnLayout: 'vertical' });
+
+      (getDoc as jest.Mock).mockResolvedValue(stored('triple'));
+      await expect(getReadingPosition('user-123', 'standard')).resolves.toMatchObject({ columnLayout: 'single' });
+    });
+  });
+
+  describe('getRecentReadingPositions', () => {
+    it('should query by user and sort newest first', async () => {
+      (getDocs as jest.Mock).mockResolvedValue({
+        docs: [
+          { id: 'u_standard', data: () => ({ userId: 'u', editionId: 'standard', chapterId: 10, updatedAt: timestamp('2025-01-01T00:00:00Z') }) },
+          { id: 'u_chengjia', data: () => ({ userId: 'u', editionId: 'chengjia', chapterId: 90, updatedAt: timestamp('2025-03-01T00:00:00Z') }) },
+          { id: 'u_gengchen', data: () => ({ userId: 'u', editionId: 'gengchen', chapterId: 40, updatedAt: timestamp('2025-02-01T00:00:00Z') }) },
+        ],
+      });
+
+      const positions = await getRecentReadingPositions('u', 2);
+
+      expect(where).toHaveBeenCalledWith('userId', '==', 'u');
+      expect(positions.map(p => p.editionId)).toEqual(['chengjia', 'gengchen']);
+    });
+  });
+
+  describe('getReadingProgressPercent', () => {
+    it('should measure progress against the edition length', () => {
+      expect(getReadingProgressPercent({ editionId: 'standard', chapterId: 60 })).toBe(50);
+      // 庚辰本 has 80 chapters
+      expect(getReadingProgressPercent({ editionId: 'gengchen', chapterId: 40 })).toBe(50);
+    });
+  });
+});
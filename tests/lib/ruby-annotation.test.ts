@@ -0,0 +1,90 @@
+/**
+ * @fileOverview Unit tests for pinyin / zhuyin ruby annotation
+ *
+ * Tests the readings shown above the text:
+ * - Conversion of numbered-tone pinyin to zhuyin
+ * - Chapter overrides for polyphonic characters
+ * - Filtering by difficulty level
+ * - Settings restored from storage
+ */
+
+import {
+  DEFAULT_RUBY_SETTINGS,
+  getParagraphReadings,
+  getParagraphRuby,
+  normalizeRubySettings,
+  pinyinToZhuyin,
+} from '@/lib/ruby-annotation';
+import { getCharacterReading } from '@/lib/character-readings';
+
+describe('pinyinToZhuyin', () => {
+  test('should convert initials, finals and tones', () => {
+    expect(pinyinToZhuyin('hong2 lou2 meng4')).toBe('ㄏㄨㄥˊ ㄌㄡˊ ㄇㄥˋ');
+    expect(pinyinToZhuyin('zhen1 shi4 yin3')).toBe('ㄓㄣ ㄕˋ ㄧㄣˇ');
+  });
+
+  test('should expand y, w and contracted finals', () => {
+    expect(pinyinToZhuyin('you3 yue4 yun2 wei4 wen2')).toBe('ㄧㄡˇ ㄩㄝˋ ㄩㄣˊ ㄨㄟˋ ㄨㄣˊ');
+    expect(pinyinToZhuyin('liu2 gui4 lun2')).toBe('ㄌㄧㄡˊ ㄍㄨㄟˋ ㄌㄨㄣˊ');
+  });
+
+  test('should read u after j, q and x as ü', () => {
+    expect(pinyinToZhuyin('ju1 que4 xuan1 nü3 lv4')).toBe('ㄐㄩ ㄑㄩㄝˋ ㄒㄩㄢ ㄋㄩˇ ㄌㄩˋ');
+  });
+
+  test('should drop the empty final and put the neutral tone first', () => {
+    expect(pinyinToZhuyin('zhi1 ci2 si4 ri4')).toBe('ㄓ ㄘˊ ㄙˋ ㄖˋ');
+    expect(pinyinToZhuyin('le5 de')).toBe('˙ㄌㄜ ˙ㄉㄜ');
+  });
+
+  test('should leave invalid syllables unchanged', () => {
+    expect(pinyinToZhuyin('abc9 xyz1')).toBe('abc9 xyz1');
+  });
+});
+
+describe('getParagraphReadings', () => {
+  test('should use the default reading of each character', () => {
+    const { readings, corrected } = getParagraphReadings('ch1-p1', '鼓樂，');
+    expect(readings).toEqual(['gu3', getCharacterReading('樂')?.pinyin, null]);
+    expect(corrected).toEqual([false, false, false]);
+  });
+
+  test('should apply overrides wherever the phrase occurs', () => {
+    const { readings, corrected } = getParagraphReadings('ch1-p1', '鼓樂喧闐，鼓樂', [{ text: '鼓樂', pinyin: 'gu3 yue4' }]);
+    expect(readings[1]).toBe('yue4');
+    expect(readings[6]).toBe('yue4');
+    expect(corrected[0]).toBe(false);
+    expect(corrected[1]).toBe(true);
+  });
+
+  test('should limit overrides to their paragraph', () => {
+    const overrides = [{ text: '好了', pinyin: 'hao3 liao3', paragraphId: 'ch1-p8' }];
+    expect(getParagraphReadings('ch1-p8', '好了', overrides).readings).toEqual(['hao3', 'liao3']);
+    expect(getParagraphReadings('ch1-p2', '好了', overrides).readings).toEqual(['hao3', 'le5']);
+  });
+});
+
+describe('getParagraphRuby', () => {
+  test('should show nothing when ruby is off', () => {
+    expect(getParagraphRuby('ch1-p1', '甄士隱', [], DEFAULT_RUBY_SETTINGS)).toEqual([null, null, null]);
+  });
+
+  test('should show pinyin or zhuyin for every character', () => {
+    expect(getParagraphRuby('ch1-p1', '甄士隱', [], { mode: 'pinyin', minLevel: 1 })).toEqual(['zhēn', 'shì', 'yǐn']);
+    expect(getParagraphRuby('ch1-p1', '甄士隱', [], { mode: 'zhuyin', minLevel: 1 })).toEqual(['ㄓㄣ', 'ㄕˋ', 'ㄧㄣˇ']);
+  });
+
+  test('should skip characters below the chosen level unless an override changes them', () => {
+    const overrides = [{ text: '鼓樂', pinyin: 'gu3 yue4' }];
+    const ruby = getParagraphRuby('ch1-p1', '一個甄鼓樂', overrides, { mode: 'pinyin', minLevel: 4 });
+    expect(ruby).toEqual([null, null, 'zhēn', null, 'yuè']);
+  });
+});
+
+describe('normalizeRubySettings', () => {
+  test('should keep valid settings and fall back for the rest', () => {
+    expect(normalizeRubySettings({ mode: 'zhuyin', minLevel: 3 })).toEqual({ mode: 'zhuyin', minLevel: 3 });
+    expect(normalizeRubySettings({ mode: 'latin', minLevel: 7 })).toEqual(DEFAULT_RUBY_SETTINGS);
+    expect(normalizeRubySettings(null)).toEqual(DEFAULT_RUBY_SETTINGS);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @fileOverview Unit Tests for Sentence Alignment
+ * @description Validates length-based alignment of original and vernacular sentences,
+ * use of stored alignments and the spans used by the parallel reading mode.
+ */
+
+import { alignParagraph, alignSentences, isCompleteAlignment } from '@/lib/sentence-alignment';
+import type { Paragraph } from '@/types/chapter';
+
+describe('alignSentences', () => {
+  test('should pair sentences one to one when lengths agree', () => {
+    expect(alignSentences([8, 20, 10], [12, 30, 16])).toEqual([
+      { original: [0, 1], vernacular: [0, 1] },
+      { original: [1, 2], vernacular: [1, 2] },
+      { original: [2, 3], vernacular: [2, 3] },
+    ]);
+  });
+
+  test('should merge sentences when one side splits a sentence in two', () => {
+    // The middle original sentence is rendered as two vernacular sentences
+    expect(alignSentences([10, 30, 10], [15, 22, 23, 15])).toEqual([
+      { original: [0, 1], vernacular: [0, 1] },
+      { original: [1, 2], vernacular: [1, 3] },
+      { original: [2, 3], vernacular: [3, 4] },
+    ]);
+    expect(alignSentences([10, 12, 10], [15, 36])).toEqual([
+      { original: [0, 1], vernacular: [0, 1] },
+      { original: [1, 3], vernacular: [1, 2] },
+    ]);
+  });
+
+  test('should return nothing when either side is empty', () => {
+    expect(alignSentences([], [10])).toEqual([]);
+    expect(alignSentences([10], [])).toEqual([]);
+  });
+});
+
+describe('isCompleteAlignment', () => {
+  test('should require consecutive groups covering both sides', () => {
+    expect(isCompleteAlignment([{ original: [0, 1], vernacular: [0, 2] }], 1, 2)).toBe(true);
+    expect(isCompleteAlignment([{ original: [0, 1], vernacular: [0, 1] }], 1, 2)).toBe(false);
+    expect(isCompleteAlignment([{ original: [1, 2], vernacular: [0, 1] }], 2, 1)).toBe(false);
+    expect(isCompleteAlignment([{ original: [0, 0], vernacular: [0, 0] }, { original: [0, 1], vernacular: [0, 1] }], 1, 1)).toBe(false);
+  });
+});
+
+describe('alignParagraph', () => {
+  const paragraph: Paragraph = {
+    id: 'ch1-p5',
+    content: ['嫡妻封氏，情性賢淑，深明禮義。', '家中雖不甚富貴，然本地便也推為望族了。'],
+    vernacular: '（白話文）他的正妻封氏，性情賢淑，深明禮儀。家裡雖然不算非常富貴，但在當地也被推崇為有聲望的家族。',
+  };
+
+  test('should return spans covering both texts', () => {
+    const segments = alignParagraph(paragraph);
+
+    expect(segments.map(s => s.original.text)).toEqual(['嫡妻封氏，情性賢淑，深明禮義。', '家中雖不甚富貴，然本地便也推為望族了。']);
+    expect(segments.map(s => s.vernacular.text)).toEqual(['他的正妻封氏，性情賢淑，深明禮儀。', '家裡雖然不算非常富貴，但在當地也被推崇為有聲望的家族。']);
+    expect(segments[1].original).toMatchObject({ start: 15, end: 34 });
+  });
+
+  test('should follow a stored alignment that fits the text', () => {
+    const segments = alignParagraph({ ...paragraph, alignment: [{ original: [0, 2], vernacular: [0, 2] }] });
+    expect(segments).toHaveLength(1);
+    expect(segments[0].original.end).toBe(34);
+  });
+
+  test('should fall back to automatic alignment when the stored one no longer fits', () => {
+    const segments = alignParagraph({ ...paragraph, alignment: [{ original: [0, 3], vernacular: [0, 2] }] });
+    expect(segments).toHaveLength(2);
+  });
+
+  test('should return nothing for paragraphs without vernacular', () => {
+    expect(alignParagraph({ content: ['只有原文。'] })).toEqual([]);
+  });
+});
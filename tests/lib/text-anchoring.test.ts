@@ -0,0 +1,100 @@
+/**
+ * @fileOverview Unit Tests for Text Anchoring
+ * @description Validates position anchors for spans of chapter text and
+ * re-anchoring after the chapter text is corrected.
+ */
+
+import { createTextAnchor, findApproximateMatch, resolveTextAnchor } from '@/lib/text-anchoring';
+import type { Paragraph } from '@/types/chapter';
+
+const paragraphs: Paragraph[] = [
+  { id: 'ch1-p1', content: ['滿紙荒唐言，一把辛酸淚。都云作者痴，誰解其中味？'] },
+  { id: 'ch1-p2', content: ['士隱聽了，大叫：「妙哉，妙哉！」那僧道：「妙哉，妙哉！」遂相攜而去。'] },
+];
+const text = (p: Paragraph) => p.content.join('');
+
+describe('createTextAnchor', () => {
+  test('should record offsets and surrounding context', () => {
+    const anchor = createTextAnchor('ch1-p1', text(paragraphs[0]), 6, 11);
+
+    expect(anchor).toEqual({
+      paragraphId: 'ch1-p1',
+      startOffset: 6,
+      endOffset: 11,
+      prefix: '滿紙荒唐言，',
+      suffix: '。都云作者痴，誰解其中味？',
+    });
+  });
+});
+
+describe('resolveTextAnchor', () => {
+  // The second 「妙哉，妙哉！」 in ch1-p2
+  const secondQuote = text(paragraphs[1]).lastIndexOf('妙哉，妙哉！');
+  const anchor = createTextAnchor('ch1-p2', text(paragraphs[1]), secondQuote, secondQuote + 6);
+
+  test('should resolve exactly when the offsets still hold the text', () => {
+    expect(resolveTextAnchor('妙哉，妙哉！', anchor, paragraphs)).toMatchObject({
+      paragraphId: 'ch1-p2',
+      startOffset: secondQuote,
+      status: 'exact',
+    });
+  });
+
+  test('should tell repeated phrases apart by context after text moves', () => {
+    const corrected: Paragraph[] = [
+      paragraphs[0],
+      { id: 'ch1-p2', content: ['士隱聽了，便大叫道：「妙哉，妙哉！」那僧道：「妙哉，妙哉！」遂相攜而去。'] },
+    ];
+    const newSecond = text(corrected[1]).lastIndexOf('妙哉，妙哉！');
+
+    expect(resolveTextAnchor('妙哉，妙哉！', anchor, corrected)).toMatchObject({
+      startOffset: newSecond,
+      endOffset: newSecond + 6,
+      status: 'moved',
+    });
+  });
+
+  test('should follow text into another paragraph', () => {
+    const split: Paragraph[] = [
+      paragraphs[0],
+      { id: 'ch1-p2', content: ['士隱聽了，大叫：「妙哉，妙哉！」'] },
+      { id: 'ch1-p3', content: ['那僧道：「妙哉，妙哉！」遂相攜而去。'] },
+    ];
+
+    expect(resolveTextAnchor('妙哉，妙哉！', anchor, split)).toMatchObject({ paragraphId: 'ch1-p3', startOffset: 5, status: 'moved' });
+  });
+
+  test('should re-anchor approximately when the span itself was corrected', () => {
+    const quoteAnchor = createTextAnchor('ch1-p1', text(paragraphs[0]), 0, 11);
+    const corrected: Paragraph[] = [{ id: 'ch1-p1', content: ['滿紙荒唐言，一把心酸淚。都云作者痴，誰解其中味？'] }];
+
+    expect(resolveTextAnchor('滿紙荒唐言，一把辛酸淚', quoteAnchor, corrected)).toMatchObject({
+      paragraphId: 'ch1-p1',
+      startOffset: 0,
+      endOffset: 11,
+      text: '滿紙荒唐言，一把心酸淚',
+      status: 'fuzzy',
+    });
+  });
+
+  test('should give up when the text is gone', () => {
+    const quoteAnchor = createTextAnchor('ch1-p1', text(paragraphs[0]), 12, 17);
+    expect(resolveTextAnchor('都云作者痴', quoteAnchor, [{ id: 'ch1-p1', content: ['假作真時真亦假'] }])).toBeNull();
+  });
+
+  test('should place records without an anchor at the first occurrence', () => {
+    expect(resolveTextAnchor('妙哉', undefined, paragraphs)).toMatchObject({
+      paragraphId: 'ch1-p2',
+      startOffset: text(paragraphs[1]).indexOf('妙哉'),
+      status: 'unanchored',
+    });
+  });
+});
+
+describe('findApproximateMatch', () => {
+  test('should find the closest substring within the error budget', () => {
+    expect(findApproximateMatch('假作真時真亦假', '紅樓夢曲', 1)).toBeNull();
+    expect(findApproximateMatch('假作真時真亦假', '作真時', 0)).toEqual({ start: 1, end: 4, errors: 0 });
+    expect(findApproximateMatch('無為有處有還無', '無為有處無還', 1)).toMatchObject({ start: 0, errors: 1 });
+  });
+});
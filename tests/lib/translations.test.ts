@@ -98,23 +98,19 @@ describe('Translations Module - Task D.1.1 Internationalization Support', () =>
       });
     });
 
-    test('should provide English translation placeholder', () => {
-      const result = transformTextForLang(sampleText, 'en-US', 'original');
-      
-      // Should contain English translation indicator
-      expect(result).toContain('[EN]');
-      expect(result).toContain('Full original text translation pending');
-    });
-
-    test('should handle different text types for English', () => {
+    test('should keep the original text for English readers', () => {
       const textTypes = ['original', 'vernacular', 'annotation'] as const;
-      
+
       textTypes.forEach(type => {
-        const result = transformTextForLang(sampleText, 'en-US', type);
-        expect(result).toContain(`[EN${type === 'original' ? '' : ` ${type.charAt(0).toUpperCase() + type.slice(1)}`}]`);
+        expect(transformTextForLang(sampleText, 'en-US', type)).toBe(sampleText);
       });
     });
 
+    test('should convert context-dependent characters by phrase', () => {
+      expect(transformTextForLang('乾坤乾淨，著名著實', 'zh-CN', 'original')).toBe('乾坤干净，著名着实');
+      expect(transformTextForLang('頭髮發白', 'zh-CN', 'annotation')).toBe('头发发白');
+    });
+
     test('should handle empty or undefined text', () => {
       expect(transformTextForLang('', 'zh-TW', 'original')).toBe('');
       expect(transformTextForLang(undefined, 'zh-TW', 'original')).toBe('');
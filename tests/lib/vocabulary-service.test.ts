@@ -0,0 +1,81 @@
+/**
+ * @fileOverview Unit tests for the vocabulary service
+ *
+ * Tests the per-user vocabulary list:
+ * - Adding a word on its first lookup
+ * - Counting later lookups
+ * - Listing words most recently looked up first
+ */
+
+import { recordLookup, getVocabularyByUser } from '@/lib/vocabulary-service';
+import { doc, getDoc, getDocs, increment, setDoc, updateDoc } from 'firebase/firestore';
+import type { DictionaryEntry } from '@/types/dictionary';
+
+jest.mock('firebase/firestore');
+jest.mock('@/lib/firebase', () => ({
+  db: {}
+}));
+
+const entry: DictionaryEntry = {
+  traditional: '飫甘饜肥',
+  simplified: '饫甘餍肥',
+  pinyin: 'yu4 gan1 yan4 fei2',
+  definitions: ['飽食甘美肥膩的食物，形容生活豪奢。'],
+};
+
+const timestamp = (date: Date) => ({ toDate: () => date });
+
+describe('Vocabulary Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (doc as jest.Mock).mockImplementation((_db, collection, id) => ({ path: `${collection}/${id}` }));
+  });
+
+  describe('recordLookup', () => {
+    it('should add a word on its first lookup', async () => {
+      (getDoc as jest.Mock).mockResolvedValue({ exists: () => false });
+
+      await recordLookup('user-1', entry, { chapterId: 1, selectedText: '飫甘饜肥之日' });
+
+      expect(setDoc).toHaveBeenCalledWith({ path: 'vocabulary/user-1_飫甘饜肥' }, expect.objectContaining({
+        userId: 'user-1',
+        word: '飫甘饜肥',
+        pinyin: 'yu4 gan1 yan4 fei2',
+        definition: '飽食甘美肥膩的食物，形容生活豪奢。',
+        lookupCount: 1,
+        chapterId: 1,
+        context: '飫甘饜肥之日',
+      }));
+      expect(updateDoc).not.toHaveBeenCalled();
+    });
+
+    it('should count a repeated lookup', async () => {
+      (getDoc as jest.Mock).mockResolvedValue({ exists: () => true });
+      (increment as jest.Mock).mockReturnValue('increment(1)');
+
+      await recordLookup('user-1', entry);
+
+      expect(updateDoc).toHaveBeenCalledWith({ path: 'vocabulary/user-1_飫甘饜肥' }, expect.objectContaining({
+        lookupCount: 'increment(1)',
+        chapterId: null,
+      }));
+      expect(setDoc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getVocabularyByUser', () => {
+    it('should list words most recently looked up first', async () => {
+      (getDocs as jest.Mock).mockResolvedValue({
+        docs: [
+          { id: 'user-1_飫', data: () => ({ userId: 'user-1', word: '飫', lookupCount: 2, lastLookedUpAt: timestamp(new Date('2026-01-01')) }) },
+          { id: 'user-1_鶉衣', data: () => ({ userId: 'user-1', word: '鶉衣', chapterId: 1, lastLookedUpAt: timestamp(new Date('2026-02-01')) }) },
+        ],
+      });
+
+      const words = await getVocabularyByUser('user-1');
+
+      expect(words.map(word => word.word)).toEqual(['鶉衣', '飫']);
+      expect(words[1]).toMatchObject({ lookupCount: 2, simplified: '飫' });
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * @fileOverview Unit tests for the ZIP archive writer
+ *
+ * Tests:
+ * - CRC-32 against the standard check value
+ * - Local headers, stored data and the central directory
+ */
+
+import { crc32, createZip } from '@/lib/zip';
+
+const view = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset, data.byteLength);
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe('ZIP writer', () => {
+  it('computes the standard CRC-32 check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('stores entries uncompressed in the given order', () => {
+    const zip = createZip([
+      { name: 'mimetype', data: 'application/epub+zip' },
+      { name: 'OEBPS/第一回.xhtml', data: '甄士隱' },
+    ], new Date(2026, 0, 2, 3, 4, 6));
+    const header = view(zip);
+
+    expect(header.getUint32(0, true)).toBe(0x04034b50);
+    expect(header.getUint16(8, true)).toBe(0); // stored
+    expect(header.getUint16(26, true)).toBe('mimetype'.length);
+    expect(decode(zip.subarray(30, 38))).toBe('mimetype');
+    expect(decode(zip.subarray(38, 58))).toBe('application/epub+zip');
+
+    // Second local header follows the first entry's data
+    expect(header.getUint32(58, true)).toBe(0x04034b50);
+    const nameLength = header.getUint16(58 + 26, true);
+    expect(decode(zip.subarray(88, 88 + nameLength))).toBe('OEBPS/第一回.xhtml');
+  });
+
+  it('ends with a central directory listing every entry', () => {
+    const zip = createZip([
+      { name: 'a.txt', data: 'a' },
+      { name: 'b.txt', data: new Uint8Array([1, 2, 3]) },
+    ]);
+    const end = view(zip.subarray(zip.length - 22));
+
+    expect(end.getUint32(0, true)).toBe(0x06054b50);
+    expect(end.getUint16(10, true)).toBe(2);
+
+    const centralOffset = end.getUint32(16, true);
+    const central = view(zip.subarray(centralOffset));
+    expect(central.getUint32(0, true)).toBe(0x02014b50);
+    expect(central.getUint32(16, true)).toBe(crc32(new TextEncoder().encode('a')));
+    expect(central.getUint32(42, true)).toBe(0);
+    expect(centralOffset + end.getUint32(12, true)).toBe(zip.length - 22);
+  });
+});
@@ -54,6 +54,7 @@ module.exports = {
   Download: createMockIcon('Download'),
   Upload: createMockIcon('Upload'),
   Share: createMockIcon('Share'),
+  BarChart3: createMockIcon('BarChart3'),
   Copy: createMockIcon('Copy'),
   ExternalLink: createMockIcon('ExternalLink'),
   Info: createMockIcon('Info'),